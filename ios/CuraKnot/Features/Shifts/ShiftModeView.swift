@@ -11,6 +11,8 @@ struct CareShift: Identifiable, Codable {
     var endAt: Date
     var status: Status
     var checklistJson: [ChecklistItem]
+    /// Root task of the checklist started with start_shift_checklist
+    var checklistTaskId: UUID?
     var summaryHandoffId: UUID?
     var notes: String?
     let createdAt: Date
@@ -79,6 +81,7 @@ struct CareShift: Identifiable, Codable {
         case endAt = "end_at"
         case status
         case checklistJson = "checklist_json"
+        case checklistTaskId = "checklist_task_id"
         case summaryHandoffId = "summary_handoff_id"
         case notes
         case createdAt = "created_at"
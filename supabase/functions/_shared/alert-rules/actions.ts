@@ -0,0 +1,311 @@
+/**
+ * Alert rule actions
+ *
+ * Actions run in the order the rule lists them, so a NOTIFY_ASSIGNEE after
+ * a REASSIGN reaches the new owner. Without `execute` every action resolves
+ * its target and reports PLANNED, writing nothing.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type {
+  Action,
+  ActionResult,
+  AlertRule,
+  MatchedTask,
+  RuleMatch,
+} from "./types.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const ASSIGNABLE_ROLES = ["OWNER", "ADMIN", "CONTRIBUTOR"];
+
+/** Circle state actions choose targets from, loaded once per rule */
+export interface CircleContext {
+  members: { user_id: string; role: string }[];
+  /** user -> open tasks in the circle */
+  openTasks: Map<string, number>;
+  /** patient -> owner of the shift covering now */
+  onShift: Map<string, string>;
+}
+
+/** Returns null on a database error */
+export async function loadCircleContext(
+  supabase: SupabaseClient,
+  circleId: string,
+  now: Date,
+): Promise<CircleContext | null> {
+  const [membersResult, tasksResult, shiftsResult] = await Promise.all([
+    supabase
+      .from("circle_members")
+      .select("user_id, role")
+      .eq("circle_id", circleId)
+      .eq("status", "ACTIVE"),
+    supabase
+      .from("tasks")
+      .select("owner_user_id")
+      .eq("circle_id", circleId)
+      .eq("status", "OPEN"),
+    supabase
+      .from("care_shifts")
+      .select("patient_id, owner_user_id")
+      .eq("circle_id", circleId)
+      .neq("status", "CANCELED")
+      .lte("start_at", now.toISOString())
+      .gt("end_at", now.toISOString()),
+  ]);
+
+  const failed = [membersResult, tasksResult, shiftsResult].find(
+    (r) => r.error,
+  );
+  if (failed) {
+    console.error("Failed to load circle for alert rule:", failed.error!.code);
+    return null;
+  }
+
+  const openTasks = new Map<string, number>();
+  for (const task of (tasksResult.data ?? []) as { owner_user_id: string }[]) {
+    openTasks.set(
+      task.owner_user_id,
+      (openTasks.get(task.owner_user_id) ?? 0) + 1,
+    );
+  }
+  const onShift = new Map<string, string>();
+  for (const shift of (shiftsResult.data ?? []) as {
+    patient_id: string;
+    owner_user_id: string;
+  }[]) {
+    onShift.set(shift.patient_id, shift.owner_user_id);
+  }
+
+  return {
+    members: (membersResult.data ?? []) as { user_id: string; role: string }[],
+    openTasks,
+    onShift,
+  };
+}
+
+/** The task owner, or whoever is on shift for the patient */
+function assigneeOf(match: RuleMatch, context: CircleContext): string | null {
+  if (match.task) return match.task.owner_user_id;
+  return match.patient_id
+    ? (context.onShift.get(match.patient_id) ?? null)
+    : null;
+}
+
+function isAssignable(context: CircleContext, userId: string): boolean {
+  return context.members.some(
+    (m) => m.user_id === userId && ASSIGNABLE_ROLES.includes(m.role),
+  );
+}
+
+/**
+ * LEAST_LOADED prefers whoever is on shift for the patient, then the
+ * assignable member with the fewest open tasks
+ */
+function reassignTarget(
+  action: Extract<Action, { type: "REASSIGN" }>,
+  match: RuleMatch,
+  context: CircleContext,
+): string | null {
+  const current = match.task!.owner_user_id;
+  if (action.strategy === "USER") {
+    return action.user_id !== current && isAssignable(context, action.user_id!)
+      ? action.user_id!
+      : null;
+  }
+
+  const onShift = match.patient_id
+    ? context.onShift.get(match.patient_id)
+    : undefined;
+  if (onShift && onShift !== current && isAssignable(context, onShift)) {
+    return onShift;
+  }
+
+  const candidates = context.members
+    .filter((m) => m.user_id !== current && ASSIGNABLE_ROLES.includes(m.role))
+    .map((m) => m.user_id)
+    .sort(
+      (a, b) =>
+        (context.openTasks.get(a) ?? 0) - (context.openTasks.get(b) ?? 0) ||
+        a.localeCompare(b),
+    );
+  return candidates[0] ?? null;
+}
+
+async function reassign(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  task: MatchedTask,
+  targetId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({ owner_user_id: targetId })
+    .eq("id", task.id)
+    .eq("owner_user_id", task.owner_user_id)
+    .eq("status", "OPEN")
+    .select("id");
+  if (error || !data || data.length === 0) {
+    if (error) console.error("Failed to reassign task:", error.code);
+    return false;
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id: rule.circle_id,
+    actor_user_id: rule.created_by,
+    event_type: "TASK_REASSIGNED",
+    object_type: "task",
+    object_id: task.id,
+    metadata_json: {
+      alert_rule_id: rule.id,
+      from_user_id: task.owner_user_id,
+      to_user_id: targetId,
+    },
+  });
+  return true;
+}
+
+/** Reflects a reassignment in the match and the circle's task counts */
+function moveTask(
+  context: CircleContext,
+  task: MatchedTask,
+  targetId: string,
+): void {
+  context.openTasks.set(
+    task.owner_user_id,
+    Math.max(0, (context.openTasks.get(task.owner_user_id) ?? 1) - 1),
+  );
+  context.openTasks.set(targetId, (context.openTasks.get(targetId) ?? 0) + 1);
+  task.owner_user_id = targetId;
+}
+
+/**
+ * Runs a rule's actions for one match. Notifications are queued together
+ * at the end; if that fails the notify results are reported FAILED.
+ */
+export async function runActions(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  match: RuleMatch,
+  context: CircleContext,
+  execute: boolean,
+  now: Date,
+): Promise<ActionResult[]> {
+  const results: ActionResult[] = [];
+  const notified = new Set<string>();
+  const ok = execute ? "DONE" : "PLANNED";
+
+  const notify = (type: ActionResult["type"], userIds: string[]) => {
+    const fresh = userIds.filter((id) => !notified.has(id));
+    fresh.forEach((id) => notified.add(id));
+    results.push(
+      userIds.length === 0
+        ? { type, status: "SKIPPED", reason: "No recipient" }
+        : { type, status: ok, user_ids: userIds },
+    );
+  };
+
+  for (const action of rule.actions) {
+    switch (action.type) {
+      case "NOTIFY_ASSIGNEE": {
+        const assignee = assigneeOf(match, context);
+        notify(action.type, assignee ? [assignee] : []);
+        break;
+      }
+      case "NOTIFY_ADMINS":
+        notify(
+          action.type,
+          context.members
+            .filter((m) => m.role === "ADMIN" || m.role === "OWNER")
+            .map((m) => m.user_id),
+        );
+        break;
+      case "REASSIGN": {
+        const target = match.task
+          ? reassignTarget(action, match, context)
+          : null;
+        if (!target) {
+          results.push({
+            type: action.type,
+            status: "SKIPPED",
+            reason: "No one to reassign to",
+          });
+        } else if (
+          execute &&
+          !(await reassign(supabase, rule, match.task!, target))
+        ) {
+          results.push({ type: action.type, status: "FAILED" });
+        } else {
+          moveTask(context, match.task!, target);
+          // The new owner is told why the task landed on them
+          notified.add(target);
+          results.push({ type: action.type, status: ok, user_ids: [target] });
+        }
+        break;
+      }
+      case "CREATE_FOLLOW_UP": {
+        const ownerId = assigneeOf(match, context) ?? rule.created_by;
+        if (!execute) {
+          results.push({ type: action.type, status: ok, user_ids: [ownerId] });
+          break;
+        }
+        const { data: task, error } = await supabase
+          .from("tasks")
+          .insert({
+            circle_id: rule.circle_id,
+            patient_id: match.patient_id,
+            created_by: rule.created_by,
+            owner_user_id: ownerId,
+            title: action.title ?? `Follow up: ${match.title}`,
+            description: match.body,
+            due_at: new Date(
+              now.getTime() + action.due_in_hours * HOUR_MS,
+            ).toISOString(),
+            priority: action.priority,
+          })
+          .select("id")
+          .single();
+        if (error || !task) {
+          console.error("Failed to create follow-up task:", error?.code);
+          results.push({ type: action.type, status: "FAILED" });
+        } else {
+          results.push({
+            type: action.type,
+            status: ok,
+            user_ids: [ownerId],
+            task_id: task.id,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  if (execute && notified.size > 0) {
+    const { error } = await supabase.from("notification_outbox").insert(
+      [...notified].map((userId) => ({
+        user_id: userId,
+        circle_id: rule.circle_id,
+        notification_type: "ALERT_RULE",
+        title: match.title,
+        body: match.body,
+        data_json: {
+          type: "alert_rule",
+          alert_rule_id: rule.id,
+          subject_type: match.subject_type,
+          subject_id: match.subject_id,
+          patient_id: match.patient_id,
+        },
+      })),
+    );
+    if (error) {
+      console.error("Failed to queue alert notifications:", error.code);
+      for (const result of results) {
+        if (result.type.startsWith("NOTIFY_") && result.status === "DONE") {
+          result.status = "FAILED";
+        }
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,199 @@
+/**
+ * Alert rule conditions
+ *
+ * Each condition queries the rule's circle (narrowed to its patient, when
+ * set) and returns what currently matches. Cooldowns are applied by the
+ * caller, so a condition reports every match.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { AlertRule, Condition, MatchedTask, RuleMatch } from "./types.ts";
+
+/** Most matches reported per rule and evaluation */
+export const MAX_MATCHES = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Returns null on a database error */
+export function findMatches(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  now: Date,
+): Promise<RuleMatch[] | null> {
+  const condition = rule.condition;
+  switch (condition.rule_key) {
+    case "TASK_OVERDUE":
+      return overdueTasks(supabase, rule, condition, now);
+    case "HANDOFF_GAP":
+      return handoffGaps(supabase, rule, condition, now);
+    case "MED_DOSES_SKIPPED":
+      return skippedDoses(supabase, rule, condition, now);
+  }
+}
+
+async function overdueTasks(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  condition: Extract<Condition, { rule_key: "TASK_OVERDUE" }>,
+  now: Date,
+): Promise<RuleMatch[] | null> {
+  const cutoff = new Date(now.getTime() - condition.overdue_hours * HOUR_MS);
+
+  let query = supabase
+    .from("tasks")
+    .select("id, patient_id, owner_user_id, title, priority, due_at")
+    .eq("circle_id", rule.circle_id)
+    .eq("status", "OPEN")
+    .in("priority", condition.priorities)
+    .lt("due_at", cutoff.toISOString())
+    .order("due_at")
+    .limit(MAX_MATCHES);
+  if (rule.patient_id) query = query.eq("patient_id", rule.patient_id);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to fetch overdue tasks:", error.code);
+    return null;
+  }
+
+  return ((data ?? []) as (MatchedTask & { patient_id: string | null })[]).map(
+    (task) => {
+      const hours = Math.floor(
+        (now.getTime() - new Date(task.due_at).getTime()) / HOUR_MS,
+      );
+      return {
+        subject_type: "task",
+        subject_id: task.id,
+        patient_id: task.patient_id,
+        title: `Overdue: ${task.title}`,
+        body: `${task.priority} priority task is ${hours} hours overdue`,
+        details: { due_at: task.due_at, hours_overdue: hours },
+        task: {
+          id: task.id,
+          owner_user_id: task.owner_user_id,
+          title: task.title,
+          priority: task.priority,
+          due_at: task.due_at,
+        },
+      };
+    },
+  );
+}
+
+async function handoffGaps(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  condition: Extract<Condition, { rule_key: "HANDOFF_GAP" }>,
+  now: Date,
+): Promise<RuleMatch[] | null> {
+  const cutoff = new Date(now.getTime() - condition.days * DAY_MS);
+
+  // Patients newer than the gap have not had the chance to miss one
+  let patientQuery = supabase
+    .from("patients")
+    .select("id, display_name")
+    .eq("circle_id", rule.circle_id)
+    .is("archived_at", null)
+    .lt("created_at", cutoff.toISOString());
+  if (rule.patient_id) patientQuery = patientQuery.eq("id", rule.patient_id);
+
+  const { data: patients, error } = await patientQuery;
+  if (error) {
+    console.error("Failed to fetch patients:", error.code);
+    return null;
+  }
+  if (!patients || patients.length === 0) return [];
+
+  const { data: recent, error: handoffError } = await supabase
+    .from("handoffs")
+    .select("patient_id")
+    .in(
+      "patient_id",
+      patients.map((p: { id: string }) => p.id),
+    )
+    .eq("status", "PUBLISHED")
+    .gte("published_at", cutoff.toISOString());
+  if (handoffError) {
+    console.error("Failed to fetch handoffs:", handoffError.code);
+    return null;
+  }
+
+  const covered = new Set(
+    (recent ?? []).map((h: { patient_id: string }) => h.patient_id),
+  );
+  return (patients as { id: string; display_name: string }[])
+    .filter((patient) => !covered.has(patient.id))
+    .slice(0, MAX_MATCHES)
+    .map((patient) => ({
+      subject_type: "patient",
+      subject_id: patient.id,
+      patient_id: patient.id,
+      title: `No handoff for ${patient.display_name}`,
+      body: `No handoff has been published in the last ${condition.days} days`,
+      details: { days: condition.days },
+    }));
+}
+
+async function skippedDoses(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  condition: Extract<Condition, { rule_key: "MED_DOSES_SKIPPED" }>,
+  now: Date,
+): Promise<RuleMatch[] | null> {
+  const since = new Date(now.getTime() - condition.within_days * DAY_MS);
+
+  let query = supabase
+    .from("med_dose_events")
+    .select(
+      "id, binder_item_id, patient_id, patients(display_name), binder_items(title, is_active)",
+    )
+    .eq("circle_id", rule.circle_id)
+    .in("status", condition.statuses)
+    .gte("scheduled_for", since.toISOString())
+    .lte("scheduled_for", now.toISOString());
+  if (rule.patient_id) query = query.eq("patient_id", rule.patient_id);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to fetch dose events:", error.code);
+    return null;
+  }
+
+  const byMed = new Map<
+    string,
+    {
+      id: string;
+      binder_item_id: string;
+      patient_id: string;
+      patients: { display_name: string } | null;
+      binder_items: { title: string; is_active: boolean } | null;
+    }[]
+  >();
+  for (const event of data ?? []) {
+    if (!event.binder_items?.is_active) continue;
+    byMed.set(event.binder_item_id, [
+      ...(byMed.get(event.binder_item_id) ?? []),
+      event,
+    ]);
+  }
+
+  return [...byMed.entries()]
+    .filter(([, events]) => events.length >= condition.count)
+    .slice(0, MAX_MATCHES)
+    .map(([binderItemId, events]) => {
+      const med = events[0].binder_items?.title ?? "Medication";
+      const patientName = events[0].patients?.display_name ?? "Patient";
+      return {
+        subject_type: "binder_item",
+        subject_id: binderItemId,
+        patient_id: events[0].patient_id,
+        title: `${med} not taken ${events.length} times`,
+        body: `${patientName}: ${events.length} doses not given in the last ${condition.within_days} days`,
+        details: {
+          count: events.length,
+          dose_event_ids: events.map((event) => event.id),
+        },
+      };
+    });
+}
@@ -0,0 +1,162 @@
+/**
+ * Alert rule evaluation
+ *
+ * Finds a rule's matches, drops subjects still within the rule's cooldown,
+ * and runs the actions for the rest. Evaluations with `log` record one
+ * alert_events row per match, flagged dry_run when the actions were only
+ * planned; dry-run events count towards the cooldown like any other. The
+ * row is inserted before the actions run and acts as a claim, so two
+ * overlapping runs never both act on a match.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { loadCircleContext, runActions } from "./actions.ts";
+import { findMatches } from "./conditions.ts";
+import type {
+  ActionResult,
+  AlertRule,
+  EvaluatedMatch,
+  RuleMatch,
+} from "./types.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface EvaluateOptions {
+  /** Take the actions; ignored for rules in dry-run mode */
+  execute: boolean;
+  /** Record matches in alert_events (saved rules only) */
+  log: boolean;
+}
+
+export interface RuleEvaluation {
+  matches: EvaluatedMatch[];
+  /** Matches within the cooldown or claimed by an overlapping run */
+  suppressed: number;
+}
+
+/** Returns null on a database error */
+export async function evaluateRule(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  now: Date,
+  options: EvaluateOptions,
+): Promise<RuleEvaluation | null> {
+  const found = await findMatches(supabase, rule, now);
+  if (found === null) return null;
+
+  let matches = found;
+  if (rule.id && matches.length > 0) {
+    const since = new Date(now.getTime() - rule.cooldown_hours * HOUR_MS);
+    const { data: recent, error } = await supabase
+      .from("alert_events")
+      .select("subject_id")
+      .eq("rule_id", rule.id)
+      .in(
+        "subject_id",
+        matches.map((m) => m.subject_id),
+      )
+      .gte("fired_at", since.toISOString());
+    if (error) {
+      console.error("Failed to fetch recent alert events:", error.code);
+      return null;
+    }
+    const cooling = new Set(
+      (recent ?? []).map((e: { subject_id: string }) => e.subject_id),
+    );
+    matches = matches.filter((m) => !cooling.has(m.subject_id));
+  }
+
+  if (matches.length === 0) return { matches: [], suppressed: found.length };
+
+  const context = await loadCircleContext(supabase, rule.circle_id, now);
+  if (!context) return null;
+
+  const execute = options.execute && !rule.dry_run;
+  let eventIds: Map<string, string> | null = null;
+  if (options.log && rule.id) {
+    eventIds = await claimEvents(supabase, rule, matches, execute, now);
+    if (!eventIds) return null;
+    matches = matches.filter((m) => eventIds!.has(m.subject_id));
+  }
+
+  const evaluated: EvaluatedMatch[] = [];
+  for (const match of matches) {
+    const actions = await runActions(
+      supabase,
+      rule,
+      match,
+      context,
+      execute,
+      now,
+    );
+    evaluated.push({ ...match, actions });
+
+    if (eventIds) {
+      const { error } = await supabase
+        .from("alert_events")
+        .update({ payload_json: eventPayload(rule, match, actions) })
+        .eq("id", eventIds.get(match.subject_id)!);
+      if (error) {
+        console.error("Failed to log alert event actions:", error.code);
+        return null;
+      }
+    }
+  }
+
+  return { matches: evaluated, suppressed: found.length - evaluated.length };
+}
+
+function eventPayload(
+  rule: AlertRule,
+  match: RuleMatch,
+  actions: ActionResult[],
+): Record<string, unknown> {
+  return {
+    rule_name: rule.name,
+    title: match.title,
+    body: match.body,
+    details: match.details,
+    actions,
+  };
+}
+
+/**
+ * Inserts an alert_events row per match before any action runs, through
+ * claim_alert_events: a subject the rule fired for within its cooldown,
+ * including by an overlapping run, is skipped and left out of the returned
+ * subject -> event id map. Returns null on a database error.
+ */
+async function claimEvents(
+  supabase: SupabaseClient,
+  rule: AlertRule,
+  matches: RuleMatch[],
+  execute: boolean,
+  now: Date,
+): Promise<Map<string, string> | null> {
+  const { data, error } = await supabase.rpc("claim_alert_events", {
+    p_rule_id: rule.id,
+    p_events: matches.map((match) => ({
+      patient_id: match.patient_id,
+      rule_key: rule.condition.rule_key,
+      subject_type: match.subject_type,
+      subject_id: match.subject_id,
+      dry_run: !execute,
+      payload_json: eventPayload(rule, match, []),
+    })),
+    p_now: now.toISOString(),
+  });
+  if (error || !Array.isArray(data)) {
+    console.error(
+      "Failed to claim alert events:",
+      error?.code ?? data?.error ?? "Unknown error",
+    );
+    return null;
+  }
+
+  return new Map(
+    (data as { id: string; subject_id: string }[]).map((e) => [
+      e.subject_id,
+      e.id,
+    ]),
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Alert rules: conditions, actions and evaluation
+ * Used by evaluate-alert-rules and manage-alert-rules
+ */
+
+export * from "./types.ts";
+export * from "./parse.ts";
+export * from "./conditions.ts";
+export * from "./actions.ts";
+export * from "./evaluate.ts";
@@ -0,0 +1,196 @@
+/**
+ * Alert rule validation
+ *
+ * Turns stored or submitted params_json and actions_json into typed
+ * conditions and actions, filling in defaults. Anything malformed throws
+ * AlertRuleError with a message fit to return to the client.
+ */
+
+import { isValidUUID } from "../validation.ts";
+import {
+  type Action,
+  AlertRuleError,
+  type AlertRule,
+  type AlertRuleRow,
+  type Condition,
+  type ConditionKey,
+  type Priority,
+} from "./types.ts";
+
+export const CONDITION_KEYS: ConditionKey[] = [
+  "TASK_OVERDUE",
+  "HANDOFF_GAP",
+  "MED_DOSES_SKIPPED",
+];
+
+const PRIORITIES: Priority[] = ["LOW", "MED", "HIGH"];
+const DOSE_STATUSES = ["SKIPPED", "REFUSED", "MISSED"];
+const MAX_ACTIONS = 5;
+const MAX_NAME_LENGTH = 200;
+const MAX_TITLE_LENGTH = 200;
+
+function asObject(value: unknown, name: string): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new AlertRuleError(`${name} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function integer(
+  value: unknown,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number,
+): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new AlertRuleError(`${name} must be an integer`);
+  }
+  if (value < min || value > max) {
+    throw new AlertRuleError(`${name} must be between ${min} and ${max}`);
+  }
+  return value;
+}
+
+function subset<T extends string>(
+  value: unknown,
+  name: string,
+  allowed: T[],
+  fallback: T[],
+): T[] {
+  if (value === undefined) return fallback;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((item) => !allowed.includes(item))
+  ) {
+    throw new AlertRuleError(
+      `${name} must be a non-empty list of ${allowed.join(", ")}`,
+    );
+  }
+  return [...new Set(value as T[])];
+}
+
+export function parseCondition(ruleKey: unknown, params: unknown): Condition {
+  const p = asObject(params, "params");
+  switch (ruleKey) {
+    case "TASK_OVERDUE":
+      return {
+        rule_key: ruleKey,
+        overdue_hours: integer(p.overdue_hours, "overdue_hours", 24, 1, 720),
+        priorities: subset(p.priorities, "priorities", PRIORITIES, PRIORITIES),
+      };
+    case "HANDOFF_GAP":
+      return { rule_key: ruleKey, days: integer(p.days, "days", 3, 1, 90) };
+    case "MED_DOSES_SKIPPED":
+      return {
+        rule_key: ruleKey,
+        count: integer(p.count, "count", 2, 1, 50),
+        within_days: integer(p.within_days, "within_days", 7, 1, 30),
+        statuses: subset(p.statuses, "statuses", DOSE_STATUSES, [
+          "SKIPPED",
+          "MISSED",
+        ]),
+      };
+    default:
+      throw new AlertRuleError(
+        `rule_key must be one of ${CONDITION_KEYS.join(", ")}`,
+      );
+  }
+}
+
+function parseAction(value: unknown, condition: Condition): Action {
+  const a = asObject(value, "action");
+  switch (a.type) {
+    case "NOTIFY_ASSIGNEE":
+    case "NOTIFY_ADMINS":
+      return { type: a.type };
+    case "REASSIGN": {
+      if (condition.rule_key !== "TASK_OVERDUE") {
+        throw new AlertRuleError("REASSIGN only applies to task rules");
+      }
+      if (a.strategy === "USER") {
+        if (typeof a.user_id !== "string" || !isValidUUID(a.user_id)) {
+          throw new AlertRuleError("REASSIGN to USER requires user_id");
+        }
+        return { type: a.type, strategy: a.strategy, user_id: a.user_id };
+      }
+      if (a.strategy !== undefined && a.strategy !== "LEAST_LOADED") {
+        throw new AlertRuleError("strategy must be LEAST_LOADED or USER");
+      }
+      return { type: a.type, strategy: "LEAST_LOADED" };
+    }
+    case "CREATE_FOLLOW_UP": {
+      if (
+        a.title !== undefined &&
+        (typeof a.title !== "string" ||
+          !a.title.trim() ||
+          a.title.length > MAX_TITLE_LENGTH)
+      ) {
+        throw new AlertRuleError(
+          `title must be 1-${MAX_TITLE_LENGTH} characters`,
+        );
+      }
+      if (
+        a.priority !== undefined &&
+        !PRIORITIES.includes(a.priority as Priority)
+      ) {
+        throw new AlertRuleError("priority must be LOW, MED or HIGH");
+      }
+      return {
+        type: a.type,
+        title: (a.title as string | undefined)?.trim(),
+        due_in_hours: integer(a.due_in_hours, "due_in_hours", 24, 1, 720),
+        priority: (a.priority as Priority | undefined) ?? "HIGH",
+      };
+    }
+    default:
+      throw new AlertRuleError(
+        "action type must be NOTIFY_ASSIGNEE, NOTIFY_ADMINS, REASSIGN or CREATE_FOLLOW_UP",
+      );
+  }
+}
+
+export function parseActions(value: unknown, condition: Condition): Action[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new AlertRuleError("actions must be a non-empty list");
+  }
+  if (value.length > MAX_ACTIONS) {
+    throw new AlertRuleError(`at most ${MAX_ACTIONS} actions`);
+  }
+  const actions = value.map((item) => parseAction(item, condition));
+  if (actions.filter((action) => action.type === "REASSIGN").length > 1) {
+    throw new AlertRuleError("at most one REASSIGN action");
+  }
+  return actions;
+}
+
+export function parseName(value: unknown, condition: Condition): string {
+  if (value === undefined || value === null) return condition.rule_key;
+  if (
+    typeof value !== "string" ||
+    !value.trim() ||
+    value.length > MAX_NAME_LENGTH
+  ) {
+    throw new AlertRuleError(`name must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+/** Validates a stored rule; throws AlertRuleError */
+export function parseRule(row: AlertRuleRow): AlertRule {
+  const condition = parseCondition(row.rule_key, row.params_json);
+  return {
+    id: row.id,
+    circle_id: row.circle_id,
+    patient_id: row.patient_id,
+    name: parseName(row.name, condition),
+    condition,
+    actions: parseActions(row.actions_json, condition),
+    cooldown_hours: row.cooldown_hours,
+    dry_run: row.dry_run,
+    created_by: row.created_by,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Alert rule types
+ */
+
+export type ConditionKey = "TASK_OVERDUE" | "HANDOFF_GAP" | "MED_DOSES_SKIPPED";
+
+export type Priority = "LOW" | "MED" | "HIGH";
+
+export type Condition =
+  | { rule_key: "TASK_OVERDUE"; overdue_hours: number; priorities: Priority[] }
+  | { rule_key: "HANDOFF_GAP"; days: number }
+  | {
+      rule_key: "MED_DOSES_SKIPPED";
+      count: number;
+      within_days: number;
+      statuses: string[];
+    };
+
+export type Action =
+  | { type: "NOTIFY_ASSIGNEE" }
+  | { type: "NOTIFY_ADMINS" }
+  | { type: "REASSIGN"; strategy: "LEAST_LOADED" | "USER"; user_id?: string }
+  | {
+      type: "CREATE_FOLLOW_UP";
+      title?: string;
+      due_in_hours: number;
+      priority: Priority;
+    };
+
+/** An alert_rules row as stored */
+export interface AlertRuleRow {
+  id: string;
+  circle_id: string;
+  patient_id: string | null;
+  rule_key: string;
+  name: string | null;
+  params_json: unknown;
+  actions_json: unknown;
+  cooldown_hours: number;
+  dry_run: boolean;
+  enabled: boolean;
+  created_by: string;
+}
+
+/** A validated rule, ready to evaluate */
+export interface AlertRule {
+  /** null for an unsaved rule being previewed */
+  id: string | null;
+  circle_id: string;
+  patient_id: string | null;
+  name: string;
+  condition: Condition;
+  actions: Action[];
+  cooldown_hours: number;
+  dry_run: boolean;
+  created_by: string;
+}
+
+export type SubjectType = "task" | "patient" | "binder_item";
+
+export interface MatchedTask {
+  id: string;
+  owner_user_id: string;
+  title: string;
+  priority: Priority;
+  due_at: string;
+}
+
+/** Something a rule's condition matched */
+export interface RuleMatch {
+  subject_type: SubjectType;
+  subject_id: string;
+  patient_id: string | null;
+  /** Notification title and body */
+  title: string;
+  body: string;
+  details: Record<string, unknown>;
+  /** Set for task subjects */
+  task?: MatchedTask;
+}
+
+export interface ActionResult {
+  type: Action["type"];
+  /** PLANNED in dry runs; SKIPPED when the action has no target */
+  status: "DONE" | "PLANNED" | "SKIPPED" | "FAILED";
+  user_ids?: string[];
+  task_id?: string;
+  reason?: string;
+}
+
+export interface EvaluatedMatch extends RuleMatch {
+  actions: ActionResult[];
+}
+
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlertRuleError";
+  }
+}
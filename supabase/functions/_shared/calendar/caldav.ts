@@ -0,0 +1,255 @@
+/**
+ * CalDAV client (RFC 4791)
+ *
+ * Lists a calendar collection with PROPFIND, reads events with a
+ * calendar-multiget REPORT, and writes them with conditional PUT and
+ * DELETE (If-Match / If-None-Match), authenticating with HTTP Basic auth.
+ * Multistatus responses are read with a small namespace-agnostic parser,
+ * since edge functions have no DOM.
+ */
+
+import {
+  CalDAVError,
+  type CalDAVClient,
+  type CalDAVCredentials,
+  type RemoteEvent,
+  type RemoteObject,
+} from "./types.ts";
+
+const REQUEST_TIMEOUT_MS = 15000;
+const MULTIGET_BATCH = 50;
+
+/**
+ * Whether a user-supplied calendar URL may be contacted: https only, and
+ * not a loopback, link-local or private address
+ */
+export function isAllowedCalDAVUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.username || url.password) return false;
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost")) return false;
+  if (host.endsWith(".internal") || host.endsWith(".local")) return false;
+
+  const ipv4 = /^(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(host);
+  if (ipv4) {
+    const [a, b] = [+ipv4[1], +ipv4[2]];
+    if (a === 10 || a === 127 || a === 0) return false;
+    if (a === 169 && b === 254) return false;
+    if (a === 172 && b >= 16 && b <= 31) return false;
+    if (a === 192 && b === 168) return false;
+    if (a === 100 && b >= 64 && b <= 127) return false;
+  }
+  if (host.includes(":")) {
+    if (host === "::1" || host === "::") return false;
+    if (/^(fc|fd|fe8|fe9|fea|feb)/.test(host)) return false;
+    if (host.startsWith("::ffff:")) return false;
+  }
+  return true;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(+dec))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** Text of the first element named `local` in any namespace */
+function elementText(xml: string, local: string): string | null {
+  const match = new RegExp(
+    `<(?:[\\w-]+:)?${local}\\b[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${local}>)`,
+    "i",
+  ).exec(xml);
+  if (!match) return null;
+  return decodeXml(match[1] ?? "").trim();
+}
+
+interface MultistatusEntry {
+  href: string;
+  etag: string | null;
+  calendarData: string | null;
+  /** HTTP status of the found properties, e.g. 200 or 404 */
+  status: number;
+}
+
+export function parseMultistatus(xml: string): MultistatusEntry[] {
+  const entries: MultistatusEntry[] = [];
+  const responses = xml.split(/<(?:[\w-]+:)?response\b[^>]*>/i).slice(1);
+
+  for (const response of responses) {
+    const href = elementText(response, "href");
+    if (!href) continue;
+
+    // Prefer the propstat that carries the properties (status 200)
+    const propstats = response.split(/<(?:[\w-]+:)?propstat\b[^>]*>/i).slice(1);
+    const found =
+      propstats.find((p) => /HTTP\/\d(?:\.\d)?\s+200/.test(p)) ??
+      propstats[0] ??
+      response;
+    const statusMatch = /HTTP\/\d(?:\.\d)?\s+(\d{3})/.exec(found);
+
+    entries.push({
+      href,
+      etag: elementText(found, "getetag"),
+      calendarData: elementText(found, "calendar-data"),
+      status: statusMatch ? +statusMatch[1] : 200,
+    });
+  }
+  return entries;
+}
+
+function statusError(status: number): CalDAVError {
+  if (status === 401 || status === 403) return new CalDAVError("AUTH_FAILED");
+  if (status === 404 || status === 410) return new CalDAVError("NOT_FOUND");
+  if (status === 412) return new CalDAVError("PRECONDITION_FAILED");
+  return new CalDAVError("PROVIDER_ERROR", `HTTP ${status}`);
+}
+
+export function createCalDAVClient(
+  credentials: CalDAVCredentials,
+): CalDAVClient {
+  const base = new URL(credentials.url);
+  if (!base.pathname.endsWith("/")) base.pathname += "/";
+  const authorization = `Basic ${btoa(
+    `${credentials.username}:${credentials.password}`,
+  )}`;
+
+  async function request(
+    method: string,
+    href: string,
+    init: { headers?: Record<string, string>; body?: string } = {},
+  ): Promise<Response> {
+    const url = new URL(href, base);
+    if (url.origin !== base.origin) {
+      throw new CalDAVError("INVALID_URL", "Resource outside the calendar");
+    }
+    try {
+      return await fetch(url, {
+        method,
+        headers: { Authorization: authorization, ...init.headers },
+        body: init.body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "TimeoutError") {
+        throw new CalDAVError("TIMEOUT");
+      }
+      throw new CalDAVError("NETWORK_ERROR");
+    }
+  }
+
+  async function multistatus(response: Response): Promise<MultistatusEntry[]> {
+    if (response.status !== 207) {
+      await response.body?.cancel();
+      throw statusError(response.status);
+    }
+    return parseMultistatus(await response.text());
+  }
+
+  return {
+    hrefFor(name: string): string {
+      return `${base.pathname}${encodeURIComponent(name)}`;
+    },
+
+    async list(): Promise<RemoteObject[]> {
+      const response = await request("PROPFIND", base.pathname, {
+        headers: {
+          Depth: "1",
+          "Content-Type": "application/xml; charset=utf-8",
+        },
+        body:
+          '<?xml version="1.0" encoding="utf-8"?>' +
+          '<d:propfind xmlns:d="DAV:"><d:prop><d:getetag/><d:resourcetype/></d:prop></d:propfind>',
+      });
+      const collection = decodeURIComponent(base.pathname);
+
+      return (await multistatus(response))
+        .filter(
+          (e) =>
+            e.status === 200 &&
+            e.etag &&
+            decodeURIComponent(new URL(e.href, base).pathname) !== collection,
+        )
+        .map((e) => ({ href: new URL(e.href, base).pathname, etag: e.etag! }));
+    },
+
+    async fetch(hrefs: string[]): Promise<RemoteEvent[]> {
+      const events: RemoteEvent[] = [];
+      for (let i = 0; i < hrefs.length; i += MULTIGET_BATCH) {
+        const batch = hrefs.slice(i, i + MULTIGET_BATCH);
+        const response = await request("REPORT", base.pathname, {
+          headers: {
+            Depth: "1",
+            "Content-Type": "application/xml; charset=utf-8",
+          },
+          body:
+            '<?xml version="1.0" encoding="utf-8"?>' +
+            '<c:calendar-multiget xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+            "<d:prop><d:getetag/><c:calendar-data/></d:prop>" +
+            batch.map((h) => `<d:href>${escapeXml(h)}</d:href>`).join("") +
+            "</c:calendar-multiget>",
+        });
+        for (const entry of await multistatus(response)) {
+          if (entry.status !== 200 || !entry.etag || !entry.calendarData) {
+            continue;
+          }
+          events.push({
+            href: new URL(entry.href, base).pathname,
+            etag: entry.etag,
+            ics: entry.calendarData,
+          });
+        }
+      }
+      return events;
+    },
+
+    async put(
+      href: string,
+      ics: string,
+      ifMatch: string | null,
+    ): Promise<string | null> {
+      const response = await request("PUT", href, {
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          ...(ifMatch ? { "If-Match": ifMatch } : { "If-None-Match": "*" }),
+        },
+        body: ics,
+      });
+      await response.body?.cancel();
+      if (!response.ok) throw statusError(response.status);
+      return response.headers.get("ETag");
+    },
+
+    async delete(href: string, ifMatch: string | null): Promise<void> {
+      const response = await request("DELETE", href, {
+        headers: ifMatch ? { "If-Match": ifMatch } : {},
+      });
+      await response.body?.cancel();
+      if (response.ok || response.status === 404 || response.status === 410) {
+        return;
+      }
+      throw statusError(response.status);
+    },
+  };
+}
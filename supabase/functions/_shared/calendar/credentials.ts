@@ -0,0 +1,78 @@
+/**
+ * Calendar credential encryption
+ *
+ * CalDAV passwords (usually app-specific passwords) are stored in
+ * calendar_connections.access_token_encrypted as AES-256-GCM ciphertext,
+ * "v1:<iv>:<ciphertext>" in base64. The key is CALENDAR_CREDENTIALS_KEY
+ * (32 bytes, base64) and never leaves the edge functions.
+ */
+
+export class CredentialsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CredentialsError";
+  }
+}
+
+const VERSION = "v1";
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): BufferSource {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0)) as BufferSource;
+}
+
+async function loadKey(): Promise<CryptoKey> {
+  const encoded = Deno.env.get("CALENDAR_CREDENTIALS_KEY");
+  if (!encoded) throw new CredentialsError("CALENDAR_CREDENTIALS_KEY not set");
+
+  let raw: BufferSource;
+  try {
+    raw = fromBase64(encoded);
+  } catch {
+    throw new CredentialsError("CALENDAR_CREDENTIALS_KEY is not base64");
+  }
+  if (raw.byteLength !== 32) {
+    throw new CredentialsError("CALENDAR_CREDENTIALS_KEY must be 32 bytes");
+  }
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export function isCredentialsKeyConfigured(): boolean {
+  return !!Deno.env.get("CALENDAR_CREDENTIALS_KEY");
+}
+
+export async function encryptSecret(plaintext: string): Promise<string> {
+  const key = await loadKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext),
+  );
+  return `${VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptSecret(stored: string): Promise<string> {
+  const [version, iv, ciphertext] = stored.split(":");
+  if (version !== VERSION || !iv || !ciphertext) {
+    throw new CredentialsError("Unrecognized credential format");
+  }
+
+  const key = await loadKey();
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      key,
+      fromBase64(ciphertext),
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new CredentialsError("Credential could not be decrypted");
+  }
+}
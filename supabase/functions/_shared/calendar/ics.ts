@@ -0,0 +1,570 @@
+/**
+ * iCalendar (RFC 5545) writing and reading
+ *
+ * Writes one VEVENT per calendar resource, as CalDAV requires, with UTC
+ * times; ical-feed writes its feed with the same escaping and folding, in
+ * local times described by VTIMEZONEs built from the IANA database.
+ * Reads VEVENTs back with their times resolved to instants: UTC,
+ * TZID-qualified local times and all-day dates. A TZID that is not an IANA
+ * zone is resolved through its VTIMEZONE's X-LIC-LOCATION, a path ending in
+ * an IANA zone (/mozilla.org/.../Europe/Berlin) or a Windows zone name.
+ */
+
+import {
+  isValidTimeZone,
+  localDate,
+  localTime,
+  zonedTimeToUtc,
+  zoneOffsetMinutes,
+} from "../timezone.ts";
+import type {
+  CalendarEventData,
+  ParsedCalendar,
+  ParsedEvent,
+} from "./types.ts";
+
+const PRODID = "-//CuraKnot//Care Calendar//EN";
+const DESCRIPTION_MAX_LENGTH = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/** iCalendar UTC date-time, e.g. 20261019T140000Z */
+export function formatDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** Escapes TEXT values per RFC 5545 section 3.3.11 */
+export function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+export function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c,
+  );
+}
+
+/**
+ * Folds a content line at 75 octets per RFC 5545 section 3.1, never
+ * splitting a multi-byte character
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, leaving 74 octets
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.map((p, i) => (i === 0 ? p : ` ${p}`)).join("\r\n");
+}
+
+/** Cuts long text, which some calendar apps struggle with */
+export function truncateText(
+  text: string,
+  maxLength = DESCRIPTION_MAX_LENGTH,
+): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 3)}...`;
+}
+
+/**
+ * Local date-time in `timeZone` ("20261019T090000") for a TZID-qualified
+ * value, or UTC with a "Z" when the zone is UTC
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  if (timeZone === "UTC") return formatDateTime(date);
+  return `${localDate(date, timeZone).replace(/-/g, "")}T${localTime(
+    date,
+    timeZone,
+  ).replace(":", "")}00`;
+}
+
+/** iCalendar DATE of an instant in `timeZone`, e.g. 20261019 */
+export function formatDate(date: Date, timeZone: string): string {
+  return localDate(date, timeZone).replace(/-/g, "");
+}
+
+/** "+0200" or "-0500" */
+function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+  return `${sign}${hours}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * A VTIMEZONE for an IANA zone covering `from` to `to`.
+ *
+ * Each UTC offset change in the range becomes its own STANDARD or DAYLIGHT
+ * observance with a fixed onset, rather than a yearly RRULE, so zones that
+ * have changed their rules are described as they really were. Offsets are
+ * sampled weekly, and each change is narrowed to the minute.
+ */
+export function buildTimeZone(
+  timeZone: string,
+  from: Date,
+  to: Date,
+): string[] {
+  const offsetAt = (ms: number) => zoneOffsetMinutes(new Date(ms), timeZone);
+  const start = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS;
+  const end = to.getTime();
+
+  // Wall-clock onset in the offset that applied before it
+  const onset = (ms: number, offset: number) =>
+    formatDateTime(new Date(ms + offset * MINUTE_MS)).replace("Z", "");
+  const observance = (
+    daylight: boolean,
+    ms: number,
+    offsetFrom: number,
+    offsetTo: number,
+  ) => {
+    const kind = daylight ? "DAYLIGHT" : "STANDARD";
+    return [
+      `BEGIN:${kind}`,
+      `DTSTART:${onset(ms, offsetFrom)}`,
+      `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+      `END:${kind}`,
+    ];
+  };
+
+  // The offset at the start is daylight time when it is ahead of the
+  // offset half a year later
+  let offset = offsetAt(start);
+  const lines = [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    `X-LIC-LOCATION:${timeZone}`,
+    ...observance(
+      offset > offsetAt(start + 182 * DAY_MS),
+      start,
+      offset,
+      offset,
+    ),
+  ];
+
+  for (let ms = start; ms < end;) {
+    const next = Math.min(ms + 7 * DAY_MS, end);
+    const nextOffset = offsetAt(next);
+    if (nextOffset !== offset) {
+      let before = ms;
+      let after = next;
+      while (after - before > MINUTE_MS) {
+        const middle =
+          before +
+          Math.max(1, Math.floor((after - before) / MINUTE_MS / 2)) * MINUTE_MS;
+        if (offsetAt(middle) === offset) before = middle;
+        else after = middle;
+      }
+      lines.push(...observance(nextOffset > offset, after, offset, nextOffset));
+      offset = nextOffset;
+    }
+    ms = next;
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+/** A display VALARM `minutes` before the event starts */
+export function buildAlarm(minutes: number, description: string): string[] {
+  return [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(description)}`,
+    `TRIGGER:${minutes === 0 ? "PT0M" : `-PT${minutes}M`}`,
+    "END:VALARM",
+  ];
+}
+
+/** A VCALENDAR holding one event */
+export function buildEventIcs(event: CalendarEventData, now: Date): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(truncateText(event.description))}`);
+  }
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.categories) lines.push(`CATEGORIES:${event.categories}`);
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Unfolds and splits calendar data into content lines */
+function contentLines(text: string): ContentLine[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, "");
+  const lines: ContentLine[] = [];
+
+  for (const raw of unfolded.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    // The value starts at the first colon outside a quoted parameter
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < raw.length; i++) {
+      if (raw[i] === '"') inQuotes = !inQuotes;
+      else if (raw[i] === ":" && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon < 0) continue;
+
+    const [name, ...paramParts] = raw.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const eq = part.indexOf("=");
+      if (eq > 0) {
+        params[part.slice(0, eq).toUpperCase()] = part
+          .slice(eq + 1)
+          .replace(/^"|"$/g, "");
+      }
+    }
+    lines.push({
+      name: name.toUpperCase(),
+      params,
+      value: raw.slice(colon + 1),
+    });
+  }
+  return lines;
+}
+
+/** Windows zone names Outlook and Exchange write as TZIDs */
+const WINDOWS_ZONES: Record<string, string> = {
+  "Eastern Standard Time": "America/New_York",
+  "Central Standard Time": "America/Chicago",
+  "Mountain Standard Time": "America/Denver",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Alaskan Standard Time": "America/Anchorage",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Atlantic Standard Time": "America/Halifax",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central European Standard Time": "Europe/Warsaw",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  UTC: "UTC",
+};
+
+/**
+ * The IANA zone a TZID names, or null. `aliases` maps the calendar's own
+ * VTIMEZONE TZIDs to the zone their X-LIC-LOCATION gives.
+ */
+export function resolveTimeZone(
+  tzid: string,
+  aliases?: Map<string, string>,
+): string | null {
+  const id = tzid.trim();
+  if (isValidTimeZone(id)) return id;
+
+  const alias = aliases?.get(id);
+  if (alias && isValidTimeZone(alias)) return alias;
+
+  const windows = WINDOWS_ZONES[id];
+  if (windows) return windows;
+
+  // Prefixed paths such as /mozilla.org/20050126_1/America/New_York
+  const segments = id.split("/").filter(Boolean);
+  for (let i = 0; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join("/");
+    if (isValidTimeZone(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * A DATE or DATE-TIME value as an instant. Floating times (no Z, no TZID)
+ * are read in `defaultZone`. Returns null when the value does not parse.
+ */
+export function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultZone = "UTC",
+): { instant: Date; allDay: boolean } | null {
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (date || params.VALUE === "DATE") {
+    if (!date) return null;
+    return {
+      instant: new Date(Date.UTC(+date[1], +date[2] - 1, +date[3])),
+      allDay: true,
+    };
+  }
+
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (utc) {
+    return {
+      instant: new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)),
+      allDay: false,
+    };
+  }
+
+  const zone = (params.TZID && resolveTimeZone(params.TZID)) || defaultZone;
+  const instant = zonedTimeToUtc(`${y}-${mo}-${d}`, `${h}:${mi}`, zone);
+  return { instant: new Date(instant.getTime() + +s * 1000), allDay: false };
+}
+
+/** An RFC 5545 DURATION (e.g. PT1H30M, P1D) in milliseconds */
+export function parseDuration(value: string): number | null {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value,
+    );
+  if (!match || value === "P" || value.endsWith("T")) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    (+(w ?? 0) * 7 + +(d ?? 0)) * DAY_MS +
+    (+(h ?? 0) * 3600 + +(m ?? 0) * 60 + +(s ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+interface PendingAlarm {
+  trigger: string;
+  params: Record<string, string>;
+}
+
+/** Minutes before the event's start an alarm fires, or null */
+function alarmMinutes(
+  alarm: PendingAlarm,
+  start: Date,
+  end: Date | null,
+  defaultZone: string,
+): number | null {
+  let at: number;
+  if (alarm.params.VALUE === "DATE-TIME") {
+    const absolute = parseDateValue(alarm.trigger, alarm.params, defaultZone);
+    if (!absolute) return null;
+    at = absolute.instant.getTime();
+  } else {
+    const offset = parseDuration(alarm.trigger);
+    if (offset === null) return null;
+    const anchor = alarm.params.RELATED === "END" && end ? end : start;
+    at = anchor.getTime() + offset;
+  }
+  return Math.round((start.getTime() - at) / 60000);
+}
+
+/** VTIMEZONE TZIDs mapped to the zone their X-LIC-LOCATION names */
+function timeZoneAliases(lines: ContentLine[]): Map<string, string> {
+  const aliases = new Map<string, string>();
+  let tzid: string | null = null;
+  for (const line of lines) {
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VTIMEZONE") {
+      tzid = null;
+    } else if (line.name === "TZID") {
+      tzid = line.value.trim();
+    } else if (line.name === "X-LIC-LOCATION" && tzid) {
+      aliases.set(tzid, line.value.trim());
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Every VEVENT in calendar data, with the calendar's METHOD (CANCEL when a
+ * sender withdraws invitations). Alarms are kept as minutes before start;
+ * components other than VEVENT and its VALARMs are skipped.
+ */
+export function parseCalendar(
+  text: string,
+  defaultZone = "UTC",
+): ParsedCalendar {
+  const lines = contentLines(text);
+  const aliases = timeZoneAliases(lines);
+  const events: ParsedEvent[] = [];
+  const stack: string[] = [];
+  let method: string | null = null;
+  let current: ParsedEvent | null = null;
+  let duration: number | null = null;
+  let alarms: PendingAlarm[] = [];
+
+  /** Params with the TZID resolved, so local times read in its zone */
+  const zoned = (params: Record<string, string>) =>
+    params.TZID
+      ? {
+          ...params,
+          TZID: resolveTimeZone(params.TZID, aliases) ?? defaultZone,
+        }
+      : params;
+  const dateValue = (line: ContentLine) =>
+    parseDateValue(line.value.trim(), zoned(line.params), defaultZone);
+
+  for (const line of lines) {
+    const component = stack[stack.length - 1];
+
+    if (line.name === "BEGIN") {
+      const name = line.value.trim().toUpperCase();
+      stack.push(name);
+      if (name === "VEVENT" && !current) {
+        current = {
+          uid: null,
+          summary: null,
+          description: null,
+          location: null,
+          start: null,
+          end: null,
+          allDay: false,
+          timeZone: null,
+          status: null,
+          rrule: null,
+          recurrenceId: null,
+          exdates: [],
+          organizer: null,
+          sequence: 0,
+          alarms: [],
+        };
+        duration = null;
+        alarms = [];
+      } else if (name === "VALARM" && current && component === "VEVENT") {
+        alarms.push({ trigger: "", params: {} });
+      }
+      continue;
+    }
+
+    if (line.name === "END") {
+      const name = stack.pop();
+      if (name === "VEVENT" && current) {
+        if (!current.end && current.start) {
+          current.end = new Date(
+            current.start.getTime() +
+              (duration ?? (current.allDay ? DAY_MS : 0)),
+          );
+        }
+        if (current.start) {
+          const start = current.start;
+          const minutes = alarms.map((alarm) =>
+            alarmMinutes(alarm, start, current!.end, defaultZone),
+          );
+          current.alarms = [
+            ...new Set(minutes.filter((m): m is number => m !== null)),
+          ].sort((a, b) => b - a);
+        }
+        events.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (component === "VCALENDAR" && line.name === "METHOD") {
+      method = line.value.trim().toUpperCase();
+      continue;
+    }
+    if (component === "VALARM" && current && line.name === "TRIGGER") {
+      alarms[alarms.length - 1] = {
+        trigger: line.value.trim(),
+        params: line.params,
+      };
+      continue;
+    }
+    if (component !== "VEVENT" || !current) continue;
+
+    switch (line.name) {
+      case "UID":
+        current.uid = line.value.trim();
+        break;
+      case "SUMMARY":
+        current.summary = unescapeText(line.value);
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeText(line.value);
+        break;
+      case "LOCATION":
+        current.location = unescapeText(line.value);
+        break;
+      case "STATUS":
+        current.status = line.value.trim().toUpperCase();
+        break;
+      case "RRULE":
+        current.rrule = line.value.trim();
+        break;
+      case "SEQUENCE":
+        current.sequence = parseInt(line.value.trim(), 10) || 0;
+        break;
+      case "ORGANIZER": {
+        const email = line.value.trim().replace(/^mailto:/i, "");
+        current.organizer = {
+          name: line.params.CN ? unescapeText(line.params.CN) : null,
+          email: email.includes("@") ? email.toLowerCase() : null,
+        };
+        break;
+      }
+      case "DTSTART": {
+        const parsed = dateValue(line);
+        if (parsed) {
+          current.start = parsed.instant;
+          current.allDay = parsed.allDay;
+          current.timeZone = parsed.allDay
+            ? null
+            : (zoned(line.params).TZID ?? null);
+        }
+        break;
+      }
+      case "DTEND": {
+        const parsed = dateValue(line);
+        if (parsed) current.end = parsed.instant;
+        break;
+      }
+      case "DURATION":
+        duration = parseDuration(line.value.trim());
+        break;
+      case "RECURRENCE-ID": {
+        const parsed = dateValue(line);
+        if (parsed) current.recurrenceId = parsed.instant;
+        break;
+      }
+      case "EXDATE":
+        for (const value of line.value.split(",")) {
+          const parsed = parseDateValue(
+            value.trim(),
+            zoned(line.params),
+            defaultZone,
+          );
+          if (parsed) current.exdates.push(parsed.instant);
+        }
+        break;
+    }
+  }
+
+  return { method, events };
+}
+
+/** Every VEVENT in calendar data */
+export function parseEvents(text: string, defaultZone = "UTC"): ParsedEvent[] {
+  return parseCalendar(text, defaultZone).events;
+}
@@ -0,0 +1,41 @@
+/**
+ * Calendar sync: iCalendar, CalDAV clients and stored credentials
+ * Used by sync-caldav-calendars, manage-caldav-connection,
+ * import-appointments-ics and ical-feed
+ *
+ * Transport selection: CALDAV_TRANSPORT=memory swaps the live CalDAV client
+ * for the in-memory server, so sync can run locally or in tests without a
+ * calendar server.
+ */
+
+import { createCalDAVClient as createLiveClient } from "./caldav.ts";
+import { createMemoryCalDAVClient } from "./memory.ts";
+import type {
+  CalDAVClient,
+  CalDAVCredentials,
+  CalDAVTransport,
+} from "./types.ts";
+
+export * from "./types.ts";
+export * from "./ics.ts";
+export * from "./credentials.ts";
+export { isAllowedCalDAVUrl, parseMultistatus } from "./caldav.ts";
+export { memoryCalendar, type MemoryCalendar } from "./memory.ts";
+
+export function resolveCalDAVTransport(): CalDAVTransport {
+  const configured = Deno.env.get("CALDAV_TRANSPORT")?.trim().toLowerCase();
+  if (!configured || configured === "live") return "live";
+  if (configured === "memory") return "memory";
+
+  console.warn(`Unknown CALDAV_TRANSPORT '${configured}', using live`);
+  return "live";
+}
+
+export function createCalDAVClient(
+  credentials: CalDAVCredentials,
+  transport: CalDAVTransport = resolveCalDAVTransport(),
+): CalDAVClient {
+  return transport === "memory"
+    ? createMemoryCalDAVClient(credentials)
+    : createLiveClient(credentials);
+}
@@ -0,0 +1,125 @@
+/**
+ * In-memory CalDAV server for local runs and tests
+ *
+ * A Radicale-style stand-in: calendars are keyed by collection URL, every
+ * write gets a new ETag, and conditional writes fail exactly as a real
+ * server's would. Tests edit or delete events through `memoryCalendar` to
+ * play the member changing their calendar app. Set CALDAV_TRANSPORT=memory
+ * to use it for every connection.
+ */
+
+import {
+  CalDAVError,
+  type CalDAVClient,
+  type CalDAVCredentials,
+  type RemoteEvent,
+  type RemoteObject,
+} from "./types.ts";
+
+interface StoredEvent {
+  etag: string;
+  ics: string;
+}
+
+/** Calendars in this isolate, by collection path */
+const calendars = new Map<string, Map<string, StoredEvent>>();
+let etagCounter = 0;
+
+function nextEtag(): string {
+  etagCounter += 1;
+  return `"${etagCounter}"`;
+}
+
+function collectionPath(url: string): string {
+  const path = new URL(url).pathname;
+  return path.endsWith("/") ? path : `${path}/`;
+}
+
+export interface MemoryCalendar {
+  events: Map<string, StoredEvent>;
+  /** Replaces an event as a member's calendar app would; returns the ETag */
+  edit(href: string, ics: string): string;
+  remove(href: string): void;
+}
+
+/** The calendar at `url`, created empty if needed */
+export function memoryCalendar(url: string): MemoryCalendar {
+  const path = collectionPath(url);
+  if (!calendars.has(path)) calendars.set(path, new Map());
+  const events = calendars.get(path)!;
+
+  return {
+    events,
+    edit(href: string, ics: string): string {
+      const etag = nextEtag();
+      events.set(href, { etag, ics });
+      return etag;
+    },
+    remove(href: string) {
+      events.delete(href);
+    },
+  };
+}
+
+export function createMemoryCalDAVClient(
+  credentials: CalDAVCredentials,
+): CalDAVClient {
+  const path = collectionPath(credentials.url);
+  const { events } = memoryCalendar(credentials.url);
+  const denied = () =>
+    !credentials.username || !credentials.password
+      ? Promise.reject(new CalDAVError("AUTH_FAILED"))
+      : null;
+
+  return {
+    hrefFor(name: string): string {
+      return `${path}${encodeURIComponent(name)}`;
+    },
+
+    list(): Promise<RemoteObject[]> {
+      return (
+        denied() ??
+        Promise.resolve([...events].map(([href, { etag }]) => ({ href, etag })))
+      );
+    },
+
+    fetch(hrefs: string[]): Promise<RemoteEvent[]> {
+      return (
+        denied() ??
+        Promise.resolve(
+          hrefs
+            .filter((href) => events.has(href))
+            .map((href) => ({ href, ...events.get(href)! })),
+        )
+      );
+    },
+
+    put(
+      href: string,
+      ics: string,
+      ifMatch: string | null,
+    ): Promise<string | null> {
+      const rejected = denied();
+      if (rejected) return rejected;
+      const existing = events.get(href);
+      if (ifMatch ? existing?.etag !== ifMatch : existing) {
+        return Promise.reject(new CalDAVError("PRECONDITION_FAILED"));
+      }
+      const etag = nextEtag();
+      events.set(href, { etag, ics });
+      return Promise.resolve(etag);
+    },
+
+    delete(href: string, ifMatch: string | null): Promise<void> {
+      const rejected = denied();
+      if (rejected) return rejected;
+      const existing = events.get(href);
+      if (!existing) return Promise.resolve();
+      if (ifMatch && existing.etag !== ifMatch) {
+        return Promise.reject(new CalDAVError("PRECONDITION_FAILED"));
+      }
+      events.delete(href);
+      return Promise.resolve();
+    },
+  };
+}
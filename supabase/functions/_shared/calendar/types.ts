@@ -0,0 +1,112 @@
+/**
+ * Calendar sync types
+ *
+ * A CalDAV calendar is a collection of event resources, each addressed by
+ * an href and versioned by an ETag. Every client (the live CalDAV client
+ * and the in-memory stand-in) implements the same calls, so the sync
+ * worker never depends on a server's quirks.
+ */
+
+export type CalDAVTransport = "live" | "memory";
+
+export interface CalDAVCredentials {
+  /** Calendar collection URL, e.g. https://dav.example.com/alex/care/ */
+  url: string;
+  username: string;
+  password: string;
+}
+
+/** An event resource as listed by the server */
+export interface RemoteObject {
+  href: string;
+  etag: string;
+}
+
+export interface RemoteEvent extends RemoteObject {
+  ics: string;
+}
+
+export type CalDAVErrorCode =
+  | "AUTH_FAILED"
+  | "NOT_FOUND"
+  | "PRECONDITION_FAILED"
+  | "INVALID_URL"
+  | "INVALID_RESPONSE"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "PROVIDER_ERROR";
+
+export class CalDAVError extends Error {
+  code: CalDAVErrorCode;
+
+  constructor(code: CalDAVErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = "CalDAVError";
+    this.code = code;
+  }
+}
+
+export interface CalDAVClient {
+  /** Every event resource in the calendar, with its current ETag */
+  list(): Promise<RemoteObject[]>;
+  /** Calendar data for `hrefs`; resources that no longer exist are left out */
+  fetch(hrefs: string[]): Promise<RemoteEvent[]>;
+  /**
+   * Creates the resource when `ifMatch` is null (failing if it exists) or
+   * replaces it when its ETag still matches. Returns the new ETag, or null
+   * when the server does not send one. Throws PRECONDITION_FAILED when the
+   * resource changed in the meantime.
+   */
+  put(
+    href: string,
+    ics: string,
+    ifMatch: string | null,
+  ): Promise<string | null>;
+  /** Deletes the resource if its ETag still matches; missing is not an error */
+  delete(href: string, ifMatch: string | null): Promise<void>;
+  /** The href a new resource named `name` gets in this calendar */
+  hrefFor(name: string): string;
+}
+
+/** One calendar event as CuraKnot writes it */
+export interface CalendarEventData {
+  uid: string;
+  summary: string;
+  description: string | null;
+  start: Date;
+  end: Date;
+  location: string | null;
+  categories: string | null;
+}
+
+export interface EventOrganizer {
+  name: string | null;
+  email: string | null;
+}
+
+/** A VEVENT read from calendar data */
+export interface ParsedEvent {
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  location: string | null;
+  start: Date | null;
+  end: Date | null;
+  allDay: boolean;
+  /** IANA zone of a TZID-qualified DTSTART; null for UTC and all-day */
+  timeZone: string | null;
+  status: string | null;
+  rrule: string | null;
+  recurrenceId: Date | null;
+  exdates: Date[];
+  organizer: EventOrganizer | null;
+  sequence: number;
+  /** VALARM triggers as minutes before the start, earliest alarm first */
+  alarms: number[];
+}
+
+export interface ParsedCalendar {
+  /** iTIP method, e.g. REQUEST or CANCEL */
+  method: string | null;
+  events: ParsedEvent[];
+}
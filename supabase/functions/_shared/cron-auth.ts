@@ -0,0 +1,12 @@
+/**
+ * Cron request authorization
+ * Used by the cron Edge Functions, which the scheduler calls over HTTP with
+ * the CRON_SECRET or the service role key as a bearer token
+ */
+
+/** Constant-time comparison so response timing does not leak the secret */
+export function tokenMatches(provided: string, expected: string): boolean {
+  const a = new TextEncoder().encode(provided);
+  const b = new TextEncoder().encode(expected);
+  return a.length === b.length && crypto.subtle.timingSafeEqual(a, b);
+}
@@ -0,0 +1,78 @@
+/**
+ * Delegation Candidate Ranking
+ * Used by get-delegation-candidates, forecast-med-refills,
+ * recommend-task-assignees and plan-shift-coverage Edge Functions
+ *
+ * PRIVACY: Members are ranked by recent PUBLIC activity (handoffs written in
+ * the last RECENT_ACTIVITY_DAYS), never by wellness scores.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+
+export const RECENT_ACTIVITY_DAYS = 7;
+
+interface MemberRow {
+  user_id: string;
+  role: string;
+  circle_id: string;
+  users: { display_name: string } | null;
+}
+
+export interface RankedMember {
+  userId: string;
+  fullName: string;
+  role: string;
+  recentHandoffCount: number;
+  circleId: string;
+}
+
+/**
+ * Active contributors, admins and owners of the circles, least active first
+ * (fewer recent handoffs = more available to help). Returns null on a
+ * database error.
+ */
+export async function rankDelegationCandidates(
+  supabase: SupabaseClient,
+  circleIds: string[],
+  options: { excludeUserId?: string } = {},
+): Promise<RankedMember[] | null> {
+  let query = supabase
+    .from("circle_members")
+    .select("user_id, role, circle_id, users(display_name)")
+    .in("circle_id", circleIds)
+    .in("role", ["CONTRIBUTOR", "ADMIN", "OWNER"])
+    .eq("status", "ACTIVE");
+  if (options.excludeUserId) {
+    query = query.neq("user_id", options.excludeUserId);
+  }
+
+  const { data: members, error } = await query;
+  if (error) {
+    console.error("Error fetching members:", error.code);
+    return null;
+  }
+
+  const since = new Date(
+    Date.now() - RECENT_ACTIVITY_DAYS * 24 * 60 * 60 * 1000,
+  ).toISOString();
+
+  const ranked: RankedMember[] = await Promise.all(
+    ((members ?? []) as MemberRow[]).map(async (member) => {
+      const { count: recentHandoffCount } = await supabase
+        .from("handoffs")
+        .select("*", { count: "exact", head: true })
+        .eq("created_by", member.user_id)
+        .gte("created_at", since);
+
+      return {
+        userId: member.user_id,
+        fullName: member.users?.display_name || "Unknown",
+        role: member.role,
+        recentHandoffCount: recentHandoffCount || 0,
+        circleId: member.circle_id,
+      };
+    }),
+  );
+
+  return ranked.sort((a, b) => a.recentHandoffCount - b.recentHandoffCount);
+}
@@ -0,0 +1,196 @@
+/**
+ * Speaker diarization for transcripts
+ *
+ * Backend selection: DIARIZATION_PROVIDER (http | fake | none, default none).
+ * Diarization is best-effort: a failed or disabled backend leaves the
+ * transcript segmented by time with no speakers, never fails transcription.
+ */
+
+import type { TranscriptionSegment } from "../llm/types.ts";
+import { createDiarizationProvider } from "./providers.ts";
+import { inferSpeakerRoles } from "./roles.ts";
+import {
+  DiarizationError,
+  type DiarizationRequest,
+  type DiarizerName,
+  type SpeakerTranscript,
+  type SpeakerTurn,
+  type TranscriptSegment,
+} from "./types.ts";
+
+export * from "./types.ts";
+export { inferSpeakerRole, inferSpeakerRoles } from "./roles.ts";
+
+const DIARIZER_NAMES: DiarizerName[] = ["http", "fake", "none"];
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/** Words used to anchor a segment's start and end in the transcript */
+const ANCHOR_WORDS = 3;
+
+export interface Diarizer {
+  name: DiarizerName;
+  isConfigured(): boolean;
+  diarize(
+    request: DiarizationRequest,
+    timeoutMs?: number,
+  ): Promise<SpeakerTurn[]>;
+}
+
+export function resolveDiarizerName(): DiarizerName {
+  const configured = Deno.env.get("DIARIZATION_PROVIDER")?.trim().toLowerCase();
+  if (!configured) return "none";
+
+  if (DIARIZER_NAMES.includes(configured as DiarizerName)) {
+    return configured as DiarizerName;
+  }
+
+  console.warn(`Unknown DIARIZATION_PROVIDER '${configured}', disabling`);
+  return "none";
+}
+
+export function createDiarizer(): Diarizer {
+  const provider = createDiarizationProvider(resolveDiarizerName());
+
+  return {
+    name: provider.name,
+    isConfigured: () => provider.isConfigured(),
+
+    async diarize(request, timeoutMs = DEFAULT_TIMEOUT_MS) {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        return await provider.diarize(request, controller.signal);
+      } catch (error) {
+        throw error instanceof DiarizationError
+          ? error
+          : new DiarizationError(
+              "PROVIDER_ERROR",
+              error instanceof Error ? error.name : "Unknown error",
+            );
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
+
+/**
+ * Label each transcript segment with the speaker whose turns overlap it the
+ * most, or null when no turn overlaps.
+ */
+export function assignSpeakers(
+  segments: TranscriptionSegment[],
+  turns: SpeakerTurn[],
+): (string | null)[] {
+  return segments.map((segment) => {
+    const overlap = new Map<string, number>();
+    for (const turn of turns) {
+      const seconds =
+        Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (seconds > 0) {
+        overlap.set(turn.speaker, (overlap.get(turn.speaker) ?? 0) + seconds);
+      }
+    }
+
+    let best: string | null = null;
+    let bestSeconds = 0;
+    for (const [speaker, seconds] of overlap) {
+      if (seconds > bestSeconds) {
+        best = speaker;
+        bestSeconds = seconds;
+      }
+    }
+    return best;
+  });
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function anchorPattern(words: string[]): RegExp | null {
+  const cleaned = words
+    .map((w) => w.replace(/^\W+|\W+$/gu, ""))
+    .filter(Boolean);
+  return cleaned.length > 0
+    ? new RegExp(cleaned.map(escapeRegex).join("\\W+"), "iu")
+    : null;
+}
+
+/**
+ * Character range of `text` in the transcript at or after `cursor`. The
+ * stitched transcript can differ from segment text at boundaries, so when
+ * there is no verbatim match the first and last few words are matched
+ * loosely instead.
+ */
+function locateSegment(
+  transcript: string,
+  text: string,
+  cursor: number,
+): { start: number; end: number } {
+  const exact = transcript.indexOf(text, cursor);
+  if (exact >= 0) return { start: exact, end: exact + text.length };
+
+  const words = text.split(/\s+/).filter(Boolean);
+  const rest = transcript.slice(cursor);
+  const head = anchorPattern(words.slice(0, ANCHOR_WORDS))?.exec(rest);
+  const start = head ? cursor + head.index : cursor;
+
+  const tailPattern = anchorPattern(words.slice(-ANCHOR_WORDS));
+  const tail = tailPattern?.exec(transcript.slice(start));
+  const end = tail
+    ? start + tail.index + tail[0].length
+    : Math.min(transcript.length, start + text.length);
+
+  return { start, end: Math.max(start, end) };
+}
+
+/**
+ * Build the persisted speaker transcript. Segment times are in seconds;
+ * `speakers` holds one backend label (or null) per segment. Labels are
+ * renamed A, B, ... in order of first appearance and given inferred roles.
+ */
+export function buildSpeakerTranscript(
+  transcript: string,
+  segments: TranscriptionSegment[],
+  speakers: (string | null)[],
+  diarizer: DiarizerName,
+): SpeakerTranscript {
+  const ids = new Map<string, string>();
+  const textBySpeaker = new Map<string, string>();
+
+  let cursor = 0;
+  const persisted: TranscriptSegment[] = segments.map((segment, i) => {
+    const label = speakers[i] ?? null;
+    let id: string | null = null;
+    if (label !== null) {
+      id = ids.get(label) ?? String.fromCharCode(65 + (ids.size % 26));
+      ids.set(label, id);
+      textBySpeaker.set(id, `${textBySpeaker.get(id) ?? ""} ${segment.text}`);
+    }
+
+    const { start, end } = locateSegment(transcript, segment.text, cursor);
+    cursor = end;
+
+    return {
+      start_ms: Math.round(segment.start * 1000),
+      end_ms: Math.round(segment.end * 1000),
+      speaker: id,
+      text: segment.text,
+      char_start: start,
+      char_end: end,
+    };
+  });
+
+  const roles = inferSpeakerRoles(textBySpeaker);
+  return {
+    version: 1,
+    diarizer,
+    speakers: [...roles.entries()].map(([id, guess]) => ({
+      id,
+      role: guess.role,
+      role_confidence: guess.confidence,
+    })),
+    segments: persisted,
+  };
+}
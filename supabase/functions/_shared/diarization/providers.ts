@@ -0,0 +1,145 @@
+/**
+ * Diarization backends
+ *
+ * - http: a pyannote-style service at DIARIZATION_URL that accepts a
+ *   multipart `file` and returns `{ segments: [{ start, end, speaker }] }`
+ * - fake: deterministic turns for offline runs and tests
+ * - none: diarization disabled
+ */
+
+import {
+  DiarizationError,
+  type DiarizationProvider,
+  type DiarizationRequest,
+  type DiarizerName,
+  type SpeakerTurn,
+} from "./types.ts";
+
+function isSpeakerTurn(value: unknown): value is SpeakerTurn {
+  const turn = value as SpeakerTurn;
+  return (
+    typeof turn?.start === "number" &&
+    typeof turn?.end === "number" &&
+    turn.end >= turn.start &&
+    typeof turn?.speaker === "string"
+  );
+}
+
+export function createHttpDiarizer(): DiarizationProvider {
+  const url = Deno.env.get("DIARIZATION_URL");
+  const apiKey = Deno.env.get("DIARIZATION_API_KEY");
+
+  return {
+    name: "http",
+    isConfigured: () => !!url,
+
+    async diarize(
+      request: DiarizationRequest,
+      signal: AbortSignal,
+    ): Promise<SpeakerTurn[]> {
+      if (!url) {
+        throw new DiarizationError(
+          "NOT_CONFIGURED",
+          "DIARIZATION_URL is not set",
+        );
+      }
+
+      const form = new FormData();
+      form.append("file", request.audio, request.filename ?? "audio.m4a");
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+          body: form,
+          signal,
+        });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          throw new DiarizationError("TIMEOUT", "Diarization timed out");
+        }
+        throw new DiarizationError("NETWORK_ERROR", "Diarization failed");
+      }
+
+      if (!response.ok) {
+        throw new DiarizationError(
+          "PROVIDER_ERROR",
+          `Diarization service returned ${response.status}`,
+        );
+      }
+
+      let data;
+      try {
+        data = await response.json();
+      } catch {
+        throw new DiarizationError(
+          "INVALID_OUTPUT",
+          "Diarization service returned a non-JSON response",
+        );
+      }
+
+      if (!Array.isArray(data?.segments)) {
+        throw new DiarizationError(
+          "INVALID_OUTPUT",
+          "Diarization response has no segments",
+        );
+      }
+      return data.segments.filter(isSpeakerTurn);
+    },
+  };
+}
+
+/**
+ * Returns DIARIZATION_FAKE_TURNS (a JSON array of turns) when set; otherwise
+ * alternates two speakers every 10 seconds.
+ */
+export function createFakeDiarizer(): DiarizationProvider {
+  const fixedTurns = Deno.env.get("DIARIZATION_FAKE_TURNS");
+
+  return {
+    name: "fake",
+    isConfigured: () => true,
+
+    diarize(request: DiarizationRequest): Promise<SpeakerTurn[]> {
+      if (fixedTurns) {
+        const parsed = JSON.parse(fixedTurns);
+        return Promise.resolve(
+          Array.isArray(parsed) ? parsed.filter(isSpeakerTurn) : [],
+        );
+      }
+
+      const duration = request.durationSec ?? 0;
+      const turns: SpeakerTurn[] = [];
+      for (let start = 0, i = 0; start < duration; start += 10, i++) {
+        turns.push({
+          start,
+          end: Math.min(start + 10, duration),
+          speaker: `SPEAKER_0${i % 2}`,
+        });
+      }
+      return Promise.resolve(turns);
+    },
+  };
+}
+
+export function createNoopDiarizer(): DiarizationProvider {
+  return {
+    name: "none",
+    isConfigured: () => false,
+    diarize: () => Promise.resolve([]),
+  };
+}
+
+export function createDiarizationProvider(
+  name: DiarizerName,
+): DiarizationProvider {
+  switch (name) {
+    case "http":
+      return createHttpDiarizer();
+    case "fake":
+      return createFakeDiarizer();
+    case "none":
+      return createNoopDiarizer();
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Speaker role inference
+ *
+ * Diarization only says that speakers differ, not who they are. Roles are
+ * inferred from what each speaker says: clinicians talk about doses, orders
+ * and follow-ups; patients describe their own symptoms in the first person;
+ * family talk about the patient in the third person and about home care.
+ */
+
+import type { SpeakerRole } from "./types.ts";
+
+type KnownRole = Exclude<SpeakerRole, "UNKNOWN">;
+
+const ROLE_CUES: Record<KnownRole, RegExp[]> = {
+  CLINICIAN: [
+    /\b(prescrib\w*|milligrams?|mg|dosage|doses?)\b/g,
+    /\bi'?d like (you|her|him) to\b/g,
+    /\bi want (you|her|him) to\b/g,
+    /\bi'?m going to (start|stop|increase|decrease|order|refer)\b/g,
+    /\blet'?s (start|stop|increase|decrease|try|hold|schedule)\b/g,
+    /\b(follow[- ]up|come back in|see (you|her|him) (again )?in)\b/g,
+    /\b(labs?|blood work|imaging|x-ray|mri|ct scan|test results)\b/g,
+    /\b(exam|examine|vitals|blood pressure)\b/g,
+    /\b(refer|referral)\b/g,
+    /\b(twice a day|once a day|every \d+ hours|as needed)\b/g,
+    /\bany (questions|side effects)\b/g,
+  ],
+  PATIENT: [
+    /\bi (feel|felt|hurt|can'?t sleep|keep getting)\b/g,
+    /\bi'?ve been (feeling|having|getting)\b/g,
+    /\bmy (pain|back|chest|stomach|head|legs?|knees?|hips?|sleep|appetite)\b/g,
+    /\b(it hurts|i'?m (so )?(tired|dizzy|nauseous|in pain))\b/g,
+  ],
+  FAMILY: [
+    /\b(mom|dad|grandma|grandpa)\b/g,
+    /\bmy (mother|father|wife|husband|son|daughter|grandmother|grandfather)\b/g,
+    /\b(she'?s been|he'?s been|she has been|he has been)\b/g,
+    /\b(at home|we (noticed|saw|tried|gave)|i gave (her|him))\b/g,
+    /\b(her|his) (pain|meds|medications?|appetite|sleep|mood)\b/g,
+  ],
+};
+
+/** Fewer matches than this and the role stays UNKNOWN */
+const MIN_CUES = 2;
+
+/** Share of matches the winning role needs */
+const MIN_SHARE = 0.5;
+
+/** Matches at which confidence stops growing */
+const FULL_CONFIDENCE_CUES = 6;
+
+export interface RoleGuess {
+  role: SpeakerRole;
+  confidence: number;
+}
+
+function countCues(text: string, role: KnownRole): number {
+  return ROLE_CUES[role].reduce(
+    (sum, pattern) => sum + (text.match(pattern)?.length ?? 0),
+    0,
+  );
+}
+
+export function inferSpeakerRole(text: string): RoleGuess {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+  const counts = (Object.keys(ROLE_CUES) as KnownRole[]).map((role) => ({
+    role,
+    count: countCues(normalized, role),
+  }));
+  const total = counts.reduce((sum, c) => sum + c.count, 0);
+  const best = counts.reduce((a, b) => (b.count > a.count ? b : a));
+
+  const share = total > 0 ? best.count / total : 0;
+  if (total < MIN_CUES || share < MIN_SHARE) {
+    return { role: "UNKNOWN", confidence: 0 };
+  }
+
+  const confidence = share * Math.min(1, total / FULL_CONFIDENCE_CUES);
+  return {
+    role: best.role,
+    confidence: Math.round(confidence * 100) / 100,
+  };
+}
+
+/**
+ * Infer a role per speaker from all of their text. Only one speaker can be
+ * the patient: other first-person speakers are more likely family members
+ * describing their own view, so they are demoted to FAMILY.
+ */
+export function inferSpeakerRoles(
+  textBySpeaker: Map<string, string>,
+): Map<string, RoleGuess> {
+  const guesses = new Map<string, RoleGuess>();
+  for (const [speaker, text] of textBySpeaker) {
+    guesses.set(speaker, inferSpeakerRole(text));
+  }
+
+  const patients = [...guesses.entries()]
+    .filter(([, guess]) => guess.role === "PATIENT")
+    .sort(([, a], [, b]) => b.confidence - a.confidence);
+  for (const [speaker, guess] of patients.slice(1)) {
+    guesses.set(speaker, {
+      role: "FAMILY",
+      confidence: Math.round(guess.confidence * 50) / 100,
+    });
+  }
+
+  return guesses;
+}
@@ -0,0 +1,82 @@
+/**
+ * Diarization types
+ */
+
+export type DiarizerName = "http" | "fake" | "none";
+
+/** A stretch of audio attributed to one speaker, in seconds */
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  /** Backend label, e.g. "SPEAKER_00"; only stable within one request */
+  speaker: string;
+}
+
+export interface DiarizationRequest {
+  audio: Blob;
+  filename?: string;
+  /** Audio length, when known from transcription */
+  durationSec?: number;
+}
+
+/** A backend performs one attempt per call; the client adds the timeout */
+export interface DiarizationProvider {
+  name: DiarizerName;
+  isConfigured(): boolean;
+  diarize(
+    request: DiarizationRequest,
+    signal: AbortSignal,
+  ): Promise<SpeakerTurn[]>;
+}
+
+export type DiarizationErrorCode =
+  | "NOT_CONFIGURED"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "PROVIDER_ERROR"
+  | "INVALID_OUTPUT";
+
+export class DiarizationError extends Error {
+  readonly code: DiarizationErrorCode;
+
+  constructor(code: DiarizationErrorCode, message: string) {
+    super(message);
+    this.name = "DiarizationError";
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// Persisted transcript (handoffs.transcript_segments_json)
+// ============================================================================
+
+/**
+ * Who a speaker is, inferred from what they say. PATIENT and FAMILY are kept
+ * apart; consumers that only need clinician-vs-family treat both as family.
+ */
+export type SpeakerRole = "CLINICIAN" | "PATIENT" | "FAMILY" | "UNKNOWN";
+
+export interface TranscriptSpeaker {
+  /** "A", "B", ... in order of first appearance */
+  id: string;
+  role: SpeakerRole;
+  role_confidence: number;
+}
+
+export interface TranscriptSegment {
+  start_ms: number;
+  end_ms: number;
+  /** TranscriptSpeaker.id, or null when diarization was unavailable */
+  speaker: string | null;
+  text: string;
+  /** Offsets of `text` in handoffs.raw_transcript (end exclusive) */
+  char_start: number;
+  char_end: number;
+}
+
+export interface SpeakerTranscript {
+  version: 1;
+  diarizer: DiarizerName;
+  speakers: TranscriptSpeaker[];
+  segments: TranscriptSegment[];
+}
@@ -0,0 +1,252 @@
+/**
+ * Shared LLM client for Edge Functions
+ *
+ * Wraps a provider with uniform timeouts, retry/backoff, structured-output
+ * validation, `user_ai_consent` checks and token accounting.
+ *
+ * Provider selection: LLM_PROVIDER (openai | xai | local | fake) overrides the
+ * per-function default, so the whole suite can be switched to another vendor
+ * or run offline with LLM_PROVIDER=fake.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createProvider } from "./providers.ts";
+import { hasAIConsent, recordTokenUsage } from "./policy.ts";
+import { parseJSONContent } from "./structured.ts";
+import {
+  LLMError,
+  type CompletionRequest,
+  type CompletionResult,
+  type ConsentPolicy,
+  type LLMProvider,
+  type LLMProviderName,
+  type OutputValidator,
+  type TranscriptionRequest,
+  type TranscriptionResult,
+} from "./types.ts";
+
+export * from "./types.ts";
+export * from "./structured.ts";
+export { hasAIConsent, LLM_TOKEN_METRIC } from "./policy.ts";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_JITTER_MS = 250;
+
+/** Attempts for structured output before giving up with INVALID_OUTPUT */
+const STRUCTURED_ATTEMPTS = 2;
+
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "xai", "local", "fake"];
+
+export interface LLMClientOptions {
+  /** Short function name, used in logs */
+  feature: string;
+  /** Provider used when LLM_PROVIDER is not set */
+  defaultProvider?: LLMProviderName;
+  /** Service-role client for consent checks and usage accounting */
+  supabase?: SupabaseClient;
+  /** User whose consent applies and who is billed for tokens */
+  userId?: string;
+  /** Circle the usage is attributed to; tokens are only recorded when set */
+  circleId?: string;
+  consent?: ConsentPolicy;
+}
+
+export interface JSONCompletionResult<T> extends CompletionResult {
+  data: T;
+}
+
+export interface LLMClient {
+  provider: LLMProviderName;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  completeJSON<T>(
+    request: CompletionRequest,
+    validate: OutputValidator<T>,
+  ): Promise<JSONCompletionResult<T>>;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>;
+}
+
+export function resolveProviderName(
+  defaultProvider: LLMProviderName = "openai",
+): LLMProviderName {
+  const configured = Deno.env.get("LLM_PROVIDER")?.trim().toLowerCase();
+  if (!configured) return defaultProvider;
+
+  if (PROVIDER_NAMES.includes(configured as LLMProviderName)) {
+    return configured as LLMProviderName;
+  }
+
+  console.warn(`Unknown LLM_PROVIDER '${configured}', using default`);
+  return defaultProvider;
+}
+
+function backoffDelay(attempt: number): number {
+  return (
+    Math.pow(2, attempt) * BACKOFF_BASE_MS +
+    Math.floor(Math.random() * BACKOFF_JITTER_MS)
+  );
+}
+
+/**
+ * Run one provider operation with a per-attempt timeout, retrying transient
+ * failures with exponential backoff.
+ */
+async function withRetry<T>(
+  feature: string,
+  maxRetries: number,
+  timeoutMs: number,
+  operation: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  let lastError: LLMError | null = null;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      return await operation(controller.signal);
+    } catch (error) {
+      lastError =
+        error instanceof LLMError
+          ? error
+          : new LLMError(
+              "PROVIDER_ERROR",
+              error instanceof Error ? error.name : "Unknown error",
+            );
+
+      // Log without PHI: error messages never contain prompt content
+      console.error(
+        `[${feature}] LLM attempt ${attempt + 1}/${maxRetries + 1} failed: ${lastError.message}`,
+      );
+
+      if (!lastError.retryable || attempt === maxRetries) {
+        break;
+      }
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, backoffDelay(attempt)),
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw lastError ?? new LLMError("PROVIDER_ERROR", "LLM call failed");
+}
+
+export function createLLMClient(options: LLMClientOptions): LLMClient {
+  const providerName = resolveProviderName(options.defaultProvider);
+  const provider: LLMProvider = createProvider(providerName);
+  const consentPolicy: ConsentPolicy =
+    options.consent ?? (options.userId ? "opt-out" : "none");
+
+  let consentChecked = false;
+
+  async function ensureReady(): Promise<void> {
+    if (!provider.isConfigured()) {
+      throw new LLMError(
+        "NOT_CONFIGURED",
+        `LLM provider '${providerName}' is not configured`,
+      );
+    }
+
+    if (consentChecked || consentPolicy === "none") return;
+
+    if (!options.supabase || !options.userId) {
+      throw new LLMError(
+        "CONSENT_REQUIRED",
+        "Consent policy requires a user and database client",
+      );
+    }
+
+    const allowed = await hasAIConsent(
+      options.supabase,
+      options.userId,
+      consentPolicy,
+    );
+    if (!allowed) {
+      throw new LLMError(
+        "CONSENT_REQUIRED",
+        "User has not consented to AI processing",
+      );
+    }
+    consentChecked = true;
+  }
+
+  async function account(result: CompletionResult): Promise<void> {
+    if (options.supabase && options.userId && options.circleId) {
+      await recordTokenUsage(
+        options.supabase,
+        options.userId,
+        options.circleId,
+        result.usage,
+      );
+    }
+  }
+
+  async function complete(
+    request: CompletionRequest,
+  ): Promise<CompletionResult> {
+    await ensureReady();
+
+    const result = await withRetry(
+      options.feature,
+      request.maxRetries ?? DEFAULT_MAX_RETRIES,
+      request.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      (signal) => provider.complete(request, signal),
+    );
+
+    await account(result);
+    return result;
+  }
+
+  async function completeJSON<T>(
+    request: CompletionRequest,
+    validate: OutputValidator<T>,
+  ): Promise<JSONCompletionResult<T>> {
+    const jsonRequest = { ...request, jsonMode: request.jsonMode ?? true };
+
+    for (let attempt = 1; attempt <= STRUCTURED_ATTEMPTS; attempt++) {
+      const result = await complete(jsonRequest);
+      const parsed = parseJSONContent(result.content);
+      const data = parsed === undefined ? null : validate(parsed);
+
+      if (data !== null) {
+        return { ...result, data };
+      }
+
+      // Don't log the content itself: it may contain PHI
+      console.warn(
+        `[${options.feature}] LLM output failed validation (attempt ${attempt}/${STRUCTURED_ATTEMPTS})`,
+      );
+    }
+
+    throw new LLMError(
+      "INVALID_OUTPUT",
+      "LLM output did not match the expected schema",
+    );
+  }
+
+  async function transcribe(
+    request: TranscriptionRequest,
+  ): Promise<TranscriptionResult> {
+    await ensureReady();
+
+    return await withRetry(
+      options.feature,
+      request.maxRetries ?? DEFAULT_MAX_RETRIES,
+      request.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      (signal) => provider.transcribe(request, signal),
+    );
+  }
+
+  return {
+    provider: providerName,
+    isConfigured: () => provider.isConfigured(),
+    complete,
+    completeJSON,
+    transcribe,
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Consent and usage accounting for LLM calls
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { ConsentPolicy, TokenUsage } from "./types.ts";
+
+/** usage_metrics.metric_type for LLM token accounting */
+export const LLM_TOKEN_METRIC = "LLM_TOKENS";
+
+/**
+ * Check `user_ai_consent` for the given policy. A lookup failure is treated as
+ * no consent for "required", and as no explicit opt-out for "opt-out".
+ */
+export async function hasAIConsent(
+  supabase: SupabaseClient,
+  userId: string,
+  policy: ConsentPolicy,
+): Promise<boolean> {
+  if (policy === "none") return true;
+
+  const { data, error } = await supabase
+    .from("user_ai_consent")
+    .select("ai_processing_enabled")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("AI consent lookup failed:", error.code);
+    return policy === "opt-out";
+  }
+
+  if (policy === "required") {
+    return data?.ai_processing_enabled === true;
+  }
+
+  // opt-out: only an explicit `false` row blocks processing
+  return !data || data.ai_processing_enabled !== false;
+}
+
+/**
+ * Add total tokens to the user's monthly usage_metrics row.
+ * Best-effort: accounting failures never fail the calling request.
+ */
+export async function recordTokenUsage(
+  supabase: SupabaseClient,
+  userId: string,
+  circleId: string,
+  usage: TokenUsage,
+): Promise<void> {
+  if (usage.totalTokens <= 0) return;
+
+  try {
+    const { error } = await supabase.rpc("increment_usage", {
+      p_user_id: userId,
+      p_circle_id: circleId,
+      p_metric_type: LLM_TOKEN_METRIC,
+      p_amount: usage.totalTokens,
+    });
+    if (error) {
+      console.warn("Failed to record LLM token usage:", error.code);
+    }
+  } catch {
+    console.warn("Failed to record LLM token usage");
+  }
+}
@@ -0,0 +1,412 @@
+/**
+ * LLM provider implementations
+ *
+ * OpenAI, xAI and local inference servers (Ollama, vLLM, llama.cpp) all speak
+ * the OpenAI chat-completions wire format, so they share one implementation.
+ * The fake provider is deterministic and never touches the network.
+ */
+
+import {
+  LLMError,
+  type CompletionRequest,
+  type CompletionResult,
+  type LLMProvider,
+  type LLMProviderName,
+  type ModelTier,
+  type TranscriptionRequest,
+  type TranscriptionResult,
+  type TranscriptionSegment,
+} from "./types.ts";
+
+interface OpenAICompatibleConfig {
+  name: LLMProviderName;
+  baseUrl: string | undefined;
+  apiKey: string | undefined;
+  /** Local servers often run without auth */
+  requiresApiKey: boolean;
+  models: Record<ModelTier, string>;
+  transcriptionModel: string | null;
+  /** Model that can return segment timestamps (verbose_json) */
+  timestampModel: string | null;
+}
+
+/** A segment of a verbose_json transcription, as the provider sends it */
+interface VerboseSegment {
+  start?: unknown;
+  end?: unknown;
+  text?: unknown;
+}
+
+function isTimedSegment(
+  segment: VerboseSegment | null,
+): segment is { start: number; end: number; text: string } {
+  return (
+    typeof segment?.start === "number" &&
+    typeof segment?.end === "number" &&
+    typeof segment?.text === "string"
+  );
+}
+
+function envModel(tier: ModelTier): string | undefined {
+  return Deno.env.get(`LLM_MODEL_${tier.toUpperCase()}`);
+}
+
+function createOpenAICompatibleProvider(
+  config: OpenAICompatibleConfig,
+): LLMProvider {
+  const baseUrl = config.baseUrl?.replace(/\/+$/, "");
+
+  function isConfigured(): boolean {
+    return !!baseUrl && (!config.requiresApiKey || !!config.apiKey);
+  }
+
+  function headers(): Record<string, string> {
+    return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+  }
+
+  async function send(
+    path: string,
+    init: RequestInit,
+    signal: AbortSignal,
+  ): Promise<Response> {
+    if (!isConfigured()) {
+      throw new LLMError(
+        "NOT_CONFIGURED",
+        `LLM provider '${config.name}' is not configured`,
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { ...init, signal });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw new LLMError("TIMEOUT", `${config.name} request timed out`);
+      }
+      throw new LLMError("NETWORK_ERROR", `${config.name} request failed`);
+    }
+
+    if (!response.ok) {
+      // Don't read the body: providers may echo prompt content (PHI) back
+      await response.body?.cancel();
+      if (response.status === 429) {
+        throw new LLMError(
+          "RATE_LIMITED",
+          `${config.name} rate limited`,
+          response.status,
+        );
+      }
+      throw new LLMError(
+        "PROVIDER_ERROR",
+        `${config.name} API error: ${response.status}`,
+        response.status,
+      );
+    }
+
+    return response;
+  }
+
+  function resolveModel(tier: ModelTier): string {
+    return envModel(tier) || config.models[tier];
+  }
+
+  return {
+    name: config.name,
+    isConfigured,
+    resolveModel,
+
+    async complete(
+      request: CompletionRequest,
+      signal: AbortSignal,
+    ): Promise<CompletionResult> {
+      const model = request.model || resolveModel(request.tier ?? "fast");
+
+      const response = await send(
+        "/chat/completions",
+        {
+          method: "POST",
+          headers: { ...headers(), "Content-Type": "application/json" },
+          body: JSON.stringify({
+            model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            ...(request.jsonMode
+              ? { response_format: { type: "json_object" } }
+              : {}),
+          }),
+        },
+        signal,
+      );
+
+      let data;
+      try {
+        data = await response.json();
+      } catch {
+        throw new LLMError(
+          "INVALID_OUTPUT",
+          `${config.name} returned a non-JSON response`,
+        );
+      }
+
+      const choice = data?.choices?.[0];
+      const content = choice?.message?.content;
+      if (typeof content !== "string") {
+        throw new LLMError(
+          "INVALID_OUTPUT",
+          `${config.name} returned a malformed response structure`,
+        );
+      }
+
+      return {
+        content,
+        model: typeof data.model === "string" ? data.model : model,
+        provider: config.name,
+        finishReason: choice?.finish_reason ?? null,
+        usage: {
+          promptTokens: data.usage?.prompt_tokens ?? 0,
+          completionTokens: data.usage?.completion_tokens ?? 0,
+          totalTokens: data.usage?.total_tokens ?? 0,
+        },
+      };
+    },
+
+    async transcribe(
+      request: TranscriptionRequest,
+      signal: AbortSignal,
+    ): Promise<TranscriptionResult> {
+      const timestamped = !!request.timestamps && !!config.timestampModel;
+      const model =
+        request.model ||
+        (timestamped ? config.timestampModel : config.transcriptionModel);
+      if (!model) {
+        throw new LLMError(
+          "UNSUPPORTED",
+          `${config.name} does not support transcription`,
+        );
+      }
+
+      const form = new FormData();
+      form.append("file", request.audio, request.filename ?? "audio.m4a");
+      form.append("model", model);
+      if (timestamped) {
+        form.append("response_format", "verbose_json");
+        form.append("timestamp_granularities[]", "segment");
+      } else {
+        form.append("response_format", "text");
+      }
+      if (request.language) {
+        form.append("language", request.language);
+      }
+      if (request.prompt) {
+        form.append("prompt", request.prompt);
+      }
+
+      const response = await send(
+        "/audio/transcriptions",
+        { method: "POST", headers: headers(), body: form },
+        signal,
+      );
+
+      if (!timestamped) {
+        return {
+          text: (await response.text()).trim(),
+          model,
+          provider: config.name,
+        };
+      }
+
+      let data;
+      try {
+        data = await response.json();
+      } catch {
+        throw new LLMError(
+          "INVALID_OUTPUT",
+          `${config.name} returned a non-JSON transcription`,
+        );
+      }
+
+      const segments: TranscriptionSegment[] = Array.isArray(data.segments)
+        ? (data.segments as (VerboseSegment | null)[])
+            .filter(isTimedSegment)
+            .map((s) => ({
+              start: s.start,
+              end: s.end,
+              text: s.text.trim(),
+            }))
+        : [];
+
+      return {
+        text: typeof data.text === "string" ? data.text.trim() : "",
+        model,
+        provider: config.name,
+        segments,
+        durationSec:
+          typeof data.duration === "number" ? data.duration : undefined,
+      };
+    },
+  };
+}
+
+export function createOpenAIProvider(): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: "openai",
+    baseUrl: "https://api.openai.com/v1",
+    apiKey: Deno.env.get("OPENAI_API_KEY"),
+    requiresApiKey: true,
+    models: {
+      fast: "gpt-4o-mini",
+      accurate: "gpt-4o",
+      reasoning: "gpt-4o",
+    },
+    transcriptionModel: "gpt-4o-mini-transcribe",
+    // gpt-4o-*-transcribe models only return plain text
+    timestampModel: "whisper-1",
+  });
+}
+
+export function createXAIProvider(): LLMProvider {
+  return createOpenAICompatibleProvider({
+    name: "xai",
+    baseUrl: "https://api.x.ai/v1",
+    apiKey: Deno.env.get("XAI_API_KEY"),
+    requiresApiKey: true,
+    models: {
+      fast: "grok-4-1-fast-non-reasoning",
+      accurate: "grok-4-1-fast-reasoning",
+      reasoning: "grok-4-1-fast-reasoning",
+    },
+    transcriptionModel: null,
+    timestampModel: null,
+  });
+}
+
+/**
+ * Self-hosted OpenAI-compatible endpoint, e.g. LLM_PROVIDER_URL=http://localhost:11434/v1
+ */
+export function createLocalProvider(): LLMProvider {
+  const model = Deno.env.get("LLM_LOCAL_MODEL") || "llama3.1";
+  const transcriptionModel =
+    Deno.env.get("LLM_LOCAL_TRANSCRIPTION_MODEL") || null;
+  return createOpenAICompatibleProvider({
+    name: "local",
+    baseUrl: Deno.env.get("LLM_PROVIDER_URL"),
+    apiKey: Deno.env.get("LLM_API_KEY"),
+    requiresApiKey: false,
+    models: { fast: model, accurate: model, reasoning: model },
+    transcriptionModel,
+    // whisper.cpp and faster-whisper servers support verbose_json
+    timestampModel: transcriptionModel,
+  });
+}
+
+// ============================================================================
+// Fake provider
+// ============================================================================
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function messageText(request: CompletionRequest): string {
+  return request.messages
+    .map((m) =>
+      typeof m.content === "string"
+        ? m.content
+        : m.content
+            .map((part) => (part.type === "text" ? part.text : ""))
+            .join(" "),
+    )
+    .join("\n");
+}
+
+/**
+ * Deterministic provider for offline runs and tests. Returns
+ * LLM_FAKE_RESPONSE verbatim when set; otherwise an empty JSON object in JSON
+ * mode, or a stable echo of the last user message.
+ */
+export function createFakeProvider(): LLMProvider {
+  const fixedResponse = Deno.env.get("LLM_FAKE_RESPONSE");
+
+  return {
+    name: "fake",
+    isConfigured: () => true,
+    resolveModel: (tier: ModelTier) => `fake-${tier}`,
+
+    complete(request: CompletionRequest): Promise<CompletionResult> {
+      const prompt = messageText(request);
+      const lastUser = [...request.messages]
+        .reverse()
+        .find((m) => m.role === "user");
+      const lastUserText =
+        lastUser && typeof lastUser.content === "string"
+          ? lastUser.content
+          : "";
+
+      const content =
+        fixedResponse ??
+        (request.jsonMode
+          ? "{}"
+          : `[fake response] ${lastUserText.substring(0, 200)}`);
+
+      const promptTokens = estimateTokens(prompt);
+      const completionTokens = estimateTokens(content);
+
+      return Promise.resolve({
+        content,
+        model: request.model || `fake-${request.tier ?? "fast"}`,
+        provider: "fake",
+        finishReason: "stop",
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      });
+    },
+
+    transcribe(request: TranscriptionRequest): Promise<TranscriptionResult> {
+      const text =
+        Deno.env.get("LLM_FAKE_TRANSCRIPT") ??
+        `[fake transcript of ${request.audio.size} bytes]`;
+      if (!request.timestamps) {
+        return Promise.resolve({
+          text,
+          model: "fake-transcribe",
+          provider: "fake",
+        });
+      }
+
+      // One segment per sentence, five seconds apart
+      const sentences = text.match(/[^.!?]+[.!?]*/g) ?? [text];
+      const segments = sentences
+        .map((sentence) => sentence.trim())
+        .filter(Boolean)
+        .map((sentence, i) => ({
+          start: i * 5,
+          end: i * 5 + 4.5,
+          text: sentence,
+        }));
+      return Promise.resolve({
+        text,
+        model: "fake-transcribe",
+        provider: "fake",
+        segments,
+        durationSec: segments.length * 5,
+      });
+    },
+  };
+}
+
+export function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider();
+    case "xai":
+      return createXAIProvider();
+    case "local":
+      return createLocalProvider();
+    case "fake":
+      return createFakeProvider();
+  }
+}
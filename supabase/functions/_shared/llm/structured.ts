@@ -0,0 +1,80 @@
+/**
+ * Structured-output helpers
+ *
+ * Models wrap JSON in markdown fences, prefix it with prose, or nest arrays
+ * under arbitrary keys. These helpers normalize that before validation.
+ */
+
+/**
+ * Parse JSON from model output. Strips markdown code fences and falls back to
+ * the outermost object/array when the model added surrounding text.
+ * Returns undefined when nothing parseable is found.
+ */
+export function parseJSONContent(content: string): unknown {
+  let text = content.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Fall through to bracket extraction
+  }
+
+  const candidates = [text.match(/\{[\s\S]*\}/), text.match(/\[[\s\S]*\]/)];
+  for (const match of candidates) {
+    if (!match) continue;
+    try {
+      return JSON.parse(match[0]);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return undefined;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find an array in a model response that may be bare or wrapped in an object
+ * (e.g. `{"tasks": [...]}` when JSON mode forces an object root).
+ */
+export function extractArray(value: unknown, keys: string[]): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (!isRecord(value)) return null;
+
+  for (const key of keys) {
+    const candidate = value[key];
+    if (Array.isArray(candidate)) return candidate;
+    if (isRecord(candidate)) {
+      const nested = extractArray(candidate, keys);
+      if (nested) return nested;
+    }
+  }
+
+  return null;
+}
+
+export function optionalString(
+  value: unknown,
+  maxLength: number,
+): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.substring(0, maxLength) : undefined;
+}
+
+export function oneOf<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+): T | undefined {
+  return typeof value === "string" && allowed.includes(value as T)
+    ? (value as T)
+    : undefined;
+}
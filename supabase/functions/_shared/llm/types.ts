@@ -0,0 +1,158 @@
+/**
+ * Shared LLM types
+ *
+ * Every provider speaks the same request/response shapes so Edge Functions
+ * never depend on a vendor's wire format directly.
+ */
+
+export type LLMProviderName = "openai" | "xai" | "local" | "fake";
+
+/**
+ * Model tiers are mapped to concrete model names per provider, so switching
+ * vendors does not require touching call sites.
+ * - fast: cheap, low-latency extraction and classification
+ * - accurate: higher quality extraction (multi-page vision, long documents)
+ * - reasoning: conversational and summarization workloads
+ */
+export type ModelTier = "fast" | "accurate" | "reasoning";
+
+export type LLMRole = "system" | "user" | "assistant";
+
+export type LLMContentPart =
+  | { type: "text"; text: string }
+  | {
+      type: "image_url";
+      image_url: { url: string; detail?: "low" | "high" | "auto" };
+    };
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | LLMContentPart[];
+}
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  tier?: ModelTier;
+  /** Explicit model name; overrides the tier mapping */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask the provider for a JSON object response */
+  jsonMode?: boolean;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Retries for transient failures (total attempts = maxRetries + 1) */
+  maxRetries?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  provider: LLMProviderName;
+  finishReason: string | null;
+  usage: TokenUsage;
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  filename?: string;
+  model?: string;
+  language?: string;
+  /** Preceding text, used by Whisper-style models to keep context across segments */
+  prompt?: string;
+  /** Ask for segment timestamps; providers without them return text only */
+  timestamps?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+/** A timed stretch of transcript, in seconds from the start of the audio */
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  model: string;
+  provider: LLMProviderName;
+  /** Present when timestamps were requested and the model supports them */
+  segments?: TranscriptionSegment[];
+  durationSec?: number;
+}
+
+/**
+ * A provider performs exactly one attempt per call. Retries, consent and
+ * usage accounting live in the client so every provider behaves the same.
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  isConfigured(): boolean;
+  resolveModel(tier: ModelTier): string;
+  complete(
+    request: CompletionRequest,
+    signal: AbortSignal,
+  ): Promise<CompletionResult>;
+  transcribe(
+    request: TranscriptionRequest,
+    signal: AbortSignal,
+  ): Promise<TranscriptionResult>;
+}
+
+/**
+ * Returns the validated value, or null when the parsed output does not match
+ * the expected shape.
+ */
+export type OutputValidator<T> = (value: unknown) => T | null;
+
+/**
+ * How a call site treats `user_ai_consent`:
+ * - required: the user must have explicitly opted in
+ * - opt-out: proceed unless the user has explicitly turned AI processing off
+ * - none: no user is attached to the call (e.g. anonymous heuristics)
+ */
+export type ConsentPolicy = "required" | "opt-out" | "none";
+
+export type LLMErrorCode =
+  | "NOT_CONFIGURED"
+  | "CONSENT_REQUIRED"
+  | "TIMEOUT"
+  | "RATE_LIMITED"
+  | "NETWORK_ERROR"
+  | "PROVIDER_ERROR"
+  | "INVALID_OUTPUT"
+  | "UNSUPPORTED";
+
+const RETRYABLE_CODES: LLMErrorCode[] = [
+  "TIMEOUT",
+  "RATE_LIMITED",
+  "NETWORK_ERROR",
+];
+
+/**
+ * Error raised by the LLM module. Messages never include prompt or response
+ * content, so they are safe to log.
+ */
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly status?: number;
+
+  constructor(code: LLMErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = "LLMError";
+    this.code = code;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    if (RETRYABLE_CODES.includes(this.code)) return true;
+    return this.code === "PROVIDER_ERROR" && (this.status ?? 0) >= 500;
+  }
+}
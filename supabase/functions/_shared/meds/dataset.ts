@@ -0,0 +1,616 @@
+/**
+ * Offline medication dataset
+ *
+ * A curated subset covering the drugs most common in home care of older
+ * adults: ingredients and their therapeutic classes, brand and abbreviation
+ * aliases, major interactions, and AGS Beers Criteria cautions. It is not a
+ * complete drug compendium; names not found here are reported as
+ * unrecognized rather than silently passing.
+ *
+ * Interaction and Beers terms match either an ingredient (lowercase) or a
+ * class (uppercase).
+ */
+
+export interface DrugClass {
+  label: string;
+  /** Two different members of the class is duplicate therapy */
+  duplicate: boolean;
+}
+
+export const CLASSES: Record<string, DrugClass> = {
+  ACE_INHIBITOR: { label: "ACE inhibitors", duplicate: true },
+  ARB: { label: "ARBs", duplicate: true },
+  STATIN: { label: "statins", duplicate: true },
+  NSAID: { label: "NSAIDs", duplicate: true },
+  PPI: { label: "proton pump inhibitors", duplicate: true },
+  SSRI: { label: "SSRIs", duplicate: true },
+  SNRI: { label: "SNRIs", duplicate: true },
+  TCA: { label: "tricyclic antidepressants", duplicate: true },
+  MAOI: { label: "MAO inhibitors", duplicate: true },
+  BENZODIAZEPINE: { label: "benzodiazepines", duplicate: true },
+  Z_DRUG: { label: "sleep medicines (Z-drugs)", duplicate: true },
+  OPIOID: { label: "opioids", duplicate: true },
+  GABAPENTINOID: { label: "gabapentinoids", duplicate: true },
+  SULFONYLUREA: { label: "sulfonylureas", duplicate: true },
+  ANTICOAGULANT: { label: "anticoagulants", duplicate: true },
+  ANTIPLATELET: { label: "antiplatelets", duplicate: false },
+  ANTIPSYCHOTIC: { label: "antipsychotics", duplicate: true },
+  ANTIHISTAMINE_1G: {
+    label: "first-generation antihistamines",
+    duplicate: true,
+  },
+  MUSCLE_RELAXANT: { label: "muscle relaxants", duplicate: true },
+  BETA_BLOCKER: { label: "beta blockers", duplicate: true },
+  THIAZIDE: { label: "thiazide diuretics", duplicate: false },
+  LOOP_DIURETIC: { label: "loop diuretics", duplicate: true },
+  K_SPARING: { label: "potassium-sparing diuretics", duplicate: true },
+  POTASSIUM: { label: "potassium supplements", duplicate: false },
+  NITRATE: { label: "nitrates", duplicate: false },
+  PDE5_INHIBITOR: { label: "PDE5 inhibitors", duplicate: true },
+  ANTICHOLINERGIC_BLADDER: {
+    label: "bladder antimuscarinics",
+    duplicate: true,
+  },
+  AZOLE_ANTIFUNGAL: { label: "azole antifungals", duplicate: false },
+  MACROLIDE: { label: "macrolide antibiotics", duplicate: false },
+};
+
+/** Ingredient -> classes; every ingredient is also a recognized name */
+export const INGREDIENTS: Record<string, string[]> = {
+  // Cardiovascular
+  lisinopril: ["ACE_INHIBITOR"],
+  enalapril: ["ACE_INHIBITOR"],
+  benazepril: ["ACE_INHIBITOR"],
+  ramipril: ["ACE_INHIBITOR"],
+  quinapril: ["ACE_INHIBITOR"],
+  losartan: ["ARB"],
+  valsartan: ["ARB"],
+  irbesartan: ["ARB"],
+  olmesartan: ["ARB"],
+  telmisartan: ["ARB"],
+  metoprolol: ["BETA_BLOCKER"],
+  atenolol: ["BETA_BLOCKER"],
+  carvedilol: ["BETA_BLOCKER"],
+  propranolol: ["BETA_BLOCKER"],
+  bisoprolol: ["BETA_BLOCKER"],
+  hydrochlorothiazide: ["THIAZIDE"],
+  chlorthalidone: ["THIAZIDE"],
+  furosemide: ["LOOP_DIURETIC"],
+  torsemide: ["LOOP_DIURETIC"],
+  bumetanide: ["LOOP_DIURETIC"],
+  spironolactone: ["K_SPARING"],
+  eplerenone: ["K_SPARING"],
+  triamterene: ["K_SPARING"],
+  amiloride: ["K_SPARING"],
+  "potassium chloride": ["POTASSIUM"],
+  amlodipine: [],
+  diltiazem: [],
+  verapamil: [],
+  digoxin: [],
+  amiodarone: [],
+  isosorbide: ["NITRATE"],
+  nitroglycerin: ["NITRATE"],
+  atorvastatin: ["STATIN"],
+  simvastatin: ["STATIN"],
+  rosuvastatin: ["STATIN"],
+  pravastatin: ["STATIN"],
+  lovastatin: ["STATIN"],
+  warfarin: ["ANTICOAGULANT"],
+  apixaban: ["ANTICOAGULANT"],
+  rivaroxaban: ["ANTICOAGULANT"],
+  dabigatran: ["ANTICOAGULANT"],
+  clopidogrel: ["ANTIPLATELET"],
+  aspirin: ["ANTIPLATELET"],
+  sildenafil: ["PDE5_INHIBITOR"],
+  tadalafil: ["PDE5_INHIBITOR"],
+
+  // Pain
+  acetaminophen: [],
+  ibuprofen: ["NSAID"],
+  naproxen: ["NSAID"],
+  meloxicam: ["NSAID"],
+  diclofenac: ["NSAID"],
+  celecoxib: ["NSAID"],
+  indomethacin: ["NSAID"],
+  ketorolac: ["NSAID"],
+  hydrocodone: ["OPIOID"],
+  oxycodone: ["OPIOID"],
+  morphine: ["OPIOID"],
+  tramadol: ["OPIOID"],
+  codeine: ["OPIOID"],
+  hydromorphone: ["OPIOID"],
+  fentanyl: ["OPIOID"],
+  methadone: ["OPIOID"],
+  gabapentin: ["GABAPENTINOID"],
+  pregabalin: ["GABAPENTINOID"],
+  cyclobenzaprine: ["MUSCLE_RELAXANT"],
+  methocarbamol: ["MUSCLE_RELAXANT"],
+  carisoprodol: ["MUSCLE_RELAXANT"],
+  baclofen: ["MUSCLE_RELAXANT"],
+  tizanidine: ["MUSCLE_RELAXANT"],
+
+  // Mental health and sleep
+  sertraline: ["SSRI"],
+  fluoxetine: ["SSRI"],
+  citalopram: ["SSRI"],
+  escitalopram: ["SSRI"],
+  paroxetine: ["SSRI"],
+  venlafaxine: ["SNRI"],
+  duloxetine: ["SNRI"],
+  amitriptyline: ["TCA"],
+  nortriptyline: ["TCA"],
+  doxepin: ["TCA"],
+  imipramine: ["TCA"],
+  phenelzine: ["MAOI"],
+  selegiline: ["MAOI"],
+  rasagiline: ["MAOI"],
+  trazodone: [],
+  mirtazapine: [],
+  bupropion: [],
+  lorazepam: ["BENZODIAZEPINE"],
+  alprazolam: ["BENZODIAZEPINE"],
+  clonazepam: ["BENZODIAZEPINE"],
+  diazepam: ["BENZODIAZEPINE"],
+  temazepam: ["BENZODIAZEPINE"],
+  zolpidem: ["Z_DRUG"],
+  eszopiclone: ["Z_DRUG"],
+  quetiapine: ["ANTIPSYCHOTIC"],
+  risperidone: ["ANTIPSYCHOTIC"],
+  olanzapine: ["ANTIPSYCHOTIC"],
+  haloperidol: ["ANTIPSYCHOTIC"],
+  aripiprazole: ["ANTIPSYCHOTIC"],
+  lithium: [],
+  donepezil: [],
+  memantine: [],
+
+  // Allergy, GI and bladder
+  diphenhydramine: ["ANTIHISTAMINE_1G"],
+  hydroxyzine: ["ANTIHISTAMINE_1G"],
+  chlorpheniramine: ["ANTIHISTAMINE_1G"],
+  doxylamine: ["ANTIHISTAMINE_1G"],
+  meclizine: ["ANTIHISTAMINE_1G"],
+  promethazine: ["ANTIHISTAMINE_1G"],
+  omeprazole: ["PPI"],
+  esomeprazole: ["PPI"],
+  pantoprazole: ["PPI"],
+  lansoprazole: ["PPI"],
+  famotidine: [],
+  metoclopramide: [],
+  oxybutynin: ["ANTICHOLINERGIC_BLADDER"],
+  tolterodine: ["ANTICHOLINERGIC_BLADDER"],
+  solifenacin: ["ANTICHOLINERGIC_BLADDER"],
+
+  // Diabetes
+  metformin: [],
+  glipizide: ["SULFONYLUREA"],
+  glyburide: ["SULFONYLUREA"],
+  glimepiride: ["SULFONYLUREA"],
+  insulin: [],
+
+  // Anti-infectives and other
+  "trimethoprim sulfamethoxazole": [],
+  ciprofloxacin: [],
+  nitrofurantoin: [],
+  clarithromycin: ["MACROLIDE"],
+  erythromycin: ["MACROLIDE"],
+  fluconazole: ["AZOLE_ANTIFUNGAL"],
+  itraconazole: ["AZOLE_ANTIFUNGAL"],
+  ketoconazole: ["AZOLE_ANTIFUNGAL"],
+  metronidazole: [],
+  linezolid: [],
+  methotrexate: [],
+  allopurinol: [],
+  azathioprine: [],
+  levothyroxine: [],
+  prednisone: [],
+  megestrol: [],
+  estradiol: [],
+};
+
+/** Brand names and label abbreviations -> ingredients */
+export const ALIASES: Record<string, string[]> = {
+  apap: ["acetaminophen"],
+  tylenol: ["acetaminophen"],
+  paracetamol: ["acetaminophen"],
+  asa: ["aspirin"],
+  advil: ["ibuprofen"],
+  motrin: ["ibuprofen"],
+  aleve: ["naproxen"],
+  celebrex: ["celecoxib"],
+  mobic: ["meloxicam"],
+  norco: ["hydrocodone", "acetaminophen"],
+  vicodin: ["hydrocodone", "acetaminophen"],
+  percocet: ["oxycodone", "acetaminophen"],
+  "tylenol pm": ["acetaminophen", "diphenhydramine"],
+  "advil pm": ["ibuprofen", "diphenhydramine"],
+  nyquil: ["acetaminophen", "doxylamine"],
+  ultram: ["tramadol"],
+  oxycontin: ["oxycodone"],
+  neurontin: ["gabapentin"],
+  lyrica: ["pregabalin"],
+  flexeril: ["cyclobenzaprine"],
+  soma: ["carisoprodol"],
+  zestril: ["lisinopril"],
+  prinivil: ["lisinopril"],
+  zestoretic: ["lisinopril", "hydrochlorothiazide"],
+  hctz: ["hydrochlorothiazide"],
+  cozaar: ["losartan"],
+  hyzaar: ["losartan", "hydrochlorothiazide"],
+  diovan: ["valsartan"],
+  lopressor: ["metoprolol"],
+  toprol: ["metoprolol"],
+  coreg: ["carvedilol"],
+  lasix: ["furosemide"],
+  aldactone: ["spironolactone"],
+  dyazide: ["triamterene", "hydrochlorothiazide"],
+  maxzide: ["triamterene", "hydrochlorothiazide"],
+  "klor con": ["potassium chloride"],
+  kcl: ["potassium chloride"],
+  norvasc: ["amlodipine"],
+  lanoxin: ["digoxin"],
+  imdur: ["isosorbide"],
+  lipitor: ["atorvastatin"],
+  zocor: ["simvastatin"],
+  crestor: ["rosuvastatin"],
+  coumadin: ["warfarin"],
+  jantoven: ["warfarin"],
+  eliquis: ["apixaban"],
+  xarelto: ["rivaroxaban"],
+  pradaxa: ["dabigatran"],
+  plavix: ["clopidogrel"],
+  viagra: ["sildenafil"],
+  cialis: ["tadalafil"],
+  zoloft: ["sertraline"],
+  prozac: ["fluoxetine"],
+  celexa: ["citalopram"],
+  lexapro: ["escitalopram"],
+  paxil: ["paroxetine"],
+  effexor: ["venlafaxine"],
+  cymbalta: ["duloxetine"],
+  elavil: ["amitriptyline"],
+  ativan: ["lorazepam"],
+  xanax: ["alprazolam"],
+  klonopin: ["clonazepam"],
+  valium: ["diazepam"],
+  restoril: ["temazepam"],
+  ambien: ["zolpidem"],
+  lunesta: ["eszopiclone"],
+  seroquel: ["quetiapine"],
+  risperdal: ["risperidone"],
+  zyprexa: ["olanzapine"],
+  haldol: ["haloperidol"],
+  abilify: ["aripiprazole"],
+  aricept: ["donepezil"],
+  namenda: ["memantine"],
+  benadryl: ["diphenhydramine"],
+  atarax: ["hydroxyzine"],
+  vistaril: ["hydroxyzine"],
+  antivert: ["meclizine"],
+  phenergan: ["promethazine"],
+  prilosec: ["omeprazole"],
+  nexium: ["esomeprazole"],
+  protonix: ["pantoprazole"],
+  prevacid: ["lansoprazole"],
+  pepcid: ["famotidine"],
+  reglan: ["metoclopramide"],
+  ditropan: ["oxybutynin"],
+  detrol: ["tolterodine"],
+  vesicare: ["solifenacin"],
+  glucophage: ["metformin"],
+  glucotrol: ["glipizide"],
+  amaryl: ["glimepiride"],
+  bactrim: ["trimethoprim sulfamethoxazole"],
+  "smx tmp": ["trimethoprim sulfamethoxazole"],
+  "sulfamethoxazole trimethoprim": ["trimethoprim sulfamethoxazole"],
+  cipro: ["ciprofloxacin"],
+  macrobid: ["nitrofurantoin"],
+  macrodantin: ["nitrofurantoin"],
+  biaxin: ["clarithromycin"],
+  diflucan: ["fluconazole"],
+  flagyl: ["metronidazole"],
+  zyvox: ["linezolid"],
+  zyloprim: ["allopurinol"],
+  synthroid: ["levothyroxine"],
+  megace: ["megestrol"],
+  desyrel: ["trazodone"],
+  remeron: ["mirtazapine"],
+  wellbutrin: ["bupropion"],
+  lantus: ["insulin"],
+  humalog: ["insulin"],
+  novolog: ["insulin"],
+};
+
+export interface InteractionRule {
+  a: string;
+  b: string;
+  summary: string;
+  question: string;
+}
+
+/** Major interactions only; moderate ones are left to the pharmacist */
+export const INTERACTIONS: InteractionRule[] = [
+  {
+    a: "ANTICOAGULANT",
+    b: "NSAID",
+    summary:
+      "Taking a blood thinner with an NSAID raises the risk of serious bleeding.",
+    question:
+      "Is it safe to take {a} together with {b}, given the bleeding risk?",
+  },
+  {
+    a: "ANTICOAGULANT",
+    b: "ANTIPLATELET",
+    summary:
+      "A blood thinner plus an antiplatelet raises the risk of serious bleeding.",
+    question:
+      "Do we still need both {a} and {b}? How should we watch for bleeding?",
+  },
+  {
+    a: "warfarin",
+    b: "amiodarone",
+    summary:
+      "Amiodarone strongly increases the effect of warfarin (higher INR).",
+    question: "Should the INR be checked more often while taking {a} and {b}?",
+  },
+  {
+    a: "warfarin",
+    b: "AZOLE_ANTIFUNGAL",
+    summary: "Azole antifungals increase the effect of warfarin (higher INR).",
+    question: "Should the INR be checked while {b} is taken with {a}?",
+  },
+  {
+    a: "warfarin",
+    b: "trimethoprim sulfamethoxazole",
+    summary:
+      "Trimethoprim-sulfamethoxazole increases the effect of warfarin (higher INR).",
+    question: "Should the INR be checked while {b} is taken with {a}?",
+  },
+  {
+    a: "warfarin",
+    b: "metronidazole",
+    summary: "Metronidazole increases the effect of warfarin (higher INR).",
+    question: "Should the INR be checked while {b} is taken with {a}?",
+  },
+  {
+    a: "OPIOID",
+    b: "BENZODIAZEPINE",
+    summary:
+      "Opioids with benzodiazepines can cause dangerous sedation and slowed breathing.",
+    question:
+      "Is it safe to take {a} and {b} together? Should we have naloxone at home?",
+  },
+  {
+    a: "OPIOID",
+    b: "GABAPENTINOID",
+    summary: "Opioids with gabapentin or pregabalin can slow breathing.",
+    question:
+      "Is it safe to take {a} and {b} together, and what signs of oversedation should we watch for?",
+  },
+  {
+    a: "OPIOID",
+    b: "Z_DRUG",
+    summary: "Opioids with sleep medicines can cause dangerous sedation.",
+    question: "Is it safe to take {a} together with {b}?",
+  },
+  {
+    a: "ACE_INHIBITOR",
+    b: "ARB",
+    summary:
+      "Combining an ACE inhibitor and an ARB raises the risk of high potassium and kidney problems.",
+    question: "Should {a} and {b} both be continued?",
+  },
+  {
+    a: "ACE_INHIBITOR",
+    b: "K_SPARING",
+    summary: "This combination can raise potassium to dangerous levels.",
+    question: "Should potassium levels be checked while taking {a} and {b}?",
+  },
+  {
+    a: "ARB",
+    b: "K_SPARING",
+    summary: "This combination can raise potassium to dangerous levels.",
+    question: "Should potassium levels be checked while taking {a} and {b}?",
+  },
+  {
+    a: "K_SPARING",
+    b: "POTASSIUM",
+    summary:
+      "A potassium supplement with a potassium-sparing diuretic can raise potassium to dangerous levels.",
+    question: "Is the {b} still needed while taking {a}?",
+  },
+  {
+    a: "MAOI",
+    b: "SSRI",
+    summary: "MAO inhibitors with SSRIs can cause serotonin syndrome.",
+    question: "Is it safe to take {a} and {b} together?",
+  },
+  {
+    a: "MAOI",
+    b: "SNRI",
+    summary: "MAO inhibitors with SNRIs can cause serotonin syndrome.",
+    question: "Is it safe to take {a} and {b} together?",
+  },
+  {
+    a: "SSRI",
+    b: "tramadol",
+    summary:
+      "Tramadol with SSRIs raises the risk of serotonin syndrome and seizures.",
+    question:
+      "Is it safe to take {b} with {a}? Is there a different pain medicine we could use?",
+  },
+  {
+    a: "SSRI",
+    b: "linezolid",
+    summary: "Linezolid with SSRIs can cause serotonin syndrome.",
+    question: "Should {a} be paused while taking {b}?",
+  },
+  {
+    a: "simvastatin",
+    b: "MACROLIDE",
+    summary:
+      "Clarithromycin and erythromycin raise simvastatin levels and the risk of muscle damage.",
+    question: "Should {a} be paused while taking {b}?",
+  },
+  {
+    a: "simvastatin",
+    b: "AZOLE_ANTIFUNGAL",
+    summary:
+      "Azole antifungals raise simvastatin levels and the risk of muscle damage.",
+    question: "Should {a} be paused while taking {b}?",
+  },
+  {
+    a: "simvastatin",
+    b: "amiodarone",
+    summary:
+      "Amiodarone raises simvastatin levels and the risk of muscle damage.",
+    question: "Is the {a} dose safe with {b}?",
+  },
+  {
+    a: "digoxin",
+    b: "amiodarone",
+    summary: "Amiodarone raises digoxin levels and the risk of toxicity.",
+    question:
+      "Should the {a} dose or levels be checked now that {b} is being taken?",
+  },
+  {
+    a: "NITRATE",
+    b: "PDE5_INHIBITOR",
+    summary:
+      "Nitrates with sildenafil or tadalafil can cause a dangerous drop in blood pressure.",
+    question: "Is it safe to use {b} while taking {a}?",
+  },
+  {
+    a: "methotrexate",
+    b: "trimethoprim sulfamethoxazole",
+    summary: "Trimethoprim-sulfamethoxazole raises methotrexate toxicity.",
+    question: "Is it safe to take {b} while on {a}?",
+  },
+  {
+    a: "lithium",
+    b: "NSAID",
+    summary: "NSAIDs raise lithium levels and the risk of toxicity.",
+    question: "Should lithium levels be checked while taking {b}?",
+  },
+  {
+    a: "lithium",
+    b: "ACE_INHIBITOR",
+    summary: "ACE inhibitors raise lithium levels and the risk of toxicity.",
+    question: "Should lithium levels be checked while taking {b}?",
+  },
+  {
+    a: "lithium",
+    b: "THIAZIDE",
+    summary:
+      "Thiazide diuretics raise lithium levels and the risk of toxicity.",
+    question: "Should lithium levels be checked while taking {b}?",
+  },
+  {
+    a: "allopurinol",
+    b: "azathioprine",
+    summary: "Allopurinol greatly increases azathioprine toxicity.",
+    question: "Has the {b} dose been adjusted for {a}?",
+  },
+];
+
+export interface BeersRule {
+  term: string;
+  /** Only flag strengths above this (mg per dose) */
+  above_mg?: number;
+  summary: string;
+  question: string;
+}
+
+/** AGS Beers Criteria cautions, applied to patients 65 and older */
+export const BEERS: BeersRule[] = [
+  {
+    term: "ANTIHISTAMINE_1G",
+    summary:
+      "Strongly anticholinergic; can cause confusion, constipation and falls in older adults.",
+    question:
+      "Is {a} still the best choice, or is there a gentler alternative?",
+  },
+  {
+    term: "BENZODIAZEPINE",
+    summary:
+      "Raises the risk of confusion, falls and fractures in older adults.",
+    question: "Can {a} be tapered or replaced?",
+  },
+  {
+    term: "Z_DRUG",
+    summary: "Linked to falls, fractures and confusion in older adults.",
+    question: "Are there other ways to help with sleep instead of {a}?",
+  },
+  {
+    term: "MUSCLE_RELAXANT",
+    summary: "Poorly tolerated by older adults: sedation, confusion and falls.",
+    question: "Is {a} still needed?",
+  },
+  {
+    term: "TCA",
+    summary: "Strongly anticholinergic and sedating in older adults.",
+    question: "Is there an alternative to {a} with fewer side effects?",
+  },
+  {
+    term: "glyburide",
+    summary:
+      "Long-acting sulfonylurea with a high risk of low blood sugar in older adults.",
+    question:
+      "Should {a} be switched to a medicine with lower hypoglycemia risk?",
+  },
+  {
+    term: "glimepiride",
+    summary:
+      "Long-acting sulfonylurea with a high risk of low blood sugar in older adults.",
+    question:
+      "Should {a} be switched to a medicine with lower hypoglycemia risk?",
+  },
+  {
+    term: "NSAID",
+    summary:
+      "Long-term use raises the risk of stomach bleeding and kidney injury in older adults.",
+    question: "How long should {a} be taken? Is stomach protection needed?",
+  },
+  {
+    term: "ANTIPSYCHOTIC",
+    summary:
+      "Increases the risk of stroke and death in people with dementia; avoid unless other options failed.",
+    question: "What is {a} treating, and can the dose be reduced?",
+  },
+  {
+    term: "ANTICHOLINERGIC_BLADDER",
+    summary:
+      "Anticholinergic; can worsen memory and cause confusion in older adults.",
+    question:
+      "Is {a} still helping enough to outweigh the memory side effects?",
+  },
+  {
+    term: "PPI",
+    summary:
+      "Use beyond 8 weeks raises the risk of bone loss, fractures and C. difficile infection.",
+    question: "Does {a} still need to be taken long term?",
+  },
+  {
+    term: "metoclopramide",
+    summary: "Can cause movement disorders, especially in frail older adults.",
+    question: "Is {a} still needed?",
+  },
+  {
+    term: "nitrofurantoin",
+    summary:
+      "Risk of lung and liver toxicity with long-term use, and less effective with reduced kidney function.",
+    question: "Is {a} appropriate given kidney function?",
+  },
+  {
+    term: "megestrol",
+    summary:
+      "Raises the risk of blood clots with minimal effect on weight in older adults.",
+    question: "Is {a} still helping?",
+  },
+  {
+    term: "digoxin",
+    above_mg: 0.125,
+    summary:
+      "Doses above 0.125 mg/day add toxicity risk without added benefit in older adults.",
+    question: "Is the {a} dose appropriate for kidney function?",
+  },
+];
@@ -0,0 +1,93 @@
+/**
+ * Scheduled dose times
+ *
+ * Expands a MED schedule into dose instants. Schedule times are the
+ * patient's local wall-clock times, converted with the patient's IANA
+ * timezone so an 08:00 dose stays at 08:00 across daylight saving changes.
+ */
+
+import {
+  addDays,
+  daysBetween,
+  localDate,
+  zonedTimeToUtc,
+} from "../timezone.ts";
+import type { MedSchedule } from "./types.ts";
+
+export {
+  addDays,
+  daysBetween,
+  isValidTimeZone,
+  localDate,
+  zonedTimeToUtc,
+} from "../timezone.ts";
+
+export interface DoseWindow {
+  /** Inclusive start of the window */
+  from: Date;
+  /** Exclusive end of the window */
+  to: Date;
+  timeZone: string;
+  /** First local date (YYYY-MM-DD) of the schedule; anchors every_n_days */
+  startDate: string;
+  /** Last local date of the schedule, e.g. the MED stop_date */
+  endDate?: string;
+}
+
+export interface ScheduledDose {
+  scheduled_for: Date;
+  /** Local date and "HH:MM" the dose was scheduled for */
+  local_date: string;
+  local_time: string;
+}
+
+/**
+ * Doses a schedule calls for within the window, in time order. As-needed
+ * schedules have no scheduled doses.
+ */
+export function scheduledDoses(
+  schedule: MedSchedule,
+  window: DoseWindow,
+): ScheduledDose[] {
+  if (schedule.prn || schedule.times.length === 0) return [];
+
+  const { from, to, timeZone, startDate } = window;
+  let endDate = window.endDate;
+  if (schedule.duration_days) {
+    const courseEnd = addDays(startDate, schedule.duration_days - 1);
+    if (!endDate || courseEnd < endDate) endDate = courseEnd;
+  }
+
+  const times = [...schedule.times].sort();
+  const doses: ScheduledDose[] = [];
+  const lastDate = localDate(to, timeZone);
+
+  for (
+    let date = localDate(from, timeZone);
+    date <= lastDate;
+    date = addDays(date, 1)
+  ) {
+    if (date < startDate) continue;
+    if (endDate && date > endDate) break;
+
+    const elapsed = daysBetween(startDate, date);
+    if (schedule.every_n_days && elapsed % schedule.every_n_days !== 0) {
+      continue;
+    }
+    if (
+      schedule.days_of_week &&
+      !schedule.days_of_week.includes(new Date(`${date}T00:00:00Z`).getUTCDay())
+    ) {
+      continue;
+    }
+
+    for (const time of times) {
+      const at = zonedTimeToUtc(date, time, timeZone);
+      if (at >= from && at < to) {
+        doses.push({ scheduled_for: at, local_date: date, local_time: time });
+      }
+    }
+  }
+
+  return doses;
+}
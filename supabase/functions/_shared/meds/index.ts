@@ -0,0 +1,11 @@
+/**
+ * Shared medication reference data, name matching and sig normalization
+ * Used by check-med-interactions, reconcile-medications, ocr-med-scan,
+ * detect-missed-doses and forecast-med-refills
+ */
+
+export * from "./types.ts";
+export * from "./dataset.ts";
+export * from "./names.ts";
+export * from "./sig.ts";
+export * from "./doses.ts";
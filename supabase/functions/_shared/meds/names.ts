@@ -0,0 +1,146 @@
+/**
+ * Medication name resolution and fuzzy matching
+ *
+ * Names from labels, discharge paperwork and the binder rarely agree
+ * exactly: strengths and dosage forms ride along ("Metformin ER 500 MG
+ * tablet"), brands stand in for generics, and OCR drops or swaps letters.
+ */
+
+import { ALIASES, INGREDIENTS } from "./dataset.ts";
+
+/** Name similarity at or above which two meds are treated as the same drug */
+export const MATCH_THRESHOLD = 0.85;
+
+/** Brand and generic names that resolve to the same ingredients */
+const SAME_INGREDIENTS_SCORE = 0.95;
+
+/**
+ * Words that describe the product rather than the drug. Salt names are only
+ * dropped when another word remains, so "potassium chloride" survives.
+ */
+const FORM_WORDS = new Set([
+  "tab",
+  "tabs",
+  "tablet",
+  "tablets",
+  "cap",
+  "caps",
+  "capsule",
+  "capsules",
+  "oral",
+  "solution",
+  "suspension",
+  "liquid",
+  "syrup",
+  "cream",
+  "ointment",
+  "gel",
+  "patch",
+  "inhaler",
+  "injection",
+  "drops",
+  "er",
+  "xr",
+  "sr",
+  "cr",
+  "dr",
+  "xl",
+  "la",
+  "ec",
+  "odt",
+  "mg",
+  "mcg",
+  "g",
+  "ml",
+  "unit",
+  "units",
+  "iu",
+]);
+
+const SALT_WORDS = new Set([
+  "hcl",
+  "hydrochloride",
+  "sodium",
+  "potassium",
+  "calcium",
+  "tartrate",
+  "succinate",
+  "besylate",
+  "maleate",
+  "mesylate",
+  "citrate",
+  "fumarate",
+  "sulfate",
+]);
+
+export function normalizeMedName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+/**
+ * Ingredients named in a med name, matching whole words so "Tylenol PM"
+ * resolves to both acetaminophen and diphenhydramine
+ */
+export function resolveIngredients(name: string): string[] {
+  const text = ` ${normalizeMedName(name)} `;
+  const found = new Set<string>();
+
+  for (const ingredient of Object.keys(INGREDIENTS)) {
+    if (text.includes(` ${ingredient} `)) found.add(ingredient);
+  }
+  for (const [alias, ingredients] of Object.entries(ALIASES)) {
+    if (text.includes(` ${alias} `)) ingredients.forEach((i) => found.add(i));
+  }
+  return [...found].sort();
+}
+
+/** Drug words of a name, without strength, dosage form or salt */
+export function medNameCore(name: string): string {
+  const words = normalizeMedName(name)
+    .split(" ")
+    .filter((w) => w && !FORM_WORDS.has(w));
+  const drug = words.filter((w) => !SALT_WORDS.has(w));
+  return (drug.length > 0 ? drug : words).join(" ");
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two med names from 0 to 1: 1 for the same drug words, 0.95
+ * for a brand and its generic, otherwise edit similarity of the drug words,
+ * which tolerates OCR slips like "Lisinoprll"
+ */
+export function medNameSimilarity(a: string, b: string): number {
+  const coreA = medNameCore(a);
+  const coreB = medNameCore(b);
+  if (!coreA || !coreB) return 0;
+  if (coreA === coreB) return 1;
+
+  const ingredientsA = resolveIngredients(a);
+  if (
+    ingredientsA.length > 0 &&
+    ingredientsA.join("+") === resolveIngredients(b).join("+")
+  ) {
+    return SAME_INGREDIENTS_SCORE;
+  }
+
+  const distance = editDistance(coreA, coreB);
+  return 1 - distance / Math.max(coreA.length, coreB.length);
+}
@@ -0,0 +1,353 @@
+/**
+ * Sig normalization
+ *
+ * Turns the directions printed on a pharmacy label ("TAKE 1 TAB PO BID WF")
+ * into a structured dose, route and schedule. Abbreviations are expanded
+ * first so every rule below works on plain English.
+ */
+
+import type { MedSchedule, NormalizedSig, SigRoute } from "./types.ts";
+
+/** Builds a pattern for a Latin abbreviation with optional periods (b.i.d.) */
+function abbreviation(letters: string): RegExp {
+  const body = letters.split("").join("\\.?");
+  return new RegExp(`(?<![a-z0-9])${body}\\.?(?![a-z])`, "g");
+}
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [
+    /\bq\s?(\d+)\s?(?:-|to)\s?(\d+)\s?h(?:rs?|ours?)?\b/g,
+    "every $1 to $2 hours",
+  ],
+  [/\bq\s?(\d+)\s?h(?:rs?|ours?)?\b/g, "every $1 hours"],
+  [/\bx\s?(\d+)\s?(days?|weeks?)\b/g, "for $1 $2"],
+  [abbreviation("qhs"), "at bedtime"],
+  [abbreviation("hs"), "at bedtime"],
+  [abbreviation("qam"), "every morning"],
+  [abbreviation("qpm"), "every evening"],
+  [abbreviation("qod"), "every other day"],
+  [abbreviation("qid"), "four times daily"],
+  [abbreviation("tid"), "three times daily"],
+  [abbreviation("bid"), "twice daily"],
+  [abbreviation("qd"), "daily"],
+  [abbreviation("qwk"), "weekly"],
+  [abbreviation("prn"), "as needed"],
+  [abbreviation("po"), "by mouth"],
+  [abbreviation("sl"), "under the tongue"],
+  [/\b(?:subq|sq)\b/g, "under the skin"],
+  [abbreviation("im"), "into the muscle"],
+  [abbreviation("pr"), "rectally"],
+  [abbreviation("ou"), "in both eyes"],
+  [abbreviation("ac"), "before meals"],
+  [abbreviation("pc"), "after meals"],
+  [abbreviation("wf"), "with food"],
+  [/\bw\/\s?/g, "with "],
+  [/\btabs?\b/g, "tablet"],
+  [/\bcaps?\b/g, "capsule"],
+  [/\bgtts?\b/g, "drop"],
+  [/\btsp\b/g, "teaspoon"],
+  [/\btbsp\b/g, "tablespoon"],
+  [/(\d)\s?(?:hrs?|h)\b/g, "$1 hours"],
+];
+
+const NUMBER_WORDS: Record<string, string> = {
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+  ten: "10",
+};
+
+function expand(sig: string): string {
+  let text = ` ${sig.toLowerCase().replace(/\s+/g, " ")} `;
+  for (const [pattern, replacement] of ABBREVIATIONS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  return text
+    .replace(/\b(\d+)\s+1\/2\b/g, "$1.5")
+    .replace(/\bone and (?:a|one) half\b/g, "1.5")
+    .replace(/\b(?:one[- ]half|1\/2|half(?: of)? an?)\b/g, "0.5")
+    .replace(
+      /\b(one|two|three|four|five|six|seven|eight|nine|ten)\b/g,
+      (word) => NUMBER_WORDS[word],
+    )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// ============================================================================
+// Dose and route
+// ============================================================================
+
+const ROUTES: [RegExp, SigRoute][] = [
+  [/\binto the muscle\b|\bintramuscular/, "intramuscular"],
+  [/\bunder the skin\b|\bsubcutaneous|\binject/, "subcutaneous"],
+  [/\bunder the tongue\b|\bsublingual/, "sublingual"],
+  [/\binhale|\binhalation|\bnebuliz|\bpuffs?\b/, "inhaled"],
+  [/\beyes?\b|\bophthalmic/, "ophthalmic"],
+  [/\bears?\b|\botic\b/, "otic"],
+  [/\bnostrils?\b|\bnasal|\bnose\b/, "nasal"],
+  [/\brectal|\brectum\b|\bsuppositor/, "rectal"],
+  [/\bvagina/, "vaginal"],
+  [/\bpatch(?:es)?\b|\btransdermal/, "transdermal"],
+  [/\bapply\b|\baffected area\b|\btopical|\bskin\b/, "topical"],
+  [/\bby mouth\b|\borally\b|\boral\b|\bswallow|\bchew/, "oral"],
+];
+
+// The verb is often left off abbreviated sigs ("1 tab po qhs")
+const DOSE_PATTERN =
+  /(?:^(?:sig:?\s*)?|\b(?:take|give|chew|dissolve|swallow|inhale|instill|place|insert|use|inject|apply|spray)\s+)(\d+(?:\.\d+)?)(?:\s?(?:-|to|or)\s?(\d+(?:\.\d+)?))?(?:\s+(tablets?|capsules?|puffs?|drops?|sprays?|ml|units?|patch(?:es)?|teaspoons?|tablespoons?|suppositor(?:y|ies)|applications?|packets?|lozenges?|pens?))?/;
+
+function singular(unit: string): string {
+  if (unit === "suppositories") return "suppository";
+  if (unit === "patches") return "patch";
+  return unit.endsWith("s") && unit !== "ml" ? unit.slice(0, -1) : unit;
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+const DEFAULT_TIMES: Record<number, string[]> = {
+  1: ["08:00"],
+  2: ["08:00", "20:00"],
+  3: ["08:00", "14:00", "20:00"],
+  4: ["08:00", "12:00", "16:00", "20:00"],
+};
+
+const TIME_WORDS: Record<string, string> = {
+  morning: "08:00",
+  breakfast: "08:00",
+  noon: "12:00",
+  midday: "12:00",
+  lunch: "12:00",
+  afternoon: "14:00",
+  evening: "18:00",
+  dinner: "18:00",
+  supper: "18:00",
+  night: "21:00",
+  nightly: "21:00",
+  bedtime: "21:00",
+};
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const DAY_PATTERN =
+  /\b(sun|mon|tue|wed|thu|fri|sat)(?:day|sday|nesday|rsday|urday)?s?\b/g;
+
+function pad(hour: number, minute = 0): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+/**
+ * Evenly spaced times for "every N hours", shifted so they stay within waking
+ * hours where the interval allows
+ */
+function intervalTimes(intervalHours: number): string[] {
+  if (intervalHours < 4 || 24 % intervalHours !== 0) return [];
+  const count = 24 / intervalHours;
+  const start = Math.min(8, Math.max(0, 22 - (count - 1) * intervalHours));
+  return Array.from({ length: count }, (_, i) =>
+    pad(start + i * intervalHours),
+  );
+}
+
+/** Clock times and time-of-day words, in the order they appear */
+function namedTimes(text: string): string[] {
+  const found: { index: number; time: string }[] = [];
+
+  for (const match of text.matchAll(
+    /\b(\d{1,2})(?::(\d{2}))?\s?(a\.?m\.?|p\.?m\.?)(?![a-z])/g,
+  )) {
+    let hour = parseInt(match[1], 10) % 12;
+    if (match[3].startsWith("p")) hour += 12;
+    found.push({
+      index: match.index!,
+      time: pad(hour, parseInt(match[2] ?? "0", 10)),
+    });
+  }
+
+  for (const match of text.matchAll(
+    /\b(morning|breakfast|noon|midday|lunch|afternoon|evening|dinner|supper|nightly|night|bedtime)\b/g,
+  )) {
+    found.push({ index: match.index!, time: TIME_WORDS[match[1]] });
+  }
+
+  return [
+    ...new Set(
+      found.sort((a, b) => a.index - b.index).map((entry) => entry.time),
+    ),
+  ];
+}
+
+function timesPerDay(text: string): number | undefined {
+  const counted = text.match(
+    /\b(\d+) times? (?:daily|a day|per day|each day|every day)\b/,
+  );
+  if (counted) return parseInt(counted[1], 10);
+  if (/\btwice\b/.test(text) && !/\btwice (?:a |per )?week/.test(text)) {
+    return 2;
+  }
+  if (
+    /\bonce\b|\bdaily\b|\bevery day\b|\beach day\b|\bnightly\b|\bevery (?:morning|evening|night)\b|\bat bedtime\b/.test(
+      text,
+    )
+  ) {
+    return 1;
+  }
+  return undefined;
+}
+
+function everyNDays(text: string): number | undefined {
+  if (/\bevery other day\b/.test(text)) return 2;
+  const days = text.match(/\bevery (\d+) days\b/);
+  if (days) return parseInt(days[1], 10);
+  const weeks = text.match(/\bevery (\d+) weeks\b/);
+  if (weeks) return parseInt(weeks[1], 10) * 7;
+  if (/\b(?:once )?weekly\b|\bonce a week\b|\bevery week\b/.test(text)) {
+    return 7;
+  }
+  return undefined;
+}
+
+function daysOfWeek(text: string): number[] | undefined {
+  const clause = text.match(
+    /\bon ((?:(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*,?\s?(?:and |& )?)+)/,
+  );
+  if (!clause) return undefined;
+
+  const days = [...clause[1].matchAll(DAY_PATTERN)].map((m) =>
+    DAY_NAMES.indexOf(m[1]),
+  );
+  return days.length ? [...new Set(days)].sort((a, b) => a - b) : undefined;
+}
+
+function prnReason(text: string): string | undefined {
+  const noise = "(?!every|up to|not|do not|max|may|then|at|with)";
+  const stop =
+    "(?=\\s*(?:[.,;]|$|\\bevery\\b|\\bup to\\b|\\bnot to\\b|\\bdo not\\b|\\bmax|\\bmay\\b|\\bthen\\b|\\bat\\b|\\bwith\\b))";
+  const after = text.match(
+    new RegExp(
+      `\\bas needed (?:(?:for|to treat|to relieve)\\s+)?${noise}([a-z][a-z ]*?)${stop}`,
+    ),
+  );
+  const before = text.match(
+    /\b(?:for|to relieve)\s+([a-z][a-z ]*?)\s+(?:as needed|if needed|when needed)\b/,
+  );
+  return (after ?? before)?.[1].trim() || undefined;
+}
+
+function withFood(text: string): boolean | undefined {
+  if (
+    /\bempty stomach\b|\bwithout food\b|\bbefore (?:meals|breakfast|eating|food)\b/.test(
+      text,
+    )
+  ) {
+    return false;
+  }
+  if (
+    /\bwith (?:food|meals?|a meal|milk|breakfast|lunch|dinner|supper)\b|\bafter meals\b/.test(
+      text,
+    )
+  ) {
+    return true;
+  }
+  return undefined;
+}
+
+function buildSchedule(text: string): MedSchedule | null {
+  const prn = /\b(?:as needed|if needed|when needed)\b/.test(text);
+  const interval = text.match(
+    /\bevery (\d+(?:\.\d+)?)(?:\s?(?:to|-)\s?(\d+(?:\.\d+)?))? hours\b/,
+  );
+  const intervalHours = interval ? parseFloat(interval[1]) : undefined;
+  const weekdays = daysOfWeek(text);
+  const named = namedTimes(text);
+  let nDays = everyNDays(text);
+  let perDay = timesPerDay(text);
+
+  // "every 72 hours" is a multi-day regimen
+  if (
+    intervalHours &&
+    !prn &&
+    intervalHours >= 24 &&
+    intervalHours % 24 === 0
+  ) {
+    nDays ??= intervalHours / 24;
+  }
+  if (!perDay && !prn && named.length > 0) perDay = named.length;
+
+  if (intervalHours && !perDay && 24 % intervalHours === 0) {
+    perDay = 24 / intervalHours;
+  }
+  if (!perDay && (nDays || weekdays)) perDay = 1;
+  if (!prn && !perDay && !intervalHours) return null;
+
+  let times: string[] = [];
+  if (!prn) {
+    if (named.length > 0 && named.length >= (perDay ?? 1)) {
+      times = named;
+      perDay = named.length;
+    } else if (intervalHours && intervalHours < 24) {
+      times = intervalTimes(intervalHours);
+    } else if (perDay) {
+      times = DEFAULT_TIMES[perDay] ?? [];
+    }
+  }
+
+  const schedule: MedSchedule = { times, prn };
+  if (perDay && !prn) schedule.times_per_day = perDay;
+  if (intervalHours) schedule.interval_hours = intervalHours;
+  if (nDays) schedule.every_n_days = nDays;
+  if (weekdays) schedule.days_of_week = weekdays;
+
+  const reason = prn ? prnReason(text) : undefined;
+  if (reason) schedule.prn_reason = reason;
+
+  const food = withFood(text);
+  if (food !== undefined) schedule.with_food = food;
+
+  const max = text.match(
+    /\b(?:not to exceed|do not exceed|no more than|max(?:imum)?(?: of)?|up to)\s+(\d+)\s(?:[a-z]+\s)?(?:in 24 hours|per day|a day|daily|in 1 day|in a day)\b/,
+  );
+  if (max) schedule.max_per_day = parseInt(max[1], 10);
+
+  const duration = text.match(/\bfor (\d+) (days?|weeks?)\b/);
+  if (duration) {
+    const count = parseInt(duration[1], 10);
+    schedule.duration_days = duration[2].startsWith("week") ? count * 7 : count;
+  }
+
+  return schedule;
+}
+
+export function normalizeSig(sig: string): NormalizedSig {
+  const text = expand(sig);
+  const normalized: NormalizedSig = { text, schedule: buildSchedule(text) };
+
+  const route = ROUTES.find(([pattern]) => pattern.test(text));
+  if (route) normalized.route = route[1];
+
+  const dose = text.match(DOSE_PATTERN);
+  if (dose) {
+    normalized.dose_quantity = parseFloat(dose[1]);
+    if (dose[2]) normalized.dose_quantity_max = parseFloat(dose[2]);
+    if (dose[3]) normalized.dose_unit = singular(dose[3]);
+  }
+
+  return normalized;
+}
+
+/**
+ * Lines that begin label directions: a verb, or a dose count followed by a
+ * unit or route abbreviation and more directions ("1 TAB PO QHS"). A count
+ * and unit alone ("30 TABLETS") is a quantity, not a sig.
+ */
+export const SIG_START =
+  /^\s*(?:(?:take|give|chew|dissolve|swallow|inhale|instill|place|insert|use|inject|apply|spray|put|rub|mix|sig:?)\b|(?:\d+\s?\/\s?\d+|\d+(?:\.\d+)?|one|two|half)\s*(?:tabs?|tablets?|caps?|capsules?|puffs?|drops?|gtts?|sprays?|ml|units?|patch(?:es)?|tsp|tbsp|supp|po|sl|pr|subq|sq)\.?\s+\S)/i;
@@ -0,0 +1,173 @@
+/**
+ * Sig normalization against directions as printed on real labels
+ *
+ * Run with `deno test supabase/functions/_shared/meds/`.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { normalizeSig, SIG_START } from "./sig.ts";
+import type { NormalizedSig } from "./types.ts";
+
+type Expected = Omit<NormalizedSig, "text">;
+
+const LABEL_SIGS: [string, Expected][] = [
+  [
+    "TAKE 1 TABLET BY MOUTH TWICE DAILY",
+    {
+      schedule: { times: ["08:00", "20:00"], prn: false, times_per_day: 2 },
+      route: "oral",
+      dose_quantity: 1,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "1 TAB PO QHS",
+    {
+      schedule: { times: ["21:00"], prn: false, times_per_day: 1 },
+      route: "oral",
+      dose_quantity: 1,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "1 tab po bid wf",
+    {
+      schedule: {
+        times: ["08:00", "20:00"],
+        prn: false,
+        times_per_day: 2,
+        with_food: true,
+      },
+      route: "oral",
+      dose_quantity: 1,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "2 caps po tid",
+    {
+      schedule: {
+        times: ["08:00", "14:00", "20:00"],
+        prn: false,
+        times_per_day: 3,
+      },
+      route: "oral",
+      dose_quantity: 2,
+      dose_unit: "capsule",
+    },
+  ],
+  [
+    "1/2 tab po qd",
+    {
+      schedule: { times: ["08:00"], prn: false, times_per_day: 1 },
+      route: "oral",
+      dose_quantity: 0.5,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "Sig: 1 tab po qam",
+    {
+      schedule: { times: ["08:00"], prn: false, times_per_day: 1 },
+      route: "oral",
+      dose_quantity: 1,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "10 ML PO Q6H PRN PAIN",
+    {
+      schedule: { times: [], prn: true, interval_hours: 6, prn_reason: "pain" },
+      route: "oral",
+      dose_quantity: 10,
+      dose_unit: "ml",
+    },
+  ],
+  [
+    "ONE TAB SL PRN CHEST PAIN",
+    {
+      schedule: { times: [], prn: true, prn_reason: "chest pain" },
+      route: "sublingual",
+      dose_quantity: 1,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "TAKE 1-2 TABLETS BY MOUTH EVERY 4 TO 6 HOURS AS NEEDED",
+    {
+      schedule: { times: [], prn: true, interval_hours: 4 },
+      route: "oral",
+      dose_quantity: 1,
+      dose_quantity_max: 2,
+      dose_unit: "tablet",
+    },
+  ],
+  [
+    "2 PUFFS INH Q4-6H PRN",
+    {
+      schedule: { times: [], prn: true, interval_hours: 4 },
+      route: "inhaled",
+      dose_quantity: 2,
+      dose_unit: "puff",
+    },
+  ],
+  [
+    "1 GTT OU BID",
+    {
+      schedule: { times: ["08:00", "20:00"], prn: false, times_per_day: 2 },
+      route: "ophthalmic",
+      dose_quantity: 1,
+      dose_unit: "drop",
+    },
+  ],
+  [
+    "APPLY 1 PATCH TO SKIN EVERY 72 HOURS",
+    {
+      schedule: {
+        times: ["08:00"],
+        prn: false,
+        times_per_day: 1,
+        interval_hours: 72,
+        every_n_days: 3,
+      },
+      route: "transdermal",
+      dose_quantity: 1,
+      dose_unit: "patch",
+    },
+  ],
+  [
+    "INJECT 10 UNITS SUBQ QHS",
+    {
+      schedule: { times: ["21:00"], prn: false, times_per_day: 1 },
+      route: "subcutaneous",
+      dose_quantity: 10,
+      dose_unit: "unit",
+    },
+  ],
+];
+
+Deno.test("normalizeSig reads label directions", () => {
+  for (const [sig, expected] of LABEL_SIGS) {
+    const { text: _text, ...normalized } = normalizeSig(sig);
+    assertEquals(normalized, expected, sig);
+  }
+});
+
+Deno.test("SIG_START matches every label sig", () => {
+  for (const [sig] of LABEL_SIGS) {
+    assertEquals(SIG_START.test(sig), true, sig);
+  }
+});
+
+Deno.test("SIG_START skips quantities and strengths", () => {
+  for (const line of [
+    "30 TABLETS",
+    "2 TABLETS",
+    "90 DAY SUPPLY",
+    "1 REFILL",
+    "10 MG TABLET",
+    "Qty: 30",
+  ]) {
+    assertEquals(SIG_START.test(line), false, line);
+  }
+});
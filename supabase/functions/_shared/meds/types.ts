@@ -0,0 +1,52 @@
+/**
+ * Shared medication types
+ */
+
+export type SigRoute =
+  | "oral"
+  | "sublingual"
+  | "topical"
+  | "transdermal"
+  | "inhaled"
+  | "nasal"
+  | "ophthalmic"
+  | "otic"
+  | "rectal"
+  | "vaginal"
+  | "subcutaneous"
+  | "intramuscular";
+
+/**
+ * Machine-readable administration schedule. Times are local "HH:MM"; a sig
+ * that names no clock times gets default times for its daily frequency.
+ */
+export interface MedSchedule {
+  /** Empty for as-needed meds, which get no reminders */
+  times: string[];
+  times_per_day?: number;
+  /** "every 6 hours"; for PRN meds this is the minimum spacing */
+  interval_hours?: number;
+  /** 2 = every other day, 7 = weekly */
+  every_n_days?: number;
+  /** 0 = Sunday */
+  days_of_week?: number[];
+  prn: boolean;
+  prn_reason?: string;
+  /** true = with food, false = on an empty stomach */
+  with_food?: boolean;
+  /** "Do not exceed 8 tablets in 24 hours", in dose units */
+  max_per_day?: number;
+  duration_days?: number;
+}
+
+export interface NormalizedSig {
+  /** Sig with abbreviations expanded ("1 tab po bid" -> "take 1 tablet by mouth twice daily") */
+  text: string;
+  route?: SigRoute;
+  dose_quantity?: number;
+  /** Upper bound for "1 to 2 tablets" */
+  dose_quantity_max?: number;
+  dose_unit?: string;
+  /** Null when no frequency could be recognized */
+  schedule: MedSchedule | null;
+}
@@ -0,0 +1,194 @@
+/**
+ * APNs adapter (token-based auth over HTTP/2)
+ *
+ * Signs an ES256 provider token with the .p8 key in APNS_PRIVATE_KEY and
+ * sends an alert to each of the recipient's device tokens. Delivery counts
+ * as SENT when any device accepts it. Tokens APNs reports as unregistered
+ * or malformed are returned in invalidTokenIds for the caller to disable.
+ */
+
+import {
+  type ChannelAdapter,
+  type DeliveryErrorCode,
+  type DeliveryResult,
+  failed,
+  httpErrorCode,
+  type OutgoingMessage,
+  type Recipient,
+  RETRYABLE_CODES,
+  skipped,
+  thrownErrorCode,
+} from "./types.ts";
+
+const HOSTS = {
+  production: "https://api.push.apple.com",
+  sandbox: "https://api.sandbox.push.apple.com",
+};
+
+/** APNs accepts a provider token for an hour; refresh well before that */
+const TOKEN_TTL_MS = 45 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+/** Keeps the payload well under the 4 KB limit */
+const MAX_BODY_LENGTH = 1000;
+const INVALID_TOKEN_REASONS = [
+  "BadDeviceToken",
+  "Unregistered",
+  "DeviceTokenNotForTopic",
+];
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function pemToPkcs8(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\s+/g, "");
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+export function createAPNsAdapter(): ChannelAdapter {
+  const keyId = Deno.env.get("APNS_KEY_ID");
+  const teamId = Deno.env.get("APNS_TEAM_ID");
+  const privateKey = Deno.env.get("APNS_PRIVATE_KEY");
+  const topic = Deno.env.get("APNS_TOPIC") || "com.curaknot.app";
+
+  let cached: { jwt: string; expiresAt: number } | null = null;
+
+  async function providerToken(): Promise<string> {
+    if (cached && cached.expiresAt > Date.now()) return cached.jwt;
+
+    const key = await crypto.subtle.importKey(
+      "pkcs8",
+      pemToPkcs8(privateKey!),
+      { name: "ECDSA", namedCurve: "P-256" },
+      false,
+      ["sign"],
+    );
+    const encoder = new TextEncoder();
+    const header = base64Url(
+      encoder.encode(JSON.stringify({ alg: "ES256", kid: keyId })),
+    );
+    const claims = base64Url(
+      encoder.encode(
+        JSON.stringify({ iss: teamId, iat: Math.floor(Date.now() / 1000) }),
+      ),
+    );
+    // WebCrypto ECDSA signatures are raw r||s, as JWS expects
+    const signature = await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      encoder.encode(`${header}.${claims}`),
+    );
+
+    const jwt = `${header}.${claims}.${base64Url(new Uint8Array(signature))}`;
+    cached = { jwt, expiresAt: Date.now() + TOKEN_TTL_MS };
+    return jwt;
+  }
+
+  async function sendToDevice(
+    message: OutgoingMessage,
+    device: Recipient["pushTokens"][number],
+  ): Promise<
+    { ok: true; apnsId: string | null } | { ok: false; code: DeliveryErrorCode }
+  > {
+    const payload = {
+      aps: {
+        alert: {
+          title: message.title,
+          body: message.body.slice(0, MAX_BODY_LENGTH),
+        },
+        sound: "default",
+        "thread-id": message.type,
+      },
+      ...message.data,
+      notification_id: message.id,
+      notification_type: message.type,
+    };
+
+    try {
+      const response = await fetch(
+        `${HOSTS[device.environment]}/3/device/${device.token}`,
+        {
+          method: "POST",
+          headers: {
+            authorization: `bearer ${await providerToken()}`,
+            "apns-topic": topic,
+            "apns-push-type": "alert",
+            "apns-priority": "10",
+            "apns-collapse-id": message.id,
+            "content-type": "application/json",
+          },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        },
+      );
+
+      if (response.ok) {
+        return { ok: true, apnsId: response.headers.get("apns-id") };
+      }
+
+      const reason =
+        ((await response.json().catch(() => ({}))) as { reason?: string })
+          .reason ?? "";
+      if (response.status === 410 || INVALID_TOKEN_REASONS.includes(reason)) {
+        return { ok: false, code: "INVALID_DESTINATION" };
+      }
+      if (reason === "ExpiredProviderToken") {
+        cached = null;
+        return { ok: false, code: "PROVIDER_ERROR" };
+      }
+      return { ok: false, code: httpErrorCode(response.status) };
+    } catch (error) {
+      return { ok: false, code: thrownErrorCode(error) };
+    }
+  }
+
+  return {
+    channel: "PUSH",
+    isConfigured: () => !!keyId && !!teamId && !!privateKey,
+
+    async send(
+      message: OutgoingMessage,
+      recipient: Recipient,
+    ): Promise<DeliveryResult> {
+      if (recipient.pushTokens.length === 0) return skipped("NO_DESTINATION");
+
+      let sent = false;
+      let apnsId: string | null = null;
+      const invalidTokenIds: string[] = [];
+      const codes: DeliveryErrorCode[] = [];
+
+      for (const device of recipient.pushTokens) {
+        const result = await sendToDevice(message, device);
+        if (result.ok) {
+          sent = true;
+          apnsId ??= result.apnsId;
+        } else if (result.code === "INVALID_DESTINATION") {
+          invalidTokenIds.push(device.id);
+        } else {
+          codes.push(result.code);
+        }
+      }
+
+      if (sent) {
+        return {
+          status: "SENT",
+          providerMessageId: apnsId ?? undefined,
+          invalidTokenIds,
+        };
+      }
+      if (codes.length === 0) {
+        return { ...failed("INVALID_DESTINATION"), invalidTokenIds };
+      }
+      const code = codes.find((c) => RETRYABLE_CODES.includes(c)) ?? codes[0];
+      return { ...failed(code), invalidTokenIds };
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Capture adapter for local runs and tests
+ *
+ * Records what would have been sent instead of contacting a provider, with
+ * the same destination checks as the live adapters. Set
+ * NOTIFICATION_TRANSPORT=capture to use it for every channel.
+ */
+
+import {
+  type Channel,
+  type ChannelAdapter,
+  type DeliveryResult,
+  type OutgoingMessage,
+  type Recipient,
+  skipped,
+} from "./types.ts";
+
+export interface CapturedDelivery {
+  channel: Channel;
+  userId: string;
+  destination: string;
+  message: OutgoingMessage;
+}
+
+/** Deliveries captured in this isolate, oldest first */
+export const captured: CapturedDelivery[] = [];
+
+function destination(channel: Channel, recipient: Recipient): string | null {
+  switch (channel) {
+    case "PUSH":
+      return recipient.pushTokens[0]?.token ?? null;
+    case "EMAIL":
+      return recipient.email;
+    case "SMS":
+      return recipient.phone;
+  }
+}
+
+export function createCaptureAdapter(channel: Channel): ChannelAdapter {
+  return {
+    channel,
+    isConfigured: () => true,
+
+    send(
+      message: OutgoingMessage,
+      recipient: Recipient,
+    ): Promise<DeliveryResult> {
+      const to = destination(channel, recipient);
+      if (!to) return Promise.resolve(skipped("NO_DESTINATION"));
+
+      captured.push({
+        channel,
+        userId: recipient.userId,
+        destination: to,
+        message,
+      });
+      return Promise.resolve({
+        status: "SENT",
+        providerMessageId: `capture-${captured.length}`,
+      });
+    },
+  };
+}
@@ -0,0 +1,79 @@
+/**
+ * Daily digest copy
+ *
+ * A digest counts the held notifications by category and, when the circle
+ * has a recent insight_digests row, adds its weekly summary. Like every
+ * notification it carries counts only, never PHI.
+ */
+
+import {
+  categoryForType,
+  CATEGORIES,
+  type NotificationCategory,
+} from "./preferences.ts";
+
+/** The `summary` object generate_weekly_digest stores in digest_json */
+export interface InsightSummary {
+  handoffs?: number;
+  tasks_completed?: number;
+  tasks_overdue?: number;
+}
+
+export interface DigestMessage {
+  title: string;
+  body: string;
+  counts: Partial<Record<NotificationCategory, number>>;
+}
+
+const LABELS: Record<NotificationCategory, [string, string]> = {
+  HANDOFFS: ["handoff", "handoffs"],
+  RIDES: ["ride update", "ride updates"],
+  MEETINGS: ["meeting update", "meeting updates"],
+  VIDEOS: ["video message", "video messages"],
+  EXPIRATIONS: ["expiring document", "expiring documents"],
+  SHIFTS: ["shift update", "shift updates"],
+};
+
+function countLabel(count: number, [one, many]: [string, string]): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function joinList(items: string[]): string {
+  return items.length <= 1
+    ? items.join("")
+    : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+}
+
+export function buildDigestMessage(
+  notificationTypes: string[],
+  insight: InsightSummary | null,
+): DigestMessage {
+  const counts: DigestMessage["counts"] = {};
+  for (const type of notificationTypes) {
+    const category = categoryForType(type);
+    if (category) counts[category] = (counts[category] ?? 0) + 1;
+  }
+
+  const items = CATEGORIES.filter((c) => counts[c]).map((c) =>
+    countLabel(counts[c]!, LABELS[c]),
+  );
+  let body = `Since your last digest: ${joinList(items)}.`;
+
+  if (insight) {
+    const week = [
+      typeof insight.handoffs === "number"
+        ? countLabel(insight.handoffs, ["handoff", "handoffs"])
+        : null,
+      typeof insight.tasks_completed === "number"
+        ? countLabel(insight.tasks_completed, [
+            "task completed",
+            "tasks completed",
+          ])
+        : null,
+      insight.tasks_overdue ? `${insight.tasks_overdue} overdue` : null,
+    ].filter((s): s is string => s !== null);
+    if (week.length > 0) body += ` This week: ${joinList(week)}.`;
+  }
+
+  return { title: "Your daily digest", body, counts };
+}
@@ -0,0 +1,166 @@
+/**
+ * SMTP email adapter
+ *
+ * A minimal SMTP client over implicit TLS (SMTPS, port 465 by default):
+ * EHLO, AUTH PLAIN, one message, QUIT. Subject and body are sent as UTF-8
+ * (RFC 2047 encoded-word and base64), so no dot-stuffing is needed. 4xx
+ * replies are retried; 5xx replies are permanent.
+ */
+
+import {
+  type ChannelAdapter,
+  type DeliveryResult,
+  failed,
+  type OutgoingMessage,
+  type Recipient,
+  skipped,
+  thrownErrorCode,
+} from "./types.ts";
+
+const SESSION_TIMEOUT_MS = 20000;
+const EMAIL_REGEX = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+class SMTPReplyError extends Error {
+  constructor(readonly code: number) {
+    super(`SMTP reply ${code}`);
+    this.name = "SMTPReplyError";
+  }
+}
+
+function base64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function wrap(base64: string): string {
+  return base64.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+/** Header-safe: no line breaks, non-ASCII as an RFC 2047 encoded-word */
+function encodeHeader(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(flat) ? flat : `=?UTF-8?B?${base64Utf8(flat)}?=`;
+}
+
+/** Reads one (possibly multi-line) reply and returns its code */
+async function readReply(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  buffer: { text: string },
+): Promise<{ code: number; text: string }> {
+  const decoder = new TextDecoder();
+  for (;;) {
+    const lines = buffer.text.split("\r\n");
+    for (let i = 0; i < lines.length - 1; i++) {
+      // The last line of a reply has a space after the code
+      if (/^\d{3} /.test(lines[i]) || /^\d{3}$/.test(lines[i])) {
+        buffer.text = lines.slice(i + 1).join("\r\n");
+        return {
+          code: parseInt(lines[i].slice(0, 3), 10),
+          text: lines.slice(0, i + 1).join("\n"),
+        };
+      }
+    }
+    const { value, done } = await reader.read();
+    if (done) throw new Error("SMTP connection closed");
+    buffer.text += decoder.decode(value, { stream: true });
+  }
+}
+
+export function createSMTPAdapter(): ChannelAdapter {
+  const host = Deno.env.get("SMTP_HOST");
+  const port = parseInt(Deno.env.get("SMTP_PORT") || "465", 10);
+  const username = Deno.env.get("SMTP_USERNAME");
+  const password = Deno.env.get("SMTP_PASSWORD");
+  const from =
+    Deno.env.get("SMTP_FROM") || "CuraKnot <notifications@curaknot.app>";
+  const fromAddress = from.match(/<([^>]+)>/)?.[1] ?? from;
+
+  async function deliver(
+    message: OutgoingMessage,
+    to: string,
+  ): Promise<string | undefined> {
+    const conn = await Deno.connectTls({ hostname: host!, port });
+    const timer = setTimeout(() => conn.close(), SESSION_TIMEOUT_MS);
+    const reader = conn.readable.getReader();
+    const writer = conn.writable.getWriter();
+    const buffer = { text: "" };
+    const encoder = new TextEncoder();
+
+    const expect = async (accepted: number[]) => {
+      const reply = await readReply(reader, buffer);
+      if (!accepted.includes(reply.code)) throw new SMTPReplyError(reply.code);
+      return reply;
+    };
+    const command = async (line: string, accepted: number[]) => {
+      await writer.write(encoder.encode(`${line}\r\n`));
+      return expect(accepted);
+    };
+
+    try {
+      await expect([220]);
+      await command("EHLO curaknot.app", [250]);
+      if (username && password) {
+        await command(
+          `AUTH PLAIN ${base64Utf8(`\0${username}\0${password}`)}`,
+          [235],
+        );
+      }
+      await command(`MAIL FROM:<${fromAddress}>`, [250]);
+      await command(`RCPT TO:<${to}>`, [250, 251]);
+      await command("DATA", [354]);
+
+      const messageId = `<${message.id}@curaknot.app>`;
+      const data = [
+        `From: ${from}`,
+        `To: <${to}>`,
+        `Subject: ${encodeHeader(message.title)}`,
+        `Message-ID: ${messageId}`,
+        `Date: ${new Date().toUTCString()}`,
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        wrap(base64Utf8(message.body)),
+        ".",
+      ].join("\r\n");
+      await command(data, [250]);
+      await command("QUIT", [221]).catch(() => undefined);
+      return messageId;
+    } finally {
+      clearTimeout(timer);
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the timeout or the server
+      }
+    }
+  }
+
+  return {
+    channel: "EMAIL",
+    isConfigured: () => !!host,
+
+    async send(
+      message: OutgoingMessage,
+      recipient: Recipient,
+    ): Promise<DeliveryResult> {
+      if (!recipient.email) return skipped("NO_DESTINATION");
+      if (!EMAIL_REGEX.test(recipient.email)) {
+        return failed("INVALID_DESTINATION");
+      }
+
+      try {
+        const messageId = await deliver(message, recipient.email);
+        return { status: "SENT", providerMessageId: messageId };
+      } catch (error) {
+        if (error instanceof SMTPReplyError) {
+          if (error.code >= 500) return failed("REJECTED");
+          return failed(error.code === 421 ? "RATE_LIMITED" : "PROVIDER_ERROR");
+        }
+        return failed(thrownErrorCode(error));
+      }
+    },
+  };
+}
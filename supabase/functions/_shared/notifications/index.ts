@@ -0,0 +1,51 @@
+/**
+ * Notification channel adapters, preferences and digests
+ * Used by dispatch-notifications to deliver notification_outbox rows, and
+ * by manage-notification-preferences
+ *
+ * Transport selection: NOTIFICATION_TRANSPORT=capture swaps every channel
+ * for the capture adapter, so the dispatcher can run locally or in tests
+ * without APNs, SMTP or SMS credentials.
+ */
+
+import { createAPNsAdapter } from "./apns.ts";
+import { createCaptureAdapter } from "./capture.ts";
+import { createSMTPAdapter } from "./email.ts";
+import { createSMSGatewayAdapter } from "./sms.ts";
+import type { Channel, ChannelAdapter, TransportName } from "./types.ts";
+
+export * from "./types.ts";
+export * from "./preferences.ts";
+export * from "./digest.ts";
+export { captured, type CapturedDelivery } from "./capture.ts";
+
+export const CHANNELS: Channel[] = ["PUSH", "EMAIL", "SMS"];
+
+export function resolveTransport(): TransportName {
+  const configured = Deno.env
+    .get("NOTIFICATION_TRANSPORT")
+    ?.trim()
+    .toLowerCase();
+  if (!configured || configured === "live") return "live";
+  if (configured === "capture") return "capture";
+
+  console.warn(`Unknown NOTIFICATION_TRANSPORT '${configured}', using live`);
+  return "live";
+}
+
+export function createChannelAdapters(
+  transport: TransportName = resolveTransport(),
+): Record<Channel, ChannelAdapter> {
+  if (transport === "capture") {
+    return {
+      PUSH: createCaptureAdapter("PUSH"),
+      EMAIL: createCaptureAdapter("EMAIL"),
+      SMS: createCaptureAdapter("SMS"),
+    };
+  }
+  return {
+    PUSH: createAPNsAdapter(),
+    EMAIL: createSMTPAdapter(),
+    SMS: createSMSGatewayAdapter(),
+  };
+}
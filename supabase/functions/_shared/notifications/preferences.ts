@@ -0,0 +1,240 @@
+/**
+ * Notification preferences
+ *
+ * Users choose, per category, whether notifications are sent at all, on
+ * which channels, and whether instantly or in a daily digest; quiet hours
+ * delay instant ones and the digest itself. Other types outside the
+ * categories (missed doses, alert rules) are always sent as queued.
+ */
+
+import {
+  addDays,
+  isValidTimeZone,
+  localDate,
+  localTime,
+  zonedTimeToUtc,
+} from "../timezone.ts";
+import type { Channel } from "./types.ts";
+
+export type NotificationCategory =
+  "HANDOFFS" | "RIDES" | "MEETINGS" | "VIDEOS" | "EXPIRATIONS" | "SHIFTS";
+
+export const CATEGORIES: NotificationCategory[] = [
+  "HANDOFFS",
+  "RIDES",
+  "MEETINGS",
+  "VIDEOS",
+  "EXPIRATIONS",
+  "SHIFTS",
+];
+
+export type DeliveryMode = "INSTANT" | "DIGEST";
+
+export interface CategoryPreference {
+  enabled: boolean;
+  delivery: DeliveryMode;
+  /** null: the channels the notification was queued for */
+  channels: Channel[] | null;
+}
+
+export interface NotificationPreferences {
+  timezone: string;
+  /** Local "HH:MM"; start after end spans midnight */
+  quietHours: { start: string; end: string } | null;
+  /** Local "HH:MM" */
+  digestTime: string;
+  categories: Partial<Record<NotificationCategory, CategoryPreference>>;
+}
+
+export interface NotificationPreferencesRow {
+  user_id: string;
+  timezone: string;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  digest_time: string;
+  categories_json: Record<string, unknown>;
+}
+
+export type DeliveryPlan =
+  | { kind: "SEND"; channels: Channel[] }
+  | { kind: "DEFER"; until: Date }
+  | { kind: "HOLD"; until: Date; channels: Channel[] }
+  | { kind: "SUPPRESS" };
+
+export class PreferencesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PreferencesError";
+  }
+}
+
+export const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const CHANNEL_VALUES: Channel[] = ["PUSH", "EMAIL", "SMS"];
+
+export const DEFAULT_CATEGORY_PREFERENCE: CategoryPreference = {
+  enabled: true,
+  delivery: "INSTANT",
+  channels: null,
+};
+
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  timezone: "UTC",
+  quietHours: null,
+  digestTime: "08:00",
+  categories: {},
+};
+
+/** Category of an outbox notification_type, or null if it has none */
+export function categoryForType(type: string): NotificationCategory | null {
+  if (type.startsWith("HANDOFF_")) return "HANDOFFS";
+  if (type.startsWith("RIDE_")) return "RIDES";
+  if (type.startsWith("MEETING_")) return "MEETINGS";
+  if (type.startsWith("VIDEO_")) return "VIDEOS";
+  if (type.endsWith("_EXPIRING")) return "EXPIRATIONS";
+  if (type.startsWith("SHIFT_")) return "SHIFTS";
+  return null;
+}
+
+/**
+ * Validates one category's settings, filling omitted fields from
+ * `existing`; throws PreferencesError
+ */
+export function parseCategoryPreference(
+  category: string,
+  value: unknown,
+  existing: CategoryPreference = DEFAULT_CATEGORY_PREFERENCE,
+): CategoryPreference {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new PreferencesError(`${category} must be an object`);
+  }
+  const { enabled, delivery, channels } = value as Record<string, unknown>;
+  const parsed = { ...existing };
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== "boolean") {
+      throw new PreferencesError(`${category}.enabled must be a boolean`);
+    }
+    parsed.enabled = enabled;
+  }
+  if (delivery !== undefined) {
+    if (delivery !== "INSTANT" && delivery !== "DIGEST") {
+      throw new PreferencesError(
+        `${category}.delivery must be INSTANT or DIGEST`,
+      );
+    }
+    parsed.delivery = delivery;
+  }
+  if (channels !== undefined) {
+    if (channels === null) {
+      parsed.channels = null;
+    } else if (
+      !Array.isArray(channels) ||
+      channels.length === 0 ||
+      !channels.every((c) => CHANNEL_VALUES.includes(c))
+    ) {
+      throw new PreferencesError(
+        `${category}.channels must be a non-empty list of PUSH, EMAIL and SMS`,
+      );
+    } else {
+      parsed.channels = [...new Set(channels as Channel[])];
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Reads a stored row; categories that no longer validate fall back to the
+ * defaults rather than blocking delivery
+ */
+export function preferencesFromRow(
+  row: NotificationPreferencesRow | null,
+): NotificationPreferences {
+  if (!row) return DEFAULT_PREFERENCES;
+
+  const categories: NotificationPreferences["categories"] = {};
+  for (const category of CATEGORIES) {
+    const value = row.categories_json?.[category];
+    if (value === undefined) continue;
+    try {
+      categories[category] = parseCategoryPreference(category, value);
+    } catch {
+      // Keep the default for this category
+    }
+  }
+
+  return {
+    timezone: isValidTimeZone(row.timezone) ? row.timezone : "UTC",
+    quietHours:
+      row.quiet_hours_start && row.quiet_hours_end
+        ? {
+            start: row.quiet_hours_start.slice(0, 5),
+            end: row.quiet_hours_end.slice(0, 5),
+          }
+        : null,
+    digestTime: row.digest_time.slice(0, 5),
+    categories,
+  };
+}
+
+/** When the quiet period around `now` ends, or null outside quiet hours */
+export function quietHoursEnd(
+  prefs: NotificationPreferences,
+  now: Date,
+): Date | null {
+  if (!prefs.quietHours) return null;
+  const { start, end } = prefs.quietHours;
+  const today = localDate(now, prefs.timezone);
+  const time = localTime(now, prefs.timezone);
+
+  if (start < end) {
+    return time >= start && time < end
+      ? zonedTimeToUtc(today, end, prefs.timezone)
+      : null;
+  }
+  // Spans midnight, e.g. 22:00 to 07:00
+  if (time >= start) {
+    return zonedTimeToUtc(addDays(today, 1), end, prefs.timezone);
+  }
+  if (time < end) return zonedTimeToUtc(today, end, prefs.timezone);
+  return null;
+}
+
+/** The next digest time after `now` */
+export function nextDigestAt(prefs: NotificationPreferences, now: Date): Date {
+  const today = localDate(now, prefs.timezone);
+  const todays = zonedTimeToUtc(today, prefs.digestTime, prefs.timezone);
+  return todays > now
+    ? todays
+    : zonedTimeToUtc(addDays(today, 1), prefs.digestTime, prefs.timezone);
+}
+
+/** How a claimed notification should be handled under the user's preferences */
+export function planDelivery(
+  notificationType: string,
+  channels: Channel[],
+  prefs: NotificationPreferences,
+  now: Date,
+): DeliveryPlan {
+  if (notificationType === "DAILY_DIGEST") {
+    const quietUntil = quietHoursEnd(prefs, now);
+    return quietUntil
+      ? { kind: "DEFER", until: quietUntil }
+      : { kind: "SEND", channels };
+  }
+
+  const category = categoryForType(notificationType);
+  if (!category) return { kind: "SEND", channels };
+
+  const preference = prefs.categories[category] ?? DEFAULT_CATEGORY_PREFERENCE;
+  if (!preference.enabled) return { kind: "SUPPRESS" };
+
+  const chosen = preference.channels ?? channels;
+  if (preference.delivery === "DIGEST") {
+    return { kind: "HOLD", until: nextDigestAt(prefs, now), channels: chosen };
+  }
+
+  const quietUntil = quietHoursEnd(prefs, now);
+  if (quietUntil) return { kind: "DEFER", until: quietUntil };
+
+  return { kind: "SEND", channels: chosen };
+}
@@ -0,0 +1,83 @@
+/**
+ * SMS gateway adapter
+ *
+ * Posts {from, to, text} as JSON to SMS_GATEWAY_URL with a bearer token,
+ * the shape most SMS gateways (or a small relay in front of one) accept.
+ * The gateway's `id` in the response is kept as the provider message id.
+ */
+
+import {
+  type ChannelAdapter,
+  type DeliveryResult,
+  failed,
+  httpErrorCode,
+  type OutgoingMessage,
+  type Recipient,
+  skipped,
+  thrownErrorCode,
+} from "./types.ts";
+
+const REQUEST_TIMEOUT_MS = 10000;
+/** Two concatenated segments */
+const MAX_TEXT_LENGTH = 306;
+
+export function smsText(message: OutgoingMessage): string {
+  const text = `${message.title}: ${message.body}`;
+  return text.length <= MAX_TEXT_LENGTH
+    ? text
+    : `${text.slice(0, MAX_TEXT_LENGTH - 1)}…`;
+}
+
+export function createSMSGatewayAdapter(): ChannelAdapter {
+  const url = Deno.env.get("SMS_GATEWAY_URL");
+  const token = Deno.env.get("SMS_GATEWAY_TOKEN");
+  const sender = Deno.env.get("SMS_FROM");
+
+  return {
+    channel: "SMS",
+    isConfigured: () => !!url && !!token,
+
+    async send(
+      message: OutgoingMessage,
+      recipient: Recipient,
+    ): Promise<DeliveryResult> {
+      if (!recipient.phone) return skipped("NO_DESTINATION");
+
+      try {
+        const response = await fetch(url!, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+            "Idempotency-Key": `${message.id}:${recipient.userId}`,
+          },
+          body: JSON.stringify({
+            from: sender,
+            to: recipient.phone,
+            text: smsText(message),
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        if (!response.ok) {
+          return failed(
+            response.status === 400 || response.status === 422
+              ? "INVALID_DESTINATION"
+              : httpErrorCode(response.status),
+          );
+        }
+
+        const result = (await response.json().catch(() => ({}))) as {
+          id?: unknown;
+        };
+        return {
+          status: "SENT",
+          providerMessageId:
+            typeof result.id === "string" ? result.id : undefined,
+        };
+      } catch (error) {
+        return failed(thrownErrorCode(error));
+      }
+    },
+  };
+}
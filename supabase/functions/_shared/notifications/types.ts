@@ -0,0 +1,94 @@
+/**
+ * Notification delivery types
+ *
+ * Every channel adapter takes the same message and recipient and reports
+ * the same result, so the dispatcher never depends on a provider's wire
+ * format.
+ */
+
+export type Channel = "PUSH" | "EMAIL" | "SMS";
+
+export type TransportName = "live" | "capture";
+
+export interface OutgoingMessage {
+  /** notification_outbox id; used as the APNs collapse id and email Message-ID */
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+}
+
+export interface PushTokenRow {
+  id: string;
+  token: string;
+  environment: "production" | "sandbox";
+}
+
+export interface Recipient {
+  userId: string;
+  email: string | null;
+  phone: string | null;
+  pushTokens: PushTokenRow[];
+}
+
+export type DeliveryErrorCode =
+  | "NO_DESTINATION"
+  | "NOT_CONFIGURED"
+  | "INVALID_DESTINATION"
+  | "RATE_LIMITED"
+  | "TIMEOUT"
+  | "NETWORK_ERROR"
+  | "PROVIDER_ERROR"
+  | "REJECTED";
+
+export interface DeliveryResult {
+  status: "SENT" | "FAILED" | "SKIPPED";
+  /** FAILED only: whether a later attempt may succeed */
+  retryable?: boolean;
+  errorCode?: DeliveryErrorCode;
+  providerMessageId?: string;
+  /** Push tokens the provider reported as no longer valid */
+  invalidTokenIds?: string[];
+}
+
+export interface ChannelAdapter {
+  channel: Channel;
+  isConfigured(): boolean;
+  send(message: OutgoingMessage, recipient: Recipient): Promise<DeliveryResult>;
+}
+
+/** Failure codes a later attempt may recover from */
+export const RETRYABLE_CODES: DeliveryErrorCode[] = [
+  "RATE_LIMITED",
+  "TIMEOUT",
+  "NETWORK_ERROR",
+  "PROVIDER_ERROR",
+];
+
+export function failed(errorCode: DeliveryErrorCode): DeliveryResult {
+  return {
+    status: "FAILED",
+    retryable: RETRYABLE_CODES.includes(errorCode),
+    errorCode,
+  };
+}
+
+export function skipped(errorCode: DeliveryErrorCode): DeliveryResult {
+  return { status: "SKIPPED", errorCode };
+}
+
+/** Maps an HTTP status from a provider to a failure code */
+export function httpErrorCode(status: number): DeliveryErrorCode {
+  if (status === 429) return "RATE_LIMITED";
+  if (status >= 500) return "PROVIDER_ERROR";
+  return "REJECTED";
+}
+
+/** Maps a thrown fetch or socket error to a failure code */
+export function thrownErrorCode(error: unknown): DeliveryErrorCode {
+  return error instanceof Error &&
+    (error.name === "AbortError" || error.name === "TimeoutError")
+    ? "TIMEOUT"
+    : "NETWORK_ERROR";
+}
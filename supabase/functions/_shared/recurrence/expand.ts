@@ -0,0 +1,264 @@
+/**
+ * Occurrence expansion
+ *
+ * Occurrences keep the series' local wall-clock time in its IANA timezone,
+ * so a 09:00 task stays at 09:00 across daylight saving changes. The first
+ * occurrence is the first date on or after DTSTART's local date that the
+ * rule selects; COUNT counts from there.
+ */
+
+import {
+  addDays,
+  daysBetween,
+  localDate,
+  localTime,
+  zonedTimeToUtc,
+} from "../timezone.ts";
+import type { Occurrence, RecurrenceRule } from "./types.ts";
+
+export interface SeriesStart {
+  dtstart: Date;
+  timeZone: string;
+}
+
+/** Guards rules that select few or no dates, e.g. BYMONTH=2;BYMONTHDAY=30 */
+const MAX_PERIODS = 10000;
+
+function dateParts(date: string): [number, number, number] {
+  const [y, m, d] = date.split("-").map(Number);
+  return [y, m, d];
+}
+
+function isoDate(y: number, m: number, d: number): string {
+  return new Date(Date.UTC(y, m - 1, d)).toISOString().slice(0, 10);
+}
+
+function daysInMonth(y: number, m: number): number {
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** Dates the rule selects within one month, ascending */
+function monthDates(
+  rule: RecurrenceRule,
+  y: number,
+  m: number,
+  startDay: number,
+): string[] {
+  const dim = daysInMonth(y, m);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((v) => (v > 0 ? v : dim + v + 1))
+      .filter((d) => d >= 1 && d <= dim);
+    if (rule.byDay) {
+      const weekdays = rule.byDay.map((b) => b.weekday as number);
+      days = days.filter((d) => weekdays.includes(weekday(isoDate(y, m, d))));
+    }
+  } else if (rule.byDay) {
+    const firstWeekday = weekday(isoDate(y, m, 1));
+    days = rule.byDay.flatMap((b) => {
+      const matching: number[] = [];
+      for (let d = 1 + ((b.weekday - firstWeekday + 7) % 7); d <= dim; d += 7) {
+        matching.push(d);
+      }
+      if (!b.ordinal) return matching;
+      const pick =
+        b.ordinal > 0
+          ? matching[b.ordinal - 1]
+          : matching[matching.length + b.ordinal];
+      return pick ? [pick] : [];
+    });
+  } else {
+    days = startDay <= dim ? [startDay] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b).map((d) => isoDate(y, m, d));
+}
+
+/** Dates the rule selects in period `k` (the k-th interval from DTSTART) */
+function periodDates(
+  rule: RecurrenceRule,
+  startDate: string,
+  k: number,
+): string[] {
+  const [y0, m0, d0] = dateParts(startDate);
+  const step = k * rule.interval;
+  const inMonths = (date: string) =>
+    !rule.byMonth || rule.byMonth.includes(dateParts(date)[1]);
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = addDays(startDate, step);
+      const [y, m, d] = dateParts(date);
+      const dim = daysInMonth(y, m);
+      if (!inMonths(date)) return [];
+      if (
+        rule.byMonthDay &&
+        !rule.byMonthDay.some((v) => (v > 0 ? v : dim + v + 1) === d)
+      ) {
+        return [];
+      }
+      if (rule.byDay && !rule.byDay.some((b) => b.weekday === weekday(date))) {
+        return [];
+      }
+      return [date];
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (WKST=MO)
+      const monday = addDays(startDate, -((weekday(startDate) + 6) % 7));
+      const weekStart = addDays(monday, step * 7);
+      const offsets = rule.byDay
+        ? rule.byDay.map((b) => (b.weekday + 6) % 7)
+        : [(weekday(startDate) + 6) % 7];
+      return [...new Set(offsets)]
+        .sort((a, b) => a - b)
+        .map((offset) => addDays(weekStart, offset))
+        .filter(inMonths);
+    }
+    case "MONTHLY": {
+      const index = y0 * 12 + (m0 - 1) + step;
+      const y = Math.floor(index / 12);
+      const m = (index % 12) + 1;
+      if (rule.byMonth && !rule.byMonth.includes(m)) return [];
+      return monthDates(rule, y, m, d0);
+    }
+    case "YEARLY": {
+      const y = y0 + step;
+      const months =
+        rule.byMonth ??
+        (rule.byDay || rule.byMonthDay
+          ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]
+          : [m0]);
+      return [...months]
+        .sort((a, b) => a - b)
+        .flatMap((m) => monthDates(rule, y, m, d0));
+    }
+  }
+}
+
+/** First period that can reach `date`, for rules without COUNT */
+function firstPeriodFor(
+  rule: RecurrenceRule,
+  startDate: string,
+  date: string,
+): number {
+  if (date <= startDate) return 0;
+  const [y0, m0] = dateParts(startDate);
+  const [y, m] = dateParts(date);
+  let elapsed: number;
+  switch (rule.freq) {
+    case "DAILY":
+      elapsed = daysBetween(startDate, date);
+      break;
+    case "WEEKLY":
+      elapsed = Math.floor(daysBetween(startDate, date) / 7);
+      break;
+    case "MONTHLY":
+      elapsed = (y - y0) * 12 + (m - m0);
+      break;
+    case "YEARLY":
+      elapsed = y - y0;
+      break;
+  }
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+/**
+ * Occurrences in [window.from, window.to), in time order, at most `limit`.
+ */
+export function occurrences(
+  rule: RecurrenceRule,
+  start: SeriesStart,
+  window: { from: Date; to: Date },
+  limit = 500,
+): Occurrence[] {
+  const { dtstart, timeZone } = start;
+  const startDate = localDate(dtstart, timeZone);
+  const time = localTime(dtstart, timeZone);
+  // Local dates bounding the window, with a day's slack for offsets
+  const fromDate = addDays(localDate(window.from, timeZone), -1);
+  const toDate = addDays(localDate(window.to, timeZone), 1);
+  const untilDate =
+    rule.untilDate ??
+    (rule.until ? addDays(localDate(rule.until, timeZone), 1) : null);
+
+  const result: Occurrence[] = [];
+  let seen = 0;
+  const first = rule.count ? 0 : firstPeriodFor(rule, startDate, fromDate);
+
+  for (let k = first; k < first + MAX_PERIODS; k++) {
+    for (const date of periodDates(rule, startDate, k)) {
+      if (date < startDate) continue;
+      if (date > toDate) return result;
+      if (untilDate && date > untilDate) return result;
+
+      seen++;
+      if (rule.count && seen > rule.count) return result;
+      if (date < fromDate) continue;
+
+      const at = zonedTimeToUtc(date, time, timeZone);
+      if (rule.until && at > rule.until) return result;
+      if (at >= window.to) return result;
+      if (at >= window.from) {
+        result.push({ at, local_date: date, local_time: time });
+        if (result.length >= limit) return result;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * The last occurrence of a rule that ends (COUNT or UNTIL), or null for an
+ * open-ended rule or one that selects no dates.
+ */
+export function lastOccurrence(
+  rule: RecurrenceRule,
+  start: SeriesStart,
+): Date | null {
+  if (!rule.count && !rule.until && !rule.untilDate) return null;
+
+  const to = rule.until
+    ? new Date(rule.until.getTime() + 1000)
+    : rule.untilDate
+      ? new Date(Date.parse(`${rule.untilDate}T00:00:00Z`) + 2 * 86400000)
+      : new Date(Date.UTC(9999, 0, 1));
+  const all = occurrences(rule, start, { from: start.dtstart, to }, Infinity);
+  return all.length > 0 ? all[all.length - 1].at : null;
+}
+
+/**
+ * Split a rule at an occurrence: `before` ends just ahead of `at` (null when
+ * nothing is left), `after` continues from it with any remaining COUNT.
+ */
+export function splitRule(
+  rule: RecurrenceRule,
+  start: SeriesStart,
+  at: Date,
+): { before: RecurrenceRule | null; after: RecurrenceRule } {
+  // Only a COUNT needs every earlier occurrence; otherwise one will do
+  const earlier = occurrences(
+    rule,
+    start,
+    { from: start.dtstart, to: at },
+    rule.count ? Infinity : 1,
+  ).length;
+
+  const after: RecurrenceRule = { ...rule };
+  if (rule.count) after.count = rule.count - earlier;
+  if (earlier === 0) return { before: null, after };
+
+  const before: RecurrenceRule = { ...rule };
+  if (rule.count) {
+    before.count = earlier;
+  } else {
+    delete before.untilDate;
+    before.until = new Date(at.getTime() - 1000);
+  }
+  return { before, after };
+}
@@ -0,0 +1,8 @@
+/**
+ * Task recurrence: RRULE parsing and occurrence expansion
+ * Used by generate-recurring-tasks, manage-recurring-tasks and ical-feed
+ */
+
+export * from "./types.ts";
+export * from "./rrule.ts";
+export * from "./expand.ts";
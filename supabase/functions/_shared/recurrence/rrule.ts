@@ -0,0 +1,190 @@
+/**
+ * RRULE parsing and formatting (RFC 5545 Section 3.3.10)
+ */
+
+import {
+  type ByDay,
+  type Frequency,
+  type RecurrenceRule,
+  RecurrenceRuleError,
+  type Weekday,
+} from "./types.ts";
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const UNSUPPORTED = new Set([
+  "BYSETPOS",
+  "BYYEARDAY",
+  "BYWEEKNO",
+  "BYHOUR",
+  "BYMINUTE",
+  "BYSECOND",
+]);
+
+/** Longest rule accepted; a recurring task never needs more */
+const MAX_RULE_LENGTH = 255;
+const MAX_COUNT = 1000;
+
+function parseInteger(
+  name: string,
+  value: string,
+  min: number,
+  max: number,
+): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new RecurrenceRuleError(`${name} must be an integer`);
+  }
+  const n = Number(value);
+  if (n < min || n > max || n === 0) {
+    throw new RecurrenceRuleError(`${name} out of range`);
+  }
+  return n;
+}
+
+function parseByDay(value: string, freq: Frequency): ByDay[] {
+  return value.split(",").map((part) => {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(part);
+    if (!match) throw new RecurrenceRuleError(`Invalid BYDAY value: ${part}`);
+
+    const day: ByDay = { weekday: WEEKDAYS.indexOf(match[2]) as Weekday };
+    if (match[1]) {
+      if (freq !== "MONTHLY" && freq !== "YEARLY") {
+        throw new RecurrenceRuleError(
+          "BYDAY ordinals need FREQ=MONTHLY or YEARLY",
+        );
+      }
+      day.ordinal = parseInteger("BYDAY ordinal", match[1], -5, 5);
+    }
+    return day;
+  });
+}
+
+function parseUntil(
+  value: string,
+): Pick<RecurrenceRule, "until" | "untilDate"> {
+  const date = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (date) return { untilDate: `${date[1]}-${date[2]}-${date[3]}` };
+
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value);
+  if (!dateTime) {
+    throw new RecurrenceRuleError("UNTIL must be YYYYMMDD or UTC date-time");
+  }
+  const [, y, mo, d, h, mi, s] = dateTime.map(Number);
+  const until = new Date(Date.UTC(y, mo - 1, d, h, mi, s));
+  if (isNaN(until.getTime())) throw new RecurrenceRuleError("Invalid UNTIL");
+  return { until };
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,TH"), with or without the
+ * "RRULE:" prefix. Throws RecurrenceRuleError for rules outside the
+ * supported subset.
+ */
+export function parseRRule(text: string): RecurrenceRule {
+  const value = text.trim().replace(/^RRULE:/i, "");
+  if (!value || value.length > MAX_RULE_LENGTH) {
+    throw new RecurrenceRuleError("Recurrence rule is empty or too long");
+  }
+
+  const parts = new Map<string, string>();
+  for (const part of value.toUpperCase().split(";")) {
+    const [name, partValue] = part.split("=");
+    if (!name || !partValue) {
+      throw new RecurrenceRuleError(`Invalid rule part: ${part}`);
+    }
+    if (parts.has(name)) {
+      throw new RecurrenceRuleError(`${name} appears more than once`);
+    }
+    parts.set(name, partValue);
+  }
+
+  const freq = parts.get("FREQ") as Frequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceRuleError(
+      "FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY",
+    );
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, partValue] of parts) {
+    switch (name) {
+      case "FREQ":
+        break;
+      case "INTERVAL":
+        rule.interval = parseInteger("INTERVAL", partValue, 1, 366);
+        break;
+      case "COUNT":
+        rule.count = parseInteger("COUNT", partValue, 1, MAX_COUNT);
+        break;
+      case "UNTIL":
+        Object.assign(rule, parseUntil(partValue));
+        break;
+      case "BYDAY":
+        rule.byDay = parseByDay(partValue, freq);
+        break;
+      case "BYMONTHDAY":
+        rule.byMonthDay = partValue
+          .split(",")
+          .map((v) => parseInteger("BYMONTHDAY", v, -31, 31));
+        break;
+      case "BYMONTH":
+        rule.byMonth = partValue
+          .split(",")
+          .map((v) => parseInteger("BYMONTH", v, 1, 12));
+        break;
+      case "WKST":
+        if (partValue !== "MO") {
+          throw new RecurrenceRuleError("Only WKST=MO is supported");
+        }
+        break;
+      default:
+        throw new RecurrenceRuleError(
+          UNSUPPORTED.has(name)
+            ? `${name} is not supported`
+            : `Unknown rule part: ${name}`,
+        );
+    }
+  }
+
+  if (rule.count && (rule.until || rule.untilDate)) {
+    throw new RecurrenceRuleError("COUNT and UNTIL cannot both be set");
+  }
+  if (
+    rule.freq === "YEARLY" &&
+    !rule.byMonth &&
+    rule.byDay?.some((d) => d.ordinal)
+  ) {
+    throw new RecurrenceRuleError("Yearly BYDAY ordinals need BYMONTH");
+  }
+
+  return rule;
+}
+
+function formatUntil(rule: RecurrenceRule): string | null {
+  if (rule.untilDate) return rule.untilDate.replace(/-/g, "");
+  if (!rule.until) return null;
+  return rule.until
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/** Canonical RRULE value (no "RRULE:" prefix) */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  const until = formatUntil(rule);
+  if (until) parts.push(`UNTIL=${until}`);
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.byDay) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((d) => `${d.ordinal ?? ""}${WEEKDAYS[d.weekday]}`)
+        .join(",")}`,
+    );
+  }
+  return parts.join(";");
+}
@@ -0,0 +1,47 @@
+/**
+ * Recurrence types
+ */
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+/** 0 = Sunday, matching Date.getUTCDay() */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface ByDay {
+  weekday: Weekday;
+  /** "2TU" = 2, "-1FR" = -1; only with MONTHLY or YEARLY+BYMONTH */
+  ordinal?: number;
+}
+
+/**
+ * The RFC 5545 RRULE subset tasks support. WKST is fixed at MO; BYSETPOS,
+ * BYYEARDAY, BYWEEKNO and sub-daily frequencies are rejected.
+ */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  /** UNTIL as an instant, inclusive */
+  until?: Date;
+  /** Date-only UNTIL: the last local date, inclusive */
+  untilDate?: string;
+  byDay?: ByDay[];
+  /** 1 to 31, or counting back from the month end (-1 = last day) */
+  byMonthDay?: number[];
+  /** 1-12 */
+  byMonth?: number[];
+}
+
+export interface Occurrence {
+  at: Date;
+  /** Local date and "HH:MM" in the series timezone */
+  local_date: string;
+  local_time: string;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
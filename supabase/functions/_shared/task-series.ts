@@ -0,0 +1,99 @@
+/**
+ * Recurring task instances
+ * Used by generate-recurring-tasks and manage-recurring-tasks
+ *
+ * Upcoming occurrences of a task_series are materialized as ordinary OPEN
+ * tasks, one per (series_id, recurrence_at). Inserts ignore occurrences that
+ * already have a row, so instances edited, completed or canceled on their
+ * own are never regenerated.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  occurrences,
+  parseRRule,
+  type SeriesStart,
+} from "./recurrence/index.ts";
+
+/** How far ahead instances are materialized */
+export const MATERIALIZE_DAYS = 30;
+/** Cap per series per run; a daily series needs 30 */
+const MAX_INSTANCES = 31;
+
+export interface TaskSeries {
+  id: string;
+  circle_id: string;
+  patient_id: string | null;
+  created_by: string;
+  owner_user_id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  rrule: string;
+  dtstart: string;
+  timezone: string;
+  ends_at: string | null;
+  status: string;
+}
+
+export function seriesStart(series: TaskSeries): SeriesStart {
+  return { dtstart: new Date(series.dtstart), timeZone: series.timezone };
+}
+
+/** Occurrences to materialize from `from` to MATERIALIZE_DAYS ahead of `now` */
+export function upcomingOccurrences(
+  rrule: string,
+  start: SeriesStart,
+  from: Date,
+  now: Date,
+): Date[] {
+  const to = new Date(now.getTime() + MATERIALIZE_DAYS * 24 * 60 * 60 * 1000);
+  return occurrences(parseRRule(rrule), start, { from, to }, MAX_INSTANCES).map(
+    (occurrence) => occurrence.at,
+  );
+}
+
+/**
+ * Create the series' missing instances from `from` to MATERIALIZE_DAYS
+ * ahead of `now`. Returns the number created, or null on a database error.
+ */
+export async function materializeSeries(
+  supabase: SupabaseClient,
+  series: TaskSeries,
+  from: Date,
+  now: Date,
+): Promise<number | null> {
+  const upcoming = upcomingOccurrences(
+    series.rrule,
+    seriesStart(series),
+    from,
+    now,
+  );
+  if (upcoming.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .upsert(
+      upcoming.map((at) => ({
+        circle_id: series.circle_id,
+        patient_id: series.patient_id,
+        created_by: series.created_by,
+        owner_user_id: series.owner_user_id,
+        title: series.title,
+        description: series.description,
+        priority: series.priority,
+        due_at: at.toISOString(),
+        status: "OPEN",
+        series_id: series.id,
+        recurrence_at: at.toISOString(),
+      })),
+      { onConflict: "series_id,recurrence_at", ignoreDuplicates: true },
+    )
+    .select("id");
+
+  if (error) {
+    console.error("Failed to create task instances:", error.code);
+    return null;
+  }
+  return (data ?? []).length;
+}
@@ -0,0 +1,94 @@
+/**
+ * Timezone and local date helpers
+ * Used by the medication schedules, task recurrence and calendar feeds
+ *
+ * Local dates are YYYY-MM-DD strings and local times "HH:MM", read in an
+ * IANA timezone so wall-clock times survive daylight saving changes.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timeZone` from UTC at an instant, in minutes */
+export function zoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) =>
+    Number(parts.find((p) => p.type === type)!.value);
+  const wall = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+  return Math.round((wall - instant.getTime()) / 60000);
+}
+
+/** The instant a local date and "HH:MM" time occur in `timeZone` */
+export function zonedTimeToUtc(
+  date: string,
+  time: string,
+  timeZone: string,
+): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+
+  // The offset at the wall time read as UTC can differ from the offset at
+  // the real instant when a DST change falls between them; one correction
+  // settles it
+  const guess = wall - zoneOffsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - zoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+}
+
+/** Local date (YYYY-MM-DD) of an instant in `timeZone` */
+export function localDate(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+/** Local date `days` after a YYYY-MM-DD date */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/** Whole days from one YYYY-MM-DD date to another */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS,
+  );
+}
+
+/** Local "HH:MM" of an instant in `timeZone` */
+export function localTime(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(instant);
+}
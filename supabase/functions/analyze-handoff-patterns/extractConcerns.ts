@@ -1,8 +1,8 @@
 /**
  * LLM-based concern extraction from handoff text
  *
- * Uses GPT-4o-mini for cost-effective extraction with strict
- * non-clinical language guidelines.
+ * Uses the shared LLM client's fast tier for cost-effective extraction with
+ * strict non-clinical language guidelines.
  */
 
 import {
@@ -10,6 +10,11 @@ import {
   BANNED_CLINICAL_TERMS,
   type ConcernExtraction,
 } from "./types.ts";
+import {
+  extractArray,
+  LLMError,
+  type LLMClient,
+} from "../_shared/llm/index.ts";
 
 // Raw concern shape from LLM response (before validation)
 interface RawConcern {
@@ -20,7 +25,7 @@ interface RawConcern {
 
 // Configuration
 const LLM_TIMEOUT_MS = 30000; // 30 seconds
-const MAX_RETRIES = 3;
+const MAX_RETRIES = 2; // 3 attempts total
 const MAX_INPUT_LENGTH = 5000; // ~1250 tokens
 
 const EXTRACTION_SYSTEM_PROMPT = `You are extracting symptom observations from family caregiver notes.
@@ -72,27 +77,24 @@ function sanitizeInput(text: string): string {
   return sanitized.trim();
 }
 
-/**
- * Make LLM API call with timeout
- */
-async function callLLMWithTimeout(
-  sanitizedText: string,
-  openaiApiKey: string,
-  timeoutMs: number,
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+export async function extractConcerns(
+  handoffText: string,
+  llm: LLMClient,
+): Promise<ConcernExtraction[]> {
+  if (!handoffText.trim()) {
+    return [];
+  }
+
+  // Sanitize input to prevent prompt injection
+  const sanitizedText = sanitizeInput(handoffText);
+  if (!sanitizedText) {
+    return [];
+  }
 
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      signal: controller.signal,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: Deno.env.get("LLM_EXTRACTION_MODEL") || "gpt-4o-mini",
+    // Retries with exponential backoff are handled by the shared client
+    const result = await llm.completeJSON(
+      {
         messages: [
           { role: "system", content: EXTRACTION_SYSTEM_PROMPT },
           {
@@ -106,185 +108,81 @@ ${sanitizedText}
 Remember: Only extract observational symptoms from the <user_input> block above.`,
           },
         ],
+        model: Deno.env.get("LLM_EXTRACTION_MODEL") || undefined,
+        tier: "fast",
         temperature: 0.1,
-        max_tokens: 2000,
-        response_format: { type: "json_object" },
-      }),
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === "AbortError") {
-      throw new Error(`OpenAI API timeout after ${timeoutMs}ms`);
-    }
-    throw error;
-  }
-}
-
-export async function extractConcerns(
-  handoffText: string,
-  openaiApiKey: string,
-): Promise<ConcernExtraction[]> {
-  if (!handoffText.trim()) {
-    return [];
-  }
+        maxTokens: 2000,
+        timeoutMs: LLM_TIMEOUT_MS,
+        maxRetries: MAX_RETRIES,
+      },
+      (value) =>
+        extractArray(value, ["concerns", "data", "result"]) as
+          RawConcern[] | null,
+    );
 
-  // Sanitize input to prevent prompt injection
-  const sanitizedText = sanitizeInput(handoffText);
-  if (!sanitizedText) {
+    return validateConcerns(result.data);
+  } catch (error) {
+    // Log without PHI
+    console.error(
+      `LLM extraction failed: ${error instanceof LLMError ? error.code : "Unknown error"}`,
+    );
     return [];
   }
-
-  // Retry loop with exponential backoff
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await callLLMWithTimeout(
-        sanitizedText,
-        openaiApiKey,
-        LLM_TIMEOUT_MS,
-      );
-
-      if (!response.ok) {
-        const status = response.status;
-        // Don't log response body (may contain PHI echoed back)
-        throw new Error(`OpenAI API error: ${status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content;
-
-      if (!content) {
-        return [];
-      }
-
-      return parseAndValidateConcerns(content);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error("Unknown error");
-
-      // Check if error is retryable (rate limit, timeout, network error)
-      const isRetryable =
-        lastError.message.includes("429") ||
-        lastError.message.includes("timeout") ||
-        lastError.message.includes("ECONNRESET") ||
-        lastError.message.includes("fetch failed");
-
-      if (!isRetryable || attempt === MAX_RETRIES - 1) {
-        // Log without PHI
-        console.error(
-          `LLM extraction failed after ${attempt + 1} attempts: ${lastError.message}`,
-        );
-        return [];
-      }
-
-      // Exponential backoff: 1s, 2s, 4s
-      const delayMs = Math.pow(2, attempt) * 1000;
-      console.warn(
-        `LLM API error (attempt ${attempt + 1}/${MAX_RETRIES}), retrying in ${delayMs}ms`,
-      );
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
-    }
-  }
-
-  return [];
 }
 
 /**
- * Parse and validate LLM response content
+ * Validate and sanitize concerns parsed from the LLM response
  */
-function parseAndValidateConcerns(content: string): ConcernExtraction[] {
-  try {
-    // Strip markdown code blocks if present
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith("```")) {
-      jsonContent = jsonContent
-        .replace(/^```(?:json)?\n?/, "")
-        .replace(/\n?```$/, "");
+function validateConcerns(concerns: RawConcern[]): ConcernExtraction[] {
+  const validConcerns: ConcernExtraction[] = [];
+
+  for (const concern of concerns) {
+    // Validate category exists and is valid
+    if (
+      !concern.category ||
+      !Object.values(ConcernCategory).includes(
+        concern.category as ConcernCategory,
+      )
+    ) {
+      continue;
     }
 
-    const parsed = JSON.parse(jsonContent);
-
-    // Extract concerns array from various response formats
-    let concerns: RawConcern[] = [];
-    if (Array.isArray(parsed)) {
-      concerns = parsed as RawConcern[];
-    } else if (parsed.concerns && Array.isArray(parsed.concerns)) {
-      concerns = parsed.concerns as RawConcern[];
-    } else if (parsed.data && Array.isArray(parsed.data)) {
-      concerns = parsed.data as RawConcern[];
-    } else if (parsed.result && Array.isArray(parsed.result)) {
-      concerns = parsed.result as RawConcern[];
-    } else if (
-      parsed.result?.concerns &&
-      Array.isArray(parsed.result.concerns)
+    // Validate rawText exists and length (max 200 chars to match truncation)
+    if (
+      !concern.rawText ||
+      typeof concern.rawText !== "string" ||
+      concern.rawText.length > 200
     ) {
-      concerns = parsed.result.concerns as RawConcern[];
+      continue;
     }
 
-    if (!Array.isArray(concerns)) {
-      console.warn("LLM response missing concerns array");
-      return [];
+    // Validate normalizedTerm exists and length
+    if (
+      !concern.normalizedTerm ||
+      typeof concern.normalizedTerm !== "string" ||
+      concern.normalizedTerm.length > 200
+    ) {
+      continue;
     }
 
-    // Validate and sanitize each concern
-    const validConcerns: ConcernExtraction[] = [];
-
-    for (const concern of concerns) {
-      // Validate category exists and is valid
-      if (
-        !concern.category ||
-        !Object.values(ConcernCategory).includes(
-          concern.category as ConcernCategory,
-        )
-      ) {
-        continue;
-      }
-
-      // Validate rawText exists and length (max 200 chars to match truncation)
-      if (
-        !concern.rawText ||
-        typeof concern.rawText !== "string" ||
-        concern.rawText.length > 200
-      ) {
-        continue;
-      }
-
-      // Validate normalizedTerm exists and length
-      if (
-        !concern.normalizedTerm ||
-        typeof concern.normalizedTerm !== "string" ||
-        concern.normalizedTerm.length > 200
-      ) {
-        continue;
-      }
-
-      // Sanitize: remove banned clinical terms
-      const sanitizedTerm = sanitizeClinicalTerms(concern.normalizedTerm);
-      if (!sanitizedTerm) {
-        continue;
-      }
-
-      // Sanitize output to prevent XSS/injection
-      const safeRawText = sanitizeOutput(concern.rawText.substring(0, 200));
-      const safeNormalizedTerm = sanitizeOutput(sanitizedTerm);
-
-      validConcerns.push({
-        category: concern.category as ConcernCategory,
-        rawText: safeRawText,
-        normalizedTerm: safeNormalizedTerm,
-      });
+    // Sanitize: remove banned clinical terms
+    const sanitizedTerm = sanitizeClinicalTerms(concern.normalizedTerm);
+    if (!sanitizedTerm) {
+      continue;
     }
 
-    return validConcerns;
-  } catch (error) {
-    // Log without PHI (don't log content)
-    console.error(
-      "Failed to parse LLM response:",
-      error instanceof Error ? error.message : "parse error",
-    );
-    return [];
+    // Sanitize output to prevent XSS/injection
+    const safeRawText = sanitizeOutput(concern.rawText.substring(0, 200));
+    const safeNormalizedTerm = sanitizeOutput(sanitizedTerm);
+
+    validConcerns.push({
+      category: concern.category as ConcernCategory,
+      rawText: safeRawText,
+      normalizedTerm: safeNormalizedTerm,
+    });
   }
+
+  return validConcerns;
 }
 
 function sanitizeClinicalTerms(text: string): string | null {
@@ -21,6 +21,7 @@ import { extractConcerns, type ConcernExtraction } from "./extractConcerns.ts";
 import { detectPatterns } from "./detectPatterns.ts";
 import { correlateEvents, type CorrelatedEvent } from "./correlateEvents.ts";
 import { ConcernCategory, PatternType } from "./types.ts";
+import { createLLMClient } from "../_shared/llm/index.ts";
 
 const CORS_HEADERS = {
   "Access-Control-Allow-Origin": "*",
@@ -70,7 +71,6 @@ serve(async (req) => {
     // Validate environment variables
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const openaiKey = Deno.env.get("OPENAI_API_KEY");
 
     if (!supabaseUrl || !serviceRoleKey) {
       return new Response(
@@ -82,11 +82,16 @@ serve(async (req) => {
       );
     }
 
-    if (!openaiKey) {
-      return new Response(JSON.stringify({ error: "Missing OpenAI API key" }), {
-        status: 500,
-        headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
-      });
+    if (
+      !createLLMClient({ feature: "analyze-handoff-patterns" }).isConfigured()
+    ) {
+      return new Response(
+        JSON.stringify({ error: "LLM provider not configured" }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, "Content-Type": "application/json" },
+        },
+      );
     }
 
     const supabase = createClient(supabaseUrl, serviceRoleKey);
@@ -296,7 +301,7 @@ serve(async (req) => {
           patient.id,
           patient.circle_id,
           rangeStartDays,
-          openaiKey,
+          ownerByCircle.get(patient.circle_id)!,
         );
         response.patientsAnalyzed++;
         response.patternsCreated += result.created;
@@ -336,8 +341,17 @@ async function analyzePatientHandoffs(
   patientId: string,
   circleId: string,
   rangeStartDays: number,
-  openaiKey: string,
+  ownerId: string,
 ): Promise<{ created: number; updated: number }> {
+  // Usage is attributed to the circle owner, whose plan gates this feature,
+  // and an explicit AI opt-out by the owner skips extraction for the circle
+  const llm = createLLMClient({
+    feature: "analyze-handoff-patterns",
+    supabase,
+    userId: ownerId,
+    circleId,
+  });
+
   const rangeStart = new Date();
   rangeStart.setDate(rangeStart.getDate() - rangeStartDays);
 
@@ -374,7 +388,7 @@ async function analyzePatientHandoffs(
     if (!text.trim()) continue;
 
     try {
-      const concerns = await extractConcerns(text, openaiKey);
+      const concerns = await extractConcerns(text, llm);
       for (const concern of concerns) {
         allExtractions.push({
           ...concern,
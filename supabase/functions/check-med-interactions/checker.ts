@@ -0,0 +1,185 @@
+/**
+ * Medication cross-checks against the offline dataset
+ *
+ * Names are resolved to ingredients (brand names and combination products
+ * expand to every ingredient they contain), then checked for the same
+ * ingredient in more than one med, two members of a duplicate-prone class,
+ * major interactions, and Beers cautions for older patients.
+ */
+
+import {
+  BEERS,
+  CLASSES,
+  INGREDIENTS,
+  INTERACTIONS,
+  resolveIngredients,
+} from "../_shared/meds/index.ts";
+import type { CheckedMed, FlagPriority, MedFlag } from "./types.ts";
+
+/** Patients at or above this age get Beers cautions */
+export const BEERS_MIN_AGE = 65;
+
+interface ResolvedMed extends CheckedMed {
+  ingredients: string[];
+  classes: string[];
+}
+
+function resolve(med: CheckedMed): ResolvedMed {
+  const ingredients = resolveIngredients(med.name);
+  const classes = [...new Set(ingredients.flatMap((i) => INGREDIENTS[i]))];
+  return { ...med, ingredients, classes };
+}
+
+function matches(med: ResolvedMed, term: string): boolean {
+  return med.ingredients.includes(term) || med.classes.includes(term);
+}
+
+function strip(med: ResolvedMed): CheckedMed {
+  const { ingredients: _ingredients, classes: _classes, ...rest } = med;
+  return rest;
+}
+
+function names(meds: ResolvedMed[]): string {
+  return meds.map((m) => m.name).join(" / ");
+}
+
+/** Strength in mg in a dose string ("0.25 MG" -> 0.25, "125 MCG" -> 0.125) */
+function strengthMg(dose?: string): number | null {
+  const match = dose?.match(/(\d+(?:\.\d+)?)\s*(MG|MCG)\b/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2].toUpperCase() === "MCG" ? value / 1000 : value;
+}
+
+function flag(
+  kind: MedFlag["kind"],
+  priority: FlagPriority,
+  terms: string[],
+  meds: ResolvedMed[],
+  summary: string,
+  question: string,
+): MedFlag {
+  return {
+    key: `${kind}:${terms.join("+")}`,
+    kind,
+    priority,
+    meds: meds.map(strip),
+    terms,
+    summary,
+    question,
+  };
+}
+
+export interface CheckResult {
+  flags: MedFlag[];
+  unrecognized: string[];
+}
+
+export function checkMedications(
+  input: CheckedMed[],
+  options: { elderly: boolean },
+): CheckResult {
+  const meds = input.map(resolve);
+  const flags: MedFlag[] = [];
+
+  // Same ingredient in more than one med (e.g. Norco plus Tylenol)
+  const byIngredient = new Map<string, ResolvedMed[]>();
+  for (const med of meds) {
+    for (const ingredient of med.ingredients) {
+      byIngredient.set(ingredient, [
+        ...(byIngredient.get(ingredient) ?? []),
+        med,
+      ]);
+    }
+  }
+  for (const [ingredient, group] of byIngredient) {
+    if (group.length < 2) continue;
+    flags.push(
+      flag(
+        "DUPLICATE_INGREDIENT",
+        "HIGH",
+        [ingredient],
+        group,
+        `${group.length} medications contain ${ingredient}.`,
+        group.length === 2
+          ? `${names(group)} both contain ${ingredient}. Should both be taken?`
+          : `${names(group)} all contain ${ingredient}. Should all of them be taken?`,
+      ),
+    );
+  }
+
+  // Two different members of a class where one is usually enough
+  for (const [cls, info] of Object.entries(CLASSES)) {
+    if (!info.duplicate) continue;
+    const group = meds.filter((m) => m.classes.includes(cls));
+    const distinct = new Set(
+      group.map((m) =>
+        m.ingredients.filter((i) => INGREDIENTS[i].includes(cls)).join("+"),
+      ),
+    );
+    if (distinct.size < 2) continue;
+    flags.push(
+      flag(
+        "DUPLICATE_CLASS",
+        "MEDIUM",
+        [cls],
+        group,
+        `${group.length} medications are ${info.label}.`,
+        group.length === 2
+          ? `${names(group)} are both ${info.label}. Are both needed?`
+          : `${names(group)} are all ${info.label}. Are all of them needed?`,
+      ),
+    );
+  }
+
+  for (const rule of INTERACTIONS) {
+    const sideA = meds.filter((m) => matches(m, rule.a));
+    const sideB = meds.filter((m) => matches(m, rule.b));
+    // A single med on both sides is not an interaction between meds
+    const pairs = sideA.some((a) => sideB.some((b) => b.id !== a.id));
+    if (!pairs) continue;
+
+    flags.push(
+      flag(
+        "INTERACTION",
+        "HIGH",
+        [rule.a, rule.b],
+        [...new Set([...sideA, ...sideB])],
+        rule.summary,
+        rule.question.replace("{a}", names(sideA)).replace("{b}", names(sideB)),
+      ),
+    );
+  }
+
+  if (options.elderly) {
+    for (const rule of BEERS) {
+      const group = meds.filter(
+        (m) =>
+          matches(m, rule.term) &&
+          (rule.above_mg === undefined ||
+            (strengthMg(m.dose) ?? 0) > rule.above_mg),
+      );
+      if (group.length === 0) continue;
+      flags.push(
+        flag(
+          "BEERS",
+          "MEDIUM",
+          [rule.term],
+          group,
+          rule.summary,
+          rule.question.replace("{a}", names(group)),
+        ),
+      );
+    }
+  }
+
+  const order: Record<FlagPriority, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+  flags.sort((a, b) => order[a.priority] - order[b.priority]);
+
+  return {
+    flags,
+    unrecognized: meds
+      .filter((m) => m.ingredients.length === 0)
+      .map((m) => m.name),
+  };
+}
@@ -0,0 +1,311 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import { BEERS_MIN_AGE, checkMedications } from "./checker.ts";
+import type {
+  CheckedMed,
+  CheckRequest,
+  CheckResponse,
+  MedFlag,
+} from "./types.ts";
+
+/**
+ * Check Med Interactions
+ *
+ * Cross-checks a patient's active binder MED items, plus the pending
+ * proposals of a label scan when `session_id` is given, against an offline
+ * dataset: same-ingredient duplicates, duplicate therapy within a class,
+ * major interactions, and Beers cautions for patients 65 and older (or of
+ * unknown age).
+ *
+ * Flags on the current MED list are saved as suggested visit_questions so
+ * families can bring them to the next appointment. Flags that involve a
+ * proposal are only returned, for the review screen, until it is accepted.
+ */
+
+interface MedRow {
+  id: string;
+  title: string;
+  content_json: { name?: string; dose?: string } | null;
+}
+
+interface ProposalRow {
+  id: string;
+  existing_med_id: string | null;
+  proposed_json: { name?: string; dose?: string } | null;
+}
+
+function ageInYears(dob: string, now = new Date()): number {
+  const birth = new Date(dob);
+  let age = now.getUTCFullYear() - birth.getUTCFullYear();
+  const beforeBirthday =
+    now.getUTCMonth() < birth.getUTCMonth() ||
+    (now.getUTCMonth() === birth.getUTCMonth() &&
+      now.getUTCDate() < birth.getUTCDate());
+  if (beforeBirthday) age--;
+  return age;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: CheckRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    const { circle_id, patient_id, session_id } = body;
+    if (
+      !circle_id ||
+      !patient_id ||
+      !isValidUUID(circle_id) ||
+      !isValidUUID(patient_id)
+    ) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "circle_id and patient_id are required",
+        400,
+      );
+    }
+    if (session_id !== undefined && !isValidUUID(session_id)) {
+      return errorResponse("VALIDATION_ERROR", "Invalid session_id", 400);
+    }
+
+    // Suggestions are written as visit questions, so viewers cannot run checks
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .single();
+
+    if (!membership || membership.role === "VIEWER") {
+      return errorResponse(
+        "AUTH_ROLE_FORBIDDEN",
+        "Insufficient permissions",
+        403,
+      );
+    }
+
+    const { data: patient } = await supabaseService
+      .from("patients")
+      .select("id, dob")
+      .eq("id", patient_id)
+      .eq("circle_id", circle_id)
+      .single();
+
+    if (!patient) {
+      return errorResponse("NOT_FOUND", "Patient not found", 404);
+    }
+
+    const { data: medRows, error: medsError } = await supabaseService
+      .from("binder_items")
+      .select("id, title, content_json")
+      .eq("circle_id", circle_id)
+      .eq("patient_id", patient_id)
+      .eq("type", "MED")
+      .eq("is_active", true);
+
+    if (medsError) {
+      console.error("Failed to fetch medications:", medsError.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch medications",
+        500,
+      );
+    }
+
+    const binder: CheckedMed[] = ((medRows ?? []) as MedRow[]).map((row) => ({
+      source: "binder",
+      id: row.id,
+      name: row.content_json?.name || row.title,
+      dose: row.content_json?.dose,
+    }));
+    let current = binder;
+
+    // A proposal that updates an existing med stands in for it
+    let proposals: CheckedMed[] = [];
+    if (session_id) {
+      const { data: proposalRows, error: proposalsError } =
+        await supabaseService
+          .from("med_proposals")
+          .select("id, existing_med_id, proposed_json")
+          .eq("session_id", session_id)
+          .eq("circle_id", circle_id)
+          .eq("patient_id", patient_id)
+          .eq("status", "PROPOSED");
+
+      if (proposalsError) {
+        console.error("Failed to fetch proposals:", proposalsError.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to fetch proposals",
+          500,
+        );
+      }
+
+      const rows = ((proposalRows ?? []) as ProposalRow[]).filter(
+        (row) => row.proposed_json?.name,
+      );
+      proposals = rows.map((row) => ({
+        source: "proposal",
+        id: row.id,
+        name: row.proposed_json!.name!,
+        dose: row.proposed_json!.dose,
+      }));
+      const replaced = new Set(rows.map((row) => row.existing_med_id));
+      current = binder.filter((med) => !replaced.has(med.id));
+    }
+
+    // Beers criteria apply from 65; unknown age is treated as older adult,
+    // since most patients in care circles are
+    const elderly = !patient.dob || ageInYears(patient.dob) >= BEERS_MIN_AGE;
+
+    const { flags, unrecognized } = checkMedications(
+      [...current, ...proposals],
+      { elderly },
+    );
+
+    // Only the confirmed MED list becomes visit questions; these flags are
+    // recomputed in full on every run
+    const binderFlags = session_id
+      ? checkMedications(binder, { elderly }).flags
+      : flags;
+
+    const suggestionsCreated = await saveSuggestions(
+      supabaseService,
+      circle_id,
+      patient_id,
+      user.id,
+      binderFlags,
+    );
+    if (suggestionsCreated === null) {
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to save visit questions",
+        500,
+      );
+    }
+
+    const response: CheckResponse = {
+      success: true,
+      flags,
+      suggestions_created: suggestionsCreated,
+      checked: { binder: current.length, proposals: proposals.length },
+      unrecognized,
+    };
+
+    return jsonResponse(response);
+  } catch (error) {
+    console.error(
+      "Error checking medications:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Upsert flags as suggested visit questions. Keys already present (including
+ * suggestions the family accepted or dismissed) are left alone; suggestions
+ * that no longer apply and were never acted on are removed. Returns the
+ * number of new suggestions, or null on a database error.
+ */
+async function saveSuggestions(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+  userId: string,
+  flags: MedFlag[],
+): Promise<number | null> {
+  const keys = flags.map((f) => f.key);
+
+  let stale = supabase
+    .from("visit_questions")
+    .delete()
+    .eq("patient_id", patientId)
+    .eq("source", "MED_CHECK")
+    .eq("status", "SUGGESTED");
+  if (keys.length > 0) {
+    stale = stale.not(
+      "suggestion_key",
+      "in",
+      `(${keys.map((k) => `"${k}"`).join(",")})`,
+    );
+  }
+  const { error: staleError } = await stale;
+  if (staleError) {
+    console.error("Failed to clear stale suggestions:", staleError.code);
+    return null;
+  }
+
+  if (flags.length === 0) return 0;
+
+  const { data: inserted, error } = await supabase
+    .from("visit_questions")
+    .upsert(
+      flags.map((f) => ({
+        circle_id: circleId,
+        patient_id: patientId,
+        created_by: userId,
+        question: f.question,
+        priority: f.priority,
+        source: "MED_CHECK",
+        status: "SUGGESTED",
+        suggestion_key: f.key,
+        details_json: {
+          kind: f.kind,
+          terms: f.terms,
+          summary: f.summary,
+          meds: f.meds,
+        },
+      })),
+      { onConflict: "patient_id,suggestion_key", ignoreDuplicates: true },
+    )
+    .select("id");
+
+  if (error) {
+    console.error("Failed to save suggestions:", error.code);
+    return null;
+  }
+  return (inserted ?? []).length;
+}
@@ -0,0 +1,53 @@
+/**
+ * Type definitions for medication cross-checks
+ */
+
+export interface CheckRequest {
+  circle_id: string;
+  patient_id: string;
+  /** Also check this scan's pending proposals against the MED list */
+  session_id?: string;
+}
+
+export type MedSource = "binder" | "proposal";
+
+/** A medication as the checker sees it */
+export interface CheckedMed {
+  source: MedSource;
+  /** binder_items.id or med_proposals.id */
+  id: string;
+  name: string;
+  dose?: string;
+}
+
+export type FlagKind =
+  "DUPLICATE_INGREDIENT" | "DUPLICATE_CLASS" | "INTERACTION" | "BEERS";
+
+export type FlagPriority = "HIGH" | "MEDIUM" | "LOW";
+
+export interface MedFlag {
+  /** Stable across runs; stored as visit_questions.suggestion_key */
+  key: string;
+  kind: FlagKind;
+  priority: FlagPriority;
+  meds: CheckedMed[];
+  /** Shared ingredients, interacting ingredients/classes, or the Beers entry */
+  terms: string[];
+  summary: string;
+  /** Suggested question for the next clinician visit */
+  question: string;
+}
+
+export interface CheckResponse {
+  success: boolean;
+  flags?: MedFlag[];
+  /** Flags saved as visit question suggestions (current MED list only) */
+  suggestions_created?: number;
+  checked?: { binder: number; proposals: number };
+  /** Med names not in the offline dataset; these were not checked */
+  unrecognized?: string[];
+  error?: {
+    code: string;
+    message: string;
+  };
+}
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  isRecord,
+  LLMError,
+  type LLMMessage,
+} from "../_shared/llm/index.ts";
 
 // MARK: - CORS Headers
 
@@ -40,6 +46,38 @@ const DOCUMENT_TYPES = [
   "OTHER",
 ] as const;
 
+interface ClassificationResult {
+  documentType: string;
+  confidence: number;
+  reasoning?: string;
+  alternates?: Array<{ type: string; confidence: number }>;
+}
+
+function validateClassification(value: unknown): ClassificationResult | null {
+  if (
+    !isRecord(value) ||
+    typeof value.documentType !== "string" ||
+    typeof value.confidence !== "number"
+  ) {
+    return null;
+  }
+
+  return {
+    documentType: value.documentType,
+    confidence: Math.min(Math.max(value.confidence, 0), 1),
+    reasoning:
+      typeof value.reasoning === "string" ? value.reasoning : undefined,
+    alternates: Array.isArray(value.alternates)
+      ? value.alternates.filter(
+          (alt): alt is { type: string; confidence: number } =>
+            isRecord(alt) &&
+            typeof alt.type === "string" &&
+            typeof alt.confidence === "number",
+        )
+      : undefined,
+  };
+}
+
 // MARK: - Classification Prompt
 
 const CLASSIFICATION_PROMPT = `You are a document classification system for a family caregiving app called CuraKnot.
@@ -349,15 +387,20 @@ serve(async (req) => {
       }
     }
 
-    // Call OpenAI Vision API
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
+    // Call the vision-capable LLM provider
+    const llm = createLLMClient({
+      feature: "classify-document",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: scan.circle_id,
+    });
+    if (!llm.isConfigured()) {
       return new Response(
         JSON.stringify({
           success: false,
           error: {
             code: "CONFIGURATION_ERROR",
-            message: "OpenAI API key not configured",
+            message: "LLM provider not configured",
           },
         } as ClassifyResponse),
         {
@@ -367,8 +410,8 @@ serve(async (req) => {
       );
     }
 
-    // Build OpenAI request with images
-    const messages: Array<Record<string, unknown>> = [
+    // Build LLM request with images
+    const messages: LLMMessage[] = [
       {
         role: "system",
         content: CLASSIFICATION_PROMPT,
@@ -380,93 +423,81 @@ serve(async (req) => {
             ? [
                 { type: "text", text: "Classify this document:" },
                 ...imageUrls.map((url) => ({
-                  type: "image_url",
-                  image_url: { url, detail: "low" },
+                  type: "image_url" as const,
+                  image_url: { url, detail: "low" as const },
                 })),
               ]
             : `Classify this document based on the OCR text:\n\n${scan.ocr_text}`,
       },
     ];
 
-    const openaiResponse = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
-          messages,
-          max_tokens: 500,
-          temperature: 0.2,
-        }),
-      },
-    );
-
-    if (!openaiResponse.ok) {
-      // SECURITY: Log only safe metadata, not error content (may contain PHI)
-      console.error("OpenAI API classification failed:", {
-        status: openaiResponse.status,
-        scanId,
-      });
-
-      await supabaseService
-        .from("document_scans")
-        .update({
-          status: "FAILED",
-          error_message: "Classification service error",
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", scanId);
+    // Parse classification result
+    let classificationResult: ClassificationResult;
 
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: {
-            code: "PROCESSING_ERROR",
-            message: "Classification service unavailable",
-          },
-        } as ClassifyResponse),
+    try {
+      const result = await llm.completeJSON(
         {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          messages,
+          tier: "fast",
+          maxTokens: 500,
+          temperature: 0.2,
+          jsonMode: false,
         },
+        validateClassification,
       );
-    }
+      classificationResult = result.data;
+    } catch (llmError) {
+      const code = llmError instanceof LLMError ? llmError.code : "UNKNOWN";
+
+      if (code === "INVALID_OUTPUT") {
+        // SECURITY: Do not log the model output - may contain PHI from OCR
+        console.error("Failed to parse classification response:", {
+          scanId,
+          errorType: "JSON_PARSE_ERROR",
+        });
+
+        // Fallback to OTHER with low confidence
+        classificationResult = {
+          documentType: "OTHER",
+          confidence: 0.3,
+          reasoning: "Unable to determine document type",
+        };
+      } else {
+        // SECURITY: Log only safe metadata, not error content (may contain PHI)
+        console.error("LLM classification failed:", { code, scanId });
 
-    const openaiData = await openaiResponse.json();
-    const assistantMessage = openaiData.choices?.[0]?.message?.content || "";
-
-    // Parse classification result
-    let classificationResult: {
-      documentType: string;
-      confidence: number;
-      reasoning?: string;
-      alternates?: Array<{ type: string; confidence: number }>;
-    };
+        await supabaseService
+          .from("document_scans")
+          .update({
+            status: "FAILED",
+            error_message:
+              code === "CONSENT_REQUIRED"
+                ? "AI processing is turned off"
+                : "Classification service error",
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", scanId);
 
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      const jsonMatch = assistantMessage.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error("No JSON found in response");
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: {
+              code:
+                code === "CONSENT_REQUIRED"
+                  ? "CONSENT_REQUIRED"
+                  : "PROCESSING_ERROR",
+              message:
+                code === "CONSENT_REQUIRED"
+                  ? "AI processing is turned off for this account"
+                  : "Classification service unavailable",
+            },
+          } as ClassifyResponse),
+          {
+            status: code === "CONSENT_REQUIRED" ? 403 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
       }
-      classificationResult = JSON.parse(jsonMatch[0]);
-    } catch (_parseError) {
-      // SECURITY: Do not log assistantMessage - may contain PHI from OCR
-      console.error("Failed to parse classification response:", {
-        scanId,
-        errorType: "JSON_PARSE_ERROR",
-      });
-
-      // Fallback to OTHER with low confidence
-      classificationResult = {
-        documentType: "OTHER",
-        confidence: 0.3,
-        reasoning: "Unable to determine document type",
-      };
     }
 
     // Validate document type
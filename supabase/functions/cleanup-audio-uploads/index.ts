@@ -0,0 +1,115 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+
+/**
+ * Cleanup Audio Uploads (cron, hourly)
+ *
+ * Deletes chunked upload sessions from transcribe-handoff that will never
+ * be finalized: sessions still ACTIVE past expires_at, and sessions that
+ * were ABANDONED for a newer one. Their stored chunks are removed first;
+ * a session whose chunks could not be removed is kept for the next run.
+ * Completed and failed sessions keep their chunks, since the handoff's
+ * audio and a finalize retry read them.
+ */
+
+const BUCKET = "handoff-audio";
+const BATCH_SIZE = 50;
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date().toISOString();
+
+    const { data: sessions, error } = await supabase
+      .from("handoff_audio_uploads")
+      .select("id")
+      .or(`status.eq.ABANDONED,and(status.eq.ACTIVE,expires_at.lt.${now})`)
+      .order("updated_at")
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error("Failed to load upload sessions:", error.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to load upload sessions",
+        500,
+      );
+    }
+
+    let removed = 0;
+    let failed = 0;
+    for (const session of sessions ?? []) {
+      // Once abandoned, appends and finalize no longer accept the session
+      const { data: claimed } = await supabase
+        .from("handoff_audio_uploads")
+        .update({ status: "ABANDONED" })
+        .eq("id", session.id)
+        .in("status", ["ACTIVE", "ABANDONED"])
+        .select("id");
+      if (!claimed || claimed.length === 0) continue;
+
+      const { data: chunks, error: chunksError } = await supabase
+        .from("handoff_audio_upload_chunks")
+        .select("storage_key")
+        .eq("upload_id", session.id);
+      if (chunksError) {
+        failed++;
+        continue;
+      }
+
+      const keys = ((chunks ?? []) as { storage_key: string }[]).map(
+        (chunk) => chunk.storage_key,
+      );
+      if (keys.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(BUCKET)
+          .remove(keys);
+        if (storageError) {
+          console.warn("Failed to remove upload chunks");
+          failed++;
+          continue;
+        }
+      }
+
+      // Chunk rows are deleted with the session
+      const { error: deleteError } = await supabase
+        .from("handoff_audio_uploads")
+        .delete()
+        .eq("id", session.id)
+        .eq("status", "ABANDONED");
+      if (deleteError) {
+        failed++;
+        continue;
+      }
+      removed++;
+    }
+
+    console.log(`Audio upload cleanup: removed=${removed}, failed=${failed}`);
+
+    return jsonResponse({ success: true, removed, failed });
+  } catch (error) {
+    console.error(
+      "Error cleaning up audio uploads:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
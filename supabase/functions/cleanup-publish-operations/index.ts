@@ -0,0 +1,61 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+
+/**
+ * Cleanup Publish Operations (cron, nightly)
+ *
+ * Deletes handoff_publish_operations records older than the retry window
+ * with cleanup_publish_operations, so the idempotency records kept by
+ * publish-handoff do not grow without limit.
+ */
+
+/** Operation IDs only need to outlive client retry windows */
+const RETENTION_DAYS = 7;
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error } = await supabase.rpc("cleanup_publish_operations", {
+      p_days: RETENTION_DAYS,
+    });
+
+    if (error) {
+      console.error("Failed to clean up publish operations:", error.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to clean up publish operations",
+        500,
+      );
+    }
+
+    const removed = typeof data === "number" ? data : 0;
+    console.log(`Publish operations cleanup: removed=${removed}`);
+
+    return jsonResponse({ success: true, removed });
+  } catch (error) {
+    console.error(
+      "Error cleaning up publish operations:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
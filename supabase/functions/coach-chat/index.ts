@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  LLMError,
+  type LLMClient,
+  type LLMMessage,
+  type LLMRole,
+} from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -497,110 +504,64 @@ function extractFollowUps(response: string): string[] {
 // ============================================================================
 
 async function callLLM(
+  llm: LLMClient,
   systemPrompt: string,
   context: string,
   userMessage: string,
   conversationHistory: Array<{ role: string; content: string }>,
-): Promise<{ content: string; tokens_used: number; success: boolean }> {
-  const xaiKey = Deno.env.get("XAI_API_KEY");
-
-  if (!xaiKey) {
-    // Fallback response when no API key
+): Promise<{
+  content: string;
+  tokens_used: number;
+  model: string | null;
+  success: boolean;
+}> {
+  if (!llm.isConfigured()) {
+    // Fallback response when no provider is configured
     return {
       content: generateFallbackResponse(userMessage),
       tokens_used: 0,
+      model: null,
       success: false,
     };
   }
 
-  const messages = [
+  const messages: LLMMessage[] = [
     { role: "system", content: systemPrompt + "\n\n" + context },
-    ...conversationHistory.slice(-10), // Last 10 messages for context
+    ...conversationHistory.slice(-10).map((m) => ({
+      role: (m.role === "assistant" ? "assistant" : "user") as LLMRole,
+      content: m.content,
+    })), // Last 10 messages for context
     { role: "user", content: userMessage },
   ];
 
-  // Retry loop for transient failures
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), LLM_TIMEOUT_MS);
-
-      const response = await fetch("https://api.x.ai/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${xaiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "grok-4-1-fast-reasoning",
-          messages,
-          max_tokens: 1000,
-          temperature: 0.7,
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        // Don't retry on 4xx errors (client errors)
-        if (response.status >= 400 && response.status < 500) {
-          throw new Error(
-            `Grok API client error: ${response.status} - ${errorText}`,
-          );
-        }
-        // Retry on 5xx errors (server errors)
-        throw new Error(
-          `Grok API server error: ${response.status} - ${errorText}`,
-        );
-      }
-
-      const result = await response.json();
-      return {
-        content: result.choices[0].message.content,
-        tokens_used: result.usage?.total_tokens || 0,
-        success: true,
-      };
-    } catch (error) {
-      lastError = error as Error;
-
-      // Log the error but don't expose PHI
-      console.error(
-        `LLM call attempt ${attempt + 1}/${MAX_RETRIES + 1} failed:`,
-        error instanceof Error ? error.message : "Unknown error",
-      );
-
-      // Check if it's a timeout
-      if (error instanceof Error && error.name === "AbortError") {
-        console.error("LLM request timed out");
-      }
-
-      // Don't retry on abort or non-retryable errors
-      if (
-        error instanceof Error &&
-        (error.name === "AbortError" || error.message.includes("client error"))
-      ) {
-        break;
-      }
-
-      // Exponential backoff before retry
-      if (attempt < MAX_RETRIES) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, Math.pow(2, attempt) * 1000),
-        );
-      }
-    }
+  try {
+    const result = await llm.complete({
+      messages,
+      tier: "reasoning",
+      maxTokens: 1000,
+      temperature: 0.7,
+      timeoutMs: LLM_TIMEOUT_MS,
+      maxRetries: MAX_RETRIES,
+    });
+    return {
+      content: result.content,
+      tokens_used: result.usage.totalTokens,
+      model: result.model,
+      success: true,
+    };
+  } catch (error) {
+    // Log the error code but don't expose PHI
+    console.error(
+      "All LLM attempts failed, using fallback:",
+      error instanceof LLMError ? error.code : "Unknown error",
+    );
+    return {
+      content: generateFallbackResponse(userMessage),
+      tokens_used: 0,
+      model: null,
+      success: false,
+    };
   }
-
-  console.error("All LLM attempts failed, using fallback:", lastError?.message);
-  return {
-    content: generateFallbackResponse(userMessage),
-    tokens_used: 0,
-    success: false,
-  };
 }
 
 function generateFallbackResponse(message: string): string {
@@ -1044,11 +1005,20 @@ serve(async (req) => {
     }
 
     // Call LLM with sanitized message
+    const llm = createLLMClient({
+      feature: "coach-chat",
+      defaultProvider: "xai",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: circle_id,
+    });
     const {
       content: responseContent,
       tokens_used,
+      model: modelVersion,
       success: llmSuccess,
     } = await callLLM(
+      llm,
       SYSTEM_PROMPT,
       contextString,
       sanitizedMessage,
@@ -1087,7 +1057,7 @@ serve(async (req) => {
           },
           tokens_used,
           latency_ms: latencyMs,
-          model_version: "grok-4-1-fast-reasoning",
+          model_version: modelVersion,
         })
         .select("id")
         .single();
@@ -0,0 +1,406 @@
+/**
+ * Shift handover report
+ *
+ * Arranges compute_shift_changes output as an SBAR handover: the situation
+ * the incoming caregiver walks into, the background since the previous
+ * shift, an assessment of doses and tracked concerns, and recommendations
+ * for the shift ahead. Times are shown in the patient's timezone.
+ */
+
+import { isValidTimeZone, localDate, localTime } from "../_shared/timezone.ts";
+import { escapeHtml } from "../_shared/validation.ts";
+
+/** Dose scheduled or given since the previous shift, or due this shift */
+export interface DoseEvent {
+  id: string;
+  medication: string;
+  dose: string | null;
+  status: "SCHEDULED" | "GIVEN" | "SKIPPED" | "REFUSED" | "MISSED";
+  scheduled_for: string | null;
+  given_at: string | null;
+  recorded_by: string | null;
+  note: string | null;
+}
+
+export interface ShiftHandoff {
+  id: string;
+  type: string;
+  title: string;
+  summary: string | null;
+  created_at: string;
+  created_by: string;
+}
+
+/** Task updated since the previous shift, or open and due before it ends */
+export interface ChangedTask {
+  id: string;
+  title: string;
+  status: "OPEN" | "DONE" | "CANCELED";
+  priority: "LOW" | "MED" | "HIGH";
+  due_at: string | null;
+  owner: string;
+}
+
+export interface OpenTask {
+  id: string;
+  title: string;
+  priority: "LOW" | "MED" | "HIGH";
+  due_at: string | null;
+  owner: string;
+}
+
+export interface TrackedConcern {
+  id: string;
+  name: string;
+  category: string | null;
+  /** 1 much better to 5 much worse */
+  latest_rating: number | null;
+  latest_notes: string | null;
+  latest_at: string | null;
+}
+
+/** compute_shift_changes output */
+export interface ShiftChanges {
+  shift_id: string;
+  shift: {
+    circle_id: string;
+    patient_id: string;
+    owner_user_id: string;
+    owner: string | null;
+    start_at: string;
+    end_at: string;
+    status: string;
+    handover_report_generated_at: string | null;
+    handover_acknowledged_at: string | null;
+    handover_acknowledged_by: string | null;
+  };
+  patient: { display_name: string; timezone: string } | null;
+  since: string;
+  previous_shift_owner?: string | null;
+  previous_shift_notes?: string | null;
+  handoffs: ShiftHandoff[];
+  tasks: ChangedTask[];
+  med_changes: { name: string; updated_at: string }[];
+  dose_events: DoseEvent[];
+  open_tasks: OpenTask[];
+  concerns: TrackedConcern[];
+  counts: {
+    handoffs: number;
+    tasks: number;
+    med_changes: number;
+    dose_events: number;
+    missed_doses: number;
+    open_tasks: number;
+    concerns: number;
+  };
+}
+
+export type SbarSection =
+  "SITUATION" | "BACKGROUND" | "ASSESSMENT" | "RECOMMENDATIONS";
+
+export interface HandoverItem {
+  text: string;
+  detail?: string;
+  ref?: { type: "handoff" | "task" | "dose_event" | "concern"; id: string };
+}
+
+export interface HandoverReport {
+  shift_id: string;
+  patient: string | null;
+  timezone: string;
+  start_at: string;
+  end_at: string;
+  owner: string | null;
+  since: string;
+  previous_shift_owner: string | null;
+  generated_at: string;
+  sections: { key: SbarSection; title: string; items: HandoverItem[] }[];
+}
+
+const SECTION_TITLES: Record<SbarSection, string> = {
+  SITUATION: "Situation",
+  BACKGROUND: "Background",
+  ASSESSMENT: "Assessment",
+  RECOMMENDATIONS: "Recommendations",
+};
+
+const RATING_LABELS: Record<number, string> = {
+  1: "much better",
+  2: "better",
+  3: "about the same",
+  4: "worse",
+  5: "much worse",
+};
+
+const SUMMARY_MAX_LENGTH = 280;
+/** Concerns without a check-in this long before the shift ends get a prompt */
+const CHECK_IN_STALE_HOURS = 24;
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function truncate(text: string, max: number): string {
+  const trimmed = text.trim();
+  return trimmed.length <= max ? trimmed : `${trimmed.slice(0, max - 1)}…`;
+}
+
+/** "YYYY-MM-DD HH:MM" in the patient's timezone */
+function formatAt(iso: string, timeZone: string): string {
+  const instant = new Date(iso);
+  return `${localDate(instant, timeZone)} ${localTime(instant, timeZone)}`;
+}
+
+function doseLabel(event: DoseEvent): string {
+  return event.dose ? `${event.medication} ${event.dose}` : event.medication;
+}
+
+export function buildHandoverReport(
+  changes: ShiftChanges,
+  now: Date,
+): HandoverReport {
+  const timeZone =
+    changes.patient && isValidTimeZone(changes.patient.timezone)
+      ? changes.patient.timezone
+      : "UTC";
+  const at = (iso: string) => formatAt(iso, timeZone);
+
+  const start = Date.parse(changes.shift.start_at);
+  const end = Date.parse(changes.shift.end_at);
+
+  const missed = changes.dose_events.filter((e) => e.status === "MISSED");
+  const notGiven = changes.dose_events.filter(
+    (e) => e.status === "SKIPPED" || e.status === "REFUSED",
+  );
+  const given = changes.dose_events.filter((e) => e.status === "GIVEN");
+  const due = changes.dose_events.filter((e) => e.status === "SCHEDULED");
+
+  const overdueTasks = changes.open_tasks.filter(
+    (t) => t.due_at && Date.parse(t.due_at) < now.getTime(),
+  );
+  const shiftTasks = changes.open_tasks
+    .filter((t) => t.due_at && Date.parse(t.due_at) < end)
+    .sort(
+      (a, b) =>
+        Number(b.priority === "HIGH") - Number(a.priority === "HIGH") ||
+        Date.parse(a.due_at!) - Date.parse(b.due_at!),
+    );
+  const laterTasks = changes.open_tasks.length - shiftTasks.length;
+  const worse = changes.concerns.filter((c) => (c.latest_rating ?? 0) >= 4);
+
+  // Situation: what needs attention as the shift starts
+  const situation: HandoverItem[] = [];
+  if (missed.length > 0) {
+    situation.push({
+      text: `${plural(missed.length, "dose", "doses")} missed since the last shift`,
+    });
+  }
+  if (overdueTasks.length > 0) {
+    situation.push({
+      text: `${plural(overdueTasks.length, "task is", "tasks are")} overdue`,
+    });
+  }
+  if (worse.length > 0) {
+    situation.push({
+      text: `${plural(worse.length, "concern was", "concerns were")} rated worse at the last check-in`,
+    });
+  }
+  if (due.length > 0) {
+    situation.push({
+      text: `${plural(due.length, "dose is", "doses are")} due this shift`,
+    });
+  }
+  if (situation.length === 0) {
+    situation.push({ text: "Nothing needs immediate attention" });
+  }
+
+  // Background: what happened since the previous shift
+  const background: HandoverItem[] = [];
+  if (changes.previous_shift_notes?.trim()) {
+    background.push({
+      text: `Notes from ${changes.previous_shift_owner ?? "the previous shift"}`,
+      detail: truncate(changes.previous_shift_notes, SUMMARY_MAX_LENGTH),
+    });
+  }
+  for (const handoff of changes.handoffs) {
+    background.push({
+      text: `${handoff.title} (${handoff.created_by}, ${at(handoff.created_at)})`,
+      detail: handoff.summary
+        ? truncate(handoff.summary, SUMMARY_MAX_LENGTH)
+        : undefined,
+      ref: { type: "handoff", id: handoff.id },
+    });
+  }
+  for (const med of changes.med_changes) {
+    background.push({
+      text: `Medication updated: ${med.name} (${at(med.updated_at)})`,
+    });
+  }
+  for (const event of given) {
+    background.push({
+      text: `Given: ${doseLabel(event)} at ${at(event.given_at ?? event.scheduled_for!)}${event.recorded_by ? ` by ${event.recorded_by}` : ""}`,
+      ref: { type: "dose_event", id: event.id },
+    });
+  }
+  if (background.length === 0) {
+    background.push({
+      text: "No handoffs or recorded doses since the last shift",
+    });
+  }
+
+  // Assessment: doses not taken and how tracked concerns are going
+  const assessment: HandoverItem[] = [];
+  for (const event of [...missed, ...notGiven]) {
+    const status =
+      event.status === "MISSED"
+        ? "Missed"
+        : event.status === "REFUSED"
+          ? "Refused"
+          : "Skipped";
+    assessment.push({
+      text: `${status}: ${doseLabel(event)}${event.scheduled_for ? `, scheduled ${at(event.scheduled_for)}` : ""}`,
+      detail: event.note ?? undefined,
+      ref: { type: "dose_event", id: event.id },
+    });
+  }
+  for (const concern of changes.concerns) {
+    assessment.push({
+      text:
+        concern.latest_rating && concern.latest_at
+          ? `${concern.name}: ${RATING_LABELS[concern.latest_rating] ?? "rated"} at the last check-in (${at(concern.latest_at)})`
+          : `${concern.name}: no check-ins yet`,
+      detail: concern.latest_notes ?? undefined,
+      ref: { type: "concern", id: concern.id },
+    });
+  }
+  if (assessment.length === 0) {
+    assessment.push({ text: "No missed doses or tracked concerns" });
+  }
+
+  // Recommendations: what to do this shift
+  const recommendations: HandoverItem[] = [];
+  for (const event of due) {
+    const scheduled = Date.parse(event.scheduled_for!);
+    recommendations.push({
+      text:
+        scheduled < start
+          ? `Give ${doseLabel(event)} now (was due ${at(event.scheduled_for!)})`
+          : `Give ${doseLabel(event)} at ${at(event.scheduled_for!)}`,
+      ref: { type: "dose_event", id: event.id },
+    });
+  }
+  for (const task of shiftTasks) {
+    const overdue = Date.parse(task.due_at!) < now.getTime();
+    recommendations.push({
+      text: `${task.priority === "HIGH" ? "[High] " : ""}${task.title}, ${overdue ? "overdue since" : "due"} ${at(task.due_at!)} (${task.owner})`,
+      ref: { type: "task", id: task.id },
+    });
+  }
+  if (laterTasks > 0) {
+    recommendations.push({
+      text: `${plural(laterTasks, "other open task", "other open tasks")} due later or undated`,
+    });
+  }
+  const staleBefore = end - CHECK_IN_STALE_HOURS * 3600000;
+  for (const concern of changes.concerns) {
+    if (!concern.latest_at || Date.parse(concern.latest_at) < staleBefore) {
+      recommendations.push({
+        text: `Record a check-in for ${concern.name}`,
+        ref: { type: "concern", id: concern.id },
+      });
+    }
+  }
+  if (recommendations.length === 0) {
+    recommendations.push({ text: "No doses or tasks due this shift" });
+  }
+
+  const sections: HandoverReport["sections"] = (
+    [
+      ["SITUATION", situation],
+      ["BACKGROUND", background],
+      ["ASSESSMENT", assessment],
+      ["RECOMMENDATIONS", recommendations],
+    ] as [SbarSection, HandoverItem[]][]
+  ).map(([key, items]) => ({ key, title: SECTION_TITLES[key], items }));
+
+  return {
+    shift_id: changes.shift_id,
+    patient: changes.patient?.display_name ?? null,
+    timezone: timeZone,
+    start_at: changes.shift.start_at,
+    end_at: changes.shift.end_at,
+    owner: changes.shift.owner,
+    since: changes.since,
+    previous_shift_owner: changes.previous_shift_owner ?? null,
+    generated_at: now.toISOString(),
+    sections,
+  };
+}
+
+function headerLines(report: HandoverReport): string[] {
+  const at = (iso: string) => formatAt(iso, report.timezone);
+  return [
+    `Shift: ${at(report.start_at)} to ${at(report.end_at)} (${report.timezone})`,
+    `Incoming: ${report.owner ?? "Unassigned"}`,
+    `Previous shift: ${report.previous_shift_owner ?? "None recorded"}, changes since ${at(report.since)}`,
+  ];
+}
+
+export function renderHandoverText(report: HandoverReport): string {
+  const lines = [
+    `Shift Handover${report.patient ? `: ${report.patient}` : ""}`,
+    ...headerLines(report),
+  ];
+  for (const section of report.sections) {
+    lines.push("", section.title.toUpperCase());
+    for (const item of section.items) {
+      lines.push(`- ${item.text}`);
+      if (item.detail) lines.push(`  ${item.detail.replace(/\n+/g, " ")}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Print-ready HTML, saved for the report's print link */
+export function renderHandoverHtml(report: HandoverReport): string {
+  const title = `Shift Handover${report.patient ? `: ${report.patient}` : ""}`;
+  const sections = report.sections
+    .map(
+      (section) => `
+  <h2>${escapeHtml(section.title)}</h2>
+  <ul>
+${section.items
+  .map(
+    (item) =>
+      `    <li>${escapeHtml(item.text)}${item.detail ? `<div class="detail">${escapeHtml(item.detail)}</div>` : ""}</li>`,
+  )
+  .join("\n")}
+  </ul>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; margin: 32px; color: #222; }
+    h1 { font-size: 22px; margin-bottom: 4px; }
+    .meta { color: #555; font-size: 13px; margin: 2px 0; }
+    h2 { font-size: 16px; border-bottom: 1px solid #ccc; padding-bottom: 4px; margin-top: 24px; }
+    li { margin: 6px 0; }
+    .detail { color: #555; font-size: 13px; white-space: pre-wrap; }
+    @media print { body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+${headerLines(report)
+  .map((line) => `  <p class="meta">${escapeHtml(line)}</p>`)
+  .join("\n")}
+${sections}
+</body>
+</html>
+`;
+}
@@ -1,5 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  buildHandoverReport,
+  type HandoverReport,
+  renderHandoverHtml,
+  renderHandoverText,
+  type ShiftChanges,
+} from "./handover.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,30 +14,34 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+type ReportFormat = "json" | "text" | "html";
+
 interface ShiftChangesRequest {
   shift_id: string;
+  /** text adds the report as plain text, html a link to a printable copy */
+  format?: ReportFormat;
 }
 
 interface ShiftChangesResponse {
   success: boolean;
-  changes?: {
-    since: string;
-    previous_shift_owner?: string;
-    handoffs: any[];
-    tasks: any[];
-    med_changes: any[];
-    counts: {
-      handoffs: number;
-      tasks: number;
-      med_changes: number;
-    };
+  changes?: ShiftChanges;
+  /** SBAR handover report built from the changes */
+  report?: HandoverReport;
+  handover?: {
+    report_generated_at: string | null;
+    acknowledged_at: string | null;
+    acknowledged_by: string | null;
   };
+  text?: string;
+  print_url?: string;
   error?: {
     code: string;
     message: string;
   };
 }
 
+const REPORT_FORMATS: ReportFormat[] = ["json", "text", "html"];
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -39,18 +50,10 @@ serve(async (req) => {
   try {
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: {
-            code: "AUTH_INVALID_TOKEN",
-            message: "No authorization header",
-          },
-        }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
       );
     }
 
@@ -68,34 +71,25 @@ serve(async (req) => {
       error: userError,
     } = await supabaseUser.auth.getUser();
     if (userError || !user) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: {
-            code: "AUTH_INVALID_TOKEN",
-            message: "Invalid or expired token",
-          },
-        }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "Invalid or expired token",
+        401,
       );
     }
 
     const body: ShiftChangesRequest = await req.json();
     const { shift_id } = body;
+    const format = body.format ?? "json";
 
     if (!shift_id) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: { code: "VALIDATION_ERROR", message: "shift_id is required" },
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
+      return errorResponse("VALIDATION_ERROR", "shift_id is required", 400);
+    }
+    if (!REPORT_FORMATS.includes(format)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        `format must be one of ${REPORT_FORMATS.join(", ")}`,
+        400,
       );
     }
 
@@ -107,54 +101,99 @@ serve(async (req) => {
 
     if (error) {
       console.error("Database error:", error.code || "unknown");
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: {
-            code: "DATABASE_ERROR",
-            message: "Failed to compute shift changes",
-          },
-        }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to compute shift changes",
+        500,
       );
     }
 
     if (data.error) {
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: { code: "SHIFT_ERROR", message: data.error },
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        },
-      );
+      return errorResponse("SHIFT_ERROR", data.error, 400);
+    }
+
+    const changes = data as ShiftChanges;
+    const report = buildHandoverReport(changes, new Date());
+    const { shift } = changes;
+    let reportGeneratedAt = shift.handover_report_generated_at;
+
+    // Keep the latest report for the owner to acknowledge; once they have,
+    // the acknowledged report stays as it was
+    if (
+      !shift.handover_acknowledged_at &&
+      (shift.status === "SCHEDULED" || shift.status === "ACTIVE")
+    ) {
+      const { data: stored, error: storeError } = await supabaseService
+        .from("care_shifts")
+        .update({
+          handover_report_json: report,
+          handover_report_generated_at: report.generated_at,
+        })
+        .eq("id", shift_id)
+        .is("handover_acknowledged_at", null)
+        .select("handover_report_generated_at");
+      if (storeError) {
+        console.error("Failed to store handover report:", storeError.code);
+      } else if (stored && stored.length > 0) {
+        reportGeneratedAt = stored[0].handover_report_generated_at;
+      }
     }
 
     const response: ShiftChangesResponse = {
       success: true,
-      changes: data,
+      changes,
+      report,
+      handover: {
+        report_generated_at: reportGeneratedAt,
+        acknowledged_at: shift.handover_acknowledged_at,
+        acknowledged_by: shift.handover_acknowledged_by,
+      },
     };
 
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    if (format === "text") {
+      response.text = renderHandoverText(report);
+    } else if (format === "html") {
+      const timestamp = report.generated_at.replace(/[:.]/g, "-");
+      const storageKey = `${shift.circle_id}/shifts/${shift_id}/handover-${timestamp}.html`;
+      const { error: uploadError } = await supabaseService.storage
+        .from("exports")
+        .upload(storageKey, renderHandoverHtml(report), {
+          contentType: "text/html",
+          upsert: true,
+        });
+      if (uploadError) {
+        console.error("Failed to upload handover report:", uploadError.name);
+        return errorResponse(
+          "STORAGE_ERROR",
+          "Failed to save handover report",
+          500,
+        );
+      }
+
+      const { data: signedUrl } = await supabaseService.storage
+        .from("exports")
+        .createSignedUrl(storageKey, 3600);
+      response.print_url = signedUrl?.signedUrl;
+    }
+
+    return jsonResponse(response);
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: { code: "INTERNAL_ERROR", message: "Internal server error" },
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      },
-    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
   }
 });
+
+function jsonResponse(data: ShiftChangesResponse, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function errorResponse(
+  code: string,
+  message: string,
+  status: number,
+): Response {
+  return jsonResponse({ success: false, error: { code, message } }, status);
+}
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { createLLMClient, isRecord, LLMError } from "../_shared/llm/index.ts";
 
 // ============================================================================
 // Types
@@ -107,9 +108,13 @@ serve(async (req: Request): Promise<Response> => {
       );
     }
 
-    // 4. Detect language via OpenAI
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
+    // 4. Detect language via the shared LLM provider
+    const llm = createLLMClient({
+      feature: "detect-language",
+      supabase: supabaseService,
+      userId: user.id,
+    });
+    if (!llm.isConfigured()) {
       return errorResponse(
         "CONFIG_ERROR",
         "Language detection service not configured",
@@ -130,89 +135,61 @@ Supported language codes: en (English), es (Spanish), zh-Hans (Chinese Simplifie
 If the text contains mixed languages, report the dominant language as primary with lower confidence, and include other detected languages as alternatives.
 If the text is too short or ambiguous, use your best judgment and lower the confidence score accordingly.`;
 
-    // Create timeout AFTER heuristic check to prevent leak on early return
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 15000);
-
+    let parsed: LLMDetection;
     try {
       // Limit input to 1000 chars for detection (more than enough)
       const truncatedText = text.substring(0, 1000);
 
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
+      const result = await llm.completeJSON(
         {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openaiApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              { role: "system", content: systemPrompt },
-              { role: "user", content: truncatedText },
-            ],
-            temperature: 0.1,
-            max_tokens: 200,
-          }),
-          signal: controller.signal,
+          messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: truncatedText },
+          ],
+          tier: "fast",
+          temperature: 0.1,
+          maxTokens: 200,
+          timeoutMs: 15000,
+          jsonMode: false,
         },
+        validateDetection,
+      );
+      parsed = result.data;
+    } catch (llmError) {
+      console.error(
+        "Language detection LLM error:",
+        llmError instanceof LLMError ? llmError.code : "Unknown error",
+      );
+      // Fallback to heuristic
+      const fallback = heuristicDetect(text);
+      if (fallback) return jsonResponse(fallback);
+      return errorResponse(
+        "DETECTION_FAILED",
+        "Language detection service error",
+        502,
       );
+    }
 
-      if (!response.ok) {
-        const errStatus = response.status;
-        console.error(`OpenAI API error: status ${errStatus}`);
-        // Fallback to heuristic
-        const fallback = heuristicDetect(text);
-        if (fallback) return jsonResponse(fallback);
-        return errorResponse(
-          "DETECTION_FAILED",
-          "Language detection service error",
-          502,
-        );
-      }
+    // Map to supported languages
+    const primaryCode = mapToSupportedLanguage(parsed.primary.code);
+    const alternatives = parsed.alternatives
+      .map((alt) => ({
+        language: mapToSupportedLanguage(alt.code),
+        confidence: alt.confidence,
+      }))
+      .filter(
+        (alt) =>
+          alt.language !== primaryCode &&
+          SUPPORTED_LANGUAGES.includes(alt.language),
+      );
 
-      const result = await response.json();
-      const content = result.choices[0].message.content.trim();
-
-      // Parse the JSON response
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch {
-        console.error("Failed to parse LLM response for language detection");
-        const fallback = heuristicDetect(text);
-        if (fallback) return jsonResponse(fallback);
-        return errorResponse(
-          "DETECTION_FAILED",
-          "Language detection failed",
-          500,
-        );
-      }
+    const responseData: DetectLanguageResponse = {
+      detectedLanguage: primaryCode,
+      confidence: parsed.primary.confidence,
+      alternatives,
+    };
 
-      // Map to supported languages
-      const primaryCode = mapToSupportedLanguage(parsed.primary.code);
-      const alternatives = (parsed.alternatives || [])
-        .map((alt: { code: string; confidence: number }) => ({
-          language: mapToSupportedLanguage(alt.code),
-          confidence: alt.confidence,
-        }))
-        .filter(
-          (alt: { language: string; confidence: number }) =>
-            alt.language !== primaryCode &&
-            SUPPORTED_LANGUAGES.includes(alt.language),
-        );
-
-      const responseData: DetectLanguageResponse = {
-        detectedLanguage: primaryCode,
-        confidence: parsed.primary.confidence,
-        alternatives,
-      };
-
-      return jsonResponse(responseData);
-    } finally {
-      clearTimeout(timeout);
-    }
+    return jsonResponse(responseData);
   } catch (error) {
     console.error(
       "detect-language error:",
@@ -226,6 +203,35 @@ If the text is too short or ambiguous, use your best judgment and lower the conf
 // Helpers
 // ============================================================================
 
+interface LLMDetection {
+  primary: { code: string; confidence: number };
+  alternatives: { code: string; confidence: number }[];
+}
+
+function isLanguageScore(
+  value: unknown,
+): value is { code: string; confidence: number } {
+  return (
+    isRecord(value) &&
+    typeof value.code === "string" &&
+    typeof value.confidence === "number"
+  );
+}
+
+/**
+ * Validate the LLM detection payload shape
+ */
+function validateDetection(value: unknown): LLMDetection | null {
+  if (!isRecord(value) || !isLanguageScore(value.primary)) return null;
+
+  return {
+    primary: value.primary,
+    alternatives: Array.isArray(value.alternatives)
+      ? value.alternatives.filter(isLanguageScore)
+      : [],
+  };
+}
+
 /**
  * Map various ISO codes to our supported set
  */
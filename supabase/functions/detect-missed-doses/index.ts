@@ -0,0 +1,435 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import { isValidDate } from "../_shared/validation.ts";
+import {
+  isValidTimeZone,
+  localDate,
+  type MedSchedule,
+  normalizeSig,
+  scheduledDoses,
+} from "../_shared/meds/index.ts";
+
+/**
+ * Detect Missed Doses (cron, every 15 minutes)
+ *
+ * Keeps med_dose_events scheduled for the next GENERATE_HOURS from each
+ * active MED item's schedule (its normalized sig, or the free-text schedule
+ * run through the sig normalizer), dropping future events a schedule change
+ * or a stopped med no longer calls for. Scheduled doses still unrecorded
+ * MISSED_GRACE_MINUTES after their time are marked MISSED and an alert is
+ * queued in notification_outbox for the owner of the shift covering the
+ * dose, or for the circle's contributors when no shift does.
+ */
+
+const GENERATE_HOURS = 48;
+const MISSED_GRACE_MINUTES = 60;
+const PAGE_SIZE = 500;
+const DELETE_BATCH = 200;
+
+interface MedRow {
+  id: string;
+  circle_id: string;
+  patient_id: string;
+  title: string;
+  created_at: string;
+  content_json: {
+    dose?: string;
+    schedule?: string;
+    sig?: { schedule?: MedSchedule | null };
+    start_date?: string;
+    stop_date?: string;
+  } | null;
+  patients: { timezone: string; archived_at: string | null } | null;
+}
+
+interface DoseEventRow {
+  id: string;
+  binder_item_id: string;
+  scheduled_for: string;
+}
+
+interface MissedDoseRow {
+  id: string;
+  circle_id: string;
+  patient_id: string;
+  scheduled_for: string;
+  scheduled_local_time: string;
+  dose: string | null;
+  binder_items: { title: string; is_active: boolean } | null;
+}
+
+function medSchedule(med: MedRow): MedSchedule | null {
+  const content = med.content_json ?? {};
+  if (content.sig?.schedule) return content.sig.schedule;
+  return content.schedule ? normalizeSig(content.schedule).schedule : null;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const scheduled = await scheduleDoses(supabase, now);
+    if (!scheduled) {
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to schedule dose events",
+        500,
+      );
+    }
+
+    const missed = await flagMissedDoses(supabase, now);
+    if (!missed) {
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to flag missed doses",
+        500,
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      scheduled: scheduled.created,
+      removed: scheduled.removed,
+      missed: missed.missed,
+      notifications_queued: missed.notified,
+    });
+  } catch (error) {
+    console.error(
+      "Error detecting missed doses:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Upsert the doses each active MED calls for from now to the horizon, and
+ * delete SCHEDULED events in that range no schedule calls for any more.
+ * Returns null on a database error.
+ */
+async function scheduleDoses(
+  supabase: SupabaseClient,
+  now: Date,
+): Promise<{ created: number; removed: number } | null> {
+  const horizon = new Date(now.getTime() + GENERATE_HOURS * 60 * 60 * 1000);
+  const wanted = new Set<string>();
+  let created = 0;
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data: meds, error } = await supabase
+      .from("binder_items")
+      .select(
+        "id, circle_id, patient_id, title, created_at, content_json, patients(timezone, archived_at)",
+      )
+      .eq("type", "MED")
+      .eq("is_active", true)
+      .not("patient_id", "is", null)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to fetch medications:", error.code);
+      return null;
+    }
+
+    const rows = [];
+    for (const med of (meds ?? []) as MedRow[]) {
+      if (!med.patients || med.patients.archived_at) continue;
+      const schedule = medSchedule(med);
+      if (!schedule) continue;
+
+      const timeZone = isValidTimeZone(med.patients.timezone)
+        ? med.patients.timezone
+        : "UTC";
+      const content = med.content_json ?? {};
+      const startDate =
+        content.start_date && isValidDate(content.start_date)
+          ? content.start_date
+          : localDate(new Date(med.created_at), timeZone);
+      const endDate =
+        content.stop_date && isValidDate(content.stop_date)
+          ? content.stop_date
+          : undefined;
+
+      const doses = scheduledDoses(schedule, {
+        from: now,
+        to: horizon,
+        timeZone,
+        startDate,
+        endDate,
+      });
+      for (const dose of doses) {
+        wanted.add(`${med.id}|${dose.scheduled_for.getTime()}`);
+        rows.push({
+          circle_id: med.circle_id,
+          patient_id: med.patient_id,
+          binder_item_id: med.id,
+          scheduled_for: dose.scheduled_for.toISOString(),
+          scheduled_local_time: dose.local_time,
+          dose: content.dose ?? null,
+        });
+      }
+    }
+
+    if (rows.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from("med_dose_events")
+        .upsert(rows, {
+          onConflict: "binder_item_id,scheduled_for",
+          ignoreDuplicates: true,
+        })
+        .select("id");
+      if (insertError) {
+        console.error("Failed to create dose events:", insertError.code);
+        return null;
+      }
+      created += (inserted ?? []).length;
+    }
+
+    if (!meds || meds.length < PAGE_SIZE) break;
+  }
+
+  // Future events for stopped meds, or times a schedule edit removed
+  const { data: upcoming, error: upcomingError } = await supabase
+    .from("med_dose_events")
+    .select("id, binder_item_id, scheduled_for")
+    .eq("status", "SCHEDULED")
+    .gte("scheduled_for", now.toISOString());
+  if (upcomingError) {
+    console.error("Failed to fetch dose events:", upcomingError.code);
+    return null;
+  }
+
+  const stale = ((upcoming ?? []) as DoseEventRow[])
+    .filter(
+      (event) =>
+        !wanted.has(
+          `${event.binder_item_id}|${new Date(event.scheduled_for).getTime()}`,
+        ),
+    )
+    .map((event) => event.id);
+
+  for (let i = 0; i < stale.length; i += DELETE_BATCH) {
+    const { error: deleteError } = await supabase
+      .from("med_dose_events")
+      .delete()
+      .in("id", stale.slice(i, i + DELETE_BATCH))
+      .eq("status", "SCHEDULED");
+    if (deleteError) {
+      console.error("Failed to remove stale dose events:", deleteError.code);
+      return null;
+    }
+  }
+
+  return { created, removed: stale.length };
+}
+
+/**
+ * Mark overdue SCHEDULED doses MISSED and queue alerts. The status update
+ * only matches rows still SCHEDULED, so overlapping runs alert once.
+ * Returns null on a database error.
+ */
+async function flagMissedDoses(
+  supabase: SupabaseClient,
+  now: Date,
+): Promise<{ missed: number; notified: number } | null> {
+  const cutoff = new Date(now.getTime() - MISSED_GRACE_MINUTES * 60 * 1000);
+
+  const { data: overdue, error } = await supabase
+    .from("med_dose_events")
+    .select(
+      "id, circle_id, patient_id, scheduled_for, scheduled_local_time, dose, binder_items(title, is_active)",
+    )
+    .eq("status", "SCHEDULED")
+    .lt("scheduled_for", cutoff.toISOString());
+  if (error) {
+    console.error("Failed to fetch overdue doses:", error.code);
+    return null;
+  }
+
+  const rows = (overdue ?? []) as MissedDoseRow[];
+  const stopped = rows
+    .filter((row) => !row.binder_items?.is_active)
+    .map((row) => row.id);
+  if (stopped.length > 0) {
+    await supabase
+      .from("med_dose_events")
+      .delete()
+      .in("id", stopped)
+      .eq("status", "SCHEDULED");
+  }
+
+  const candidates = rows.filter((row) => row.binder_items?.is_active);
+  if (candidates.length === 0) return { missed: 0, notified: 0 };
+
+  const { data: flagged, error: updateError } = await supabase
+    .from("med_dose_events")
+    .update({ status: "MISSED" })
+    .in(
+      "id",
+      candidates.map((row) => row.id),
+    )
+    .eq("status", "SCHEDULED")
+    .select("id");
+  if (updateError) {
+    console.error("Failed to flag missed doses:", updateError.code);
+    return null;
+  }
+
+  const flaggedIds = new Set((flagged ?? []).map((r: { id: string }) => r.id));
+  const missed = candidates.filter((row) => flaggedIds.has(row.id));
+  if (missed.length === 0) return { missed: 0, notified: 0 };
+
+  const notifications = await buildNotifications(supabase, missed);
+  if (notifications === null) return null;
+
+  if (notifications.length > 0) {
+    const { error: insertError } = await supabase
+      .from("notification_outbox")
+      .insert(notifications);
+    if (insertError) {
+      console.error("Failed to queue missed dose alerts:", insertError.code);
+      return null;
+    }
+  }
+
+  return { missed: missed.length, notified: notifications.length };
+}
+
+/**
+ * One alert per recipient and patient, listing that patient's missed doses.
+ * A dose goes to the owner of a shift covering it, otherwise to every
+ * contributor, admin and owner in the circle.
+ */
+async function buildNotifications(
+  supabase: SupabaseClient,
+  missed: MissedDoseRow[],
+): Promise<
+  | {
+      user_id: string;
+      circle_id: string;
+      notification_type: string;
+      title: string;
+      body: string;
+      data_json: Record<string, unknown>;
+    }[]
+  | null
+> {
+  const patientIds = [...new Set(missed.map((d) => d.patient_id))];
+  const circleIds = [...new Set(missed.map((d) => d.circle_id))];
+  const earliest = missed.reduce(
+    (min, d) => (d.scheduled_for < min ? d.scheduled_for : min),
+    missed[0].scheduled_for,
+  );
+
+  const [patientsResult, shiftsResult, membersResult] = await Promise.all([
+    supabase.from("patients").select("id, display_name").in("id", patientIds),
+    supabase
+      .from("care_shifts")
+      .select("patient_id, owner_user_id, start_at, end_at")
+      .in("patient_id", patientIds)
+      .neq("status", "CANCELED")
+      .gt("end_at", earliest),
+    supabase
+      .from("circle_members")
+      .select("circle_id, user_id")
+      .in("circle_id", circleIds)
+      .eq("status", "ACTIVE")
+      .in("role", ["OWNER", "ADMIN", "CONTRIBUTOR"]),
+  ]);
+
+  const failed = [patientsResult, shiftsResult, membersResult].find(
+    (r) => r.error,
+  );
+  if (failed) {
+    console.error("Failed to resolve alert recipients:", failed.error!.code);
+    return null;
+  }
+
+  const patientNames = new Map<string, string>(
+    (patientsResult.data ?? []).map(
+      (p: { id: string; display_name: string }) => [p.id, p.display_name],
+    ),
+  );
+  const shifts = (shiftsResult.data ?? []) as {
+    patient_id: string;
+    owner_user_id: string;
+    start_at: string;
+    end_at: string;
+  }[];
+  const members = (membersResult.data ?? []) as {
+    circle_id: string;
+    user_id: string;
+  }[];
+
+  // recipient|patient -> doses
+  const grouped = new Map<string, MissedDoseRow[]>();
+  for (const dose of missed) {
+    const at = new Date(dose.scheduled_for).getTime();
+    const shift = shifts.find(
+      (s) =>
+        s.patient_id === dose.patient_id &&
+        new Date(s.start_at).getTime() <= at &&
+        at < new Date(s.end_at).getTime(),
+    );
+    const recipients = shift
+      ? [shift.owner_user_id]
+      : members
+          .filter((m) => m.circle_id === dose.circle_id)
+          .map((m) => m.user_id);
+
+    for (const userId of recipients) {
+      const key = `${userId}|${dose.patient_id}`;
+      grouped.set(key, [...(grouped.get(key) ?? []), dose]);
+    }
+  }
+
+  return [...grouped.entries()].map(([key, doses]) => {
+    const userId = key.split("|")[0];
+    const patientName = patientNames.get(doses[0].patient_id) ?? "Patient";
+    const list = doses
+      .map(
+        (d) =>
+          `${d.binder_items?.title ?? "Medication"}${d.dose ? ` ${d.dose}` : ""} (${d.scheduled_local_time})`,
+      )
+      .join(", ");
+
+    return {
+      user_id: userId,
+      circle_id: doses[0].circle_id,
+      notification_type: "MED_DOSE_MISSED",
+      title:
+        doses.length === 1
+          ? `Missed dose for ${patientName}`
+          : `${doses.length} missed doses for ${patientName}`,
+      body: `No dose recorded: ${list}`,
+      data_json: {
+        type: "med_dose_missed",
+        patient_id: doses[0].patient_id,
+        dose_event_ids: doses.map((d) => d.id),
+      },
+    };
+  });
+}
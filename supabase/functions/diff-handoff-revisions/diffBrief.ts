@@ -0,0 +1,289 @@
+/**
+ * Field-level diff between two StructuredBrief revisions
+ *
+ * Covers the fields family members compare when a note was edited: title,
+ * summary text, status keys, medication changes and next steps. List items
+ * are matched by identity (med name, action text) rather than position, so
+ * reordering a list is not reported as a change.
+ */
+
+export interface MedChange {
+  name: string;
+  change: string;
+  details?: string;
+  effective?: string;
+}
+
+export interface NextStep {
+  action: string;
+  suggested_owner?: string;
+  due?: string;
+  priority?: string;
+}
+
+export interface StructuredBrief {
+  title: string;
+  summary?: string;
+  status?: Record<string, unknown>;
+  changes?: {
+    med_changes?: MedChange[];
+  };
+  next_steps?: NextStep[];
+}
+
+export type ChangeKind = "ADDED" | "REMOVED" | "MODIFIED";
+
+export interface TextSegment {
+  op: "EQUAL" | "INSERT" | "DELETE";
+  text: string;
+}
+
+export interface TextDiff {
+  from: string;
+  to: string;
+  segments: TextSegment[];
+}
+
+export interface StatusKeyDiff {
+  key: string;
+  kind: ChangeKind;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ItemDiff<T> {
+  kind: ChangeKind;
+  from?: T;
+  to?: T;
+  /** Fields that differ, for MODIFIED items */
+  changed_fields?: string[];
+}
+
+export interface BriefDiff {
+  title?: { from: string; to: string };
+  summary?: TextDiff;
+  status: StatusKeyDiff[];
+  med_changes: ItemDiff<MedChange>[];
+  next_steps: ItemDiff<NextStep>[];
+}
+
+/** Minimum word overlap for two differently-worded items to pair up */
+const SIMILARITY_THRESHOLD = 0.5;
+
+// ============================================================================
+// Text diff
+// ============================================================================
+
+/**
+ * Word-level diff via longest common subsequence. Summaries are capped at
+ * 600 characters, so the quadratic table stays small.
+ */
+export function diffText(from: string, to: string): TextSegment[] {
+  const a = from.split(/(\s+)/).filter((t) => t.length > 0);
+  const b = to.split(/(\s+)/).filter((t) => t.length > 0);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (op: TextSegment["op"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += text;
+    } else {
+      segments.push({ op, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("EQUAL", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push("DELETE", a[i++]);
+    } else {
+      push("INSERT", b[j++]);
+    }
+  }
+  while (i < a.length) push("DELETE", a[i++]);
+  while (j < b.length) push("INSERT", b[j++]);
+
+  return segments;
+}
+
+// ============================================================================
+// Item matching
+// ============================================================================
+
+function normalizeKey(value: string | undefined): string {
+  return (value ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function words(value: string): Set<string> {
+  return new Set(normalizeKey(value).match(/[a-z0-9]+/g) ?? []);
+}
+
+function similarity(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  const shared = [...wa].filter((w) => wb.has(w)).length;
+  return shared / new Set([...wa, ...wb]).size;
+}
+
+function changedFields<T extends object>(from: T, to: T): string[] {
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  return [...keys].filter(
+    (key) =>
+      JSON.stringify((from as Record<string, unknown>)[key] ?? null) !==
+      JSON.stringify((to as Record<string, unknown>)[key] ?? null),
+  );
+}
+
+/**
+ * Pair items across revisions: first by exact key, then (optionally) by
+ * similarity among the leftovers. Unpaired items are ADDED or REMOVED.
+ */
+function diffItems<T extends object>(
+  fromItems: T[],
+  toItems: T[],
+  key: (item: T) => string,
+  similar?: (a: T, b: T) => number,
+): ItemDiff<T>[] {
+  const diffs: ItemDiff<T>[] = [];
+  const unmatchedTo = [...toItems];
+  const unmatchedFrom: T[] = [];
+
+  for (const item of fromItems) {
+    const index = unmatchedTo.findIndex((t) => key(t) === key(item));
+    if (index < 0) {
+      unmatchedFrom.push(item);
+      continue;
+    }
+    const [match] = unmatchedTo.splice(index, 1);
+    const fields = changedFields(item, match);
+    if (fields.length > 0) {
+      diffs.push({
+        kind: "MODIFIED",
+        from: item,
+        to: match,
+        changed_fields: fields,
+      });
+    }
+  }
+
+  for (const item of unmatchedFrom) {
+    let bestIndex = -1;
+    let bestScore = SIMILARITY_THRESHOLD;
+    if (similar) {
+      unmatchedTo.forEach((candidate, index) => {
+        const score = similar(item, candidate);
+        if (score >= bestScore) {
+          bestScore = score;
+          bestIndex = index;
+        }
+      });
+    }
+
+    if (bestIndex >= 0) {
+      const [match] = unmatchedTo.splice(bestIndex, 1);
+      diffs.push({
+        kind: "MODIFIED",
+        from: item,
+        to: match,
+        changed_fields: changedFields(item, match),
+      });
+    } else {
+      diffs.push({ kind: "REMOVED", from: item });
+    }
+  }
+
+  for (const item of unmatchedTo) {
+    diffs.push({ kind: "ADDED", to: item });
+  }
+
+  return diffs;
+}
+
+function diffStatus(
+  from: Record<string, unknown> = {},
+  to: Record<string, unknown> = {},
+): StatusKeyDiff[] {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+  const diffs: StatusKeyDiff[] = [];
+
+  for (const key of keys) {
+    const before = from[key] ?? undefined;
+    const after = to[key] ?? undefined;
+    if (JSON.stringify(before) === JSON.stringify(after)) continue;
+
+    if (before === undefined) {
+      diffs.push({ key, kind: "ADDED", to: after });
+    } else if (after === undefined) {
+      diffs.push({ key, kind: "REMOVED", from: before });
+    } else {
+      diffs.push({ key, kind: "MODIFIED", from: before, to: after });
+    }
+  }
+
+  return diffs;
+}
+
+// ============================================================================
+// Brief diff
+// ============================================================================
+
+export function diffBriefs(
+  from: StructuredBrief,
+  to: StructuredBrief,
+): BriefDiff {
+  const fromSummary = from.summary ?? "";
+  const toSummary = to.summary ?? "";
+
+  return {
+    title:
+      from.title !== to.title ? { from: from.title, to: to.title } : undefined,
+    summary:
+      fromSummary !== toSummary
+        ? {
+            from: fromSummary,
+            to: toSummary,
+            segments: diffText(fromSummary, toSummary),
+          }
+        : undefined,
+    status: diffStatus(from.status, to.status),
+    med_changes: diffItems(
+      from.changes?.med_changes ?? [],
+      to.changes?.med_changes ?? [],
+      (med) => normalizeKey(med.name),
+    ),
+    next_steps: diffItems(
+      from.next_steps ?? [],
+      to.next_steps ?? [],
+      (step) => normalizeKey(step.action),
+      (a, b) => similarity(a.action, b.action),
+    ),
+  };
+}
+
+export function hasChanges(diff: BriefDiff): boolean {
+  return (
+    !!diff.title ||
+    !!diff.summary ||
+    diff.status.length > 0 ||
+    diff.med_changes.length > 0 ||
+    diff.next_steps.length > 0
+  );
+}
@@ -0,0 +1,182 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import {
+  diffBriefs,
+  hasChanges,
+  type BriefDiff,
+  type StructuredBrief,
+} from "./diffBrief.ts";
+
+/**
+ * Diff Handoff Revisions
+ *
+ * Returns a field-level diff between two published revisions of a handoff
+ * (summary text, status keys, med changes, next steps). `to_revision`
+ * defaults to the handoff's current revision.
+ */
+
+interface DiffRequest {
+  handoff_id: string;
+  from_revision: number;
+  to_revision?: number;
+}
+
+interface RevisionInfo {
+  revision: number;
+  edited_by: string;
+  edited_at: string;
+  change_note: string | null;
+}
+
+interface RevisionRow extends RevisionInfo {
+  structured_json: StructuredBrief;
+}
+
+interface DiffResponse {
+  success: boolean;
+  handoff_id: string;
+  current_revision: number;
+  from: RevisionInfo;
+  to: RevisionInfo;
+  has_changes: boolean;
+  diff: BriefDiff;
+}
+
+function isRevisionNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: DiffRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    const { handoff_id, from_revision } = body;
+    if (!handoff_id || !isValidUUID(handoff_id)) {
+      return errorResponse("VALIDATION_ERROR", "Invalid handoff_id", 400);
+    }
+    if (!isRevisionNumber(from_revision)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "from_revision must be a positive integer",
+        400,
+      );
+    }
+    if (body.to_revision !== undefined && !isRevisionNumber(body.to_revision)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "to_revision must be a positive integer",
+        400,
+      );
+    }
+
+    const { data: handoff } = await supabaseService
+      .from("handoffs")
+      .select("id, circle_id, status, current_revision")
+      .eq("id", handoff_id)
+      .single();
+
+    if (!handoff || handoff.status !== "PUBLISHED") {
+      return errorResponse("NOT_FOUND", "Handoff not found", 404);
+    }
+
+    // Any active member can read the revision history
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", handoff.circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .single();
+
+    if (!membership) {
+      return errorResponse("AUTH_ROLE_FORBIDDEN", "Not a circle member", 403);
+    }
+
+    const toRevision = body.to_revision ?? handoff.current_revision;
+
+    const { data: revisions, error: revisionsError } = await supabaseService
+      .from("handoff_revisions")
+      .select("revision, structured_json, edited_by, edited_at, change_note")
+      .eq("handoff_id", handoff_id)
+      .in("revision", [from_revision, toRevision]);
+
+    if (revisionsError) {
+      console.error("Failed to fetch revisions:", revisionsError.code);
+      return errorResponse("DATABASE_ERROR", "Failed to fetch revisions", 500);
+    }
+
+    const rows = (revisions ?? []) as RevisionRow[];
+    const fromRow = rows.find((r) => r.revision === from_revision);
+    const toRow = rows.find((r) => r.revision === toRevision);
+    if (!fromRow || !toRow) {
+      return errorResponse("NOT_FOUND", "Revision not found", 404);
+    }
+
+    const diff = diffBriefs(fromRow.structured_json, toRow.structured_json);
+
+    const info = (row: RevisionRow): RevisionInfo => ({
+      revision: row.revision,
+      edited_by: row.edited_by,
+      edited_at: row.edited_at,
+      change_note: row.change_note,
+    });
+
+    const response: DiffResponse = {
+      success: true,
+      handoff_id,
+      current_revision: handoff.current_revision,
+      from: info(fromRow),
+      to: info(toRow),
+      has_changes: hasChanges(diff),
+      diff,
+    };
+
+    return jsonResponse(response);
+  } catch (error) {
+    console.error(
+      "Error diffing handoff revisions:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("SYNC_SERVER_ERROR", "Internal server error", 500);
+  }
+});
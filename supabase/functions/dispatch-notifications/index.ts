@@ -0,0 +1,560 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import {
+  buildDigestMessage,
+  captured,
+  type Channel,
+  type ChannelAdapter,
+  createChannelAdapters,
+  type DeliveryPlan,
+  type DeliveryResult,
+  type InsightSummary,
+  type NotificationPreferences,
+  type NotificationPreferencesRow,
+  planDelivery,
+  preferencesFromRow,
+  type PushTokenRow,
+  type Recipient,
+  resolveTransport,
+  skipped,
+} from "../_shared/notifications/index.ts";
+
+/**
+ * Dispatch Notifications (cron, every minute)
+ *
+ * Drains notification_outbox: claims due rows with claim_notifications
+ * (a lease, so overlapping runs never send the same row), delivers each on
+ * its channels through the channel adapters, and records every attempt in
+ * notification_deliveries. A channel already delivered is not sent again
+ * on retry. Retryable failures are retried with exponential backoff up to
+ * MAX_ATTEMPTS; after that, or when nothing could be delivered for a
+ * permanent reason, the row is dead-lettered as FAILED.
+ *
+ * The recipient's notification_preferences are applied when a row is
+ * claimed: a disabled category is SUPPRESSED, quiet hours defer the row to
+ * their end, and digest categories are HELD until the user's digest time.
+ * Each run first turns due held rows into one DAILY_DIGEST row per user
+ * and circle, which is then delivered like any other, except that quiet
+ * hours defer it as well.
+ */
+
+const BATCH_SIZE = 100;
+/** Batches per run, to stay within the function's time limit */
+const MAX_BATCHES = 5;
+const LEASE_SECONDS = 300;
+const MAX_ATTEMPTS = 6;
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 6 * 60 * 60;
+const DIGEST_USER_LIMIT = 100;
+/** How old a circle's insight digest may be to appear in a daily digest */
+const INSIGHT_MAX_AGE_DAYS = 8;
+
+interface OutboxRow {
+  id: string;
+  user_id: string;
+  circle_id: string;
+  notification_type: string;
+  title: string;
+  body: string;
+  data_json: Record<string, unknown> | null;
+  channels: Channel[];
+  attempts: number;
+}
+
+interface DeliveryRow {
+  notification_id: string;
+  user_id: string;
+  channel: Channel;
+  attempt: number;
+  status: DeliveryResult["status"];
+  provider_message_id: string | null;
+  error_code: string | null;
+}
+
+type Outcome =
+  "SENT" | "RETRY" | "FAILED" | Exclude<DeliveryPlan["kind"], "SEND">;
+
+/** Seconds until the next attempt, doubling per attempt with ±20% jitter */
+function backoffSeconds(attempts: number): number {
+  const base = Math.min(
+    BACKOFF_MAX_SECONDS,
+    BACKOFF_BASE_SECONDS * Math.pow(2, attempts - 1),
+  );
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport = resolveTransport();
+    const adapters = createChannelAdapters(transport);
+    const digests = await queueDigests(supabase);
+    const totals = {
+      digests,
+      claimed: 0,
+      sent: 0,
+      retrying: 0,
+      dead_lettered: 0,
+      deferred: 0,
+      held: 0,
+      suppressed: 0,
+    };
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data: claimed, error } = await supabase.rpc(
+        "claim_notifications",
+        { p_limit: BATCH_SIZE, p_lease_seconds: LEASE_SECONDS },
+      );
+      if (error) {
+        console.error("Failed to claim notifications:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to claim notifications",
+          500,
+        );
+      }
+
+      const rows = (claimed ?? []) as OutboxRow[];
+      if (rows.length === 0) break;
+      totals.claimed += rows.length;
+
+      const outcomes = await dispatchBatch(supabase, adapters, rows);
+      if (!outcomes) {
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to record deliveries",
+          500,
+        );
+      }
+      totals.sent += outcomes.SENT;
+      totals.retrying += outcomes.RETRY;
+      totals.dead_lettered += outcomes.FAILED;
+      totals.deferred += outcomes.DEFER;
+      totals.held += outcomes.HOLD;
+      totals.suppressed += outcomes.SUPPRESS;
+
+      if (rows.length < BATCH_SIZE) break;
+    }
+
+    return jsonResponse({
+      success: true,
+      transport,
+      ...totals,
+      ...(transport === "capture" ? { captured: captured.length } : {}),
+    });
+  } catch (error) {
+    console.error(
+      "Error dispatching notifications:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Delivers a claimed batch and settles each row. Rows left unsettled by a
+ * database error are picked up again when their lease expires. Returns
+ * null on a database error.
+ */
+async function dispatchBatch(
+  supabase: SupabaseClient,
+  adapters: Record<Channel, ChannelAdapter>,
+  rows: OutboxRow[],
+): Promise<Record<Outcome, number> | null> {
+  const userIds = [...new Set(rows.map((row) => row.user_id))];
+  const [recipients, preferences] = await Promise.all([
+    loadRecipients(supabase, userIds),
+    loadPreferences(supabase, userIds),
+  ]);
+  if (!recipients || !preferences) return null;
+
+  // Channels delivered on an earlier attempt
+  const { data: earlier, error } = await supabase
+    .from("notification_deliveries")
+    .select("notification_id, channel")
+    .in(
+      "notification_id",
+      rows.map((row) => row.id),
+    )
+    .eq("status", "SENT");
+  if (error) {
+    console.error("Failed to fetch earlier deliveries:", error.code);
+    return null;
+  }
+  const delivered = new Set(
+    (earlier ?? []).map(
+      (d: { notification_id: string; channel: string }) =>
+        `${d.notification_id}|${d.channel}`,
+    ),
+  );
+
+  const deliveries: DeliveryRow[] = [];
+  const invalidTokenIds: string[] = [];
+  const settlements: { id: string; update: Record<string, unknown> }[] = [];
+  const counts: Record<Outcome, number> = {
+    SENT: 0,
+    RETRY: 0,
+    FAILED: 0,
+    DEFER: 0,
+    HOLD: 0,
+    SUPPRESS: 0,
+  };
+  const now = new Date();
+
+  for (const row of rows) {
+    const plan = planDelivery(
+      row.notification_type,
+      row.channels,
+      preferences.get(row.user_id) ?? preferencesFromRow(null),
+      now,
+    );
+    if (plan.kind !== "SEND") {
+      settlements.push({ id: row.id, update: plannedUpdate(row, plan) });
+      counts[plan.kind]++;
+      continue;
+    }
+
+    const recipient = recipients.get(row.user_id) ?? {
+      userId: row.user_id,
+      email: null,
+      phone: null,
+      pushTokens: [],
+    };
+    const message = {
+      id: row.id,
+      type: row.notification_type,
+      title: row.title,
+      body: row.body,
+      data: row.data_json ?? {},
+    };
+
+    let anyDelivered = false;
+    const failures: DeliveryResult[] = [];
+    for (const channel of plan.channels) {
+      if (delivered.has(`${row.id}|${channel}`)) {
+        anyDelivered = true;
+        continue;
+      }
+
+      const adapter = adapters[channel];
+      const result = adapter?.isConfigured()
+        ? await adapter.send(message, recipient)
+        : skipped("NOT_CONFIGURED");
+
+      deliveries.push({
+        notification_id: row.id,
+        user_id: row.user_id,
+        channel,
+        attempt: row.attempts,
+        status: result.status,
+        provider_message_id: result.providerMessageId ?? null,
+        error_code: result.errorCode ?? null,
+      });
+      invalidTokenIds.push(...(result.invalidTokenIds ?? []));
+
+      if (result.status === "SENT") anyDelivered = true;
+      else failures.push(result);
+    }
+
+    const retryable = failures.some(
+      (f) => f.status === "FAILED" && f.retryable,
+    );
+    const outcome: Outcome =
+      retryable && row.attempts < MAX_ATTEMPTS
+        ? "RETRY"
+        : anyDelivered
+          ? "SENT"
+          : "FAILED";
+    const errorMessage =
+      failures.length > 0
+        ? [...new Set(failures.map((f) => f.errorCode))].join(",")
+        : null;
+
+    const update: Record<string, unknown> =
+      outcome === "RETRY"
+        ? {
+            status: "PENDING",
+            next_attempt_at: new Date(
+              now.getTime() + backoffSeconds(row.attempts) * 1000,
+            ).toISOString(),
+            locked_until: null,
+            error_message: errorMessage,
+          }
+        : {
+            status: outcome,
+            sent_at: outcome === "SENT" ? now.toISOString() : null,
+            locked_until: null,
+            error_message: errorMessage,
+          };
+
+    settlements.push({ id: row.id, update });
+    counts[outcome]++;
+  }
+
+  // Deliveries first: a retried row must see which channels already went out
+  if (deliveries.length > 0) {
+    const { error: insertError } = await supabase
+      .from("notification_deliveries")
+      .insert(deliveries);
+    if (insertError) {
+      console.error("Failed to record deliveries:", insertError.code);
+      return null;
+    }
+  }
+
+  for (const { id, update } of settlements) {
+    const { error: updateError } = await supabase
+      .from("notification_outbox")
+      .update(update)
+      .eq("id", id)
+      .eq("status", "SENDING");
+    if (updateError) {
+      console.error("Failed to settle notification:", updateError.code);
+      return null;
+    }
+  }
+
+  if (invalidTokenIds.length > 0) {
+    await supabase
+      .from("push_tokens")
+      .update({ disabled_at: new Date().toISOString() })
+      .in("id", invalidTokenIds);
+  }
+
+  return counts;
+}
+
+/**
+ * Settles a row that is not sent now. The claim counted an attempt, which
+ * is given back: only real deliveries count towards MAX_ATTEMPTS.
+ */
+function plannedUpdate(
+  row: OutboxRow,
+  plan: Exclude<DeliveryPlan, { kind: "SEND" }>,
+): Record<string, unknown> {
+  const common = { attempts: row.attempts - 1, locked_until: null };
+  switch (plan.kind) {
+    case "SUPPRESS":
+      return { ...common, status: "SUPPRESSED" };
+    case "DEFER":
+      return {
+        ...common,
+        status: "PENDING",
+        next_attempt_at: plan.until.toISOString(),
+      };
+    case "HOLD":
+      return {
+        ...common,
+        status: "HELD",
+        next_attempt_at: plan.until.toISOString(),
+        channels: plan.channels,
+      };
+  }
+}
+
+/** Returns null on a database error */
+async function loadPreferences(
+  supabase: SupabaseClient,
+  userIds: string[],
+): Promise<Map<string, NotificationPreferences> | null> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select(
+      "user_id, timezone, quiet_hours_start, quiet_hours_end, digest_time, categories_json",
+    )
+    .in("user_id", userIds);
+  if (error) {
+    console.error("Failed to load notification preferences:", error.code);
+    return null;
+  }
+
+  return new Map(
+    ((data ?? []) as NotificationPreferencesRow[]).map((row) => [
+      row.user_id,
+      preferencesFromRow(row),
+    ]),
+  );
+}
+
+/**
+ * Collects held rows whose digest time has passed and queues one
+ * DAILY_DIGEST row per user and circle, on the channels the held rows
+ * would have used. Returns the number of digests queued; on a database
+ * error the rows are put back on hold for the next run.
+ */
+async function queueDigests(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc("collect_due_digests", {
+    p_user_limit: DIGEST_USER_LIMIT,
+  });
+  if (error) {
+    console.error("Failed to collect digests:", error.code);
+    return 0;
+  }
+  const rows = (data ?? []) as OutboxRow[];
+  if (rows.length === 0) return 0;
+
+  const groups = new Map<string, OutboxRow[]>();
+  for (const row of rows) {
+    const key = `${row.user_id}|${row.circle_id}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  const insights = await loadInsightSummaries(supabase, [
+    ...new Set(rows.map((row) => row.circle_id)),
+  ]);
+
+  const digests = [...groups.values()].map((group) => {
+    const { user_id, circle_id } = group[0];
+    const message = buildDigestMessage(
+      group.map((row) => row.notification_type),
+      insights.get(circle_id) ?? null,
+    );
+    return {
+      user_id,
+      circle_id,
+      notification_type: "DAILY_DIGEST",
+      title: message.title,
+      body: message.body,
+      data_json: {
+        type: "daily_digest",
+        counts: message.counts,
+        notification_ids: group.map((row) => row.id),
+      },
+      channels: [...new Set(group.flatMap((row) => row.channels))],
+    };
+  });
+
+  const { data: queued, error: insertError } = await supabase
+    .from("notification_outbox")
+    .insert(digests)
+    .select("id, user_id, circle_id");
+  if (insertError || !queued) {
+    console.error("Failed to queue digests:", insertError?.code);
+    await supabase
+      .from("notification_outbox")
+      .update({ status: "HELD" })
+      .in(
+        "id",
+        rows.map((row) => row.id),
+      )
+      .eq("status", "DIGESTED");
+    return 0;
+  }
+
+  for (const digest of queued as {
+    id: string;
+    user_id: string;
+    circle_id: string;
+  }[]) {
+    const group = groups.get(`${digest.user_id}|${digest.circle_id}`) ?? [];
+    await supabase
+      .from("notification_outbox")
+      .update({ digest_notification_id: digest.id })
+      .in(
+        "id",
+        group.map((row) => row.id),
+      );
+  }
+  return queued.length;
+}
+
+/**
+ * Latest recent insight_digests summary per circle; empty on a database
+ * error, since the digest is still worth sending without it
+ */
+async function loadInsightSummaries(
+  supabase: SupabaseClient,
+  circleIds: string[],
+): Promise<Map<string, InsightSummary>> {
+  const since = new Date(Date.now() - INSIGHT_MAX_AGE_DAYS * 86400000)
+    .toISOString()
+    .slice(0, 10);
+  const { data, error } = await supabase
+    .from("insight_digests")
+    .select("circle_id, digest_json, period_end")
+    .in("circle_id", circleIds)
+    .is("patient_id", null)
+    .gte("period_end", since)
+    .order("period_end", { ascending: false });
+  if (error) {
+    console.error("Failed to load insight digests:", error.code);
+    return new Map();
+  }
+
+  const summaries = new Map<string, InsightSummary>();
+  for (const row of (data ?? []) as {
+    circle_id: string;
+    digest_json: { summary?: InsightSummary } | null;
+  }[]) {
+    if (!summaries.has(row.circle_id) && row.digest_json?.summary) {
+      summaries.set(row.circle_id, row.digest_json.summary);
+    }
+  }
+  return summaries;
+}
+
+/** Returns null on a database error */
+async function loadRecipients(
+  supabase: SupabaseClient,
+  userIds: string[],
+): Promise<Map<string, Recipient> | null> {
+  const [usersResult, tokensResult] = await Promise.all([
+    supabase.from("users").select("id, email, phone_e164").in("id", userIds),
+    supabase
+      .from("push_tokens")
+      .select("id, user_id, token, environment")
+      .in("user_id", userIds)
+      .is("disabled_at", null),
+  ]);
+
+  const failed = [usersResult, tokensResult].find((r) => r.error);
+  if (failed) {
+    console.error("Failed to load recipients:", failed.error!.code);
+    return null;
+  }
+
+  const recipients = new Map<string, Recipient>();
+  for (const user of (usersResult.data ?? []) as {
+    id: string;
+    email: string | null;
+    phone_e164: string | null;
+  }[]) {
+    recipients.set(user.id, {
+      userId: user.id,
+      email: user.email,
+      phone: user.phone_e164,
+      pushTokens: [],
+    });
+  }
+  for (const token of (tokensResult.data ?? []) as (PushTokenRow & {
+    user_id: string;
+  })[]) {
+    recipients.get(token.user_id)?.pushTokens.push({
+      id: token.id,
+      token: token.token,
+      environment: token.environment,
+    });
+  }
+  return recipients;
+}
@@ -0,0 +1,305 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+
+/**
+ * Escalate Handoff Acknowledgments (cron, every 5 minutes)
+ *
+ * Re-notifies members who have not acknowledged a critical handoff by
+ * next_escalation_at. The first escalation is a reminder by push and SMS;
+ * one window later the member gets a final reminder on every channel and
+ * the publisher and circle admins are told who is outstanding. Each step
+ * is claimed with a conditional update on escalation_level, so
+ * overlapping runs never send the same reminder twice. If the reminders
+ * cannot be queued the claims are released, so the next run retries them.
+ */
+
+const BATCH_SIZE = 200;
+const FINAL_LEVEL = 2;
+
+interface AckRequestRow {
+  id: string;
+  circle_id: string;
+  handoff_id: string;
+  user_id: string;
+  requested_by: string;
+  window_minutes: number;
+  escalation_level: number;
+  next_escalation_at: string;
+  handoffs: { title: string; status: string } | null;
+}
+
+interface NotificationRow {
+  user_id: string;
+  circle_id: string;
+  notification_type: string;
+  title: string;
+  body: string;
+  data_json: Record<string, unknown>;
+  channels: string[];
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const { data, error } = await supabase
+      .from("handoff_ack_requests")
+      .select(
+        "id, circle_id, handoff_id, user_id, requested_by, window_minutes, escalation_level, next_escalation_at, handoffs(title, status)",
+      )
+      .is("acknowledged_at", null)
+      .lte("next_escalation_at", now.toISOString())
+      .order("next_escalation_at")
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error("Failed to fetch acknowledgment requests:", error.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch acknowledgment requests",
+        500,
+      );
+    }
+
+    const due = (data ?? []) as unknown as AckRequestRow[];
+    if (due.length === 0) {
+      return jsonResponse({
+        success: true,
+        reminded: 0,
+        escalated: 0,
+        notifications_queued: 0,
+      });
+    }
+
+    const members = await loadActiveMembers(supabase, [
+      ...new Set(due.map((r) => r.circle_id)),
+    ]);
+    if (!members) {
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to load circle members",
+        500,
+      );
+    }
+
+    const claimed: AckRequestRow[] = [];
+    for (const request of due) {
+      // Left the circle, or the handoff is no longer published: stop
+      // escalating without notifying
+      const stillPending =
+        request.handoffs?.status === "PUBLISHED" &&
+        !!members.get(request.circle_id)?.has(request.user_id);
+      const level = request.escalation_level + 1;
+
+      const { data: updated, error: claimError } = await supabase
+        .from("handoff_ack_requests")
+        .update(
+          stillPending
+            ? {
+                escalation_level: level,
+                next_escalation_at:
+                  level < FINAL_LEVEL
+                    ? new Date(
+                        now.getTime() + request.window_minutes * 60000,
+                      ).toISOString()
+                    : null,
+              }
+            : { next_escalation_at: null },
+        )
+        .eq("id", request.id)
+        .eq("escalation_level", request.escalation_level)
+        .is("acknowledged_at", null)
+        .select("id");
+
+      if (claimError) {
+        console.error("Failed to claim escalation:", claimError.code);
+        continue;
+      }
+      if (stillPending && updated && updated.length > 0) {
+        claimed.push(request);
+      }
+    }
+
+    const notifications = buildNotifications(claimed, members);
+    if (notifications.length > 0) {
+      const { error: insertError } = await supabase
+        .from("notification_outbox")
+        .insert(notifications);
+      if (insertError) {
+        console.error(
+          "Failed to queue acknowledgment reminders:",
+          insertError.code,
+        );
+        await releaseClaims(supabase, claimed);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to queue acknowledgment reminders",
+          500,
+        );
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      reminded: claimed.filter((r) => r.escalation_level + 1 < FINAL_LEVEL)
+        .length,
+      escalated: claimed.filter((r) => r.escalation_level + 1 >= FINAL_LEVEL)
+        .length,
+      notifications_queued: notifications.length,
+    });
+  } catch (error) {
+    console.error(
+      "Error escalating handoff acknowledgments:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Puts claimed requests back to their previous level and due time. Each
+ * release is conditional on the level this run set, so a request that was
+ * acknowledged since is left alone.
+ */
+async function releaseClaims(
+  supabase: SupabaseClient,
+  claimed: AckRequestRow[],
+): Promise<void> {
+  for (const request of claimed) {
+    const { error } = await supabase
+      .from("handoff_ack_requests")
+      .update({
+        escalation_level: request.escalation_level,
+        next_escalation_at: request.next_escalation_at,
+      })
+      .eq("id", request.id)
+      .eq("escalation_level", request.escalation_level + 1)
+      .is("acknowledged_at", null);
+    if (error) {
+      console.error("Failed to release escalation claim:", error.code);
+    }
+  }
+}
+
+/**
+ * Active members per circle, with their roles. Returns null on a database
+ * error.
+ */
+async function loadActiveMembers(
+  supabase: SupabaseClient,
+  circleIds: string[],
+): Promise<Map<string, Map<string, string>> | null> {
+  const { data, error } = await supabase
+    .from("circle_members")
+    .select("circle_id, user_id, role")
+    .in("circle_id", circleIds)
+    .eq("status", "ACTIVE");
+  if (error) {
+    console.error("Failed to load circle members:", error.code);
+    return null;
+  }
+
+  const members = new Map<string, Map<string, string>>();
+  for (const m of (data ?? []) as {
+    circle_id: string;
+    user_id: string;
+    role: string;
+  }[]) {
+    if (!members.has(m.circle_id)) members.set(m.circle_id, new Map());
+    members.get(m.circle_id)!.set(m.user_id, m.role);
+  }
+  return members;
+}
+
+/**
+ * A reminder per claimed request, and on the final escalation one alert
+ * per handoff to the publisher and circle admins naming how many members
+ * are outstanding
+ */
+function buildNotifications(
+  claimed: AckRequestRow[],
+  members: Map<string, Map<string, string>>,
+): NotificationRow[] {
+  const notifications: NotificationRow[] = [];
+  const finalByHandoff = new Map<string, AckRequestRow[]>();
+
+  for (const request of claimed) {
+    const final = request.escalation_level + 1 >= FINAL_LEVEL;
+    notifications.push({
+      user_id: request.user_id,
+      circle_id: request.circle_id,
+      notification_type: "CRITICAL_HANDOFF_REMINDER",
+      title: final
+        ? "Final Reminder: Please Acknowledge"
+        : "Reminder: Please Acknowledge",
+      body: request.handoffs?.title ?? "An urgent handoff needs your attention",
+      data_json: {
+        handoff_id: request.handoff_id,
+        circle_id: request.circle_id,
+        requires_ack: true,
+      },
+      channels: final ? ["PUSH", "SMS", "EMAIL"] : ["PUSH", "SMS"],
+    });
+
+    if (final) {
+      finalByHandoff.set(request.handoff_id, [
+        ...(finalByHandoff.get(request.handoff_id) ?? []),
+        request,
+      ]);
+    }
+  }
+
+  for (const [handoffId, requests] of finalByHandoff) {
+    const { circle_id, requested_by } = requests[0];
+    const outstanding = new Set(requests.map((r) => r.user_id));
+    const circleMembers = members.get(circle_id) ?? new Map<string, string>();
+    const recipients = [...circleMembers]
+      .filter(
+        ([userId, role]) =>
+          userId === requested_by || role === "ADMIN" || role === "OWNER",
+      )
+      .map(([userId]) => userId)
+      .filter((userId) => !outstanding.has(userId));
+
+    const count = outstanding.size;
+    for (const userId of recipients) {
+      notifications.push({
+        user_id: userId,
+        circle_id,
+        notification_type: "CRITICAL_HANDOFF_UNACKNOWLEDGED",
+        title: "Handoff Not Acknowledged",
+        body: `${count} ${count === 1 ? "member hasn't" : "members haven't"} acknowledged "${requests[0].handoffs?.title ?? "an urgent handoff"}"`,
+        data_json: {
+          handoff_id: handoffId,
+          circle_id,
+          user_ids: [...outstanding],
+        },
+        channels: ["PUSH", "EMAIL"],
+      });
+    }
+  }
+
+  return notifications;
+}
@@ -0,0 +1,113 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import {
+  AlertRuleError,
+  type AlertRuleRow,
+  CONDITION_KEYS,
+  evaluateRule,
+  parseRule,
+} from "../_shared/alert-rules/index.ts";
+
+/**
+ * Evaluate Alert Rules (cron, every 15 minutes)
+ *
+ * Runs every enabled TASK_OVERDUE, HANDOFF_GAP and MED_DOSES_SKIPPED rule
+ * (see _shared/alert-rules). Each match outside the rule's cooldown is
+ * acted on and logged to alert_events; rules in dry-run mode are logged
+ * without acting. A rule that fails validation or hits a database error is
+ * skipped and counted, so one bad rule does not stop the rest.
+ */
+
+const PAGE_SIZE = 200;
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    let evaluated = 0;
+    let matched = 0;
+    let suppressed = 0;
+    let invalid = 0;
+    let failed = 0;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: rules, error } = await supabase
+        .from("alert_rules")
+        .select(
+          "id, circle_id, patient_id, rule_key, name, params_json, actions_json, cooldown_hours, dry_run, enabled, created_by",
+        )
+        .eq("enabled", true)
+        .in("rule_key", CONDITION_KEYS)
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("Failed to fetch alert rules:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to fetch alert rules",
+          500,
+        );
+      }
+
+      for (const row of (rules ?? []) as AlertRuleRow[]) {
+        let rule;
+        try {
+          rule = parseRule(row);
+        } catch (parseError) {
+          if (!(parseError instanceof AlertRuleError)) throw parseError;
+          invalid++;
+          continue;
+        }
+
+        const result = await evaluateRule(supabase, rule, now, {
+          execute: true,
+          log: true,
+        });
+        if (!result) {
+          failed++;
+          continue;
+        }
+
+        evaluated++;
+        matched += result.matches.length;
+        suppressed += result.suppressed;
+      }
+
+      if (!rules || rules.length < PAGE_SIZE) break;
+    }
+
+    return jsonResponse({
+      success: true,
+      rules_evaluated: evaluated,
+      rules_invalid: invalid,
+      rules_failed: failed,
+      matches: matched,
+      suppressed,
+    });
+  } catch (error) {
+    console.error(
+      "Error evaluating alert rules:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  isRecord,
+  LLMError,
+  type LLMContentPart,
+} from "../_shared/llm/index.ts";
 
 // MARK: - CORS Headers
 
@@ -346,15 +352,20 @@ serve(async (req) => {
       }
     }
 
-    // Call OpenAI Vision API
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
+    // Call the vision-capable LLM provider
+    const llm = createLLMClient({
+      feature: "extract-document-data",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: scan.circle_id,
+    });
+    if (!llm.isConfigured()) {
       return new Response(
         JSON.stringify({
           success: false,
           error: {
             code: "CONFIGURATION_ERROR",
-            message: "OpenAI API key not configured",
+            message: "LLM provider not configured",
           },
         } as ExtractResponse),
         {
@@ -365,7 +376,7 @@ serve(async (req) => {
     }
 
     // Build content array with images
-    const contentArray: Array<Record<string, unknown>> = [
+    const contentArray: LLMContentPart[] = [
       { type: "text", text: extractionPrompt },
     ];
 
@@ -384,16 +395,11 @@ serve(async (req) => {
       });
     }
 
-    const openaiResponse = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
+    // Parse extracted fields
+    let extractedFields: Record<string, unknown>;
+    try {
+      const result = await llm.completeJSON(
+        {
           messages: [
             {
               role: "system",
@@ -405,49 +411,48 @@ serve(async (req) => {
               content: contentArray,
             },
           ],
-          max_tokens: 2000,
+          tier: "accurate",
+          maxTokens: 2000,
           temperature: 0.1,
-          response_format: { type: "json_object" },
-        }),
-      },
-    );
-
-    if (!openaiResponse.ok) {
-      // Log only safe metadata, not error content (may contain PHI)
-      console.error("OpenAI API extraction failed:", {
-        status: openaiResponse.status,
-        scanId,
-      });
-
-      return new Response(
-        JSON.stringify({
-          success: false,
-          error: {
-            code: "PROCESSING_ERROR",
-            message: "Extraction service unavailable",
-          },
-        } as ExtractResponse),
-        {
-          status: 500,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          timeoutMs: 60000,
         },
+        (value) => (isRecord(value) ? value : null),
       );
-    }
-
-    const openaiData = await openaiResponse.json();
-    const assistantMessage = openaiData.choices?.[0]?.message?.content || "{}";
-
-    // Parse extracted fields
-    let extractedFields: Record<string, unknown>;
-    try {
-      extractedFields = JSON.parse(assistantMessage);
-    } catch (_parseError) {
-      // SECURITY: Do not log assistantMessage - contains PHI
-      console.error("Failed to parse extraction response:", {
-        scanId,
-        errorType: "JSON_PARSE_ERROR",
-      });
-      extractedFields = {};
+      extractedFields = result.data;
+    } catch (llmError) {
+      const code = llmError instanceof LLMError ? llmError.code : "UNKNOWN";
+
+      if (code === "INVALID_OUTPUT") {
+        // SECURITY: Do not log the model output - contains PHI
+        console.error("Failed to parse extraction response:", {
+          scanId,
+          errorType: "JSON_PARSE_ERROR",
+        });
+        extractedFields = {};
+      } else {
+        // Log only safe metadata, not error content (may contain PHI)
+        console.error("LLM extraction failed:", { code, scanId });
+
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: {
+              code:
+                code === "CONSENT_REQUIRED"
+                  ? "CONSENT_REQUIRED"
+                  : "PROCESSING_ERROR",
+              message:
+                code === "CONSENT_REQUIRED"
+                  ? "AI processing is turned off for this account"
+                  : "Extraction service unavailable",
+            },
+          } as ExtractResponse),
+          {
+            status: code === "CONSENT_REQUIRED" ? 403 : 500,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
     }
 
     // Calculate confidence based on how many fields were extracted
@@ -0,0 +1,133 @@
+/**
+ * Medication supply projection
+ *
+ * Starts from the label's quantity on its fill date, replays recorded
+ * supply adjustments, and draws the supply down at the schedule's average
+ * daily use to find the first day it no longer covers.
+ */
+
+import {
+  addDays,
+  daysBetween,
+  type MedSchedule,
+} from "../_shared/meds/index.ts";
+
+export type AdjustmentKind = "REFILL" | "LOST" | "EXTRA_DOSE";
+
+export interface SupplyAdjustment {
+  kind: AdjustmentKind;
+  quantity: number;
+  partial: boolean;
+  /** Patient-local YYYY-MM-DD */
+  occurred_on: string;
+}
+
+export interface SupplyInput {
+  schedule: MedSchedule;
+  /** Units per dose; the upper bound for "1 to 2 tablets" */
+  doseQuantity: number;
+  /** From the scanned label */
+  quantity?: number;
+  fillDate?: string;
+  adjustments: SupplyAdjustment[];
+  /** Last local date of the course (stop_date or start + duration_days) */
+  endDate?: string;
+}
+
+export interface SupplyForecast {
+  daily_use: number;
+  on_hand: number;
+  /** First day without enough supply; null when it outlasts the course */
+  run_out_date: string | null;
+  /** The most recent refill was partial */
+  partial_fill: boolean;
+}
+
+/**
+ * Average scheduled doses per day. As-needed schedules have no predictable
+ * use and return 0.
+ */
+export function dailyDoses(schedule: MedSchedule): number {
+  if (schedule.prn) return 0;
+
+  let perDay =
+    schedule.times.length ||
+    schedule.times_per_day ||
+    (schedule.interval_hours ? 24 / schedule.interval_hours : 0);
+  if (schedule.every_n_days) perDay /= schedule.every_n_days;
+  if (schedule.days_of_week) perDay *= schedule.days_of_week.length / 7;
+  return perDay;
+}
+
+/**
+ * Project supply as of `today` (patient-local). Returns null when there is
+ * no predictable use or no fill to start from.
+ *
+ * A refill recorded on or before the label's fill date is taken to be the
+ * fill the label shows, so scanning the new label after recording the refill
+ * does not count it twice. Supply left over from before the label's fill is
+ * not carried forward, which errs toward refilling early.
+ */
+export function forecastSupply(
+  input: SupplyInput,
+  today: string,
+): SupplyForecast | null {
+  const dailyUse = dailyDoses(input.schedule) * input.doseQuantity;
+  if (dailyUse <= 0) return null;
+
+  const adjustments = input.adjustments
+    .filter((a) => a.occurred_on <= today)
+    .sort((a, b) => a.occurred_on.localeCompare(b.occurred_on));
+
+  let start: string;
+  let onHand: number;
+  let partialFill = false;
+  let events: SupplyAdjustment[];
+
+  if (input.fillDate && input.quantity && input.quantity > 0) {
+    const fillDate = input.fillDate;
+    start = fillDate;
+    onHand = input.quantity;
+    events = adjustments.filter((a) =>
+      a.kind === "REFILL"
+        ? a.occurred_on > fillDate
+        : a.occurred_on >= fillDate,
+    );
+  } else {
+    const firstFill = adjustments.findIndex((a) => a.kind === "REFILL");
+    if (firstFill === -1) return null;
+    start = adjustments[firstFill].occurred_on;
+    onHand = adjustments[firstFill].quantity;
+    partialFill = adjustments[firstFill].partial;
+    events = adjustments.slice(firstFill + 1);
+  }
+
+  if (start > today) return null;
+
+  let cursor = start;
+  for (const event of events) {
+    onHand = Math.max(
+      0,
+      onHand - dailyUse * daysBetween(cursor, event.occurred_on),
+    );
+    cursor = event.occurred_on;
+
+    if (event.kind === "REFILL") {
+      onHand += event.quantity;
+      partialFill = event.partial;
+    } else {
+      onHand = Math.max(0, onHand - event.quantity);
+    }
+  }
+  onHand = Math.max(0, onHand - dailyUse * daysBetween(cursor, today));
+
+  let runOut: string | null = addDays(today, Math.floor(onHand / dailyUse));
+  if (input.endDate && runOut > input.endDate) runOut = null;
+
+  return {
+    daily_use: Math.round(dailyUse * 100) / 100,
+    on_hand: Math.round(onHand * 10) / 10,
+    run_out_date: runOut,
+    partial_fill: partialFill,
+  };
+}
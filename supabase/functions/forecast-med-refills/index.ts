@@ -0,0 +1,449 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import { isValidDate } from "../_shared/validation.ts";
+import { rankDelegationCandidates } from "../_shared/delegation.ts";
+import {
+  addDays,
+  daysBetween,
+  isValidTimeZone,
+  localDate,
+  type MedSchedule,
+  normalizeSig,
+  zonedTimeToUtc,
+} from "../_shared/meds/index.ts";
+import {
+  forecastSupply,
+  type SupplyAdjustment,
+  type SupplyForecast,
+} from "./forecast.ts";
+
+/**
+ * Forecast Med Refills (cron, nightly)
+ *
+ * Projects when each active MED item runs out from the quantity and fill
+ * date of its scanned label, its schedule and the supply adjustments members
+ * record, into med_refill_forecasts. When the run-out date is within the
+ * circle's refill lead time a "Refill X" task is created, assigned to the
+ * least busy contributor by the get-delegation-candidates ranking. The task
+ * is completed automatically once a refill pushes the run-out date back out
+ * of the lead time, and canceled if the med stops being forecast.
+ */
+
+const DEFAULT_LEAD_DAYS = 7;
+const MAX_LEAD_DAYS = 60;
+const URGENT_DAYS = 2;
+// Kept small: each page's ids go into `in` filters on the request URL
+const PAGE_SIZE = 200;
+
+interface MedRow {
+  id: string;
+  circle_id: string;
+  patient_id: string;
+  title: string;
+  created_at: string;
+  content_json: {
+    schedule?: string;
+    sig?: {
+      schedule?: MedSchedule | null;
+      dose_quantity?: number;
+      dose_quantity_max?: number;
+    };
+    quantity?: number | string;
+    fill_date?: string;
+    start_date?: string;
+    stop_date?: string;
+  } | null;
+  patients: {
+    display_name: string;
+    timezone: string;
+    archived_at: string | null;
+  } | null;
+  circles: {
+    owner_user_id: string;
+    settings_json: { refill_lead_days?: unknown } | null;
+  } | null;
+}
+
+interface AdjustmentRow extends SupplyAdjustment {
+  binder_item_id: string;
+}
+
+interface ForecastRow {
+  binder_item_id: string;
+  task_id: string | null;
+  tasks: { status: string } | null;
+}
+
+interface RunCounts {
+  forecasts: number;
+  created: number;
+  closed: number;
+}
+
+function leadDays(med: MedRow): number {
+  const days = Number(med.circles?.settings_json?.refill_lead_days);
+  return Number.isInteger(days) && days >= 0 && days <= MAX_LEAD_DAYS
+    ? days
+    : DEFAULT_LEAD_DAYS;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const counts: RunCounts = { forecasts: 0, created: 0, closed: 0 };
+    const runStartedAt = new Date();
+
+    const forecasted = await forecastRefills(supabase, runStartedAt, counts);
+    if (!forecasted) {
+      return errorResponse("DATABASE_ERROR", "Failed to forecast refills", 500);
+    }
+
+    const removed = await removeStaleForecasts(supabase, runStartedAt);
+    if (removed === null) {
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to remove stale forecasts",
+        500,
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      forecasts: counts.forecasts,
+      tasks_created: counts.created,
+      tasks_completed: counts.closed,
+      forecasts_removed: removed,
+    });
+  } catch (error) {
+    console.error(
+      "Error forecasting refills:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Forecast every active MED, creating refill tasks that have come due and
+ * completing ones a refill has pushed back out. Returns false on a database
+ * error.
+ */
+async function forecastRefills(
+  supabase: SupabaseClient,
+  now: Date,
+  counts: RunCounts,
+): Promise<boolean> {
+  // circle -> assignee for new refill tasks
+  const assignees = new Map<string, string>();
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("binder_items")
+      .select(
+        "id, circle_id, patient_id, title, created_at, content_json, patients(display_name, timezone, archived_at), circles(owner_user_id, settings_json)",
+      )
+      .eq("type", "MED")
+      .eq("is_active", true)
+      .not("patient_id", "is", null)
+      .order("id")
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Failed to fetch medications:", error.code);
+      return false;
+    }
+
+    const meds = ((data ?? []) as MedRow[]).filter(
+      (med) => med.patients && !med.patients.archived_at && med.circles,
+    );
+    const ids = meds.map((med) => med.id);
+
+    if (ids.length > 0) {
+      const [adjustmentsResult, forecastsResult] = await Promise.all([
+        supabase
+          .from("med_supply_adjustments")
+          .select("binder_item_id, kind, quantity, partial, occurred_on")
+          .in("binder_item_id", ids),
+        supabase
+          .from("med_refill_forecasts")
+          .select("binder_item_id, task_id, tasks(status)")
+          .in("binder_item_id", ids),
+      ]);
+
+      const failed = [adjustmentsResult, forecastsResult].find((r) => r.error);
+      if (failed) {
+        console.error("Failed to fetch supply history:", failed.error!.code);
+        return false;
+      }
+
+      const adjustments = new Map<string, SupplyAdjustment[]>();
+      for (const row of (adjustmentsResult.data ?? []) as AdjustmentRow[]) {
+        adjustments.set(row.binder_item_id, [
+          ...(adjustments.get(row.binder_item_id) ?? []),
+          { ...row, quantity: Number(row.quantity) },
+        ]);
+      }
+      const previous = new Map(
+        ((forecastsResult.data ?? []) as ForecastRow[]).map((row) => [
+          row.binder_item_id,
+          row,
+        ]),
+      );
+
+      const rows = [];
+      const completed: string[] = [];
+
+      for (const med of meds) {
+        const timeZone = isValidTimeZone(med.patients!.timezone)
+          ? med.patients!.timezone
+          : "UTC";
+        const today = localDate(now, timeZone);
+        const forecast = forecastMed(
+          med,
+          adjustments.get(med.id) ?? [],
+          today,
+          timeZone,
+        );
+        if (!forecast) continue;
+
+        const linked = previous.get(med.id);
+        let taskId = linked?.task_id ?? null;
+        const due =
+          forecast.run_out_date !== null &&
+          daysBetween(today, forecast.run_out_date) <= leadDays(med);
+
+        if (due && !taskId) {
+          taskId = await createRefillTask(
+            supabase,
+            med,
+            forecast,
+            today,
+            timeZone,
+            assignees,
+          );
+          if (!taskId) return false;
+          counts.created++;
+        } else if (!due && taskId) {
+          // Replenished; a task already closed by a member stays as it is
+          if (linked?.tasks?.status === "OPEN") completed.push(taskId);
+          taskId = null;
+        }
+
+        rows.push({
+          binder_item_id: med.id,
+          circle_id: med.circle_id,
+          patient_id: med.patient_id,
+          daily_use: forecast.daily_use,
+          on_hand: forecast.on_hand,
+          run_out_date: forecast.run_out_date,
+          partial_fill: forecast.partial_fill,
+          task_id: taskId,
+          computed_at: now.toISOString(),
+        });
+      }
+
+      if (completed.length > 0) {
+        const { data: closed, error: closeError } = await supabase
+          .from("tasks")
+          .update({
+            status: "DONE",
+            completed_at: now.toISOString(),
+            completion_note: "Refill recorded",
+          })
+          .in("id", completed)
+          .eq("status", "OPEN")
+          .select("id");
+        if (closeError) {
+          console.error("Failed to complete refill tasks:", closeError.code);
+          return false;
+        }
+        counts.closed += (closed ?? []).length;
+      }
+
+      if (rows.length > 0) {
+        const { error: upsertError } = await supabase
+          .from("med_refill_forecasts")
+          .upsert(rows, { onConflict: "binder_item_id" });
+        if (upsertError) {
+          console.error("Failed to save forecasts:", upsertError.code);
+          return false;
+        }
+        counts.forecasts += rows.length;
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return true;
+}
+
+function forecastMed(
+  med: MedRow,
+  adjustments: SupplyAdjustment[],
+  today: string,
+  timeZone: string,
+): SupplyForecast | null {
+  const content = med.content_json ?? {};
+  const schedule =
+    content.sig?.schedule ??
+    (content.schedule ? normalizeSig(content.schedule).schedule : null);
+  if (!schedule) return null;
+
+  const fillDate =
+    content.fill_date && isValidDate(content.fill_date)
+      ? content.fill_date
+      : undefined;
+  const quantity = Number(content.quantity);
+
+  let endDate =
+    content.stop_date && isValidDate(content.stop_date)
+      ? content.stop_date
+      : undefined;
+  if (schedule.duration_days) {
+    const startDate =
+      content.start_date && isValidDate(content.start_date)
+        ? content.start_date
+        : (fillDate ?? localDate(new Date(med.created_at), timeZone));
+    const courseEnd = addDays(startDate, schedule.duration_days - 1);
+    if (!endDate || courseEnd < endDate) endDate = courseEnd;
+  }
+
+  return forecastSupply(
+    {
+      schedule,
+      doseQuantity:
+        content.sig?.dose_quantity_max ?? content.sig?.dose_quantity ?? 1,
+      quantity: Number.isFinite(quantity) ? quantity : undefined,
+      fillDate,
+      adjustments,
+      endDate,
+    },
+    today,
+  );
+}
+
+/**
+ * Create the refill task, assigned to the circle's least busy contributor
+ * (or its owner when there is none). Returns the task id, or null on a
+ * database error.
+ */
+async function createRefillTask(
+  supabase: SupabaseClient,
+  med: MedRow,
+  forecast: SupplyForecast,
+  today: string,
+  timeZone: string,
+  assignees: Map<string, string>,
+): Promise<string | null> {
+  const ownerId = med.circles!.owner_user_id;
+
+  let assignee = assignees.get(med.circle_id);
+  if (!assignee) {
+    const ranked = await rankDelegationCandidates(supabase, [med.circle_id]);
+    if (!ranked) return null;
+    assignee = ranked[0]?.userId ?? ownerId;
+    assignees.set(med.circle_id, assignee);
+  }
+
+  const runOut = forecast.run_out_date!;
+  const description = [
+    `${med.patients!.display_name}'s supply is projected to run out on ${runOut} (about ${forecast.on_hand} left at ${forecast.daily_use} a day).`,
+    forecast.partial_fill ? "The last refill was partial." : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .insert({
+      circle_id: med.circle_id,
+      patient_id: med.patient_id,
+      created_by: ownerId,
+      owner_user_id: assignee,
+      title: forecast.partial_fill
+        ? `Pick up rest of ${med.title}`
+        : `Refill ${med.title}`,
+      description,
+      due_at: zonedTimeToUtc(runOut, "00:00", timeZone).toISOString(),
+      priority: daysBetween(today, runOut) <= URGENT_DAYS ? "HIGH" : "MED",
+      status: "OPEN",
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to create refill task:", error.code);
+    return null;
+  }
+  return task.id;
+}
+
+/**
+ * Drop forecasts for meds this run no longer forecast (stopped, archived
+ * patient, as-needed or no supply data), canceling their open refill tasks.
+ * Returns the number removed, or null on a database error.
+ */
+async function removeStaleForecasts(
+  supabase: SupabaseClient,
+  runStartedAt: Date,
+): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("med_refill_forecasts")
+    .select("binder_item_id, task_id, tasks(status)")
+    .lt("computed_at", runStartedAt.toISOString());
+  if (error) {
+    console.error("Failed to fetch stale forecasts:", error.code);
+    return null;
+  }
+
+  const stale = (data ?? []) as ForecastRow[];
+  if (stale.length === 0) return 0;
+
+  const openTasks = stale
+    .filter((row) => row.task_id && row.tasks?.status === "OPEN")
+    .map((row) => row.task_id!);
+  if (openTasks.length > 0) {
+    const { error: cancelError } = await supabase
+      .from("tasks")
+      .update({ status: "CANCELED" })
+      .in("id", openTasks)
+      .eq("status", "OPEN");
+    if (cancelError) {
+      console.error("Failed to cancel refill tasks:", cancelError.code);
+      return null;
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from("med_refill_forecasts")
+    .delete()
+    .lt("computed_at", runStartedAt.toISOString());
+  if (deleteError) {
+    console.error("Failed to remove stale forecasts:", deleteError.code);
+    return null;
+  }
+
+  return stale.length;
+}
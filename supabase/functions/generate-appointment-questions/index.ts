@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  extractArray,
+  LLMError,
+  type LLMClient,
+} from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -362,12 +368,16 @@ serve(async (req) => {
     );
 
     // Try LLM enhancement if configured
-    const llmApiKey =
-      Deno.env.get("OPENAI_API_KEY") || Deno.env.get("LLM_API_KEY");
-    if (llmApiKey && handoffs && handoffs.length >= 3) {
+    const llm = createLLMClient({
+      feature: "generate-appointment-questions",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: circle_id,
+    });
+    if (llm.isConfigured() && handoffs && handoffs.length >= 3) {
       try {
         const enhancedQuestions = await enhanceWithLLM(
-          llmApiKey,
+          llm,
           handoffs,
           medications || [],
           patterns,
@@ -439,7 +449,7 @@ serve(async (req) => {
           metadata: {
             question_count: finalQuestions.length,
             handoff_count: handoffs?.length || 0,
-            ai_enhanced: llmApiKey ? true : false,
+            ai_enhanced: llm.isConfigured(),
           },
           created_at: new Date().toISOString(),
         })
@@ -956,7 +966,7 @@ function isValidUUID(uuid: string): boolean {
 }
 
 async function enhanceWithLLM(
-  apiKey: string,
+  llm: LLMClient,
   handoffs: Array<{
     id: string;
     title: string;
@@ -1023,57 +1033,21 @@ Patterns detected:
 
 Generate personalized questions for the upcoming appointment.`;
 
-  // Add timeout to OpenAI call
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
-
   try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
+    const result = await llm.completeJSON(
+      {
         messages: [
           { role: "system", content: systemPrompt },
           { role: "user", content: userPrompt },
         ],
+        tier: "fast",
         temperature: 0.7,
-        max_tokens: 800,
-      }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status}`);
-    }
-
-    const result = await response.json();
-    const content = result.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error("No content in LLM response");
-    }
-
-    // Parse LLM response with robust error handling
-    let jsonStr = content.trim();
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim();
-    }
-
-    let llmQuestions: any[];
-    try {
-      const parsed = JSON.parse(jsonStr);
-      llmQuestions = Array.isArray(parsed) ? parsed : [];
-    } catch (parseError) {
-      console.error("LLM JSON parsing failed, falling back to templates");
-      return [];
-    }
+        maxTokens: 800,
+        jsonMode: false,
+      },
+      (value) => extractArray(value, ["questions"]),
+    );
+    const llmQuestions: any[] = result.data;
 
     // Validate and filter questions
     return llmQuestions
@@ -1110,12 +1084,9 @@ Generate personalized questions for the upcoming appointment.`;
       }))
       .slice(0, maxQuestions);
   } catch (error) {
-    clearTimeout(timeoutId);
-    if (error.name === "AbortError") {
-      console.error("LLM request timeout");
-    } else {
-      console.error("LLM enhancement failed", { type: (error as any).name });
-    }
+    console.error("LLM enhancement failed, falling back to templates", {
+      code: error instanceof LLMError ? error.code : "UNKNOWN",
+    });
     return [];
   }
 }
@@ -57,8 +57,26 @@ interface MedicationChange {
   source: string;
 }
 
+/** Item for the instantiate_checklist engine */
+interface ChecklistTaskItem {
+  key: string;
+  parent_key?: string;
+  title: string;
+  description?: string;
+  priority: string;
+  due_at: string;
+  owner_user_id?: string;
+}
+
+interface ChecklistResult {
+  root_task_id: string;
+  task_ids: Record<string, string>;
+}
+
 interface GenerateOutputsResponse {
   tasksCreated: string[];
+  /** Why the discharge tasks could not be created, if they were not */
+  tasksError: string | null;
   handoffId: string | null;
   shiftsCreated: string[];
   binderItemsCreated: string[];
@@ -76,11 +94,13 @@ serve(async (req) => {
     shifts: string[];
     binderItems: string[];
     handoffId: string | null;
+    tasksError: string | null;
   } = {
     tasks: [],
     shifts: [],
     binderItems: [],
     handoffId: null,
+    tasksError: null,
   };
 
   try {
@@ -155,7 +175,9 @@ serve(async (req) => {
       !dischargeRecord.facility_name
     ) {
       return new Response(
-        JSON.stringify({ error: "Discharge record is missing required fields" }),
+        JSON.stringify({
+          error: "Discharge record is missing required fields",
+        }),
         {
           status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -233,42 +255,76 @@ serve(async (req) => {
     // Generate outputs with current date for proper due date calculation
     const now = new Date();
 
-    // 1. Create tasks from checklist items
+    // 1. Create tasks from checklist items, as subtasks of one discharge
+    // task grouped by category
     const itemsToCreateTasks = items.filter(
       (item) => item.create_task && !item.task_id,
     );
 
-    for (const item of itemsToCreateTasks) {
-      const dueDate = item.due_date
-        ? item.due_date
-        : calculateDueDate(dischargeRecord.discharge_date, item.category, now);
-
-      const sanitizedTitle = sanitizeTaskTitle(item.item_text);
-
-      const { data: task, error: taskError } = await supabase
-        .from("tasks")
-        .insert({
-          circle_id: dischargeRecord.circle_id,
-          patient_id: dischargeRecord.patient_id,
-          created_by: user.id,
-          owner_user_id: item.assigned_to || user.id,
-          title: `[Discharge] ${sanitizedTitle}`,
-          description: `From discharge checklist for ${sanitizeForMarkdown(dischargeRecord.facility_name)}`,
-          due_at: dueDate,
-          priority: item.category === "MEDICATIONS" ? "HIGH" : "MED",
-          status: "OPEN",
-        })
-        .select("id")
-        .single();
+    if (itemsToCreateTasks.length > 0) {
+      // The checklist is created all at once, so an assignee who has left
+      // the circle falls back to the caller instead of failing every task
+      const assignees = [
+        ...new Set(
+          itemsToCreateTasks.flatMap((item) =>
+            item.assigned_to ? [item.assigned_to] : [],
+          ),
+        ),
+      ];
+      const members = new Set<string>();
+      if (assignees.length > 0) {
+        const { data: memberRows, error: membersError } = await supabase
+          .from("circle_members")
+          .select("user_id")
+          .eq("circle_id", dischargeRecord.circle_id)
+          .eq("status", "ACTIVE")
+          .in("user_id", assignees);
+
+        if (membersError) {
+          throw membersError;
+        }
+        for (const row of memberRows ?? []) members.add(row.user_id);
+      }
 
-      if (!taskError && task) {
-        createdResources.tasks.push(task.id);
+      const { data: checklist, error: checklistTaskError } = await supabase.rpc(
+        "instantiate_checklist",
+        {
+          p_circle_id: dischargeRecord.circle_id,
+          p_patient_id: dischargeRecord.patient_id,
+          p_user_id: user.id,
+          p_title: dischargeTaskTitle(dischargeRecord.facility_name),
+          p_items: buildChecklistItems(
+            itemsToCreateTasks,
+            dischargeRecord,
+            members,
+            now,
+          ),
+        },
+      );
 
-        // Update checklist item with task ID
-        await supabase
-          .from("discharge_checklist_items")
-          .update({ task_id: task.id })
-          .eq("id", item.id);
+      if (checklistTaskError || !checklist || checklist.error) {
+        console.error(
+          "Failed to create discharge tasks:",
+          checklistTaskError?.code ?? "rejected",
+        );
+        createdResources.tasksError = checklistTaskError
+          ? "Discharge tasks could not be created"
+          : (checklist?.error ?? "Discharge tasks could not be created");
+      } else {
+        const result = checklist as ChecklistResult;
+        createdResources.tasks.push(result.root_task_id);
+
+        for (const item of itemsToCreateTasks) {
+          const taskId = result.task_ids[item.template_item_id];
+          if (!taskId) continue;
+          createdResources.tasks.push(taskId);
+
+          // Update checklist item with task ID
+          await supabase
+            .from("discharge_checklist_items")
+            .update({ task_id: taskId })
+            .eq("id", item.id);
+        }
       }
     }
 
@@ -410,6 +466,7 @@ serve(async (req) => {
     // Return response
     const response: GenerateOutputsResponse = {
       tasksCreated: createdResources.tasks,
+      tasksError: createdResources.tasksError,
       handoffId: createdResources.handoffId,
       shiftsCreated: createdResources.shifts,
       binderItemsCreated: createdResources.binderItems,
@@ -478,6 +535,11 @@ function sanitizeTaskTitle(text: string): string {
     .trim();
 }
 
+/** Task titles are limited to 200 characters, prefix included */
+function dischargeTaskTitle(text: string): string {
+  return `[Discharge] ${sanitizeTaskTitle(text)}`.substring(0, 200).trim();
+}
+
 function sanitizeError(error: Error): Record<string, unknown> {
   // Never include error.message which may contain PHI
   return {
@@ -550,6 +612,59 @@ function calculateDueDate(
   return dueDate.toISOString();
 }
 
+const CATEGORY_LABELS: Record<string, string> = {
+  BEFORE_LEAVING: "Before leaving",
+  MEDICATIONS: "Medications",
+  EQUIPMENT: "Equipment",
+  HOME_PREP: "Home preparation",
+  FIRST_WEEK: "First week",
+};
+
+/**
+ * One parent item per category, with the checklist items under it keyed by
+ * template_item_id. Items assigned to someone outside `members` are left
+ * to the caller.
+ */
+function buildChecklistItems(
+  items: ChecklistItem[],
+  record: DischargeRecord,
+  members: Set<string>,
+  now: Date,
+): ChecklistTaskItem[] {
+  const result: ChecklistTaskItem[] = [];
+  const categories = [...new Set(items.map((item) => item.category))];
+
+  for (const category of categories) {
+    const priority = category === "MEDICATIONS" ? "HIGH" : "MED";
+    const categoryKey = `category:${category}`;
+    result.push({
+      key: categoryKey,
+      title: CATEGORY_LABELS[category] ?? sanitizeTaskTitle(category),
+      priority,
+      due_at: calculateDueDate(record.discharge_date, category, now),
+    });
+
+    for (const item of items.filter((i) => i.category === category)) {
+      result.push({
+        key: item.template_item_id,
+        parent_key: categoryKey,
+        title: dischargeTaskTitle(item.item_text),
+        description: `From discharge checklist for ${sanitizeForMarkdown(record.facility_name)}`,
+        priority,
+        due_at: item.due_date
+          ? new Date(item.due_date).toISOString()
+          : calculateDueDate(record.discharge_date, category, now),
+        owner_user_id:
+          item.assigned_to && members.has(item.assigned_to)
+            ? item.assigned_to
+            : undefined,
+      });
+    }
+  }
+
+  return result;
+}
+
 function addDays(date: Date, days: number): Date {
   const result = new Date(date);
   result.setDate(result.getDate() + days);
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  LLMError,
+  type LLMClient,
+} from "../_shared/llm/index.ts";
 
 const UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -62,10 +67,10 @@ interface LLMSummaryInput {
 }
 
 async function generateLLMSummary(
+  llm: LLMClient,
   input: LLMSummaryInput,
 ): Promise<string | null> {
-  const apiKey = Deno.env.get("XAI_API_KEY");
-  if (!apiKey) return null;
+  if (!llm.isConfigured()) return null;
 
   const completedItems = input.agendaItems.filter(
     (item) => item.status === "COMPLETED",
@@ -97,18 +102,11 @@ async function generateLLMSummary(
     .join("\n");
 
   try {
-    const response = await fetch("https://api.x.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "grok-4-1-fast-reasoning",
-        messages: [
-          {
-            role: "system",
-            content: `You are a concise meeting summarizer for a family caregiving coordination app.
+    const result = await llm.complete({
+      messages: [
+        {
+          role: "system",
+          content: `You are a concise meeting summarizer for a family caregiving coordination app.
 Produce a clear, well-structured summary of the family meeting. Use short sections with headers.
 Rules:
 - Only summarize information provided within <meeting-data> tags — never invent details, names, medications, or medical advice.
@@ -118,39 +116,21 @@ Rules:
 - Structure: Brief overview, Key Decisions, Action Items, Notable Discussion Points.
 - Omit any section that has no content.
 - Do not include greetings, sign-offs, or meta-commentary.`,
-          },
-          {
-            role: "user",
-            content: `Summarize this family care meeting. The meeting data is enclosed in <meeting-data> tags. Only summarize what appears within those tags.\n\n<meeting-data>\n${meetingDataPrompt}\n</meeting-data>`,
-          },
-        ],
-        max_tokens: 800,
-        temperature: 0.3,
-      }),
-      signal: AbortSignal.timeout(30000),
+        },
+        {
+          role: "user",
+          content: `Summarize this family care meeting. The meeting data is enclosed in <meeting-data> tags. Only summarize what appears within those tags.\n\n<meeting-data>\n${meetingDataPrompt}\n</meeting-data>`,
+        },
+      ],
+      tier: "reasoning",
+      maxTokens: 800,
+      temperature: 0.3,
     });
 
-    if (!response.ok) {
-      console.error(`LLM summary request failed: HTTP ${response.status}`);
-      await response.body?.cancel();
-      return null;
-    }
-
-    const data = await response.json();
-    const content = data?.choices?.[0]?.message?.content;
-    if (
-      !content ||
-      typeof content !== "string" ||
-      content.trim().length === 0
-    ) {
-      return null;
-    }
-
-    return content.trim();
+    const content = result.content.trim();
+    return content.length > 0 ? content : null;
   } catch (err) {
-    const reason = err instanceof DOMException && err.name === "TimeoutError"
-      ? "timeout"
-      : "error";
+    const reason = err instanceof LLMError ? err.code : "error";
     console.error(`LLM summary generation failed: ${reason}`);
     return null;
   }
@@ -439,8 +419,16 @@ serve(async (req) => {
       // If usage check fails, skip LLM (fail closed)
     }
 
+    const llm = createLLMClient({
+      feature: "generate-meeting-summary",
+      defaultProvider: "xai",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: meeting.circle_id,
+    });
+
     const llmSummary = llmAllowed
-      ? await generateLLMSummary({
+      ? await generateLLMSummary(llm, {
           duration,
           attendeeNames,
           agendaItems,
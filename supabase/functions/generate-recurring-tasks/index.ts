@@ -0,0 +1,106 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import { RecurrenceRuleError } from "../_shared/recurrence/index.ts";
+import { materializeSeries, type TaskSeries } from "../_shared/task-series.ts";
+
+/**
+ * Generate Recurring Tasks (cron, hourly)
+ *
+ * Materializes the next MATERIALIZE_DAYS of each active task_series as OPEN
+ * tasks and ends series whose last occurrence has passed. Occurrences that
+ * already have an instance (including edited or canceled ones) are skipped.
+ */
+
+const PAGE_SIZE = 200;
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    const { data: ended, error: endError } = await supabase
+      .from("task_series")
+      .update({ status: "ENDED" })
+      .eq("status", "ACTIVE")
+      .lt("ends_at", now.toISOString())
+      .select("id");
+    if (endError) {
+      console.error("Failed to end finished series:", endError.code);
+      return errorResponse("DATABASE_ERROR", "Failed to update series", 500);
+    }
+
+    let processed = 0;
+    let created = 0;
+    let invalid = 0;
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: series, error } = await supabase
+        .from("task_series")
+        .select("*")
+        .eq("status", "ACTIVE")
+        .order("id")
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("Failed to fetch task series:", error.code);
+        return errorResponse("DATABASE_ERROR", "Failed to fetch series", 500);
+      }
+
+      for (const row of (series ?? []) as TaskSeries[]) {
+        let count: number | null;
+        try {
+          count = await materializeSeries(supabase, row, now, now);
+        } catch (error) {
+          // Rules are validated on write; skip one that no longer parses
+          if (!(error instanceof RecurrenceRuleError)) throw error;
+          console.warn(`Skipping series ${row.id}: invalid recurrence rule`);
+          invalid++;
+          continue;
+        }
+        if (count === null) {
+          return errorResponse(
+            "DATABASE_ERROR",
+            "Failed to create task instances",
+            500,
+          );
+        }
+        created += count;
+        processed++;
+      }
+
+      if (!series || series.length < PAGE_SIZE) break;
+    }
+
+    return jsonResponse({
+      success: true,
+      series_processed: processed,
+      series_ended: (ended ?? []).length,
+      series_skipped: invalid,
+      tasks_created: created,
+    });
+  } catch (error) {
+    console.error(
+      "Error generating recurring tasks:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  rankDelegationCandidates,
+  type RankedMember,
+} from "../_shared/delegation.ts";
 
 /**
  * Get Delegation Candidates
@@ -10,12 +14,7 @@ import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
  * across users. Only the requesting user's wellness data is ever accessed.
  */
 
-interface DelegationCandidate {
-  userId: string;
-  fullName: string;
-  role: string;
-  recentHandoffCount: number;
-  circleId: string;
+interface DelegationCandidate extends RankedMember {
   circleName: string;
 }
 
@@ -86,26 +85,19 @@ serve(async (req) => {
     }
 
     const circleIds = circles.map((c) => c.circle_id);
-    const sevenDaysAgo = new Date(
-      Date.now() - 7 * 24 * 60 * 60 * 1000,
-    ).toISOString();
 
-    // Get active members (Contributor, Admin, Owner) from user's circles
-    // Exclude the requesting user
-    const { data: members, error: membersError } = await supabaseService
-      .from("circle_members")
-      .select("user_id, role, circle_id, users(display_name)")
-      .in("circle_id", circleIds)
-      .neq("user_id", user.id)
-      .in("role", ["CONTRIBUTOR", "ADMIN", "OWNER"])
-      .eq("status", "ACTIVE");
+    // Active members (Contributor, Admin, Owner) from user's circles, ranked
+    // by recent handoff count. This is PUBLIC activity data, NOT wellness
+    // scores. Exclude the requesting user
+    const ranked = await rankDelegationCandidates(supabaseService, circleIds, {
+      excludeUserId: user.id,
+    });
 
-    if (membersError) {
-      console.error("Error fetching members:", membersError);
+    if (!ranked) {
       return errorResponse("DATABASE_ERROR", "Failed to fetch members", 500);
     }
 
-    if (!members || members.length === 0) {
+    if (ranked.length === 0) {
       return jsonResponse({
         success: true,
         candidates: [],
@@ -114,36 +106,14 @@ serve(async (req) => {
       });
     }
 
-    // Calculate recent handoff count for each member (last 7 days)
-    // This is PUBLIC activity data, NOT wellness scores
-    const candidates: DelegationCandidate[] = await Promise.all(
-      members.map(async (member) => {
-        const { count: recentHandoffCount } = await supabaseService
-          .from("handoffs")
-          .select("*", { count: "exact", head: true })
-          .eq("created_by", member.user_id)
-          .gte("created_at", sevenDaysAgo);
-
-        const circle = circles.find((c) => c.circle_id === member.circle_id);
-
-        return {
-          userId: member.user_id,
-          fullName:
-            (member.users as { display_name: string })?.display_name ||
-            "Unknown",
-          role: member.role,
-          recentHandoffCount: recentHandoffCount || 0,
-          circleId: member.circle_id,
-          circleName:
-            (circle?.circles as { name: string })?.name || "Care Circle",
-        };
-      }),
-    );
-
-    // Sort by recent activity (lower = more available to help)
-    const sortedCandidates = candidates.sort(
-      (a, b) => a.recentHandoffCount - b.recentHandoffCount,
-    );
+    const sortedCandidates: DelegationCandidate[] = ranked.map((member) => {
+      const circle = circles.find((c) => c.circle_id === member.circleId);
+      return {
+        ...member,
+        circleName:
+          (circle?.circles as { name: string })?.name || "Care Circle",
+      };
+    });
 
     const response: DelegationCandidatesResponse = {
       success: true,
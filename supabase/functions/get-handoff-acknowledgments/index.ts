@@ -0,0 +1,275 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+
+/**
+ * Get Handoff Acknowledgments
+ *
+ * Reports, for each critical handoff in a circle (one published with
+ * members asked to acknowledge it), who has acknowledged it, who has only
+ * opened it since it was sent, and who has not seen it. By default only
+ * handoffs with someone still outstanding are returned; pass handoff_id
+ * for one handoff or include_completed for the full history.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+interface AckRequest {
+  circle_id: string;
+  handoff_id?: string;
+  include_completed?: boolean;
+  limit?: number;
+}
+
+interface AckRequestRow {
+  handoff_id: string;
+  user_id: string;
+  revision: number;
+  requested_by: string;
+  requested_at: string;
+  due_at: string;
+  acknowledged_at: string | null;
+  escalation_level: number;
+}
+
+type MemberStatus = "ACKNOWLEDGED" | "SEEN" | "NOT_SEEN";
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: AckRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    const { circle_id, handoff_id } = body;
+    if (!circle_id || !isValidUUID(circle_id)) {
+      return errorResponse("VALIDATION_ERROR", "circle_id is required", 400);
+    }
+    if (handoff_id !== undefined && !isValidUUID(handoff_id)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "handoff_id must be a UUID",
+        400,
+      );
+    }
+    const limit = Math.min(
+      Math.max(Number.isInteger(body.limit) ? body.limit! : DEFAULT_LIMIT, 1),
+      MAX_LIMIT,
+    );
+
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .maybeSingle();
+    if (!membership) {
+      return errorResponse(
+        "AUTH_ROLE_FORBIDDEN",
+        "Not a member of this circle",
+        403,
+      );
+    }
+
+    // Handoffs to report, most recently requested first
+    let handoffQuery = supabaseService
+      .from("handoff_ack_requests")
+      .select("handoff_id, requested_at")
+      .eq("circle_id", circle_id)
+      .order("requested_at", { ascending: false })
+      .limit(MAX_LIMIT * 10);
+    if (handoff_id) handoffQuery = handoffQuery.eq("handoff_id", handoff_id);
+    if (!body.include_completed && !handoff_id) {
+      handoffQuery = handoffQuery.is("acknowledged_at", null);
+    }
+
+    const { data: recent, error: recentError } = await handoffQuery;
+    if (recentError) {
+      console.error(
+        "Failed to fetch acknowledgment requests:",
+        recentError.code,
+      );
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch acknowledgments",
+        500,
+      );
+    }
+
+    const handoffIds = [
+      ...new Set(
+        ((recent ?? []) as { handoff_id: string }[]).map((r) => r.handoff_id),
+      ),
+    ].slice(0, limit);
+    if (handoffIds.length === 0) {
+      return jsonResponse({ success: true, handoffs: [] });
+    }
+
+    const [requestsResult, handoffsResult, receiptsResult] = await Promise.all([
+      supabaseService
+        .from("handoff_ack_requests")
+        .select(
+          "handoff_id, user_id, revision, requested_by, requested_at, due_at, acknowledged_at, escalation_level",
+        )
+        .in("handoff_id", handoffIds),
+      supabaseService
+        .from("handoffs")
+        .select("id, title, current_revision, published_at")
+        .in("id", handoffIds),
+      supabaseService
+        .from("read_receipts")
+        .select("handoff_id, user_id, read_at")
+        .in("handoff_id", handoffIds),
+    ]);
+
+    const failed = [requestsResult, handoffsResult, receiptsResult].find(
+      (r) => r.error,
+    );
+    if (failed) {
+      console.error("Failed to load acknowledgments:", failed.error!.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch acknowledgments",
+        500,
+      );
+    }
+
+    const requests = (requestsResult.data ?? []) as AckRequestRow[];
+    const userIds = [...new Set(requests.map((r) => r.user_id))];
+    const { data: users } = await supabaseService
+      .from("users")
+      .select("id, display_name")
+      .in("id", userIds);
+    const names = new Map(
+      ((users ?? []) as { id: string; display_name: string }[]).map((u) => [
+        u.id,
+        u.display_name,
+      ]),
+    );
+
+    const readAt = new Map(
+      (
+        (receiptsResult.data ?? []) as {
+          handoff_id: string;
+          user_id: string;
+          read_at: string;
+        }[]
+      ).map((r) => [`${r.handoff_id}|${r.user_id}`, r.read_at]),
+    );
+    const handoffs = new Map(
+      (
+        (handoffsResult.data ?? []) as {
+          id: string;
+          title: string;
+          current_revision: number;
+          published_at: string | null;
+        }[]
+      ).map((h) => [h.id, h]),
+    );
+
+    const now = Date.now();
+    const report = handoffIds
+      .filter((id) => handoffs.has(id))
+      .map((id) => {
+        const handoff = handoffs.get(id)!;
+        const members = requests
+          .filter((r) => r.handoff_id === id)
+          .map((r) => {
+            const read = readAt.get(`${id}|${r.user_id}`) ?? null;
+            // Only opens after the request count as seeing this update
+            const seenAt =
+              read && Date.parse(read) >= Date.parse(r.requested_at)
+                ? read
+                : null;
+            const status: MemberStatus = r.acknowledged_at
+              ? "ACKNOWLEDGED"
+              : seenAt
+                ? "SEEN"
+                : "NOT_SEEN";
+            return {
+              user_id: r.user_id,
+              display_name: names.get(r.user_id) ?? null,
+              status,
+              seen_at: seenAt,
+              acknowledged_at: r.acknowledged_at,
+              due_at: r.due_at,
+              overdue: !r.acknowledged_at && Date.parse(r.due_at) < now,
+              escalation_level: r.escalation_level,
+              revision: r.revision,
+            };
+          })
+          .sort((a, b) =>
+            (a.display_name ?? "").localeCompare(b.display_name ?? ""),
+          );
+
+        const latest = requests
+          .filter((r) => r.handoff_id === id)
+          .reduce((a, b) =>
+            Date.parse(a.requested_at) >= Date.parse(b.requested_at) ? a : b,
+          );
+
+        return {
+          handoff_id: id,
+          title: handoff.title,
+          revision: handoff.current_revision,
+          published_at: handoff.published_at,
+          requested_by: latest.requested_by,
+          requested_at: latest.requested_at,
+          counts: {
+            total: members.length,
+            acknowledged: members.filter((m) => m.status === "ACKNOWLEDGED")
+              .length,
+            seen: members.filter((m) => m.status === "SEEN").length,
+            not_seen: members.filter((m) => m.status === "NOT_SEEN").length,
+          },
+          members,
+        };
+      });
+
+    return jsonResponse({ success: true, handoffs: report });
+  } catch (error) {
+    console.error(
+      "Error fetching handoff acknowledgments:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
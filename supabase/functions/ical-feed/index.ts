@@ -1,5 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { isValidTimeZone } from "../_shared/timezone.ts";
+import {
+  buildAlarm,
+  buildTimeZone,
+  escapeText,
+  foldLine,
+  formatDate,
+  formatDateTime,
+  formatZonedDateTime,
+  truncateText,
+} from "../_shared/calendar/index.ts";
 
 /**
  * iCal Feed Edge Function
@@ -8,14 +19,27 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
  * Access via GET /functions/v1/ical-feed/{token}
  *
  * Token validation is handled by the validate_ical_token database function.
+ *
+ * Recurring tasks are emitted as one VEVENT per task_series with an RRULE,
+ * an EXDATE for each completed or canceled instance, and an overriding
+ * VEVENT (RECURRENCE-ID) for each instance edited on its own. Imported
+ * recurring appointments are written the same way.
+ *
+ * A feed with assignee_scope MINE lists only the tasks and shifts of the
+ * member who created it. Times are local, with a VTIMEZONE for each zone
+ * used, and the feed carries a strong ETag so that calendar apps polling
+ * with If-None-Match get a 304 while nothing has changed. Each DTSTAMP is
+ * the row's updated_at rather than the request time for the same reason.
  */
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, if-none-match",
 };
 
+const CACHE_CONTROL = "private, max-age=900"; // 15 minute cache for calendar apps
+
 interface FeedConfig {
   include_tasks: boolean;
   include_shifts: boolean;
@@ -24,6 +48,24 @@ interface FeedConfig {
   patient_ids: string[] | null;
   show_minimal_details: boolean;
   lookahead_days: number;
+  assignee_scope: "CIRCLE" | "MINE";
+  reminder_minutes: number[] | null;
+  timezone: string | null;
+  created_by: string;
+}
+
+/** How every event in one feed is written */
+interface FeedOptions {
+  minimal: boolean;
+  /** Zone for one-off events; null writes them in their own zone */
+  timeZone: string | null;
+  /** VALARM offsets for every event; empty leaves appointments their own */
+  reminders: number[];
+}
+
+interface PatientRef {
+  display_name: string;
+  timezone: string | null;
 }
 
 interface TaskEvent {
@@ -35,7 +77,23 @@ interface TaskEvent {
   due_at: string;
   priority: string;
   status: string;
-  patients: { display_name: string } | null;
+  series_id: string | null;
+  recurrence_at: string | null;
+  is_exception: boolean;
+  updated_at: string;
+  patients: PatientRef | null;
+}
+
+interface SeriesEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  priority: string;
+  rrule: string;
+  dtstart: string;
+  timezone: string;
+  updated_at: string;
+  patients: PatientRef | null;
 }
 
 interface ShiftEvent {
@@ -43,21 +101,43 @@ interface ShiftEvent {
   circle_id: string;
   patient_id: string | null;
   owner_user_id: string;
-  start_time: string;
-  end_time: string;
+  start_at: string;
+  end_at: string;
   status: string;
   notes: string | null;
-  patients: { display_name: string } | null;
+  updated_at: string;
+  patients: PatientRef | null;
   users: { display_name: string } | null;
 }
 
 interface AppointmentEvent {
+  id: string;
+  binder_item_id: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start_at: string;
+  end_at: string;
+  all_day: boolean;
+  timezone: string | null;
+  rrule: string | null;
+  exdates: string[];
+  recurrence_id: string | null;
+  reminder_minutes: number[];
+  status: string;
+  external_uid: string | null;
+  updated_at: string;
+  patients: PatientRef | null;
+}
+
+interface ContactEvent {
   id: string;
   circle_id: string;
   patient_id: string | null;
   title: string;
-  content_json: string;
-  patients: { display_name: string } | null;
+  content_json: Record<string, unknown> | null;
+  updated_at: string;
+  patients: PatientRef | null;
 }
 
 serve(async (req) => {
@@ -136,6 +216,7 @@ serve(async (req) => {
         TOKEN_NOT_FOUND: "Invalid feed URL",
         TOKEN_REVOKED: "This feed URL has been revoked",
         TOKEN_EXPIRED: "This feed URL has expired",
+        MEMBER_INACTIVE: "This feed's owner is no longer in the care circle",
         RATE_LIMITED: "Too many requests. Please try again later.",
       };
       return new Response(
@@ -157,7 +238,10 @@ serve(async (req) => {
 
     // SECURITY: Default to minimal details to prevent PHI leakage in calendar feeds.
     // Only show full details if explicitly opted in.
-    if (feedConfig.show_minimal_details === undefined || feedConfig.show_minimal_details === null) {
+    if (
+      feedConfig.show_minimal_details === undefined ||
+      feedConfig.show_minimal_details === null
+    ) {
       feedConfig.show_minimal_details = true;
     }
 
@@ -200,6 +284,19 @@ serve(async (req) => {
       }
     }
 
+    // A MINE feed lists the creator's own tasks and shifts
+    const ownerId =
+      feedConfig.assignee_scope === "MINE" ? feedConfig.created_by : null;
+
+    const options: FeedOptions = {
+      minimal: feedConfig.show_minimal_details,
+      timeZone:
+        feedConfig.timezone && isValidTimeZone(feedConfig.timezone)
+          ? feedConfig.timezone
+          : null,
+      reminders: feedConfig.reminder_minutes ?? [],
+    };
+
     // Get circle info for calendar name
     const { data: circle } = await supabase
       .from("circles")
@@ -216,24 +313,67 @@ serve(async (req) => {
     const endDate = new Date(now);
     endDate.setDate(endDate.getDate() + feedConfig.lookahead_days);
 
-    const events: string[] = [];
+    const events: VEventParams[] = [];
 
     // Fetch tasks
     if (feedConfig.include_tasks) {
+      // Active series overlapping the window; their instances are covered by
+      // the series RRULE
+      let seriesQuery = supabase
+        .from("task_series")
+        .select(
+          "id, title, description, priority, rrule, dtstart, timezone, updated_at, patients(display_name, timezone)",
+        )
+        .eq("circle_id", circleId)
+        .eq("status", "ACTIVE")
+        .lte("dtstart", endDate.toISOString())
+        .or(`ends_at.is.null,ends_at.gte.${startDate.toISOString()}`)
+        .order("dtstart")
+        .order("id");
+
+      if (feedConfig.patient_ids && feedConfig.patient_ids.length > 0) {
+        seriesQuery = seriesQuery.in("patient_id", feedConfig.patient_ids);
+      }
+      if (ownerId) {
+        seriesQuery = seriesQuery.eq("owner_user_id", ownerId);
+      }
+
+      const { data: seriesRows, error: seriesError } = await seriesQuery;
+
+      if (seriesError) {
+        console.error(
+          "Task series query error:",
+          seriesError.message || "Unknown error",
+        );
+        // Continue without series; their open instances are listed singly
+      }
+
+      const series = new Map(
+        ((seriesRows ?? []) as unknown as SeriesEvent[]).map((row) => [
+          row.id,
+          row,
+        ]),
+      );
+
       let taskQuery = supabase
         .from("tasks")
         .select(
-          "id, circle_id, patient_id, title, description, due_at, priority, status, patients(display_name)",
+          "id, circle_id, patient_id, title, description, due_at, priority, status, series_id, recurrence_at, is_exception, updated_at, patients(display_name, timezone)",
         )
         .eq("circle_id", circleId)
         .eq("status", "OPEN")
         .not("due_at", "is", null)
         .gte("due_at", startDate.toISOString())
-        .lte("due_at", endDate.toISOString());
+        .lte("due_at", endDate.toISOString())
+        .order("due_at")
+        .order("id");
 
       if (feedConfig.patient_ids && feedConfig.patient_ids.length > 0) {
         taskQuery = taskQuery.in("patient_id", feedConfig.patient_ids);
       }
+      if (ownerId) {
+        taskQuery = taskQuery.eq("owner_user_id", ownerId);
+      }
 
       const { data: tasks, error: taskError } = await taskQuery;
 
@@ -245,9 +385,49 @@ serve(async (req) => {
         // Continue with empty tasks rather than failing entire feed
       } else if (tasks) {
         for (const task of tasks as unknown as TaskEvent[]) {
-          events.push(formatTaskEvent(task, feedConfig.show_minimal_details));
+          const parent = task.series_id ? series.get(task.series_id) : null;
+          if (parent && !task.is_exception) continue;
+          events.push(formatTaskEvent(task, options, parent));
         }
       }
+
+      // Completed and canceled instances are excluded from their series, as
+      // are instances of the member's series handed to someone else
+      const exdates = new Map<string, string[]>();
+      if (series.size > 0) {
+        let closedQuery = supabase
+          .from("tasks")
+          .select("series_id, recurrence_at")
+          .in("series_id", [...series.keys()])
+          .gte("recurrence_at", startDate.toISOString())
+          .order("recurrence_at");
+        closedQuery = ownerId
+          ? closedQuery.or(`status.neq.OPEN,owner_user_id.neq.${ownerId}`)
+          : closedQuery.neq("status", "OPEN");
+
+        const { data: closed, error: closedError } = await closedQuery;
+
+        if (closedError) {
+          console.error(
+            "Task instance query error:",
+            closedError.message || "Unknown error",
+          );
+        }
+
+        for (const row of (closed ?? []) as {
+          series_id: string;
+          recurrence_at: string;
+        }[]) {
+          exdates.set(row.series_id, [
+            ...(exdates.get(row.series_id) ?? []),
+            row.recurrence_at,
+          ]);
+        }
+      }
+
+      for (const row of series.values()) {
+        events.push(formatSeriesEvent(row, exdates.get(row.id) ?? [], options));
+      }
     }
 
     // Fetch shifts
@@ -255,16 +435,21 @@ serve(async (req) => {
       let shiftQuery = supabase
         .from("care_shifts")
         .select(
-          "id, circle_id, patient_id, owner_user_id, start_time, end_time, status, notes, patients(display_name), users:owner_user_id(display_name)",
+          "id, circle_id, patient_id, owner_user_id, start_at, end_at, status, notes, updated_at, patients(display_name, timezone), users:owner_user_id(display_name)",
         )
         .eq("circle_id", circleId)
-        .in("status", ["SCHEDULED", "IN_PROGRESS"])
-        .gte("start_time", startDate.toISOString())
-        .lte("start_time", endDate.toISOString());
+        .in("status", ["SCHEDULED", "ACTIVE"])
+        .gte("start_at", startDate.toISOString())
+        .lte("start_at", endDate.toISOString())
+        .order("start_at")
+        .order("id");
 
       if (feedConfig.patient_ids && feedConfig.patient_ids.length > 0) {
         shiftQuery = shiftQuery.in("patient_id", feedConfig.patient_ids);
       }
+      if (ownerId) {
+        shiftQuery = shiftQuery.eq("owner_user_id", ownerId);
+      }
 
       const { data: shifts, error: shiftError } = await shiftQuery;
 
@@ -276,67 +461,107 @@ serve(async (req) => {
         // Continue with empty shifts rather than failing entire feed
       } else if (shifts) {
         for (const shift of shifts as unknown as ShiftEvent[]) {
-          events.push(formatShiftEvent(shift, feedConfig.show_minimal_details));
+          events.push(formatShiftEvent(shift, options));
         }
       }
     }
 
-    // Fetch appointments (from binder items with type CONTACT that have appointment data)
+    // Fetch appointments: imported appointments, and the next appointment
+    // noted on binder CONTACT items. Appointments are nobody's assignment,
+    // so a MINE feed includes them as a CIRCLE feed does.
     if (feedConfig.include_appointments) {
-      let appointmentQuery = supabase
+      // Recurring appointments are kept whenever they started, since their
+      // RRULE reaches into the window
+      let importedQuery = supabase
+        .from("appointments")
+        .select(
+          "id, binder_item_id, title, description, location, start_at, end_at, all_day, timezone, rrule, exdates, recurrence_id, reminder_minutes, status, external_uid, updated_at, patients(display_name, timezone)",
+        )
+        .eq("circle_id", circleId)
+        .lte("start_at", endDate.toISOString())
+        .or(`rrule.not.is.null,start_at.gte.${startDate.toISOString()}`)
+        .order("start_at")
+        .order("id");
+
+      if (feedConfig.patient_ids && feedConfig.patient_ids.length > 0) {
+        importedQuery = importedQuery.in("patient_id", feedConfig.patient_ids);
+      }
+
+      const { data: imported, error: importedError } = await importedQuery;
+
+      if (importedError) {
+        console.error(
+          "Appointment query error:",
+          importedError.message || "Unknown error",
+        );
+      }
+
+      const appointments = (imported ?? []) as unknown as AppointmentEvent[];
+      events.push(...formatAppointments(appointments, options));
+
+      // A contact's nextAppointment that was also imported is listed once
+      const importedStarts = new Set(
+        appointments
+          .filter((appt) => appt.binder_item_id)
+          .map((appt) => `${appt.binder_item_id}|${Date.parse(appt.start_at)}`),
+      );
+
+      let contactQuery = supabase
         .from("binder_items")
         .select(
-          "id, circle_id, patient_id, title, content_json, patients(display_name)",
+          "id, circle_id, patient_id, title, content_json, updated_at, patients(display_name, timezone)",
         )
         .eq("circle_id", circleId)
         .eq("type", "CONTACT")
-        .eq("is_active", true);
+        .eq("is_active", true)
+        .order("id");
 
       if (feedConfig.patient_ids && feedConfig.patient_ids.length > 0) {
-        appointmentQuery = appointmentQuery.in(
-          "patient_id",
-          feedConfig.patient_ids,
-        );
+        contactQuery = contactQuery.in("patient_id", feedConfig.patient_ids);
       }
 
-      const { data: appointments, error: appointmentError } =
-        await appointmentQuery;
+      const { data: contacts, error: contactError } = await contactQuery;
 
-      if (appointmentError) {
+      if (contactError) {
         console.error(
           "Appointment query error:",
-          appointmentError.message || "Unknown error",
+          contactError.message || "Unknown error",
         );
         // Continue with empty appointments rather than failing entire feed
-      } else if (appointments) {
-        for (const appt of appointments as unknown as AppointmentEvent[]) {
-          // Parse content_json to check for appointment data
-          try {
-            const content = JSON.parse(appt.content_json);
-            if (content.nextAppointment) {
-              const appointmentDate = new Date(content.nextAppointment);
-              if (appointmentDate >= startDate && appointmentDate <= endDate) {
-                events.push(
-                  formatAppointmentEvent(
-                    appt,
-                    content,
-                    feedConfig.show_minimal_details,
-                  ),
-                );
-              }
-            }
-          } catch (e) {
-            // Log parsing errors for debugging but continue processing
+      } else if (contacts) {
+        for (const contact of contacts as unknown as ContactEvent[]) {
+          const next = contact.content_json?.nextAppointment;
+          if (typeof next !== "string") continue;
+          const appointmentDate = new Date(next);
+          if (isNaN(appointmentDate.getTime())) {
             console.warn(
-              `Skipping appointment ${appt.id} - invalid JSON: ${e instanceof Error ? e.message : "Unknown error"}`,
+              `Skipping appointment ${contact.id} - invalid nextAppointment`,
             );
+            continue;
+          }
+          if (
+            appointmentDate >= startDate &&
+            appointmentDate <= endDate &&
+            !importedStarts.has(`${contact.id}|${appointmentDate.getTime()}`)
+          ) {
+            events.push(formatContactAppointment(contact, options));
           }
         }
       }
     }
 
     // Generate iCalendar content
-    const icalContent = generateICalendar(calendarName, events);
+    const icalContent = generateICalendar(
+      calendarName,
+      events,
+      options.timeZone,
+      endDate,
+    );
+    const etag = await entityTag(icalContent);
+    const notModified = matchesEntityTag(
+      req.headers.get("If-None-Match"),
+      etag,
+    );
 
     // Audit log successful feed access (non-blocking)
     console.log(
@@ -345,10 +570,18 @@ serve(async (req) => {
         feed_token_id: validation.token_id,
         circle_id: circleId,
         event_count: events.length,
+        not_modified: notModified,
         accessed_at: new Date().toISOString(),
       }),
     );
 
+    if (notModified) {
+      return new Response(null, {
+        status: 304,
+        headers: { ...corsHeaders, ETag: etag, "Cache-Control": CACHE_CONTROL },
+      });
+    }
+
     // Return iCalendar response
     return new Response(icalContent, {
       status: 200,
@@ -356,7 +589,8 @@ serve(async (req) => {
         ...corsHeaders,
         "Content-Type": "text/calendar; charset=utf-8",
         "Content-Disposition": `attachment; filename="curaknot-calendar.ics"`,
-        "Cache-Control": "private, max-age=900", // 15 minute cache for calendar apps
+        "Cache-Control": CACHE_CONTROL,
+        ETag: etag,
       },
     });
   } catch (error) {
@@ -373,13 +607,30 @@ serve(async (req) => {
 
 // MARK: - Event Formatters
 
-function formatTaskEvent(task: TaskEvent, minimal: boolean): string {
+/** `timeZone` if it is a known IANA zone, otherwise UTC */
+function validZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+}
+
+/** Zone for a one-off event: the feed's, else the event's or its patient's */
+function oneOffZone(
+  options: FeedOptions,
+  ...own: (string | null | undefined)[]
+): string {
+  return validZone(options.timeZone ?? own.find(Boolean));
+}
+
+function formatTaskEvent(
+  task: TaskEvent,
+  options: FeedOptions,
+  series?: SeriesEvent | null,
+): VEventParams {
   const dueDate = new Date(task.due_at);
   const endDate = new Date(dueDate.getTime() + 30 * 60 * 1000); // 30 minutes
 
-  const title = minimal ? "CuraKnot Event" : `CK: ${task.title}`;
+  const title = options.minimal ? "CuraKnot Event" : `CK: ${task.title}`;
 
-  const description = minimal
+  const description = options.minimal
     ? ""
     : [
         task.description,
@@ -389,73 +640,211 @@ function formatTaskEvent(task: TaskEvent, minimal: boolean): string {
         `Priority: ${task.priority}`,
       ]
         .filter(Boolean)
-        .join("\\n");
+        .join("\n");
+
+  // An edited instance overrides its occurrence of the series
+  if (series && task.recurrence_at) {
+    return {
+      uid: `task-series-${series.id}@curaknot.app`,
+      summary: title,
+      description,
+      start: dueDate,
+      end: endDate,
+      timeZone: validZone(series.timezone),
+      recurrenceId: new Date(task.recurrence_at),
+      categories: "TASK",
+      updatedAt: task.updated_at,
+      alarms: options.reminders,
+    };
+  }
 
-  return formatVEvent({
+  return {
     uid: `task-${task.id}@curaknot.app`,
     summary: title,
     description,
-    dtstart: formatDateTime(dueDate),
-    dtend: formatDateTime(endDate),
+    start: dueDate,
+    end: endDate,
+    timeZone: oneOffZone(options, task.patients?.timezone),
     categories: "TASK",
-  });
+    updatedAt: task.updated_at,
+    alarms: options.reminders,
+  };
 }
 
-function formatShiftEvent(shift: ShiftEvent, minimal: boolean): string {
-  const startDate = new Date(shift.start_time);
-  const endDate = new Date(shift.end_time);
+function formatSeriesEvent(
+  series: SeriesEvent,
+  exdates: string[],
+  options: FeedOptions,
+): VEventParams {
+  const start = new Date(series.dtstart);
+  const end = new Date(start.getTime() + 30 * 60 * 1000); // 30 minutes
+
+  const title = options.minimal ? "CuraKnot Event" : `CK: ${series.title}`;
+
+  const description = options.minimal
+    ? ""
+    : [
+        series.description,
+        series.patients?.display_name
+          ? `Patient: ${series.patients.display_name}`
+          : null,
+        `Priority: ${series.priority}`,
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+  // A recurrence repeats in the zone its rule was written in
+  return {
+    uid: `task-series-${series.id}@curaknot.app`,
+    summary: title,
+    description,
+    start,
+    end,
+    timeZone: validZone(series.timezone),
+    rrule: series.rrule,
+    exdates: exdates.map((at) => new Date(at)),
+    categories: "TASK",
+    updatedAt: series.updated_at,
+    alarms: options.reminders,
+  };
+}
 
+function formatShiftEvent(
+  shift: ShiftEvent,
+  options: FeedOptions,
+): VEventParams {
   const patientName = shift.patients?.display_name || "Patient";
   const ownerName = shift.users?.display_name || "Caregiver";
 
-  const title = minimal
+  const title = options.minimal
     ? "CuraKnot Shift"
     : `CK Shift: ${patientName} - ${ownerName}`;
 
-  const description = minimal ? "" : shift.notes || "";
+  const description = options.minimal ? "" : shift.notes || "";
 
-  return formatVEvent({
+  return {
     uid: `shift-${shift.id}@curaknot.app`,
     summary: title,
     description,
-    dtstart: formatDateTime(startDate),
-    dtend: formatDateTime(endDate),
+    start: new Date(shift.start_at),
+    end: new Date(shift.end_at),
+    timeZone: oneOffZone(options, shift.patients?.timezone),
     categories: "SHIFT",
-  });
+    updatedAt: shift.updated_at,
+    alarms: options.reminders,
+  };
 }
 
-function formatAppointmentEvent(
-  appt: AppointmentEvent,
-  content: any,
-  minimal: boolean,
-): string {
+/**
+ * Imported appointments. A recurring appointment is one VEVENT with its
+ * RRULE; an instance the sender changed is an override of it, and one the
+ * sender canceled becomes an EXDATE.
+ */
+function formatAppointments(
+  rows: AppointmentEvent[],
+  options: FeedOptions,
+): VEventParams[] {
+  const isSeries = (row: AppointmentEvent) =>
+    Boolean(row.rrule) && !row.recurrence_id;
+  const seriesKey = (row: AppointmentEvent) => row.external_uid ?? row.id;
+
+  const series = new Map<string, AppointmentEvent>();
+  for (const row of rows) {
+    if (isSeries(row) && row.status === "SCHEDULED") {
+      series.set(seriesKey(row), row);
+    }
+  }
+
+  const canceled = new Map<string, Date[]>();
+  for (const row of rows) {
+    const parent = row.recurrence_id ? series.get(seriesKey(row)) : undefined;
+    if (parent && row.status === "CANCELED") {
+      canceled.set(parent.id, [
+        ...(canceled.get(parent.id) ?? []),
+        new Date(row.recurrence_id!),
+      ]);
+    }
+  }
+
+  const events: VEventParams[] = [];
+  for (const row of rows) {
+    if (row.status !== "SCHEDULED") continue;
+    const parent = row.recurrence_id ? series.get(seriesKey(row)) : undefined;
+    const recurring = isSeries(row) ? row : parent;
+
+    const patientName = row.patients?.display_name || "Patient";
+    const title = options.minimal
+      ? "CuraKnot Appointment"
+      : `CK Appt: ${patientName} - ${row.title}`;
+
+    const event: VEventParams = {
+      uid: `appointment-${recurring?.id ?? row.id}@curaknot.app`,
+      summary: title,
+      description: options.minimal ? "" : row.description || "",
+      location: options.minimal ? "" : row.location || "",
+      start: new Date(row.start_at),
+      end: new Date(row.end_at),
+      allDay: row.all_day,
+      timeZone: recurring
+        ? validZone(recurring.timezone ?? recurring.patients?.timezone)
+        : oneOffZone(options, row.timezone, row.patients?.timezone),
+      categories: "APPOINTMENT",
+      updatedAt: row.updated_at,
+      alarms: options.reminders.length
+        ? options.reminders
+        : row.reminder_minutes,
+    };
+
+    if (isSeries(row)) {
+      event.rrule = row.rrule!;
+      event.exdates = [
+        ...row.exdates.map((at) => new Date(at)),
+        ...(canceled.get(row.id) ?? []),
+      ];
+    } else if (parent) {
+      event.recurrenceId = new Date(row.recurrence_id!);
+    }
+    events.push(event);
+  }
+  return events;
+}
+
+function formatContactAppointment(
+  contact: ContactEvent,
+  options: FeedOptions,
+): VEventParams {
+  // deno-lint-ignore no-explicit-any
+  const content = (contact.content_json ?? {}) as Record<string, any>;
   const appointmentDate = new Date(content.nextAppointment);
   const endDate = new Date(appointmentDate.getTime() + 60 * 60 * 1000); // 1 hour
 
-  const patientName = appt.patients?.display_name || "Patient";
-  const providerName = content.name || appt.title;
+  const patientName = contact.patients?.display_name || "Patient";
+  const providerName = content.name || contact.title;
 
-  const title = minimal
+  const title = options.minimal
     ? "CuraKnot Appointment"
     : `CK Appt: ${patientName} - ${providerName}`;
 
-  const description = minimal
+  const description = options.minimal
     ? ""
     : [content.organization, content.address, content.phone, content.notes]
         .filter(Boolean)
-        .join("\\n");
+        .join("\n");
 
   const location = content.address || "";
 
-  return formatVEvent({
-    uid: `appt-${appt.id}@curaknot.app`,
+  return {
+    uid: `appt-${contact.id}@curaknot.app`,
     summary: title,
     description,
-    dtstart: formatDateTime(appointmentDate),
-    dtend: formatDateTime(endDate),
+    start: appointmentDate,
+    end: endDate,
+    timeZone: oneOffZone(options, contact.patients?.timezone),
     location,
     categories: "APPOINTMENT",
-  });
+    updatedAt: contact.updated_at,
+    alarms: options.reminders,
+  };
 }
 
 // MARK: - iCalendar Helpers
@@ -464,114 +853,153 @@ interface VEventParams {
   uid: string;
   summary: string;
   description?: string;
-  dtstart: string;
-  dtend: string;
+  start: Date;
+  end: Date;
+  /** Zone the event's times are written in; UTC writes "Z" times */
+  timeZone: string;
+  allDay?: boolean;
+  rrule?: string;
+  exdates?: Date[];
+  recurrenceId?: Date;
   location?: string;
   categories?: string;
+  /** The row's updated_at, written as DTSTAMP */
+  updatedAt: string;
+  /** Minutes before the start for each VALARM */
+  alarms?: number[];
 }
 
 function formatVEvent(params: VEventParams): string {
   const lines: string[] = [
     "BEGIN:VEVENT",
-    foldLine(`UID:${params.uid}`),
-    foldLine(`DTSTAMP:${formatDateTime(new Date())}`),
-    foldLine(`DTSTART:${params.dtstart}`),
-    foldLine(`DTEND:${params.dtend}`),
-    foldLine(`SUMMARY:${escapeICalText(params.summary)}`),
+    `UID:${params.uid}`,
+    `DTSTAMP:${formatDateTime(new Date(params.updatedAt))}`,
   ];
 
+  const qualifier = params.allDay
+    ? ";VALUE=DATE"
+    : params.timeZone === "UTC"
+      ? ""
+      : `;TZID=${params.timeZone}`;
+  // All-day dates are stored as midnight UTC
+  const value = (date: Date) =>
+    params.allDay
+      ? formatDate(date, "UTC")
+      : formatZonedDateTime(date, params.timeZone);
+
+  lines.push(
+    `DTSTART${qualifier}:${value(params.start)}`,
+    `DTEND${qualifier}:${value(params.end)}`,
+  );
+
+  if (params.recurrenceId) {
+    lines.push(`RECURRENCE-ID${qualifier}:${value(params.recurrenceId)}`);
+  }
+
+  if (params.rrule) {
+    lines.push(`RRULE:${params.rrule}`);
+  }
+
+  if (params.exdates && params.exdates.length > 0) {
+    lines.push(`EXDATE${qualifier}:${params.exdates.map(value).join(",")}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(params.summary)}`);
+
   if (params.description) {
-    lines.push(
-      foldLine(
-        `DESCRIPTION:${escapeICalText(truncateText(params.description))}`,
-      ),
-    );
+    lines.push(`DESCRIPTION:${escapeText(truncateText(params.description))}`);
   }
 
   if (params.location) {
-    lines.push(foldLine(`LOCATION:${escapeICalText(params.location)}`));
+    lines.push(`LOCATION:${escapeText(params.location)}`);
   }
 
   if (params.categories) {
-    lines.push(foldLine(`CATEGORIES:${params.categories}`));
+    lines.push(`CATEGORIES:${params.categories}`);
+  }
+
+  for (const minutes of params.alarms ?? []) {
+    lines.push(...buildAlarm(minutes, params.summary));
   }
 
   lines.push("END:VEVENT");
 
-  return lines.join("\r\n");
+  return lines.map(foldLine).join("\r\n");
 }
 
-function generateICalendar(calendarName: string, events: string[]): string {
+/**
+ * The feed, with a VTIMEZONE for every zone its events use. Each VTIMEZONE
+ * runs from the start of the year of the zone's earliest event to the end
+ * of the year after the window, so it only changes when the data does.
+ */
+function generateICalendar(
+  calendarName: string,
+  events: VEventParams[],
+  timeZone: string | null,
+  windowEnd: Date,
+): string {
   const header = [
     "BEGIN:VCALENDAR",
     "VERSION:2.0",
     "PRODID:-//CuraKnot//Care Calendar//EN",
     "CALSCALE:GREGORIAN",
     "METHOD:PUBLISH",
-    `X-WR-CALNAME:${escapeICalText(calendarName)}`,
-    "X-WR-TIMEZONE:UTC",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...(timeZone ? [`X-WR-TIMEZONE:${timeZone}`] : []),
     "REFRESH-INTERVAL;VALUE=DURATION:PT15M",
-  ].join("\r\n");
-
-  const footer = "END:VCALENDAR";
+  ];
 
-  return `${header}\r\n${events.join("\r\n")}\r\n${footer}`;
-}
+  const earliest = new Map<string, number>();
+  for (const event of events) {
+    if (event.allDay || event.timeZone === "UTC") continue;
+    const start = Math.min(
+      event.start.getTime(),
+      event.recurrenceId?.getTime() ?? Infinity,
+    );
+    earliest.set(
+      event.timeZone,
+      Math.min(earliest.get(event.timeZone) ?? Infinity, start),
+    );
+  }
 
-function formatDateTime(date: Date): string {
-  // Format as iCalendar datetime (UTC)
-  return date
-    .toISOString()
-    .replace(/[-:]/g, "")
-    .replace(/\.\d{3}/, "");
-}
+  const coverageEnd = new Date(Date.UTC(windowEnd.getUTCFullYear() + 2, 0, 1));
+  const timeZones = [...earliest.keys()]
+    .sort()
+    .flatMap((zone) =>
+      buildTimeZone(
+        zone,
+        new Date(
+          Date.UTC(new Date(earliest.get(zone)!).getUTCFullYear(), 0, 1),
+        ),
+        coverageEnd,
+      ),
+    );
 
-function escapeICalText(text: string): string {
-  // Escape special characters in iCalendar text per RFC 5545 Section 3.3.11
-  // Order matters: backslash must be escaped first
-  return text
-    .replace(/\\/g, "\\\\") // Escape backslash
-    .replace(/;/g, "\\;") // Escape semicolon
-    .replace(/,/g, "\\,") // Escape comma
-    .replace(/\r\n/g, "\\n") // Convert CRLF to escaped newline
-    .replace(/\r/g, "\\n") // Convert standalone CR to escaped newline
-    .replace(/\n/g, "\\n"); // Convert LF to escaped newline
+  return [
+    ...header.map(foldLine),
+    ...timeZones,
+    ...events.map(formatVEvent),
+    "END:VCALENDAR",
+  ].join("\r\n");
 }
 
-/**
- * Truncate text to prevent resource exhaustion
- * Calendar apps may struggle with very long descriptions
- */
-function truncateText(text: string, maxLength: number = 500): string {
-  if (text.length <= maxLength) {
-    return text;
-  }
-  return text.substring(0, maxLength - 3) + "...";
+/** Strong ETag over the feed body */
+async function entityTag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(body),
+  );
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+  return `"${hex}"`;
 }
 
-/**
- * Fold long lines per RFC 5545 Section 3.1
- * Lines longer than 75 octets must be folded with CRLF + space/tab
- */
-function foldLine(line: string): string {
-  const maxLength = 75;
-  if (line.length <= maxLength) {
-    return line;
-  }
-
-  const parts: string[] = [];
-  let remaining = line;
-
-  // First line can be up to maxLength
-  parts.push(remaining.substring(0, maxLength));
-  remaining = remaining.substring(maxLength);
-
-  // Continuation lines are prefixed with space, so they can hold maxLength-1 chars
-  while (remaining.length > 0) {
-    const chunkSize = maxLength - 1; // Account for leading space
-    parts.push(" " + remaining.substring(0, chunkSize));
-    remaining = remaining.substring(chunkSize);
-  }
-
-  return parts.join("\r\n");
+/** Whether an If-None-Match header names `etag` (weak comparison) */
+function matchesEntityTag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim().replace(/^W\//, "");
+    return tag === "*" || tag === etag;
+  });
 }
@@ -0,0 +1,440 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { type ParsedEvent, parseCalendar } from "../_shared/calendar/index.ts";
+import {
+  formatRRule,
+  parseRRule,
+  RecurrenceRuleError,
+} from "../_shared/recurrence/index.ts";
+import {
+  type BinderCandidate,
+  type BinderMatch,
+  matchBinderItem,
+} from "./matching.ts";
+
+/**
+ * Import Appointments (ICS)
+ *
+ * Creates appointments from an .ics file, such as the confirmation a
+ * clinic portal emails. Every VEVENT becomes an appointment for the
+ * patient, with its timezone, recurrence (RRULE and EXDATE) and reminders
+ * (VALARM), linked to the binder contact or facility its organizer or
+ * location matches. Events already imported (same UID) are only updated
+ * when the invitation's SEQUENCE is newer, and a cancellation marks the
+ * appointment CANCELED. With dry_run nothing is saved.
+ */
+
+interface ImportRequest {
+  circle_id: string;
+  patient_id: string;
+  ics: string;
+  dry_run?: boolean;
+}
+
+type SkipReason =
+  | "NO_START"
+  | "CURAKNOT_EVENT"
+  | "DUPLICATE"
+  | "CANCELED"
+  | "DUPLICATE_IN_FILE";
+
+interface ExistingAppointment {
+  id: string;
+  external_uid: string;
+  recurrence_id: string | null;
+  external_sequence: number;
+  status: string;
+}
+
+interface PlannedAppointment {
+  existing: ExistingAppointment | null;
+  event: ParsedEvent;
+  uid: string;
+  match: BinderMatch | null;
+  warnings: string[];
+  row: Record<string, unknown>;
+}
+
+/** .ics files are small; anything larger is not an appointment confirmation */
+const MAX_ICS_BYTES = 512 * 1024;
+const MAX_EVENTS = 200;
+const DESCRIPTION_MAX_LENGTH = 4000;
+
+const IMPORT_ROLES = ["OWNER", "ADMIN", "CONTRIBUTOR"];
+
+function eventKey(uid: string, recurrenceId: Date | string | null): string {
+  return `${uid}|${recurrenceId ? new Date(recurrenceId).toISOString() : ""}`;
+}
+
+/** A stable UID for events that lack one, so re-imports still match */
+async function fallbackUid(event: ParsedEvent): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(
+      `${event.start?.toISOString()}|${event.summary ?? ""}|${event.location ?? ""}`,
+    ),
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `import-${hex}`;
+}
+
+/** The RRULE in canonical form, or null with a warning when unsupported */
+function recurrence(event: ParsedEvent, warnings: string[]): string | null {
+  if (!event.rrule || event.recurrenceId) return null;
+  try {
+    return formatRRule(parseRRule(event.rrule));
+  } catch (error) {
+    if (!(error instanceof RecurrenceRuleError)) throw error;
+    warnings.push(
+      `Repeat rule not supported (${error.message}); imported the first occurrence only`,
+    );
+    return null;
+  }
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ImportRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    if (!body.circle_id || !body.patient_id) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "circle_id and patient_id are required",
+        400,
+      );
+    }
+    if (typeof body.ics !== "string" || !body.ics.trim()) {
+      return errorResponse("VALIDATION_ERROR", "ics is required", 400);
+    }
+    if (new TextEncoder().encode(body.ics).length > MAX_ICS_BYTES) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "ics is larger than 512 KB",
+        400,
+      );
+    }
+
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", body.circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .maybeSingle();
+    if (!membership) {
+      return errorResponse(
+        "AUTH_NOT_MEMBER",
+        "Not a member of this circle",
+        403,
+      );
+    }
+    if (!IMPORT_ROLES.includes(membership.role)) {
+      return errorResponse(
+        "AUTH_ROLE_FORBIDDEN",
+        "Contributor role required to import appointments",
+        403,
+      );
+    }
+
+    const { data: patient } = await supabaseService
+      .from("patients")
+      .select("id, timezone")
+      .eq("id", body.patient_id)
+      .eq("circle_id", body.circle_id)
+      .maybeSingle();
+    if (!patient) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "patient_id is not a patient in this circle",
+        400,
+      );
+    }
+
+    // Floating times in the invitation are read in the patient's timezone
+    const { method, events } = parseCalendar(
+      body.ics,
+      patient.timezone || "UTC",
+    );
+    if (events.length === 0) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "No events found in the calendar file",
+        400,
+      );
+    }
+    if (events.length > MAX_EVENTS) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        `The calendar file has more than ${MAX_EVENTS} events`,
+        400,
+      );
+    }
+
+    const { data: binderItems, error: binderError } = await supabaseService
+      .from("binder_items")
+      .select("id, type, title, content_json")
+      .eq("circle_id", body.circle_id)
+      .in("type", ["CONTACT", "FACILITY"])
+      .eq("is_active", true)
+      .or(`patient_id.is.null,patient_id.eq.${patient.id}`);
+    if (binderError) {
+      console.error("Failed to load binder items:", binderError.code);
+      return errorResponse("DATABASE_ERROR", "Failed to load binder", 500);
+    }
+    const candidates = (binderItems ?? []) as BinderCandidate[];
+
+    // Keep the newest copy of each event, and skip what cannot be imported
+    const skipped: {
+      uid: string | null;
+      title: string | null;
+      reason: SkipReason;
+    }[] = [];
+    const incoming = new Map<string, { uid: string; event: ParsedEvent }>();
+    for (const event of events) {
+      if (!event.start || !event.end) {
+        skipped.push({
+          uid: event.uid,
+          title: event.summary,
+          reason: "NO_START",
+        });
+        continue;
+      }
+      const uid = event.uid || (await fallbackUid(event));
+      // Exported by CuraKnot (ical-feed or calendar sync)
+      if (uid.endsWith("@curaknot.app")) {
+        skipped.push({ uid, title: event.summary, reason: "CURAKNOT_EVENT" });
+        continue;
+      }
+      const key = eventKey(uid, event.recurrenceId);
+      const earlier = incoming.get(key);
+      if (earlier && earlier.event.sequence >= event.sequence) {
+        skipped.push({
+          uid,
+          title: event.summary,
+          reason: "DUPLICATE_IN_FILE",
+        });
+        continue;
+      }
+      if (earlier) {
+        skipped.push({
+          uid,
+          title: earlier.event.summary,
+          reason: "DUPLICATE_IN_FILE",
+        });
+      }
+      incoming.set(key, { uid, event });
+    }
+
+    const uids = [...new Set([...incoming.values()].map((e) => e.uid))];
+    const { data: existingRows, error: existingError } = uids.length
+      ? await supabaseService
+          .from("appointments")
+          .select("id, external_uid, recurrence_id, external_sequence, status")
+          .eq("circle_id", body.circle_id)
+          .in("external_uid", uids)
+      : { data: [], error: null };
+    if (existingError) {
+      console.error("Failed to load appointments:", existingError.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to load appointments",
+        500,
+      );
+    }
+    const existing = new Map(
+      ((existingRows ?? []) as ExistingAppointment[]).map((row) => [
+        eventKey(row.external_uid, row.recurrence_id),
+        row,
+      ]),
+    );
+
+    const planned: PlannedAppointment[] = [];
+    for (const [key, { uid, event }] of incoming) {
+      const canceled = method === "CANCEL" || event.status === "CANCELLED";
+      const current = existing.get(key) ?? null;
+
+      if (current) {
+        const newer = event.sequence > current.external_sequence;
+        const cancels =
+          canceled &&
+          current.status !== "CANCELED" &&
+          event.sequence >= current.external_sequence;
+        if (!newer && !cancels) {
+          skipped.push({ uid, title: event.summary, reason: "DUPLICATE" });
+          continue;
+        }
+      } else if (canceled) {
+        skipped.push({ uid, title: event.summary, reason: "CANCELED" });
+        continue;
+      }
+
+      const warnings: string[] = [];
+      const rrule = recurrence(event, warnings);
+      const match = matchBinderItem(
+        event.location,
+        event.organizer,
+        candidates,
+      );
+      const description = event.description?.slice(0, DESCRIPTION_MAX_LENGTH);
+
+      planned.push({
+        existing: current,
+        event,
+        uid,
+        match,
+        warnings,
+        row: {
+          circle_id: body.circle_id,
+          patient_id: body.patient_id,
+          binder_item_id: match?.binderItemId ?? null,
+          binder_match_score: match
+            ? Math.round(match.score * 100) / 100
+            : null,
+          title: (event.summary?.trim() || "Appointment").slice(0, 500),
+          description: description || null,
+          location: event.location,
+          organizer_name: event.organizer?.name ?? null,
+          organizer_email: event.organizer?.email ?? null,
+          start_at: event.start!.toISOString(),
+          end_at: event.end!.toISOString(),
+          all_day: event.allDay,
+          timezone: event.timeZone ?? patient.timezone ?? null,
+          rrule,
+          exdates: rrule ? event.exdates.map((d) => d.toISOString()) : [],
+          recurrence_id: event.recurrenceId?.toISOString() ?? null,
+          reminder_minutes: event.alarms,
+          status: canceled ? "CANCELED" : "SCHEDULED",
+          source: "ICS_IMPORT",
+          external_uid: uid,
+          external_sequence: event.sequence,
+        },
+      });
+    }
+
+    const summary = (item: PlannedAppointment, id: string | null) => ({
+      id,
+      uid: item.uid,
+      title: item.row.title,
+      start_at: item.row.start_at,
+      status: item.row.status,
+      recurring: item.row.rrule !== null,
+      binder_item_id: item.match?.binderItemId ?? null,
+      match_score: item.row.binder_match_score,
+      matched_on: item.match?.matchedOn ?? null,
+      warnings: item.warnings,
+    });
+
+    const toCreate = planned.filter((item) => !item.existing);
+    const toUpdate = planned.filter((item) => item.existing);
+
+    if (body.dry_run) {
+      return jsonResponse({
+        success: true,
+        dry_run: true,
+        created: toCreate.map((item) => summary(item, null)),
+        updated: toUpdate.map((item) => summary(item, item.existing!.id)),
+        skipped,
+      });
+    }
+
+    let createdIds: string[] = [];
+    if (toCreate.length > 0) {
+      const { data: inserted, error } = await supabaseService
+        .from("appointments")
+        .insert(toCreate.map((item) => ({ ...item.row, created_by: user.id })))
+        .select("id");
+      if (error) {
+        console.error("Failed to create appointments:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to create appointments",
+          500,
+        );
+      }
+      createdIds = (inserted ?? []).map((row: { id: string }) => row.id);
+    }
+
+    for (const item of toUpdate) {
+      const { error } = await supabaseService
+        .from("appointments")
+        .update(item.row)
+        .eq("id", item.existing!.id);
+      if (error) {
+        console.error("Failed to update appointment:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to update appointments",
+          500,
+        );
+      }
+    }
+
+    await supabaseService.from("audit_events").insert({
+      circle_id: body.circle_id,
+      actor_user_id: user.id,
+      event_type: "APPOINTMENTS_IMPORTED",
+      object_type: "patient",
+      object_id: body.patient_id,
+      metadata_json: {
+        created: toCreate.length,
+        updated: toUpdate.length,
+        skipped: skipped.length,
+      },
+    });
+
+    return jsonResponse({
+      success: true,
+      dry_run: false,
+      created: toCreate.map((item, i) => summary(item, createdIds[i] ?? null)),
+      updated: toUpdate.map((item) => summary(item, item.existing!.id)),
+      skipped,
+    });
+  } catch (error) {
+    console.error(
+      "Error importing appointments:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
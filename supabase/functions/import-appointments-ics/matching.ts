@@ -0,0 +1,168 @@
+/**
+ * Binder matching for imported appointments
+ *
+ * Links an invitation to the binder CONTACT or FACILITY it is with. The
+ * organizer's email is an exact match; the organizer's name and the
+ * location are compared loosely, since clinic portals write "Dr. Jane
+ * Smith, MD" or "Springfield Cardiology - Suite 200" where the binder has
+ * "Jane Smith" and "Springfield Cardiology".
+ */
+
+import type { EventOrganizer } from "../_shared/calendar/index.ts";
+
+export interface BinderCandidate {
+  id: string;
+  type: "CONTACT" | "FACILITY";
+  title: string;
+  content_json: Record<string, unknown> | null;
+}
+
+export type MatchField = "ORGANIZER_EMAIL" | "ORGANIZER_NAME" | "LOCATION";
+
+export interface BinderMatch {
+  binderItemId: string;
+  score: number;
+  matchedOn: MatchField;
+}
+
+/** Below this similarity the appointment is left unlinked */
+export const MATCH_THRESHOLD = 0.6;
+
+/** Titles and suffixes that say nothing about who or where */
+const STOPWORDS = new Set([
+  "dr",
+  "md",
+  "do",
+  "np",
+  "pa",
+  "rn",
+  "phd",
+  "mr",
+  "mrs",
+  "ms",
+  "the",
+  "of",
+  "and",
+  "at",
+  "llc",
+  "inc",
+  "pc",
+]);
+
+export function normalize(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((token) => token && !STOPWORDS.has(token))
+    .join(" ");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of text.split(" ")) {
+    for (let i = 0; i < token.length - 1; i++) {
+      const gram = token.slice(i, i + 2);
+      counts.set(gram, (counts.get(gram) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/** Sørensen–Dice coefficient over character bigrams */
+function dice(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let total = 0;
+  let shared = 0;
+  for (const [gram, count] of left) {
+    total += count;
+    shared += Math.min(count, right.get(gram) ?? 0);
+  }
+  for (const count of right.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+}
+
+/**
+ * Similarity of two names or places from 0 to 1. Every word of one
+ * appearing in the other ("Smith" in "Jane Smith") scores 0.9.
+ */
+export function similarity(a: string, b: string): number {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const [shorter, longer] =
+    left.length <= right.length ? [left, right] : [right, left];
+  const words = new Set(longer.split(" "));
+  const contained = shorter.split(" ");
+  if (
+    contained.every((word) => words.has(word)) &&
+    contained.some((word) => word.length >= 3)
+  ) {
+    return 0.9;
+  }
+  return dice(left, right);
+}
+
+function text(content: Record<string, unknown>, key: string): string | null {
+  const value = content[key];
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+/** Best of `value` and its comma- or line-separated parts against `targets` */
+function bestSimilarity(value: string, targets: (string | null)[]): number {
+  const parts = [value, ...value.split(/[,\n;]| - /)].filter((p) => p.trim());
+  let best = 0;
+  for (const target of targets) {
+    if (!target) continue;
+    for (const part of parts) best = Math.max(best, similarity(part, target));
+  }
+  return best;
+}
+
+/** The binder item the appointment is most likely with, if any is close */
+export function matchBinderItem(
+  location: string | null,
+  organizer: EventOrganizer | null,
+  candidates: BinderCandidate[],
+): BinderMatch | null {
+  let best: BinderMatch | null = null;
+  const consider = (item: BinderCandidate, score: number, on: MatchField) => {
+    if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { binderItemId: item.id, score, matchedOn: on };
+    }
+  };
+
+  for (const item of candidates) {
+    const content = item.content_json ?? {};
+    const name = text(content, "name");
+    const address = text(content, "address");
+
+    if (organizer?.email) {
+      const email = text(content, "email");
+      if (email && email.trim().toLowerCase() === organizer.email) {
+        consider(item, 1, "ORGANIZER_EMAIL");
+      }
+    }
+    if (organizer?.name) {
+      consider(
+        item,
+        bestSimilarity(organizer.name, [name, item.title]),
+        "ORGANIZER_NAME",
+      );
+    }
+    if (location) {
+      const places =
+        item.type === "FACILITY"
+          ? [name, item.title, address]
+          : [text(content, "organization"), address];
+      consider(item, bestSimilarity(location, places), "LOCATION");
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,480 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import {
+  type AlertRule,
+  AlertRuleError,
+  type AlertRuleRow,
+  evaluateRule,
+  parseActions,
+  parseCondition,
+  parseName,
+} from "../_shared/alert-rules/index.ts";
+
+/**
+ * Manage Alert Rules
+ *
+ * Circle admins create, update and delete the rules evaluate-alert-rules
+ * runs, and dry-run a saved or unsaved rule: its current matches and the
+ * actions each would trigger are returned without acting or logging.
+ * A saved rule with dry_run set stays in shadow mode, logging its matches
+ * to alert_events on every evaluation without acting on them.
+ */
+
+type Action = "create" | "update" | "delete" | "dry_run";
+
+interface ManageRequest {
+  action: Action;
+  circle_id?: string;
+  rule_id?: string;
+  patient_id?: string | null;
+  name?: string | null;
+  rule_key?: string;
+  params?: Record<string, unknown>;
+  actions?: unknown[];
+  cooldown_hours?: number;
+  enabled?: boolean;
+  dry_run?: boolean;
+}
+
+const RULE_COLUMNS =
+  "id, circle_id, patient_id, rule_key, name, params_json, actions_json, cooldown_hours, dry_run, enabled, created_by";
+const DEFAULT_COOLDOWN_HOURS = 24;
+const MAX_COOLDOWN_HOURS = 720;
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+async function isAdmin(
+  supabase: SupabaseClient,
+  circleId: string,
+  userId: string,
+): Promise<boolean> {
+  const { data } = await supabase
+    .from("circle_members")
+    .select("role")
+    .eq("circle_id", circleId)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .maybeSingle();
+  return data?.role === "ADMIN" || data?.role === "OWNER";
+}
+
+/**
+ * Validates a rule definition and the circle references in it; throws
+ * RequestError
+ */
+async function buildRule(
+  supabase: SupabaseClient,
+  fields: {
+    id: string | null;
+    circle_id: string;
+    patient_id: string | null;
+    name: unknown;
+    rule_key: unknown;
+    params: unknown;
+    actions: unknown;
+    cooldown_hours: unknown;
+    dry_run: unknown;
+    created_by: string;
+  },
+): Promise<AlertRule> {
+  let rule: AlertRule;
+  try {
+    const condition = parseCondition(fields.rule_key, fields.params);
+    rule = {
+      id: fields.id,
+      circle_id: fields.circle_id,
+      patient_id: fields.patient_id,
+      name: parseName(fields.name, condition),
+      condition,
+      actions: parseActions(fields.actions, condition),
+      cooldown_hours: DEFAULT_COOLDOWN_HOURS,
+      dry_run: false,
+      created_by: fields.created_by,
+    };
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      throw new RequestError(error.message);
+    }
+    throw error;
+  }
+
+  if (fields.cooldown_hours !== undefined) {
+    const hours = fields.cooldown_hours;
+    if (
+      typeof hours !== "number" ||
+      !Number.isInteger(hours) ||
+      hours < 1 ||
+      hours > MAX_COOLDOWN_HOURS
+    ) {
+      throw new RequestError(
+        `cooldown_hours must be between 1 and ${MAX_COOLDOWN_HOURS}`,
+      );
+    }
+    rule.cooldown_hours = hours;
+  }
+  if (fields.dry_run !== undefined) {
+    if (typeof fields.dry_run !== "boolean") {
+      throw new RequestError("dry_run must be a boolean");
+    }
+    rule.dry_run = fields.dry_run;
+  }
+
+  if (rule.patient_id) {
+    if (!isValidUUID(rule.patient_id)) {
+      throw new RequestError("patient_id must be a UUID");
+    }
+    const { data: patient } = await supabase
+      .from("patients")
+      .select("id")
+      .eq("id", rule.patient_id)
+      .eq("circle_id", rule.circle_id)
+      .maybeSingle();
+    if (!patient) throw new RequestError("patient_id is not in this circle");
+  }
+
+  for (const action of rule.actions) {
+    if (action.type !== "REASSIGN" || action.strategy !== "USER") continue;
+    const { data: member } = await supabase
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", rule.circle_id)
+      .eq("user_id", action.user_id!)
+      .eq("status", "ACTIVE")
+      .maybeSingle();
+    if (!member || member.role === "VIEWER") {
+      throw new RequestError(
+        "REASSIGN user_id must be a circle member who can own tasks",
+      );
+    }
+  }
+
+  return rule;
+}
+
+function ruleColumns(rule: AlertRule, enabled: boolean) {
+  const { rule_key: _ruleKey, ...params } = rule.condition;
+  return {
+    patient_id: rule.patient_id,
+    name: rule.name,
+    rule_key: rule.condition.rule_key,
+    params_json: params,
+    actions_json: rule.actions,
+    cooldown_hours: rule.cooldown_hours,
+    dry_run: rule.dry_run,
+    enabled,
+  };
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ManageRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    try {
+      switch (body.action) {
+        case "create":
+          return await createRule(supabaseService, user.id, body);
+        case "update":
+        case "delete":
+          return await changeRule(supabaseService, user.id, body);
+        case "dry_run":
+          return await dryRun(supabaseService, user.id, body);
+        default:
+          return errorResponse(
+            "VALIDATION_ERROR",
+            "action must be create, update, delete or dry_run",
+            400,
+          );
+      }
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error(
+      "Error managing alert rules:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+function forbidden(): Response {
+  return errorResponse(
+    "AUTH_ROLE_FORBIDDEN",
+    "Only circle admins can manage alert rules",
+    403,
+  );
+}
+
+async function createRule(
+  supabase: SupabaseClient,
+  userId: string,
+  body: ManageRequest,
+): Promise<Response> {
+  const { circle_id } = body;
+  if (!circle_id || !isValidUUID(circle_id)) {
+    throw new RequestError("circle_id is required");
+  }
+  if (!(await isAdmin(supabase, circle_id, userId))) return forbidden();
+
+  const rule = await buildRule(supabase, {
+    id: null,
+    circle_id,
+    patient_id: body.patient_id ?? null,
+    name: body.name,
+    rule_key: body.rule_key,
+    params: body.params,
+    actions: body.actions,
+    cooldown_hours: body.cooldown_hours,
+    dry_run: body.dry_run,
+    created_by: userId,
+  });
+
+  const { data: saved, error } = await supabase
+    .from("alert_rules")
+    .insert({
+      circle_id,
+      created_by: userId,
+      ...ruleColumns(rule, body.enabled ?? true),
+    })
+    .select(RULE_COLUMNS)
+    .single();
+
+  if (error || !saved) {
+    console.error("Failed to create alert rule:", error?.code);
+    return errorResponse("DATABASE_ERROR", "Failed to create rule", 500);
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id,
+    actor_user_id: userId,
+    event_type: "ALERT_RULE_CREATED",
+    object_type: "alert_rule",
+    object_id: saved.id,
+    metadata_json: { rule_key: saved.rule_key, dry_run: saved.dry_run },
+  });
+
+  return jsonResponse({ success: true, rule: saved });
+}
+
+async function changeRule(
+  supabase: SupabaseClient,
+  userId: string,
+  body: ManageRequest,
+): Promise<Response> {
+  const { rule_id } = body;
+  if (!rule_id || !isValidUUID(rule_id)) {
+    throw new RequestError("rule_id is required");
+  }
+
+  const { data } = await supabase
+    .from("alert_rules")
+    .select(RULE_COLUMNS)
+    .eq("id", rule_id)
+    .maybeSingle();
+  const existing = data as AlertRuleRow | null;
+  if (!existing) {
+    return errorResponse("NOT_FOUND", "Rule not found", 404);
+  }
+  if (!(await isAdmin(supabase, existing.circle_id, userId))) {
+    return forbidden();
+  }
+
+  if (body.action === "delete") {
+    const { error } = await supabase
+      .from("alert_rules")
+      .delete()
+      .eq("id", rule_id);
+    if (error) {
+      console.error("Failed to delete alert rule:", error.code);
+      return errorResponse("DATABASE_ERROR", "Failed to delete rule", 500);
+    }
+
+    await supabase.from("audit_events").insert({
+      circle_id: existing.circle_id,
+      actor_user_id: userId,
+      event_type: "ALERT_RULE_DELETED",
+      object_type: "alert_rule",
+      object_id: rule_id,
+      metadata_json: { rule_key: existing.rule_key },
+    });
+
+    return jsonResponse({ success: true });
+  }
+
+  if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+    throw new RequestError("enabled must be a boolean");
+  }
+
+  const rule = await buildRule(supabase, {
+    id: existing.id,
+    circle_id: existing.circle_id,
+    patient_id:
+      body.patient_id !== undefined ? body.patient_id : existing.patient_id,
+    name: body.name !== undefined ? body.name : existing.name,
+    rule_key: body.rule_key ?? existing.rule_key,
+    params: body.params ?? existing.params_json,
+    actions: body.actions ?? existing.actions_json,
+    cooldown_hours: body.cooldown_hours ?? existing.cooldown_hours,
+    dry_run: body.dry_run ?? existing.dry_run,
+    created_by: existing.created_by,
+  });
+
+  const { data: saved, error } = await supabase
+    .from("alert_rules")
+    .update(ruleColumns(rule, body.enabled ?? existing.enabled))
+    .eq("id", rule_id)
+    .select(RULE_COLUMNS)
+    .single();
+
+  if (error || !saved) {
+    console.error("Failed to update alert rule:", error?.code);
+    return errorResponse("DATABASE_ERROR", "Failed to update rule", 500);
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id: existing.circle_id,
+    actor_user_id: userId,
+    event_type: "ALERT_RULE_UPDATED",
+    object_type: "alert_rule",
+    object_id: rule_id,
+    metadata_json: {
+      rule_key: saved.rule_key,
+      enabled: saved.enabled,
+      dry_run: saved.dry_run,
+    },
+  });
+
+  return jsonResponse({ success: true, rule: saved });
+}
+
+/**
+ * Evaluates a saved rule (rule_id) or an unsaved definition (circle_id and
+ * rule fields) now, planning its actions without taking them. Saved rules
+ * honour their cooldown, so the preview shows what the next run would do.
+ */
+async function dryRun(
+  supabase: SupabaseClient,
+  userId: string,
+  body: ManageRequest,
+): Promise<Response> {
+  let rule: AlertRule;
+
+  if (body.rule_id) {
+    if (!isValidUUID(body.rule_id)) {
+      throw new RequestError("rule_id must be a UUID");
+    }
+    const { data } = await supabase
+      .from("alert_rules")
+      .select(RULE_COLUMNS)
+      .eq("id", body.rule_id)
+      .maybeSingle();
+    const existing = data as AlertRuleRow | null;
+    if (!existing) {
+      return errorResponse("NOT_FOUND", "Rule not found", 404);
+    }
+    if (!(await isAdmin(supabase, existing.circle_id, userId))) {
+      return forbidden();
+    }
+    rule = await buildRule(supabase, {
+      id: existing.id,
+      circle_id: existing.circle_id,
+      patient_id: existing.patient_id,
+      name: existing.name,
+      rule_key: existing.rule_key,
+      params: existing.params_json,
+      actions: existing.actions_json,
+      cooldown_hours: existing.cooldown_hours,
+      dry_run: existing.dry_run,
+      created_by: existing.created_by,
+    });
+  } else {
+    const { circle_id } = body;
+    if (!circle_id || !isValidUUID(circle_id)) {
+      throw new RequestError("rule_id or circle_id is required");
+    }
+    if (!(await isAdmin(supabase, circle_id, userId))) return forbidden();
+    rule = await buildRule(supabase, {
+      id: null,
+      circle_id,
+      patient_id: body.patient_id ?? null,
+      name: body.name,
+      rule_key: body.rule_key,
+      params: body.params,
+      actions: body.actions,
+      cooldown_hours: body.cooldown_hours,
+      dry_run: body.dry_run,
+      created_by: userId,
+    });
+  }
+
+  const result = await evaluateRule(supabase, rule, new Date(), {
+    execute: false,
+    log: false,
+  });
+  if (!result) {
+    return errorResponse("DATABASE_ERROR", "Failed to evaluate rule", 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    rule_key: rule.condition.rule_key,
+    matches: result.matches.map((match) => ({
+      subject_type: match.subject_type,
+      subject_id: match.subject_id,
+      patient_id: match.patient_id,
+      title: match.title,
+      body: match.body,
+      details: match.details,
+      actions: match.actions,
+    })),
+    suppressed: result.suppressed,
+  });
+}
@@ -0,0 +1,322 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  CalDAVError,
+  createCalDAVClient,
+  encryptSecret,
+  isAllowedCalDAVUrl,
+  isCredentialsKeyConfigured,
+  resolveCalDAVTransport,
+} from "../_shared/calendar/index.ts";
+
+/**
+ * Manage CalDAV Connection
+ *
+ * Connects, reconfigures or disconnects the caller's CalDAV calendar for a
+ * circle. On connect the credentials are checked against the server before
+ * the password is stored encrypted; sync-caldav-calendars then keeps the
+ * calendar in sync. Requires the calendar_bidirectional feature.
+ */
+
+type Action = "connect" | "update" | "disconnect";
+
+interface ManageRequest {
+  action: Action;
+  circle_id: string;
+  url?: string;
+  username?: string;
+  password?: string;
+  sync_direction?: string;
+  conflict_strategy?: string;
+  sync_tasks?: boolean;
+  sync_shifts?: boolean;
+  sync_appointments?: boolean;
+  show_minimal_details?: boolean;
+}
+
+const SYNC_DIRECTIONS = ["READ_ONLY", "WRITE_ONLY", "BIDIRECTIONAL"];
+const CONFLICT_STRATEGIES = [
+  "CURAKNOT_WINS",
+  "EXTERNAL_WINS",
+  "MANUAL",
+  "MERGE",
+];
+const TOGGLES = [
+  "sync_tasks",
+  "sync_shifts",
+  "sync_appointments",
+  "show_minimal_details",
+] as const;
+
+const CONNECTION_COLUMNS =
+  "id, circle_id, provider, provider_account_id, caldav_url, status, status_message, sync_direction, conflict_strategy, sync_tasks, sync_shifts, sync_appointments, show_minimal_details, last_sync_at, last_sync_status, events_synced_count";
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+/** The settings fields of the request; throws RequestError */
+function parseSettings(body: ManageRequest): Record<string, unknown> {
+  const settings: Record<string, unknown> = {};
+
+  if (body.sync_direction !== undefined) {
+    if (!SYNC_DIRECTIONS.includes(body.sync_direction)) {
+      throw new RequestError(
+        `sync_direction must be one of ${SYNC_DIRECTIONS.join(", ")}`,
+      );
+    }
+    settings.sync_direction = body.sync_direction;
+  }
+  if (body.conflict_strategy !== undefined) {
+    if (!CONFLICT_STRATEGIES.includes(body.conflict_strategy)) {
+      throw new RequestError(
+        `conflict_strategy must be one of ${CONFLICT_STRATEGIES.join(", ")}`,
+      );
+    }
+    settings.conflict_strategy = body.conflict_strategy;
+  }
+  for (const toggle of TOGGLES) {
+    if (body[toggle] === undefined) continue;
+    if (typeof body[toggle] !== "boolean") {
+      throw new RequestError(`${toggle} must be a boolean`);
+    }
+    settings[toggle] = body[toggle];
+  }
+
+  return settings;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ManageRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    if (!["connect", "update", "disconnect"].includes(body.action)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "action must be connect, update or disconnect",
+        400,
+      );
+    }
+    if (!body.circle_id) {
+      return errorResponse("VALIDATION_ERROR", "circle_id is required", 400);
+    }
+
+    if (body.action === "disconnect") {
+      const { error } = await supabaseService
+        .from("calendar_connections")
+        .update({
+          status: "REVOKED",
+          status_message: null,
+          access_token_encrypted: null,
+        })
+        .eq("user_id", user.id)
+        .eq("circle_id", body.circle_id)
+        .eq("provider", "CALDAV");
+      if (error) {
+        console.error("Failed to disconnect calendar:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to disconnect calendar",
+          500,
+        );
+      }
+      return jsonResponse({ success: true });
+    }
+
+    const { data: hasFeature } = await supabaseService.rpc(
+      "has_feature_access",
+      { p_user_id: user.id, p_feature: "calendar_bidirectional" },
+    );
+    if (!hasFeature) {
+      return errorResponse(
+        "FEATURE_NOT_AVAILABLE",
+        "Two-way calendar sync requires a Plus or Family subscription",
+        402,
+      );
+    }
+
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", body.circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .maybeSingle();
+    if (!membership) {
+      return errorResponse(
+        "AUTH_NOT_MEMBER",
+        "Not a member of this circle",
+        403,
+      );
+    }
+
+    let settings: Record<string, unknown>;
+    try {
+      settings = parseSettings(body);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+
+    if (body.action === "update") {
+      const { data: updated, error } = await supabaseService
+        .from("calendar_connections")
+        .update({
+          ...settings,
+          // Pick up the new settings on the next run
+          last_sync_at: null,
+        })
+        .eq("user_id", user.id)
+        .eq("circle_id", body.circle_id)
+        .eq("provider", "CALDAV")
+        .select(CONNECTION_COLUMNS)
+        .maybeSingle();
+      if (error) {
+        console.error("Failed to update calendar connection:", error.code);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to update calendar connection",
+          500,
+        );
+      }
+      if (!updated) {
+        return errorResponse("NOT_FOUND", "No CalDAV connection", 404);
+      }
+      return jsonResponse({ success: true, connection: updated });
+    }
+
+    const url = body.url?.trim() ?? "";
+    const username = body.username?.trim() ?? "";
+    const password = body.password ?? "";
+    if (!url || !username || !password) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "url, username and password are required",
+        400,
+      );
+    }
+
+    const transport = resolveCalDAVTransport();
+    if (transport === "live" && !isAllowedCalDAVUrl(url)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "url must be a public https CalDAV calendar URL",
+        400,
+      );
+    }
+    if (!isCredentialsKeyConfigured()) {
+      console.error("CALENDAR_CREDENTIALS_KEY not set");
+      return errorResponse(
+        "CONFIGURATION_ERROR",
+        "Calendar sync is not configured",
+        503,
+      );
+    }
+
+    // Check the credentials and that the URL is a calendar before storing
+    try {
+      await createCalDAVClient({ url, username, password }, transport).list();
+    } catch (error) {
+      if (error instanceof CalDAVError) {
+        return error.code === "AUTH_FAILED"
+          ? errorResponse(
+              "CALENDAR_AUTH_FAILED",
+              "The calendar server rejected the username or password",
+              422,
+            )
+          : errorResponse(
+              "CALENDAR_UNREACHABLE",
+              `Could not read the calendar (${error.code})`,
+              422,
+            );
+      }
+      throw error;
+    }
+
+    const { data: connection, error } = await supabaseService
+      .from("calendar_connections")
+      .upsert(
+        {
+          user_id: user.id,
+          circle_id: body.circle_id,
+          provider: "CALDAV",
+          provider_account_id: username,
+          caldav_url: url,
+          calendar_id: url,
+          access_token_encrypted: await encryptSecret(password),
+          status: "ACTIVE",
+          status_message: null,
+          last_sync_at: null,
+          last_sync_error: null,
+          ...settings,
+        },
+        { onConflict: "user_id,circle_id,provider" },
+      )
+      .select(CONNECTION_COLUMNS)
+      .single();
+    if (error) {
+      console.error("Failed to save calendar connection:", error.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to save calendar connection",
+        500,
+      );
+    }
+
+    // Events pushed under the old URL or account are not in this calendar
+    await supabaseService
+      .from("calendar_events")
+      .delete()
+      .eq("connection_id", connection.id)
+      .neq("external_calendar_id", url);
+
+    return jsonResponse({ success: true, connection });
+  } catch (error) {
+    console.error(
+      "Error managing CalDAV connection:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
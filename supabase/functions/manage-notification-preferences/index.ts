@@ -0,0 +1,246 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidTimeZone } from "../_shared/timezone.ts";
+import {
+  CATEGORIES,
+  type CategoryPreference,
+  DEFAULT_CATEGORY_PREFERENCE,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type NotificationPreferencesRow,
+  parseCategoryPreference,
+  PreferencesError,
+  preferencesFromRow,
+  TIME_REGEX,
+} from "../_shared/notifications/index.ts";
+
+/**
+ * Manage Notification Preferences
+ *
+ * Reads and updates the caller's notification_preferences: per category
+ * (handoffs, tasks, rides, meetings, videos, expirations) whether it is
+ * sent, on which channels, and instantly or in a daily digest; plus quiet
+ * hours and the digest time in the caller's timezone. dispatch-notifications
+ * applies them when it delivers.
+ */
+
+type Action = "get" | "update";
+
+interface ManageRequest {
+  action: Action;
+  timezone?: string;
+  quiet_hours?: { start?: unknown; end?: unknown } | null;
+  digest_time?: string;
+  categories?: Record<string, unknown>;
+}
+
+const PREFERENCE_COLUMNS =
+  "user_id, timezone, quiet_hours_start, quiet_hours_end, digest_time, categories_json";
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+/** Every category, with defaults filled in */
+function preferencesResponse(prefs: NotificationPreferences) {
+  const categories = {} as Record<NotificationCategory, CategoryPreference>;
+  for (const category of CATEGORIES) {
+    categories[category] =
+      prefs.categories[category] ?? DEFAULT_CATEGORY_PREFERENCE;
+  }
+  return {
+    timezone: prefs.timezone,
+    quiet_hours: prefs.quietHours,
+    digest_time: prefs.digestTime,
+    categories,
+  };
+}
+
+async function loadPreferences(
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<NotificationPreferences> {
+  const { data } = await supabase
+    .from("notification_preferences")
+    .select(PREFERENCE_COLUMNS)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return preferencesFromRow(data as NotificationPreferencesRow | null);
+}
+
+/** Applies the request's fields to `existing`; throws RequestError */
+function applyUpdate(
+  existing: NotificationPreferences,
+  body: ManageRequest,
+): NotificationPreferences {
+  const updated = { ...existing, categories: { ...existing.categories } };
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== "string" || !isValidTimeZone(body.timezone)) {
+      throw new RequestError("timezone must be an IANA timezone");
+    }
+    updated.timezone = body.timezone;
+  }
+
+  if (body.quiet_hours !== undefined) {
+    if (body.quiet_hours === null) {
+      updated.quietHours = null;
+    } else {
+      const { start, end } = body.quiet_hours;
+      if (
+        typeof start !== "string" ||
+        typeof end !== "string" ||
+        !TIME_REGEX.test(start) ||
+        !TIME_REGEX.test(end)
+      ) {
+        throw new RequestError("quiet_hours start and end must be HH:MM");
+      }
+      if (start === end) {
+        throw new RequestError("quiet_hours start and end must differ");
+      }
+      updated.quietHours = { start, end };
+    }
+  }
+
+  if (body.digest_time !== undefined) {
+    if (
+      typeof body.digest_time !== "string" ||
+      !TIME_REGEX.test(body.digest_time)
+    ) {
+      throw new RequestError("digest_time must be HH:MM");
+    }
+    updated.digestTime = body.digest_time;
+  }
+
+  if (body.categories !== undefined) {
+    if (
+      typeof body.categories !== "object" ||
+      body.categories === null ||
+      Array.isArray(body.categories)
+    ) {
+      throw new RequestError("categories must be an object");
+    }
+    for (const [key, value] of Object.entries(body.categories)) {
+      if (!CATEGORIES.includes(key as NotificationCategory)) {
+        throw new RequestError(
+          `Unknown category ${key}; expected one of ${CATEGORIES.join(", ")}`,
+        );
+      }
+      const category = key as NotificationCategory;
+      try {
+        updated.categories[category] = parseCategoryPreference(
+          category,
+          value,
+          existing.categories[category],
+        );
+      } catch (error) {
+        if (error instanceof PreferencesError) {
+          throw new RequestError(error.message);
+        }
+        throw error;
+      }
+    }
+  }
+
+  return updated;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ManageRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    if (body.action !== "get" && body.action !== "update") {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "action must be get or update",
+        400,
+      );
+    }
+
+    const existing = await loadPreferences(supabaseService, user.id);
+    if (body.action === "get") {
+      return jsonResponse({ preferences: preferencesResponse(existing) });
+    }
+
+    let updated: NotificationPreferences;
+    try {
+      updated = applyUpdate(existing, body);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+
+    const { error } = await supabaseService
+      .from("notification_preferences")
+      .upsert(
+        {
+          user_id: user.id,
+          timezone: updated.timezone,
+          quiet_hours_start: updated.quietHours?.start ?? null,
+          quiet_hours_end: updated.quietHours?.end ?? null,
+          digest_time: updated.digestTime,
+          categories_json: updated.categories,
+        },
+        { onConflict: "user_id" },
+      );
+    if (error) {
+      console.error("Failed to save notification preferences:", error.code);
+      return errorResponse("DATABASE_ERROR", "Failed to save preferences", 500);
+    }
+
+    return jsonResponse({
+      success: true,
+      preferences: preferencesResponse(updated),
+    });
+  } catch (error) {
+    console.error(
+      "Error managing notification preferences:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
@@ -0,0 +1,496 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidDate, isValidUUID } from "../_shared/validation.ts";
+import { isValidTimeZone, zonedTimeToUtc } from "../_shared/timezone.ts";
+import {
+  formatRRule,
+  lastOccurrence,
+  occurrences,
+  parseRRule,
+  type RecurrenceRule,
+  RecurrenceRuleError,
+} from "../_shared/recurrence/index.ts";
+import { materializeSeries, type TaskSeries } from "../_shared/task-series.ts";
+import {
+  cancelFollowing,
+  editFollowing,
+  SeriesChangedError,
+  type SeriesChanges,
+  SeriesWriteError,
+} from "./series.ts";
+
+/**
+ * Manage Recurring Tasks
+ *
+ * Creates RRULE task series and edits or cancels their instances, either
+ * "this" instance alone (it becomes an exception to the series) or "future"
+ * (this and following instances, see series.ts). Upcoming instances are
+ * materialized as tasks here and kept topped up by generate-recurring-tasks.
+ */
+
+type Action = "create" | "update" | "cancel";
+type Scope = "this" | "future";
+
+interface ManageRequest {
+  action: Action;
+  // create
+  circle_id?: string;
+  patient_id?: string | null;
+  title?: string;
+  description?: string | null;
+  priority?: string;
+  owner_user_id?: string;
+  rrule?: string;
+  /** First local date, YYYY-MM-DD */
+  start_date?: string;
+  /** Local "HH:MM" */
+  time?: string;
+  /** IANA timezone; defaults to the patient's */
+  timezone?: string;
+  // update / cancel
+  task_id?: string;
+  scope?: Scope;
+  changes?: SeriesChanges & { due_at?: string };
+}
+
+interface InstanceRow {
+  id: string;
+  circle_id: string;
+  created_by: string;
+  owner_user_id: string;
+  status: string;
+  series_id: string | null;
+  recurrence_at: string | null;
+}
+
+const PRIORITIES = ["LOW", "MED", "HIGH"];
+const TIME_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 2000;
+/** A rule must select a date within this many years of its start */
+const FIRST_OCCURRENCE_YEARS = 5;
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+/** Validates the fields shared by create and update; throws RequestError */
+function validateFields(fields: SeriesChanges): void {
+  if (
+    fields.title !== undefined &&
+    (!fields.title.trim() || fields.title.length > MAX_TITLE_LENGTH)
+  ) {
+    throw new RequestError(`title must be 1-${MAX_TITLE_LENGTH} characters`);
+  }
+  if (
+    fields.description &&
+    fields.description.length > MAX_DESCRIPTION_LENGTH
+  ) {
+    throw new RequestError("description too long");
+  }
+  if (fields.priority !== undefined && !PRIORITIES.includes(fields.priority)) {
+    throw new RequestError("priority must be LOW, MED or HIGH");
+  }
+  if (fields.time !== undefined && !TIME_REGEX.test(fields.time)) {
+    throw new RequestError("time must be HH:MM");
+  }
+  if (
+    fields.owner_user_id !== undefined &&
+    !isValidUUID(fields.owner_user_id)
+  ) {
+    throw new RequestError("owner_user_id must be a UUID");
+  }
+}
+
+/** Parses an RRULE that selects at least one date; throws RequestError */
+function validRule(text: string, dtstart: Date, timeZone: string) {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRRule(text);
+  } catch (error) {
+    if (error instanceof RecurrenceRuleError) {
+      throw new RequestError(error.message);
+    }
+    throw error;
+  }
+
+  const horizon = new Date(dtstart);
+  horizon.setUTCFullYear(horizon.getUTCFullYear() + FIRST_OCCURRENCE_YEARS);
+  const first = occurrences(
+    rule,
+    { dtstart, timeZone },
+    { from: dtstart, to: horizon },
+    1,
+  );
+  if (first.length === 0) {
+    throw new RequestError("rrule selects no dates");
+  }
+  return rule;
+}
+
+async function isActiveMember(
+  supabase: SupabaseClient,
+  circleId: string,
+  userId: string,
+): Promise<boolean> {
+  const { data } = await supabase
+    .from("circle_members")
+    .select("user_id")
+    .eq("circle_id", circleId)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .maybeSingle();
+  return !!data;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ManageRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    try {
+      switch (body.action) {
+        case "create":
+          return await createSeries(supabaseService, user.id, body);
+        case "update":
+        case "cancel":
+          return await changeInstance(supabaseService, user.id, body);
+        default:
+          return errorResponse(
+            "VALIDATION_ERROR",
+            "action must be create, update or cancel",
+            400,
+          );
+      }
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof SeriesChangedError) {
+      return errorResponse(
+        "CONFLICT",
+        "The series was changed by someone else; reload and try again",
+        409,
+      );
+    }
+    if (error instanceof SeriesWriteError) {
+      console.error("Failed to update task series:", error.code);
+      return errorResponse("DATABASE_ERROR", "Failed to update series", 500);
+    }
+    console.error(
+      "Error managing recurring tasks:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+async function createSeries(
+  supabase: SupabaseClient,
+  userId: string,
+  body: ManageRequest,
+): Promise<Response> {
+  const { circle_id, patient_id, start_date, time } = body;
+  if (!circle_id || !isValidUUID(circle_id)) {
+    throw new RequestError("circle_id is required");
+  }
+  if (patient_id && !isValidUUID(patient_id)) {
+    throw new RequestError("patient_id must be a UUID");
+  }
+  if (!body.title || !body.rrule || !start_date || !time) {
+    throw new RequestError("title, rrule, start_date and time are required");
+  }
+  if (!isValidDate(start_date)) {
+    throw new RequestError("start_date must be YYYY-MM-DD");
+  }
+  validateFields(body);
+
+  const { data: membership } = await supabase
+    .from("circle_members")
+    .select("role")
+    .eq("circle_id", circle_id)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .single();
+
+  if (!membership || membership.role === "VIEWER") {
+    return errorResponse(
+      "AUTH_ROLE_FORBIDDEN",
+      "Insufficient permissions",
+      403,
+    );
+  }
+
+  let timeZone = body.timezone ?? "UTC";
+  if (patient_id) {
+    const { data: patient } = await supabase
+      .from("patients")
+      .select("id, timezone")
+      .eq("id", patient_id)
+      .eq("circle_id", circle_id)
+      .single();
+
+    if (!patient) {
+      return errorResponse("NOT_FOUND", "Patient not found", 404);
+    }
+    timeZone = body.timezone ?? patient.timezone;
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new RequestError("timezone must be an IANA timezone");
+  }
+
+  const ownerId = body.owner_user_id ?? userId;
+  if (!(await isActiveMember(supabase, circle_id, ownerId))) {
+    throw new RequestError("owner_user_id must be an active circle member");
+  }
+
+  const dtstart = zonedTimeToUtc(start_date, time, timeZone);
+  const rule = validRule(body.rrule, dtstart, timeZone);
+
+  const { data: series, error } = await supabase
+    .from("task_series")
+    .insert({
+      circle_id,
+      patient_id: patient_id ?? null,
+      created_by: userId,
+      owner_user_id: ownerId,
+      title: body.title.trim(),
+      description: body.description ?? null,
+      priority: body.priority ?? "MED",
+      rrule: formatRRule(rule),
+      dtstart: dtstart.toISOString(),
+      timezone: timeZone,
+      ends_at:
+        lastOccurrence(rule, { dtstart, timeZone })?.toISOString() ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error || !series) {
+    console.error("Failed to create task series:", error?.code);
+    return errorResponse("DATABASE_ERROR", "Failed to create series", 500);
+  }
+
+  const created = await materializeSeries(
+    supabase,
+    series as TaskSeries,
+    new Date(),
+    new Date(),
+  );
+  if (created === null) {
+    return errorResponse(
+      "DATABASE_ERROR",
+      "Failed to create task instances",
+      500,
+    );
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id,
+    actor_user_id: userId,
+    event_type: "TASK_SERIES_CREATED",
+    object_type: "task_series",
+    object_id: series.id,
+    metadata_json: { rrule: series.rrule },
+  });
+
+  return jsonResponse({
+    success: true,
+    series_id: series.id,
+    rrule: series.rrule,
+    instances_created: created,
+  });
+}
+
+async function changeInstance(
+  supabase: SupabaseClient,
+  userId: string,
+  body: ManageRequest,
+): Promise<Response> {
+  const { task_id, scope } = body;
+  if (!task_id || !isValidUUID(task_id)) {
+    throw new RequestError("task_id is required");
+  }
+  if (scope !== "this" && scope !== "future") {
+    throw new RequestError("scope must be this or future");
+  }
+
+  const changes = body.changes ?? {};
+  if (body.action === "update") {
+    if (Object.keys(changes).length === 0) {
+      throw new RequestError("changes are required");
+    }
+    validateFields(changes);
+    if (scope === "this" && (changes.time || changes.rrule)) {
+      throw new RequestError("time and rrule apply to future instances");
+    }
+    if (scope === "future" && changes.due_at) {
+      throw new RequestError("due_at applies to this instance");
+    }
+    if (changes.due_at && isNaN(Date.parse(changes.due_at))) {
+      throw new RequestError("due_at must be an ISO date-time");
+    }
+  }
+
+  const { data: task } = await supabase
+    .from("tasks")
+    .select(
+      "id, circle_id, created_by, owner_user_id, status, series_id, recurrence_at",
+    )
+    .eq("id", task_id)
+    .single();
+
+  const instance = task as InstanceRow | null;
+  if (!instance?.series_id || !instance.recurrence_at) {
+    return errorResponse("NOT_FOUND", "Recurring task not found", 404);
+  }
+
+  // Mirrors tasks_update: creator, assignee, or admin+
+  const { data: membership } = await supabase
+    .from("circle_members")
+    .select("role")
+    .eq("circle_id", instance.circle_id)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .single();
+
+  const { data: seriesRow } = await supabase
+    .from("task_series")
+    .select("*")
+    .eq("id", instance.series_id)
+    .single();
+  const series = seriesRow as TaskSeries | null;
+  if (!series) {
+    return errorResponse("NOT_FOUND", "Recurring task not found", 404);
+  }
+
+  const editable = scope === "this" ? instance : series;
+  if (
+    !membership ||
+    membership.role === "VIEWER" ||
+    (membership.role === "CONTRIBUTOR" &&
+      editable.created_by !== userId &&
+      editable.owner_user_id !== userId)
+  ) {
+    return errorResponse(
+      "AUTH_ROLE_FORBIDDEN",
+      "Insufficient permissions",
+      403,
+    );
+  }
+
+  if (
+    changes.owner_user_id &&
+    !(await isActiveMember(supabase, series.circle_id, changes.owner_user_id))
+  ) {
+    throw new RequestError("owner_user_id must be an active circle member");
+  }
+  if (body.action === "update" && scope === "future" && changes.rrule) {
+    changes.rrule = formatRRule(
+      validRule(
+        changes.rrule,
+        new Date(instance.recurrence_at),
+        series.timezone,
+      ),
+    );
+  }
+
+  const at = new Date(instance.recurrence_at);
+  const now = new Date();
+  let result: Record<string, unknown>;
+
+  if (scope === "this") {
+    if (instance.status !== "OPEN") {
+      throw new RequestError("Only open instances can be changed");
+    }
+    const update =
+      body.action === "cancel"
+        ? { status: "CANCELED" }
+        : Object.fromEntries(
+            Object.entries({
+              title: changes.title?.trim(),
+              description: changes.description,
+              priority: changes.priority,
+              owner_user_id: changes.owner_user_id,
+              due_at: changes.due_at
+                ? new Date(changes.due_at).toISOString()
+                : undefined,
+            }).filter(([, value]) => value !== undefined),
+          );
+
+    // The tasks trigger marks an edited instance as an exception
+    const { error } = await supabase
+      .from("tasks")
+      .update(update)
+      .eq("id", instance.id);
+    if (error) throw new SeriesWriteError(error.code);
+    result = { task_id: instance.id, series_id: series.id };
+  } else if (body.action === "cancel") {
+    await cancelFollowing(supabase, series, at);
+    result = { series_id: series.id };
+  } else {
+    result = await editFollowing(
+      supabase,
+      series,
+      at,
+      { ...changes, title: changes.title?.trim() },
+      now,
+    );
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id: series.circle_id,
+    actor_user_id: userId,
+    event_type:
+      body.action === "cancel" ? "TASK_SERIES_CANCELED" : "TASK_SERIES_EDITED",
+    object_type: "task_series",
+    object_id: series.id,
+    metadata_json: { scope, task_id: instance.id },
+  });
+
+  return jsonResponse({ success: true, scope, ...result });
+}
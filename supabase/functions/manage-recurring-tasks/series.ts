@@ -0,0 +1,171 @@
+/**
+ * "This and following" edits to a task series
+ *
+ * An edit from an occurrence ends the series just before it and continues
+ * in a new series (parent_series_id) from that occurrence, so completed
+ * instances keep the rule they were generated under. An edit from the first
+ * occurrence rewrites the series in place. Instances from the occurrence on
+ * that are not DONE are removed and regenerated from the new rule; changes
+ * made to any of them individually are replaced.
+ *
+ * The rules and occurrences are worked out here and applied together by
+ * split_task_series, in one transaction.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  formatRRule,
+  lastOccurrence,
+  parseRRule,
+  type RecurrenceRule,
+  type SeriesStart,
+  splitRule,
+} from "../_shared/recurrence/index.ts";
+import { localDate, localTime, zonedTimeToUtc } from "../_shared/timezone.ts";
+import {
+  seriesStart,
+  type TaskSeries,
+  upcomingOccurrences,
+} from "../_shared/task-series.ts";
+
+export interface SeriesChanges {
+  title?: string;
+  description?: string | null;
+  priority?: string;
+  owner_user_id?: string;
+  /** Local "HH:MM" for the series */
+  time?: string;
+  /** Replacement RRULE, already validated */
+  rrule?: string;
+}
+
+export class SeriesWriteError extends Error {
+  constructor(readonly code: string | undefined) {
+    super("Failed to update task series");
+    this.name = "SeriesWriteError";
+  }
+}
+
+/** The series was changed by someone else since it was read */
+export class SeriesChangedError extends Error {
+  constructor() {
+    super("Series has changed");
+    this.name = "SeriesChangedError";
+  }
+}
+
+function endsAt(rule: RecurrenceRule, start: SeriesStart): string | null {
+  return lastOccurrence(rule, start)?.toISOString() ?? null;
+}
+
+type SplitResult = { series_id: string; instances_created: number };
+
+/** Applies a split with split_task_series */
+async function split(
+  supabase: SupabaseClient,
+  series: TaskSeries,
+  at: Date,
+  before: { rrule: string; ends_at: string | null } | null,
+  following: Record<string, unknown> | null,
+  occurrences: Date[],
+): Promise<SplitResult> {
+  const { data, error } = await supabase.rpc("split_task_series", {
+    p_series_id: series.id,
+    p_at: at.toISOString(),
+    p_expected_rrule: series.rrule,
+    p_expected_dtstart: series.dtstart,
+    p_before: before,
+    p_following: following,
+    p_occurrences: occurrences.map((o) => o.toISOString()),
+  });
+  if (error) throw new SeriesWriteError(error.code);
+  if (data?.error) {
+    if (data.error === "Series has changed") throw new SeriesChangedError();
+    throw new SeriesWriteError(undefined);
+  }
+  return data as SplitResult;
+}
+
+/**
+ * Apply changes to the occurrence at `at` and every later one. Returns the
+ * series that now holds them and the instances created. Throws
+ * SeriesWriteError on a database error and SeriesChangedError when the
+ * series changed since it was read.
+ */
+export function editFollowing(
+  supabase: SupabaseClient,
+  series: TaskSeries,
+  at: Date,
+  changes: SeriesChanges,
+  now: Date,
+): Promise<SplitResult> {
+  const start = seriesStart(series);
+  const { before, after } = splitRule(parseRRule(series.rrule), start, at);
+
+  const time = changes.time ?? localTime(start.dtstart, series.timezone);
+  const dtstart = zonedTimeToUtc(
+    localDate(at, series.timezone),
+    time,
+    series.timezone,
+  );
+  const rule = changes.rrule ? parseRRule(changes.rrule) : after;
+  const rrule = formatRRule(rule);
+  const following = {
+    title: changes.title ?? series.title,
+    description:
+      changes.description !== undefined
+        ? changes.description
+        : series.description,
+    priority: changes.priority ?? series.priority,
+    owner_user_id: changes.owner_user_id ?? series.owner_user_id,
+    rrule,
+    dtstart: dtstart.toISOString(),
+    ends_at: endsAt(rule, { dtstart, timeZone: series.timezone }),
+  };
+
+  // From the new start, so the edited occurrence is regenerated even when
+  // it is overdue
+  const occurrences = upcomingOccurrences(
+    rrule,
+    { dtstart, timeZone: series.timezone },
+    dtstart,
+    now,
+  );
+
+  return split(
+    supabase,
+    series,
+    at,
+    before
+      ? { rrule: formatRRule(before), ends_at: endsAt(before, start) }
+      : null,
+    following,
+    occurrences,
+  );
+}
+
+/**
+ * Cancel the occurrence at `at` and every later one: the series ends just
+ * before it, or ends outright from its first occurrence. Throws
+ * SeriesWriteError on a database error and SeriesChangedError when the
+ * series changed since it was read.
+ */
+export async function cancelFollowing(
+  supabase: SupabaseClient,
+  series: TaskSeries,
+  at: Date,
+): Promise<void> {
+  const start = seriesStart(series);
+  const { before } = splitRule(parseRRule(series.rrule), start, at);
+
+  await split(
+    supabase,
+    series,
+    at,
+    before
+      ? { rrule: formatRRule(before), ends_at: endsAt(before, start) }
+      : null,
+    null,
+    [],
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * Bounding box arithmetic shared by line assembly and the label parser
+ *
+ * Kept free of imports so the parser can be loaded without the OCR
+ * backends.
+ */
+
+/**
+ * Axis-aligned box in normalized image coordinates: (0, 0) is the top-left
+ * corner and (1, 1) the bottom-right, so the app can overlay it on the photo
+ * at any display size.
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Four decimals is sub-pixel at phone camera resolutions */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+export function roundBox(box: BoundingBox): BoundingBox {
+  return {
+    x: round(box.x),
+    y: round(box.y),
+    width: round(box.width),
+    height: round(box.height),
+  };
+}
+
+export function unionBox(boxes: BoundingBox[]): BoundingBox {
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return roundBox({
+    x: left,
+    y: top,
+    width: right - left,
+    height: bottom - top,
+  });
+}
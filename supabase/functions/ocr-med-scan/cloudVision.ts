@@ -0,0 +1,123 @@
+/**
+ * Cloud OCR via Google Cloud Vision DOCUMENT_TEXT_DETECTION
+ *
+ * Images are sent inline (base64) rather than as signed URLs so the
+ * storage bucket never has to be reachable from Google.
+ */
+
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { OCRError, type OCRProvider, type OCRWord } from "./types.ts";
+
+const VISION_URL = "https://vision.googleapis.com/v1/images:annotate";
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface Vertex {
+  x?: number;
+  y?: number;
+}
+
+interface VisionWord {
+  boundingBox?: { vertices?: Vertex[] };
+  confidence?: number;
+  symbols?: { text?: string }[];
+}
+
+interface VisionPage {
+  width?: number;
+  height?: number;
+  blocks?: { paragraphs?: { words?: VisionWord[] }[] }[];
+}
+
+function wordBox(word: VisionWord, width: number, height: number) {
+  const vertices = word.boundingBox?.vertices ?? [];
+  const xs = vertices.map((v) => v.x ?? 0);
+  const ys = vertices.map((v) => v.y ?? 0);
+  if (xs.length === 0) return null;
+
+  const left = Math.min(...xs);
+  const top = Math.min(...ys);
+  return {
+    x: left / width,
+    y: top / height,
+    width: (Math.max(...xs) - left) / width,
+    height: (Math.max(...ys) - top) / height,
+  };
+}
+
+export function createGoogleVisionProvider(): OCRProvider {
+  const apiKey = Deno.env.get("GOOGLE_VISION_API_KEY");
+
+  return {
+    name: "google",
+    remote: true,
+    isConfigured: () => !!apiKey,
+
+    async recognize(image) {
+      if (!apiKey) {
+        throw new OCRError(
+          "NOT_CONFIGURED",
+          "GOOGLE_VISION_API_KEY is not set",
+        );
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${VISION_URL}?key=${apiKey}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            requests: [
+              {
+                image: { content: encodeBase64(image.bytes) },
+                features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+              },
+            ],
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch {
+        throw new OCRError("PROVIDER_ERROR", "Cloud Vision request failed");
+      }
+
+      if (!response.ok) {
+        throw new OCRError(
+          "PROVIDER_ERROR",
+          `Cloud Vision returned ${response.status}`,
+        );
+      }
+
+      const data = await response.json();
+      const result = data?.responses?.[0];
+      if (result?.error) {
+        throw new OCRError(
+          result.error.code === 3 ? "UNSUPPORTED_IMAGE" : "PROVIDER_ERROR",
+          "Cloud Vision could not process the image",
+        );
+      }
+
+      // Labels are single images, so there is at most one page
+      const page: VisionPage | undefined =
+        result?.fullTextAnnotation?.pages?.[0];
+      const width = page?.width ?? 0;
+      const height = page?.height ?? 0;
+      if (!page || width === 0 || height === 0) {
+        return { width, height, words: [] };
+      }
+
+      const words: OCRWord[] = [];
+      for (const block of page.blocks ?? []) {
+        for (const paragraph of block.paragraphs ?? []) {
+          for (const word of paragraph.words ?? []) {
+            const text = (word.symbols ?? []).map((s) => s.text ?? "").join("");
+            const box = wordBox(word, width, height);
+            if (text && box) {
+              words.push({ text, confidence: word.confidence ?? 0.9, box });
+            }
+          }
+        }
+      }
+
+      return { width, height, words };
+    },
+  };
+}
@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { hasAIConsent } from "../_shared/llm/index.ts";
+import { createOCRProvider, runOCR } from "./ocr.ts";
+import { parseMedications } from "./parseMedications.ts";
+import {
+  OCRError,
+  type OCRImage,
+  type ScanRequest,
+  type ScanResponse,
+} from "./types.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,36 +16,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-interface ScanRequest {
-  circle_id: string;
-  patient_id: string;
-  image_keys: string[]; // Storage keys for uploaded images
-}
-
-interface ParsedMed {
-  name: string;
-  dose?: string;
-  schedule?: string;
-  purpose?: string;
-  prescriber?: string;
-  confidence: {
-    name: number;
-    dose?: number;
-    schedule?: number;
-  };
-}
-
-interface ScanResponse {
-  success: boolean;
-  session_id?: string;
-  proposals_count?: number;
-  status?: string;
-  error?: {
-    code: string;
-    message: string;
-  };
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -133,6 +112,61 @@ serve(async (req) => {
       );
     }
 
+    // Images must live under the circle's storage prefix
+    if (!image_keys.every((key) => key.startsWith(`${circle_id}/`))) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Image keys must belong to the circle",
+          },
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    const ocr = createOCRProvider();
+    if (!ocr.isConfigured()) {
+      console.warn(`OCR provider '${ocr.name}' not configured`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: "OCR_NOT_CONFIGURED",
+            message: "Label scanning is not available",
+          },
+        }),
+        {
+          status: 503,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // Cloud OCR sends label photos to a third party
+    if (
+      ocr.remote &&
+      !(await hasAIConsent(supabaseService, user.id, "opt-out"))
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code: "CONSENT_REQUIRED",
+            message: "AI processing is turned off",
+          },
+        }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
     // Create scan session
     const { data: session, error: sessionError } = await supabaseService
       .from("med_scan_sessions")
@@ -163,22 +197,61 @@ serve(async (req) => {
       );
     }
 
-    // Get signed URLs for images
-    const imageUrls: string[] = [];
-    for (const key of image_keys) {
-      const { data: signedUrl } = await supabaseService.storage
+    // Download images; unreadable keys are skipped
+    const images: OCRImage[] = [];
+    for (const [index, key] of image_keys.entries()) {
+      const { data: blob } = await supabaseService.storage
         .from("attachments")
-        .createSignedUrl(key, 300); // 5 minutes
-      if (signedUrl?.signedUrl) {
-        imageUrls.push(signedUrl.signedUrl);
+        .download(key);
+      if (blob) {
+        images.push({ bytes: new Uint8Array(await blob.arrayBuffer()), index });
+      } else {
+        console.warn(`Scan image ${index} could not be downloaded`);
       }
     }
 
-    // Perform OCR (in production, this would call an external OCR service)
-    const ocrResult = await performOCR(imageUrls);
+    let ocrResult;
+    try {
+      if (images.length === 0) {
+        throw new OCRError("UNSUPPORTED_IMAGE", "No scan images could be read");
+      }
+      ocrResult = await runOCR(ocr, images);
+    } catch (ocrError) {
+      const code =
+        ocrError instanceof OCRError ? ocrError.code : "PROVIDER_ERROR";
+      console.error(`OCR failed (${ocr.name}):`, code);
+      await supabaseService
+        .from("med_scan_sessions")
+        .update({
+          status: "FAILED",
+          error_message: `OCR ${code}`,
+          ocr_provider: ocr.name,
+        })
+        .eq("id", session.id);
 
-    // Parse medications from OCR text
-    const parsedMeds = parseMedicationsFromText(ocrResult.text);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: {
+            code:
+              code === "UNSUPPORTED_IMAGE"
+                ? "OCR_UNREADABLE_IMAGE"
+                : "OCR_FAILED",
+            message:
+              code === "UNSUPPORTED_IMAGE"
+                ? "Label images could not be read"
+                : "Failed to read medication labels",
+          },
+        }),
+        {
+          status: code === "UNSUPPORTED_IMAGE" ? 422 : 502,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        },
+      );
+    }
+
+    // Parse medications from OCR lines, keeping the label region of each field
+    const parsedMeds = parseMedications(ocrResult.pages);
 
     // Process results
     const { data: processResult, error: processError } =
@@ -186,6 +259,8 @@ serve(async (req) => {
         p_session_id: session.id,
         p_ocr_text: ocrResult.text,
         p_parsed_meds: parsedMeds,
+        p_ocr_pages: ocrResult.pages,
+        p_ocr_provider: ocrResult.provider,
       });
 
     if (processError) {
@@ -225,6 +300,7 @@ serve(async (req) => {
       session_id: session.id,
       proposals_count: processResult.proposals_created,
       status: processResult.status,
+      ocr_provider: ocrResult.provider,
     };
 
     return new Response(JSON.stringify(response), {
@@ -245,81 +321,3 @@ serve(async (req) => {
     );
   }
 });
-
-async function performOCR(imageUrls: string[]): Promise<{ text: string }> {
-  // In production, this would call Google Cloud Vision, AWS Textract, or similar
-  // For now, return a mock result
-
-  // Simulated OCR text from medication labels
-  const mockOcrText = `
-    LISINOPRIL 10MG TABLET
-    Take one tablet by mouth once daily
-    Dr. Smith, MD
-    Qty: 30
-    
-    METFORMIN HCL 500MG
-    Take one tablet twice daily with meals
-    Dr. Johnson
-    
-    ATORVASTATIN 20MG
-    Take one tablet at bedtime
-    Dr. Smith, MD
-  `;
-
-  return { text: mockOcrText };
-}
-
-function parseMedicationsFromText(ocrText: string): ParsedMed[] {
-  // In production, this would use NLP/ML to extract medications
-  // For now, use simple pattern matching
-
-  const medications: ParsedMed[] = [];
-
-  // Common medication name patterns
-  const medPatterns = [
-    /([A-Z][A-Z\s]+)\s+(\d+(?:\.\d+)?(?:MG|MCG|ML|G))\s*(TABLET|CAPSULE|SOLUTION)?/gi,
-  ];
-
-  const lines = ocrText.split("\n").filter((l) => l.trim());
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
-
-    for (const pattern of medPatterns) {
-      const match = pattern.exec(line);
-      if (match) {
-        const med: ParsedMed = {
-          name: match[1].trim(),
-          dose: match[2],
-          confidence: {
-            name: 0.9,
-            dose: 0.85,
-          },
-        };
-
-        // Look for schedule in next line
-        if (i + 1 < lines.length) {
-          const nextLine = lines[i + 1].toLowerCase();
-          if (nextLine.includes("take") || nextLine.includes("daily")) {
-            med.schedule = lines[i + 1].trim();
-            med.confidence.schedule = 0.8;
-          }
-        }
-
-        // Look for prescriber
-        for (let j = i; j < Math.min(i + 3, lines.length); j++) {
-          const checkLine = lines[j];
-          if (checkLine.includes("Dr.") || checkLine.includes("MD")) {
-            med.prescriber = checkLine.trim();
-            break;
-          }
-        }
-
-        medications.push(med);
-        break;
-      }
-    }
-  }
-
-  return medications;
-}
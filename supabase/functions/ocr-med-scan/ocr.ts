@@ -0,0 +1,169 @@
+/**
+ * OCR backends for medication label scans
+ *
+ * Provider selection: OCR_PROVIDER (tesseract | google | fake, default
+ * tesseract). Tesseract runs in-process via WebAssembly, so label photos
+ * never leave our infrastructure; Google Cloud Vision is more accurate on
+ * curved or glossy labels but is third-party processing and honors the
+ * user's AI opt-out.
+ *
+ * Providers return words with boxes; lines are assembled here so every
+ * backend feeds the parser the same structure.
+ */
+
+import { roundBox, unionBox } from "./boxes.ts";
+import { createGoogleVisionProvider } from "./cloudVision.ts";
+import { createTesseractProvider } from "./tesseract.ts";
+import type {
+  BoundingBox,
+  OCRImage,
+  OCRLine,
+  OCRPage,
+  OCRProvider,
+  OCRProviderName,
+  OCRResult,
+  OCRWord,
+} from "./types.ts";
+
+const PROVIDER_NAMES: OCRProviderName[] = ["tesseract", "google", "fake"];
+
+export function resolveOCRProviderName(): OCRProviderName {
+  const configured = Deno.env.get("OCR_PROVIDER")?.trim().toLowerCase();
+  if (!configured) return "tesseract";
+
+  if (PROVIDER_NAMES.includes(configured as OCRProviderName)) {
+    return configured as OCRProviderName;
+  }
+
+  console.warn(`Unknown OCR_PROVIDER '${configured}', using tesseract`);
+  return "tesseract";
+}
+
+export function createOCRProvider(
+  name: OCRProviderName = resolveOCRProviderName(),
+): OCRProvider {
+  switch (name) {
+    case "tesseract":
+      return createTesseractProvider();
+    case "google":
+      return createGoogleVisionProvider();
+    case "fake":
+      return createFakeOCRProvider();
+  }
+}
+
+// ============================================================================
+// Line assembly
+// ============================================================================
+
+function toLine(words: OCRWord[]): OCRLine {
+  const sorted = [...words].sort((a, b) => a.box.x - b.box.x);
+  return {
+    text: sorted.map((w) => w.text).join(" "),
+    confidence:
+      sorted.reduce((sum, w) => sum + w.confidence, 0) / sorted.length,
+    box: unionBox(sorted.map((w) => w.box)),
+    words: sorted,
+  };
+}
+
+/**
+ * Group words into lines: a word joins the current line when its vertical
+ * center falls inside the line's band. Lines come out top to bottom.
+ */
+export function buildLines(words: OCRWord[]): OCRLine[] {
+  const byCenter = [...words]
+    .filter((w) => w.text.trim())
+    .sort((a, b) => a.box.y + a.box.height / 2 - (b.box.y + b.box.height / 2));
+
+  const groups: OCRWord[][] = [];
+  let band: BoundingBox | null = null;
+
+  for (const word of byCenter) {
+    const center = word.box.y + word.box.height / 2;
+    if (band && center >= band.y && center <= band.y + band.height) {
+      groups[groups.length - 1].push(word);
+      band = unionBox([band, word.box]);
+    } else {
+      groups.push([word]);
+      band = word.box;
+    }
+  }
+
+  return groups.map(toLine);
+}
+
+export async function runOCR(
+  provider: OCRProvider,
+  images: OCRImage[],
+): Promise<OCRResult> {
+  const pages: OCRPage[] = [];
+  for (const image of images) {
+    const { width, height, words } = await provider.recognize(image);
+    pages.push({
+      image_index: image.index,
+      width,
+      height,
+      lines: buildLines(words.map((w) => ({ ...w, box: roundBox(w.box) }))),
+    });
+  }
+
+  return {
+    provider: provider.name,
+    pages,
+    text: pages
+      .map((page) => page.lines.map((line) => line.text).join("\n"))
+      .join("\n\n"),
+  };
+}
+
+// ============================================================================
+// Fake provider
+// ============================================================================
+
+const FAKE_LABEL = `LISINOPRIL 10MG TABLET
+Take one tablet by mouth once daily
+Dr. Smith, MD
+Qty: 30`;
+
+/**
+ * Deterministic provider for offline runs and tests. Lays out OCR_FAKE_TEXT
+ * (or a sample label) as evenly spaced lines with one box per word.
+ */
+export function createFakeOCRProvider(): OCRProvider {
+  const text = Deno.env.get("OCR_FAKE_TEXT") ?? FAKE_LABEL;
+  const lines = text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  return {
+    name: "fake",
+    remote: false,
+    isConfigured: () => true,
+
+    recognize() {
+      const lineHeight = 1 / (lines.length + 1);
+      const words: OCRWord[] = [];
+      lines.forEach((line, row) => {
+        const tokens = line.split(/\s+/);
+        const charWidth = 0.9 / Math.max(line.length, 1);
+        let x = 0.05;
+        for (const token of tokens) {
+          words.push({
+            text: token,
+            confidence: 0.99,
+            box: {
+              x,
+              y: (row + 0.5) * lineHeight,
+              width: token.length * charWidth,
+              height: lineHeight * 0.8,
+            },
+          });
+          x += (token.length + 1) * charWidth;
+        }
+      });
+      return Promise.resolve({ width: 1000, height: 1000, words });
+    },
+  };
+}
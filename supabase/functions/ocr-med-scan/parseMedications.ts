@@ -0,0 +1,530 @@
+/**
+ * Pharmacy label parsing from OCR lines
+ *
+ * Each line is classified as a drug line (name, strength, dosage form), the
+ * start of the sig, or one or more labeled fields (Rx number, quantity,
+ * refills, fill date, prescriber, pharmacy). Fields are then assigned to the
+ * drug line whose block they sit in; fields above the first drug line belong
+ * to the label header and go to the first drug. Each parsed field keeps the
+ * box of the words it was read from, so the review screen can highlight the
+ * label region behind every value.
+ */
+
+import { unionBox } from "./boxes.ts";
+import { normalizeSig, SIG_START } from "../_shared/meds/index.ts";
+import type {
+  FieldSource,
+  OCRLine,
+  OCRPage,
+  OCRWord,
+  ParsedMed,
+  ParsedMedField,
+  SigRoute,
+} from "./types.ts";
+
+interface IndexedLine extends OCRLine {
+  image_index: number;
+}
+
+/** Span of a value in a line's text and how reliable the pattern is */
+interface FieldMatch {
+  field: ParsedMedField;
+  value: string | number;
+  start: number;
+  end: number;
+  base: number;
+}
+
+interface LocatedField {
+  value: string | number;
+  confidence: number;
+  source: FieldSource | null;
+}
+
+type FieldSet = Partial<Record<ParsedMedField, LocatedField>>;
+
+// ============================================================================
+// Line patterns
+// ============================================================================
+
+const STRENGTH =
+  "\\d+(?:\\.\\d+)?(?:\\s?[-/]\\s?\\d+(?:\\.\\d+)?)*\\s?(?:MG|MCG|GM|G|ML|MEQ|IU|UNITS?|%)(?:\\s?/\\s?(?:\\d+(?:\\.\\d+)?\\s?)?(?:ML|HR|H|ACTUATION|DOSE|SPRAY))?";
+
+const FORMS: [RegExp, string][] = [
+  [/^TAB(?:LET)?S?$/, "tablet"],
+  [/^CAP(?:SULE)?S?$/, "capsule"],
+  [/^(?:SOLN?|SOLUTION)$/, "solution"],
+  [/^SUSP(?:ENSION)?$/, "suspension"],
+  [/^(?:SYRUP|LIQUID|ELIXIR)$/, "liquid"],
+  [/^CREAM$/, "cream"],
+  [/^(?:OINT|OINTMENT)$/, "ointment"],
+  [/^GEL$/, "gel"],
+  [/^LOTION$/, "lotion"],
+  [/^PATCH(?:ES)?$/, "patch"],
+  [/^(?:INHALER|AEROSOL|HFA)$/, "inhaler"],
+  [/^(?:DROPS?|GTTS?)$/, "drops"],
+  [/^SPRAY$/, "spray"],
+  [/^(?:INJ|INJECTION|PEN)$/, "injection"],
+  [/^SUPP(?:OSITOR(?:Y|IES))?$/, "suppository"],
+  [/^LOZENGES?$/, "lozenge"],
+  [/^POWDER$/, "powder"],
+];
+
+const FORM_WORD =
+  "TAB(?:LET)?S?|CAP(?:SULE)?S?|SOLN?|SOLUTION|SUSP(?:ENSION)?|SYRUP|LIQUID|ELIXIR|CREAM|OINT(?:MENT)?|GEL|LOTION|PATCH(?:ES)?|INHALER|AEROSOL|HFA|DROPS?|GTTS?|SPRAY|INJ(?:ECTION)?|PEN|SUPP(?:OSITOR(?:Y|IES))?|LOZENGES?|POWDER";
+
+const DRUG_LINE = new RegExp(
+  `^\\s*([A-Z][A-Z\\-/ ]*?)\\s+(${STRENGTH})(?![A-Z])(?:\\s+(${FORM_WORD})\\b)?`,
+  "i",
+);
+
+const FORM_ROUTES: Record<string, SigRoute> = {
+  tablet: "oral",
+  capsule: "oral",
+  solution: "oral",
+  suspension: "oral",
+  liquid: "oral",
+  lozenge: "oral",
+  cream: "topical",
+  ointment: "topical",
+  gel: "topical",
+  lotion: "topical",
+  patch: "transdermal",
+  inhaler: "inhaled",
+  suppository: "rectal",
+};
+
+/** Connectors that mean the sig continues on the next line */
+const SIG_CONTINUES =
+  /(?:\b(?:with|and|or|by|as|for|every|at|in|to|then|of|on|before|after|if|per|up)|\d)\s*$/i;
+const SIG_CONTINUATION =
+  /^\s*(?:with|and|or|as needed|if needed|for|every|at|in the|then|before|after|daily|twice|once|times|hours|days|until|do not exceed|not to exceed|by mouth)\b/i;
+
+const PHARMACY =
+  /\b(?:PHARMACY|PHARMACIES|APOTHECARY|DRUG ?STORE|CVS|WALGREENS|RITE AID|WALMART|KROGER|COSTCO|PUBLIX|SAFEWAY|H-E-B|MEIJER|EXPRESS SCRIPTS|OPTUM ?RX)\b/i;
+
+const PHONE =
+  /\s*(?:PH(?:ONE)?\.?:?|TEL:?)?\s*\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}.*$/i;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const DATE =
+  "(\\d{1,2}[/-]\\d{1,2}[/-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|[A-Z]{3}[A-Z]*\\.? \\d{1,2},? \\d{4})";
+
+function isoDate(text: string): string | null {
+  let year: number, month: number, day: number;
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const numeric = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})$/);
+  const named = text.match(/^([A-Z]{3})[A-Z]*\.? (\d{1,2}),? (\d{4})$/i);
+
+  if (iso) {
+    [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+  } else if (numeric) {
+    // US labels print month first
+    [month, day, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    if (year < 100) year += 2000;
+  } else if (named) {
+    month = MONTHS.indexOf(named[1].toLowerCase()) + 1;
+    [day, year] = [+named[2], +named[3]];
+  } else {
+    return null;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/** Labels and values of fields that can share a line with the prescriber */
+const OTHER_FIELDS = new RegExp(
+  `\\b(?:DATE\\s*FILLED|FILL(?:ED)?(?:\\s*(?:DATE|DT|ON))?|DATE|RX\\s*(?:#|NO\\.?|NUMBER)?|QTY|QUANTITY|DISP(?:ENSED)?|REFILLS?(?:\\s+(?:LEFT|REMAINING))?|RF|EXP(?:IRES|IRATION)?(?:\\s*DATE)?|DISCARD(?:\\s*AFTER)?|USE BY)\\b\\s*[:#]?\\s*(?:${DATE}|#?\\d[\\d-]*|NONE)?`,
+  "gi",
+);
+
+const PRESCRIBER_MARKER =
+  /\bDR\.?\s+[A-Z]|,\s*(?:MD|DO|NP|PA-C|PA)\b|\bM\.D\.|\bMD\b/i;
+
+/**
+ * The line with other labeled fields and dates blanked out, keeping
+ * offsets, so "Filled: 1/5/24 Dr Lee" leaves only "Dr Lee"
+ */
+function withoutOtherFields(text: string): string {
+  const blank = (match: string) => " ".repeat(match.length);
+  return text
+    .replace(OTHER_FIELDS, blank)
+    .replace(new RegExp(DATE, "gi"), blank);
+}
+
+/** Labeled fields on one line; a line may carry several ("Qty: 30  Refills: 2") */
+function matchFields(text: string): FieldMatch[] {
+  const matches: FieldMatch[] = [];
+  const at = (match: RegExpMatchArray, group: number) => {
+    const start = match.index! + match[0].lastIndexOf(match[group]);
+    return { start, end: start + match[group].length };
+  };
+
+  const rx = text.match(
+    /\bRX\s*(?:#|NO\.?|NUMBER)?\s*:?\s*#?\s*(\d[\d-]{3,}\d)\b/i,
+  );
+  if (rx) {
+    matches.push({
+      field: "rx_number",
+      value: rx[1],
+      ...at(rx, 1),
+      base: 0.95,
+    });
+  }
+
+  const qty = text.match(
+    /\b(?:QTY|QUANTITY|DISP(?:ENSED)?)\s*:?\s*(\d+(?:\.\d+)?)\b/i,
+  );
+  if (qty) {
+    matches.push({
+      field: "quantity",
+      value: parseFloat(qty[1]),
+      ...at(qty, 1),
+      base: 0.95,
+    });
+  }
+
+  const noRefills = text.match(/\b(?:NO|ZERO)\s+REFILLS?\b/i);
+  const refills =
+    text.match(
+      /\b(?:REFILLS?|RF)(?:\s+(?:LEFT|REMAINING))?\s*:?\s*(\d+|NONE|NO)\b/i,
+    ) ?? text.match(/\b(\d+)\s+REFILLS?\b/i);
+  if (noRefills) {
+    matches.push({
+      field: "refills",
+      value: 0,
+      start: noRefills.index!,
+      end: noRefills.index! + noRefills[0].length,
+      base: 0.9,
+    });
+  } else if (refills) {
+    matches.push({
+      field: "refills",
+      value: /^\d+$/.test(refills[1]) ? parseInt(refills[1], 10) : 0,
+      ...at(refills, 1),
+      base: 0.9,
+    });
+  }
+
+  const filled = text.match(
+    new RegExp(
+      `\\b(?:DATE\\s*FILLED|FILL(?:ED)?(?:\\s*(?:DATE|DT|ON))?|DATE)\\s*:?\\s*${DATE}`,
+      "i",
+    ),
+  );
+  if (
+    filled &&
+    !/\b(?:EXP|DISCARD|USE BY|BEYOND|BEST BY)/i.test(
+      text.slice(0, filled.index!),
+    )
+  ) {
+    const date = isoDate(filled[1]);
+    if (date) {
+      matches.push({
+        field: "fill_date",
+        value: date,
+        ...at(filled, 1),
+        base: 0.9,
+      });
+    }
+  }
+
+  // Values end where a blanked field or a wide gap begins
+  const rest = withoutOtherFields(text);
+  const prescriber = rest.match(
+    /\b(?:PRESCRIBER|PRESCRIBED BY|PRESC(?:RIBING)?(?: DR)?|PRESCRIBING PHYSICIAN)\s*:?\s*([A-Z].*?)(?=\s{2}|\s*$)/i,
+  );
+  const marker = prescriber ? null : PRESCRIBER_MARKER.exec(rest);
+  if (prescriber) {
+    matches.push({
+      field: "prescriber",
+      value: prescriber[1],
+      ...at(prescriber, 1),
+      base: 0.9,
+    });
+  } else if (marker) {
+    const gapBefore = rest.lastIndexOf("  ", marker.index);
+    const gapAfter = rest.indexOf("  ", marker.index + marker[0].length);
+    const from = gapBefore < 0 ? 0 : gapBefore;
+    const name = rest.slice(from, gapAfter < 0 ? rest.length : gapAfter).trim();
+    const start = rest.indexOf(name, from);
+    matches.push({
+      field: "prescriber",
+      value: name,
+      start,
+      end: start + name.length,
+      base: 0.75,
+    });
+  }
+
+  if (PHARMACY.test(text)) {
+    const name = text.replace(PHONE, "").trim();
+    if (name) {
+      const start = text.indexOf(name);
+      matches.push({
+        field: "pharmacy",
+        value: name,
+        start,
+        end: start + name.length,
+        base: 0.85,
+      });
+    }
+  }
+
+  return matches;
+}
+
+// ============================================================================
+// Sources and confidence
+// ============================================================================
+
+/** Words covering [start, end) of the line text */
+function wordsInRange(line: OCRLine, start: number, end: number): OCRWord[] {
+  const covered: OCRWord[] = [];
+  let offset = 0;
+  for (const word of line.words) {
+    const wordEnd = offset + word.text.length;
+    if (offset < end && wordEnd > start) covered.push(word);
+    offset = wordEnd + 1; // words are joined with single spaces
+  }
+  return covered;
+}
+
+/** Scale a pattern confidence by how sure OCR was of the underlying words */
+function scaled(base: number, ocrConfidence: number): number {
+  return Math.round(base * ocrConfidence * 100) / 100;
+}
+
+function locate(
+  lines: IndexedLine[],
+  value: string | number,
+  base: number,
+  start = 0,
+  end?: number,
+): LocatedField {
+  const words =
+    lines.length === 1
+      ? wordsInRange(lines[0], start, end ?? lines[0].text.length)
+      : lines.flatMap((line) => line.words);
+  if (words.length === 0) return { value, confidence: base, source: null };
+
+  return {
+    value,
+    confidence: scaled(
+      base,
+      words.reduce((sum, w) => sum + w.confidence, 0) / words.length,
+    ),
+    source: {
+      image_index: lines[0].image_index,
+      box: unionBox(words.map((w) => w.box)),
+      text: words.map((w) => w.text).join(" "),
+    },
+  };
+}
+
+// ============================================================================
+// Page parsing
+// ============================================================================
+
+interface DrugBlock {
+  line: number;
+  fields: FieldSet;
+}
+
+function drugFields(line: IndexedLine): FieldSet | null {
+  if (SIG_START.test(line.text)) return null;
+  const match = DRUG_LINE.exec(line.text);
+  if (!match) return null;
+
+  // "AMOXICILLIN CAPSULE 500 MG": a form printed before the strength
+  let name = match[1].trim();
+  let formWord = match[3];
+  const trailing = name.match(new RegExp(`\\s(${FORM_WORD})$`, "i"));
+  if (!formWord && trailing) {
+    formWord = trailing[1];
+    name = name.slice(0, trailing.index).trim();
+  }
+  if (name.length < 3 || /^(?:QTY|QUANTITY|RX|REFILLS?)\b/i.test(name)) {
+    return null;
+  }
+
+  const nameStart = match.index + match[0].indexOf(match[1].trim());
+  const strengthStart = line.text.indexOf(match[2], nameStart + name.length);
+  const fields: FieldSet = {
+    name: locate([line], name, 0.9, nameStart, nameStart + name.length),
+    dose: locate(
+      [line],
+      match[2].replace(/\s+/g, " ").trim(),
+      0.9,
+      strengthStart,
+      strengthStart + match[2].length,
+    ),
+  };
+
+  if (formWord) {
+    const form = FORMS.find(([pattern]) =>
+      pattern.test(formWord!.toUpperCase()),
+    );
+    if (form) {
+      const formStart = line.text
+        .toUpperCase()
+        .lastIndexOf(formWord.toUpperCase());
+      fields.dosage_form = locate(
+        [line],
+        form[1],
+        0.85,
+        formStart,
+        formStart + formWord.length,
+      );
+    }
+  }
+  return fields;
+}
+
+function fillGaps(target: FieldSet, from: FieldSet) {
+  for (const [field, located] of Object.entries(from)) {
+    const key = field as ParsedMedField;
+    if (!target[key]) target[key] = located;
+  }
+}
+
+function parsePage(lines: IndexedLine[]): {
+  blocks: DrugBlock[];
+  orphan: FieldSet;
+} {
+  const blocks: DrugBlock[] = [];
+  const header: FieldSet = {};
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const drug = drugFields(line);
+    if (drug) {
+      blocks.push({ line: i, fields: drug });
+      continue;
+    }
+
+    const target = blocks.length ? blocks[blocks.length - 1].fields : header;
+
+    if (SIG_START.test(line.text)) {
+      const sigLines = [line];
+      while (
+        i + 1 < lines.length &&
+        sigLines.length < 4 &&
+        !drugFields(lines[i + 1]) &&
+        matchFields(lines[i + 1].text).length === 0 &&
+        (SIG_CONTINUES.test(sigLines[sigLines.length - 1].text) ||
+          SIG_CONTINUATION.test(lines[i + 1].text))
+      ) {
+        sigLines.push(lines[++i]);
+      }
+
+      const text = sigLines
+        .map((l) => l.text.trim())
+        .join(" ")
+        .replace(/^SIG:?\s*/i, "");
+      if (!target.schedule) {
+        const sig = normalizeSig(text);
+        // A sig we could not schedule is still shown, with less confidence
+        target.schedule = locate(sigLines, text, sig.schedule ? 0.9 : 0.6);
+      }
+      continue;
+    }
+
+    for (const match of matchFields(line.text)) {
+      if (target[match.field]) continue;
+      target[match.field] = locate(
+        [line],
+        match.value,
+        match.base,
+        match.start,
+        match.end,
+      );
+    }
+  }
+
+  // Header fields (pharmacy, Rx number, and often the sig) describe the first drug
+  if (blocks.length > 0) {
+    fillGaps(blocks[0].fields, header);
+    return { blocks, orphan: {} };
+  }
+  return { blocks, orphan: header };
+}
+
+function toParsedMed(fields: FieldSet): ParsedMed {
+  const med: ParsedMed = {
+    name: String(fields.name!.value),
+    confidence: { name: fields.name!.confidence },
+    sources: {},
+  };
+
+  for (const [field, located] of Object.entries(fields)) {
+    const key = field as ParsedMedField;
+    if (key !== "name") {
+      (med as unknown as Record<string, unknown>)[key] = located.value;
+      med.confidence[key] = located.confidence;
+    }
+    if (located.source) med.sources![key] = located.source;
+  }
+
+  if (med.schedule) {
+    med.sig = normalizeSig(med.schedule);
+    if (!med.sig.route && med.dosage_form && FORM_ROUTES[med.dosage_form]) {
+      med.sig.route = FORM_ROUTES[med.dosage_form];
+    }
+  }
+  return med;
+}
+
+function medKey(fields: FieldSet): string {
+  const dose = String(fields.dose?.value ?? "").replace(/\s+/g, "");
+  return `${String(fields.name!.value).toLowerCase()}|${dose.toLowerCase()}`;
+}
+
+/**
+ * Parse every label across the scan's images. The same drug photographed on
+ * several images (front and back of a bottle) is merged into one proposal,
+ * and an image with fields but no drug line continues the previous label.
+ */
+export function parseMedications(pages: OCRPage[]): ParsedMed[] {
+  const labels = new Map<string, FieldSet>();
+  let previous: FieldSet | null = null;
+
+  for (const page of pages) {
+    const lines: IndexedLine[] = page.lines
+      .filter((l) => l.text.trim())
+      .map((l) => ({ ...l, image_index: page.image_index }));
+
+    const { blocks, orphan } = parsePage(lines);
+    if (previous) fillGaps(previous, orphan);
+
+    for (const block of blocks) {
+      const key = medKey(block.fields);
+      const existing = labels.get(key);
+      if (existing) {
+        fillGaps(existing, block.fields);
+        previous = existing;
+      } else {
+        labels.set(key, block.fields);
+        previous = block.fields;
+      }
+    }
+  }
+
+  return [...labels.values()].map(toParsedMed);
+}
@@ -0,0 +1,125 @@
+/**
+ * Label parsing against line layouts transcribed from real pharmacy labels
+ *
+ * Run with `deno test supabase/functions/ocr-med-scan/`.
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseMedications } from "./parseMedications.ts";
+import type { OCRLine, OCRPage, OCRWord, ParsedMed } from "./types.ts";
+
+/** One OCR page with a line per entry, words laid out left to right */
+function label(...texts: string[]): OCRPage[] {
+  const lines: OCRLine[] = texts.map((text, row) => {
+    const y = row * 0.05;
+    let x = 0;
+    const words: OCRWord[] = text.split(" ").map((word) => {
+      const box = { x, y, width: word.length * 0.01, height: 0.04 };
+      x += (word.length + 1) * 0.01;
+      return { text: word, confidence: 0.95, box };
+    });
+    return {
+      text,
+      confidence: 0.95,
+      box: { x: 0, y, width: x, height: 0.04 },
+      words,
+    };
+  });
+  return [{ image_index: 0, width: 1000, height: 1000, lines }];
+}
+
+type Fields = Omit<ParsedMed, "confidence" | "sources" | "sig">;
+
+/** The parsed values without confidences and boxes */
+function fields(pages: OCRPage[]): Fields[] {
+  return parseMedications(pages).map(
+    ({ confidence: _c, sources: _s, sig: _sig, ...med }) => med,
+  );
+}
+
+Deno.test("abbreviated sig and prescriber after the fill date", () => {
+  const pages = label(
+    "CVS PHARMACY 555-123-4567",
+    "Rx# 1234567",
+    "LISINOPRIL 10 MG TAB",
+    "1 TAB PO QHS",
+    "Filled: 1/5/24 Dr Lee",
+    "Qty: 30  Refills: 2",
+  );
+
+  assertEquals(fields(pages), [
+    {
+      name: "LISINOPRIL",
+      dose: "10 MG",
+      dosage_form: "tablet",
+      schedule: "1 TAB PO QHS",
+      fill_date: "2024-01-05",
+      prescriber: "Dr Lee",
+      quantity: 30,
+      refills: 2,
+      pharmacy: "CVS PHARMACY",
+      rx_number: "1234567",
+    },
+  ]);
+  assertEquals(parseMedications(pages)[0].sig?.schedule?.times, ["21:00"]);
+});
+
+Deno.test("prescriber sharing a line with the Rx number and fill date", () => {
+  const pages = label(
+    "METFORMIN 500 MG TABLET",
+    "TAKE 1 TABLET BY MOUTH TWICE DAILY WITH MEALS",
+    "DR. JANE SMITH  Rx# 7654321  Date Filled: 03/14/2024",
+    "QTY 60",
+  );
+
+  assertEquals(fields(pages), [
+    {
+      name: "METFORMIN",
+      dose: "500 MG",
+      dosage_form: "tablet",
+      schedule: "TAKE 1 TABLET BY MOUTH TWICE DAILY WITH MEALS",
+      rx_number: "7654321",
+      fill_date: "2024-03-14",
+      prescriber: "DR. JANE SMITH",
+      quantity: 60,
+    },
+  ]);
+});
+
+Deno.test("labeled prescriber stops at the next field", () => {
+  const pages = label(
+    "ATORVASTATIN 20 MG TAB",
+    "30 TABLETS",
+    "1/2 tab po daily",
+    "Prescriber: Patel, MD  Refills: 0",
+  );
+
+  assertEquals(fields(pages), [
+    {
+      name: "ATORVASTATIN",
+      dose: "20 MG",
+      dosage_form: "tablet",
+      schedule: "1/2 tab po daily",
+      refills: 0,
+      prescriber: "Patel, MD",
+    },
+  ]);
+});
+
+Deno.test("inhaler sig and credentialed prescriber", () => {
+  const pages = label(
+    "ALBUTEROL 90 MCG/ACTUATION HFA",
+    "2 PUFFS INH Q4-6H PRN",
+    "JOHN DOE, NP",
+  );
+
+  assertEquals(fields(pages), [
+    {
+      name: "ALBUTEROL",
+      dose: "90 MCG/ACTUATION",
+      dosage_form: "inhaler",
+      schedule: "2 PUFFS INH Q4-6H PRN",
+      prescriber: "JOHN DOE, NP",
+    },
+  ]);
+});
@@ -0,0 +1,122 @@
+/**
+ * Local OCR with Tesseract compiled to WebAssembly
+ *
+ * The engine and English model are loaded once per isolate. Model and WASM
+ * URLs are configurable so deployments can serve them from their own
+ * storage (OCR_TESSERACT_WASM_URL, OCR_TESSERACT_MODEL_URL).
+ */
+
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { createOCREngine } from "https://esm.sh/tesseract-wasm@0.10.0";
+import { OCRError, type OCRProvider, type OCRWord } from "./types.ts";
+
+const DEFAULT_WASM_URL =
+  "https://unpkg.com/tesseract-wasm@0.10.0/dist/tesseract-core-fallback.wasm";
+const DEFAULT_MODEL_URL =
+  "https://raw.githubusercontent.com/tesseract-ocr/tessdata_fast/main/eng.traineddata";
+
+/** Phone photos are downscaled; label text stays legible well below this */
+const MAX_IMAGE_DIMENSION = 2000;
+
+type OCREngine = Awaited<ReturnType<typeof createOCREngine>>;
+
+/** tesseract-wasm TextItem */
+interface TextBox {
+  text: string;
+  confidence: number;
+  rect: { left: number; top: number; right: number; bottom: number };
+}
+
+let enginePromise: Promise<OCREngine> | null = null;
+
+async function fetchBytes(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new OCRError(
+      "NOT_CONFIGURED",
+      `Failed to load OCR asset (${response.status})`,
+    );
+  }
+  return await response.arrayBuffer();
+}
+
+function loadEngine(): Promise<OCREngine> {
+  if (!enginePromise) {
+    enginePromise = (async () => {
+      const [wasmBinary, model] = await Promise.all([
+        fetchBytes(Deno.env.get("OCR_TESSERACT_WASM_URL") || DEFAULT_WASM_URL),
+        fetchBytes(
+          Deno.env.get("OCR_TESSERACT_MODEL_URL") || DEFAULT_MODEL_URL,
+        ),
+      ]);
+      const engine = await createOCREngine({ wasmBinary });
+      engine.loadModel(model);
+      return engine;
+    })();
+    // Let the next request retry after a failed load
+    enginePromise.catch(() => {
+      enginePromise = null;
+    });
+  }
+  return enginePromise;
+}
+
+async function decodeImage(bytes: Uint8Array): Promise<Image> {
+  let image: Image;
+  try {
+    image = await Image.decode(bytes);
+  } catch {
+    throw new OCRError(
+      "UNSUPPORTED_IMAGE",
+      "Image could not be decoded (JPEG or PNG required)",
+    );
+  }
+
+  const longest = Math.max(image.width, image.height);
+  if (longest > MAX_IMAGE_DIMENSION) {
+    const scale = MAX_IMAGE_DIMENSION / longest;
+    image.resize(
+      Math.round(image.width * scale),
+      Math.round(image.height * scale),
+    );
+  }
+  return image;
+}
+
+export function createTesseractProvider(): OCRProvider {
+  return {
+    name: "tesseract",
+    remote: false,
+    isConfigured: () => true,
+
+    async recognize(input) {
+      const image = await decodeImage(input.bytes);
+      const engine = await loadEngine();
+
+      engine.loadImage({
+        data: image.bitmap,
+        width: image.width,
+        height: image.height,
+      } as ImageData);
+
+      const boxes: TextBox[] = engine.getTextBoxes("word");
+      const words: OCRWord[] = boxes
+        .map((item) => ({
+          text: item.text.trim(),
+          // Tesseract reports 0-100 in some builds, 0-1 in others
+          confidence:
+            item.confidence > 1 ? item.confidence / 100 : item.confidence,
+          box: {
+            x: item.rect.left / image.width,
+            y: item.rect.top / image.height,
+            width: (item.rect.right - item.rect.left) / image.width,
+            height: (item.rect.bottom - item.rect.top) / image.height,
+          },
+        }))
+        .filter((word) => word.text.length > 0);
+
+      engine.clearImage();
+      return { width: image.width, height: image.height, words };
+    },
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Type definitions for medication label scanning
+ */
+
+import type { BoundingBox } from "./boxes.ts";
+import type { NormalizedSig } from "../_shared/meds/index.ts";
+
+export type {
+  MedSchedule,
+  NormalizedSig,
+  SigRoute,
+} from "../_shared/meds/index.ts";
+
+export interface ScanRequest {
+  circle_id: string;
+  patient_id: string;
+  image_keys: string[]; // Storage keys for uploaded images
+}
+
+export type { BoundingBox } from "./boxes.ts";
+
+export interface OCRWord {
+  text: string;
+  /** 0-1 recognition confidence */
+  confidence: number;
+  box: BoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  box: BoundingBox;
+  words: OCRWord[];
+}
+
+export interface OCRPage {
+  /** Index into the request's image_keys */
+  image_index: number;
+  width: number;
+  height: number;
+  lines: OCRLine[];
+}
+
+export type OCRProviderName = "tesseract" | "google" | "fake";
+
+export interface OCRResult {
+  provider: OCRProviderName;
+  pages: OCRPage[];
+  /** Plain text, one line per OCR line and a blank line between images */
+  text: string;
+}
+
+export interface OCRImage {
+  bytes: Uint8Array;
+  index: number;
+}
+
+/** Providers recognize one image per call and return words, not lines */
+export interface OCRProvider {
+  name: OCRProviderName;
+  /** Images leave our infrastructure (third-party processing) */
+  remote: boolean;
+  isConfigured(): boolean;
+  recognize(
+    image: OCRImage,
+  ): Promise<{ width: number; height: number; words: OCRWord[] }>;
+}
+
+export type OCRErrorCode =
+  "NOT_CONFIGURED" | "UNSUPPORTED_IMAGE" | "PROVIDER_ERROR";
+
+export class OCRError extends Error {
+  readonly code: OCRErrorCode;
+
+  constructor(code: OCRErrorCode, message: string) {
+    super(message);
+    this.name = "OCRError";
+    this.code = code;
+  }
+}
+
+/** Label region a parsed field was read from */
+export interface FieldSource {
+  image_index: number;
+  box: BoundingBox;
+  text: string;
+}
+
+export type ParsedMedField =
+  | "name"
+  | "dose"
+  | "dosage_form"
+  | "schedule"
+  | "quantity"
+  | "refills"
+  | "rx_number"
+  | "pharmacy"
+  | "fill_date"
+  | "prescriber";
+
+export interface ParsedMed {
+  name: string;
+  /** Strength as printed, e.g. "10 MG" */
+  dose?: string;
+  dosage_form?: string;
+  /** Sig as printed on the label */
+  schedule?: string;
+  sig?: NormalizedSig;
+  purpose?: string;
+  prescriber?: string;
+  quantity?: number;
+  refills?: number;
+  rx_number?: string;
+  pharmacy?: string;
+  /** YYYY-MM-DD */
+  fill_date?: string;
+  confidence: { name: number } & Partial<
+    Record<Exclude<ParsedMedField, "name">, number>
+  >;
+  /** Stored separately from proposed_json (med_proposals.source_regions_json) */
+  sources?: Partial<Record<ParsedMedField, FieldSource>>;
+}
+
+export interface ScanResponse {
+  success: boolean;
+  session_id?: string;
+  proposals_count?: number;
+  status?: string;
+  ocr_provider?: OCRProviderName;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
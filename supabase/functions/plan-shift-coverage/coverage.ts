@@ -0,0 +1,301 @@
+/**
+ * Coverage planning
+ *
+ * Requirements are expanded into concrete windows in the patient's
+ * timezone, then compared with scheduled shifts stretch by stretch: where
+ * fewer distinct members are on shift than the window requires there is a
+ * gap, and where two or more are on shift beyond what is required there is
+ * an overlap. Outside every window nothing is required, so any double
+ * booking there is an overlap.
+ */
+
+import { addDays, zonedTimeToUtc } from "../_shared/timezone.ts";
+
+export interface CoverageRequirement {
+  id: string;
+  patientId: string;
+  /** ISO weekdays, 1 = Monday */
+  daysOfWeek: number[];
+  /** Local "HH:MM"; an end at or before the start runs past midnight */
+  startTime: string;
+  endTime: string;
+  minCaregivers: number;
+  /** YYYY-MM-DD bounds on the date a window starts, inclusive */
+  effectiveFrom: string | null;
+  effectiveUntil: string | null;
+}
+
+export interface CoverageWindow {
+  requirementId: string;
+  patientId: string;
+  start: Date;
+  end: Date;
+  required: number;
+}
+
+export interface ShiftSpan {
+  id: string;
+  patientId: string;
+  ownerUserId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface CoverageGap {
+  patientId: string;
+  /** The requirement asking for the most caregivers in the gap */
+  requirementId: string;
+  start: Date;
+  end: Date;
+  required: number;
+  scheduled: number;
+}
+
+export interface CoverageOverlap {
+  patientId: string;
+  start: Date;
+  end: Date;
+  required: number;
+  shiftIds: string[];
+  ownerUserIds: string[];
+}
+
+export interface CandidateMember {
+  userId: string;
+  fullName: string;
+}
+
+export interface AssignmentProposal {
+  userId: string;
+  fullName: string;
+  reasons: string[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Hours scheduled in the period at which the balance score is zero */
+const FULL_HOURS = 40;
+const WEIGHTS = { balance: 0.6, familiarity: 0.4 };
+
+/** ISO weekday (1 = Monday) of a YYYY-MM-DD date */
+function isoWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+}
+
+/**
+ * Windows of a requirement starting on the `days` local dates from
+ * `fromDate`, plus an overnight window from the day before that runs into
+ * the range. Windows are clipped to [rangeStart, rangeEnd).
+ */
+export function expandRequirement(
+  requirement: CoverageRequirement,
+  timeZone: string,
+  fromDate: string,
+  days: number,
+  rangeStart: Date,
+  rangeEnd: Date,
+): CoverageWindow[] {
+  const windows: CoverageWindow[] = [];
+  const overnight = requirement.endTime <= requirement.startTime;
+
+  for (let offset = -1; offset < days; offset++) {
+    const date = addDays(fromDate, offset);
+    if (!requirement.daysOfWeek.includes(isoWeekday(date))) continue;
+    if (requirement.effectiveFrom && date < requirement.effectiveFrom) continue;
+    if (requirement.effectiveUntil && date > requirement.effectiveUntil) {
+      continue;
+    }
+
+    const start = zonedTimeToUtc(date, requirement.startTime, timeZone);
+    const end = zonedTimeToUtc(
+      overnight ? addDays(date, 1) : date,
+      requirement.endTime,
+      timeZone,
+    );
+    const clippedStart = Math.max(start.getTime(), rangeStart.getTime());
+    const clippedEnd = Math.min(end.getTime(), rangeEnd.getTime());
+    if (clippedEnd <= clippedStart) continue;
+
+    windows.push({
+      requirementId: requirement.id,
+      patientId: requirement.patientId,
+      start: new Date(clippedStart),
+      end: new Date(clippedEnd),
+      required: requirement.minCaregivers,
+    });
+  }
+  return windows;
+}
+
+/**
+ * Gaps and overlaps in one patient's windows and shifts within
+ * [rangeStart, rangeEnd). Adjacent stretches are merged while the
+ * required and scheduled counts (for gaps) or the shifts (for overlaps)
+ * stay the same.
+ */
+export function analyzeCoverage(
+  patientId: string,
+  windows: CoverageWindow[],
+  shifts: ShiftSpan[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): { gaps: CoverageGap[]; overlaps: CoverageOverlap[] } {
+  const from = rangeStart.getTime();
+  const to = rangeEnd.getTime();
+  const clip = (ms: number) => Math.min(Math.max(ms, from), to);
+
+  const points = new Set<number>([from, to]);
+  for (const span of [...windows, ...shifts]) {
+    points.add(clip(span.start.getTime()));
+    points.add(clip(span.end.getTime()));
+  }
+  const sorted = [...points].sort((a, b) => a - b);
+
+  const gaps: CoverageGap[] = [];
+  const overlaps: CoverageOverlap[] = [];
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+
+    let required = 0;
+    let requirementId: string | null = null;
+    for (const window of windows) {
+      if (
+        window.start.getTime() <= start &&
+        window.end.getTime() >= end &&
+        window.required > required
+      ) {
+        required = window.required;
+        requirementId = window.requirementId;
+      }
+    }
+
+    const onShift = shifts.filter(
+      (shift) => shift.start.getTime() <= start && shift.end.getTime() >= end,
+    );
+    const owners = [...new Set(onShift.map((shift) => shift.ownerUserId))];
+    const scheduled = owners.length;
+
+    if (requirementId && scheduled < required) {
+      const last = gaps[gaps.length - 1];
+      if (
+        last &&
+        last.end.getTime() === start &&
+        last.required === required &&
+        last.scheduled === scheduled
+      ) {
+        last.end = new Date(end);
+      } else {
+        gaps.push({
+          patientId,
+          requirementId,
+          start: new Date(start),
+          end: new Date(end),
+          required,
+          scheduled,
+        });
+      }
+    }
+
+    if (scheduled >= 2 && scheduled > required) {
+      const shiftIds = onShift.map((shift) => shift.id).sort();
+      const last = overlaps[overlaps.length - 1];
+      if (
+        last &&
+        last.end.getTime() === start &&
+        last.shiftIds.join() === shiftIds.join()
+      ) {
+        last.end = new Date(end);
+        last.required = Math.max(last.required, required);
+      } else {
+        overlaps.push({
+          patientId,
+          start: new Date(start),
+          end: new Date(end),
+          required,
+          shiftIds,
+          ownerUserIds: owners.sort(),
+        });
+      }
+    }
+  }
+
+  return { gaps, overlaps };
+}
+
+/** Hours each member is scheduled within [rangeStart, rangeEnd) */
+export function scheduledHours(
+  shifts: ShiftSpan[],
+  rangeStart: Date,
+  rangeEnd: Date,
+): Map<string, number> {
+  const hours = new Map<string, number>();
+  for (const shift of shifts) {
+    const ms =
+      Math.min(shift.end.getTime(), rangeEnd.getTime()) -
+      Math.max(shift.start.getTime(), rangeStart.getTime());
+    if (ms <= 0) continue;
+    hours.set(
+      shift.ownerUserId,
+      (hours.get(shift.ownerUserId) ?? 0) + ms / HOUR_MS,
+    );
+  }
+  return hours;
+}
+
+/**
+ * Members to ask to cover a gap, best first. Members on any shift during
+ * the gap, for any patient, are left out. The rest are ranked on how few
+ * hours they already have in the period and on whether they have covered
+ * this patient recently.
+ */
+export function proposeAssignments(
+  gap: CoverageGap,
+  members: CandidateMember[],
+  shifts: ShiftSpan[],
+  hours: Map<string, number>,
+  recentPatientShifts: Map<string, number>,
+  limit = 3,
+): AssignmentProposal[] {
+  const busy = new Set(
+    shifts
+      .filter(
+        (shift) =>
+          shift.start.getTime() < gap.end.getTime() &&
+          shift.end.getTime() > gap.start.getTime(),
+      )
+      .map((shift) => shift.ownerUserId),
+  );
+
+  return members
+    .filter((member) => !busy.has(member.userId))
+    .map((member) => {
+      const scheduled = hours.get(member.userId) ?? 0;
+      const familiar = (recentPatientShifts.get(member.userId) ?? 0) > 0;
+      const score =
+        WEIGHTS.balance * (1 - Math.min(scheduled, FULL_HOURS) / FULL_HOURS) +
+        WEIGHTS.familiarity * (familiar ? 1 : 0);
+
+      const reasons = ["Free at this time"];
+      if (familiar) reasons.push("Has covered this patient recently");
+      reasons.push(
+        scheduled === 0
+          ? "No other shifts in this period"
+          : `${Math.round(scheduled)} ${Math.round(scheduled) === 1 ? "hour" : "hours"} scheduled in this period`,
+      );
+
+      return { member, scheduled, score, reasons };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.scheduled - b.scheduled ||
+        a.member.userId.localeCompare(b.member.userId),
+    )
+    .slice(0, limit)
+    .map(({ member, reasons }) => ({
+      userId: member.userId,
+      fullName: member.fullName,
+      reasons,
+    }));
+}
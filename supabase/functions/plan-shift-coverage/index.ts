@@ -0,0 +1,693 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidDate, isValidUUID } from "../_shared/validation.ts";
+import {
+  addDays,
+  isValidTimeZone,
+  localDate,
+  zonedTimeToUtc,
+} from "../_shared/timezone.ts";
+import { rankDelegationCandidates } from "../_shared/delegation.ts";
+import {
+  analyzeCoverage,
+  type CandidateMember,
+  type CoverageRequirement,
+  expandRequirement,
+  proposeAssignments,
+  scheduledHours,
+  type ShiftSpan,
+} from "./coverage.ts";
+
+/**
+ * Plan Shift Coverage
+ *
+ * plan: compares each patient's coverage_requirements with the scheduled
+ * care_shifts over a period and reports the gaps (with the members best
+ * placed to fill them, see coverage.ts) and the overlaps.
+ * post: posts stretches as open shift_slots and notifies the circle's
+ * contributors; members claim them with the claim_shift_slot RPC.
+ * cancel: withdraws an open slot.
+ */
+
+type Action = "plan" | "post" | "cancel";
+
+interface SlotInput {
+  patient_id: string;
+  start_at: string;
+  end_at: string;
+  requirement_id?: string | null;
+  note?: string | null;
+}
+
+interface CoverageRequest {
+  action?: Action;
+  circle_id: string;
+  // plan
+  patient_id?: string;
+  /** First local date, YYYY-MM-DD; defaults to today for each patient */
+  start_date?: string;
+  days?: number;
+  // post
+  slots?: SlotInput[];
+  // cancel
+  slot_id?: string;
+}
+
+interface PatientRow {
+  id: string;
+  display_name: string;
+  timezone: string | null;
+}
+
+interface RequirementRow {
+  id: string;
+  patient_id: string;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  min_caregivers: number;
+  effective_from: string | null;
+  effective_until: string | null;
+}
+
+interface ShiftRow {
+  id: string;
+  patient_id: string;
+  owner_user_id: string;
+  start_at: string;
+  end_at: string;
+}
+
+interface SlotRow {
+  id: string;
+  patient_id: string;
+  start_at: string;
+  end_at: string;
+}
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 31;
+const MAX_SLOTS = 50;
+const MAX_SLOT_HOURS = 24;
+const MAX_NOTE_LENGTH = 500;
+/** Shifts with a patient within this many days count as familiarity */
+const FAMILIARITY_DAYS = 60;
+const POSTING_ROLES = ["OWNER", "ADMIN", "CONTRIBUTOR"];
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: CoverageRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    if (!body.circle_id || !isValidUUID(body.circle_id)) {
+      return errorResponse("VALIDATION_ERROR", "circle_id is required", 400);
+    }
+
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", body.circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .maybeSingle();
+    if (!membership) {
+      return errorResponse(
+        "AUTH_NOT_MEMBER",
+        "Not a member of this circle",
+        403,
+      );
+    }
+
+    const action = body.action ?? "plan";
+    if (action !== "plan" && !POSTING_ROLES.includes(membership.role)) {
+      return errorResponse(
+        "AUTH_ROLE_FORBIDDEN",
+        "Insufficient permissions",
+        403,
+      );
+    }
+
+    try {
+      switch (action) {
+        case "plan":
+          return await planCoverage(supabaseService, body);
+        case "post":
+          return await postSlots(supabaseService, user.id, body);
+        case "cancel":
+          return await cancelSlot(
+            supabaseService,
+            user.id,
+            membership.role,
+            body,
+          );
+        default:
+          return errorResponse(
+            "VALIDATION_ERROR",
+            "action must be plan, post or cancel",
+            400,
+          );
+      }
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error(
+      "Error planning shift coverage:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+function toSpan(row: ShiftRow): ShiftSpan {
+  return {
+    id: row.id,
+    patientId: row.patient_id,
+    ownerUserId: row.owner_user_id,
+    start: new Date(row.start_at),
+    end: new Date(row.end_at),
+  };
+}
+
+function toRequirement(row: RequirementRow): CoverageRequirement {
+  return {
+    id: row.id,
+    patientId: row.patient_id,
+    daysOfWeek: row.days_of_week,
+    // time columns read back as HH:MM:SS
+    startTime: row.start_time.slice(0, 5),
+    endTime: row.end_time.slice(0, 5),
+    minCaregivers: row.min_caregivers,
+    effectiveFrom: row.effective_from,
+    effectiveUntil: row.effective_until,
+  };
+}
+
+async function planCoverage(
+  supabase: SupabaseClient,
+  body: CoverageRequest,
+): Promise<Response> {
+  if (body.patient_id !== undefined && !isValidUUID(body.patient_id)) {
+    throw new RequestError("patient_id must be a UUID");
+  }
+  if (body.start_date !== undefined && !isValidDate(body.start_date)) {
+    throw new RequestError("start_date must be YYYY-MM-DD");
+  }
+  const days = Math.trunc(body.days ?? DEFAULT_DAYS);
+  if (!(days >= 1 && days <= MAX_DAYS)) {
+    throw new RequestError(`days must be between 1 and ${MAX_DAYS}`);
+  }
+
+  let patientQuery = supabase
+    .from("patients")
+    .select("id, display_name, timezone")
+    .eq("circle_id", body.circle_id)
+    .order("display_name");
+  if (body.patient_id) patientQuery = patientQuery.eq("id", body.patient_id);
+
+  const { data: patientRows, error: patientError } = await patientQuery;
+  if (patientError) {
+    console.error("Failed to fetch patients:", patientError.code);
+    return errorResponse("DATABASE_ERROR", "Failed to fetch patients", 500);
+  }
+  const patients = (patientRows ?? []) as PatientRow[];
+  if (body.patient_id && patients.length === 0) {
+    return errorResponse("NOT_FOUND", "Patient not found", 404);
+  }
+
+  // Each patient's period runs over local days in their own timezone
+  const now = new Date();
+  const periods = patients.map((patient) => {
+    const timeZone =
+      patient.timezone && isValidTimeZone(patient.timezone)
+        ? patient.timezone
+        : "UTC";
+    const startDate = body.start_date ?? localDate(now, timeZone);
+    return {
+      patient,
+      timeZone,
+      startDate,
+      start: zonedTimeToUtc(startDate, "00:00", timeZone),
+      end: zonedTimeToUtc(addDays(startDate, days), "00:00", timeZone),
+    };
+  });
+  if (periods.length === 0) {
+    return jsonResponse({ success: true, days, patients: [] });
+  }
+
+  const rangeStart = new Date(
+    Math.min(...periods.map((period) => period.start.getTime())),
+  );
+  const rangeEnd = new Date(
+    Math.max(...periods.map((period) => period.end.getTime())),
+  );
+  const familiaritySince = new Date(
+    now.getTime() - FAMILIARITY_DAYS * 24 * 60 * 60 * 1000,
+  );
+
+  const [requirementsResult, shiftsResult, historyResult, slotsResult] =
+    await Promise.all([
+      supabase
+        .from("coverage_requirements")
+        .select(
+          "id, patient_id, days_of_week, start_time, end_time, min_caregivers, effective_from, effective_until",
+        )
+        .eq("circle_id", body.circle_id)
+        .eq("is_active", true)
+        .in(
+          "patient_id",
+          patients.map((patient) => patient.id),
+        ),
+      // Every patient's shifts, since a member on shift for one patient is
+      // not free for another
+      supabase
+        .from("care_shifts")
+        .select("id, patient_id, owner_user_id, start_at, end_at")
+        .eq("circle_id", body.circle_id)
+        .in("status", ["SCHEDULED", "ACTIVE"])
+        .lt("start_at", rangeEnd.toISOString())
+        .gt("end_at", rangeStart.toISOString()),
+      supabase
+        .from("care_shifts")
+        .select("patient_id, owner_user_id")
+        .eq("circle_id", body.circle_id)
+        .neq("status", "CANCELED")
+        .gte("start_at", familiaritySince.toISOString())
+        .lt("start_at", now.toISOString()),
+      supabase
+        .from("shift_slots")
+        .select("id, patient_id, start_at, end_at")
+        .eq("circle_id", body.circle_id)
+        .eq("status", "OPEN")
+        .lt("start_at", rangeEnd.toISOString())
+        .gt("end_at", rangeStart.toISOString()),
+    ]);
+
+  for (const result of [
+    requirementsResult,
+    shiftsResult,
+    historyResult,
+    slotsResult,
+  ]) {
+    if (result.error) {
+      console.error("Failed to fetch coverage data:", result.error.code);
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch coverage data",
+        500,
+      );
+    }
+  }
+
+  const members = await rankDelegationCandidates(supabase, [body.circle_id]);
+  if (!members) {
+    return errorResponse("DATABASE_ERROR", "Failed to fetch members", 500);
+  }
+  const names = new Map(members.map((m) => [m.userId, m.fullName]));
+  const candidates: CandidateMember[] = members.map((m) => ({
+    userId: m.userId,
+    fullName: m.fullName,
+  }));
+
+  const requirements = (requirementsResult.data as RequirementRow[]).map(
+    toRequirement,
+  );
+  const shifts = (shiftsResult.data as ShiftRow[]).map(toSpan);
+  const openSlots = slotsResult.data as SlotRow[];
+
+  // Shifts per patient and member in the last FAMILIARITY_DAYS
+  const history = new Map<string, Map<string, number>>();
+  for (const row of historyResult.data as {
+    patient_id: string;
+    owner_user_id: string;
+  }[]) {
+    const counts = history.get(row.patient_id) ?? new Map<string, number>();
+    counts.set(row.owner_user_id, (counts.get(row.owner_user_id) ?? 0) + 1);
+    history.set(row.patient_id, counts);
+  }
+
+  const report = periods.map(({ patient, timeZone, startDate, start, end }) => {
+    const windows = requirements
+      .filter((requirement) => requirement.patientId === patient.id)
+      .flatMap((requirement) =>
+        expandRequirement(requirement, timeZone, startDate, days, start, end),
+      );
+    const patientShifts = shifts.filter(
+      (shift) => shift.patientId === patient.id,
+    );
+    const { gaps, overlaps } = analyzeCoverage(
+      patient.id,
+      windows,
+      patientShifts,
+      start,
+      end,
+    );
+    const hours = scheduledHours(shifts, start, end);
+
+    const minutes = (from: Date, to: Date) =>
+      Math.round((to.getTime() - from.getTime()) / 60000);
+    const requiredMinutes = windows.reduce(
+      (sum, window) => sum + minutes(window.start, window.end),
+      0,
+    );
+    const uncoveredMinutes = gaps.reduce(
+      (sum, gap) => sum + minutes(gap.start, gap.end),
+      0,
+    );
+
+    return {
+      patient_id: patient.id,
+      patient_name: patient.display_name,
+      timezone: timeZone,
+      start_date: startDate,
+      required_minutes: requiredMinutes,
+      uncovered_minutes: uncoveredMinutes,
+      gaps: gaps.map((gap) => ({
+        start_at: gap.start.toISOString(),
+        end_at: gap.end.toISOString(),
+        requirement_id: gap.requirementId,
+        required: gap.required,
+        scheduled: gap.scheduled,
+        open_slot_ids: openSlots
+          .filter(
+            (slot) =>
+              slot.patient_id === patient.id &&
+              Date.parse(slot.start_at) < gap.end.getTime() &&
+              Date.parse(slot.end_at) > gap.start.getTime(),
+          )
+          .map((slot) => slot.id),
+        // Nobody is asked to cover time that has passed
+        proposals:
+          gap.end <= now
+            ? []
+            : proposeAssignments(
+                gap,
+                candidates,
+                shifts,
+                hours,
+                history.get(patient.id) ?? new Map(),
+              ).map((proposal) => ({
+                user_id: proposal.userId,
+                full_name: proposal.fullName,
+                reasons: proposal.reasons,
+              })),
+      })),
+      overlaps: overlaps.map((overlap) => ({
+        start_at: overlap.start.toISOString(),
+        end_at: overlap.end.toISOString(),
+        required: overlap.required,
+        shift_ids: overlap.shiftIds,
+        members: overlap.ownerUserIds.map((userId) => ({
+          user_id: userId,
+          full_name: names.get(userId) ?? "Former member",
+        })),
+      })),
+    };
+  });
+
+  return jsonResponse({ success: true, days, patients: report });
+}
+
+/** Validates the slots to post; throws RequestError */
+function parseSlots(slots: SlotInput[] | undefined, now: Date): SlotInput[] {
+  if (!Array.isArray(slots) || slots.length === 0) {
+    throw new RequestError("slots is required");
+  }
+  if (slots.length > MAX_SLOTS) {
+    throw new RequestError(`At most ${MAX_SLOTS} slots can be posted at once`);
+  }
+
+  return slots.map((slot, index) => {
+    const label = `slots[${index}]`;
+    if (!slot || !isValidUUID(slot.patient_id)) {
+      throw new RequestError(`${label}.patient_id must be a UUID`);
+    }
+    if (slot.requirement_id && !isValidUUID(slot.requirement_id)) {
+      throw new RequestError(`${label}.requirement_id must be a UUID`);
+    }
+    const start = Date.parse(slot.start_at);
+    const end = Date.parse(slot.end_at);
+    if (isNaN(start) || isNaN(end) || end <= start) {
+      throw new RequestError(
+        `${label} needs ISO start_at and end_at, with end_at after start_at`,
+      );
+    }
+    if (end - start > MAX_SLOT_HOURS * 60 * 60 * 1000) {
+      throw new RequestError(`${label} is longer than ${MAX_SLOT_HOURS} hours`);
+    }
+    if (end <= now.getTime()) {
+      throw new RequestError(`${label} has already ended`);
+    }
+    if (slot.note && slot.note.length > MAX_NOTE_LENGTH) {
+      throw new RequestError(`${label}.note is too long`);
+    }
+    return {
+      patient_id: slot.patient_id,
+      start_at: new Date(start).toISOString(),
+      end_at: new Date(end).toISOString(),
+      requirement_id: slot.requirement_id ?? null,
+      note: slot.note?.trim() || null,
+    };
+  });
+}
+
+async function postSlots(
+  supabase: SupabaseClient,
+  userId: string,
+  body: CoverageRequest,
+): Promise<Response> {
+  const slots = parseSlots(body.slots, new Date());
+  const patientIds = [...new Set(slots.map((slot) => slot.patient_id))];
+
+  const { data: patients, error: patientError } = await supabase
+    .from("patients")
+    .select("id, display_name")
+    .eq("circle_id", body.circle_id)
+    .in("id", patientIds);
+  if (patientError) {
+    console.error("Failed to fetch patients:", patientError.code);
+    return errorResponse("DATABASE_ERROR", "Failed to fetch patients", 500);
+  }
+  if ((patients ?? []).length !== patientIds.length) {
+    throw new RequestError("Every patient_id must be a patient in the circle");
+  }
+
+  const requirementIds = [
+    ...new Set(slots.map((slot) => slot.requirement_id).filter(Boolean)),
+  ] as string[];
+  if (requirementIds.length > 0) {
+    const { data: requirements } = await supabase
+      .from("coverage_requirements")
+      .select("id")
+      .eq("circle_id", body.circle_id)
+      .in("id", requirementIds);
+    if ((requirements ?? []).length !== requirementIds.length) {
+      throw new RequestError(
+        "Every requirement_id must be a coverage requirement in the circle",
+      );
+    }
+  }
+
+  // A stretch already open is not posted twice
+  const { data: open, error: openError } = await supabase
+    .from("shift_slots")
+    .select("patient_id, start_at, end_at")
+    .eq("status", "OPEN")
+    .in("patient_id", patientIds);
+  if (openError) {
+    console.error("Failed to fetch open slots:", openError.code);
+    return errorResponse("DATABASE_ERROR", "Failed to fetch open slots", 500);
+  }
+  const key = (slot: {
+    patient_id: string;
+    start_at: string;
+    end_at: string;
+  }) =>
+    `${slot.patient_id}|${Date.parse(slot.start_at)}|${Date.parse(slot.end_at)}`;
+  const posted = new Set((open ?? []).map(key));
+  const toPost = slots.filter((slot) => {
+    if (posted.has(key(slot))) return false;
+    posted.add(key(slot));
+    return true;
+  });
+
+  if (toPost.length === 0) {
+    return jsonResponse({
+      success: true,
+      slots: [],
+      skipped: slots.length,
+    });
+  }
+
+  const { data: created, error: insertError } = await supabase
+    .from("shift_slots")
+    .insert(
+      toPost.map((slot) => ({
+        ...slot,
+        circle_id: body.circle_id,
+        posted_by: userId,
+      })),
+    )
+    .select("id, patient_id, requirement_id, start_at, end_at, note, status");
+  if (insertError) {
+    if (insertError.code === "23505") {
+      return errorResponse(
+        "CONFLICT",
+        "One of the slots was just posted by someone else",
+        409,
+      );
+    }
+    console.error("Failed to post slots:", insertError.code);
+    return errorResponse("DATABASE_ERROR", "Failed to post slots", 500);
+  }
+
+  // One notification per member for the whole batch
+  const others = await rankDelegationCandidates(supabase, [body.circle_id], {
+    excludeUserId: userId,
+  });
+  if (others && others.length > 0) {
+    const names = (patients as { id: string; display_name: string }[])
+      .map((patient) => patient.display_name)
+      .join(", ");
+    const count = created.length;
+    const { error: notifyError } = await supabase
+      .from("notification_outbox")
+      .insert(
+        others.map((member) => ({
+          user_id: member.userId,
+          circle_id: body.circle_id,
+          notification_type: "SHIFT_SLOTS_POSTED",
+          title: "Open Shifts Need Cover",
+          body: `${count} open ${count === 1 ? "shift" : "shifts"} for ${names}`,
+          data_json: {
+            circle_id: body.circle_id,
+            slot_ids: created.map((slot: { id: string }) => slot.id),
+          },
+        })),
+      );
+    if (notifyError) {
+      console.error("Failed to queue open shift notices:", notifyError.code);
+    }
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id: body.circle_id,
+    actor_user_id: userId,
+    event_type: "SHIFT_SLOTS_POSTED",
+    object_type: "circle",
+    object_id: body.circle_id,
+    metadata_json: {
+      posted: created.length,
+      skipped: slots.length - created.length,
+    },
+  });
+
+  return jsonResponse({
+    success: true,
+    slots: created,
+    skipped: slots.length - created.length,
+  });
+}
+
+async function cancelSlot(
+  supabase: SupabaseClient,
+  userId: string,
+  role: string,
+  body: CoverageRequest,
+): Promise<Response> {
+  if (!body.slot_id || !isValidUUID(body.slot_id)) {
+    throw new RequestError("slot_id is required");
+  }
+
+  const { data: slot } = await supabase
+    .from("shift_slots")
+    .select("id, status, posted_by")
+    .eq("id", body.slot_id)
+    .eq("circle_id", body.circle_id)
+    .maybeSingle();
+  if (!slot) {
+    return errorResponse("NOT_FOUND", "Slot not found", 404);
+  }
+  if (slot.posted_by !== userId && role !== "OWNER" && role !== "ADMIN") {
+    return errorResponse(
+      "AUTH_ROLE_FORBIDDEN",
+      "Only the member who posted a slot or an admin can cancel it",
+      403,
+    );
+  }
+
+  // Guarded on OPEN so a slot claimed meanwhile is left alone
+  const { data: canceled, error } = await supabase
+    .from("shift_slots")
+    .update({ status: "CANCELED" })
+    .eq("id", slot.id)
+    .eq("status", "OPEN")
+    .select("id")
+    .maybeSingle();
+  if (error) {
+    console.error("Failed to cancel slot:", error.code);
+    return errorResponse("DATABASE_ERROR", "Failed to cancel slot", 500);
+  }
+  if (!canceled) {
+    return errorResponse("CONFLICT", "Slot is no longer open", 409);
+  }
+
+  await supabase.from("audit_events").insert({
+    circle_id: body.circle_id,
+    actor_user_id: userId,
+    event_type: "SHIFT_SLOT_CANCELED",
+    object_type: "shift_slot",
+    object_id: slot.id,
+    metadata_json: {},
+  });
+
+  return jsonResponse({ success: true, slot_id: slot.id });
+}
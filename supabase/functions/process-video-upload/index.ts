@@ -630,7 +630,7 @@ async function generateThumbnail(
   return false;
 }
 
-// Send push notifications to circle members
+// Queue notifications for circle members; dispatch-notifications delivers them
 async function notifyCircleMembers(
   supabase: ReturnType<typeof createClient>,
   circleId: string,
@@ -638,27 +638,6 @@ async function notifyCircleMembers(
   patientId: string,
   videoId: string,
 ): Promise<void> {
-  // Get circle info using parameterized query
-  const { data: circle } = await supabase
-    .from("circles")
-    .select("name")
-    .eq("id", circleId)
-    .single();
-
-  // Get sender info
-  const { data: sender } = await supabase
-    .from("users")
-    .select("display_name")
-    .eq("id", senderId)
-    .single();
-
-  // Get patient info
-  const { data: patient } = await supabase
-    .from("patients")
-    .select("name")
-    .eq("id", patientId)
-    .single();
-
   // Get all active circle members except sender
   const { data: members } = await supabase
     .from("circle_members")
@@ -669,23 +648,23 @@ async function notifyCircleMembers(
 
   if (!members || members.length === 0) return;
 
-  const memberIds = members.map((m: { user_id: string }) => m.user_id);
-
-  // Get device tokens
-  const { data: tokens } = await supabase
-    .from("push_tokens")
-    .select("token, platform")
-    .in("user_id", memberIds);
-
-  if (!tokens || tokens.length === 0) return;
-
-  // Create notification payload (no PHI in logs)
-  const title = "New Video Message";
-  const body = "A new video message has been posted to your care circle.";
-
-  // Log notification count only (no PHI)
-  console.log("Sending push notifications:", tokens.length);
+  // Generic copy keeps PHI out of the lock screen
+  const { error } = await supabase.from("notification_outbox").insert(
+    members.map((m: { user_id: string }) => ({
+      user_id: m.user_id,
+      circle_id: circleId,
+      notification_type: "VIDEO_MESSAGE",
+      title: "New Video Message",
+      body: "A new video message has been posted to your care circle.",
+      data_json: {
+        type: "video_message",
+        video_id: videoId,
+        patient_id: patientId,
+      },
+    })),
+  );
 
-  // In production, integrate with APNs/FCM here
-  // The NotificationManager on iOS handles displaying local notifications
+  if (error) {
+    console.error("Failed to queue video notifications:", error.code);
+  }
 }
@@ -4,7 +4,8 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, idempotency-key",
+  "Access-Control-Expose-Headers": "idempotent-replayed",
 };
 
 interface MedChange {
@@ -45,10 +46,18 @@ interface StructuredBrief {
 interface PublishRequest {
   handoff_id: string;
   structured_json: StructuredBrief;
+  /** Alternative to the Idempotency-Key header */
+  operation_id?: string;
   confirmations?: {
     med_changes_confirmed?: boolean;
     due_dates_confirmed?: boolean;
   };
+  /** Members who must acknowledge this publish (a critical handoff) */
+  acknowledgment?: {
+    user_ids: string[];
+    /** Minutes before unacknowledged members are re-notified */
+    window_minutes?: number;
+  };
 }
 
 interface PublishResponse {
@@ -57,12 +66,97 @@ interface PublishResponse {
   revision?: number;
   published_at?: string;
   notifications_queued?: number;
+  acknowledgments_requested?: number;
   error?: {
     code: string;
     message: string;
   };
 }
 
+interface TaskPayload {
+  title: string;
+  owner_user_id: string | null;
+  due_at: string | null;
+  priority: string;
+}
+
+const OPERATION_ID_REGEX = /^[A-Za-z0-9_\-:.]{8,128}$/;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TASK_PRIORITIES = ["LOW", "MED", "HIGH"];
+const MAX_ACK_USERS = 50;
+const DEFAULT_ACK_WINDOW_MINUTES = 60;
+
+const PUBLISH_ERRORS: Record<
+  string,
+  { code: string; message: string; status: number }
+> = {
+  HANDOFF_NOT_FOUND: {
+    code: "SYNC_SERVER_ERROR",
+    message: "Handoff not found",
+    status: 404,
+  },
+  PERMISSION_DENIED: {
+    code: "AUTH_ROLE_FORBIDDEN",
+    message: "Insufficient permissions",
+    status: 403,
+  },
+  INVALID_ACK_REQUEST: {
+    code: "STRUCT_VALIDATION_FAILED",
+    message:
+      "Acknowledgment members must be other active circle members, with a window of 5 to 1440 minutes",
+    status: 400,
+  },
+  OPERATION_ID_REUSED: {
+    code: "IDEMPOTENCY_KEY_REUSED",
+    message: "Idempotency-Key was already used for a different request",
+    status: 422,
+  },
+};
+
+/**
+ * Task rows for next_steps. Owners that aren't user IDs (e.g. "Mom's nurse")
+ * and unparseable due dates are dropped rather than failing the publish;
+ * the database function falls back to the publisher as owner.
+ */
+function buildTasks(nextSteps: NextStep[] | undefined): TaskPayload[] {
+  return (nextSteps ?? [])
+    .filter((step) => typeof step.action === "string" && step.action.trim())
+    .map((step) => ({
+      title: step.action.trim(),
+      owner_user_id:
+        step.suggested_owner && UUID_REGEX.test(step.suggested_owner)
+          ? step.suggested_owner
+          : null,
+      due_at:
+        step.due && !isNaN(new Date(step.due).getTime())
+          ? new Date(step.due).toISOString()
+          : null,
+      priority: TASK_PRIORITIES.includes(step.priority ?? "")
+        ? step.priority!
+        : "MED",
+    }));
+}
+
+/** Fingerprint of the publish payload, to reject key reuse across requests */
+async function hashRequest(
+  handoffId: string,
+  structuredJson: StructuredBrief,
+  acknowledgment: PublishRequest["acknowledgment"],
+): Promise<string> {
+  const data = new TextEncoder().encode(
+    JSON.stringify(
+      acknowledgment
+        ? [handoffId, structuredJson, acknowledgment]
+        : [handoffId, structuredJson],
+    ),
+  );
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -118,7 +212,7 @@ serve(async (req) => {
 
     // Parse request
     const body: PublishRequest = await req.json();
-    const { handoff_id, structured_json, confirmations } = body;
+    const { handoff_id, structured_json, confirmations, acknowledgment } = body;
 
     if (!handoff_id || !structured_json) {
       return new Response(
@@ -190,74 +284,81 @@ serve(async (req) => {
       );
     }
 
-    // Get handoff
-    const { data: handoff, error: handoffError } = await supabaseService
-      .from("handoffs")
-      .select("*, circles(id, name)")
-      .eq("id", handoff_id)
-      .single();
-
-    if (handoffError || !handoff) {
+    if (
+      acknowledgment !== undefined &&
+      (!Array.isArray(acknowledgment?.user_ids) ||
+        acknowledgment.user_ids.length === 0 ||
+        acknowledgment.user_ids.length > MAX_ACK_USERS ||
+        !acknowledgment.user_ids.every(
+          (id) => typeof id === "string" && UUID_REGEX.test(id),
+        ) ||
+        (acknowledgment.window_minutes !== undefined &&
+          !Number.isInteger(acknowledgment.window_minutes)))
+    ) {
       return new Response(
         JSON.stringify({
           success: false,
-          error: { code: "SYNC_SERVER_ERROR", message: "Handoff not found" },
+          error: {
+            code: "STRUCT_VALIDATION_FAILED",
+            message: `acknowledgment.user_ids must list 1 to ${MAX_ACK_USERS} member IDs`,
+          },
         }),
         {
-          status: 404,
+          status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         },
       );
     }
 
-    // Check user is member with contributor role
-    const { data: membership } = await supabaseService
-      .from("circle_members")
-      .select("role")
-      .eq("circle_id", handoff.circle_id)
-      .eq("user_id", user.id)
-      .eq("status", "ACTIVE")
-      .single();
+    // Idempotency key: header preferred, body field for clients that can't
+    // set custom headers
+    const operationId =
+      req.headers.get("Idempotency-Key")?.trim() || body.operation_id?.trim();
 
-    if (!membership || membership.role === "VIEWER") {
+    if (operationId !== undefined && !OPERATION_ID_REGEX.test(operationId)) {
       return new Response(
         JSON.stringify({
           success: false,
           error: {
-            code: "AUTH_ROLE_FORBIDDEN",
-            message: "Insufficient permissions",
+            code: "STRUCT_VALIDATION_FAILED",
+            message:
+              "Idempotency-Key must be 8-128 characters of letters, digits, '-', '_', ':' or '.'",
           },
         }),
         {
-          status: 403,
+          status: 400,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         },
       );
     }
 
-    // Determine revision number
-    const revision =
-      handoff.status === "DRAFT" ? 1 : handoff.current_revision + 1;
-    const publishedAt = handoff.published_at || new Date().toISOString();
-
-    // Create revision record
-    const { error: revisionError } = await supabaseService
-      .from("handoff_revisions")
-      .insert({
-        handoff_id,
-        revision,
-        structured_json,
-        edited_by: user.id,
-      });
+    // Publish atomically: revision, handoff update, tasks, audit and
+    // notifications commit together or not at all
+    const { data: result, error: rpcError } = await supabaseService.rpc(
+      "publish_handoff_operation",
+      {
+        p_handoff_id: handoff_id,
+        p_user_id: user.id,
+        p_structured_json: structured_json,
+        p_tasks: buildTasks(structured_json.next_steps),
+        p_operation_id: operationId ?? null,
+        p_request_hash: operationId
+          ? await hashRequest(handoff_id, structured_json, acknowledgment)
+          : null,
+        p_ack_user_ids: acknowledgment?.user_ids ?? null,
+        p_ack_window_minutes:
+          acknowledgment?.window_minutes ?? DEFAULT_ACK_WINDOW_MINUTES,
+      },
+    );
 
-    if (revisionError) {
-      console.error("Failed to create revision:", revisionError);
+    if (rpcError) {
+      console.error("Failed to publish handoff:", rpcError.code);
       return new Response(
         JSON.stringify({
           success: false,
           error: {
             code: "SYNC_SERVER_ERROR",
-            message: "Failed to create revision",
+            message: "Failed to publish handoff",
           },
         }),
         {
@@ -267,98 +368,41 @@ serve(async (req) => {
       );
     }
 
-    // Update handoff
-    const { error: updateError } = await supabaseService
-      .from("handoffs")
-      .update({
-        status: "PUBLISHED",
-        published_at: publishedAt,
-        current_revision: revision,
-        title: structured_json.title,
-        summary: structured_json.summary,
-        keywords: structured_json.keywords || [],
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", handoff_id);
-
-    if (updateError) {
-      console.error("Failed to update handoff:", updateError);
+    if (result?.error) {
+      const mapped = PUBLISH_ERRORS[result.error] ?? {
+        code: "SYNC_SERVER_ERROR",
+        message: "Failed to publish handoff",
+        status: 500,
+      };
       return new Response(
         JSON.stringify({
           success: false,
-          error: {
-            code: "SYNC_SERVER_ERROR",
-            message: "Failed to publish handoff",
-          },
+          error: { code: mapped.code, message: mapped.message },
         }),
         {
-          status: 500,
+          status: mapped.status,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         },
       );
     }
 
-    // Create tasks from next_steps
-    if (structured_json.next_steps && structured_json.next_steps.length > 0) {
-      const tasks = structured_json.next_steps.map((step) => ({
-        circle_id: handoff.circle_id,
-        patient_id: handoff.patient_id,
-        handoff_id,
-        created_by: user.id,
-        owner_user_id: step.suggested_owner || user.id,
-        title: step.action,
-        due_at: step.due,
-        priority: step.priority || "MED",
-        status: "OPEN",
-      }));
-
-      await supabaseService.from("tasks").insert(tasks);
-    }
-
-    // Create audit event
-    await supabaseService.from("audit_events").insert({
-      circle_id: handoff.circle_id,
-      actor_user_id: user.id,
-      event_type: revision === 1 ? "HANDOFF_PUBLISHED" : "HANDOFF_REVISED",
-      object_type: "handoff",
-      object_id: handoff_id,
-      metadata_json: { revision },
-    });
-
-    // Notify circle members
-    const { data: members } = await supabaseService
-      .from("circle_members")
-      .select("user_id")
-      .eq("circle_id", handoff.circle_id)
-      .eq("status", "ACTIVE")
-      .neq("user_id", user.id);
-
-    let notificationsQueued = 0;
-    if (members && members.length > 0) {
-      const notifications = members.map((m) => ({
-        user_id: m.user_id,
-        circle_id: handoff.circle_id,
-        notification_type: "HANDOFF_PUBLISHED",
-        title: "New Handoff",
-        body: structured_json.title,
-        data_json: { handoff_id, circle_id: handoff.circle_id },
-      }));
-
-      await supabaseService.from("notification_outbox").insert(notifications);
-      notificationsQueued = notifications.length;
-    }
-
+    const published = result.response;
     const response: PublishResponse = {
       success: true,
-      handoff_id,
-      revision,
-      published_at: publishedAt,
-      notifications_queued: notificationsQueued,
+      handoff_id: published.handoff_id,
+      revision: published.revision,
+      published_at: published.published_at,
+      notifications_queued: published.notifications_queued,
+      acknowledgments_requested: published.acknowledgments_requested ?? 0,
     };
 
     return new Response(JSON.stringify(response), {
       status: 200,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        ...(result.replayed ? { "Idempotent-Replayed": "true" } : {}),
+      },
     });
   } catch (error) {
     console.error("Error:", error);
@@ -0,0 +1,435 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import { rankDelegationCandidates } from "../_shared/delegation.ts";
+import {
+  type CandidateSignals,
+  distanceKm,
+  inferSkills,
+  isSkill,
+  scoreCandidate,
+  type Skill,
+  type TaskProfile,
+} from "./scoring.ts";
+
+/**
+ * Recommend Task Assignees
+ *
+ * Suggests circle members for a task (an existing task_id, or the title and
+ * due date of one being written), each with the reasons behind it: open task
+ * load, shifts covering the due date, declared skills, proximity to the
+ * patient, and recent rides for driving tasks.
+ *
+ * PRIVACY: As in get-delegation-candidates, members are never compared on
+ * wellness scores. The only wellness input is a member's latest
+ * capacity_level, read only for members who turned on
+ * share_capacity_with_circle, and it is never shown in the response (see
+ * scoring.ts). Home locations stay server-side; only "Lives nearby" is
+ * shown.
+ */
+
+interface RecommendRequest {
+  circle_id: string;
+  task_id?: string;
+  patient_id?: string | null;
+  title?: string;
+  description?: string | null;
+  due_at?: string | null;
+  /** Skills the task needs; inferred from title and description if absent */
+  skills?: string[];
+  limit?: number;
+}
+
+interface Suggestion {
+  userId: string;
+  fullName: string;
+  role: string;
+  reasons: string[];
+}
+
+interface ProfileRow {
+  user_id: string;
+  skills: Skill[];
+  home_latitude: number | null;
+  home_longitude: number | null;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+/** Rides given within this many months count toward driving tasks */
+const RIDE_MONTHS = 3;
+/** Capacity check-ins older than this are ignored */
+const CAPACITY_MAX_AGE_DAYS = 14;
+
+class RequestError extends Error {
+  override name = "RequestError";
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: RecommendRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    try {
+      return await recommend(supabaseService, user.id, body);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        return errorResponse("VALIDATION_ERROR", error.message, 400);
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error(
+      "Error recommending assignees:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+async function recommend(
+  supabase: SupabaseClient,
+  userId: string,
+  body: RecommendRequest,
+): Promise<Response> {
+  const { circle_id } = body;
+  if (!circle_id || !isValidUUID(circle_id)) {
+    throw new RequestError("circle_id is required");
+  }
+  if (body.task_id !== undefined && !isValidUUID(body.task_id)) {
+    throw new RequestError("task_id must be a UUID");
+  }
+  if (body.patient_id && !isValidUUID(body.patient_id)) {
+    throw new RequestError("patient_id must be a UUID");
+  }
+  if (body.due_at && isNaN(Date.parse(body.due_at))) {
+    throw new RequestError("due_at must be an ISO date-time");
+  }
+  if (body.skills !== undefined && !body.skills.every(isSkill)) {
+    throw new RequestError("skills contains an unknown skill");
+  }
+  const limit = Math.min(
+    Math.max(Math.trunc(body.limit ?? DEFAULT_LIMIT), 1),
+    MAX_LIMIT,
+  );
+
+  const { data: membership } = await supabase
+    .from("circle_members")
+    .select("role")
+    .eq("circle_id", circle_id)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .single();
+
+  if (!membership || membership.role === "VIEWER") {
+    return errorResponse(
+      "AUTH_ROLE_FORBIDDEN",
+      "Insufficient permissions",
+      403,
+    );
+  }
+
+  let { title = "", description = null, due_at = null } = body;
+  let patientId = body.patient_id ?? null;
+  if (body.task_id) {
+    const { data: task } = await supabase
+      .from("tasks")
+      .select("title, description, due_at, patient_id")
+      .eq("id", body.task_id)
+      .eq("circle_id", circle_id)
+      .single();
+
+    if (!task) {
+      return errorResponse("NOT_FOUND", "Task not found", 404);
+    }
+    ({ title, description, due_at } = task);
+    patientId = task.patient_id;
+  }
+
+  const task: TaskProfile = {
+    skills:
+      (body.skills as Skill[] | undefined) ??
+      inferSkills(`${title} ${description ?? ""}`),
+    hasDueDate: !!due_at,
+  };
+
+  const members = await rankDelegationCandidates(supabase, [circle_id]);
+  if (!members) {
+    return errorResponse("DATABASE_ERROR", "Failed to fetch members", 500);
+  }
+  if (members.length === 0) {
+    return jsonResponse({
+      success: true,
+      skills: task.skills,
+      suggestions: [],
+    });
+  }
+  const memberIds = members.map((member) => member.userId);
+
+  const [openTasks, shifts, rides, profiles, patient, capacity] =
+    await Promise.all([
+      fetchOpenTaskCounts(supabase, circle_id, memberIds, body.task_id),
+      due_at ? fetchShiftOwners(supabase, circle_id, due_at) : null,
+      task.skills.includes("DRIVING")
+        ? fetchRidesGiven(supabase, circle_id, memberIds)
+        : new Map<string, number>(),
+      fetchProfiles(supabase, circle_id),
+      patientId ? fetchPatientLocation(supabase, circle_id, patientId) : null,
+      fetchSharedCapacity(supabase, memberIds),
+    ]);
+  if (!openTasks || !rides || !profiles || !capacity) {
+    return errorResponse("DATABASE_ERROR", "Failed to fetch signals", 500);
+  }
+
+  const scored = members.map((member) => {
+    const profile = profiles.get(member.userId);
+    const home =
+      profile?.home_latitude != null && profile.home_longitude != null
+        ? {
+            latitude: Number(profile.home_latitude),
+            longitude: Number(profile.home_longitude),
+          }
+        : null;
+
+    const signals: CandidateSignals = {
+      openTasks: openTasks.get(member.userId) ?? 0,
+      onShiftAtDue: shifts ? shifts.has(member.userId) : null,
+      dueCoveredByOther: !!shifts && shifts.size > 0,
+      ridesGiven: rides.get(member.userId) ?? 0,
+      distanceKm: home && patient ? distanceKm(home, patient) : null,
+      skills: profile?.skills ?? [],
+      capacity: capacity.get(member.userId) ?? null,
+    };
+
+    return {
+      member,
+      openTasks: signals.openTasks,
+      ...scoreCandidate(task, signals),
+    };
+  });
+
+  // Ties go to the member with fewer open tasks, then fewer recent handoffs
+  scored.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.openTasks - b.openTasks ||
+      a.member.recentHandoffCount - b.member.recentHandoffCount,
+  );
+
+  const suggestions: Suggestion[] = scored
+    .slice(0, limit)
+    .map(({ member, reasons }) => ({
+      userId: member.userId,
+      fullName: member.fullName,
+      role: member.role,
+      reasons,
+    }));
+
+  return jsonResponse({ success: true, skills: task.skills, suggestions });
+}
+
+/** Open tasks per member in the circle, excluding the task being assigned */
+async function fetchOpenTaskCounts(
+  supabase: SupabaseClient,
+  circleId: string,
+  memberIds: string[],
+  excludeTaskId?: string,
+): Promise<Map<string, number> | null> {
+  let query = supabase
+    .from("tasks")
+    .select("owner_user_id")
+    .eq("circle_id", circleId)
+    .eq("status", "OPEN")
+    .in("owner_user_id", memberIds);
+  if (excludeTaskId) query = query.neq("id", excludeTaskId);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Failed to count open tasks:", error.code);
+    return null;
+  }
+
+  const counts = new Map<string, number>();
+  for (const row of data ?? []) {
+    counts.set(row.owner_user_id, (counts.get(row.owner_user_id) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/** Owners of shifts covering `dueAt`; empty on a database error */
+async function fetchShiftOwners(
+  supabase: SupabaseClient,
+  circleId: string,
+  dueAt: string,
+): Promise<Set<string>> {
+  const due = new Date(dueAt).toISOString();
+  const { data, error } = await supabase
+    .from("care_shifts")
+    .select("owner_user_id")
+    .eq("circle_id", circleId)
+    .in("status", ["SCHEDULED", "ACTIVE"])
+    .lte("start_at", due)
+    .gt("end_at", due);
+
+  if (error) {
+    console.error("Failed to fetch shifts:", error.code);
+    return new Set();
+  }
+  return new Set(
+    (data ?? []).map((row: { owner_user_id: string }) => row.owner_user_id),
+  );
+}
+
+async function fetchRidesGiven(
+  supabase: SupabaseClient,
+  circleId: string,
+  memberIds: string[],
+): Promise<Map<string, number> | null> {
+  const now = new Date();
+  const since = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (RIDE_MONTHS - 1), 1),
+  );
+
+  const { data, error } = await supabase
+    .from("ride_statistics")
+    .select("user_id, rides_given")
+    .eq("circle_id", circleId)
+    .in("user_id", memberIds)
+    .gte("month", since.toISOString().slice(0, 10));
+
+  if (error) {
+    console.error("Failed to fetch ride statistics:", error.code);
+    return null;
+  }
+
+  const rides = new Map<string, number>();
+  for (const row of data ?? []) {
+    rides.set(row.user_id, (rides.get(row.user_id) ?? 0) + row.rides_given);
+  }
+  return rides;
+}
+
+async function fetchProfiles(
+  supabase: SupabaseClient,
+  circleId: string,
+): Promise<Map<string, ProfileRow> | null> {
+  const { data, error } = await supabase
+    .from("member_care_profiles")
+    .select("user_id, skills, home_latitude, home_longitude")
+    .eq("circle_id", circleId);
+
+  if (error) {
+    console.error("Failed to fetch care profiles:", error.code);
+    return null;
+  }
+  return new Map(
+    ((data ?? []) as ProfileRow[]).map((row) => [row.user_id, row]),
+  );
+}
+
+async function fetchPatientLocation(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+): Promise<{ latitude: number; longitude: number } | null> {
+  const { data } = await supabase
+    .from("patients")
+    .select("home_latitude, home_longitude")
+    .eq("id", patientId)
+    .eq("circle_id", circleId)
+    .single();
+
+  if (data?.home_latitude == null || data.home_longitude == null) return null;
+  return {
+    latitude: Number(data.home_latitude),
+    longitude: Number(data.home_longitude),
+  };
+}
+
+/**
+ * Latest recent capacity_level of members who opted in to sharing it. No
+ * other wellness field is read.
+ */
+async function fetchSharedCapacity(
+  supabase: SupabaseClient,
+  memberIds: string[],
+): Promise<Map<string, number> | null> {
+  const { data: prefs, error: prefsError } = await supabase
+    .from("wellness_preferences")
+    .select("user_id")
+    .in("user_id", memberIds)
+    .eq("share_capacity_with_circle", true);
+
+  if (prefsError) {
+    console.error("Failed to fetch wellness preferences:", prefsError.code);
+    return null;
+  }
+
+  const sharing = (prefs ?? []).map((row: { user_id: string }) => row.user_id);
+  const capacity = new Map<string, number>();
+  if (sharing.length === 0) return capacity;
+
+  const since = new Date(
+    Date.now() - CAPACITY_MAX_AGE_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const { data: checkins, error } = await supabase
+    .from("wellness_checkins")
+    .select("user_id, capacity_level")
+    .in("user_id", sharing)
+    .eq("skipped", false)
+    .gte("week_start", since.toISOString().slice(0, 10))
+    .order("week_start", { ascending: false });
+
+  if (error) {
+    console.error("Failed to fetch capacity:", error.code);
+    return null;
+  }
+
+  for (const row of checkins ?? []) {
+    if (!capacity.has(row.user_id)) {
+      capacity.set(row.user_id, row.capacity_level);
+    }
+  }
+  return capacity;
+}
@@ -0,0 +1,195 @@
+/**
+ * Assignment scoring
+ *
+ * Each candidate is scored from 0 to 1 on the signals that apply to the
+ * task; signals that are unknown or irrelevant are left out rather than
+ * counted as zero, and the weights of the rest are renormalized.
+ *
+ * PRIVACY: capacity comes from the candidate's own latest wellness check-in
+ * and is only passed in when they opted in to sharing it with the circle.
+ * It moves the ranking but never appears in reasons, and no scores are
+ * returned, so it cannot be read back by others.
+ */
+
+export const SKILLS = [
+  "MEDICATIONS",
+  "WOUND_CARE",
+  "DRIVING",
+  "MOBILITY",
+  "MEALS",
+  "PERSONAL_CARE",
+  "PAPERWORK",
+  "TECH",
+] as const;
+
+export type Skill = (typeof SKILLS)[number];
+
+const SKILL_LABELS: Record<Skill, string> = {
+  MEDICATIONS: "medications",
+  WOUND_CARE: "wound care",
+  DRIVING: "driving",
+  MOBILITY: "mobility help",
+  MEALS: "meals",
+  PERSONAL_CARE: "personal care",
+  PAPERWORK: "paperwork",
+  TECH: "tech",
+};
+
+const SKILL_KEYWORDS: Record<Skill, RegExp> = {
+  MEDICATIONS: /\b(med(ication)?s?|pill|prescription|refill|pharmacy|dose)/i,
+  WOUND_CARE: /\b(wound|dressing|bandage|incision|ostomy)/i,
+  DRIVING: /\b(drive|driving|ride|pick ?up|drop ?off|appointment|transport)/i,
+  MOBILITY: /\b(walk(er)?|wheelchair|transfer|lift|physical therapy|pt\b)/i,
+  MEALS: /\b(meal|cook|grocer|food|dinner|lunch|breakfast)/i,
+  PERSONAL_CARE: /\b(bath|shower|dress(ing)? (him|her|them)|groom|toilet)/i,
+  PAPERWORK: /\b(bill|insurance|claim|form|paperwork|medicare|medicaid)/i,
+  TECH: /\b(phone|tablet|computer|wifi|portal|app\b|telehealth)/i,
+};
+
+const WEIGHTS = {
+  load: 0.3,
+  shift: 0.2,
+  skills: 0.2,
+  proximity: 0.15,
+  rides: 0.1,
+  capacity: 0.1,
+};
+
+/** Open tasks at which load scores zero */
+const FULL_LOAD = 8;
+/** Distances (km) for full and zero proximity scores */
+const NEARBY_KM = 10;
+const FAR_KM = 60;
+/** Rides given at which the rides score is full */
+const FREQUENT_RIDES = 6;
+
+export interface TaskProfile {
+  skills: Skill[];
+  hasDueDate: boolean;
+}
+
+export interface CandidateSignals {
+  openTasks: number;
+  /** null when the task has no due date */
+  onShiftAtDue: boolean | null;
+  /** true when another member's shift covers the due date */
+  dueCoveredByOther: boolean;
+  ridesGiven: number;
+  distanceKm: number | null;
+  skills: Skill[];
+  /** Latest capacity_level (1-4), only for members who opted in */
+  capacity: number | null;
+}
+
+export interface ScoredCandidate {
+  score: number;
+  reasons: string[];
+}
+
+export function isSkill(value: unknown): value is Skill {
+  return SKILLS.includes(value as Skill);
+}
+
+/** Skills a task probably needs, from its title and description */
+export function inferSkills(text: string): Skill[] {
+  return SKILLS.filter((skill) => SKILL_KEYWORDS[skill].test(text));
+}
+
+/** Great-circle distance in km */
+export function distanceKm(
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number },
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) *
+      Math.cos(toRad(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function scoreCandidate(
+  task: TaskProfile,
+  signals: CandidateSignals,
+): ScoredCandidate {
+  const parts: { weight: number; value: number }[] = [];
+  const reasons: string[] = [];
+
+  parts.push({
+    weight: WEIGHTS.load,
+    value: clamp(1 - signals.openTasks / FULL_LOAD),
+  });
+  reasons.push(
+    signals.openTasks === 0
+      ? "No open tasks"
+      : `${signals.openTasks} open task${signals.openTasks === 1 ? "" : "s"}`,
+  );
+
+  if (task.hasDueDate && signals.onShiftAtDue !== null) {
+    let value = 0.5;
+    if (signals.onShiftAtDue) {
+      value = 1;
+      reasons.push("On shift when it is due");
+    } else if (signals.dueCoveredByOther) {
+      value = 0.25;
+    }
+    parts.push({ weight: WEIGHTS.shift, value });
+  }
+
+  if (task.skills.length > 0) {
+    const matched = task.skills.filter((skill) =>
+      signals.skills.includes(skill),
+    );
+    parts.push({
+      weight: WEIGHTS.skills,
+      value: matched.length / task.skills.length,
+    });
+    if (matched.length > 0) {
+      reasons.push(
+        `Listed ${matched.map((skill) => SKILL_LABELS[skill]).join(", ")} as a skill`,
+      );
+    }
+  }
+
+  if (signals.distanceKm !== null) {
+    parts.push({
+      weight: WEIGHTS.proximity,
+      value: clamp(1 - (signals.distanceKm - NEARBY_KM) / (FAR_KM - NEARBY_KM)),
+    });
+    // Never the distance itself, which would reveal where they live
+    if (signals.distanceKm <= NEARBY_KM) reasons.push("Lives nearby");
+  }
+
+  if (task.skills.includes("DRIVING")) {
+    parts.push({
+      weight: WEIGHTS.rides,
+      value: clamp(signals.ridesGiven / FREQUENT_RIDES),
+    });
+    if (signals.ridesGiven > 0) {
+      reasons.push(
+        `Gave ${signals.ridesGiven} ride${signals.ridesGiven === 1 ? "" : "s"} recently`,
+      );
+    }
+  }
+
+  if (signals.capacity !== null) {
+    parts.push({
+      weight: WEIGHTS.capacity,
+      value: (signals.capacity - 1) / 3,
+    });
+  }
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  const score =
+    parts.reduce((sum, part) => sum + part.weight * part.value, 0) /
+    totalWeight;
+
+  return { score, reasons };
+}
@@ -0,0 +1,300 @@
+/**
+ * Three-way medication diff
+ *
+ * Base and incoming meds are paired by fuzzy name, and each change is
+ * anchored to the binder MED it would be written to. When neither list is
+ * the binder, an incoming med with no base match is compared against the
+ * binder instead, so a label for a med already on the MED list shows up as
+ * unchanged or a dose change rather than as added.
+ */
+
+import { MATCH_THRESHOLD, medNameSimilarity } from "../_shared/meds/index.ts";
+import type { DiffItem, DiffKind, FieldChange, SourceMed } from "./types.ts";
+
+interface Pair {
+  base: SourceMed;
+  incoming: SourceMed;
+  score: number;
+}
+
+interface Duplicate {
+  med: SourceMed;
+  of: SourceMed;
+  score: number;
+}
+
+export interface ReconcileResult {
+  items: DiffItem[];
+  unchanged: number;
+}
+
+const KIND_ORDER: Record<DiffKind, number> = {
+  STOPPED: 0,
+  DOSE_CHANGED: 1,
+  ADDED: 2,
+  DUPLICATED: 3,
+  UNMATCHED: 4,
+};
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+function describe(med: SourceMed): string {
+  return med.dose ? `${med.name} ${med.dose}` : med.name;
+}
+
+function bestMatch(
+  med: SourceMed,
+  candidates: SourceMed[],
+): { med: SourceMed; score: number } | null {
+  let best: { med: SourceMed; score: number } | null = null;
+  for (const candidate of candidates) {
+    const score = medNameSimilarity(med.name, candidate.name);
+    if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = { med: candidate, score };
+    }
+  }
+  return best;
+}
+
+/** Best-first pairing; each med is paired at most once */
+function pairMeds(
+  base: SourceMed[],
+  incoming: SourceMed[],
+): { pairs: Pair[]; baseOnly: SourceMed[]; incomingOnly: SourceMed[] } {
+  const candidates: Pair[] = [];
+  for (const b of base) {
+    for (const i of incoming) {
+      const score = medNameSimilarity(b.name, i.name);
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ base: b, incoming: i, score });
+      }
+    }
+  }
+  candidates.sort((x, y) => y.score - x.score);
+
+  const pairs: Pair[] = [];
+  const used = new Set<SourceMed>();
+  for (const candidate of candidates) {
+    if (used.has(candidate.base) || used.has(candidate.incoming)) continue;
+    used.add(candidate.base);
+    used.add(candidate.incoming);
+    pairs.push(candidate);
+  }
+
+  return {
+    pairs,
+    baseOnly: base.filter((m) => !used.has(m)),
+    incomingOnly: incoming.filter((m) => !used.has(m)),
+  };
+}
+
+/** Split out meds a list repeats; the first entry of a drug is kept */
+function splitDuplicates(meds: SourceMed[]): {
+  distinct: SourceMed[];
+  duplicates: Duplicate[];
+} {
+  const distinct: SourceMed[] = [];
+  const duplicates: Duplicate[] = [];
+  for (const med of meds) {
+    // A stop and a start of the same drug is a switch, not a duplicate
+    const match = bestMatch(
+      med,
+      distinct.filter((d) => d.stopped === med.stopped),
+    );
+    if (match) {
+      duplicates.push({ med, of: match.med, score: match.score });
+    } else {
+      distinct.push(med);
+    }
+  }
+  return { distinct, duplicates };
+}
+
+function normalizeDose(dose?: string): string | null {
+  if (!dose?.trim()) return null;
+  return dose
+    .toLowerCase()
+    .replace(/(\d)\.0+\b/g, "$1")
+    .replace(/\s+/g, "");
+}
+
+function normalizeSchedule(schedule?: string): string | null {
+  if (!schedule?.trim()) return null;
+  return schedule
+    .toLowerCase()
+    .replace(/[.;,]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Dose and schedule differences; a field the newer list omits is kept */
+function fieldChanges(from: SourceMed, to: SourceMed): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const toDose = normalizeDose(to.dose);
+  if (toDose && toDose !== normalizeDose(from.dose)) {
+    changes.push({ field: "dose", from: from.dose ?? null, to: to.dose! });
+  }
+
+  // Sig times are compared when both sides have them, since the same
+  // schedule is written many ways ("bid", "twice a day", "8am and 8pm")
+  const scheduleChanged =
+    from.timing && to.timing
+      ? from.timing !== to.timing
+      : normalizeSchedule(to.schedule) !== null &&
+        normalizeSchedule(to.schedule) !== normalizeSchedule(from.schedule);
+  if (scheduleChanged) {
+    changes.push({
+      field: "schedule",
+      from: from.schedule ?? null,
+      to: to.schedule ?? null,
+    });
+  }
+
+  return changes;
+}
+
+function item(
+  kind: DiffKind,
+  fields: Partial<DiffItem> & { summary: string },
+): DiffItem {
+  return {
+    kind,
+    base: null,
+    incoming: null,
+    duplicate_of: null,
+    match_score: null,
+    changes: [],
+    binder_item_id: null,
+    ...fields,
+  };
+}
+
+/**
+ * Diff `incoming` against `base`. `binder` is the current MED list, used to
+ * anchor changes when it is not already the base.
+ */
+export function reconcileMeds(
+  base: SourceMed[],
+  incoming: SourceMed[],
+  binder: SourceMed[] = [],
+): ReconcileResult {
+  const items: DiffItem[] = [];
+  let unchanged = 0;
+
+  const anchor = (med: SourceMed): string | null =>
+    med.source === "binder" ? med.id : (bestMatch(med, binder)?.med.id ?? null);
+
+  const baseSplit = splitDuplicates(base);
+  const incomingSplit = splitDuplicates(incoming);
+
+  for (const [side, duplicates] of [
+    ["base", baseSplit.duplicates],
+    ["incoming", incomingSplit.duplicates],
+  ] as const) {
+    for (const dup of duplicates) {
+      items.push(
+        item("DUPLICATED", {
+          [side]: dup.med,
+          duplicate_of: dup.of,
+          match_score: round(dup.score),
+          // Only a repeated binder entry has anything to remove
+          binder_item_id: dup.med.source === "binder" ? dup.med.id : null,
+          summary: `${describe(dup.med)} duplicates ${describe(dup.of)}`,
+        }),
+      );
+    }
+  }
+
+  const compare = (pair: Pair): DiffItem | null => {
+    const { base: b, incoming: i } = pair;
+    const binderItemId = anchor(b) ?? anchor(i);
+    const fields = { base: b, incoming: i, match_score: round(pair.score) };
+
+    if (i.stopped) {
+      if (b.stopped) return null;
+      return binderItemId
+        ? item("STOPPED", {
+            ...fields,
+            binder_item_id: binderItemId,
+            summary: `Stop ${describe(b)}`,
+          })
+        : item("UNMATCHED", {
+            ...fields,
+            summary: `${i.name} is marked stopped but is not on the MED list`,
+          });
+    }
+
+    const changes = fieldChanges(b, i);
+    if (changes.length === 0) return null;
+    return item("DOSE_CHANGED", {
+      ...fields,
+      changes,
+      binder_item_id: binderItemId,
+      summary: `${i.name}: ${changes
+        .map((c) => `${c.field} ${c.from ?? "not set"} to ${c.to ?? "not set"}`)
+        .join("; ")}`,
+    });
+  };
+
+  const { pairs, baseOnly, incomingOnly } = pairMeds(
+    baseSplit.distinct,
+    incomingSplit.distinct,
+  );
+
+  for (const pair of pairs) {
+    // A med the base stopped and the incoming list has again is a restart,
+    // diffed against the binder like any other incoming med
+    if (pair.base.stopped && !pair.incoming.stopped) {
+      incomingOnly.push(pair.incoming);
+      continue;
+    }
+    const diff = compare(pair);
+    if (diff) items.push(diff);
+    else unchanged++;
+  }
+
+  for (const med of incomingOnly) {
+    const current = bestMatch(med, binder);
+    if (current) {
+      const diff = compare({
+        base: current.med,
+        incoming: med,
+        score: current.score,
+      });
+      if (diff) items.push(diff);
+      else unchanged++;
+    } else if (med.stopped) {
+      items.push(
+        item("UNMATCHED", {
+          incoming: med,
+          summary: `${med.name} is marked stopped but is not on the MED list`,
+        }),
+      );
+    } else {
+      items.push(
+        item("ADDED", { incoming: med, summary: `Start ${describe(med)}` }),
+      );
+    }
+  }
+
+  for (const med of baseOnly) {
+    // A stopped med is expected to be missing from the newer list
+    if (med.stopped) {
+      unchanged++;
+      continue;
+    }
+    items.push(
+      item("UNMATCHED", {
+        base: med,
+        binder_item_id: anchor(med),
+        summary: `No match for ${describe(med)}`,
+      }),
+    );
+  }
+
+  items.sort((x, y) => KIND_ORDER[x.kind] - KIND_ORDER[y.kind]);
+  return { items, unchanged };
+}
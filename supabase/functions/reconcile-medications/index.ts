@@ -0,0 +1,308 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import { reconcileMeds } from "./diff.ts";
+import {
+  loadBinderMeds,
+  loadSourceMeds,
+  SourceNotFoundError,
+} from "./sources.ts";
+import type {
+  DiffItem,
+  ListedMed,
+  MedSourceRef,
+  ReconcileRequest,
+  ReconcileResponse,
+  SourceMed,
+} from "./types.ts";
+
+/**
+ * Reconcile Medications
+ *
+ * Diffs two medication sources (the binder MED list, a discharge's
+ * medication changes, or a label scan's pending proposals) into added,
+ * stopped, dose changed, duplicated and unmatched items, using fuzzy name
+ * matching. The result is saved as a med_reconciliations row whose items
+ * are accepted or rejected one at a time with decide_med_reconciliation_item,
+ * which writes each accepted change to the binder and the reconciliation's
+ * handoff.
+ */
+
+const SOURCE_TYPES = ["binder", "discharge", "scan"];
+
+/** Fields that change with the schedule on a binder MED */
+const SCHEDULE_FIELDS = ["schedule", "sig", "reminders"];
+
+function validSource(ref: MedSourceRef | undefined): boolean {
+  if (!ref || !SOURCE_TYPES.includes(ref.type)) return false;
+  return ref.type === "binder" || (!!ref.id && isValidUUID(ref.id));
+}
+
+/** Content an accepted item writes to the binder, or null for none */
+function proposedContent(item: DiffItem): Record<string, unknown> | null {
+  const incoming = item.incoming;
+  if (!incoming) return null;
+
+  if (item.kind === "ADDED") return incoming.content;
+  if (item.kind !== "DOSE_CHANGED") return null;
+
+  // A change to a med that is not on the binder yet adds it in full
+  if (!item.binder_item_id) return incoming.content;
+
+  const fields = item.changes.flatMap((c) =>
+    c.field === "dose" ? ["dose"] : SCHEDULE_FIELDS,
+  );
+  return Object.fromEntries(
+    fields
+      .filter((f) => incoming.content[f] != null)
+      .map((f) => [f, incoming.content[f]]),
+  );
+}
+
+function listed(med: SourceMed | null): ListedMed | null {
+  if (!med) return null;
+  const { content: _content, ...rest } = med;
+  return rest;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: ReconcileRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    const { circle_id, patient_id, base, incoming } = body;
+    if (
+      !circle_id ||
+      !patient_id ||
+      !isValidUUID(circle_id) ||
+      !isValidUUID(patient_id)
+    ) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "circle_id and patient_id are required",
+        400,
+      );
+    }
+    if (!validSource(base) || !validSource(incoming)) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "base and incoming must be binder, or discharge or scan with an id",
+        400,
+      );
+    }
+    if (incoming.type === "binder") {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "incoming must be a discharge or scan",
+        400,
+      );
+    }
+    if (base.type === incoming.type && base.id === incoming.id) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "base and incoming must differ",
+        400,
+      );
+    }
+
+    // Accepted items change the binder, so viewers cannot reconcile
+    const { data: membership } = await supabaseService
+      .from("circle_members")
+      .select("role")
+      .eq("circle_id", circle_id)
+      .eq("user_id", user.id)
+      .eq("status", "ACTIVE")
+      .single();
+
+    if (!membership || membership.role === "VIEWER") {
+      return errorResponse(
+        "AUTH_ROLE_FORBIDDEN",
+        "Insufficient permissions",
+        403,
+      );
+    }
+
+    const { data: patient } = await supabaseService
+      .from("patients")
+      .select("id")
+      .eq("id", patient_id)
+      .eq("circle_id", circle_id)
+      .single();
+
+    if (!patient) {
+      return errorResponse("NOT_FOUND", "Patient not found", 404);
+    }
+
+    let binderMeds: SourceMed[];
+    let baseMeds: SourceMed[];
+    let incomingMeds: SourceMed[];
+    try {
+      binderMeds = await loadBinderMeds(supabaseService, circle_id, patient_id);
+      baseMeds =
+        base.type === "binder"
+          ? binderMeds
+          : await loadSourceMeds(supabaseService, circle_id, patient_id, base);
+      incomingMeds = await loadSourceMeds(
+        supabaseService,
+        circle_id,
+        patient_id,
+        incoming,
+      );
+    } catch (error) {
+      if (error instanceof SourceNotFoundError) {
+        return errorResponse(
+          "NOT_FOUND",
+          `${error.source === "scan" ? "Scan session" : "Discharge record"} not found`,
+          404,
+        );
+      }
+      console.error(
+        "Failed to fetch medications:",
+        (error as { code?: string }).code,
+      );
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to fetch medications",
+        500,
+      );
+    }
+
+    const { items, unchanged } = reconcileMeds(
+      baseMeds,
+      incomingMeds,
+      base.type === "binder" ? [] : binderMeds,
+    );
+
+    const { data: reconciliation, error: reconciliationError } =
+      await supabaseService
+        .from("med_reconciliations")
+        .insert({
+          circle_id,
+          patient_id,
+          created_by: user.id,
+          base_source: base.type.toUpperCase(),
+          base_source_id: base.type === "binder" ? null : base.id,
+          incoming_source: incoming.type.toUpperCase(),
+          incoming_source_id: incoming.id,
+          unchanged_count: unchanged,
+          status: items.length === 0 ? "COMPLETED" : "OPEN",
+          completed_at: items.length === 0 ? new Date().toISOString() : null,
+        })
+        .select("id")
+        .single();
+
+    if (reconciliationError || !reconciliation) {
+      console.error(
+        "Failed to save reconciliation:",
+        reconciliationError?.code,
+      );
+      return errorResponse(
+        "DATABASE_ERROR",
+        "Failed to save reconciliation",
+        500,
+      );
+    }
+
+    let itemIds: string[] = [];
+    if (items.length > 0) {
+      const { data: savedItems, error: itemsError } = await supabaseService
+        .from("med_reconciliation_items")
+        .insert(
+          items.map((item, position) => ({
+            reconciliation_id: reconciliation.id,
+            position,
+            kind: item.kind,
+            summary: item.summary,
+            base_json: listed(item.base),
+            incoming_json: listed(item.incoming),
+            duplicate_of_json: listed(item.duplicate_of),
+            match_score: item.match_score,
+            changes_json: item.changes,
+            binder_item_id: item.binder_item_id,
+            proposed_json: proposedContent(item),
+          })),
+        )
+        .select("id, position");
+
+      if (itemsError || !savedItems) {
+        console.error("Failed to save reconciliation items:", itemsError?.code);
+        await supabaseService
+          .from("med_reconciliations")
+          .delete()
+          .eq("id", reconciliation.id);
+        return errorResponse(
+          "DATABASE_ERROR",
+          "Failed to save reconciliation",
+          500,
+        );
+      }
+
+      itemIds = savedItems
+        .sort(
+          (a: { position: number }, b: { position: number }) =>
+            a.position - b.position,
+        )
+        .map((row: { id: string }) => row.id);
+    }
+
+    const response: ReconcileResponse = {
+      success: true,
+      reconciliation_id: reconciliation.id,
+      items: items.map((item, i) => ({
+        ...item,
+        base: listed(item.base),
+        incoming: listed(item.incoming),
+        duplicate_of: listed(item.duplicate_of),
+        id: itemIds[i],
+        status: "PENDING",
+      })),
+      unchanged,
+    };
+
+    return jsonResponse(response);
+  } catch (error) {
+    console.error(
+      "Error reconciling medications:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
@@ -0,0 +1,186 @@
+/**
+ * Med list loaders for each reconciliation source
+ *
+ * Every source is read as a list of SourceMed. Only the binder is a complete
+ * list: a discharge lists the changes made during the stay, and a scan
+ * session the labels that were photographed.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { MedSourceRef, SourceMed } from "./types.ts";
+
+interface SigJson {
+  text?: string;
+  schedule?: { times?: string[]; prn?: boolean } | null;
+}
+
+interface MedJson {
+  name?: string;
+  dose?: string;
+  schedule?: string;
+  sig?: SigJson;
+  [key: string]: unknown;
+}
+
+/** Mirrors MedicationChange in generate-discharge-outputs */
+interface MedicationChange {
+  id: string;
+  name: string;
+  changeType: string;
+  dosage?: string;
+  frequency?: string;
+  instructions?: string;
+}
+
+/** Scan fields that belong on a binder MED */
+const SCAN_CONTENT_FIELDS = [
+  "name",
+  "dose",
+  "schedule",
+  "sig",
+  "reminders",
+  "prescriber",
+  "pharmacy",
+];
+
+export class SourceNotFoundError extends Error {
+  constructor(public source: MedSourceRef["type"]) {
+    super(`${source} source not found`);
+  }
+}
+
+function timing(sig?: SigJson): string | undefined {
+  if (!sig?.schedule) return undefined;
+  const times = (sig.schedule.times ?? []).join(",");
+  return sig.schedule.prn ? `prn:${times}` : times;
+}
+
+function pick(
+  json: Record<string, unknown>,
+  fields: string[],
+): Record<string, unknown> {
+  return Object.fromEntries(
+    fields.filter((f) => json[f] != null).map((f) => [f, json[f]]),
+  );
+}
+
+export async function loadBinderMeds(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+): Promise<SourceMed[]> {
+  const { data, error } = await supabase
+    .from("binder_items")
+    .select("id, title, content_json")
+    .eq("circle_id", circleId)
+    .eq("patient_id", patientId)
+    .eq("type", "MED")
+    .eq("is_active", true)
+    .order("created_at");
+  if (error) throw error;
+
+  return (data ?? []).map(
+    (row: { id: string; title: string; content_json: MedJson | null }) => {
+      const content = row.content_json ?? {};
+      return {
+        source: "binder",
+        id: row.id,
+        name: content.name || row.title,
+        dose: content.dose,
+        schedule: content.schedule ?? content.sig?.text,
+        timing: timing(content.sig),
+        stopped: false,
+        content,
+      };
+    },
+  );
+}
+
+async function loadScanMeds(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+  sessionId: string,
+): Promise<SourceMed[]> {
+  const { data: session } = await supabase
+    .from("med_scan_sessions")
+    .select("id")
+    .eq("id", sessionId)
+    .eq("circle_id", circleId)
+    .eq("patient_id", patientId)
+    .maybeSingle();
+  if (!session) throw new SourceNotFoundError("scan");
+
+  const { data, error } = await supabase
+    .from("med_proposals")
+    .select("id, proposed_json")
+    .eq("session_id", sessionId)
+    .eq("status", "PROPOSED")
+    .order("created_at");
+  if (error) throw error;
+
+  return (data ?? [])
+    .filter((row: { proposed_json: MedJson | null }) => row.proposed_json?.name)
+    .map((row: { id: string; proposed_json: MedJson }) => {
+      const med = row.proposed_json;
+      return {
+        source: "scan",
+        id: row.id,
+        name: med.name!,
+        dose: med.dose,
+        schedule: med.schedule ?? med.sig?.text,
+        timing: timing(med.sig),
+        stopped: false,
+        content: pick(med, SCAN_CONTENT_FIELDS),
+      };
+    });
+}
+
+async function loadDischargeMeds(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+  dischargeRecordId: string,
+): Promise<SourceMed[]> {
+  const { data: record } = await supabase
+    .from("discharge_records")
+    .select("id, medication_changes_json")
+    .eq("id", dischargeRecordId)
+    .eq("circle_id", circleId)
+    .eq("patient_id", patientId)
+    .maybeSingle();
+  if (!record) throw new SourceNotFoundError("discharge");
+
+  const changes = (record.medication_changes_json ?? []) as MedicationChange[];
+  return changes
+    .filter((change) => change.name?.trim())
+    .map((change) => ({
+      source: "discharge",
+      id: change.id,
+      name: change.name.trim(),
+      dose: change.dosage || undefined,
+      schedule: change.frequency || undefined,
+      stopped: change.changeType === "STOPPED",
+      content: pick(
+        {
+          name: change.name.trim(),
+          dose: change.dosage || undefined,
+          schedule: change.frequency || undefined,
+          notes: change.instructions || undefined,
+        },
+        ["name", "dose", "schedule", "notes"],
+      ),
+    }));
+}
+
+/** Load a non-binder source; throws SourceNotFoundError for a bad id */
+export function loadSourceMeds(
+  supabase: SupabaseClient,
+  circleId: string,
+  patientId: string,
+  ref: MedSourceRef,
+): Promise<SourceMed[]> {
+  return ref.type === "scan"
+    ? loadScanMeds(supabase, circleId, patientId, ref.id!)
+    : loadDischargeMeds(supabase, circleId, patientId, ref.id!);
+}
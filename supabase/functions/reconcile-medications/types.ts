@@ -0,0 +1,87 @@
+/**
+ * Types for reconcile-medications
+ */
+
+export type MedSourceType = "binder" | "discharge" | "scan";
+
+export interface MedSourceRef {
+  type: MedSourceType;
+  /** discharge_records.id for discharge, med_scan_sessions.id for scan */
+  id?: string;
+}
+
+export interface ReconcileRequest {
+  circle_id: string;
+  patient_id: string;
+  /** The earlier list; any source */
+  base: MedSourceRef;
+  /** The newer list; discharge or scan, since changes flow into the binder */
+  incoming: MedSourceRef;
+}
+
+/** A med as listed by one source */
+export interface SourceMed {
+  source: MedSourceType;
+  /** binder_items.id, med_proposals.id, or the discharge MedicationChange id */
+  id: string;
+  name: string;
+  dose?: string;
+  schedule?: string;
+  /** Normalized sig times ("prn:08:00,20:00"), when the source has a sig */
+  timing?: string;
+  /** Listed as stopped (a discharge STOPPED change) */
+  stopped: boolean;
+  /** Fields written to the binder MED content_json when a change is accepted */
+  content: Record<string, unknown>;
+}
+
+/** A med as saved on a reconciliation item and returned to the client */
+export type ListedMed = Omit<SourceMed, "content">;
+
+export type DiffKind =
+  "ADDED" | "STOPPED" | "DOSE_CHANGED" | "DUPLICATED" | "UNMATCHED";
+
+export interface FieldChange {
+  field: "dose" | "schedule";
+  from: string | null;
+  to: string | null;
+}
+
+export interface DiffItem {
+  kind: DiffKind;
+  base: SourceMed | null;
+  incoming: SourceMed | null;
+  /** For DUPLICATED: the med the base or incoming entry repeats */
+  duplicate_of: SourceMed | null;
+  /** Name similarity of the paired meds, 1 for the same drug words */
+  match_score: number | null;
+  changes: FieldChange[];
+  /** Binder MED an accepted change is written to; null adds a new one */
+  binder_item_id: string | null;
+  summary: string;
+}
+
+export type ItemStatus = "PENDING" | "ACCEPTED" | "REJECTED";
+
+export interface ReconciliationItem extends Omit<
+  DiffItem,
+  "base" | "incoming" | "duplicate_of"
+> {
+  id: string;
+  status: ItemStatus;
+  base: ListedMed | null;
+  incoming: ListedMed | null;
+  duplicate_of: ListedMed | null;
+}
+
+export interface ReconcileResponse {
+  success: boolean;
+  reconciliation_id?: string;
+  items?: ReconciliationItem[];
+  /** Paired meds with nothing to reconcile */
+  unchanged?: number;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
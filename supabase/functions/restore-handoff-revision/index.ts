@@ -0,0 +1,159 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+
+/**
+ * Restore Handoff Revision
+ *
+ * Republishes an earlier revision's structured brief as a new revision.
+ * The revision insert, handoff update and HANDOFF_RESTORED audit event run
+ * atomically in the `restore_handoff_revision` database function.
+ */
+
+interface RestoreRequest {
+  handoff_id: string;
+  revision: number;
+}
+
+interface RestoreResponse {
+  success: boolean;
+  handoff_id: string;
+  revision: number;
+  restored_from: number;
+  published_at: string;
+}
+
+const RESTORE_ERRORS: Record<
+  string,
+  { code: string; message: string; status: number }
+> = {
+  HANDOFF_NOT_FOUND: {
+    code: "NOT_FOUND",
+    message: "Handoff not found",
+    status: 404,
+  },
+  REVISION_NOT_FOUND: {
+    code: "NOT_FOUND",
+    message: "Revision not found",
+    status: 404,
+  },
+  PERMISSION_DENIED: {
+    code: "AUTH_ROLE_FORBIDDEN",
+    message: "Insufficient permissions",
+    status: 403,
+  },
+  HANDOFF_NOT_PUBLISHED: {
+    code: "HANDOFF_NOT_PUBLISHED",
+    message: "Only published handoffs can be restored",
+    status: 409,
+  },
+  ALREADY_CURRENT: {
+    code: "ALREADY_CURRENT",
+    message: "Revision is already the current revision",
+    status: 409,
+  },
+};
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== "POST") {
+    return errorResponse("METHOD_NOT_ALLOWED", "POST required", 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return errorResponse(
+        "AUTH_INVALID_TOKEN",
+        "No authorization header",
+        401,
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+    const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
+      return errorResponse("AUTH_INVALID_TOKEN", "Invalid token", 401);
+    }
+
+    let body: RestoreRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+    }
+
+    const { handoff_id, revision } = body;
+    if (!handoff_id || !isValidUUID(handoff_id)) {
+      return errorResponse("VALIDATION_ERROR", "Invalid handoff_id", 400);
+    }
+    if (
+      typeof revision !== "number" ||
+      !Number.isInteger(revision) ||
+      revision < 1
+    ) {
+      return errorResponse(
+        "VALIDATION_ERROR",
+        "revision must be a positive integer",
+        400,
+      );
+    }
+
+    const { data: result, error: rpcError } = await supabaseService.rpc(
+      "restore_handoff_revision",
+      {
+        p_handoff_id: handoff_id,
+        p_revision: revision,
+        p_user_id: user.id,
+      },
+    );
+
+    if (rpcError) {
+      console.error("Failed to restore revision:", rpcError.code);
+      return errorResponse(
+        "SYNC_SERVER_ERROR",
+        "Failed to restore revision",
+        500,
+      );
+    }
+
+    if (result?.error) {
+      const mapped = RESTORE_ERRORS[result.error] ?? {
+        code: "SYNC_SERVER_ERROR",
+        message: "Failed to restore revision",
+        status: 500,
+      };
+      return errorResponse(mapped.code, mapped.message, mapped.status);
+    }
+
+    const response: RestoreResponse = {
+      success: true,
+      handoff_id,
+      revision: result.revision,
+      restored_from: result.restored_from,
+      published_at: result.published_at,
+    };
+
+    return jsonResponse(response);
+  } catch (error) {
+    console.error(
+      "Error restoring handoff revision:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("SYNC_SERVER_ERROR", "Internal server error", 500);
+  }
+});
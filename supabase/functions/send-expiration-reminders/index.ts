@@ -148,23 +148,32 @@ serve(async (req) => {
           .eq("id", doc.patient_id)
           .single();
 
-        // Send push notification to each user
-        for (const userId of notifyUserIds) {
-          const { data: userProfile } = await supabaseService
-            .from("users")
-            .select("push_token, display_name")
-            .eq("id", userId)
-            .single();
-
-          if (userProfile?.push_token) {
-            // In production, send via APNs
-            // For now, log the notification intent
-            console.log(
-              `[REMINDER] User ${userId}: "${doc.title}" for ${patient?.display_name ?? "patient"} expires in ${days} days`,
-            );
-            totalSent++;
-          }
+        // Queue a notification for each user; dispatch-notifications delivers them
+        const { error: queueError } = await supabaseService
+          .from("notification_outbox")
+          .insert(
+            Array.from(notifyUserIds).map((userId) => ({
+              user_id: userId,
+              circle_id: doc.circle_id,
+              notification_type: "LEGAL_DOCUMENT_EXPIRING",
+              title: `${doc.title} expires in ${days} days`,
+              body: `${doc.title} for ${patient?.display_name ?? "your loved one"} expires on ${doc.expiration_date}.`,
+              data_json: {
+                type: "legal_document_expiring",
+                document_id: doc.id,
+                patient_id: doc.patient_id,
+                days_until_expiration: days,
+              },
+            })),
+          );
+        if (queueError) {
+          console.error(
+            `Failed to queue reminders for doc ${doc.id}:`,
+            queueError.code,
+          );
+          continue;
         }
+        totalSent += notifyUserIds.size;
 
         // Log the reminder in audit
         const { error: reminderAuditError } = await supabaseService
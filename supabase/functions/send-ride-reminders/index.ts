@@ -153,30 +153,6 @@ serve(async (req) => {
       }
     }
 
-    // Pre-fetch push tokens for all users who may receive notifications
-    const allUserIds = new Set<string>();
-    for (const ride of upcomingRides as ScheduledRide[]) {
-      if (ride.driver_user_id) allUserIds.add(ride.driver_user_id);
-      allUserIds.add(ride.created_by);
-      const memberIds = circleMembersMap.get(ride.circle_id) || [];
-      for (const mid of memberIds) allUserIds.add(mid);
-    }
-
-    const pushTokenMap = new Map<string, string>();
-    if (allUserIds.size > 0) {
-      const { data: tokenRows } = await supabase
-        .from("users")
-        .select("id, push_token")
-        .in("id", [...allUserIds])
-        .not("push_token", "is", null);
-
-      if (tokenRows) {
-        for (const row of tokenRows) {
-          if (row.push_token) pushTokenMap.set(row.id, row.push_token);
-        }
-      }
-    }
-
     for (const ride of upcomingRides as ScheduledRide[]) {
       try {
         const pickupTime = new Date(ride.pickup_time);
@@ -192,7 +168,7 @@ serve(async (req) => {
             const reminderKey = `driver_24h_${ride.id}`;
             if (!alreadySentSet.has(reminderKey)) {
               // Send driver 24h reminder
-              await sendNotification(
+              await queueNotification(
                 supabase,
                 ride.driver_user_id,
                 {
@@ -201,7 +177,7 @@ serve(async (req) => {
                   type: "RIDE_REMINDER_DRIVER",
                   ride_id: ride.id,
                 },
-                pushTokenMap,
+                ride.circle_id,
               );
               await logReminderSent(supabase, reminderKey);
               remindersSent++;
@@ -211,7 +187,7 @@ serve(async (req) => {
           // Send patient/creator 24h reminder
           const patientKey = `patient_24h_${ride.id}`;
           if (!alreadySentSet.has(patientKey)) {
-            await sendNotification(
+            await queueNotification(
               supabase,
               ride.created_by,
               {
@@ -220,7 +196,7 @@ serve(async (req) => {
                 type: "RIDE_REMINDER_PATIENT",
                 ride_id: ride.id,
               },
-              pushTokenMap,
+              ride.circle_id,
             );
             await logReminderSent(supabase, patientKey);
             remindersSent++;
@@ -232,7 +208,7 @@ serve(async (req) => {
             if (!alreadySentSet.has(alertKey)) {
               const memberIds = circleMembersMap.get(ride.circle_id) || [];
               for (const memberId of memberIds) {
-                await sendNotification(
+                await queueNotification(
                   supabase,
                   memberId,
                   {
@@ -241,7 +217,7 @@ serve(async (req) => {
                     type: "RIDE_UNCONFIRMED_ALERT",
                     ride_id: ride.id,
                   },
-                  pushTokenMap,
+                  ride.circle_id,
                 );
                 alertsSent++;
               }
@@ -259,7 +235,7 @@ serve(async (req) => {
             const reminderKey = `driver_1h_${ride.id}`;
             if (!alreadySentSet.has(reminderKey)) {
               // Send driver 1h reminder
-              await sendNotification(
+              await queueNotification(
                 supabase,
                 ride.driver_user_id,
                 {
@@ -268,7 +244,7 @@ serve(async (req) => {
                   type: "RIDE_REMINDER_DRIVER_SOON",
                   ride_id: ride.id,
                 },
-                pushTokenMap,
+                ride.circle_id,
               );
               await logReminderSent(supabase, reminderKey);
               remindersSent++;
@@ -327,8 +303,8 @@ async function logReminderSent(
   });
 }
 
-// Helper: Send push notification via existing notification infrastructure
-async function sendNotification(
+// Helper: Queue a notification; dispatch-notifications delivers it
+async function queueNotification(
   supabase: ReturnType<typeof createClient>,
   userId: string,
   payload: {
@@ -337,45 +313,20 @@ async function sendNotification(
     type: string;
     ride_id: string;
   },
-  pushTokenMap: Map<string, string>,
+  circleId: string,
 ) {
-  let delivered = false;
-  try {
-    const pushToken = pushTokenMap.get(userId);
-    if (!pushToken) {
-      // No push token — log and skip
-      await supabase.from("audit_events").insert({
-        event_type: "RIDE_NOTIFICATION_SKIPPED",
-        metadata_json: {
-          user_id: userId,
-          ride_id: payload.ride_id,
-          notification_type: payload.type,
-          reason: "no_push_token",
-        },
-      });
-      return;
-    }
-
-    // TODO: Integrate with actual APNS sending when NotificationManager edge function exists
-    // For now, log the intent but do not claim delivery
-    console.log(`Notification queued for user (type: ${payload.type})`);
-  } catch (error) {
-    // Notification delivery failure — non-fatal, continue processing
-    console.warn(
-      `Non-fatal: notification delivery failed for type ${payload.type}`,
-    );
-  }
-
-  // Log queued notification for audit trail (not yet delivered)
-  await supabase.from("audit_events").insert({
-    event_type: "RIDE_NOTIFICATION_QUEUED",
-    metadata_json: {
-      user_id: userId,
-      ride_id: payload.ride_id,
-      notification_type: payload.type,
-      delivered,
-    },
+  const { error } = await supabase.from("notification_outbox").insert({
+    user_id: userId,
+    circle_id: circleId,
+    notification_type: payload.type,
+    title: payload.title,
+    body: payload.body,
+    data_json: { type: "ride_reminder", ride_id: payload.ride_id },
   });
+  if (error) {
+    // Thrown so the ride's reminder key is not logged and the next run retries
+    throw new Error("Failed to queue ride notification");
+  }
 }
 
 // Helper: Format time for display
@@ -0,0 +1,159 @@
+/**
+ * Speaker attribution
+ *
+ * An extracted item is attributed to whoever said its supporting quotes:
+ * the diarized speaker whose transcript segments cover most of the item's
+ * source spans. This is what lets a med change be marked as ordered by the
+ * clinician rather than relayed by family.
+ */
+
+import type {
+  SpeakerRole,
+  SpeakerTranscript,
+} from "../_shared/diarization/index.ts";
+import { createSpanLocator } from "./evidence.ts";
+import type { ItemSource, StructuredBrief } from "./types.ts";
+
+/** Minimum share of an item's evidence one speaker must cover */
+const MIN_SPEAKER_SHARE = 0.5;
+
+interface SpeakerRange {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+/**
+ * Segment ranges in the submitted transcript. Offsets are stored against
+ * raw_transcript; if the user edited the transcript before structuring, each
+ * segment is located again and unlocatable ones are dropped.
+ */
+function speakerRanges(
+  transcript: string,
+  rawTranscript: string | null,
+  speakerTranscript: SpeakerTranscript,
+): SpeakerRange[] {
+  const diarized = speakerTranscript.segments.filter((s) => s.speaker !== null);
+
+  if (transcript === rawTranscript) {
+    return diarized.map((s) => ({
+      start: s.char_start,
+      end: s.char_end,
+      speaker: s.speaker!,
+    }));
+  }
+
+  const locator = createSpanLocator(transcript);
+  const ranges: SpeakerRange[] = [];
+  for (const segment of diarized) {
+    const span = locator.locate(segment.text);
+    if (span) {
+      ranges.push({
+        start: span.start,
+        end: span.end,
+        speaker: segment.speaker!,
+      });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Add `speaker` and `speaker_role` to sources whose evidence is mostly from
+ * one diarized speaker. Sources without spans, or with mixed speakers, are
+ * returned unchanged.
+ */
+export function attributeSources(
+  transcript: string,
+  rawTranscript: string | null,
+  speakerTranscript: SpeakerTranscript | null,
+  sources: ItemSource[],
+): ItemSource[] {
+  if (!speakerTranscript || speakerTranscript.speakers.length === 0) {
+    return sources;
+  }
+
+  const ranges = speakerRanges(transcript, rawTranscript, speakerTranscript);
+  const roles = new Map<string, SpeakerRole>(
+    speakerTranscript.speakers.map((s) => [s.id, s.role]),
+  );
+
+  return sources.map((source) => {
+    const covered = new Map<string, number>();
+    let total = 0;
+
+    for (const span of source.spans) {
+      total += span.end - span.start;
+      for (const range of ranges) {
+        const overlap =
+          Math.min(span.end, range.end) - Math.max(span.start, range.start);
+        if (overlap > 0) {
+          covered.set(
+            range.speaker,
+            (covered.get(range.speaker) ?? 0) + overlap,
+          );
+        }
+      }
+    }
+
+    let speaker: string | null = null;
+    let best = 0;
+    for (const [id, chars] of covered) {
+      if (chars > best) {
+        speaker = id;
+        best = chars;
+      }
+    }
+
+    if (!speaker || total === 0 || best / total < MIN_SPEAKER_SHARE) {
+      return source;
+    }
+    return {
+      ...source,
+      speaker,
+      speaker_role: roles.get(speaker) ?? "UNKNOWN",
+    };
+  });
+}
+
+const ATTRIBUTED_PATH =
+  /^(changes\.med_changes|changes\.care_plan_changes|next_steps)\[(\d+)\]$/;
+
+/**
+ * Copy speaker roles onto med changes, care plan changes and next steps as
+ * `stated_by`, so the brief carries who gave each instruction.
+ */
+export function applyAttribution(
+  brief: StructuredBrief,
+  sources: ItemSource[],
+): StructuredBrief {
+  const result: StructuredBrief = {
+    ...brief,
+    changes: brief.changes
+      ? {
+          ...brief.changes,
+          med_changes: brief.changes.med_changes?.map((m) => ({ ...m })),
+          care_plan_changes: brief.changes.care_plan_changes?.map((c) => ({
+            ...c,
+          })),
+        }
+      : undefined,
+    next_steps: brief.next_steps?.map((s) => ({ ...s })),
+  };
+
+  for (const source of sources) {
+    const match = source.speaker_role && ATTRIBUTED_PATH.exec(source.path);
+    if (!match) continue;
+
+    const index = Number(match[2]);
+    const item =
+      match[1] === "changes.med_changes"
+        ? result.changes?.med_changes?.[index]
+        : match[1] === "changes.care_plan_changes"
+          ? result.changes?.care_plan_changes?.[index]
+          : result.next_steps?.[index];
+    if (item) item.stated_by = source.speaker_role;
+  }
+
+  return result;
+}
@@ -0,0 +1,401 @@
+/**
+ * Span evidence and confidence calibration
+ *
+ * Each extracted item is scored by how well its supporting quotes can be
+ * found in the transcript: a verbatim quote is strong evidence, a fuzzy match
+ * is weaker, and an item with no locatable evidence is likely hallucinated
+ * or paraphrased beyond recognition. Field confidence is the mean of its
+ * items, so the app's review threshold reflects real grounding instead of a
+ * fixed guess.
+ */
+
+import type {
+  BriefExtraction,
+  ConfidenceField,
+  ConfidenceScores,
+  ExtractionMethod,
+  ItemSource,
+  SourceSpan,
+  StructuredBrief,
+} from "./types.ts";
+
+/** Minimum share of quote tokens a fuzzy window must contain */
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+const MATCH_CONFIDENCE = {
+  EXACT: 0.95,
+  NORMALIZED: 0.9,
+  /** Item text (e.g. a med name) found, but no supporting quote */
+  TEXT_ONLY: 0.6,
+  NONE: 0.35,
+};
+
+/** Pattern extraction is brittle even when its matches are verbatim */
+const HEURISTIC_SCALE = 0.8;
+
+/** A med change naming a drug that never appears in the transcript */
+const UNSEEN_MED_CAP = 0.5;
+const KNOWN_MED_BOOST = 0.03;
+
+/**
+ * Fields left empty although the transcript contains cue words get a low
+ * score, so the app asks the user to check for missed items.
+ */
+const MISSED_CUES: Partial<
+  Record<ConfidenceField, { pattern: RegExp; confidence: number }>
+> = {
+  med_changes: {
+    pattern:
+      /\b(?:\d+\s*mg|dose|dosage|prescri\w*|refill|(?:started|stopped|increased|decreased)\s+(?:on\s+)?(?:the\s+)?\w+)\b/i,
+    confidence: 0.5,
+  },
+  next_steps: {
+    pattern: /\b(?:need to|needs to|should|must|follow up|schedule|call)\b/i,
+    confidence: 0.6,
+  },
+};
+
+const FIELD_WEIGHTS: Record<ConfidenceField, number> = {
+  summary: 0.25,
+  med_changes: 0.25,
+  next_steps: 0.2,
+  status: 0.1,
+  questions: 0.1,
+  symptom_changes: 0.05,
+  care_plan_changes: 0.05,
+};
+
+// ============================================================================
+// Span location
+// ============================================================================
+
+interface NormalizedText {
+  text: string;
+  /** Original offset of each normalized character */
+  offsets: number[];
+}
+
+/** Lowercase and collapse whitespace, keeping a map back to the original */
+function normalize(source: string): NormalizedText {
+  let text = "";
+  const offsets: number[] = [];
+  let pendingSpace = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      pendingSpace = text.length > 0;
+      continue;
+    }
+    if (pendingSpace) {
+      text += " ";
+      offsets.push(i - 1);
+      pendingSpace = false;
+    }
+    text += char.toLowerCase();
+    offsets.push(i);
+  }
+
+  return { text, offsets };
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  return [...text.matchAll(/[a-z0-9']+/gi)].map((m) => ({
+    value: m[0].toLowerCase(),
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+/** Best window of transcript tokens covering the quote's tokens */
+function fuzzyLocate(
+  transcriptTokens: Token[],
+  quote: string,
+): SourceSpan | null {
+  const quoteTokens = tokenize(quote).map((t) => t.value);
+  if (quoteTokens.length < 2 || transcriptTokens.length === 0) return null;
+
+  const windowSize = Math.min(quoteTokens.length, transcriptTokens.length);
+  let best: SourceSpan | null = null;
+
+  for (let i = 0; i + windowSize <= transcriptTokens.length; i++) {
+    const window = transcriptTokens.slice(i, i + windowSize);
+    const windowValues = new Set(window.map((t) => t.value));
+    const matched = quoteTokens.filter((t) => windowValues.has(t)).length;
+    const score = matched / quoteTokens.length;
+
+    if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+      best = {
+        start: window[0].start,
+        end: window[window.length - 1].end,
+        match: "FUZZY",
+        score: Math.round(score * 100) / 100,
+      };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Locates quotes in one transcript. Normalization and tokenization are done
+ * once and shared across all lookups.
+ */
+export function createSpanLocator(transcript: string) {
+  const normalized = normalize(transcript);
+  const tokens = tokenize(transcript);
+
+  function locate(quote: string): SourceSpan | null {
+    const trimmed = quote.trim();
+    if (!trimmed) return null;
+
+    const exact = transcript.indexOf(trimmed);
+    if (exact >= 0) {
+      return {
+        start: exact,
+        end: exact + trimmed.length,
+        match: "EXACT",
+        score: 1,
+      };
+    }
+
+    const needle = normalize(trimmed).text;
+    const index = normalized.text.indexOf(needle);
+    if (index >= 0) {
+      return {
+        start: normalized.offsets[index],
+        end: normalized.offsets[index + needle.length - 1] + 1,
+        match: "NORMALIZED",
+        score: 1,
+      };
+    }
+
+    return fuzzyLocate(tokens, trimmed);
+  }
+
+  function contains(text: string): boolean {
+    const needle = normalize(text).text;
+    return needle.length > 0 && normalized.text.includes(needle);
+  }
+
+  return { locate, contains };
+}
+
+type SpanLocator = ReturnType<typeof createSpanLocator>;
+
+// ============================================================================
+// Item enumeration
+// ============================================================================
+
+interface BriefItem {
+  path: string;
+  field: ConfidenceField;
+  /** Item text to look for when the extraction gave no quotes */
+  text: string;
+  medName?: string;
+}
+
+function briefItems(brief: StructuredBrief): BriefItem[] {
+  const items: BriefItem[] = [];
+  const status = brief.status ?? {};
+
+  for (const key of ["mood_energy", "appetite", "sleep", "mobility"] as const) {
+    const value = status[key];
+    if (value) {
+      items.push({ path: `status.${key}`, field: "status", text: value });
+    }
+  }
+  if (status.pain !== undefined) {
+    items.push({ path: "status.pain", field: "status", text: "pain" });
+  }
+  status.safety_flags?.forEach((flag, i) =>
+    items.push({
+      path: `status.safety_flags[${i}]`,
+      field: "status",
+      text: flag,
+    }),
+  );
+
+  brief.changes?.med_changes?.forEach((med, i) =>
+    items.push({
+      path: `changes.med_changes[${i}]`,
+      field: "med_changes",
+      text: med.details ?? med.name,
+      medName: med.name,
+    }),
+  );
+  brief.changes?.symptom_changes?.forEach((symptom, i) =>
+    items.push({
+      path: `changes.symptom_changes[${i}]`,
+      field: "symptom_changes",
+      text: symptom.details ?? symptom.symptom,
+    }),
+  );
+  brief.changes?.care_plan_changes?.forEach((change, i) =>
+    items.push({
+      path: `changes.care_plan_changes[${i}]`,
+      field: "care_plan_changes",
+      text: change.details ?? "",
+    }),
+  );
+  brief.questions_for_clinician?.forEach((q, i) =>
+    items.push({
+      path: `questions_for_clinician[${i}]`,
+      field: "questions",
+      text: q.question,
+    }),
+  );
+  brief.next_steps?.forEach((step, i) =>
+    items.push({
+      path: `next_steps[${i}]`,
+      field: "next_steps",
+      text: step.action,
+    }),
+  );
+
+  return items;
+}
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function spanConfidence(span: SourceSpan): number {
+  switch (span.match) {
+    case "EXACT":
+      return MATCH_CONFIDENCE.EXACT;
+    case "NORMALIZED":
+      return MATCH_CONFIDENCE.NORMALIZED;
+    case "FUZZY":
+      return 0.4 + 0.4 * span.score;
+  }
+}
+
+function scoreItem(
+  item: BriefItem,
+  quotes: string[],
+  locator: SpanLocator,
+  knownMeds: Set<string>,
+): ItemSource {
+  const spans = quotes
+    .map((quote) => locator.locate(quote))
+    .filter((span): span is SourceSpan => span !== null);
+
+  let confidence: number;
+  if (spans.length > 0) {
+    confidence = Math.max(...spans.map(spanConfidence));
+  } else {
+    const textSpan = item.text ? locator.locate(item.text) : null;
+    if (textSpan) {
+      spans.push(textSpan);
+      confidence = Math.min(
+        spanConfidence(textSpan),
+        MATCH_CONFIDENCE.TEXT_ONLY,
+      );
+    } else {
+      confidence = MATCH_CONFIDENCE.NONE;
+    }
+  }
+
+  if (item.medName) {
+    if (!locator.contains(item.medName)) {
+      confidence = Math.min(confidence, UNSEEN_MED_CAP);
+    } else if (knownMeds.has(item.medName.toLowerCase())) {
+      confidence = Math.min(confidence + KNOWN_MED_BOOST, 0.99);
+    }
+  }
+
+  return { path: item.path, field: item.field, spans, confidence };
+}
+
+/** Share of the summary's content words that appear in the transcript */
+function summaryGrounding(summary: string, transcript: string): number {
+  const transcriptWords = new Set(tokenize(transcript).map((t) => t.value));
+  const summaryWords = tokenize(summary)
+    .map((t) => t.value)
+    .filter((w) => w.length >= 4);
+  if (summaryWords.length === 0) return 0;
+
+  const grounded = summaryWords.filter((w) => transcriptWords.has(w)).length;
+  return grounded / summaryWords.length;
+}
+
+export interface CalibrationResult {
+  confidence: ConfidenceScores;
+  sources: ItemSource[];
+}
+
+/**
+ * Locate evidence for every item in the brief and derive per-item, per-field
+ * and overall confidence.
+ */
+export function calibrateConfidence(
+  transcript: string,
+  extraction: BriefExtraction,
+  method: ExtractionMethod,
+  knownMeds: string[],
+): CalibrationResult {
+  const locator = createSpanLocator(transcript);
+  const knownMedSet = new Set(knownMeds.map((m) => m.toLowerCase()));
+  const scale = method === "HEURISTIC" ? HEURISTIC_SCALE : 1;
+
+  const sources = briefItems(extraction.brief).map((item) => {
+    const source = scoreItem(
+      item,
+      extraction.evidence.get(item.path) ?? [],
+      locator,
+      knownMedSet,
+    );
+    return { ...source, confidence: round(source.confidence * scale) };
+  });
+
+  const fields: ConfidenceScores["fields"] = {
+    summary: round(
+      (0.5 + 0.45 * summaryGrounding(extraction.brief.summary, transcript)) *
+        scale,
+    ),
+  };
+
+  for (const field of Object.keys(FIELD_WEIGHTS) as ConfidenceField[]) {
+    if (field === "summary") continue;
+    const scores = sources
+      .filter((s) => s.field === field)
+      .map((s) => s.confidence);
+
+    if (scores.length > 0) {
+      fields[field] = round(scores.reduce((a, b) => a + b, 0) / scores.length);
+      continue;
+    }
+
+    const cue = MISSED_CUES[field];
+    if (cue && cue.pattern.test(transcript)) {
+      fields[field] = cue.confidence;
+    }
+  }
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const [field, score] of Object.entries(fields)) {
+    const weight = FIELD_WEIGHTS[field as ConfidenceField];
+    weighted += (score ?? 0) * weight;
+    totalWeight += weight;
+  }
+
+  return {
+    confidence: {
+      overall: totalWeight > 0 ? round(weighted / totalWeight) : 0,
+      fields,
+    },
+    sources,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Pattern-based extraction, used when no LLM is configured or the model's
+ * output fails validation. Matched text is recorded as evidence so heuristic
+ * results get source offsets and calibrated confidence like LLM results.
+ */
+
+import type { BriefExtraction, StructuredBrief } from "./types.ts";
+
+/** Original-case text of the first occurrence of `phrase`, if any */
+function findPhrase(
+  transcript: string,
+  lowerTranscript: string,
+  phrases: string[],
+): string | undefined {
+  for (const phrase of phrases) {
+    const index = lowerTranscript.indexOf(phrase);
+    if (index >= 0) {
+      return transcript.substring(index, index + phrase.length);
+    }
+  }
+  return undefined;
+}
+
+export function extractStructuredBrief(
+  transcript: string,
+  handoffType: string,
+): BriefExtraction {
+  const lowerTranscript = transcript.toLowerCase();
+  const evidence = new Map<string, string[]>();
+  const find = (...phrases: string[]) =>
+    findPhrase(transcript, lowerTranscript, phrases);
+
+  // Extract title
+  let title = "";
+  const typeMap: Record<string, string> = {
+    VISIT: "Visit",
+    CALL: "Phone Call",
+    APPOINTMENT: "Appointment",
+    FACILITY_UPDATE: "Facility Update",
+    OTHER: "Update",
+  };
+  title = `${typeMap[handoffType] || "Update"}`;
+
+  // Try to extract doctor/facility name
+  const drMatch = transcript.match(/(?:dr\.?|doctor)\s+(\w+)/i);
+  if (drMatch) {
+    title += ` with Dr. ${drMatch[1]}`;
+  }
+
+  // Extract summary (first 600 chars, trying to end at sentence)
+  let summary = transcript.substring(0, 600);
+  const lastPeriod = summary.lastIndexOf(".");
+  if (lastPeriod > 200) {
+    summary = summary.substring(0, lastPeriod + 1);
+  }
+
+  // Extract status indicators
+  const status: NonNullable<StructuredBrief["status"]> = {};
+
+  const goodMood = find("good spirits", "good mood");
+  const fatigue = goodMood ? undefined : find("tired", "fatigue");
+  if (goodMood) {
+    status.mood_energy = "Good spirits";
+    evidence.set("status.mood_energy", [goodMood]);
+  } else if (fatigue) {
+    status.mood_energy = "Fatigued";
+    evidence.set("status.mood_energy", [fatigue]);
+  }
+
+  // Pain level extraction
+  const painMatch = transcript.match(
+    /pain\s*(?:level|score)?\s*(?:is|of|at)?\s*(\d+)/i,
+  );
+  if (painMatch) {
+    status.pain = parseInt(painMatch[1]);
+    evidence.set("status.pain", [painMatch[0]]);
+  }
+
+  // Mobility
+  const walker = find("walker");
+  const walking = find("walking");
+  if (walker || walking) {
+    status.mobility = walker ? "Using walker" : "Walking independently";
+    evidence.set("status.mobility", [(walker ?? walking)!]);
+  }
+
+  // Safety flags
+  const safetyFlags: string[] = [];
+  const fall = find("fall", "fell");
+  if (fall) {
+    evidence.set(`status.safety_flags[${safetyFlags.length}]`, [fall]);
+    safetyFlags.push("Fall concern");
+  }
+  const confusion = find("confused", "confusion");
+  if (confusion) {
+    evidence.set(`status.safety_flags[${safetyFlags.length}]`, [confusion]);
+    safetyFlags.push("Confusion noted");
+  }
+  if (safetyFlags.length > 0) {
+    status.safety_flags = safetyFlags;
+  }
+
+  // Extract medication changes
+  const medChanges: NonNullable<StructuredBrief["changes"]> = {
+    med_changes: [],
+  };
+
+  // Look for dose changes
+  const doseMatch = transcript.match(
+    /(\w+)\s+(?:increased|decreased|changed)\s+(?:from|to)\s+(\d+\s*mg)/gi,
+  );
+  if (doseMatch) {
+    doseMatch.forEach((match) => {
+      const parts = match.match(/(\w+)\s+(increased|decreased|changed)/i);
+      if (parts) {
+        evidence.set(`changes.med_changes[${medChanges.med_changes!.length}]`, [
+          match,
+        ]);
+        medChanges.med_changes?.push({
+          name: parts[1],
+          change: "DOSE",
+          details: match,
+        });
+      }
+    });
+  }
+
+  // Extract next steps
+  const nextSteps: NonNullable<StructuredBrief["next_steps"]> = [];
+
+  const actionPatterns = [
+    /(?:need to|should|must|have to)\s+(.+?)(?:\.|$)/gi,
+    /(?:follow up|schedule|call|pick up)\s+(.+?)(?:\.|$)/gi,
+  ];
+
+  actionPatterns.forEach((pattern) => {
+    const matches = transcript.matchAll(pattern);
+    for (const match of matches) {
+      if (match[1] && match[1].length > 5 && match[1].length < 100) {
+        evidence.set(`next_steps[${nextSteps.length}]`, [match[0]]);
+        nextSteps.push({
+          action: match[1].trim(),
+          priority: "MED",
+        });
+      }
+    }
+  });
+
+  // Extract keywords
+  const keywords: string[] = [];
+  const keywordPatterns = [
+    /(?:medication|prescription|medicine)/gi,
+    /(?:appointment|checkup|visit)/gi,
+    /(?:blood pressure|bp)/gi,
+    /(?:diabetes|blood sugar)/gi,
+  ];
+
+  keywordPatterns.forEach((pattern) => {
+    const match = transcript.match(pattern);
+    if (match) {
+      keywords.push(match[0].toLowerCase());
+    }
+  });
+
+  return {
+    brief: {
+      title: title.substring(0, 80),
+      summary,
+      status: Object.keys(status).length > 0 ? status : undefined,
+      changes: medChanges.med_changes?.length ? medChanges : undefined,
+      next_steps: nextSteps.length > 0 ? nextSteps : undefined,
+      keywords: [...new Set(keywords)],
+    },
+    evidence,
+  };
+}
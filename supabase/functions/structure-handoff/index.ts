@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import type { SpeakerTranscript } from "../_shared/diarization/index.ts";
+import { createLLMClient, LLMError } from "../_shared/llm/index.ts";
+import { applyAttribution, attributeSources } from "./attribution.ts";
+import { calibrateConfidence } from "./evidence.ts";
+import { extractStructuredBrief } from "./heuristic.ts";
+import { BRIEF_SCHEMA_PROMPT, validateBriefExtraction } from "./schema.ts";
+import type {
+  BriefExtraction,
+  ExtractionMethod,
+  StructureRequest,
+  StructureResponse,
+} from "./types.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,72 +19,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-interface StructureRequest {
-  handoff_id: string;
-  transcript: string;
-  handoff_type: string;
-  patient_id: string;
-}
-
-interface StructuredBrief {
-  title: string;
-  summary: string;
-  status?: {
-    mood_energy?: string;
-    pain?: number;
-    appetite?: string;
-    sleep?: string;
-    mobility?: string;
-    safety_flags?: string[];
-  };
-  changes?: {
-    med_changes?: {
-      name: string;
-      change: string;
-      details?: string;
-      effective?: string;
-    }[];
-    symptom_changes?: {
-      symptom: string;
-      details?: string;
-    }[];
-    care_plan_changes?: {
-      area: string;
-      details?: string;
-    }[];
-  };
-  questions_for_clinician?: {
-    question: string;
-    priority?: string;
-  }[];
-  next_steps?: {
-    action: string;
-    suggested_owner?: string;
-    due?: string;
-    priority?: string;
-  }[];
-  keywords?: string[];
-}
-
-interface ConfidenceScores {
-  overall: number;
-  fields: {
-    summary?: number;
-    med_changes?: number;
-    next_steps?: number;
-  };
-}
-
-interface StructureResponse {
-  success: boolean;
-  structured_brief?: StructuredBrief;
-  confidence?: ConfidenceScores;
-  error?: {
-    code: string;
-    message: string;
-  };
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
@@ -141,6 +87,14 @@ serve(async (req) => {
       );
     }
 
+    // Circle the handoff belongs to (for LLM usage attribution), plus the
+    // diarized transcript for speaker attribution
+    const { data: handoff } = await supabaseService
+      .from("handoffs")
+      .select("circle_id, raw_transcript, transcript_segments_json")
+      .eq("id", handoff_id)
+      .single();
+
     // Get patient context for better extraction
     const { data: patient } = await supabaseService
       .from("patients")
@@ -158,75 +112,91 @@ serve(async (req) => {
 
     const knownMeds = medications?.map((m) => m.title) || [];
 
-    // In production: Call LLM provider (OpenAI, Anthropic, etc.)
-    const llmProviderUrl = Deno.env.get("LLM_PROVIDER_URL");
-    const llmApiKey = Deno.env.get("LLM_API_KEY");
+    let extraction: BriefExtraction | null = null;
+    let method: ExtractionMethod = "LLM";
 
-    let structuredBrief: StructuredBrief;
-    let confidence: ConfidenceScores;
+    const llm = createLLMClient({
+      feature: "structure-handoff",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: handoff?.circle_id,
+    });
 
-    if (llmProviderUrl && llmApiKey) {
-      // Real LLM integration would go here
-      // Example prompt structure:
-      /*
-      const systemPrompt = `You are a healthcare documentation assistant. 
-      Extract structured information from caregiver handoff notes.
-      Patient: ${patient?.display_name}
-      Known medications: ${knownMeds.join(", ")}
-      
-      Extract: title (<=80 chars), summary (<=600 chars), status observations,
-      medication changes, symptom changes, care plan changes, questions for clinician,
-      and actionable next steps with priorities.
-      
-      Return JSON matching the StructuredBrief schema.`;
-      
-      const response = await fetch(llmProviderUrl, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${llmApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: transcript },
-          ],
-        }),
-      });
-      
-      const result = await response.json();
-      structuredBrief = JSON.parse(result.choices[0].message.content);
-      */
+    if (llm.isConfigured()) {
+      try {
+        const result = await llm.completeJSON(
+          {
+            messages: [
+              {
+                role: "system",
+                content: `You are a healthcare documentation assistant.
+Extract structured information from caregiver handoff notes.
+Patient: ${patient?.display_name ?? "Unknown"}
+Known medications: ${knownMeds.join(", ") || "None listed"}
+
+Extract: title, summary, status observations, medication changes, symptom
+changes, care plan changes, questions for clinician, and actionable next steps
+with priorities.
+
+${BRIEF_SCHEMA_PROMPT}`,
+              },
+              { role: "user", content: transcript },
+            ],
+            tier: "fast",
+            temperature: 0.1,
+            maxTokens: 2000,
+          },
+          validateBriefExtraction,
+        );
+        extraction = result.data;
+      } catch (llmError) {
+        // Log the error code only; fall back to heuristic extraction
+        console.error(
+          "LLM structuring failed, using heuristic extraction:",
+          llmError instanceof LLMError ? llmError.code : "Unknown error",
+        );
+      }
+    }
+
+    if (!extraction) {
+      extraction = extractStructuredBrief(transcript, handoff_type);
+      method = "HEURISTIC";
     }
 
-    // Demo: Generate structured brief from transcript using simple extraction
-    structuredBrief = extractStructuredBrief(
+    const calibrated = calibrateConfidence(
       transcript,
-      handoff_type,
-      patient?.display_name,
+      extraction,
+      method,
+      knownMeds,
     );
-    confidence = {
-      overall: 0.85,
-      fields: {
-        summary: 0.9,
-        med_changes: 0.75,
-        next_steps: 0.85,
-      },
-    };
+    const confidence = calibrated.confidence;
 
-    // Store confidence scores on handoff
+    const speakerTranscript =
+      (handoff?.transcript_segments_json as SpeakerTranscript | null) ?? null;
+    const sources = attributeSources(
+      transcript,
+      handoff?.raw_transcript ?? null,
+      speakerTranscript,
+      calibrated.sources,
+    );
+    const brief = applyAttribution(extraction.brief, sources);
+
+    // Store confidence scores and source offsets on handoff
     await supabaseService
       .from("handoffs")
       .update({
         confidence_json: confidence,
+        source_spans_json: sources,
       })
       .eq("id", handoff_id);
 
     const response: StructureResponse = {
       success: true,
-      structured_brief: structuredBrief,
+      structured_brief: brief,
       confidence,
+      sources,
+      speakers: speakerTranscript?.speakers,
+      extraction_method: method,
     };
 
     return new Response(JSON.stringify(response), {
@@ -247,151 +217,3 @@ serve(async (req) => {
     );
   }
 });
-
-// Simple extraction function (replace with LLM in production)
-function extractStructuredBrief(
-  transcript: string,
-  handoffType: string,
-  patientName?: string,
-): StructuredBrief {
-  const lowerTranscript = transcript.toLowerCase();
-
-  // Extract title
-  let title = "";
-  const typeMap: Record<string, string> = {
-    VISIT: "Visit",
-    CALL: "Phone Call",
-    APPOINTMENT: "Appointment",
-    FACILITY_UPDATE: "Facility Update",
-    OTHER: "Update",
-  };
-  title = `${typeMap[handoffType] || "Update"}`;
-
-  // Try to extract doctor/facility name
-  const drMatch = transcript.match(/(?:dr\.?|doctor)\s+(\w+)/i);
-  if (drMatch) {
-    title += ` with Dr. ${drMatch[1]}`;
-  }
-
-  // Extract summary (first 600 chars, trying to end at sentence)
-  let summary = transcript.substring(0, 600);
-  const lastPeriod = summary.lastIndexOf(".");
-  if (lastPeriod > 200) {
-    summary = summary.substring(0, lastPeriod + 1);
-  }
-
-  // Extract status indicators
-  const status: StructuredBrief["status"] = {};
-
-  if (
-    lowerTranscript.includes("good spirits") ||
-    lowerTranscript.includes("good mood")
-  ) {
-    status.mood_energy = "Good spirits";
-  } else if (
-    lowerTranscript.includes("tired") ||
-    lowerTranscript.includes("fatigue")
-  ) {
-    status.mood_energy = "Fatigued";
-  }
-
-  // Pain level extraction
-  const painMatch = lowerTranscript.match(
-    /pain\s*(?:level|score)?\s*(?:is|of|at)?\s*(\d+)/,
-  );
-  if (painMatch) {
-    status.pain = parseInt(painMatch[1]);
-  }
-
-  // Mobility
-  if (
-    lowerTranscript.includes("walker") ||
-    lowerTranscript.includes("walking")
-  ) {
-    status.mobility = lowerTranscript.includes("walker")
-      ? "Using walker"
-      : "Walking independently";
-  }
-
-  // Safety flags
-  const safetyFlags: string[] = [];
-  if (lowerTranscript.includes("fall") || lowerTranscript.includes("fell")) {
-    safetyFlags.push("Fall concern");
-  }
-  if (
-    lowerTranscript.includes("confused") ||
-    lowerTranscript.includes("confusion")
-  ) {
-    safetyFlags.push("Confusion noted");
-  }
-  if (safetyFlags.length > 0) {
-    status.safety_flags = safetyFlags;
-  }
-
-  // Extract medication changes
-  const medChanges: StructuredBrief["changes"] = { med_changes: [] };
-
-  // Look for dose changes
-  const doseMatch = transcript.match(
-    /(\w+)\s+(?:increased|decreased|changed)\s+(?:from|to)\s+(\d+\s*mg)/gi,
-  );
-  if (doseMatch) {
-    doseMatch.forEach((match) => {
-      const parts = match.match(/(\w+)\s+(increased|decreased|changed)/i);
-      if (parts) {
-        medChanges.med_changes?.push({
-          name: parts[1],
-          change: "DOSE",
-          details: match,
-        });
-      }
-    });
-  }
-
-  // Extract next steps
-  const nextSteps: StructuredBrief["next_steps"] = [];
-
-  const actionPatterns = [
-    /(?:need to|should|must|have to)\s+(.+?)(?:\.|$)/gi,
-    /(?:follow up|schedule|call|pick up)\s+(.+?)(?:\.|$)/gi,
-  ];
-
-  actionPatterns.forEach((pattern) => {
-    const matches = transcript.matchAll(pattern);
-    for (const match of matches) {
-      if (match[1] && match[1].length > 5 && match[1].length < 100) {
-        nextSteps.push({
-          action: match[1].trim(),
-          priority: "MED",
-        });
-      }
-    }
-  });
-
-  // Extract keywords
-  const keywords: string[] = [];
-  const keywordPatterns = [
-    /(?:medication|prescription|medicine)/gi,
-    /(?:appointment|checkup|visit)/gi,
-    /(?:blood pressure|bp)/gi,
-    /(?:diabetes|blood sugar)/gi,
-  ];
-
-  keywordPatterns.forEach((pattern) => {
-    if (pattern.test(transcript)) {
-      const match = transcript.match(pattern);
-      if (match) {
-        keywords.push(match[0].toLowerCase());
-      }
-    }
-  });
-
-  return {
-    title: title.substring(0, 80),
-    summary,
-    status: Object.keys(status).length > 0 ? status : undefined,
-    changes: medChanges.med_changes?.length ? medChanges : undefined,
-    next_steps: nextSteps.length > 0 ? nextSteps : undefined,
-    keywords: [...new Set(keywords)],
-  };
-}
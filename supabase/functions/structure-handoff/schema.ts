@@ -0,0 +1,284 @@
+/**
+ * StructuredBrief schema for LLM extraction
+ *
+ * The model returns the brief plus verbatim transcript quotes ("evidence")
+ * for every item. Validation is strict about structure and enums but lenient
+ * about individual items: a malformed item is dropped, while a response
+ * without a usable title and summary is rejected outright so the caller can
+ * fall back to heuristic extraction.
+ */
+
+import { isRecord, oneOf, optionalString } from "../_shared/llm/index.ts";
+import {
+  CARE_PLAN_AREAS,
+  MED_CHANGE_TYPES,
+  PRIORITIES,
+  type BriefExtraction,
+  type BriefStatus,
+  type CarePlanChange,
+  type ClinicianQuestion,
+  type MedChange,
+  type NextStep,
+  type StructuredBrief,
+  type SymptomChange,
+} from "./types.ts";
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_SUMMARY_LENGTH = 600;
+const MAX_TEXT_LENGTH = 300;
+const MAX_ITEMS_PER_LIST = 20;
+const MAX_QUOTES_PER_ITEM = 3;
+const MAX_KEYWORDS = 10;
+
+const STATUS_TEXT_FIELDS = [
+  "mood_energy",
+  "appetite",
+  "sleep",
+  "mobility",
+] as const;
+
+export const BRIEF_SCHEMA_PROMPT = `Return a JSON object with this shape:
+{
+  "title": string (<= 80 chars),
+  "summary": string (<= 600 chars),
+  "status": {
+    "mood_energy"?: string, "pain"?: integer 0-10, "appetite"?: string,
+    "sleep"?: string, "mobility"?: string, "safety_flags"?: string[]
+  },
+  "status_evidence": { "<status key>": string, "safety_flags"?: string[] },
+  "changes": {
+    "med_changes": [{ "name": string, "change": "START"|"STOP"|"DOSE"|"SCHEDULE"|"OTHER",
+                      "details"?: string, "effective"?: "YYYY-MM-DD", "evidence": string[] }],
+    "symptom_changes": [{ "symptom": string, "details"?: string, "evidence": string[] }],
+    "care_plan_changes": [{ "area": "PT"|"OT"|"DIET"|"WOUND"|"OTHER", "details"?: string, "evidence": string[] }]
+  },
+  "questions_for_clinician": [{ "question": string, "priority"?: "LOW"|"MED"|"HIGH", "evidence": string[] }],
+  "next_steps": [{ "action": string, "suggested_owner"?: string, "due"?: ISO 8601,
+                   "priority"?: "LOW"|"MED"|"HIGH", "evidence": string[] }],
+  "keywords": string[]
+}
+
+Every "evidence" entry and every "status_evidence" value must be copied
+verbatim from the notes (a short phrase or sentence, not paraphrased).
+Only include facts that are stated in the notes. Omit empty sections.`;
+
+// ============================================================================
+// Field parsers
+// ============================================================================
+
+function parseQuotes(value: unknown): string[] {
+  const raw = Array.isArray(value) ? value : [value];
+  return raw
+    .map((quote) => optionalString(quote, MAX_TEXT_LENGTH))
+    .filter((quote): quote is string => quote !== undefined)
+    .slice(0, MAX_QUOTES_PER_ITEM);
+}
+
+function parseDate(value: unknown): string | undefined {
+  const text = optionalString(value, 40);
+  if (!text || isNaN(new Date(text).getTime())) return undefined;
+  return text;
+}
+
+function parsePain(value: unknown): number | undefined {
+  const pain = typeof value === "string" ? Number(value) : value;
+  if (typeof pain !== "number" || !Number.isFinite(pain)) return undefined;
+  if (pain < 0 || pain > 10) return undefined;
+  return Math.round(pain);
+}
+
+/**
+ * Parse a list of items, dropping malformed entries and recording each kept
+ * item's quotes under `${path}[index]` (index after filtering).
+ */
+function parseList<T>(
+  value: unknown,
+  path: string,
+  evidence: Map<string, string[]>,
+  parseItem: (item: Record<string, unknown>) => T | undefined,
+): T[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+
+  const items: T[] = [];
+  for (const entry of value.slice(0, MAX_ITEMS_PER_LIST)) {
+    if (!isRecord(entry)) continue;
+    const item = parseItem(entry);
+    if (!item) continue;
+
+    const quotes = parseQuotes(entry.evidence);
+    if (quotes.length > 0) {
+      evidence.set(`${path}[${items.length}]`, quotes);
+    }
+    items.push(item);
+  }
+
+  return items.length > 0 ? items : undefined;
+}
+
+function parseMedChange(item: Record<string, unknown>): MedChange | undefined {
+  const name = optionalString(item.name, 100);
+  if (!name) return undefined;
+  return {
+    name,
+    change: oneOf(item.change, MED_CHANGE_TYPES) ?? "OTHER",
+    details: optionalString(item.details, MAX_TEXT_LENGTH),
+    effective: parseDate(item.effective),
+  };
+}
+
+function parseSymptomChange(
+  item: Record<string, unknown>,
+): SymptomChange | undefined {
+  const symptom = optionalString(item.symptom, 100);
+  if (!symptom) return undefined;
+  return { symptom, details: optionalString(item.details, MAX_TEXT_LENGTH) };
+}
+
+function parseCarePlanChange(
+  item: Record<string, unknown>,
+): CarePlanChange | undefined {
+  const details = optionalString(item.details, MAX_TEXT_LENGTH);
+  const area = oneOf(item.area, CARE_PLAN_AREAS);
+  if (!area && !details) return undefined;
+  return { area: area ?? "OTHER", details };
+}
+
+function parseQuestion(
+  item: Record<string, unknown>,
+): ClinicianQuestion | undefined {
+  const question = optionalString(item.question, MAX_TEXT_LENGTH);
+  if (!question) return undefined;
+  return { question, priority: oneOf(item.priority, PRIORITIES) };
+}
+
+function parseNextStep(item: Record<string, unknown>): NextStep | undefined {
+  const action = optionalString(item.action, MAX_TEXT_LENGTH);
+  if (!action) return undefined;
+  return {
+    action,
+    suggested_owner: optionalString(item.suggested_owner, 100),
+    due: parseDate(item.due),
+    priority: oneOf(item.priority, PRIORITIES),
+  };
+}
+
+function parseStatus(
+  value: unknown,
+  statusEvidence: unknown,
+  evidence: Map<string, string[]>,
+): BriefStatus | undefined {
+  if (!isRecord(value)) return undefined;
+  const quotes = isRecord(statusEvidence) ? statusEvidence : {};
+  const status: BriefStatus = {};
+
+  for (const key of STATUS_TEXT_FIELDS) {
+    const text = optionalString(value[key], 200);
+    if (!text) continue;
+    status[key] = text;
+    const keyQuotes = parseQuotes(quotes[key]);
+    if (keyQuotes.length > 0) evidence.set(`status.${key}`, keyQuotes);
+  }
+
+  const pain = parsePain(value.pain);
+  if (pain !== undefined) {
+    status.pain = pain;
+    const painQuotes = parseQuotes(quotes.pain);
+    if (painQuotes.length > 0) evidence.set("status.pain", painQuotes);
+  }
+
+  if (Array.isArray(value.safety_flags)) {
+    const flagQuotes = Array.isArray(quotes.safety_flags)
+      ? quotes.safety_flags
+      : [];
+    const flags: string[] = [];
+    value.safety_flags.slice(0, MAX_ITEMS_PER_LIST).forEach((flag, i) => {
+      const text = optionalString(flag, 200);
+      if (!text) return;
+      const flagEvidence = parseQuotes(flagQuotes[i]);
+      if (flagEvidence.length > 0) {
+        evidence.set(`status.safety_flags[${flags.length}]`, flagEvidence);
+      }
+      flags.push(text);
+    });
+    if (flags.length > 0) status.safety_flags = flags;
+  }
+
+  return Object.keys(status).length > 0 ? status : undefined;
+}
+
+// ============================================================================
+// Validator
+// ============================================================================
+
+/**
+ * Validate model output against the StructuredBrief schema.
+ * Returns null when the output is unusable.
+ */
+export function validateBriefExtraction(
+  value: unknown,
+): BriefExtraction | null {
+  if (!isRecord(value)) return null;
+
+  const title = optionalString(value.title, MAX_TITLE_LENGTH);
+  const summary = optionalString(value.summary, MAX_SUMMARY_LENGTH);
+  if (!title || !summary) return null;
+
+  const evidence = new Map<string, string[]>();
+  const changes = isRecord(value.changes) ? value.changes : {};
+
+  const medChanges = parseList(
+    changes.med_changes,
+    "changes.med_changes",
+    evidence,
+    parseMedChange,
+  );
+  const symptomChanges = parseList(
+    changes.symptom_changes,
+    "changes.symptom_changes",
+    evidence,
+    parseSymptomChange,
+  );
+  const carePlanChanges = parseList(
+    changes.care_plan_changes,
+    "changes.care_plan_changes",
+    evidence,
+    parseCarePlanChange,
+  );
+
+  const brief: StructuredBrief = {
+    title,
+    summary,
+    status: parseStatus(value.status, value.status_evidence, evidence),
+    changes:
+      medChanges || symptomChanges || carePlanChanges
+        ? {
+            med_changes: medChanges,
+            symptom_changes: symptomChanges,
+            care_plan_changes: carePlanChanges,
+          }
+        : undefined,
+    questions_for_clinician: parseList(
+      value.questions_for_clinician,
+      "questions_for_clinician",
+      evidence,
+      parseQuestion,
+    ),
+    next_steps: parseList(
+      value.next_steps,
+      "next_steps",
+      evidence,
+      parseNextStep,
+    ),
+    keywords: Array.isArray(value.keywords)
+      ? [
+          ...new Set(
+            value.keywords
+              .map((k) => optionalString(k, 50)?.toLowerCase())
+              .filter((k): k is string => k !== undefined),
+          ),
+        ].slice(0, MAX_KEYWORDS)
+      : undefined,
+  };
+
+  return { brief, evidence };
+}
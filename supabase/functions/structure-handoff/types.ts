@@ -0,0 +1,159 @@
+/**
+ * Type definitions for handoff structuring
+ */
+
+import type {
+  SpeakerRole,
+  TranscriptSpeaker,
+} from "../_shared/diarization/index.ts";
+
+export const MED_CHANGE_TYPES = [
+  "START",
+  "STOP",
+  "DOSE",
+  "SCHEDULE",
+  "OTHER",
+] as const;
+export const CARE_PLAN_AREAS = ["PT", "OT", "DIET", "WOUND", "OTHER"] as const;
+export const PRIORITIES = ["LOW", "MED", "HIGH"] as const;
+
+export type MedChangeType = (typeof MED_CHANGE_TYPES)[number];
+export type CarePlanArea = (typeof CARE_PLAN_AREAS)[number];
+export type Priority = (typeof PRIORITIES)[number];
+
+export interface StructureRequest {
+  handoff_id: string;
+  transcript: string;
+  handoff_type: string;
+  patient_id: string;
+}
+
+export interface BriefStatus {
+  mood_energy?: string;
+  pain?: number;
+  appetite?: string;
+  sleep?: string;
+  mobility?: string;
+  safety_flags?: string[];
+}
+
+export interface MedChange {
+  name: string;
+  change: MedChangeType;
+  details?: string;
+  effective?: string;
+  /** Role of the speaker who stated the change, from diarized audio */
+  stated_by?: SpeakerRole;
+}
+
+export interface SymptomChange {
+  symptom: string;
+  details?: string;
+}
+
+export interface CarePlanChange {
+  area: CarePlanArea;
+  details?: string;
+  stated_by?: SpeakerRole;
+}
+
+export interface ClinicianQuestion {
+  question: string;
+  priority?: Priority;
+}
+
+export interface NextStep {
+  action: string;
+  suggested_owner?: string;
+  due?: string;
+  priority?: Priority;
+  stated_by?: SpeakerRole;
+}
+
+export interface StructuredBrief {
+  title: string;
+  summary: string;
+  status?: BriefStatus;
+  changes?: {
+    med_changes?: MedChange[];
+    symptom_changes?: SymptomChange[];
+    care_plan_changes?: CarePlanChange[];
+  };
+  questions_for_clinician?: ClinicianQuestion[];
+  next_steps?: NextStep[];
+  keywords?: string[];
+}
+
+/**
+ * Fields that carry a confidence score. Keys match the iOS
+ * `ConfidenceScores.FieldConfidence` (decoded from snake_case).
+ */
+export type ConfidenceField =
+  | "summary"
+  | "status"
+  | "med_changes"
+  | "symptom_changes"
+  | "care_plan_changes"
+  | "questions"
+  | "next_steps";
+
+export interface ConfidenceScores {
+  overall: number;
+  fields: Partial<Record<ConfidenceField, number>>;
+}
+
+/**
+ * How a quote was located in the transcript:
+ * - EXACT: verbatim substring
+ * - NORMALIZED: matches after case and whitespace folding
+ * - FUZZY: best token-overlap window above the match threshold
+ */
+export type SpanMatch = "EXACT" | "NORMALIZED" | "FUZZY";
+
+export interface SourceSpan {
+  /** Character offset into the submitted transcript (inclusive) */
+  start: number;
+  /** Character offset into the submitted transcript (exclusive) */
+  end: number;
+  match: SpanMatch;
+  /** Token overlap for FUZZY matches, 1 otherwise */
+  score: number;
+}
+
+/**
+ * Where an extracted item came from. `path` addresses the item inside the
+ * StructuredBrief, e.g. `changes.med_changes[0]` or `status.pain`.
+ */
+export interface ItemSource {
+  path: string;
+  field: ConfidenceField;
+  spans: SourceSpan[];
+  confidence: number;
+  /** Diarized speaker (TranscriptSpeaker.id) who said most of the evidence */
+  speaker?: string;
+  speaker_role?: SpeakerRole;
+}
+
+export type ExtractionMethod = "LLM" | "HEURISTIC";
+
+/**
+ * A brief plus the transcript quotes supporting each item, keyed by path.
+ * Quotes are located and scored by the evidence module.
+ */
+export interface BriefExtraction {
+  brief: StructuredBrief;
+  evidence: Map<string, string[]>;
+}
+
+export interface StructureResponse {
+  success: boolean;
+  structured_brief?: StructuredBrief;
+  confidence?: ConfidenceScores;
+  sources?: ItemSource[];
+  speakers?: TranscriptSpeaker[];
+  extraction_method?: ExtractionMethod;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
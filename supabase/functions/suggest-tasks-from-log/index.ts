@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createLLMClient,
+  extractArray,
+  hasAIConsent,
+  LLMError,
+} from "../_shared/llm/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -47,7 +53,6 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const openaiKey = Deno.env.get("OPENAI_API_KEY");
 
     const supabaseUser = createClient(supabaseUrl, supabaseAnonKey, {
       global: { headers: { Authorization: authHeader } },
@@ -88,13 +93,9 @@ serve(async (req) => {
     }
 
     // CRITICAL: Verify AI consent before processing PHI
-    const { data: consent } = await supabaseService
-      .from("user_ai_consent")
-      .select("ai_processing_enabled")
-      .eq("user_id", user.id)
-      .single();
+    const consented = await hasAIConsent(supabaseService, user.id, "required");
 
-    if (!consent || !consent.ai_processing_enabled) {
+    if (!consented) {
       return new Response(
         JSON.stringify({
           error: "User has not consented to AI processing",
@@ -209,70 +210,47 @@ Summary: ${sanitizedSummary}
 
 Extract actionable follow-up tasks from this communication log.`;
 
-    if (!openaiKey) {
-      // Return empty if no API key - no PHI in logs
-      console.log("AI suggestions unavailable: API key not configured");
+    const llm = createLLMClient({
+      feature: "suggest-tasks-from-log",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: logAccess.circle_id,
+      // Explicit opt-in was verified above
+      consent: "none",
+    });
+
+    if (!llm.isConfigured()) {
+      // Return empty if no provider configured - no PHI in logs
+      console.log("AI suggestions unavailable: LLM provider not configured");
       return new Response(JSON.stringify({ suggestions: [] }), {
         status: 200,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
-    // Call OpenAI
-    const openaiResponse = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o-mini",
+    // Parse LLM response
+    let parsedTasks: any[];
+    try {
+      const result = await llm.completeJSON(
+        {
           messages: [
             { role: "system", content: systemPrompt },
             { role: "user", content: userPrompt },
           ],
+          tier: "fast",
           temperature: 0.3,
-          max_tokens: 500,
-          response_format: { type: "json_object" },
-        }),
-      },
-    );
-
-    if (!openaiResponse.ok) {
-      // Log error without PHI - don't include response body which may contain prompt content
+          maxTokens: 500,
+        },
+        (value) => extractArray(value, ["tasks", "suggestions"]) ?? [],
+      );
+      parsedTasks = result.data;
+    } catch (llmError) {
+      // Log error code without PHI - never include response content
       console.error(
-        "OpenAI API request failed with status:",
-        openaiResponse.status,
+        "LLM task suggestion failed for log:",
+        logId,
+        llmError instanceof LLMError ? llmError.code : "Unknown error",
       );
-      return new Response(JSON.stringify({ suggestions: [] }), {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    const openaiData = await openaiResponse.json();
-    const content = openaiData.choices?.[0]?.message?.content;
-
-    if (!content) {
-      return new Response(JSON.stringify({ suggestions: [] }), {
-        status: 200,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    // Parse LLM response
-    let parsedTasks: any[];
-    try {
-      const parsed = JSON.parse(content);
-      parsedTasks =
-        parsed.tasks ||
-        parsed.suggestions ||
-        (Array.isArray(parsed) ? parsed : []);
-    } catch {
-      // Log parsing failure without exposing LLM response content (may contain PHI)
-      console.error("Failed to parse LLM response for log:", logId);
       parsedTasks = [];
     }
 
@@ -0,0 +1,837 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { handleCors, jsonResponse, errorResponse } from "../_shared/cors.ts";
+import { tokenMatches } from "../_shared/cron-auth.ts";
+import {
+  buildEventIcs,
+  CalDAVError,
+  type CalDAVClient,
+  type CalDAVTransport,
+  createCalDAVClient,
+  decryptSecret,
+  parseEvents,
+  resolveCalDAVTransport,
+} from "../_shared/calendar/index.ts";
+import {
+  type ConflictStrategy,
+  type DesiredEvent,
+  type EventMapping,
+  hasLocalChange,
+  planSync,
+  resolveRemoteChange,
+  type SourceColumn,
+  type SyncDirection,
+  type SyncStep,
+} from "./sync.ts";
+
+/**
+ * Sync CalDAV Calendars (cron, every 5 minutes)
+ *
+ * Two-way sync for CALDAV calendar connections that are due (last synced
+ * more than sync_interval_minutes ago). For each, the member's open tasks
+ * and shifts and the circle's appointments (imported ones, and the next
+ * appointment noted on binder contacts) are written to their calendar,
+ * and edits made there come back: a moved or deleted event becomes a
+ * calendar_change_proposals row that a member applies or rejects with
+ * review_calendar_change. The source record is never changed by the sync
+ * itself.
+ *
+ * Every write is conditional on the ETag the server last reported, so an
+ * edit made while a run is in flight fails the write instead of being
+ * overwritten; the event is looked at again on the next run.
+ */
+
+/** Connections per run, to stay within the function's time limit */
+const MAX_CONNECTIONS = 20;
+const WINDOW_PAST_DAYS = 1;
+const WINDOW_AHEAD_DAYS = 60;
+const TASK_DURATION_MINUTES = 30;
+const APPOINTMENT_DURATION_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ConnectionRow {
+  id: string;
+  user_id: string;
+  circle_id: string;
+  caldav_url: string | null;
+  provider_account_id: string | null;
+  access_token_encrypted: string | null;
+  sync_direction: SyncDirection;
+  conflict_strategy: ConflictStrategy;
+  sync_interval_minutes: number;
+  sync_tasks: boolean;
+  sync_shifts: boolean;
+  sync_appointments: boolean;
+  show_minimal_details: boolean;
+  last_sync_at: string | null;
+}
+
+interface TaskRow {
+  id: string;
+  patient_id: string;
+  title: string;
+  description: string | null;
+  due_at: string;
+  priority: string;
+  patients: { display_name: string } | null;
+}
+
+interface ShiftRow {
+  id: string;
+  patient_id: string;
+  start_at: string;
+  end_at: string;
+  notes: string | null;
+  patients: { display_name: string } | null;
+  users: { display_name: string } | null;
+}
+
+interface AppointmentRow {
+  id: string;
+  patient_id: string;
+  binder_item_id: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start_at: string;
+  end_at: string;
+  patients: { display_name: string } | null;
+}
+
+interface ContactRow {
+  id: string;
+  patient_id: string | null;
+  title: string;
+  content_json: Record<string, string | undefined> | null;
+  patients: { display_name: string } | null;
+}
+
+interface SyncCounts {
+  created: number;
+  updated: number;
+  deleted: number;
+  proposed: number;
+  conflicts: number;
+  failed: number;
+}
+
+const MAPPING_COLUMNS =
+  "id, source_type, source_task_id, source_shift_id, source_binder_item_id, source_appointment_id, external_event_id, external_etag, title, description, location, start_at, end_at, sync_status";
+
+class DatabaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatabaseError";
+  }
+}
+
+function isDue(connection: ConnectionRow, now: Date): boolean {
+  if (!connection.last_sync_at) return true;
+  const interval = Math.max(5, connection.sync_interval_minutes) * 60 * 1000;
+  return Date.parse(connection.last_sync_at) + interval <= now.getTime();
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  // Accept the cron secret or the service role key
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+  if (
+    !tokenMatches(token, supabaseServiceKey) &&
+    (!cronSecret || !tokenMatches(token, cronSecret))
+  ) {
+    return errorResponse("UNAUTHORIZED", "Invalid authorization", 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport = resolveCalDAVTransport();
+    const now = new Date();
+
+    const { data: candidates, error } = await supabase
+      .from("calendar_connections")
+      .select(
+        "id, user_id, circle_id, caldav_url, provider_account_id, access_token_encrypted, sync_direction, conflict_strategy, sync_interval_minutes, sync_tasks, sync_shifts, sync_appointments, show_minimal_details, last_sync_at",
+      )
+      .eq("provider", "CALDAV")
+      .eq("status", "ACTIVE")
+      .order("last_sync_at", { ascending: true, nullsFirst: true })
+      .limit(MAX_CONNECTIONS * 5);
+
+    if (error) {
+      console.error("Failed to load connections:", error.code);
+      return errorResponse("DATABASE_ERROR", "Failed to load connections", 500);
+    }
+
+    const due = ((candidates ?? []) as ConnectionRow[])
+      .filter((connection) => isDue(connection, now))
+      .slice(0, MAX_CONNECTIONS);
+
+    const totals = {
+      connections: due.length,
+      synced: 0,
+      errored: 0,
+      created: 0,
+      updated: 0,
+      deleted: 0,
+      proposed: 0,
+      conflicts: 0,
+      failed_events: 0,
+    };
+
+    for (const connection of due) {
+      const counts = await syncConnection(supabase, transport, connection, now);
+      if (!counts) {
+        totals.errored++;
+        continue;
+      }
+      totals.synced++;
+      totals.created += counts.created;
+      totals.updated += counts.updated;
+      totals.deleted += counts.deleted;
+      totals.proposed += counts.proposed;
+      totals.conflicts += counts.conflicts;
+      totals.failed_events += counts.failed;
+    }
+
+    return jsonResponse({ success: true, transport, ...totals });
+  } catch (error) {
+    console.error(
+      "Error syncing CalDAV calendars:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    return errorResponse("INTERNAL_ERROR", "Internal server error", 500);
+  }
+});
+
+/**
+ * Syncs one connection and records the outcome on it. Returns null when
+ * the sync could not run at all.
+ */
+async function syncConnection(
+  supabase: SupabaseClient,
+  transport: CalDAVTransport,
+  connection: ConnectionRow,
+  now: Date,
+): Promise<SyncCounts | null> {
+  const finish = (fields: Record<string, unknown>) =>
+    supabase
+      .from("calendar_connections")
+      .update({ last_sync_at: now.toISOString(), ...fields })
+      .eq("id", connection.id);
+
+  if (
+    !connection.caldav_url ||
+    !connection.provider_account_id ||
+    !connection.access_token_encrypted
+  ) {
+    await finish({
+      status: "ERROR",
+      status_message: "CalDAV connection is incomplete",
+      last_sync_status: "FAILED",
+    });
+    return null;
+  }
+
+  let password: string;
+  try {
+    password = await decryptSecret(connection.access_token_encrypted);
+  } catch (error) {
+    console.error(
+      "Failed to decrypt CalDAV credentials:",
+      error instanceof Error ? error.name : "Unknown error",
+    );
+    await finish({
+      status: "ERROR",
+      status_message: "Stored credentials could not be read; reconnect",
+      last_sync_status: "FAILED",
+    });
+    return null;
+  }
+
+  const client = createCalDAVClient(
+    {
+      url: connection.caldav_url,
+      username: connection.provider_account_id,
+      password,
+    },
+    transport,
+  );
+
+  try {
+    const pull = connection.sync_direction !== "WRITE_ONLY";
+    const [desired, mappings, listing] = await Promise.all([
+      loadDesiredEvents(supabase, connection, now),
+      loadMappings(supabase, connection.id),
+      pull ? client.list() : Promise.resolve(null),
+    ]);
+    const remote = listing
+      ? new Map(listing.map((object) => [object.href, object.etag]))
+      : null;
+
+    const steps = planSync(
+      desired,
+      mappings,
+      remote,
+      connection.sync_direction,
+    );
+    const counts = await applySteps(supabase, client, connection, steps, now);
+
+    const { count } = await supabase
+      .from("calendar_events")
+      .select("id", { count: "exact", head: true })
+      .eq("connection_id", connection.id);
+
+    await finish({
+      last_sync_status: counts.failed > 0 ? "PARTIAL" : "SUCCESS",
+      last_sync_error:
+        counts.failed > 0 ? `${counts.failed} events failed to sync` : null,
+      events_synced_count: count ?? 0,
+    });
+    return counts;
+  } catch (error) {
+    const code =
+      error instanceof CalDAVError
+        ? error.code
+        : error instanceof Error
+          ? error.name
+          : "Unknown error";
+    console.error("CalDAV sync failed:", code);
+
+    if (code === "AUTH_FAILED") {
+      await finish({
+        status: "ERROR",
+        status_message: "The calendar server rejected the credentials",
+        last_sync_status: "FAILED",
+        last_sync_error: code,
+      });
+    } else {
+      await finish({ last_sync_status: "FAILED", last_sync_error: code });
+    }
+    return null;
+  }
+}
+
+// MARK: - Desired Events
+
+function appointmentTime(row: ContactRow): Date | null {
+  const value = row.content_json?.nextAppointment;
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * The events that belong in the member's calendar: their own open tasks
+ * and shifts, and the circle's upcoming appointments, imported or noted
+ * on a contact.
+ */
+async function loadDesiredEvents(
+  supabase: SupabaseClient,
+  connection: ConnectionRow,
+  now: Date,
+): Promise<DesiredEvent[]> {
+  const from = new Date(now.getTime() - WINDOW_PAST_DAYS * DAY_MS);
+  const to = new Date(now.getTime() + WINDOW_AHEAD_DAYS * DAY_MS);
+  const minimal = connection.show_minimal_details;
+  const events: DesiredEvent[] = [];
+
+  if (connection.sync_tasks) {
+    const { data, error } = await supabase
+      .from("tasks")
+      .select(
+        "id, patient_id, title, description, due_at, priority, patients(display_name)",
+      )
+      .eq("circle_id", connection.circle_id)
+      .eq("owner_user_id", connection.user_id)
+      .eq("status", "OPEN")
+      .gte("due_at", from.toISOString())
+      .lte("due_at", to.toISOString());
+    if (error) throw new DatabaseError("Failed to load tasks");
+
+    for (const task of (data ?? []) as unknown as TaskRow[]) {
+      const start = new Date(task.due_at);
+      events.push({
+        sourceType: "TASK",
+        sourceColumn: "source_task_id",
+        sourceId: task.id,
+        patientId: task.patient_id,
+        uid: `task-${task.id}@curaknot.app`,
+        summary: minimal ? "CuraKnot Event" : `CK: ${task.title}`,
+        description: minimal
+          ? null
+          : [
+              task.description,
+              task.patients?.display_name
+                ? `Patient: ${task.patients.display_name}`
+                : null,
+              `Priority: ${task.priority}`,
+            ]
+              .filter(Boolean)
+              .join("\n"),
+        start,
+        end: new Date(start.getTime() + TASK_DURATION_MINUTES * 60 * 1000),
+        location: null,
+        categories: "TASK",
+      });
+    }
+  }
+
+  if (connection.sync_shifts) {
+    const { data, error } = await supabase
+      .from("care_shifts")
+      .select(
+        "id, patient_id, start_at, end_at, notes, patients(display_name), users:owner_user_id(display_name)",
+      )
+      .eq("circle_id", connection.circle_id)
+      .eq("owner_user_id", connection.user_id)
+      .in("status", ["SCHEDULED", "ACTIVE"])
+      .gte("end_at", from.toISOString())
+      .lte("start_at", to.toISOString());
+    if (error) throw new DatabaseError("Failed to load shifts");
+
+    for (const shift of (data ?? []) as unknown as ShiftRow[]) {
+      const patientName = shift.patients?.display_name || "Patient";
+      const ownerName = shift.users?.display_name || "Caregiver";
+      events.push({
+        sourceType: "SHIFT",
+        sourceColumn: "source_shift_id",
+        sourceId: shift.id,
+        patientId: shift.patient_id,
+        uid: `shift-${shift.id}@curaknot.app`,
+        summary: minimal
+          ? "CuraKnot Shift"
+          : `CK Shift: ${patientName} - ${ownerName}`,
+        description: minimal ? null : shift.notes || null,
+        start: new Date(shift.start_at),
+        end: new Date(shift.end_at),
+        location: null,
+        categories: "SHIFT",
+      });
+    }
+  }
+
+  if (connection.sync_appointments) {
+    // Recurring and all-day appointments are left to the iCal feed
+    const { data: imported, error: importedError } = await supabase
+      .from("appointments")
+      .select(
+        "id, patient_id, binder_item_id, title, description, location, start_at, end_at, patients(display_name)",
+      )
+      .eq("circle_id", connection.circle_id)
+      .eq("status", "SCHEDULED")
+      .eq("all_day", false)
+      .is("rrule", null)
+      .is("recurrence_id", null)
+      .gte("start_at", from.toISOString())
+      .lte("start_at", to.toISOString());
+    if (importedError) throw new DatabaseError("Failed to load appointments");
+
+    const appointments = (imported ?? []) as unknown as AppointmentRow[];
+    for (const appt of appointments) {
+      const patientName = appt.patients?.display_name || "Patient";
+      events.push({
+        sourceType: "APPOINTMENT",
+        sourceColumn: "source_appointment_id",
+        sourceId: appt.id,
+        patientId: appt.patient_id,
+        uid: `appointment-${appt.id}@curaknot.app`,
+        summary: minimal
+          ? "CuraKnot Appointment"
+          : `CK Appt: ${patientName} - ${appt.title}`,
+        description: minimal ? null : appt.description || null,
+        start: new Date(appt.start_at),
+        end: new Date(appt.end_at),
+        location: minimal ? null : appt.location || null,
+        categories: "APPOINTMENT",
+      });
+    }
+
+    // A contact's nextAppointment that was also imported is pushed once
+    const importedStarts = new Set(
+      appointments
+        .filter((appt) => appt.binder_item_id)
+        .map((appt) => `${appt.binder_item_id}|${Date.parse(appt.start_at)}`),
+    );
+
+    const { data, error } = await supabase
+      .from("binder_items")
+      .select("id, patient_id, title, content_json, patients(display_name)")
+      .eq("circle_id", connection.circle_id)
+      .eq("type", "CONTACT")
+      .eq("is_active", true)
+      .not("content_json->>nextAppointment", "is", null);
+    if (error) throw new DatabaseError("Failed to load appointments");
+
+    for (const appt of (data ?? []) as unknown as ContactRow[]) {
+      const start = appointmentTime(appt);
+      if (!start || start < from || start > to) continue;
+      if (importedStarts.has(`${appt.id}|${start.getTime()}`)) continue;
+
+      const content = appt.content_json ?? {};
+      const patientName = appt.patients?.display_name || "Patient";
+      const providerName = content.name || appt.title;
+      events.push({
+        sourceType: "APPOINTMENT",
+        sourceColumn: "source_binder_item_id",
+        sourceId: appt.id,
+        patientId: appt.patient_id,
+        uid: `appt-${appt.id}@curaknot.app`,
+        summary: minimal
+          ? "CuraKnot Appointment"
+          : `CK Appt: ${patientName} - ${providerName}`,
+        description: minimal
+          ? null
+          : [
+              content.organization,
+              content.address,
+              content.phone,
+              content.notes,
+            ]
+              .filter(Boolean)
+              .join("\n") || null,
+        start,
+        end: new Date(
+          start.getTime() + APPOINTMENT_DURATION_MINUTES * 60 * 1000,
+        ),
+        location: minimal ? null : content.address || null,
+        categories: "APPOINTMENT",
+      });
+    }
+  }
+
+  return events;
+}
+
+async function loadMappings(
+  supabase: SupabaseClient,
+  connectionId: string,
+): Promise<EventMapping[]> {
+  const { data, error } = await supabase
+    .from("calendar_events")
+    .select(MAPPING_COLUMNS)
+    .eq("connection_id", connectionId)
+    .in("source_type", ["TASK", "SHIFT", "APPOINTMENT"]);
+  if (error) throw new DatabaseError("Failed to load calendar events");
+  return (data ?? []) as EventMapping[];
+}
+
+// MARK: - Applying Steps
+
+function sourceColumns(column: SourceColumn, id: string) {
+  return {
+    source_task_id: column === "source_task_id" ? id : null,
+    source_shift_id: column === "source_shift_id" ? id : null,
+    source_binder_item_id: column === "source_binder_item_id" ? id : null,
+    source_appointment_id: column === "source_appointment_id" ? id : null,
+  };
+}
+
+/** The calendar_events columns recording what was last written */
+function snapshot(event: DesiredEvent) {
+  return {
+    title: event.summary,
+    description: event.description,
+    location: event.location,
+    start_at: event.start.toISOString(),
+    end_at: event.end.toISOString(),
+  };
+}
+
+async function currentEtag(
+  client: CalDAVClient,
+  href: string,
+): Promise<string | null> {
+  const [existing] = await client.fetch([href]);
+  return existing?.etag ?? null;
+}
+
+async function applySteps(
+  supabase: SupabaseClient,
+  client: CalDAVClient,
+  connection: ConnectionRow,
+  steps: SyncStep[],
+  now: Date,
+): Promise<SyncCounts> {
+  const counts: SyncCounts = {
+    created: 0,
+    updated: 0,
+    deleted: 0,
+    proposed: 0,
+    conflicts: 0,
+    failed: 0,
+  };
+  const pull = connection.sync_direction !== "WRITE_ONLY";
+  const events = () => supabase.from("calendar_events");
+
+  /** Writes the event; `ifMatch` null creates it */
+  const write = async (
+    mapping: EventMapping | null,
+    event: DesiredEvent,
+    href: string,
+    ifMatch: string | null,
+  ) => {
+    const etag = await client.put(href, buildEventIcs(event, now), ifMatch);
+    const fields = {
+      ...snapshot(event),
+      external_etag: etag,
+      sync_status: "SYNCED",
+      sync_error: null,
+      last_synced_at: now.toISOString(),
+      local_updated_at: now.toISOString(),
+    };
+    const { error } = mapping
+      ? await events().update(fields).eq("id", mapping.id)
+      : await events().upsert(
+          {
+            connection_id: connection.id,
+            circle_id: connection.circle_id,
+            patient_id: event.patientId,
+            source_type: event.sourceType,
+            ...sourceColumns(event.sourceColumn, event.sourceId),
+            external_event_id: href,
+            external_calendar_id: connection.caldav_url,
+            external_ical_uid: event.uid,
+            all_day: false,
+            ...fields,
+          },
+          { onConflict: "connection_id,external_event_id" },
+        );
+    if (error) throw new DatabaseError("Failed to save calendar event");
+  };
+
+  const forget = async (mapping: EventMapping) => {
+    const { error } = await events().delete().eq("id", mapping.id);
+    if (error) throw new DatabaseError("Failed to remove calendar event");
+  };
+
+  /** Holds a change made in the calendar for review */
+  const propose = async (
+    mapping: EventMapping,
+    event: DesiredEvent,
+    change: { start: Date; end: Date | null } | null,
+    conflict: boolean,
+    etag: string | null,
+  ) => {
+    const { error: supersedeError } = await supabase
+      .from("calendar_change_proposals")
+      .update({ status: "SUPERSEDED" })
+      .eq("calendar_event_id", mapping.id)
+      .eq("status", "PENDING");
+    if (supersedeError) {
+      throw new DatabaseError("Failed to supersede change proposals");
+    }
+
+    const { error } = await supabase.from("calendar_change_proposals").insert({
+      circle_id: connection.circle_id,
+      connection_id: connection.id,
+      calendar_event_id: mapping.id,
+      source_type: mapping.source_type,
+      ...sourceColumns(event.sourceColumn, event.sourceId),
+      proposed_by: connection.user_id,
+      kind: change ? "RESCHEDULE" : "CANCEL",
+      current_start_at: event.start.toISOString(),
+      current_end_at: event.end.toISOString(),
+      proposed_start_at: change?.start.toISOString() ?? null,
+      proposed_end_at: change?.end?.toISOString() ?? null,
+      is_conflict: conflict,
+    });
+    if (error) throw new DatabaseError("Failed to save change proposal");
+
+    const { error: updateError } = await events()
+      .update({
+        external_etag: etag,
+        sync_status: conflict ? "CONFLICT" : "PENDING_PULL",
+        external_updated_at: now.toISOString(),
+        conflict_detected_at: conflict ? now.toISOString() : null,
+        conflict_data_json: {
+          local: { start_at: event.start, end_at: event.end },
+          external: change
+            ? { start_at: change.start, end_at: change.end }
+            : null,
+        },
+      })
+      .eq("id", mapping.id);
+    if (updateError) throw new DatabaseError("Failed to save calendar event");
+
+    counts.proposed++;
+    if (conflict) counts.conflicts++;
+  };
+
+  // Events whose ETag changed are fetched together
+  const changedHrefs = steps.flatMap((step) =>
+    step.kind === "CHECK_REMOTE" ? [step.mapping.external_event_id] : [],
+  );
+  const fetched = new Map(
+    changedHrefs.length > 0
+      ? (await client.fetch(changedHrefs)).map((e) => [e.href, e])
+      : [],
+  );
+
+  for (const step of steps) {
+    try {
+      switch (step.kind) {
+        case "CREATE": {
+          const href = client.hrefFor(
+            `${step.event.uid.replace(/@.*$/, "")}.ics`,
+          );
+          try {
+            await write(null, step.event, href, null);
+          } catch (error) {
+            // Left on the server by an earlier run whose mapping was lost
+            if (
+              !(error instanceof CalDAVError) ||
+              error.code !== "PRECONDITION_FAILED"
+            ) {
+              throw error;
+            }
+            await write(
+              null,
+              step.event,
+              href,
+              await currentEtag(client, href),
+            );
+          }
+          counts.created++;
+          break;
+        }
+
+        case "UPDATE": {
+          const href = step.mapping.external_event_id;
+          // Push-only connections overwrite whatever the calendar holds
+          const ifMatch = pull ? step.etag : await currentEtag(client, href);
+          await write(step.mapping, step.event, href, ifMatch);
+          counts.updated++;
+          break;
+        }
+
+        case "DELETE":
+          await client.delete(
+            step.mapping.external_event_id,
+            pull ? step.etag : null,
+          );
+          await forget(step.mapping);
+          counts.deleted++;
+          break;
+
+        case "FORGET":
+          await forget(step.mapping);
+          break;
+
+        case "REMOTE_DELETED":
+          if (!step.event) {
+            await forget(step.mapping);
+          } else if (
+            connection.conflict_strategy === "CURAKNOT_WINS" &&
+            hasLocalChange(step.mapping, step.event)
+          ) {
+            await write(
+              step.mapping,
+              step.event,
+              step.mapping.external_event_id,
+              null,
+            );
+            counts.created++;
+          } else {
+            await propose(
+              step.mapping,
+              step.event,
+              null,
+              hasLocalChange(step.mapping, step.event),
+              null,
+            );
+          }
+          break;
+
+        case "CHECK_REMOTE": {
+          const href = step.mapping.external_event_id;
+          const remote = fetched.get(href);
+          if (!remote) break; // Deleted since the listing; seen next run
+
+          if (!step.event) {
+            await client.delete(href, remote.etag);
+            await forget(step.mapping);
+            counts.deleted++;
+            break;
+          }
+
+          const [parsed] = parseEvents(remote.ics);
+          const decision = resolveRemoteChange(
+            step.mapping,
+            step.event,
+            parsed ?? null,
+            connection.conflict_strategy,
+          );
+
+          if (decision.kind === "PROPOSE") {
+            await propose(
+              step.mapping,
+              step.event,
+              { start: decision.start, end: decision.end },
+              decision.conflict,
+              remote.etag,
+            );
+          } else if (decision.kind === "CANCEL") {
+            await propose(
+              step.mapping,
+              step.event,
+              null,
+              decision.conflict,
+              remote.etag,
+            );
+          } else if (
+            decision.kind === "OVERWRITE" ||
+            hasLocalChange(step.mapping, step.event)
+          ) {
+            await write(step.mapping, step.event, href, remote.etag);
+            counts.updated++;
+          } else {
+            await events()
+              .update({
+                external_etag: remote.etag,
+                external_updated_at: now.toISOString(),
+                last_synced_at: now.toISOString(),
+              })
+              .eq("id", step.mapping.id);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      // Changed on the server since it was listed; looked at again next run
+      if (
+        error instanceof CalDAVError &&
+        error.code === "PRECONDITION_FAILED"
+      ) {
+        continue;
+      }
+      if (error instanceof CalDAVError && error.code === "AUTH_FAILED") {
+        throw error;
+      }
+
+      const code =
+        error instanceof CalDAVError
+          ? error.code
+          : error instanceof Error
+            ? error.name
+            : "Unknown error";
+      console.error(`CalDAV ${step.kind} failed:`, code);
+      counts.failed++;
+      if (step.kind !== "CREATE") {
+        await events()
+          .update({ sync_status: "ERROR", sync_error: code })
+          .eq("id", step.mapping.id);
+      }
+    }
+  }
+
+  return counts;
+}
@@ -0,0 +1,231 @@
+/**
+ * CalDAV sync planning
+ *
+ * Compares what CuraKnot wants in a member's calendar (their open tasks and
+ * shifts, and the circle's appointments) with the calendar_events mapping
+ * and the server's ETags, and decides what to push and what to pull.
+ * Pulled time changes and deletions never touch the source record; they
+ * become proposals a member reviews.
+ *
+ * ETags decide what changed: a mapping's stored ETag is the version
+ * CuraKnot last wrote or read, so a different ETag on the server means the
+ * member edited the event, and every write is conditional on the ETag the
+ * server last reported.
+ */
+
+import type {
+  CalendarEventData,
+  ParsedEvent,
+} from "../_shared/calendar/index.ts";
+
+export type SourceType = "TASK" | "SHIFT" | "APPOINTMENT";
+
+/** The calendar_events column naming an event's source record */
+export type SourceColumn =
+  | "source_task_id"
+  | "source_shift_id"
+  | "source_binder_item_id"
+  | "source_appointment_id";
+
+export type SyncDirection = "READ_ONLY" | "WRITE_ONLY" | "BIDIRECTIONAL";
+
+export type ConflictStrategy =
+  "CURAKNOT_WINS" | "EXTERNAL_WINS" | "MANUAL" | "MERGE";
+
+/** An event CuraKnot wants in the calendar, from its source record */
+export interface DesiredEvent extends CalendarEventData {
+  sourceType: SourceType;
+  sourceColumn: SourceColumn;
+  sourceId: string;
+  patientId: string | null;
+}
+
+/** A calendar_events row: the version of the event last synced */
+export interface EventMapping {
+  id: string;
+  source_type: SourceType;
+  source_task_id: string | null;
+  source_shift_id: string | null;
+  source_binder_item_id: string | null;
+  source_appointment_id: string | null;
+  external_event_id: string;
+  external_etag: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  start_at: string;
+  end_at: string | null;
+  sync_status: string;
+}
+
+export type SyncStep =
+  | { kind: "CREATE"; event: DesiredEvent }
+  | {
+      kind: "UPDATE";
+      mapping: EventMapping;
+      event: DesiredEvent;
+      etag: string | null;
+    }
+  | { kind: "DELETE"; mapping: EventMapping; etag: string | null }
+  /** The source is gone and the calendar is not written to */
+  | { kind: "FORGET"; mapping: EventMapping }
+  /** The server's ETag changed; fetch the event before deciding */
+  | {
+      kind: "CHECK_REMOTE";
+      mapping: EventMapping;
+      event: DesiredEvent | null;
+      etag: string;
+    }
+  | {
+      kind: "REMOTE_DELETED";
+      mapping: EventMapping;
+      event: DesiredEvent | null;
+    };
+
+export type RemoteDecision =
+  /** Nothing CuraKnot tracks changed; take the new ETag */
+  | { kind: "ADOPT" }
+  /** Both sides changed and CuraKnot's version wins */
+  | { kind: "OVERWRITE" }
+  /** The member cancelled the event without deleting it */
+  | { kind: "CANCEL"; conflict: boolean }
+  | {
+      kind: "PROPOSE";
+      start: Date;
+      end: Date | null;
+      conflict: boolean;
+    };
+
+/** Mappings waiting on a proposal's review are left alone */
+const AWAITING_REVIEW = ["PENDING_PULL", "CONFLICT"];
+
+export function sourceIdOf(mapping: EventMapping): string | null {
+  switch (mapping.source_type) {
+    case "TASK":
+      return mapping.source_task_id;
+    case "SHIFT":
+      return mapping.source_shift_id;
+    case "APPOINTMENT":
+      return mapping.source_appointment_id ?? mapping.source_binder_item_id;
+  }
+}
+
+export function sourceKey(type: SourceType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function sameInstant(a: Date | null, b: string | null): boolean {
+  if (!a || !b) return !a && !b;
+  return a.getTime() === Date.parse(b);
+}
+
+/** Whether the source changed since the event was last synced */
+export function hasLocalChange(
+  mapping: EventMapping,
+  event: DesiredEvent,
+): boolean {
+  return (
+    mapping.title !== event.summary ||
+    (mapping.description ?? null) !== (event.description ?? null) ||
+    (mapping.location ?? null) !== (event.location ?? null) ||
+    !sameInstant(event.start, mapping.start_at) ||
+    !sameInstant(event.end, mapping.end_at)
+  );
+}
+
+/**
+ * Steps for one sync. `remote` is the server's href to ETag listing, or
+ * null when the connection does not pull.
+ */
+export function planSync(
+  desired: DesiredEvent[],
+  mappings: EventMapping[],
+  remote: Map<string, string> | null,
+  direction: SyncDirection,
+): SyncStep[] {
+  const push = direction !== "READ_ONLY";
+  const pull = direction !== "WRITE_ONLY" && remote !== null;
+  const wanted = new Map(
+    desired.map((e) => [sourceKey(e.sourceType, e.sourceId), e]),
+  );
+  const mapped = new Set<string>();
+  const steps: SyncStep[] = [];
+
+  for (const mapping of mappings) {
+    const sourceId = sourceIdOf(mapping);
+    const key = sourceId ? sourceKey(mapping.source_type, sourceId) : null;
+    const event = key ? (wanted.get(key) ?? null) : null;
+    if (key) mapped.add(key);
+
+    if (AWAITING_REVIEW.includes(mapping.sync_status)) continue;
+
+    let etag = mapping.external_etag;
+    if (pull) {
+      const remoteEtag = remote!.get(mapping.external_event_id);
+      if (remoteEtag === undefined) {
+        steps.push({ kind: "REMOTE_DELETED", mapping, event });
+        continue;
+      }
+      if (remoteEtag !== mapping.external_etag) {
+        steps.push({ kind: "CHECK_REMOTE", mapping, event, etag: remoteEtag });
+        continue;
+      }
+      etag = remoteEtag;
+    }
+
+    if (!event) {
+      steps.push(
+        push ? { kind: "DELETE", mapping, etag } : { kind: "FORGET", mapping },
+      );
+    } else if (
+      push &&
+      (mapping.sync_status !== "SYNCED" || hasLocalChange(mapping, event))
+    ) {
+      steps.push({ kind: "UPDATE", mapping, event, etag });
+    }
+  }
+
+  if (push) {
+    for (const [key, event] of wanted) {
+      if (!mapped.has(key)) steps.push({ kind: "CREATE", event });
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * What to do with an event the member edited. Only time changes and
+ * cancellation are pulled back; edits to the title or notes are
+ * overwritten by the next push.
+ */
+export function resolveRemoteChange(
+  mapping: EventMapping,
+  event: DesiredEvent,
+  remote: ParsedEvent | null,
+  strategy: ConflictStrategy,
+): RemoteDecision {
+  if (!remote?.start) return { kind: "OVERWRITE" };
+
+  const localChanged = hasLocalChange(mapping, event);
+  if (remote.status === "CANCELLED") {
+    return localChanged && strategy === "CURAKNOT_WINS"
+      ? { kind: "OVERWRITE" }
+      : { kind: "CANCEL", conflict: localChanged };
+  }
+
+  const timesChanged =
+    !sameInstant(remote.start, mapping.start_at) ||
+    (!!remote.end && !sameInstant(remote.end, mapping.end_at));
+  if (!timesChanged) return { kind: "ADOPT" };
+
+  if (localChanged && strategy === "CURAKNOT_WINS") {
+    return { kind: "OVERWRITE" };
+  }
+  return {
+    kind: "PROPOSE",
+    start: remote.start,
+    end: remote.end,
+    conflict: localChanged,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Sync planning against the in-memory CalDAV server, with the member
+ * editing and deleting events the way their calendar app would
+ *
+ * Run with `deno test supabase/functions/sync-caldav-calendars/`.
+ */
+
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { buildEventIcs, parseEvents } from "../_shared/calendar/ics.ts";
+import {
+  createMemoryCalDAVClient,
+  memoryCalendar,
+} from "../_shared/calendar/memory.ts";
+import { CalDAVError, type CalDAVClient } from "../_shared/calendar/types.ts";
+import {
+  type DesiredEvent,
+  type EventMapping,
+  planSync,
+  resolveRemoteChange,
+} from "./sync.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+const START = new Date("2026-10-20T15:00:00Z");
+const END = new Date("2026-10-20T15:30:00Z");
+const MOVED_START = new Date("2026-10-21T09:00:00Z");
+const MOVED_END = new Date("2026-10-21T09:30:00Z");
+
+const EVENT: DesiredEvent = {
+  uid: "task-1@curaknot.app",
+  summary: "Pick up prescriptions",
+  description: null,
+  start: START,
+  end: END,
+  location: null,
+  categories: "CuraKnot,Task",
+  sourceType: "TASK",
+  sourceColumn: "source_task_id",
+  sourceId: "task-1",
+  patientId: "patient-1",
+};
+
+let calendarCount = 0;
+
+/** A client for a new, empty calendar */
+function newCalendar(): { url: string; client: CalDAVClient } {
+  calendarCount += 1;
+  const url = `https://dav.example.com/alex/sync-test-${calendarCount}/`;
+  const client = createMemoryCalDAVClient({
+    url,
+    username: "alex",
+    password: "secret",
+  });
+  return { url, client };
+}
+
+/** Pushes EVENT and returns the mapping a sync would store for it */
+async function pushed(client: CalDAVClient): Promise<EventMapping> {
+  const href = client.hrefFor("task-1.ics");
+  const etag = await client.put(href, buildEventIcs(EVENT, NOW), null);
+  return {
+    id: "mapping-1",
+    source_type: "TASK",
+    source_task_id: "task-1",
+    source_shift_id: null,
+    source_binder_item_id: null,
+    source_appointment_id: null,
+    external_event_id: href,
+    external_etag: etag,
+    title: EVENT.summary,
+    description: null,
+    location: null,
+    start_at: START.toISOString(),
+    end_at: END.toISOString(),
+    sync_status: "SYNCED",
+  };
+}
+
+async function listing(client: CalDAVClient): Promise<Map<string, string>> {
+  return new Map((await client.list()).map((o) => [o.href, o.etag]));
+}
+
+/** The event as the member left it, moved to MOVED_START */
+function movedIcs(extra: string[] = []): string {
+  return buildEventIcs(
+    { ...EVENT, start: MOVED_START, end: MOVED_END },
+    NOW,
+  ).replace("END:VEVENT", [...extra, "END:VEVENT"].join("\r\n"));
+}
+
+Deno.test("planSync leaves an unchanged event alone", async () => {
+  const { client } = newCalendar();
+  const mapping = await pushed(client);
+
+  const steps = planSync(
+    [EVENT],
+    [mapping],
+    await listing(client),
+    "BIDIRECTIONAL",
+  );
+  assertEquals(steps, []);
+});
+
+Deno.test("planSync checks an event whose ETag changed", async () => {
+  const { url, client } = newCalendar();
+  const mapping = await pushed(client);
+  const etag = memoryCalendar(url).edit(mapping.external_event_id, movedIcs());
+
+  const steps = planSync(
+    [EVENT],
+    [mapping],
+    await listing(client),
+    "BIDIRECTIONAL",
+  );
+  assertEquals(steps, [{ kind: "CHECK_REMOTE", mapping, event: EVENT, etag }]);
+});
+
+Deno.test("planSync reports an event deleted in the calendar", async () => {
+  const { url, client } = newCalendar();
+  const mapping = await pushed(client);
+  memoryCalendar(url).remove(mapping.external_event_id);
+
+  const steps = planSync(
+    [EVENT],
+    [mapping],
+    await listing(client),
+    "BIDIRECTIONAL",
+  );
+  assertEquals(steps, [{ kind: "REMOTE_DELETED", mapping, event: EVENT }]);
+
+  // Write-only connections do not list the calendar and push again
+  const renamed = { ...EVENT, summary: "Pick up refills" };
+  assertEquals(planSync([renamed], [mapping], null, "WRITE_ONLY"), [
+    { kind: "UPDATE", mapping, event: renamed, etag: mapping.external_etag },
+  ]);
+});
+
+Deno.test(
+  "an update the member raced fails its precondition and is checked next run",
+  async () => {
+    const { url, client } = newCalendar();
+    const mapping = await pushed(client);
+    const renamed = { ...EVENT, summary: "Pick up refills" };
+
+    const [step] = planSync(
+      [renamed],
+      [mapping],
+      await listing(client),
+      "BIDIRECTIONAL",
+    );
+    assertEquals(step, {
+      kind: "UPDATE",
+      mapping,
+      event: renamed,
+      etag: mapping.external_etag,
+    });
+
+    // The member moves the event before the update is written
+    const etag = memoryCalendar(url).edit(
+      mapping.external_event_id,
+      movedIcs(),
+    );
+    const error = await assertRejects(
+      () =>
+        client.put(
+          mapping.external_event_id,
+          buildEventIcs(renamed, NOW),
+          mapping.external_etag,
+        ),
+      CalDAVError,
+    );
+    assertEquals(error.code, "PRECONDITION_FAILED");
+
+    const [retry] = planSync(
+      [renamed],
+      [mapping],
+      await listing(client),
+      "BIDIRECTIONAL",
+    );
+    assertEquals(retry, {
+      kind: "CHECK_REMOTE",
+      mapping,
+      event: renamed,
+      etag,
+    });
+  },
+);
+
+Deno.test("resolveRemoteChange adopts edits that keep the time", async () => {
+  const { client } = newCalendar();
+  const mapping = await pushed(client);
+  const [remote] = parseEvents(
+    buildEventIcs({ ...EVENT, summary: "Prescriptions" }, NOW),
+  );
+
+  assertEquals(resolveRemoteChange(mapping, EVENT, remote, "MANUAL"), {
+    kind: "ADOPT",
+  });
+});
+
+Deno.test("resolveRemoteChange proposes a reschedule", async () => {
+  const { client } = newCalendar();
+  const mapping = await pushed(client);
+  const [remote] = parseEvents(movedIcs());
+  const proposal = {
+    kind: "PROPOSE",
+    start: MOVED_START,
+    end: MOVED_END,
+    conflict: false,
+  };
+
+  // Without a change in CuraKnot there is nothing to conflict with
+  assertEquals(
+    resolveRemoteChange(mapping, EVENT, remote, "CURAKNOT_WINS"),
+    proposal,
+  );
+  assertEquals(resolveRemoteChange(mapping, EVENT, remote, "MANUAL"), proposal);
+});
+
+Deno.test(
+  "resolveRemoteChange: CURAKNOT_WINS overwrites a conflicting reschedule, MANUAL proposes it",
+  async () => {
+    const { client } = newCalendar();
+    const mapping = await pushed(client);
+    const renamed = { ...EVENT, summary: "Pick up refills" };
+    const [remote] = parseEvents(movedIcs());
+
+    assertEquals(
+      resolveRemoteChange(mapping, renamed, remote, "CURAKNOT_WINS"),
+      { kind: "OVERWRITE" },
+    );
+    assertEquals(resolveRemoteChange(mapping, renamed, remote, "MANUAL"), {
+      kind: "PROPOSE",
+      start: MOVED_START,
+      end: MOVED_END,
+      conflict: true,
+    });
+  },
+);
+
+Deno.test(
+  "resolveRemoteChange: CURAKNOT_WINS overwrites a conflicting cancellation, MANUAL proposes it",
+  async () => {
+    const { client } = newCalendar();
+    const mapping = await pushed(client);
+    const renamed = { ...EVENT, summary: "Pick up refills" };
+    const [remote] = parseEvents(movedIcs(["STATUS:CANCELLED"]));
+
+    assertEquals(
+      resolveRemoteChange(mapping, renamed, remote, "CURAKNOT_WINS"),
+      { kind: "OVERWRITE" },
+    );
+    assertEquals(resolveRemoteChange(mapping, renamed, remote, "MANUAL"), {
+      kind: "CANCEL",
+      conflict: true,
+    });
+    assertEquals(resolveRemoteChange(mapping, EVENT, remote, "CURAKNOT_WINS"), {
+      kind: "CANCEL",
+      conflict: false,
+    });
+  },
+);
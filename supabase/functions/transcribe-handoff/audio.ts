@@ -0,0 +1,262 @@
+/**
+ * Audio format detection and segmentation
+ *
+ * Transcription APIs cap request size (25MB for Whisper), so longer
+ * recordings are cut into segments that each decode on their own:
+ * - MP3 and ADTS AAC are streams of self-contained frames, so a cut at a
+ *   frame sync word yields two valid files.
+ * - WAV is split on sample boundaries, and each segment gets its own header.
+ * - M4A and OGG keep decoder state in headers, so they can't be cut
+ *   server-side; clients send those as separately-recorded segments.
+ */
+
+export type AudioFormat = "m4a" | "mp3" | "aac" | "wav" | "ogg";
+
+export const AUDIO_CONTENT_TYPES: Record<AudioFormat, string> = {
+  m4a: "audio/mp4",
+  mp3: "audio/mpeg",
+  aac: "audio/aac",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+};
+
+/** Bytes needed to identify a format */
+export const AUDIO_HEADER_BYTES = 12;
+
+/**
+ * SECURITY: Identify audio by magic bytes, never by the client's MIME type.
+ * Prevents uploading non-audio files that could exploit downstream processors.
+ */
+export function detectAudioFormat(header: Uint8Array): AudioFormat | null {
+  if (
+    header.length >= 8 &&
+    header[4] === 0x66 &&
+    header[5] === 0x74 &&
+    header[6] === 0x79 &&
+    header[7] === 0x70
+  ) {
+    return "m4a"; // "ftyp" at offset 4
+  }
+  if (
+    header.length >= 3 &&
+    header[0] === 0x49 &&
+    header[1] === 0x44 &&
+    header[2] === 0x33
+  ) {
+    return "mp3"; // "ID3"
+  }
+  if (
+    header.length >= 2 &&
+    header[0] === 0xff &&
+    (header[1] === 0xf1 || header[1] === 0xf9)
+  ) {
+    return "aac"; // ADTS
+  }
+  if (header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0) {
+    return "mp3"; // MPEG sync word
+  }
+  if (
+    header.length >= 4 &&
+    header[0] === 0x52 &&
+    header[1] === 0x49 &&
+    header[2] === 0x46 &&
+    header[3] === 0x46
+  ) {
+    return "wav"; // "RIFF"
+  }
+  if (
+    header.length >= 4 &&
+    header[0] === 0x4f &&
+    header[1] === 0x67 &&
+    header[2] === 0x67 &&
+    header[3] === 0x53
+  ) {
+    return "ogg"; // "OggS"
+  }
+  return null;
+}
+
+// ============================================================================
+// Segmenter
+// ============================================================================
+
+/**
+ * Incremental splitter: feed bytes in upload order, receive complete
+ * segments no larger than the transcription limit. Keeps at most one
+ * segment plus one chunk in memory.
+ */
+export interface AudioSegmenter {
+  push(bytes: Uint8Array): Uint8Array[];
+  flush(): Uint8Array[];
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a, 0);
+  out.set(b, a.length);
+  return out;
+}
+
+function isFrameSync(bytes: Uint8Array, i: number, format: AudioFormat) {
+  if (i + 1 >= bytes.length || bytes[i] !== 0xff) return false;
+  return format === "aac"
+    ? (bytes[i + 1] & 0xf6) === 0xf0 // ADTS: 12-bit sync, layer 00
+    : (bytes[i + 1] & 0xe0) === 0xe0 && (bytes[i + 1] & 0x06) !== 0; // MPEG, layer != reserved
+}
+
+/** Cut frame-based streams at the first sync word after the target size */
+function createFrameSegmenter(
+  format: AudioFormat,
+  targetBytes: number,
+  maxBytes: number,
+): AudioSegmenter {
+  let buffer: Uint8Array = new Uint8Array(0);
+
+  function drain(): Uint8Array[] {
+    const segments: Uint8Array[] = [];
+    while (buffer.length >= targetBytes) {
+      let cut = -1;
+      const searchEnd = Math.min(buffer.length, maxBytes);
+      for (let i = targetBytes; i < searchEnd; i++) {
+        if (isFrameSync(buffer, i, format)) {
+          cut = i;
+          break;
+        }
+      }
+
+      if (cut < 0) {
+        if (buffer.length < maxBytes) break; // wait for more data
+        cut = targetBytes; // no sync found within the limit: hard cut
+      }
+
+      segments.push(buffer.slice(0, cut));
+      buffer = buffer.slice(cut);
+    }
+    return segments;
+  }
+
+  return {
+    push(bytes) {
+      buffer = concat(buffer, bytes);
+      return drain();
+    },
+    flush() {
+      const segments = drain();
+      if (buffer.length > 0) segments.push(buffer);
+      buffer = new Uint8Array(0);
+      return segments;
+    },
+  };
+}
+
+interface WavLayout {
+  /** fmt chunk and everything before the data payload, to copy per segment */
+  fmt: Uint8Array;
+  blockAlign: number;
+  dataOffset: number;
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.slice(offset, offset + 4));
+}
+
+function parseWavLayout(bytes: Uint8Array): WavLayout | null {
+  if (bytes.length < 12 || readTag(bytes, 8) !== "WAVE") return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let offset = 12;
+  let fmt: Uint8Array | null = null;
+  let blockAlign = 0;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    if (tag !== "data" && offset + 8 + size > bytes.length) {
+      return null; // header chunk not fully received yet
+    }
+    if (tag === "fmt ") {
+      fmt = bytes.slice(offset, offset + 8 + size);
+      blockAlign = view.getUint16(offset + 20, true);
+    } else if (tag === "data") {
+      return fmt && blockAlign > 0
+        ? { fmt, blockAlign, dataOffset: offset + 8 }
+        : null;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function wavHeader(layout: WavLayout, dataBytes: number): Uint8Array {
+  const header = new Uint8Array(12 + layout.fmt.length + 8);
+  const view = new DataView(header.buffer);
+  header.set([0x52, 0x49, 0x46, 0x46], 0); // RIFF
+  view.setUint32(4, header.length - 8 + dataBytes, true);
+  header.set([0x57, 0x41, 0x56, 0x45], 8); // WAVE
+  header.set(layout.fmt, 12);
+  const dataTag = 12 + layout.fmt.length;
+  header.set([0x64, 0x61, 0x74, 0x61], dataTag); // data
+  view.setUint32(dataTag + 4, dataBytes, true);
+  return header;
+}
+
+/** Re-wrap PCM slices with a fresh header so each segment is a valid file */
+function createWavSegmenter(targetBytes: number): AudioSegmenter {
+  let layout: WavLayout | null = null;
+  let pending: Uint8Array = new Uint8Array(0);
+  let sliceBytes = 0;
+
+  function emit(final: boolean): Uint8Array[] {
+    if (!layout) {
+      layout = parseWavLayout(pending);
+      if (!layout) return [];
+      pending = pending.slice(layout.dataOffset);
+      const headerBytes = wavHeader(layout, 0).length;
+      sliceBytes =
+        Math.floor((targetBytes - headerBytes) / layout.blockAlign) *
+        layout.blockAlign;
+    }
+
+    const segments: Uint8Array[] = [];
+    while (pending.length >= sliceBytes || (final && pending.length > 0)) {
+      const size = Math.min(pending.length, sliceBytes);
+      segments.push(concat(wavHeader(layout, size), pending.slice(0, size)));
+      pending = pending.slice(size);
+    }
+    return segments;
+  }
+
+  return {
+    push(bytes) {
+      pending = concat(pending, bytes);
+      return emit(false);
+    },
+    flush() {
+      const segments = emit(true);
+      if (!layout && pending.length > 0) {
+        throw new Error("Unreadable WAV header");
+      }
+      return segments;
+    },
+  };
+}
+
+/**
+ * Segmenter for formats that can be split server-side, or null when the
+ * recording must arrive pre-segmented (M4A, OGG).
+ */
+export function createAudioSegmenter(
+  format: AudioFormat,
+  targetBytes: number,
+  maxBytes: number,
+): AudioSegmenter | null {
+  switch (format) {
+    case "mp3":
+    case "aac":
+      return createFrameSegmenter(format, targetBytes, maxBytes);
+    case "wav":
+      return createWavSegmenter(targetBytes);
+    default:
+      return null;
+  }
+}
@@ -1,10 +1,31 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import {
+  createDiarizer,
+  type SpeakerTranscript,
+} from "../_shared/diarization/index.ts";
+import { createLLMClient, LLMError } from "../_shared/llm/index.ts";
+import {
+  AUDIO_CONTENT_TYPES,
+  AUDIO_HEADER_BYTES,
+  createAudioSegmenter,
+  detectAudioFormat,
+} from "./audio.ts";
+import {
+  createSegmentTranscriber,
+  isPlaceholderTranscript,
+  placeholderForError,
+  SEGMENT_TARGET_BYTES,
+  TRANSCRIPT_PLACEHOLDERS,
+  TRANSCRIPTION_MAX_BYTES,
+} from "./transcription.ts";
+import { handleUploadRequest } from "./upload.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+    "authorization, x-client-info, apikey, content-type, x-chunk-sha256, x-segment-start",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
 };
 
 interface TranscribeResponse {
@@ -14,6 +35,10 @@ interface TranscribeResponse {
   transcript?: string;
   duration_ms?: number;
   language?: string;
+  /** Timed segments with speaker labels, when the provider returns timestamps */
+  transcript_segments?: SpeakerTranscript;
+  /** Audio segments transcribed (recordings over the provider limit are split) */
+  audio_segments?: number;
   error?: {
     code: string;
     message: string;
@@ -52,6 +77,36 @@ serve(async (req) => {
     });
     const supabaseService = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Chunked upload routes: /transcribe-handoff/uploads[/...]
+    const pathParts = new URL(req.url).pathname.split("/").filter(Boolean);
+    const route = pathParts.slice(pathParts.indexOf("transcribe-handoff") + 1);
+    if (route[0] === "uploads") {
+      const {
+        data: { user: uploadUser },
+        error: uploadUserError,
+      } = await supabaseUser.auth.getUser();
+
+      if (uploadUserError || !uploadUser) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: { code: "AUTH_INVALID_TOKEN", message: "Invalid token" },
+          }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          },
+        );
+      }
+
+      return await handleUploadRequest(
+        req,
+        route,
+        supabaseService,
+        uploadUser.id,
+      );
+    }
+
     // GET request - poll job status
     if (req.method === "GET") {
       const url = new URL(req.url);
@@ -92,7 +147,9 @@ serve(async (req) => {
       // Look up handoff by ID (job_id = handoff_id in this implementation)
       const { data: handoff, error } = await supabaseService
         .from("handoffs")
-        .select("id, raw_transcript, status, audio_storage_key, circle_id")
+        .select(
+          "id, raw_transcript, transcript_segments_json, status, audio_storage_key, circle_id",
+        )
         .eq("id", jobId)
         .single();
 
@@ -142,6 +199,7 @@ serve(async (req) => {
             job_id: jobId,
             status: "COMPLETED",
             transcript: handoff.raw_transcript,
+            transcript_segments: handoff.transcript_segments_json ?? undefined,
           }),
           {
             status: 200,
@@ -221,40 +279,12 @@ serve(async (req) => {
     }
 
     // SECURITY: Validate audio file magic bytes before upload
-    // Prevents uploading non-audio files that could exploit downstream processors
     const audioBuffer = await audioFile.arrayBuffer();
-    const header = new Uint8Array(audioBuffer.slice(0, 12));
-    const isM4A =
-      header.length >= 8 &&
-      header[4] === 0x66 &&
-      header[5] === 0x74 &&
-      header[6] === 0x79 &&
-      header[7] === 0x70; // "ftyp" at offset 4
-    const isMP3ID3 =
-      header.length >= 3 &&
-      header[0] === 0x49 &&
-      header[1] === 0x44 &&
-      header[2] === 0x33; // "ID3"
-    const isMP3Sync =
-      header.length >= 2 && header[0] === 0xff && (header[1] & 0xe0) === 0xe0; // MPEG sync word
-    const isAAC =
-      header.length >= 2 &&
-      header[0] === 0xff &&
-      (header[1] === 0xf1 || header[1] === 0xf9); // ADTS
-    const isWAV =
-      header.length >= 4 &&
-      header[0] === 0x52 &&
-      header[1] === 0x49 &&
-      header[2] === 0x46 &&
-      header[3] === 0x46; // "RIFF"
-    const isOGG =
-      header.length >= 4 &&
-      header[0] === 0x4f &&
-      header[1] === 0x67 &&
-      header[2] === 0x67 &&
-      header[3] === 0x53; // "OggS"
-
-    if (!isM4A && !isMP3ID3 && !isMP3Sync && !isAAC && !isWAV && !isOGG) {
+    const format = detectAudioFormat(
+      new Uint8Array(audioBuffer.slice(0, AUDIO_HEADER_BYTES)),
+    );
+
+    if (!format) {
       return new Response(
         JSON.stringify({
           success: false,
@@ -317,12 +347,12 @@ serve(async (req) => {
     }
 
     // Upload audio to storage (audioBuffer already read during magic bytes validation)
-    const storageKey = `${handoff.circle_id}/${handoffId}/${Date.now()}.m4a`;
+    const storageKey = `${handoff.circle_id}/${handoffId}/${Date.now()}.${format}`;
 
     const { error: uploadError } = await supabaseService.storage
       .from("handoff-audio")
       .upload(storageKey, audioBuffer, {
-        contentType: audioFile.type || "audio/mp4",
+        contentType: AUDIO_CONTENT_TYPES[format],
         upsert: true,
       });
 
@@ -349,66 +379,82 @@ serve(async (req) => {
       .update({ audio_storage_key: storageKey })
       .eq("id", handoffId);
 
-    // Transcribe audio using OpenAI gpt-4o-mini-transcribe
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
+    // Transcribe audio via the shared LLM provider (OpenAI by default).
+    // Files over the provider limit are split into segments when the format
+    // allows it; M4A/OGG over the limit should use the chunked upload API.
+    const llm = createLLMClient({
+      feature: "transcribe-handoff",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId: handoff.circle_id,
+    });
     let transcript = "";
+    let speakerTranscript: SpeakerTranscript | null = null;
+    let segments = 0;
 
-    if (openaiApiKey) {
+    if (llm.isConfigured()) {
+      const transcriber = createSegmentTranscriber(llm, createDiarizer());
       try {
-        // Create form data for OpenAI Whisper API
-        const formDataForOpenAI = new FormData();
-        formDataForOpenAI.append(
-          "file",
-          new Blob([audioBuffer], { type: audioFile.type || "audio/mp4" }),
-          "audio.m4a",
-        );
-        formDataForOpenAI.append("model", "gpt-4o-mini-transcribe");
-        formDataForOpenAI.append("response_format", "text");
-
-        const openaiResponse = await fetch(
-          "https://api.openai.com/v1/audio/transcriptions",
-          {
-            method: "POST",
-            headers: {
-              Authorization: `Bearer ${openaiApiKey}`,
-            },
-            body: formDataForOpenAI,
-          },
-        );
-
-        if (!openaiResponse.ok) {
-          const errorText = await openaiResponse.text();
-          console.error("OpenAI transcription error:", errorText);
-          throw new Error(`OpenAI API error: ${openaiResponse.status}`);
+        const audioBytes = new Uint8Array(audioBuffer);
+        const segmenter =
+          audioBytes.length > TRANSCRIPTION_MAX_BYTES
+            ? createAudioSegmenter(
+                format,
+                SEGMENT_TARGET_BYTES,
+                TRANSCRIPTION_MAX_BYTES,
+              )
+            : null;
+
+        if (segmenter) {
+          for (const segment of [
+            ...segmenter.push(audioBytes),
+            ...segmenter.flush(),
+          ]) {
+            await transcriber.add(segment, format);
+          }
+        } else {
+          await transcriber.add(audioBytes, format);
         }
-
-        transcript = await openaiResponse.text();
+        transcript = transcriber.text();
+        speakerTranscript = transcriber.speakerTranscript();
       } catch (transcriptionError) {
-        console.error("Transcription failed:", transcriptionError);
+        console.error(
+          "Transcription failed:",
+          transcriptionError instanceof LLMError
+            ? transcriptionError.code
+            : "Unknown error",
+        );
         // Store placeholder if transcription fails
-        transcript = "[Transcription failed - please retry]";
+        transcript = placeholderForError(transcriptionError);
       }
+      segments = transcriber.segmentCount;
     } else {
-      // No API key configured - store placeholder
-      console.warn("OPENAI_API_KEY not configured");
-      transcript = "[Transcription pending - API key not configured]";
+      // No provider configured - store placeholder
+      console.warn(`LLM provider '${llm.provider}' not configured`);
+      transcript = TRANSCRIPT_PLACEHOLDERS.notConfigured;
     }
 
     // Update handoff with transcript
     await supabaseService
       .from("handoffs")
-      .update({ raw_transcript: transcript })
+      .update({
+        raw_transcript: transcript,
+        transcript_segments_json: speakerTranscript,
+      })
       .eq("id", handoffId);
 
+    const pending = isPlaceholderTranscript(transcript);
     const response: TranscribeResponse = {
       success: true,
       job_id: handoffId,
-      status: transcript.startsWith("[") ? "PENDING" : "COMPLETED",
-      transcript: transcript.startsWith("[") ? undefined : transcript,
+      status: pending ? "PENDING" : "COMPLETED",
+      transcript: pending ? undefined : transcript,
+      transcript_segments: speakerTranscript ?? undefined,
+      audio_segments: segments,
     };
 
     return new Response(JSON.stringify(response), {
-      status: transcript.startsWith("[") ? 202 : 200,
+      status: pending ? 202 : 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error) {
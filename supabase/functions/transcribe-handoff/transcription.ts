@@ -0,0 +1,182 @@
+/**
+ * Segment-level transcription and stitching
+ *
+ * Each segment is transcribed separately with the tail of the previous
+ * transcript as the prompt, so the model keeps speaker names and medical
+ * terms consistent across cuts. Words repeated at a boundary (when a cut
+ * lands mid-word or the model re-hears the overlap) are dropped on stitching.
+ *
+ * Segments are transcribed with timestamps and, when a diarization backend
+ * is configured, labelled by speaker. Speaker labels from different audio
+ * segments are kept apart, since backends only keep labels stable within
+ * one request.
+ */
+
+import {
+  buildSpeakerTranscript,
+  DiarizationError,
+  assignSpeakers,
+  type Diarizer,
+  type SpeakerTranscript,
+} from "../_shared/diarization/index.ts";
+import {
+  LLMError,
+  type LLMClient,
+  type TranscriptionSegment,
+} from "../_shared/llm/index.ts";
+import { AUDIO_CONTENT_TYPES, type AudioFormat } from "./audio.ts";
+
+/** Whisper's request size limit */
+export const TRANSCRIPTION_MAX_BYTES = 25 * 1024 * 1024;
+
+/** Server-side segments stay well under the limit to leave room for a frame */
+export const SEGMENT_TARGET_BYTES = 20 * 1024 * 1024;
+
+const TRANSCRIPTION_TIMEOUT_MS = 120000;
+const PROMPT_CONTEXT_CHARS = 200;
+const MAX_BOUNDARY_OVERLAP_WORDS = 12;
+
+export const TRANSCRIPT_PLACEHOLDERS = {
+  consent: "[Transcription disabled - AI processing is turned off]",
+  failed: "[Transcription failed - please retry]",
+  notConfigured: "[Transcription pending - API key not configured]",
+};
+
+/** Placeholders are bracketed; real transcripts never start with "[" */
+export function isPlaceholderTranscript(transcript: string): boolean {
+  return transcript.startsWith("[");
+}
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+/**
+ * Join segment transcripts, removing the longest run of words that ends one
+ * segment and starts the next.
+ */
+export function stitchTranscripts(parts: string[]): string {
+  let words: string[] = [];
+
+  for (const part of parts) {
+    const next = part.trim().split(/\s+/).filter(Boolean);
+    if (next.length === 0) continue;
+
+    let overlap = 0;
+    const maxOverlap = Math.min(
+      MAX_BOUNDARY_OVERLAP_WORDS,
+      words.length,
+      next.length,
+    );
+    for (let k = maxOverlap; k > 0; k--) {
+      const tail = words.slice(words.length - k).map(normalizeWord);
+      const head = next.slice(0, k).map(normalizeWord);
+      if (tail.every((w, i) => w !== "" && w === head[i])) {
+        overlap = k;
+        break;
+      }
+    }
+
+    words = words.concat(next.slice(overlap));
+  }
+
+  return words.join(" ");
+}
+
+/**
+ * Transcribes segments in order and stitches the result. Throws LLMError on
+ * the first failed segment: a transcript with a hole in the middle is worse
+ * than a retry. Diarization failures only drop speaker labels.
+ */
+export function createSegmentTranscriber(llm: LLMClient, diarizer?: Diarizer) {
+  const parts: string[] = [];
+  const timed: TranscriptionSegment[] = [];
+  const speakers: (string | null)[] = [];
+  let offsetSec = 0;
+
+  async function diarize(
+    audio: Blob,
+    filename: string,
+    segments: TranscriptionSegment[],
+    durationSec: number,
+  ): Promise<(string | null)[]> {
+    if (!diarizer?.isConfigured() || segments.length === 0) {
+      return segments.map(() => null);
+    }
+
+    try {
+      const turns = await diarizer.diarize({ audio, filename, durationSec });
+      return assignSpeakers(segments, turns).map((label) =>
+        label === null ? null : `${parts.length}:${label}`,
+      );
+    } catch (error) {
+      console.error(
+        "Diarization failed:",
+        error instanceof DiarizationError ? error.code : "Unknown error",
+      );
+      return segments.map(() => null);
+    }
+  }
+
+  function text(): string {
+    return stitchTranscripts(parts);
+  }
+
+  return {
+    async add(segment: Uint8Array, format: AudioFormat): Promise<void> {
+      const context = text().slice(-PROMPT_CONTEXT_CHARS);
+      const audio = new Blob([segment as BlobPart], {
+        type: AUDIO_CONTENT_TYPES[format],
+      });
+      const filename = `segment-${parts.length + 1}.${format}`;
+
+      const result = await llm.transcribe({
+        audio,
+        filename,
+        prompt: context || undefined,
+        timestamps: true,
+        timeoutMs: TRANSCRIPTION_TIMEOUT_MS,
+      });
+
+      const segments = result.segments ?? [];
+      const durationSec =
+        result.durationSec ?? segments[segments.length - 1]?.end ?? 0;
+      const labels = await diarize(audio, filename, segments, durationSec);
+
+      segments.forEach((s, i) => {
+        timed.push({
+          start: offsetSec + s.start,
+          end: offsetSec + s.end,
+          text: s.text,
+        });
+        speakers.push(labels[i]);
+      });
+      offsetSec += durationSec;
+      parts.push(result.text);
+    },
+
+    get segmentCount(): number {
+      return parts.length;
+    },
+
+    text,
+
+    /** Timed, speaker-labelled transcript, or null without timestamps */
+    speakerTranscript(): SpeakerTranscript | null {
+      if (timed.length === 0) return null;
+      return buildSpeakerTranscript(
+        text(),
+        timed,
+        speakers,
+        diarizer?.isConfigured() ? diarizer.name : "none",
+      );
+    },
+  };
+}
+
+/** Placeholder stored in raw_transcript when transcription can't complete */
+export function placeholderForError(error: unknown): string {
+  return error instanceof LLMError && error.code === "CONSENT_REQUIRED"
+    ? TRANSCRIPT_PLACEHOLDERS.consent
+    : TRANSCRIPT_PLACEHOLDERS.failed;
+}
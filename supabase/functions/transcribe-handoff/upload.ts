@@ -0,0 +1,873 @@
+/**
+ * Chunked, resumable audio upload
+ *
+ * POST /transcribe-handoff/uploads                 init (or resume) a session
+ * GET  /transcribe-handoff/uploads/{id}            resume offset and chunks
+ * PUT  /transcribe-handoff/uploads/{id}/chunks     append chunk at ?offset=N
+ * POST /transcribe-handoff/uploads/{id}/finalize   assemble and transcribe
+ *
+ * Chunks are stored as separate objects in the handoff-audio bucket and are
+ * never concatenated in full: finalize streams them through the segmenter so
+ * memory stays bounded regardless of recording length.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { jsonResponse, errorResponse } from "../_shared/cors.ts";
+import {
+  createDiarizer,
+  type SpeakerTranscript,
+} from "../_shared/diarization/index.ts";
+import { createLLMClient, LLMError } from "../_shared/llm/index.ts";
+import { isValidUUID } from "../_shared/validation.ts";
+import {
+  AUDIO_CONTENT_TYPES,
+  AUDIO_HEADER_BYTES,
+  createAudioSegmenter,
+  detectAudioFormat,
+  type AudioFormat,
+} from "./audio.ts";
+import {
+  createSegmentTranscriber,
+  isPlaceholderTranscript,
+  placeholderForError,
+  SEGMENT_TARGET_BYTES,
+  TRANSCRIPT_PLACEHOLDERS,
+  TRANSCRIPTION_MAX_BYTES,
+} from "./transcription.ts";
+
+const BUCKET = "handoff-audio";
+
+/** Longest supported recording (~3.5 hours of 128kbps AAC) */
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+const DEFAULT_CHUNK_BYTES = 4 * 1024 * 1024;
+const MIN_CHUNK_BYTES = 256 * 1024;
+const MAX_CHUNK_BYTES = 8 * 1024 * 1024;
+
+const SHA256_REGEX = /^[0-9a-f]{64}$/;
+
+interface UploadSession {
+  id: string;
+  handoff_id: string;
+  circle_id: string;
+  created_by: string;
+  mime_type: string;
+  total_bytes: number;
+  chunk_size: number;
+  received_bytes: number;
+  chunk_count: number;
+  status: "ACTIVE" | "FINALIZING" | "COMPLETED" | "FAILED" | "ABANDONED";
+  segment_count: number | null;
+  error_code: string | null;
+  expires_at: string;
+}
+
+interface UploadChunk {
+  chunk_index: number;
+  offset_bytes: number;
+  size_bytes: number;
+  sha256: string;
+  storage_key: string;
+  segment_start: boolean;
+}
+
+interface InitRequest {
+  handoff_id: string;
+  total_bytes: number;
+  mime_type?: string;
+  chunk_size?: number;
+}
+
+/** Failure that ends finalize with a stored error code */
+class FinalizeError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+const APPEND_ERRORS: Record<
+  string,
+  { code: string; message: string; status: number }
+> = {
+  UPLOAD_NOT_FOUND: {
+    code: "UPLOAD_NOT_FOUND",
+    message: "Upload not found",
+    status: 404,
+  },
+  UPLOAD_NOT_ACTIVE: {
+    code: "UPLOAD_NOT_ACTIVE",
+    message: "Upload is no longer accepting chunks",
+    status: 409,
+  },
+  UPLOAD_EXPIRED: {
+    code: "UPLOAD_EXPIRED",
+    message: "Upload session expired",
+    status: 410,
+  },
+  EXCEEDS_TOTAL: {
+    code: "UPLOAD_TOO_LARGE",
+    message: "Chunk exceeds the declared total size",
+    status: 413,
+  },
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Read a request body of at most `limit` bytes. Returns null, with the rest
+ * of the stream cancelled, as soon as the body is longer.
+ */
+async function readBody(
+  req: Request,
+  limit: number,
+): Promise<Uint8Array | null> {
+  if (!req.body) return new Uint8Array(0);
+
+  const reader = req.body.getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let position = 0;
+  for (const part of parts) {
+    bytes.set(part, position);
+    position += part.length;
+  }
+  return bytes;
+}
+
+function uploadPrefix(session: UploadSession): string {
+  return `${session.circle_id}/${session.handoff_id}/uploads/${session.id}/`;
+}
+
+function sessionView(session: UploadSession) {
+  return {
+    upload_id: session.id,
+    handoff_id: session.handoff_id,
+    status: session.status,
+    total_bytes: session.total_bytes,
+    chunk_size: session.chunk_size,
+    received_bytes: session.received_bytes,
+    next_offset: session.received_bytes,
+    expires_at: session.expires_at,
+  };
+}
+
+async function loadSession(
+  supabase: SupabaseClient,
+  uploadId: string,
+  userId: string,
+): Promise<UploadSession | null> {
+  if (!isValidUUID(uploadId)) return null;
+  const { data } = await supabase
+    .from("handoff_audio_uploads")
+    .select("*")
+    .eq("id", uploadId)
+    .eq("created_by", userId)
+    .maybeSingle();
+  return (data as UploadSession | null) ?? null;
+}
+
+async function loadChunks(
+  supabase: SupabaseClient,
+  uploadId: string,
+): Promise<UploadChunk[]> {
+  const { data, error } = await supabase
+    .from("handoff_audio_upload_chunks")
+    .select(
+      "chunk_index, offset_bytes, size_bytes, sha256, storage_key, segment_start",
+    )
+    .eq("upload_id", uploadId)
+    .order("chunk_index", { ascending: true });
+
+  if (error) throw new Error(`Failed to load chunks: ${error.code}`);
+  return (data ?? []) as UploadChunk[];
+}
+
+async function downloadChunk(
+  supabase: SupabaseClient,
+  chunk: UploadChunk,
+): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .download(chunk.storage_key);
+  if (error || !data) {
+    throw new FinalizeError(
+      "UPLOAD_CHUNK_MISSING",
+      "Stored chunk could not be read",
+      500,
+    );
+  }
+
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  if ((await sha256Hex(bytes)) !== chunk.sha256) {
+    throw new FinalizeError(
+      "UPLOAD_CHECKSUM_MISMATCH",
+      "Stored chunk failed checksum verification",
+      500,
+    );
+  }
+  return bytes;
+}
+
+/** Uploader must be a non-viewer member of the handoff's circle */
+async function authorizeHandoff(
+  supabase: SupabaseClient,
+  handoffId: string,
+  userId: string,
+): Promise<{ id: string; circle_id: string } | Response> {
+  const { data: handoff } = await supabase
+    .from("handoffs")
+    .select("id, circle_id")
+    .eq("id", handoffId)
+    .single();
+
+  if (!handoff) {
+    return errorResponse("AUTH_NOT_MEMBER", "Handoff not found", 404);
+  }
+
+  const { data: membership } = await supabase
+    .from("circle_members")
+    .select("role")
+    .eq("circle_id", handoff.circle_id)
+    .eq("user_id", userId)
+    .eq("status", "ACTIVE")
+    .single();
+
+  if (!membership || membership.role === "VIEWER") {
+    return errorResponse("AUTH_NOT_MEMBER", "Insufficient permissions", 403);
+  }
+
+  return handoff;
+}
+
+/** Abandon the user's other open sessions for a handoff and free their chunks */
+async function abandonSessions(
+  supabase: SupabaseClient,
+  sessions: UploadSession[],
+): Promise<void> {
+  for (const session of sessions) {
+    await supabase
+      .from("handoff_audio_uploads")
+      .update({ status: "ABANDONED" })
+      .eq("id", session.id)
+      .eq("status", "ACTIVE");
+
+    const chunks = await loadChunks(supabase, session.id);
+    if (chunks.length > 0) {
+      const { error } = await supabase.storage
+        .from(BUCKET)
+        .remove(chunks.map((c) => c.storage_key));
+      if (error) {
+        console.warn("Failed to remove abandoned upload chunks");
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+async function initUpload(
+  req: Request,
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Response> {
+  let body: InitRequest;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse("VALIDATION_ERROR", "Invalid JSON body", 400);
+  }
+
+  const { handoff_id, total_bytes } = body;
+  if (!handoff_id || !isValidUUID(handoff_id)) {
+    return errorResponse("VALIDATION_ERROR", "Invalid handoff_id", 400);
+  }
+  if (
+    typeof total_bytes !== "number" ||
+    !Number.isInteger(total_bytes) ||
+    total_bytes <= 0
+  ) {
+    return errorResponse(
+      "VALIDATION_ERROR",
+      "total_bytes must be a positive integer",
+      400,
+    );
+  }
+  if (total_bytes > MAX_UPLOAD_BYTES) {
+    return errorResponse(
+      "UPLOAD_TOO_LARGE",
+      `Recording exceeds ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB limit`,
+      413,
+    );
+  }
+
+  const chunkSize = Math.min(
+    MAX_CHUNK_BYTES,
+    Math.max(
+      MIN_CHUNK_BYTES,
+      Math.floor(body.chunk_size ?? DEFAULT_CHUNK_BYTES),
+    ),
+  );
+  const mimeType = Object.values(AUDIO_CONTENT_TYPES).includes(
+    body.mime_type ?? "",
+  )
+    ? body.mime_type!
+    : AUDIO_CONTENT_TYPES.m4a;
+
+  const handoff = await authorizeHandoff(supabase, handoff_id, userId);
+  if (handoff instanceof Response) return handoff;
+
+  // Resume an open session for the same recording instead of starting over
+  const { data: openSessions } = await supabase
+    .from("handoff_audio_uploads")
+    .select("*")
+    .eq("handoff_id", handoff_id)
+    .eq("created_by", userId)
+    .eq("status", "ACTIVE");
+
+  const open = (openSessions ?? []) as UploadSession[];
+  const resumable = open.find(
+    (s) => s.total_bytes === total_bytes && new Date(s.expires_at) > new Date(),
+  );
+  if (resumable) {
+    await abandonSessions(
+      supabase,
+      open.filter((s) => s.id !== resumable.id),
+    );
+    return jsonResponse({
+      success: true,
+      resumed: true,
+      ...sessionView(resumable),
+    });
+  }
+  await abandonSessions(supabase, open);
+
+  const { data: created, error: createError } = await supabase
+    .from("handoff_audio_uploads")
+    .insert({
+      handoff_id,
+      circle_id: handoff.circle_id,
+      created_by: userId,
+      mime_type: mimeType,
+      total_bytes,
+      chunk_size: chunkSize,
+    })
+    .select("*")
+    .single();
+
+  if (createError || !created) {
+    console.error("Failed to create upload session:", createError?.code);
+    return errorResponse(
+      "UPLOAD_NETWORK_ERROR",
+      "Failed to create upload session",
+      500,
+    );
+  }
+
+  return jsonResponse(
+    { success: true, resumed: false, ...sessionView(created as UploadSession) },
+    201,
+  );
+}
+
+async function getUpload(
+  supabase: SupabaseClient,
+  uploadId: string,
+  userId: string,
+): Promise<Response> {
+  const session = await loadSession(supabase, uploadId, userId);
+  if (!session) {
+    return errorResponse("UPLOAD_NOT_FOUND", "Upload not found", 404);
+  }
+
+  const chunks = await loadChunks(supabase, session.id);
+  return jsonResponse({
+    success: true,
+    ...sessionView(session),
+    error_code: session.error_code,
+    chunks: chunks.map((c) => ({
+      index: c.chunk_index,
+      offset: c.offset_bytes,
+      size: c.size_bytes,
+      sha256: c.sha256,
+    })),
+  });
+}
+
+async function appendChunk(
+  req: Request,
+  supabase: SupabaseClient,
+  uploadId: string,
+  userId: string,
+): Promise<Response> {
+  const session = await loadSession(supabase, uploadId, userId);
+  if (!session) {
+    return errorResponse("UPLOAD_NOT_FOUND", "Upload not found", 404);
+  }
+
+  const offsetParam = new URL(req.url).searchParams.get("offset");
+  const offset = offsetParam === null ? NaN : Number(offsetParam);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return errorResponse(
+      "VALIDATION_ERROR",
+      "offset query parameter is required",
+      400,
+    );
+  }
+
+  const expectedSha = req.headers.get("X-Chunk-SHA256")?.trim().toLowerCase();
+  if (!expectedSha || !SHA256_REGEX.test(expectedSha)) {
+    return errorResponse(
+      "VALIDATION_ERROR",
+      "X-Chunk-SHA256 header must be a hex SHA-256 digest",
+      400,
+    );
+  }
+
+  // Cheap resume checks before reading the body
+  if (offset !== session.received_bytes) {
+    const { data: existing } = await supabase
+      .from("handoff_audio_upload_chunks")
+      .select("chunk_index, sha256")
+      .eq("upload_id", session.id)
+      .eq("offset_bytes", offset)
+      .maybeSingle();
+
+    if (existing && existing.sha256 === expectedSha) {
+      await req.body?.cancel();
+      return jsonResponse({
+        success: true,
+        duplicate: true,
+        chunk_index: existing.chunk_index,
+        ...sessionView(session),
+      });
+    }
+
+    await req.body?.cancel();
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: "UPLOAD_OFFSET_MISMATCH",
+          message: "Chunk does not start at the resume offset",
+        },
+        expected_offset: session.received_bytes,
+      },
+      409,
+    );
+  }
+
+  // The body is never buffered past the session's chunk size
+  const declaredLength = Number(req.headers.get("Content-Length") ?? NaN);
+  if (declaredLength > session.chunk_size) {
+    await req.body?.cancel();
+    return errorResponse(
+      "UPLOAD_CHUNK_INVALID",
+      `Chunk must be 1-${session.chunk_size} bytes`,
+      413,
+    );
+  }
+
+  const bytes = await readBody(req, session.chunk_size);
+  if (!bytes) {
+    return errorResponse(
+      "UPLOAD_CHUNK_INVALID",
+      `Chunk must be 1-${session.chunk_size} bytes`,
+      413,
+    );
+  }
+  if (bytes.length === 0) {
+    return errorResponse(
+      "UPLOAD_CHUNK_INVALID",
+      `Chunk must be 1-${session.chunk_size} bytes`,
+      400,
+    );
+  }
+
+  if ((await sha256Hex(bytes)) !== expectedSha) {
+    return errorResponse(
+      "UPLOAD_CHECKSUM_MISMATCH",
+      "Chunk checksum does not match X-Chunk-SHA256",
+      400,
+    );
+  }
+
+  // Each file start (first chunk, or a client-declared segment) must be audio
+  const segmentStart =
+    offset === 0 || req.headers.get("X-Segment-Start") === "true";
+  if (segmentStart && !detectAudioFormat(bytes.slice(0, AUDIO_HEADER_BYTES))) {
+    return errorResponse(
+      "UPLOAD_UNSUPPORTED_MIME",
+      "Unsupported audio format. Accepted: M4A, MP3, AAC, WAV, OGG",
+      415,
+    );
+  }
+
+  // The checksum in the key keeps a conflicting retry from overwriting a
+  // chunk that was already accepted at this offset
+  const storageKey = `${uploadPrefix(session)}${String(offset).padStart(12, "0")}-${expectedSha.slice(0, 16)}.part`;
+
+  const { error: storeError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storageKey, bytes, {
+      contentType: "application/octet-stream",
+      upsert: true,
+    });
+
+  if (storeError) {
+    console.error("Chunk upload error:", storeError.message);
+    return errorResponse("UPLOAD_NETWORK_ERROR", "Failed to store chunk", 500);
+  }
+
+  const { data: result, error: rpcError } = await supabase.rpc(
+    "append_handoff_audio_chunk",
+    {
+      p_upload_id: session.id,
+      p_user_id: userId,
+      p_offset: offset,
+      p_size: bytes.length,
+      p_sha256: expectedSha,
+      p_storage_key: storageKey,
+      p_segment_start: segmentStart,
+    },
+  );
+
+  if (rpcError) {
+    // The append may have committed with only the response lost, so the
+    // object stays; a retry at this offset finds the recorded chunk
+    console.error("Failed to record chunk:", rpcError.code);
+    return errorResponse("UPLOAD_NETWORK_ERROR", "Failed to record chunk", 500);
+  }
+
+  if (result?.error) {
+    // Lost a race with another append: drop the orphaned object
+    await supabase.storage.from(BUCKET).remove([storageKey]);
+
+    if (result.error === "OFFSET_MISMATCH") {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: "UPLOAD_OFFSET_MISMATCH",
+            message: "Chunk does not start at the resume offset",
+          },
+          expected_offset: result.expected_offset,
+        },
+        409,
+      );
+    }
+
+    const mapped = APPEND_ERRORS[result.error] ?? {
+      code: "UPLOAD_NETWORK_ERROR",
+      message: "Failed to record chunk",
+      status: 500,
+    };
+    return errorResponse(mapped.code, mapped.message, mapped.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    duplicate: result.duplicate,
+    chunk_index: result.chunk_index,
+    ...sessionView({ ...session, received_bytes: result.received_bytes }),
+  });
+}
+
+/**
+ * Group chunks into independently decodable files. Without client-declared
+ * segments the whole upload is one file.
+ */
+function groupSegments(chunks: UploadChunk[]): UploadChunk[][] {
+  const groups: UploadChunk[][] = [];
+  for (const chunk of chunks) {
+    if (chunk.segment_start || groups.length === 0) {
+      groups.push([chunk]);
+    } else {
+      groups[groups.length - 1].push(chunk);
+    }
+  }
+  return groups;
+}
+
+interface TranscriptionOutcome {
+  transcript: string;
+  speakerTranscript: SpeakerTranscript | null;
+  segments: number;
+  errorCode: string | null;
+}
+
+async function transcribeUpload(
+  supabase: SupabaseClient,
+  session: UploadSession,
+): Promise<TranscriptionOutcome> {
+  const llm = createLLMClient({
+    feature: "transcribe-handoff",
+    supabase,
+    userId: session.created_by,
+    circleId: session.circle_id,
+  });
+
+  if (!llm.isConfigured()) {
+    console.warn(`LLM provider '${llm.provider}' not configured`);
+    return {
+      transcript: TRANSCRIPT_PLACEHOLDERS.notConfigured,
+      speakerTranscript: null,
+      segments: 0,
+      errorCode: "NOT_CONFIGURED",
+    };
+  }
+
+  const chunks = await loadChunks(supabase, session.id);
+  const transcriber = createSegmentTranscriber(llm, createDiarizer());
+
+  try {
+    for (const group of groupSegments(chunks)) {
+      const groupBytes = group.reduce((sum, c) => sum + c.size_bytes, 0);
+      const first = await downloadChunk(supabase, group[0]);
+      const format: AudioFormat | null = detectAudioFormat(
+        first.slice(0, AUDIO_HEADER_BYTES),
+      );
+      if (!format) {
+        throw new FinalizeError(
+          "UPLOAD_UNSUPPORTED_MIME",
+          "Unsupported audio format",
+          415,
+        );
+      }
+
+      if (groupBytes <= TRANSCRIPTION_MAX_BYTES) {
+        const file = new Uint8Array(groupBytes);
+        file.set(first, 0);
+        let position = first.length;
+        for (const chunk of group.slice(1)) {
+          const bytes = await downloadChunk(supabase, chunk);
+          file.set(bytes, position);
+          position += bytes.length;
+        }
+        await transcriber.add(file, format);
+        continue;
+      }
+
+      const segmenter = createAudioSegmenter(
+        format,
+        SEGMENT_TARGET_BYTES,
+        TRANSCRIPTION_MAX_BYTES,
+      );
+      if (!segmenter) {
+        throw new FinalizeError(
+          "ASR_AUDIO_TOO_LONG",
+          `${format.toUpperCase()} recordings over ${TRANSCRIPTION_MAX_BYTES / (1024 * 1024)}MB must be uploaded as separate segments`,
+          422,
+        );
+      }
+
+      for (const segment of segmenter.push(first)) {
+        await transcriber.add(segment, format);
+      }
+      for (const chunk of group.slice(1)) {
+        const bytes = await downloadChunk(supabase, chunk);
+        for (const segment of segmenter.push(bytes)) {
+          await transcriber.add(segment, format);
+        }
+      }
+      for (const segment of segmenter.flush()) {
+        await transcriber.add(segment, format);
+      }
+    }
+  } catch (error) {
+    if (error instanceof FinalizeError) throw error;
+
+    console.error(
+      "Transcription failed:",
+      error instanceof LLMError ? error.code : "Unknown error",
+    );
+    return {
+      transcript: placeholderForError(error),
+      speakerTranscript: null,
+      segments: transcriber.segmentCount,
+      errorCode:
+        error instanceof LLMError ? error.code : "TRANSCRIPTION_FAILED",
+    };
+  }
+
+  return {
+    transcript: transcriber.text(),
+    speakerTranscript: transcriber.speakerTranscript(),
+    segments: transcriber.segmentCount,
+    errorCode: null,
+  };
+}
+
+async function finalizeUpload(
+  supabase: SupabaseClient,
+  uploadId: string,
+  userId: string,
+): Promise<Response> {
+  const session = await loadSession(supabase, uploadId, userId);
+  if (!session) {
+    return errorResponse("UPLOAD_NOT_FOUND", "Upload not found", 404);
+  }
+
+  // Finalize is safe to retry once transcription has completed
+  if (session.status === "COMPLETED") {
+    const { data: handoff } = await supabase
+      .from("handoffs")
+      .select("raw_transcript, transcript_segments_json")
+      .eq("id", session.handoff_id)
+      .single();
+    return jsonResponse({
+      success: true,
+      job_id: session.handoff_id,
+      upload_id: session.id,
+      status: "COMPLETED",
+      transcript: handoff?.raw_transcript ?? undefined,
+      transcript_segments: handoff?.transcript_segments_json ?? undefined,
+      audio_segments: session.segment_count,
+    });
+  }
+
+  if (session.received_bytes < session.total_bytes) {
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: "UPLOAD_INCOMPLETE",
+          message: "Not all chunks have been received",
+        },
+        expected_offset: session.received_bytes,
+      },
+      409,
+    );
+  }
+
+  // Claim the session so concurrent finalize calls don't transcribe twice
+  const { data: claimed } = await supabase
+    .from("handoff_audio_uploads")
+    .update({ status: "FINALIZING", error_code: null })
+    .eq("id", session.id)
+    .in("status", ["ACTIVE", "FAILED"])
+    .select("id");
+
+  if (!claimed || claimed.length === 0) {
+    return errorResponse(
+      "UPLOAD_NOT_ACTIVE",
+      "Upload is already being finalized",
+      409,
+    );
+  }
+
+  let outcome: TranscriptionOutcome;
+  try {
+    outcome = await transcribeUpload(supabase, session);
+  } catch (error) {
+    const failure =
+      error instanceof FinalizeError
+        ? error
+        : new FinalizeError(
+            "SYNC_SERVER_ERROR",
+            "Failed to finalize upload",
+            500,
+          );
+    await supabase
+      .from("handoff_audio_uploads")
+      .update({ status: "FAILED", error_code: failure.code })
+      .eq("id", session.id);
+    return errorResponse(failure.code, failure.message, failure.status);
+  }
+
+  await supabase
+    .from("handoffs")
+    .update({
+      audio_storage_key: uploadPrefix(session),
+      raw_transcript: outcome.transcript,
+      transcript_segments_json: outcome.speakerTranscript,
+    })
+    .eq("id", session.handoff_id);
+
+  await supabase
+    .from("handoff_audio_uploads")
+    .update({
+      status: outcome.errorCode ? "FAILED" : "COMPLETED",
+      error_code: outcome.errorCode,
+      segment_count: outcome.segments,
+      finalized_at: new Date().toISOString(),
+    })
+    .eq("id", session.id);
+
+  const pending = isPlaceholderTranscript(outcome.transcript);
+  return jsonResponse(
+    {
+      success: true,
+      job_id: session.handoff_id,
+      upload_id: session.id,
+      status: pending ? "PENDING" : "COMPLETED",
+      transcript: pending ? undefined : outcome.transcript,
+      transcript_segments: outcome.speakerTranscript ?? undefined,
+      audio_segments: outcome.segments,
+    },
+    pending ? 202 : 200,
+  );
+}
+
+// ============================================================================
+// Router
+// ============================================================================
+
+/**
+ * Dispatch `/uploads[/{id}[/chunks|/finalize]]`. `route` is the path after
+ * the function name, split on "/".
+ */
+export function handleUploadRequest(
+  req: Request,
+  route: string[],
+  supabase: SupabaseClient,
+  userId: string,
+): Promise<Response> {
+  const [, uploadId, action] = route;
+
+  if (!uploadId && req.method === "POST") {
+    return initUpload(req, supabase, userId);
+  }
+  if (uploadId && !action && req.method === "GET") {
+    return getUpload(supabase, uploadId, userId);
+  }
+  if (
+    uploadId &&
+    action === "chunks" &&
+    (req.method === "PUT" || req.method === "POST")
+  ) {
+    return appendChunk(req, supabase, uploadId, userId);
+  }
+  if (uploadId && action === "finalize" && req.method === "POST") {
+    return finalizeUpload(supabase, uploadId, userId);
+  }
+
+  return Promise.resolve(
+    errorResponse("NOT_FOUND", "Unknown upload endpoint", 404),
+  );
+}
@@ -7,6 +7,7 @@ import {
   errorResponse,
 } from "../_shared/cors.ts";
 import { isValidUUID } from "../_shared/validation.ts";
+import { createLLMClient, LLMError } from "../_shared/llm/index.ts";
 import { createHash } from "https://deno.land/std@0.168.0/hash/mod.ts";
 
 // ============================================================================
@@ -37,8 +38,8 @@ const VALID_CONTENT_TYPES = ["HANDOFF", "BINDER", "TASK", "NOTIFICATION"];
 // Maximum text length (50KB - prevents abuse while allowing full handoffs)
 const MAX_TEXT_LENGTH = 50_000;
 
-// Maximum OpenAI tokens to request
-const MAX_OPENAI_TOKENS = 4096;
+// Maximum LLM tokens to request
+const MAX_LLM_TOKENS = 4096;
 
 // Languages available per tier
 const TIER_LANGUAGES: Record<string, string[]> = {
@@ -320,9 +321,14 @@ serve(async (req: Request): Promise<Response> => {
       glossaryTerms = glossary || [];
     }
 
-    // 7. Translate via OpenAI
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
+    // 7. Translate via the shared LLM provider
+    const llm = createLLMClient({
+      feature: "translate-content",
+      supabase: supabaseService,
+      userId: user.id,
+      circleId,
+    });
+    if (!llm.isConfigured()) {
       return errorResponse(
         "CONFIG_ERROR",
         "Translation service not configured",
@@ -359,9 +365,6 @@ Rules:
 
 Return ONLY the translated text, nothing else.`;
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30000);
-
     let translatedText: string;
     let confidenceScore = 0.9;
     const containsMedicalTerms = medications.length > 0;
@@ -369,47 +372,22 @@ Return ONLY the translated text, nothing else.`;
     // Cap max_tokens to prevent abuse
     const maxTokens = Math.min(
       Math.max(protectedText.length * 3, 1000),
-      MAX_OPENAI_TOKENS,
+      MAX_LLM_TOKENS,
     );
 
     try {
-      const response = await fetch(
-        "https://api.openai.com/v1/chat/completions",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${openaiApiKey}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [
-              { role: "system", content: systemPrompt },
-              { role: "user", content: protectedText },
-            ],
-            temperature: 0.2,
-            max_tokens: maxTokens,
-          }),
-          signal: controller.signal,
-        },
-      );
-
-      if (!response.ok) {
-        const errStatus = response.status;
-        // Log status code only, not response body (may contain sensitive data)
-        console.error(`OpenAI API error: status ${errStatus}`);
-        return errorResponse(
-          "TRANSLATION_FAILED",
-          "Translation service error",
-          502,
-        );
-      }
-
-      const result = await response.json();
+      const result = await llm.complete({
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: protectedText },
+        ],
+        tier: "fast",
+        temperature: 0.2,
+        maxTokens,
+      });
 
-      // Validate response structure before accessing
-      if (!result.choices?.[0]?.message?.content) {
-        console.error("OpenAI API returned malformed response structure");
+      if (!result.content.trim()) {
+        console.error("LLM returned an empty translation");
         return errorResponse(
           "TRANSLATION_FAILED",
           "Translation service returned invalid response",
@@ -417,14 +395,28 @@ Return ONLY the translated text, nothing else.`;
         );
       }
 
-      translatedText = result.choices[0].message.content.trim();
+      translatedText = result.content.trim();
 
       // Extract confidence from finish_reason
-      if (result.choices[0].finish_reason === "stop") {
+      if (result.finishReason === "stop") {
         confidenceScore = 0.95;
       }
-    } finally {
-      clearTimeout(timeout);
+    } catch (llmError) {
+      // Log error code only, not response body (may contain sensitive data)
+      const code = llmError instanceof LLMError ? llmError.code : "UNKNOWN";
+      console.error(`Translation LLM error: ${code}`);
+      if (code === "CONSENT_REQUIRED") {
+        return errorResponse(
+          "CONSENT_REQUIRED",
+          "AI processing is turned off for this account",
+          403,
+        );
+      }
+      return errorResponse(
+        "TRANSLATION_FAILED",
+        "Translation service error",
+        502,
+      );
     }
 
     // 8. Restore medication names (untranslated)
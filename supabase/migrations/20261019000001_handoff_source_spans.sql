@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Migration: Handoff Source Spans
+-- Description: Per-item transcript offsets backing structured brief confidence
+-- Date: 2026-10-19
+-- ============================================================================
+
+ALTER TABLE handoffs ADD COLUMN IF NOT EXISTS source_spans_json jsonb;
+
+COMMENT ON COLUMN handoffs.source_spans_json IS
+    'Transcript character offsets and confidence per extracted item, written by structure-handoff. Offsets index into the transcript that was structured.';
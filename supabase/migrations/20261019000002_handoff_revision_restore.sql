@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Migration: Handoff Revision Restore
+-- Description: Republish an earlier handoff revision as a new revision
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: restore_handoff_revision
+-- ============================================================================
+-- Copies the structured brief of an earlier revision into a new revision,
+-- updates the handoff's denormalized fields and records a HANDOFF_RESTORED
+-- audit event, all in one transaction. History is never rewritten: the
+-- restored content becomes revision current_revision + 1.
+
+CREATE OR REPLACE FUNCTION restore_handoff_revision(
+    p_handoff_id uuid,
+    p_revision int,
+    p_user_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_handoff handoffs%ROWTYPE;
+    v_structured_json jsonb;
+    v_new_revision int;
+BEGIN
+    -- Lock the handoff so concurrent publishes can't claim the same revision
+    SELECT * INTO v_handoff FROM handoffs WHERE id = p_handoff_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'HANDOFF_NOT_FOUND');
+    END IF;
+
+    IF NOT has_circle_role(v_handoff.circle_id, p_user_id, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'PERMISSION_DENIED');
+    END IF;
+
+    IF v_handoff.status <> 'PUBLISHED' THEN
+        RETURN jsonb_build_object('error', 'HANDOFF_NOT_PUBLISHED');
+    END IF;
+
+    IF p_revision = v_handoff.current_revision THEN
+        RETURN jsonb_build_object('error', 'ALREADY_CURRENT');
+    END IF;
+
+    SELECT structured_json INTO v_structured_json
+    FROM handoff_revisions
+    WHERE handoff_id = p_handoff_id AND revision = p_revision;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'REVISION_NOT_FOUND');
+    END IF;
+
+    v_new_revision := v_handoff.current_revision + 1;
+
+    INSERT INTO handoff_revisions (handoff_id, revision, structured_json, edited_by, change_note)
+    VALUES (
+        p_handoff_id,
+        v_new_revision,
+        v_structured_json,
+        p_user_id,
+        'Restored from revision ' || p_revision
+    );
+
+    UPDATE handoffs
+    SET
+        current_revision = v_new_revision,
+        title = COALESCE(v_structured_json->>'title', title),
+        summary = v_structured_json->>'summary',
+        keywords = COALESCE(
+            ARRAY(SELECT jsonb_array_elements_text(v_structured_json->'keywords')),
+            '{}'
+        ),
+        updated_at = now()
+    WHERE id = p_handoff_id;
+
+    PERFORM create_audit_event(
+        v_handoff.circle_id,
+        p_user_id,
+        'HANDOFF_RESTORED',
+        'handoff',
+        p_handoff_id,
+        jsonb_build_object(
+            'revision', v_new_revision,
+            'restored_from', p_revision,
+            'previous_revision', v_handoff.current_revision
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'handoff_id', p_handoff_id,
+        'revision', v_new_revision,
+        'restored_from', p_revision,
+        'published_at', v_handoff.published_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION restore_handoff_revision IS 'Republish an earlier handoff revision as a new revision, with audit event';
+
+REVOKE EXECUTE ON FUNCTION restore_handoff_revision(uuid, int, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_handoff_revision(uuid, int, uuid) TO service_role;
+
+COMMENT ON COLUMN audit_events.event_type IS 'Event types:
+- MEMBER_INVITED
+- MEMBER_JOINED
+- MEMBER_REMOVED
+- ROLE_CHANGED
+- CIRCLE_CREATED
+- CIRCLE_UPDATED
+- CIRCLE_DELETED
+- PATIENT_CREATED
+- PATIENT_ARCHIVED
+- HANDOFF_PUBLISHED
+- HANDOFF_REVISED
+- HANDOFF_RESTORED
+- TRANSCRIPT_ACCESSED
+- EXPORT_GENERATED
+- INVITE_CREATED
+- INVITE_REVOKED
+- SETTINGS_CHANGED
+';
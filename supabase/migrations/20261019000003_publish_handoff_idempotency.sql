@@ -0,0 +1,218 @@
+-- ============================================================================
+-- Migration: Idempotent Handoff Publish
+-- Description: Per-circle publish operation IDs and an atomic publish function
+--              used by the publish-handoff Edge Function
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: handoff_publish_operations
+-- ============================================================================
+-- One row per client-supplied operation ID (Idempotency-Key). A retried
+-- request with the same key replays response_json instead of publishing again.
+
+CREATE TABLE IF NOT EXISTS handoff_publish_operations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    operation_id text NOT NULL CHECK (length(operation_id) BETWEEN 8 AND 128),
+    handoff_id uuid NOT NULL REFERENCES handoffs(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    request_hash text NOT NULL,
+    response_json jsonb NOT NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT handoff_publish_operations_unique UNIQUE (circle_id, operation_id)
+);
+
+CREATE INDEX IF NOT EXISTS handoff_publish_operations_created_at_idx
+    ON handoff_publish_operations(created_at);
+
+-- Service role only: no client policies
+ALTER TABLE handoff_publish_operations ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE handoff_publish_operations IS 'Idempotency records for publish-handoff, keyed per circle by client operation ID';
+
+-- ============================================================================
+-- FUNCTION: publish_handoff_operation
+-- ============================================================================
+-- Publishes a handoff in a single transaction: revision, handoff update, tasks
+-- from next_steps, audit event and member notifications. With an operation ID
+-- the result is recorded, and a replay returns the stored response with no
+-- side effects. Concurrent requests for the same handoff serialize on the
+-- handoff row lock, so the second request sees the first one's record.
+--
+-- p_tasks is the validated next_steps payload built by the Edge Function:
+-- [{ "title", "owner_user_id", "due_at", "priority" }]
+
+CREATE OR REPLACE FUNCTION publish_handoff_operation(
+    p_handoff_id uuid,
+    p_user_id uuid,
+    p_structured_json jsonb,
+    p_tasks jsonb DEFAULT '[]'::jsonb,
+    p_operation_id text DEFAULT NULL,
+    p_request_hash text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_handoff handoffs%ROWTYPE;
+    v_operation handoff_publish_operations%ROWTYPE;
+    v_revision int;
+    v_published_at timestamptz;
+    v_task jsonb;
+    v_owner uuid;
+    v_tasks_created int := 0;
+    v_notifications int := 0;
+    v_response jsonb;
+BEGIN
+    -- Validate: if auth context exists, p_user_id must match
+    IF auth.uid() IS NOT NULL AND auth.uid() != p_user_id THEN
+        RAISE EXCEPTION 'User ID mismatch: cannot act on behalf of another user';
+    END IF;
+
+    SELECT * INTO v_handoff FROM handoffs WHERE id = p_handoff_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'HANDOFF_NOT_FOUND');
+    END IF;
+
+    IF NOT has_circle_role(v_handoff.circle_id, p_user_id, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'PERMISSION_DENIED');
+    END IF;
+
+    -- Replay a previously completed operation
+    IF p_operation_id IS NOT NULL THEN
+        SELECT * INTO v_operation
+        FROM handoff_publish_operations
+        WHERE circle_id = v_handoff.circle_id
+        AND operation_id = p_operation_id;
+
+        IF FOUND THEN
+            IF v_operation.handoff_id != p_handoff_id
+               OR v_operation.request_hash != COALESCE(p_request_hash, '') THEN
+                RETURN jsonb_build_object('error', 'OPERATION_ID_REUSED');
+            END IF;
+
+            RETURN jsonb_build_object(
+                'replayed', true,
+                'response', v_operation.response_json
+            );
+        END IF;
+    END IF;
+
+    -- Determine revision number
+    IF v_handoff.status = 'DRAFT' THEN
+        v_revision := 1;
+    ELSE
+        v_revision := v_handoff.current_revision + 1;
+    END IF;
+    v_published_at := COALESCE(v_handoff.published_at, now());
+
+    INSERT INTO handoff_revisions (handoff_id, revision, structured_json, edited_by)
+    VALUES (p_handoff_id, v_revision, p_structured_json, p_user_id);
+
+    UPDATE handoffs
+    SET
+        status = 'PUBLISHED',
+        published_at = v_published_at,
+        current_revision = v_revision,
+        title = COALESCE(p_structured_json->>'title', title),
+        summary = p_structured_json->>'summary',
+        keywords = COALESCE(
+            ARRAY(SELECT jsonb_array_elements_text(p_structured_json->'keywords')),
+            '{}'
+        ),
+        updated_at = now()
+    WHERE id = p_handoff_id;
+
+    -- Create tasks from next_steps; unknown owners fall back to the publisher
+    FOR v_task IN SELECT * FROM jsonb_array_elements(COALESCE(p_tasks, '[]'::jsonb))
+    LOOP
+        v_owner := p_user_id;
+        IF (v_task->>'owner_user_id') IS NOT NULL
+           AND EXISTS (
+               SELECT 1 FROM circle_members
+               WHERE circle_id = v_handoff.circle_id
+               AND user_id::text = v_task->>'owner_user_id'
+               AND status = 'ACTIVE'
+           ) THEN
+            v_owner := (v_task->>'owner_user_id')::uuid;
+        END IF;
+
+        INSERT INTO tasks (
+            circle_id, patient_id, handoff_id, created_by, owner_user_id,
+            title, due_at, priority, status
+        )
+        VALUES (
+            v_handoff.circle_id,
+            v_handoff.patient_id,
+            p_handoff_id,
+            p_user_id,
+            v_owner,
+            v_task->>'title',
+            (v_task->>'due_at')::timestamptz,
+            COALESCE(v_task->>'priority', 'MED'),
+            'OPEN'
+        );
+        v_tasks_created := v_tasks_created + 1;
+    END LOOP;
+
+    PERFORM create_audit_event(
+        v_handoff.circle_id,
+        p_user_id,
+        CASE WHEN v_revision = 1 THEN 'HANDOFF_PUBLISHED' ELSE 'HANDOFF_REVISED' END,
+        'handoff',
+        p_handoff_id,
+        jsonb_build_object('revision', v_revision)
+    );
+
+    v_notifications := notify_circle_members(
+        v_handoff.circle_id,
+        p_user_id,
+        'HANDOFF_PUBLISHED',
+        'New Handoff',
+        COALESCE(p_structured_json->>'title', v_handoff.title),
+        jsonb_build_object('handoff_id', p_handoff_id, 'circle_id', v_handoff.circle_id)
+    );
+
+    v_response := jsonb_build_object(
+        'success', true,
+        'handoff_id', p_handoff_id,
+        'revision', v_revision,
+        'published_at', v_published_at,
+        'notifications_queued', v_notifications,
+        'tasks_created', v_tasks_created
+    );
+
+    IF p_operation_id IS NOT NULL THEN
+        INSERT INTO handoff_publish_operations (
+            circle_id, operation_id, handoff_id, user_id, request_hash, response_json
+        )
+        VALUES (
+            v_handoff.circle_id, p_operation_id, p_handoff_id, p_user_id,
+            COALESCE(p_request_hash, ''), v_response
+        );
+    END IF;
+
+    RETURN jsonb_build_object('replayed', false, 'response', v_response);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION publish_handoff_operation IS 'Atomically publish a handoff with tasks, audit and notifications; replays stored results for repeated operation IDs';
+
+-- ============================================================================
+-- CLEANUP
+-- ============================================================================
+
+-- Operation IDs only need to outlive client retry windows
+CREATE OR REPLACE FUNCTION cleanup_publish_operations(p_days int DEFAULT 7)
+RETURNS int AS $$
+DECLARE
+    v_count int;
+BEGIN
+    DELETE FROM handoff_publish_operations
+    WHERE created_at < now() - (p_days || ' days')::interval;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
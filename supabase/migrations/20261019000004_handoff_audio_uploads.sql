@@ -0,0 +1,164 @@
+-- ============================================================================
+-- Migration: Chunked Handoff Audio Uploads
+-- Description: Resumable upload sessions and per-chunk checksums for
+--              transcribe-handoff
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: handoff_audio_uploads
+-- ============================================================================
+-- One row per upload session. received_bytes is the resume offset: the next
+-- chunk must start exactly there.
+
+CREATE TABLE IF NOT EXISTS handoff_audio_uploads (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    handoff_id uuid NOT NULL REFERENCES handoffs(id) ON DELETE CASCADE,
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    mime_type text NOT NULL,
+    total_bytes bigint NOT NULL CHECK (total_bytes > 0),
+    chunk_size int NOT NULL CHECK (chunk_size > 0),
+    received_bytes bigint DEFAULT 0 NOT NULL CHECK (received_bytes >= 0),
+    chunk_count int DEFAULT 0 NOT NULL,
+    status text DEFAULT 'ACTIVE' NOT NULL
+        CHECK (status IN ('ACTIVE', 'FINALIZING', 'COMPLETED', 'FAILED', 'ABANDONED')),
+    segment_count int,
+    error_code text,
+    expires_at timestamptz DEFAULT (now() + interval '24 hours') NOT NULL,
+    finalized_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT handoff_audio_uploads_received_check CHECK (received_bytes <= total_bytes)
+);
+
+CREATE INDEX IF NOT EXISTS handoff_audio_uploads_handoff_id_idx ON handoff_audio_uploads(handoff_id);
+CREATE INDEX IF NOT EXISTS handoff_audio_uploads_active_idx
+    ON handoff_audio_uploads(expires_at) WHERE status = 'ACTIVE';
+
+CREATE TRIGGER handoff_audio_uploads_updated_at
+    BEFORE UPDATE ON handoff_audio_uploads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Service role only: sessions are managed through transcribe-handoff
+ALTER TABLE handoff_audio_uploads ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE handoff_audio_uploads IS 'Resumable chunked audio upload sessions for handoff transcription';
+
+-- ============================================================================
+-- TABLE: handoff_audio_upload_chunks
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS handoff_audio_upload_chunks (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    upload_id uuid NOT NULL REFERENCES handoff_audio_uploads(id) ON DELETE CASCADE,
+    chunk_index int NOT NULL CHECK (chunk_index >= 0),
+    offset_bytes bigint NOT NULL CHECK (offset_bytes >= 0),
+    size_bytes int NOT NULL CHECK (size_bytes > 0),
+    sha256 text NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+    storage_key text NOT NULL,
+    -- Chunk begins an independently decodable audio file (client-side segment)
+    segment_start boolean DEFAULT false NOT NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT handoff_audio_upload_chunks_index_unique UNIQUE (upload_id, chunk_index),
+    CONSTRAINT handoff_audio_upload_chunks_offset_unique UNIQUE (upload_id, offset_bytes)
+);
+
+ALTER TABLE handoff_audio_upload_chunks ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE handoff_audio_upload_chunks IS 'Stored chunks of a handoff audio upload, with SHA-256 checksums';
+
+-- ============================================================================
+-- FUNCTION: append_handoff_audio_chunk
+-- ============================================================================
+-- Records an uploaded chunk and advances the resume offset. The offset check
+-- and update happen under a row lock, so concurrent or replayed appends can't
+-- leave gaps or overlaps.
+
+CREATE OR REPLACE FUNCTION append_handoff_audio_chunk(
+    p_upload_id uuid,
+    p_user_id uuid,
+    p_offset bigint,
+    p_size int,
+    p_sha256 text,
+    p_storage_key text,
+    p_segment_start boolean DEFAULT false
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_upload handoff_audio_uploads%ROWTYPE;
+    v_existing handoff_audio_upload_chunks%ROWTYPE;
+BEGIN
+    -- Validate: if auth context exists, p_user_id must match
+    IF auth.uid() IS NOT NULL AND auth.uid() != p_user_id THEN
+        RAISE EXCEPTION 'User ID mismatch: cannot act on behalf of another user';
+    END IF;
+
+    SELECT * INTO v_upload FROM handoff_audio_uploads WHERE id = p_upload_id FOR UPDATE;
+
+    IF NOT FOUND OR v_upload.created_by != p_user_id THEN
+        RETURN jsonb_build_object('error', 'UPLOAD_NOT_FOUND');
+    END IF;
+
+    -- A retried chunk whose response was lost: same offset, same bytes
+    IF p_offset < v_upload.received_bytes THEN
+        SELECT * INTO v_existing
+        FROM handoff_audio_upload_chunks
+        WHERE upload_id = p_upload_id AND offset_bytes = p_offset;
+
+        IF FOUND AND v_existing.sha256 = p_sha256 AND v_existing.size_bytes = p_size THEN
+            RETURN jsonb_build_object(
+                'received_bytes', v_upload.received_bytes,
+                'chunk_index', v_existing.chunk_index,
+                'duplicate', true
+            );
+        END IF;
+
+        RETURN jsonb_build_object('error', 'OFFSET_MISMATCH', 'expected_offset', v_upload.received_bytes);
+    END IF;
+
+    IF v_upload.status != 'ACTIVE' THEN
+        RETURN jsonb_build_object('error', 'UPLOAD_NOT_ACTIVE');
+    END IF;
+
+    IF v_upload.expires_at < now() THEN
+        RETURN jsonb_build_object('error', 'UPLOAD_EXPIRED');
+    END IF;
+
+    IF p_offset != v_upload.received_bytes THEN
+        RETURN jsonb_build_object('error', 'OFFSET_MISMATCH', 'expected_offset', v_upload.received_bytes);
+    END IF;
+
+    IF v_upload.received_bytes + p_size > v_upload.total_bytes THEN
+        RETURN jsonb_build_object('error', 'EXCEEDS_TOTAL');
+    END IF;
+
+    INSERT INTO handoff_audio_upload_chunks (
+        upload_id, chunk_index, offset_bytes, size_bytes, sha256, storage_key, segment_start
+    )
+    VALUES (
+        p_upload_id, v_upload.chunk_count, p_offset, p_size, p_sha256, p_storage_key,
+        p_segment_start OR v_upload.chunk_count = 0
+    );
+
+    UPDATE handoff_audio_uploads
+    SET
+        received_bytes = received_bytes + p_size,
+        chunk_count = chunk_count + 1
+    WHERE id = p_upload_id;
+
+    RETURN jsonb_build_object(
+        'received_bytes', v_upload.received_bytes + p_size,
+        'chunk_index', v_upload.chunk_count,
+        'duplicate', false
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION append_handoff_audio_chunk IS 'Record an uploaded audio chunk at the expected offset and advance the resume offset';
+
+COMMENT ON COLUMN handoffs.audio_storage_key IS
+    'handoff-audio object key, or a key prefix ending in "/" for chunked uploads (chunks listed in handoff_audio_upload_chunks)';
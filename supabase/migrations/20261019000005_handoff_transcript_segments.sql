@@ -0,0 +1,11 @@
+-- ============================================================================
+-- Migration: Handoff Transcript Segments
+-- Description: Timestamped, speaker-labelled transcript segments from
+--              transcribe-handoff diarization
+-- Date: 2026-10-19
+-- ============================================================================
+
+ALTER TABLE handoffs ADD COLUMN IF NOT EXISTS transcript_segments_json jsonb;
+
+COMMENT ON COLUMN handoffs.transcript_segments_json IS
+    'Timed transcript segments with diarized speakers and inferred roles (CLINICIAN, PATIENT, FAMILY, UNKNOWN), written by transcribe-handoff. char_start/char_end index into raw_transcript.';
@@ -0,0 +1,142 @@
+-- ============================================================================
+-- Migration: Med Scan OCR Regions
+-- Description: Word-level OCR boxes on scan sessions and per-field label
+--              regions on proposals, written by ocr-med-scan
+-- Date: 2026-10-19
+-- ============================================================================
+
+ALTER TABLE med_scan_sessions ADD COLUMN IF NOT EXISTS ocr_provider text;
+ALTER TABLE med_scan_sessions ADD COLUMN IF NOT EXISTS ocr_pages_json jsonb;
+
+COMMENT ON COLUMN med_scan_sessions.ocr_provider IS 'OCR backend that read the images: tesseract, google or fake';
+COMMENT ON COLUMN med_scan_sessions.ocr_pages_json IS
+    'Per-image OCR lines and words with boxes in normalized [0,1] image coordinates. Protected like ocr_text.';
+
+ALTER TABLE med_proposals ADD COLUMN IF NOT EXISTS source_regions_json jsonb;
+
+COMMENT ON COLUMN med_proposals.source_regions_json IS
+    'Label region per parsed field: { "<field>": { "image_index", "box": { x, y, width, height }, "text" } }. Kept out of proposed_json so it never reaches binder items.';
+
+-- ============================================================================
+-- FUNCTION: process_med_scan_results
+-- ============================================================================
+-- Replaces the 3-argument version. Field sources arrive inside each parsed
+-- med as "sources" and are split into source_regions_json.
+
+DROP FUNCTION IF EXISTS process_med_scan_results(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION process_med_scan_results(
+    p_session_id uuid,
+    p_ocr_text text,
+    p_parsed_meds jsonb,
+    p_ocr_pages jsonb DEFAULT NULL,
+    p_ocr_provider text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_session med_scan_sessions%ROWTYPE;
+    v_med jsonb;
+    v_existing_med binder_items%ROWTYPE;
+    v_diff jsonb;
+    v_proposal_id uuid;
+    v_proposals_created int := 0;
+BEGIN
+    -- Get session
+    SELECT * INTO v_session FROM med_scan_sessions WHERE id = p_session_id;
+    IF v_session IS NULL THEN
+        RETURN jsonb_build_object('error', 'Session not found');
+    END IF;
+
+    -- Store OCR text and boxes (protected)
+    UPDATE med_scan_sessions
+    SET
+        ocr_text = p_ocr_text,
+        ocr_pages_json = p_ocr_pages,
+        ocr_provider = p_ocr_provider,
+        status = 'PROCESSING'
+    WHERE id = p_session_id;
+
+    -- Process each parsed medication
+    FOR v_med IN SELECT * FROM jsonb_array_elements(p_parsed_meds)
+    LOOP
+        -- Check for existing medication match
+        SELECT * INTO v_existing_med
+        FROM binder_items
+        WHERE circle_id = v_session.circle_id
+          AND patient_id = v_session.patient_id
+          AND type = 'MED'
+          AND is_active = true
+          AND (
+              lower(title) = lower(v_med->>'name')
+              OR lower(content_json->>'name') = lower(v_med->>'name')
+          )
+        LIMIT 1;
+
+        -- Compute diff if existing found
+        IF v_existing_med IS NOT NULL THEN
+            v_diff := jsonb_build_object(
+                'has_match', true,
+                'existing_id', v_existing_med.id,
+                'existing_title', v_existing_med.title,
+                'dose_changed', v_existing_med.content_json->>'dose' IS DISTINCT FROM v_med->>'dose',
+                'schedule_changed', v_existing_med.content_json->>'schedule' IS DISTINCT FROM v_med->>'schedule'
+            );
+        ELSE
+            v_diff := jsonb_build_object('has_match', false, 'is_new', true);
+        END IF;
+
+        -- Create proposal
+        INSERT INTO med_proposals (
+            session_id,
+            circle_id,
+            patient_id,
+            proposed_json,
+            diff_json,
+            existing_med_id,
+            source_regions_json
+        ) VALUES (
+            p_session_id,
+            v_session.circle_id,
+            v_session.patient_id,
+            v_med - 'sources',
+            v_diff,
+            v_existing_med.id,
+            v_med->'sources'
+        )
+        RETURNING id INTO v_proposal_id;
+
+        v_proposals_created := v_proposals_created + 1;
+    END LOOP;
+
+    -- Update session status
+    UPDATE med_scan_sessions
+    SET status = 'READY'
+    WHERE id = p_session_id;
+
+    RETURN jsonb_build_object(
+        'session_id', p_session_id,
+        'proposals_created', v_proposals_created,
+        'status', 'READY'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- VIEW: med_proposals_with_details
+-- ============================================================================
+-- Recreated so mp.* picks up source_regions_json
+
+DROP VIEW IF EXISTS med_proposals_with_details;
+
+CREATE VIEW med_proposals_with_details AS
+SELECT
+    mp.*,
+    ms.source_object_keys,
+    ms.status as session_status,
+    p.display_name as patient_name,
+    bi.title as existing_med_name,
+    bi.content_json as existing_med_content
+FROM med_proposals mp
+JOIN med_scan_sessions ms ON mp.session_id = ms.id
+JOIN patients p ON mp.patient_id = p.id
+LEFT JOIN binder_items bi ON mp.existing_med_id = bi.id;
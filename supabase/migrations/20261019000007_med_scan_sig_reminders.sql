@@ -0,0 +1,186 @@
+-- ============================================================================
+-- Migration: Med Scan Sig Reminders
+-- Description: Turn the normalized label sig parsed by ocr-med-scan into
+--              reminder times on med proposals, carried into binder MED items
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: med_schedule_reminders
+-- ============================================================================
+-- Expands a normalized sig schedule into one reminder per administration
+-- time. As-needed meds and schedules without times get no reminders.
+-- p_start_date (the label fill date) anchors every-N-days regimens and
+-- duration_days ("for 10 days") sets the last reminder date.
+
+CREATE OR REPLACE FUNCTION med_schedule_reminders(
+    p_schedule jsonb,
+    p_start_date date DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_end_date date;
+BEGIN
+    IF p_schedule IS NULL
+        OR jsonb_typeof(p_schedule) != 'object'
+        OR COALESCE((p_schedule->>'prn')::boolean, false)
+        OR jsonb_typeof(p_schedule->'times') != 'array'
+    THEN
+        RETURN '[]'::jsonb;
+    END IF;
+
+    IF p_start_date IS NOT NULL AND p_schedule ? 'duration_days' THEN
+        v_end_date := p_start_date + ((p_schedule->>'duration_days')::int - 1);
+    END IF;
+
+    RETURN COALESCE((
+        SELECT jsonb_agg(
+            jsonb_strip_nulls(jsonb_build_object(
+                'time', t.value,
+                'days_of_week', p_schedule->'days_of_week',
+                'every_n_days', p_schedule->'every_n_days',
+                'start_date', p_start_date,
+                'end_date', v_end_date,
+                'with_food', p_schedule->'with_food'
+            ))
+            ORDER BY t.value
+        )
+        FROM jsonb_array_elements_text(p_schedule->'times') t(value)
+        WHERE t.value ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'
+    ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION med_schedule_reminders(jsonb, date) IS
+    'Reminder entries { time, days_of_week, every_n_days, start_date, end_date, with_food } for a normalized sig schedule';
+
+-- ============================================================================
+-- FUNCTION: process_med_scan_results
+-- ============================================================================
+-- Same signature as 20261019000006. Each parsed med may now carry a
+-- normalized "sig"; its schedule is expanded into "reminders" on the
+-- proposal, which accept_med_proposal merges into the binder MED item.
+-- Schedule changes against an existing MED compare reminder times when both
+-- sides have them, so "BID" and "twice daily" are not reported as a change.
+
+CREATE OR REPLACE FUNCTION process_med_scan_results(
+    p_session_id uuid,
+    p_ocr_text text,
+    p_parsed_meds jsonb,
+    p_ocr_pages jsonb DEFAULT NULL,
+    p_ocr_provider text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_session med_scan_sessions%ROWTYPE;
+    v_med jsonb;
+    v_existing_med binder_items%ROWTYPE;
+    v_diff jsonb;
+    v_proposal_id uuid;
+    v_proposals_created int := 0;
+    v_fill_date date;
+    v_reminders jsonb;
+    v_schedule_changed boolean;
+BEGIN
+    -- Get session
+    SELECT * INTO v_session FROM med_scan_sessions WHERE id = p_session_id;
+    IF v_session IS NULL THEN
+        RETURN jsonb_build_object('error', 'Session not found');
+    END IF;
+
+    -- Store OCR text and boxes (protected)
+    UPDATE med_scan_sessions
+    SET
+        ocr_text = p_ocr_text,
+        ocr_pages_json = p_ocr_pages,
+        ocr_provider = p_ocr_provider,
+        status = 'PROCESSING'
+    WHERE id = p_session_id;
+
+    -- Process each parsed medication
+    FOR v_med IN SELECT * FROM jsonb_array_elements(p_parsed_meds)
+    LOOP
+        -- Derive reminders from the normalized sig
+        v_fill_date := CASE
+            WHEN v_med->>'fill_date' ~ '^\d{4}-\d{2}-\d{2}$'
+            THEN (v_med->>'fill_date')::date
+        END;
+        v_reminders := med_schedule_reminders(v_med->'sig'->'schedule', v_fill_date);
+        IF jsonb_array_length(v_reminders) > 0 THEN
+            v_med := v_med || jsonb_build_object('reminders', v_reminders);
+        END IF;
+
+        -- Check for existing medication match
+        SELECT * INTO v_existing_med
+        FROM binder_items
+        WHERE circle_id = v_session.circle_id
+          AND patient_id = v_session.patient_id
+          AND type = 'MED'
+          AND is_active = true
+          AND (
+              lower(title) = lower(v_med->>'name')
+              OR lower(content_json->>'name') = lower(v_med->>'name')
+          )
+        LIMIT 1;
+
+        -- Compute diff if existing found
+        IF v_existing_med IS NOT NULL THEN
+            IF v_existing_med.content_json->'sig'->'schedule' IS NOT NULL
+                AND v_med->'sig'->'schedule' IS NOT NULL
+            THEN
+                v_schedule_changed :=
+                    v_existing_med.content_json->'sig'->'schedule'->'times'
+                        IS DISTINCT FROM v_med->'sig'->'schedule'->'times'
+                    OR v_existing_med.content_json->'sig'->'schedule'->'prn'
+                        IS DISTINCT FROM v_med->'sig'->'schedule'->'prn';
+            ELSE
+                v_schedule_changed :=
+                    v_existing_med.content_json->>'schedule' IS DISTINCT FROM v_med->>'schedule';
+            END IF;
+
+            v_diff := jsonb_build_object(
+                'has_match', true,
+                'existing_id', v_existing_med.id,
+                'existing_title', v_existing_med.title,
+                'dose_changed', v_existing_med.content_json->>'dose' IS DISTINCT FROM v_med->>'dose',
+                'schedule_changed', v_schedule_changed
+            );
+        ELSE
+            v_diff := jsonb_build_object('has_match', false, 'is_new', true);
+        END IF;
+
+        -- Create proposal
+        INSERT INTO med_proposals (
+            session_id,
+            circle_id,
+            patient_id,
+            proposed_json,
+            diff_json,
+            existing_med_id,
+            source_regions_json
+        ) VALUES (
+            p_session_id,
+            v_session.circle_id,
+            v_session.patient_id,
+            v_med - 'sources',
+            v_diff,
+            v_existing_med.id,
+            v_med->'sources'
+        )
+        RETURNING id INTO v_proposal_id;
+
+        v_proposals_created := v_proposals_created + 1;
+    END LOOP;
+
+    -- Update session status
+    UPDATE med_scan_sessions
+    SET status = 'READY'
+    WHERE id = p_session_id;
+
+    RETURN jsonb_build_object(
+        'session_id', p_session_id,
+        'proposals_created', v_proposals_created,
+        'status', 'READY'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,139 @@
+-- ============================================================================
+-- Migration: Med Check Visit Questions
+-- Description: Medication cross-check flags from check-med-interactions,
+--              stored as suggested visit_questions
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- Suggestions start as SUGGESTED; the family accepts (ACTIVE) or dismisses
+-- them. Existing and user-added questions are ACTIVE.
+ALTER TABLE visit_questions ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'USER'
+    CHECK (source IN ('USER', 'MED_CHECK'));
+ALTER TABLE visit_questions ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'ACTIVE'
+    CHECK (status IN ('SUGGESTED', 'ACTIVE', 'DISMISSED'));
+ALTER TABLE visit_questions ADD COLUMN IF NOT EXISTS suggestion_key text;
+ALTER TABLE visit_questions ADD COLUMN IF NOT EXISTS details_json jsonb;
+
+-- One suggestion per flag per patient, kept after dismissal so re-runs do
+-- not suggest it again. NULL keys (user questions) never conflict.
+CREATE UNIQUE INDEX IF NOT EXISTS visit_questions_suggestion_key_idx
+    ON visit_questions(patient_id, suggestion_key);
+
+CREATE INDEX IF NOT EXISTS visit_questions_suggested_idx
+    ON visit_questions(patient_id) WHERE status = 'SUGGESTED';
+
+COMMENT ON COLUMN visit_questions.source IS 'USER for questions typed by members, MED_CHECK for check-med-interactions flags';
+COMMENT ON COLUMN visit_questions.status IS 'SUGGESTED until accepted (ACTIVE) or DISMISSED; only ACTIVE questions go into appointment packs';
+COMMENT ON COLUMN visit_questions.suggestion_key IS 'Stable flag key, e.g. INTERACTION:ANTICOAGULANT+NSAID';
+COMMENT ON COLUMN visit_questions.details_json IS 'Flag kind, matched ingredients or classes, summary and the meds involved';
+
+-- ============================================================================
+-- FUNCTION: compose_appointment_pack_content
+-- ============================================================================
+-- Same as 20260129000009, but only ACTIVE questions are included
+
+CREATE OR REPLACE FUNCTION compose_appointment_pack_content(
+    p_circle_id uuid,
+    p_patient_id uuid,
+    p_range_start timestamptz,
+    p_range_end timestamptz
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_content jsonb;
+    v_handoffs jsonb;
+    v_med_changes jsonb;
+    v_tasks jsonb;
+    v_questions jsonb;
+    v_patient patients%ROWTYPE;
+BEGIN
+    -- Get patient info
+    SELECT * INTO v_patient FROM patients WHERE id = p_patient_id;
+    
+    -- Get handoff summaries in range
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', h.id,
+        'type', h.type,
+        'title', h.title,
+        'summary', h.summary,
+        'created_at', h.created_at
+    ) ORDER BY h.created_at DESC), '[]'::jsonb)
+    INTO v_handoffs
+    FROM handoffs h
+    WHERE h.circle_id = p_circle_id
+      AND h.patient_id = p_patient_id
+      AND h.status = 'PUBLISHED'
+      AND h.created_at >= p_range_start
+      AND h.created_at <= p_range_end;
+    
+    -- Get medication changes from binder revisions
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'name', bi.title,
+        'content', bi.content_json,
+        'updated_at', bi.updated_at
+    ) ORDER BY bi.updated_at DESC), '[]'::jsonb)
+    INTO v_med_changes
+    FROM binder_items bi
+    WHERE bi.circle_id = p_circle_id
+      AND bi.patient_id = p_patient_id
+      AND bi.type = 'MED'
+      AND bi.updated_at >= p_range_start
+      AND bi.updated_at <= p_range_end;
+    
+    -- Get open tasks
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', t.id,
+        'title', t.title,
+        'priority', t.priority,
+        'due_at', t.due_at
+    ) ORDER BY t.priority DESC, t.due_at), '[]'::jsonb)
+    INTO v_tasks
+    FROM tasks t
+    WHERE t.circle_id = p_circle_id
+      AND t.patient_id = p_patient_id
+      AND t.status = 'OPEN';
+    
+    -- Get unanswered questions (pending and dismissed suggestions excluded)
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'question', q.question,
+        'priority', q.priority,
+        'created_by', q.created_by
+    ) ORDER BY 
+        CASE q.priority WHEN 'HIGH' THEN 1 WHEN 'MEDIUM' THEN 2 ELSE 3 END,
+        q.created_at
+    ), '[]'::jsonb)
+    INTO v_questions
+    FROM visit_questions q
+    WHERE q.circle_id = p_circle_id
+      AND q.patient_id = p_patient_id
+      AND q.answered = false
+      AND q.status = 'ACTIVE';
+    
+    -- Compose content
+    v_content := jsonb_build_object(
+        'patient', jsonb_build_object(
+            'id', v_patient.id,
+            'name', v_patient.display_name,
+            'initials', v_patient.initials
+        ),
+        'range', jsonb_build_object(
+            'start', p_range_start,
+            'end', p_range_end
+        ),
+        'generated_at', now(),
+        'handoffs', v_handoffs,
+        'med_changes', v_med_changes,
+        'open_tasks', v_tasks,
+        'questions', v_questions,
+        'counts', jsonb_build_object(
+            'handoffs', jsonb_array_length(v_handoffs),
+            'med_changes', jsonb_array_length(v_med_changes),
+            'open_tasks', jsonb_array_length(v_tasks),
+            'questions', jsonb_array_length(v_questions)
+        )
+    );
+    
+    RETURN v_content;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
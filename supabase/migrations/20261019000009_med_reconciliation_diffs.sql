@@ -0,0 +1,371 @@
+-- ============================================================================
+-- Migration: Medication Reconciliation Diffs
+-- Description: Saved diffs between binder, discharge and scan med lists,
+--              decided item by item into binder revisions and a handoff
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: med_reconciliations
+-- ============================================================================
+-- One row per reconcile-medications run. handoff_id is the handoff that
+-- records accepted changes, created with the first one.
+
+CREATE TABLE IF NOT EXISTS med_reconciliations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    base_source text NOT NULL CHECK (base_source IN ('BINDER', 'DISCHARGE', 'SCAN')),
+    base_source_id uuid,
+    incoming_source text NOT NULL CHECK (incoming_source IN ('DISCHARGE', 'SCAN')),
+    incoming_source_id uuid NOT NULL,
+    unchanged_count int DEFAULT 0 NOT NULL,
+    status text DEFAULT 'OPEN' NOT NULL CHECK (status IN ('OPEN', 'COMPLETED')),
+    handoff_id uuid REFERENCES handoffs(id) ON DELETE SET NULL,
+    completed_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT med_reconciliations_base_id_check
+        CHECK ((base_source = 'BINDER') = (base_source_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS med_reconciliations_patient_idx
+    ON med_reconciliations(patient_id, created_at DESC);
+
+CREATE TRIGGER med_reconciliations_updated_at
+    BEFORE UPDATE ON med_reconciliations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+COMMENT ON TABLE med_reconciliations IS 'Medication list diffs from reconcile-medications';
+
+-- ============================================================================
+-- TABLE: med_reconciliation_items
+-- ============================================================================
+-- base_json / incoming_json are the paired meds as each source listed them.
+-- proposed_json is what an accepted ADDED or DOSE_CHANGED item writes to the
+-- binder MED content_json.
+
+CREATE TABLE IF NOT EXISTS med_reconciliation_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    reconciliation_id uuid NOT NULL REFERENCES med_reconciliations(id) ON DELETE CASCADE,
+    position int NOT NULL,
+    kind text NOT NULL
+        CHECK (kind IN ('ADDED', 'STOPPED', 'DOSE_CHANGED', 'DUPLICATED', 'UNMATCHED')),
+    summary text NOT NULL,
+    base_json jsonb,
+    incoming_json jsonb,
+    duplicate_of_json jsonb,
+    match_score numeric(4, 3),
+    changes_json jsonb DEFAULT '[]'::jsonb NOT NULL,
+    binder_item_id uuid REFERENCES binder_items(id) ON DELETE SET NULL,
+    proposed_json jsonb,
+    status text DEFAULT 'PENDING' NOT NULL CHECK (status IN ('PENDING', 'ACCEPTED', 'REJECTED')),
+    decided_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    decided_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT med_reconciliation_items_position_unique UNIQUE (reconciliation_id, position)
+);
+
+COMMENT ON TABLE med_reconciliation_items IS 'Per-medication differences, accepted or rejected one at a time';
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+-- Rows are written by reconcile-medications and decide_med_reconciliation_item
+
+ALTER TABLE med_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE med_reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY med_reconciliations_select ON med_reconciliations
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+CREATE POLICY med_reconciliation_items_select ON med_reconciliation_items
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM med_reconciliations r
+            WHERE r.id = reconciliation_id
+              AND is_circle_member(r.circle_id, auth.uid())
+        )
+    );
+
+-- ============================================================================
+-- FUNCTION: decide_med_reconciliation_item
+-- ============================================================================
+-- Accepting an item writes it to the binder:
+--   ADDED, or DOSE_CHANGED for a med not on the binder: new MED item
+--   DOSE_CHANGED: merge proposed_json (plus p_modified_json edits)
+--   STOPPED: set stop_date and deactivate
+--   DUPLICATED with a binder item: deactivate the repeated entry
+-- Each write gets a binder revision noted with the item summary, and an
+-- entry in the reconciliation's handoff. UNMATCHED items, and duplicates
+-- outside the binder, are only acknowledged.
+
+CREATE OR REPLACE FUNCTION decide_med_reconciliation_item(
+    p_item_id uuid,
+    p_decision text,
+    p_modified_json jsonb DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_item med_reconciliation_items%ROWTYPE;
+    v_reconciliation med_reconciliations%ROWTYPE;
+    v_content jsonb;
+    v_binder_item_id uuid;
+    v_prev_revision int;
+    v_note text;
+    v_change jsonb;
+    v_handoff_id uuid;
+    v_revision int;
+    v_brief jsonb;
+    v_summary text;
+    v_pending int;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_decision NOT IN ('ACCEPTED', 'REJECTED') THEN
+        RETURN jsonb_build_object('error', 'Decision must be ACCEPTED or REJECTED');
+    END IF;
+
+    SELECT * INTO v_item
+    FROM med_reconciliation_items
+    WHERE id = p_item_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Item not found');
+    END IF;
+
+    -- Lock the reconciliation so concurrent decisions append to one handoff
+    SELECT * INTO v_reconciliation
+    FROM med_reconciliations
+    WHERE id = v_item.reconciliation_id
+    FOR UPDATE;
+
+    IF NOT has_circle_role(v_reconciliation.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Insufficient permissions');
+    END IF;
+
+    IF v_item.status != 'PENDING' THEN
+        RETURN jsonb_build_object('error', 'Item already decided');
+    END IF;
+
+    v_binder_item_id := v_item.binder_item_id;
+    v_handoff_id := v_reconciliation.handoff_id;
+
+    IF p_decision = 'ACCEPTED' THEN
+        v_note := 'Medication reconciliation: ' || v_item.summary;
+        v_content := COALESCE(v_item.proposed_json, '{}'::jsonb)
+            || COALESCE(p_modified_json, '{}'::jsonb);
+
+        IF v_item.kind IN ('ADDED', 'DOSE_CHANGED') AND v_binder_item_id IS NULL THEN
+            INSERT INTO binder_items (
+                circle_id,
+                patient_id,
+                type,
+                title,
+                content_json,
+                created_by,
+                updated_by
+            ) VALUES (
+                v_reconciliation.circle_id,
+                v_reconciliation.patient_id,
+                'MED',
+                COALESCE(v_content->>'name', 'Unknown Medication'),
+                v_content,
+                v_caller,
+                v_caller
+            )
+            RETURNING id INTO v_binder_item_id;
+
+            INSERT INTO binder_item_revisions (
+                binder_item_id, revision, content_json, edited_by, change_note
+            ) VALUES (
+                v_binder_item_id, 1, v_content, v_caller, v_note
+            );
+        ELSIF v_item.kind IN ('DOSE_CHANGED', 'STOPPED', 'DUPLICATED')
+            AND v_binder_item_id IS NOT NULL
+        THEN
+            SELECT COALESCE(MAX(revision), 0) INTO v_prev_revision
+            FROM binder_item_revisions
+            WHERE binder_item_id = v_binder_item_id;
+
+            UPDATE binder_items
+            SET
+                content_json = content_json || CASE v_item.kind
+                    WHEN 'DOSE_CHANGED' THEN v_content
+                    WHEN 'STOPPED' THEN jsonb_build_object('stop_date', current_date)
+                    ELSE jsonb_build_object('duplicate_of', v_item.duplicate_of_json->>'name')
+                END,
+                is_active = is_active AND v_item.kind = 'DOSE_CHANGED',
+                updated_by = v_caller
+            WHERE id = v_binder_item_id;
+
+            -- The revision trigger snapshots the previous content; say why
+            UPDATE binder_item_revisions
+            SET change_note = v_note
+            WHERE binder_item_id = v_binder_item_id
+              AND revision > v_prev_revision;
+        ELSE
+            v_note := NULL;
+        END IF;
+
+        IF v_note IS NOT NULL THEN
+            v_change := jsonb_build_object(
+                'name', COALESCE(v_item.incoming_json->>'name', v_item.base_json->>'name'),
+                'change', CASE
+                    WHEN v_item.kind = 'ADDED' THEN 'START'
+                    WHEN v_item.kind = 'STOPPED' THEN 'STOP'
+                    WHEN v_item.kind = 'DUPLICATED' THEN 'OTHER'
+                    WHEN v_item.changes_json @> '[{"field": "dose"}]' THEN 'DOSE'
+                    ELSE 'SCHEDULE'
+                END,
+                'details', v_item.summary
+            );
+
+            IF v_handoff_id IS NULL THEN
+                v_summary := left(v_item.summary, 600);
+                v_brief := jsonb_build_object(
+                    'title', 'Medication reconciliation',
+                    'summary', v_summary,
+                    'changes', jsonb_build_object('med_changes', jsonb_build_array(v_change))
+                );
+
+                INSERT INTO handoffs (
+                    circle_id,
+                    patient_id,
+                    created_by,
+                    type,
+                    title,
+                    summary,
+                    status,
+                    published_at,
+                    current_revision
+                ) VALUES (
+                    v_reconciliation.circle_id,
+                    v_reconciliation.patient_id,
+                    v_caller,
+                    'OTHER',
+                    'Medication reconciliation',
+                    v_summary,
+                    'PUBLISHED',
+                    now(),
+                    1
+                )
+                RETURNING id INTO v_handoff_id;
+
+                INSERT INTO handoff_revisions (
+                    handoff_id, revision, structured_json, edited_by, change_note
+                ) VALUES (
+                    v_handoff_id, 1, v_brief, v_caller, v_note
+                );
+
+                UPDATE med_reconciliations
+                SET handoff_id = v_handoff_id
+                WHERE id = v_reconciliation.id;
+            ELSE
+                SELECT h.current_revision, r.structured_json
+                INTO v_revision, v_brief
+                FROM handoffs h
+                JOIN handoff_revisions r
+                    ON r.handoff_id = h.id AND r.revision = h.current_revision
+                WHERE h.id = v_handoff_id
+                FOR UPDATE OF h;
+
+                v_summary := left(
+                    COALESCE(v_brief->>'summary', '') || '; ' || v_item.summary,
+                    600
+                );
+                v_brief := v_brief || jsonb_build_object(
+                    'summary', v_summary,
+                    'changes', COALESCE(v_brief->'changes', '{}'::jsonb) || jsonb_build_object(
+                        'med_changes',
+                        COALESCE(v_brief->'changes'->'med_changes', '[]'::jsonb)
+                            || jsonb_build_array(v_change)
+                    )
+                );
+                v_revision := v_revision + 1;
+
+                INSERT INTO handoff_revisions (
+                    handoff_id, revision, structured_json, edited_by, change_note
+                ) VALUES (
+                    v_handoff_id, v_revision, v_brief, v_caller, v_note
+                );
+
+                UPDATE handoffs
+                SET summary = v_summary, current_revision = v_revision
+                WHERE id = v_handoff_id;
+            END IF;
+
+            -- The scan label is now on the binder
+            IF v_item.incoming_json->>'source' = 'scan'
+                AND v_item.kind IN ('ADDED', 'DOSE_CHANGED')
+            THEN
+                UPDATE med_proposals
+                SET
+                    status = 'ACCEPTED',
+                    existing_med_id = v_binder_item_id,
+                    accepted_by = v_caller,
+                    accepted_at = now()
+                WHERE id = (v_item.incoming_json->>'id')::uuid
+                  AND status = 'PROPOSED';
+            END IF;
+        END IF;
+    END IF;
+
+    UPDATE med_reconciliation_items
+    SET
+        status = p_decision,
+        binder_item_id = v_binder_item_id,
+        decided_by = v_caller,
+        decided_at = now()
+    WHERE id = p_item_id;
+
+    SELECT COUNT(*) INTO v_pending
+    FROM med_reconciliation_items
+    WHERE reconciliation_id = v_reconciliation.id
+      AND status = 'PENDING';
+
+    IF v_pending = 0 THEN
+        UPDATE med_reconciliations
+        SET status = 'COMPLETED', completed_at = now()
+        WHERE id = v_reconciliation.id;
+    END IF;
+
+    INSERT INTO audit_events (
+        circle_id,
+        actor_user_id,
+        event_type,
+        object_type,
+        object_id,
+        metadata_json
+    ) VALUES (
+        v_reconciliation.circle_id,
+        v_caller,
+        'MED_RECONCILIATION_ITEM_' || p_decision,
+        'med_reconciliation_item',
+        p_item_id,
+        jsonb_build_object(
+            'kind', v_item.kind,
+            'binder_item_id', v_binder_item_id,
+            'handoff_id', CASE WHEN v_note IS NOT NULL THEN v_handoff_id END
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'item_id', p_item_id,
+        'status', p_decision,
+        'binder_item_id', v_binder_item_id,
+        'handoff_id', CASE WHEN v_note IS NOT NULL THEN v_handoff_id END,
+        'reconciliation_status', CASE WHEN v_pending = 0 THEN 'COMPLETED' ELSE 'OPEN' END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION decide_med_reconciliation_item(uuid, text, jsonb) IS 'Accept or reject a medication reconciliation item (uses auth.uid())';
@@ -0,0 +1,365 @@
+-- ============================================================================
+-- Migration: Medication Administration Log
+-- Description: Scheduled and recorded dose events for MED items, missed-dose
+--              status, and dose events in compute_shift_changes
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- PATIENTS: timezone
+-- ============================================================================
+-- Med schedules are local wall-clock times; dose events are generated in the
+-- patient's IANA timezone.
+
+ALTER TABLE patients
+ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN patients.timezone IS 'IANA timezone for medication schedules';
+
+-- ============================================================================
+-- TABLE: med_dose_events
+-- ============================================================================
+-- Scheduled rows are created by detect-missed-doses from each active MED's
+-- schedule and move to GIVEN, SKIPPED or REFUSED when recorded, or MISSED
+-- when nobody records them in time. As-needed doses are recorded directly,
+-- with no scheduled_for.
+
+CREATE TABLE IF NOT EXISTS med_dose_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    binder_item_id uuid NOT NULL REFERENCES binder_items(id) ON DELETE CASCADE,
+    scheduled_for timestamptz,
+    scheduled_local_time text CHECK (scheduled_local_time ~ '^\d{2}:\d{2}$'),
+    -- Dose as written on the MED when the event was created
+    dose text,
+    status text DEFAULT 'SCHEDULED' NOT NULL
+        CHECK (status IN ('SCHEDULED', 'GIVEN', 'SKIPPED', 'REFUSED', 'MISSED')),
+    given_at timestamptz,
+    recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    recorded_at timestamptz,
+    shift_id uuid REFERENCES care_shifts(id) ON DELETE SET NULL,
+    note text CHECK (note IS NULL OR length(note) <= 500),
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT med_dose_events_schedule_unique UNIQUE (binder_item_id, scheduled_for),
+    CONSTRAINT med_dose_events_unscheduled_check
+        CHECK (scheduled_for IS NOT NULL OR status NOT IN ('SCHEDULED', 'MISSED'))
+);
+
+CREATE INDEX IF NOT EXISTS med_dose_events_patient_time_idx
+    ON med_dose_events(patient_id, (COALESCE(scheduled_for, given_at)));
+CREATE INDEX IF NOT EXISTS med_dose_events_scheduled_idx
+    ON med_dose_events(scheduled_for) WHERE status = 'SCHEDULED';
+CREATE INDEX IF NOT EXISTS med_dose_events_shift_idx
+    ON med_dose_events(shift_id) WHERE shift_id IS NOT NULL;
+
+CREATE TRIGGER med_dose_events_updated_at
+    BEFORE UPDATE ON med_dose_events
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Writes go through record_med_dose and detect-missed-doses
+ALTER TABLE med_dose_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY med_dose_events_select ON med_dose_events
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE med_dose_events IS 'Medication administration log: scheduled and recorded doses';
+
+-- ============================================================================
+-- FUNCTION: record_med_dose
+-- ============================================================================
+-- Marks a scheduled dose GIVEN, SKIPPED or REFUSED (including a late entry
+-- for a MISSED dose, or a correction), or with p_binder_item_id logs an
+-- as-needed dose. The dose is linked to the caller's shift covering it.
+
+CREATE OR REPLACE FUNCTION record_med_dose(
+    p_status text,
+    p_dose_event_id uuid DEFAULT NULL,
+    p_binder_item_id uuid DEFAULT NULL,
+    p_given_at timestamptz DEFAULT NULL,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_event med_dose_events%ROWTYPE;
+    v_med binder_items%ROWTYPE;
+    v_given_at timestamptz;
+    v_shift_id uuid;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_status NOT IN ('GIVEN', 'SKIPPED', 'REFUSED') THEN
+        RETURN jsonb_build_object('error', 'Status must be GIVEN, SKIPPED or REFUSED');
+    END IF;
+
+    IF (p_dose_event_id IS NULL) = (p_binder_item_id IS NULL) THEN
+        RETURN jsonb_build_object('error', 'Provide a dose event or a medication');
+    END IF;
+
+    IF p_given_at > now() + interval '5 minutes' THEN
+        RETURN jsonb_build_object('error', 'Dose time cannot be in the future');
+    END IF;
+
+    IF p_note IS NOT NULL AND length(p_note) > 500 THEN
+        RETURN jsonb_build_object('error', 'Note too long');
+    END IF;
+
+    v_given_at := CASE WHEN p_status = 'GIVEN' THEN COALESCE(p_given_at, now()) END;
+
+    IF p_dose_event_id IS NOT NULL THEN
+        SELECT * INTO v_event
+        FROM med_dose_events
+        WHERE id = p_dose_event_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('error', 'Dose not found');
+        END IF;
+
+        IF NOT has_circle_role(v_event.circle_id, v_caller, 'CONTRIBUTOR') THEN
+            RETURN jsonb_build_object('error', 'Insufficient permissions');
+        END IF;
+
+        IF v_event.scheduled_for > now() + interval '12 hours' THEN
+            RETURN jsonb_build_object('error', 'Dose is not due yet');
+        END IF;
+    ELSE
+        SELECT * INTO v_med
+        FROM binder_items
+        WHERE id = p_binder_item_id
+          AND type = 'MED'
+          AND is_active = true
+          AND patient_id IS NOT NULL;
+
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('error', 'Medication not found');
+        END IF;
+
+        IF NOT has_circle_role(v_med.circle_id, v_caller, 'CONTRIBUTOR') THEN
+            RETURN jsonb_build_object('error', 'Insufficient permissions');
+        END IF;
+
+        v_event.circle_id := v_med.circle_id;
+        v_event.patient_id := v_med.patient_id;
+    END IF;
+
+    SELECT id INTO v_shift_id
+    FROM care_shifts
+    WHERE patient_id = v_event.patient_id
+      AND owner_user_id = v_caller
+      AND status != 'CANCELED'
+      AND start_at <= COALESCE(v_given_at, v_event.scheduled_for, now())
+      AND end_at > COALESCE(v_given_at, v_event.scheduled_for, now())
+    ORDER BY start_at DESC
+    LIMIT 1;
+
+    IF p_dose_event_id IS NOT NULL THEN
+        UPDATE med_dose_events
+        SET
+            status = p_status,
+            given_at = v_given_at,
+            recorded_by = v_caller,
+            recorded_at = now(),
+            shift_id = v_shift_id,
+            note = p_note
+        WHERE id = p_dose_event_id;
+        v_event.id := p_dose_event_id;
+    ELSE
+        INSERT INTO med_dose_events (
+            circle_id,
+            patient_id,
+            binder_item_id,
+            dose,
+            status,
+            given_at,
+            recorded_by,
+            recorded_at,
+            shift_id,
+            note
+        ) VALUES (
+            v_med.circle_id,
+            v_med.patient_id,
+            v_med.id,
+            v_med.content_json->>'dose',
+            p_status,
+            v_given_at,
+            v_caller,
+            now(),
+            v_shift_id,
+            p_note
+        )
+        RETURNING id INTO v_event.id;
+    END IF;
+
+    INSERT INTO audit_events (
+        circle_id,
+        actor_user_id,
+        event_type,
+        object_type,
+        object_id,
+        metadata_json
+    ) VALUES (
+        v_event.circle_id,
+        v_caller,
+        'MED_DOSE_RECORDED',
+        'med_dose_event',
+        v_event.id,
+        jsonb_build_object(
+            'status', p_status,
+            'previous_status', v_event.status,
+            'unscheduled', p_dose_event_id IS NULL
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'dose_event_id', v_event.id,
+        'status', p_status,
+        'given_at', v_given_at,
+        'shift_id', v_shift_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_med_dose(text, uuid, uuid, timestamptz, text) IS 'Record a dose as given, skipped or refused (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: compute_shift_changes
+-- ============================================================================
+-- Adds dose_events: doses scheduled or given from the previous shift's end
+-- through the end of this shift, so the incoming caregiver sees what was
+-- given, what was missed, and what is still due.
+
+CREATE OR REPLACE FUNCTION compute_shift_changes(
+    p_shift_id uuid,
+    p_user_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_shift care_shifts%ROWTYPE;
+    v_prev_shift care_shifts%ROWTYPE;
+    v_changes jsonb;
+    v_handoffs jsonb;
+    v_tasks jsonb;
+    v_med_changes jsonb;
+    v_dose_events jsonb;
+BEGIN
+    -- Get current shift
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id;
+    IF v_shift IS NULL THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    -- Check membership
+    IF NOT is_circle_member(v_shift.circle_id, p_user_id) THEN
+        RETURN jsonb_build_object('error', 'Not a circle member');
+    END IF;
+
+    -- Find previous completed shift
+    SELECT * INTO v_prev_shift
+    FROM care_shifts
+    WHERE circle_id = v_shift.circle_id
+      AND patient_id = v_shift.patient_id
+      AND status = 'COMPLETED'
+      AND end_at < v_shift.start_at
+    ORDER BY end_at DESC
+    LIMIT 1;
+
+    -- Compute since time (previous shift end or 24 hours ago)
+    DECLARE
+        v_since timestamptz := COALESCE(v_prev_shift.end_at, now() - interval '24 hours');
+    BEGIN
+        -- Get handoffs since last shift
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', h.id,
+            'type', h.type,
+            'title', h.title,
+            'summary', h.summary,
+            'created_at', h.created_at,
+            'created_by', u.display_name
+        ) ORDER BY h.created_at DESC), '[]'::jsonb)
+        INTO v_handoffs
+        FROM handoffs h
+        JOIN users u ON h.created_by = u.id
+        WHERE h.circle_id = v_shift.circle_id
+          AND h.patient_id = v_shift.patient_id
+          AND h.status = 'PUBLISHED'
+          AND h.created_at > v_since;
+
+        -- Get new or updated tasks
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', t.id,
+            'title', t.title,
+            'status', t.status,
+            'priority', t.priority,
+            'due_at', t.due_at,
+            'owner', u.display_name
+        ) ORDER BY t.priority DESC, t.due_at), '[]'::jsonb)
+        INTO v_tasks
+        FROM tasks t
+        JOIN users u ON t.owner_user_id = u.id
+        WHERE t.circle_id = v_shift.circle_id
+          AND t.patient_id = v_shift.patient_id
+          AND (t.updated_at > v_since OR (t.status = 'OPEN' AND t.due_at < v_shift.end_at));
+
+        -- Get medication changes
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', bi.title,
+            'updated_at', bi.updated_at
+        ) ORDER BY bi.updated_at DESC), '[]'::jsonb)
+        INTO v_med_changes
+        FROM binder_items bi
+        WHERE bi.circle_id = v_shift.circle_id
+          AND bi.patient_id = v_shift.patient_id
+          AND bi.type = 'MED'
+          AND bi.updated_at > v_since;
+
+        -- Get doses since last shift and still due this shift
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', e.id,
+            'medication', bi.title,
+            'dose', e.dose,
+            'status', e.status,
+            'scheduled_for', e.scheduled_for,
+            'given_at', e.given_at,
+            'recorded_by', u.display_name,
+            'note', e.note
+        ) ORDER BY COALESCE(e.scheduled_for, e.given_at)), '[]'::jsonb)
+        INTO v_dose_events
+        FROM med_dose_events e
+        JOIN binder_items bi ON e.binder_item_id = bi.id
+        LEFT JOIN users u ON e.recorded_by = u.id
+        WHERE e.circle_id = v_shift.circle_id
+          AND e.patient_id = v_shift.patient_id
+          AND COALESCE(e.scheduled_for, e.given_at) > v_since
+          AND COALESCE(e.scheduled_for, e.given_at) < v_shift.end_at;
+    END;
+
+    RETURN jsonb_build_object(
+        'shift_id', v_shift.id,
+        'since', COALESCE(v_prev_shift.end_at, now() - interval '24 hours'),
+        'previous_shift_owner', (
+            SELECT display_name FROM users WHERE id = v_prev_shift.owner_user_id
+        ),
+        'handoffs', v_handoffs,
+        'tasks', v_tasks,
+        'med_changes', v_med_changes,
+        'dose_events', v_dose_events,
+        'counts', jsonb_build_object(
+            'handoffs', jsonb_array_length(v_handoffs),
+            'tasks', jsonb_array_length(v_tasks),
+            'med_changes', jsonb_array_length(v_med_changes),
+            'dose_events', jsonb_array_length(v_dose_events),
+            'missed_doses', (
+                SELECT COUNT(*) FROM jsonb_array_elements(v_dose_events) d
+                WHERE d->>'status' = 'MISSED'
+            )
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
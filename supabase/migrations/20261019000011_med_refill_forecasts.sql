@@ -0,0 +1,195 @@
+-- ============================================================================
+-- Migration: Medication Refill Forecasting
+-- Description: Supply adjustments for MED items and the nightly run-out
+--              projections and refill tasks made from them
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: med_supply_adjustments
+-- ============================================================================
+-- Supply changes the label on the MED item does not show: refills picked up
+-- without scanning the new label (partial ones included), and doses lost or
+-- taken beyond the schedule. forecast-med-refills replays them after the
+-- label's fill_date.
+
+CREATE TABLE IF NOT EXISTS med_supply_adjustments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    binder_item_id uuid NOT NULL REFERENCES binder_items(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('REFILL', 'LOST', 'EXTRA_DOSE')),
+    -- In the MED's dose units (tablets, mL, ...)
+    quantity numeric NOT NULL CHECK (quantity > 0),
+    -- Pharmacy dispensed less than the prescribed quantity
+    partial boolean DEFAULT false NOT NULL,
+    -- Patient-local date the supply changed
+    occurred_on date NOT NULL,
+    note text CHECK (note IS NULL OR length(note) <= 500),
+    recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT med_supply_adjustments_partial_check CHECK (NOT partial OR kind = 'REFILL')
+);
+
+CREATE INDEX IF NOT EXISTS med_supply_adjustments_item_idx
+    ON med_supply_adjustments(binder_item_id, occurred_on);
+
+-- Writes go through record_med_supply_adjustment
+ALTER TABLE med_supply_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY med_supply_adjustments_select ON med_supply_adjustments
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE med_supply_adjustments IS 'Refills, lost doses and extra doses that change a medication''s remaining supply';
+
+-- ============================================================================
+-- TABLE: med_refill_forecasts
+-- ============================================================================
+-- One row per forecastable MED, rewritten nightly by forecast-med-refills.
+-- task_id is the open refill task, cleared once the supply is replenished.
+-- Lead time comes from circles.settings_json.refill_lead_days (default 7).
+
+CREATE TABLE IF NOT EXISTS med_refill_forecasts (
+    binder_item_id uuid PRIMARY KEY REFERENCES binder_items(id) ON DELETE CASCADE,
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    daily_use numeric NOT NULL,
+    on_hand numeric NOT NULL,
+    -- First day without enough supply; NULL when it outlasts the course
+    run_out_date date,
+    partial_fill boolean DEFAULT false NOT NULL,
+    task_id uuid REFERENCES tasks(id) ON DELETE SET NULL,
+    computed_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS med_refill_forecasts_patient_idx
+    ON med_refill_forecasts(patient_id, run_out_date);
+
+ALTER TABLE med_refill_forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY med_refill_forecasts_select ON med_refill_forecasts
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE med_refill_forecasts IS 'Projected run-out date per medication, computed nightly';
+
+-- ============================================================================
+-- FUNCTION: record_med_supply_adjustment
+-- ============================================================================
+-- p_occurred_on defaults to today in the patient's timezone. The forecast
+-- picks the adjustment up on its next nightly run.
+
+CREATE OR REPLACE FUNCTION record_med_supply_adjustment(
+    p_binder_item_id uuid,
+    p_kind text,
+    p_quantity numeric,
+    p_partial boolean DEFAULT false,
+    p_occurred_on date DEFAULT NULL,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_med binder_items%ROWTYPE;
+    v_today date;
+    v_occurred_on date;
+    v_adjustment_id uuid;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_kind NOT IN ('REFILL', 'LOST', 'EXTRA_DOSE') THEN
+        RETURN jsonb_build_object('error', 'Kind must be REFILL, LOST or EXTRA_DOSE');
+    END IF;
+
+    IF p_quantity IS NULL OR p_quantity <= 0 THEN
+        RETURN jsonb_build_object('error', 'Quantity must be positive');
+    END IF;
+
+    IF p_partial AND p_kind != 'REFILL' THEN
+        RETURN jsonb_build_object('error', 'Only refills can be partial');
+    END IF;
+
+    IF p_note IS NOT NULL AND length(p_note) > 500 THEN
+        RETURN jsonb_build_object('error', 'Note too long');
+    END IF;
+
+    SELECT * INTO v_med
+    FROM binder_items
+    WHERE id = p_binder_item_id
+      AND type = 'MED'
+      AND is_active = true
+      AND patient_id IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Medication not found');
+    END IF;
+
+    IF NOT has_circle_role(v_med.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Insufficient permissions');
+    END IF;
+
+    SELECT (now() AT TIME ZONE timezone)::date INTO v_today
+    FROM patients
+    WHERE id = v_med.patient_id;
+
+    v_occurred_on := COALESCE(p_occurred_on, v_today);
+    IF v_occurred_on > v_today THEN
+        RETURN jsonb_build_object('error', 'Date cannot be in the future');
+    END IF;
+
+    INSERT INTO med_supply_adjustments (
+        circle_id,
+        patient_id,
+        binder_item_id,
+        kind,
+        quantity,
+        partial,
+        occurred_on,
+        note,
+        recorded_by
+    ) VALUES (
+        v_med.circle_id,
+        v_med.patient_id,
+        v_med.id,
+        p_kind,
+        p_quantity,
+        COALESCE(p_partial, false),
+        v_occurred_on,
+        p_note,
+        v_caller
+    )
+    RETURNING id INTO v_adjustment_id;
+
+    INSERT INTO audit_events (
+        circle_id,
+        actor_user_id,
+        event_type,
+        object_type,
+        object_id,
+        metadata_json
+    ) VALUES (
+        v_med.circle_id,
+        v_caller,
+        'MED_SUPPLY_ADJUSTED',
+        'med_supply_adjustment',
+        v_adjustment_id,
+        jsonb_build_object(
+            'binder_item_id', v_med.id,
+            'kind', p_kind,
+            'quantity', p_quantity,
+            'partial', COALESCE(p_partial, false)
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'adjustment_id', v_adjustment_id,
+        'kind', p_kind,
+        'quantity', p_quantity,
+        'occurred_on', v_occurred_on
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_med_supply_adjustment(uuid, text, numeric, boolean, date, text) IS 'Record a refill, lost doses or extra doses for a medication (uses auth.uid())';
@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Migration: Recurring Tasks
+-- Description: RRULE task series, materialized task instances, and
+--              single-instance exceptions
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: task_series
+-- ============================================================================
+-- A recurring task: an RFC 5545 RRULE anchored at dtstart, whose local
+-- wall-clock time is kept in the series timezone. generate-recurring-tasks
+-- materializes upcoming occurrences as ordinary tasks. Editing "this and
+-- following" instances ends the series before the edited occurrence and
+-- starts a new one (parent_series_id) from it.
+
+CREATE TABLE IF NOT EXISTS task_series (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid REFERENCES patients(id) ON DELETE SET NULL,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    owner_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    title text NOT NULL,
+    description text,
+    priority text DEFAULT 'MED' NOT NULL CHECK (priority IN ('LOW', 'MED', 'HIGH')),
+    -- RRULE value without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=MO
+    rrule text NOT NULL CHECK (length(rrule) <= 255),
+    dtstart timestamptz NOT NULL,
+    timezone text NOT NULL DEFAULT 'UTC',
+    -- Last occurrence for rules with COUNT or UNTIL; NULL when open-ended
+    ends_at timestamptz,
+    parent_series_id uuid REFERENCES task_series(id) ON DELETE SET NULL,
+    status text DEFAULT 'ACTIVE' NOT NULL CHECK (status IN ('ACTIVE', 'ENDED')),
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS task_series_circle_idx ON task_series(circle_id);
+CREATE INDEX IF NOT EXISTS task_series_active_idx
+    ON task_series(ends_at) WHERE status = 'ACTIVE';
+
+CREATE TRIGGER task_series_updated_at
+    BEFORE UPDATE ON task_series
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+-- Writes go through manage-recurring-tasks and generate-recurring-tasks
+ALTER TABLE task_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_series_select ON task_series
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE task_series IS 'Recurring task definitions (RRULE); instances live in tasks';
+
+-- ============================================================================
+-- TASKS: series instances
+-- ============================================================================
+-- recurrence_at is the occurrence an instance was generated for (the
+-- iCalendar RECURRENCE-ID); due_at starts equal to it and moves when the
+-- instance alone is rescheduled. Canceled instances are kept so they are not
+-- generated again and appear as EXDATEs in calendar feeds.
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES task_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurrence_at timestamptz,
+ADD COLUMN IF NOT EXISTS is_exception boolean NOT NULL DEFAULT false;
+
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_series_occurrence_unique UNIQUE (series_id, recurrence_at);
+
+CREATE INDEX IF NOT EXISTS tasks_series_id_idx ON tasks(series_id) WHERE series_id IS NOT NULL;
+
+COMMENT ON COLUMN tasks.recurrence_at IS 'Occurrence of task_series this instance was generated for';
+COMMENT ON COLUMN tasks.is_exception IS 'Instance edited on its own; no longer follows its series';
+
+-- ============================================================================
+-- TRIGGER: mark edited instances as exceptions
+-- ============================================================================
+-- An instance edited directly (title, description, due time, priority or
+-- assignee) becomes an exception, so later "this and following" edits and
+-- calendar feeds treat it as overridden. Moving an instance between series
+-- is series maintenance, not an exception.
+
+CREATE OR REPLACE FUNCTION mark_task_instance_exception()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.series_id IS NOT NULL
+        AND NEW.series_id IS NOT DISTINCT FROM OLD.series_id
+        AND NEW.recurrence_at IS NOT DISTINCT FROM OLD.recurrence_at
+        AND (
+            NEW.title IS DISTINCT FROM OLD.title
+            OR NEW.description IS DISTINCT FROM OLD.description
+            OR NEW.due_at IS DISTINCT FROM OLD.due_at
+            OR NEW.priority IS DISTINCT FROM OLD.priority
+            OR NEW.owner_user_id IS DISTINCT FROM OLD.owner_user_id
+        )
+    THEN
+        NEW.is_exception := true;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER tasks_mark_instance_exception
+    BEFORE UPDATE ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION mark_task_instance_exception();
@@ -0,0 +1,778 @@
+-- ============================================================================
+-- Migration: Subtasks, Task Dependencies and Checklist Templates
+-- Description: Parent/child tasks, "blocked by" edges, completion rollups,
+--              and a checklist-template engine that instantiates task trees
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TASKS: subtasks
+-- ============================================================================
+-- A subtask belongs to a parent in the same circle. Deleting a parent
+-- deletes its subtasks. checklist_template_id and template_item_key record
+-- the template item a task was instantiated from.
+
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS parent_task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS checklist_template_id uuid,
+ADD COLUMN IF NOT EXISTS template_item_key text;
+
+CREATE INDEX IF NOT EXISTS tasks_parent_task_id_idx ON tasks(parent_task_id) WHERE parent_task_id IS NOT NULL;
+
+COMMENT ON COLUMN tasks.parent_task_id IS 'Parent task; subtasks roll up into it';
+COMMENT ON COLUMN tasks.template_item_key IS 'Key of the checklist item this task was created from';
+
+-- ============================================================================
+-- TRIGGER: subtask hierarchy checks
+-- ============================================================================
+-- Keeps parents in the same circle, prevents cycles, and limits nesting to
+-- five levels so rollups stay shallow.
+
+CREATE OR REPLACE FUNCTION check_task_parent()
+RETURNS trigger AS $$
+DECLARE
+    v_parent tasks%ROWTYPE;
+    v_ancestor uuid;
+    v_depth int := 1;
+BEGIN
+    IF NEW.parent_task_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_parent FROM tasks WHERE id = NEW.parent_task_id;
+
+    IF v_parent.circle_id IS DISTINCT FROM NEW.circle_id THEN
+        RAISE EXCEPTION 'Parent task must be in the same circle'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_ancestor := NEW.parent_task_id;
+    WHILE v_ancestor IS NOT NULL LOOP
+        IF v_ancestor = NEW.id THEN
+            RAISE EXCEPTION 'A task cannot be its own ancestor'
+                USING ERRCODE = 'check_violation';
+        END IF;
+        v_depth := v_depth + 1;
+        IF v_depth > 5 THEN
+            RAISE EXCEPTION 'Subtasks can be nested at most 5 levels deep'
+                USING ERRCODE = 'check_violation';
+        END IF;
+        SELECT parent_task_id INTO v_ancestor FROM tasks WHERE id = v_ancestor;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_check_parent
+    BEFORE INSERT OR UPDATE OF parent_task_id ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION check_task_parent();
+
+-- ============================================================================
+-- TABLE: task_dependencies
+-- ============================================================================
+-- task_id is blocked by blocked_by_task_id: it cannot be completed while the
+-- blocker is OPEN. Canceled blockers no longer block.
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+    task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    blocked_by_task_id uuid NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at timestamptz DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (task_id, blocked_by_task_id),
+    CONSTRAINT task_dependencies_not_self CHECK (task_id <> blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS task_dependencies_blocker_idx ON task_dependencies(blocked_by_task_id);
+
+CREATE OR REPLACE FUNCTION check_task_dependency()
+RETURNS trigger AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM tasks WHERE id = NEW.task_id AND circle_id = NEW.circle_id
+    ) OR NOT EXISTS (
+        SELECT 1 FROM tasks WHERE id = NEW.blocked_by_task_id AND circle_id = NEW.circle_id
+    ) THEN
+        RAISE EXCEPTION 'Both tasks must be in the dependency''s circle'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Reject the edge if the blocker already (transitively) waits on the task
+    IF EXISTS (
+        WITH RECURSIVE chain(id) AS (
+            SELECT blocked_by_task_id
+            FROM task_dependencies
+            WHERE task_id = NEW.blocked_by_task_id
+            UNION
+            SELECT d.blocked_by_task_id
+            FROM task_dependencies d
+            JOIN chain c ON d.task_id = c.id
+        )
+        SELECT 1 FROM chain WHERE id = NEW.task_id
+    ) THEN
+        RAISE EXCEPTION 'Task dependencies cannot form a cycle'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER task_dependencies_check
+    BEFORE INSERT OR UPDATE ON task_dependencies
+    FOR EACH ROW
+    EXECUTE FUNCTION check_task_dependency();
+
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_dependencies_select ON task_dependencies
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+CREATE POLICY task_dependencies_insert ON task_dependencies
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid()
+        AND has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR')
+    );
+
+CREATE POLICY task_dependencies_delete ON task_dependencies
+    FOR DELETE USING (has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+COMMENT ON TABLE task_dependencies IS '"Blocked by" edges between tasks';
+
+-- ============================================================================
+-- TRIGGER: blocked tasks cannot be completed
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_task_blockers()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.status = 'DONE' AND OLD.status <> 'DONE' AND EXISTS (
+        SELECT 1
+        FROM task_dependencies d
+        JOIN tasks b ON b.id = d.blocked_by_task_id
+        WHERE d.task_id = NEW.id
+          AND b.status = 'OPEN'
+    ) THEN
+        RAISE EXCEPTION 'Task is blocked by open tasks'
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_enforce_blockers
+    BEFORE UPDATE OF status ON tasks
+    FOR EACH ROW
+    EXECUTE FUNCTION enforce_task_blockers();
+
+-- ============================================================================
+-- TRIGGER: completion rollup
+-- ============================================================================
+-- When a subtask is completed or canceled and none of its siblings are still
+-- open, the parent is completed too (unless every subtask was canceled, or
+-- the parent is itself blocked). This cascades up the tree.
+
+CREATE OR REPLACE FUNCTION roll_up_task_completion()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.status = 'OPEN' OR OLD.status <> 'OPEN' THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM tasks
+        WHERE parent_task_id = NEW.parent_task_id AND status = 'OPEN'
+    ) OR NOT EXISTS (
+        SELECT 1 FROM tasks
+        WHERE parent_task_id = NEW.parent_task_id AND status = 'DONE'
+    ) OR EXISTS (
+        SELECT 1
+        FROM task_dependencies d
+        JOIN tasks b ON b.id = d.blocked_by_task_id
+        WHERE d.task_id = NEW.parent_task_id
+          AND b.status = 'OPEN'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE tasks
+    SET
+        status = 'DONE',
+        completed_at = now(),
+        completed_by = COALESCE(NEW.completed_by, NEW.owner_user_id),
+        completion_note = 'All subtasks completed',
+        updated_at = now()
+    WHERE id = NEW.parent_task_id
+      AND status = 'OPEN';
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_roll_up_completion
+    AFTER UPDATE OF status ON tasks
+    FOR EACH ROW
+    WHEN (NEW.parent_task_id IS NOT NULL)
+    EXECUTE FUNCTION roll_up_task_completion();
+
+-- ============================================================================
+-- VIEW: task_progress
+-- ============================================================================
+
+CREATE OR REPLACE VIEW task_progress
+WITH (security_invoker = true) AS
+SELECT
+    t.id AS task_id,
+    t.circle_id,
+    count(s.id) AS subtask_count,
+    count(s.id) FILTER (WHERE s.status = 'DONE') AS subtasks_done,
+    count(s.id) FILTER (WHERE s.status = 'OPEN') AS subtasks_open,
+    (
+        SELECT count(*)
+        FROM task_dependencies d
+        JOIN tasks b ON b.id = d.blocked_by_task_id
+        WHERE d.task_id = t.id
+          AND b.status = 'OPEN'
+    ) AS open_blocker_count
+FROM tasks t
+LEFT JOIN tasks s ON s.parent_task_id = t.id
+GROUP BY t.id, t.circle_id;
+
+COMMENT ON VIEW task_progress IS 'Subtask completion rollup and open blocker count per task';
+
+-- ============================================================================
+-- FUNCTION: complete_task (blocked tasks)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION complete_task(
+    p_task_id uuid,
+    p_completion_note text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_task tasks%ROWTYPE;
+    v_caller uuid := auth.uid();
+    v_blockers uuid[];
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    -- Get the task
+    SELECT * INTO v_task FROM tasks WHERE id = p_task_id;
+
+    IF v_task IS NULL THEN
+        RETURN jsonb_build_object('error', 'Task not found');
+    END IF;
+
+    -- Check if user can complete (must be assignee, creator, or admin+)
+    IF v_task.owner_user_id != v_caller
+       AND v_task.created_by != v_caller
+       AND NOT has_circle_role(v_task.circle_id, v_caller, 'ADMIN') THEN
+        RETURN jsonb_build_object('error', 'Permission denied');
+    END IF;
+
+    -- Check if already completed
+    IF v_task.status = 'DONE' THEN
+        RETURN jsonb_build_object('error', 'Task already completed');
+    END IF;
+
+    SELECT array_agg(d.blocked_by_task_id) INTO v_blockers
+    FROM task_dependencies d
+    JOIN tasks b ON b.id = d.blocked_by_task_id
+    WHERE d.task_id = p_task_id
+      AND b.status = 'OPEN';
+
+    IF v_blockers IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'error', 'Task is blocked by open tasks',
+            'blocked_by', to_jsonb(v_blockers)
+        );
+    END IF;
+
+    -- Complete the task
+    UPDATE tasks
+    SET
+        status = 'DONE',
+        completed_at = now(),
+        completed_by = v_caller,
+        completion_note = p_completion_note,
+        updated_at = now()
+    WHERE id = p_task_id;
+
+    RETURN jsonb_build_object(
+        'task_id', p_task_id,
+        'status', 'DONE',
+        'completed_at', now(),
+        'completed_by', v_caller
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION complete_task(uuid, text) IS 'Mark a task as completed with immutable completion log (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: checklist_items_error
+-- ============================================================================
+-- Validates a checklist item list, returning an error message or NULL.
+-- Items are a flat array; each is
+--   {key, title, parent_key?, description?, priority?, due_offset_days?,
+--    blocked_by?: [key], owner_user_id?, due_at?}
+-- A parent must appear before its children, so a single pass can create
+-- the tree. owner_user_id and due_at are per-instance overrides.
+
+CREATE OR REPLACE FUNCTION checklist_items_error(p_items jsonb)
+RETURNS text AS $$
+DECLARE
+    v_item jsonb;
+    v_key text;
+    v_keys text[] := '{}';
+    v_depths jsonb := '{}'::jsonb;
+    v_depth int;
+    v_blocker text;
+BEGIN
+    IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' THEN
+        RETURN 'Items must be an array';
+    END IF;
+
+    IF jsonb_array_length(p_items) = 0 OR jsonb_array_length(p_items) > 200 THEN
+        RETURN 'A checklist must have between 1 and 200 items';
+    END IF;
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+        IF jsonb_typeof(v_item) IS DISTINCT FROM 'object' THEN
+            RETURN 'Each item must be an object';
+        END IF;
+
+        v_key := v_item->>'key';
+        IF v_key IS NULL OR length(v_key) NOT BETWEEN 1 AND 64 THEN
+            RETURN 'Each item needs a key of at most 64 characters';
+        END IF;
+        IF v_key = ANY(v_keys) THEN
+            RETURN 'Duplicate item key: ' || v_key;
+        END IF;
+
+        IF v_item->>'title' IS NULL OR length(trim(v_item->>'title')) NOT BETWEEN 1 AND 200 THEN
+            RETURN 'Item ' || v_key || ' needs a title of at most 200 characters';
+        END IF;
+        IF length(v_item->>'description') > 2000 THEN
+            RETURN 'Item ' || v_key || ' description is too long';
+        END IF;
+        IF v_item ? 'priority' AND v_item->>'priority' NOT IN ('LOW', 'MED', 'HIGH') THEN
+            RETURN 'Item ' || v_key || ' priority must be LOW, MED or HIGH';
+        END IF;
+        IF v_item ? 'due_offset_days' AND (
+            jsonb_typeof(v_item->'due_offset_days') IS DISTINCT FROM 'number'
+            OR (v_item->>'due_offset_days') !~ '^-?\d+$'
+            OR abs((v_item->>'due_offset_days')::int) > 365
+        ) THEN
+            RETURN 'Item ' || v_key || ' due_offset_days must be a whole number of days within a year';
+        END IF;
+        IF v_item ? 'owner_user_id' AND (v_item->>'owner_user_id') !~*
+            '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN
+            RETURN 'Item ' || v_key || ' owner_user_id must be a UUID';
+        END IF;
+        IF v_item ? 'due_at' AND (v_item->>'due_at') !~
+            '^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$'
+        THEN
+            RETURN 'Item ' || v_key || ' due_at must be an ISO date-time with offset';
+        END IF;
+
+        IF v_item->>'parent_key' IS NULL THEN
+            v_depth := 1;
+        ELSIF NOT (v_item->>'parent_key') = ANY(v_keys) THEN
+            RETURN 'Item ' || v_key || ' must come after its parent';
+        ELSE
+            v_depth := (v_depths->>(v_item->>'parent_key'))::int + 1;
+            -- Instantiated under a root task, so four levels of items
+            IF v_depth > 4 THEN
+                RETURN 'Items can be nested at most 4 levels deep';
+            END IF;
+        END IF;
+
+        v_keys := v_keys || v_key;
+        v_depths := v_depths || jsonb_build_object(v_key, v_depth);
+    END LOOP;
+
+    FOR v_item IN SELECT value FROM jsonb_array_elements(p_items) LOOP
+        IF v_item ? 'blocked_by' THEN
+            IF jsonb_typeof(v_item->'blocked_by') IS DISTINCT FROM 'array' THEN
+                RETURN 'Item ' || (v_item->>'key') || ' blocked_by must be an array of keys';
+            END IF;
+            FOR v_blocker IN SELECT jsonb_array_elements_text(v_item->'blocked_by') LOOP
+                IF NOT v_blocker = ANY(v_keys) OR v_blocker = v_item->>'key' THEN
+                    RETURN 'Item ' || (v_item->>'key') || ' is blocked by an unknown item';
+                END IF;
+            END LOOP;
+        END IF;
+    END LOOP;
+
+    IF EXISTS (
+        WITH RECURSIVE
+        edges(key, blocker) AS (
+            SELECT i.value->>'key', b.value
+            FROM jsonb_array_elements(p_items) i,
+                 jsonb_array_elements_text(COALESCE(i.value->'blocked_by', '[]'::jsonb)) b
+        ),
+        chain(origin, key) AS (
+            SELECT key, blocker FROM edges
+            UNION
+            SELECT c.origin, e.blocker
+            FROM chain c
+            JOIN edges e ON e.key = c.key
+        )
+        SELECT 1 FROM chain WHERE origin = key
+    ) THEN
+        RETURN 'Item dependencies cannot form a cycle';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- TABLE: checklist_templates
+-- ============================================================================
+-- Shared template store for discharge, shift and general checklists. System
+-- templates have no circle and are read-only.
+
+CREATE TABLE IF NOT EXISTS checklist_templates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid REFERENCES circles(id) ON DELETE CASCADE,
+    kind text DEFAULT 'GENERAL' NOT NULL CHECK (kind IN ('GENERAL', 'DISCHARGE', 'SHIFT')),
+    name text NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+    description text,
+    items jsonb NOT NULL,
+    is_system boolean DEFAULT false NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT checklist_templates_owner CHECK (is_system = (circle_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS checklist_templates_circle_idx
+    ON checklist_templates(circle_id, kind) WHERE is_active = true;
+
+CREATE TRIGGER checklist_templates_updated_at
+    BEFORE UPDATE ON checklist_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+CREATE OR REPLACE FUNCTION validate_checklist_template()
+RETURNS trigger AS $$
+DECLARE
+    v_error text := checklist_items_error(NEW.items);
+BEGIN
+    IF v_error IS NOT NULL THEN
+        RAISE EXCEPTION '%', v_error USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER checklist_templates_validate
+    BEFORE INSERT OR UPDATE OF items ON checklist_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_checklist_template();
+
+ALTER TABLE tasks
+ADD CONSTRAINT tasks_checklist_template_fk
+    FOREIGN KEY (checklist_template_id) REFERENCES checklist_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE checklist_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY checklist_templates_select ON checklist_templates
+    FOR SELECT USING (
+        circle_id IS NULL
+        OR is_circle_member(circle_id, auth.uid())
+    );
+
+CREATE POLICY checklist_templates_insert ON checklist_templates
+    FOR INSERT WITH CHECK (
+        NOT is_system
+        AND has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR')
+    );
+
+CREATE POLICY checklist_templates_update ON checklist_templates
+    FOR UPDATE
+    USING (NOT is_system AND has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'))
+    WITH CHECK (NOT is_system AND has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+CREATE POLICY checklist_templates_delete ON checklist_templates
+    FOR DELETE USING (NOT is_system AND has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+COMMENT ON TABLE checklist_templates IS 'Checklist templates instantiated as trees of tasks';
+
+-- ============================================================================
+-- FUNCTION: instantiate_checklist (service role)
+-- ============================================================================
+-- The checklist engine. Creates a root task titled p_title with the items as
+-- its subtasks, plus their "blocked by" edges, in one transaction. Due
+-- dates are p_anchor_at plus each item's due_offset_days (never in the
+-- past), unless the item sets due_at. Items are owned by p_owner_user_id
+-- unless they set owner_user_id. Called by instantiate_checklist_template
+-- and generate-discharge-outputs.
+
+CREATE OR REPLACE FUNCTION instantiate_checklist(
+    p_circle_id uuid,
+    p_patient_id uuid,
+    p_user_id uuid,
+    p_title text,
+    p_items jsonb,
+    p_anchor_at timestamptz DEFAULT NULL,
+    p_owner_user_id uuid DEFAULT NULL,
+    p_template_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_error text;
+    v_owner uuid := COALESCE(p_owner_user_id, p_user_id);
+    v_root_id uuid;
+    v_task_id uuid;
+    v_ids jsonb := '{}'::jsonb;
+    v_item jsonb;
+    v_due_at timestamptz;
+    v_blocker text;
+BEGIN
+    IF NOT has_circle_role(p_circle_id, p_user_id, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Insufficient permissions');
+    END IF;
+
+    IF p_title IS NULL OR length(trim(p_title)) NOT BETWEEN 1 AND 200 THEN
+        RETURN jsonb_build_object('error', 'Title must be 1 to 200 characters');
+    END IF;
+
+    v_error := checklist_items_error(p_items);
+    IF v_error IS NOT NULL THEN
+        RETURN jsonb_build_object('error', v_error);
+    END IF;
+
+    IF p_patient_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM patients WHERE id = p_patient_id AND circle_id = p_circle_id
+    ) THEN
+        RETURN jsonb_build_object('error', 'Patient not found');
+    END IF;
+
+    IF NOT is_circle_member(p_circle_id, v_owner) OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_items) i
+        WHERE i.value ? 'owner_user_id'
+          AND NOT is_circle_member(p_circle_id, (i.value->>'owner_user_id')::uuid)
+    ) THEN
+        RETURN jsonb_build_object('error', 'Owner must be a circle member');
+    END IF;
+
+    INSERT INTO tasks (
+        circle_id, patient_id, created_by, owner_user_id, title, status,
+        checklist_template_id
+    ) VALUES (
+        p_circle_id, p_patient_id, p_user_id, v_owner, trim(p_title), 'OPEN',
+        p_template_id
+    )
+    RETURNING id INTO v_root_id;
+
+    FOR v_item IN
+        SELECT value FROM jsonb_array_elements(p_items) WITH ORDINALITY ORDER BY ordinality
+    LOOP
+        v_due_at := CASE
+            WHEN v_item ? 'due_at' THEN (v_item->>'due_at')::timestamptz
+            WHEN p_anchor_at IS NOT NULL AND v_item ? 'due_offset_days' THEN
+                GREATEST(
+                    p_anchor_at + make_interval(days => (v_item->>'due_offset_days')::int),
+                    now()
+                )
+        END;
+
+        INSERT INTO tasks (
+            circle_id, patient_id, created_by, owner_user_id, title,
+            description, due_at, priority, status, parent_task_id,
+            checklist_template_id, template_item_key
+        ) VALUES (
+            p_circle_id,
+            p_patient_id,
+            p_user_id,
+            COALESCE((v_item->>'owner_user_id')::uuid, v_owner),
+            trim(v_item->>'title'),
+            v_item->>'description',
+            v_due_at,
+            COALESCE(v_item->>'priority', 'MED'),
+            'OPEN',
+            COALESCE((v_ids->>(v_item->>'parent_key'))::uuid, v_root_id),
+            p_template_id,
+            v_item->>'key'
+        )
+        RETURNING id INTO v_task_id;
+
+        v_ids := v_ids || jsonb_build_object(v_item->>'key', v_task_id);
+    END LOOP;
+
+    FOR v_item IN
+        SELECT value FROM jsonb_array_elements(p_items) WHERE value ? 'blocked_by'
+    LOOP
+        FOR v_blocker IN SELECT jsonb_array_elements_text(v_item->'blocked_by') LOOP
+            INSERT INTO task_dependencies (task_id, blocked_by_task_id, circle_id, created_by)
+            VALUES (
+                (v_ids->>(v_item->>'key'))::uuid,
+                (v_ids->>v_blocker)::uuid,
+                p_circle_id,
+                p_user_id
+            )
+            ON CONFLICT DO NOTHING;
+        END LOOP;
+    END LOOP;
+
+    PERFORM create_audit_event(
+        p_circle_id,
+        p_user_id,
+        'CHECKLIST_INSTANTIATED',
+        'task',
+        v_root_id,
+        jsonb_build_object(
+            'template_id', p_template_id,
+            'item_count', jsonb_array_length(p_items)
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'root_task_id', v_root_id,
+        'task_ids', v_ids
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION instantiate_checklist IS 'Create a root task with checklist items as subtasks and dependencies';
+
+REVOKE EXECUTE ON FUNCTION instantiate_checklist(uuid, uuid, uuid, text, jsonb, timestamptz, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION instantiate_checklist(uuid, uuid, uuid, text, jsonb, timestamptz, uuid, uuid) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: instantiate_checklist_template
+-- ============================================================================
+-- Client entry point: instantiate a saved template (optionally only some of
+-- its items) for a circle. Ancestors of chosen items are always included;
+-- dependencies on items left out are dropped.
+
+CREATE OR REPLACE FUNCTION instantiate_checklist_template(
+    p_template_id uuid,
+    p_circle_id uuid,
+    p_patient_id uuid DEFAULT NULL,
+    p_anchor_at timestamptz DEFAULT NULL,
+    p_owner_user_id uuid DEFAULT NULL,
+    p_title text DEFAULT NULL,
+    p_item_keys text[] DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_template checklist_templates%ROWTYPE;
+    v_keys text[];
+    v_items jsonb;
+    v_count int;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_template
+    FROM checklist_templates
+    WHERE id = p_template_id
+      AND is_active = true
+      AND (circle_id IS NULL OR circle_id = p_circle_id);
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Template not found');
+    END IF;
+
+    IF p_item_keys IS NULL THEN
+        v_items := v_template.items;
+    ELSE
+        -- Add ancestors until no new keys appear
+        v_keys := p_item_keys;
+        LOOP
+            SELECT count(*) INTO v_count FROM unnest(v_keys);
+            SELECT array_agg(DISTINCT k) INTO v_keys
+            FROM (
+                SELECT unnest(v_keys) AS k
+                UNION
+                SELECT i.value->>'parent_key'
+                FROM jsonb_array_elements(v_template.items) i
+                WHERE i.value->>'key' = ANY(v_keys)
+                  AND i.value->>'parent_key' IS NOT NULL
+            ) s;
+            EXIT WHEN COALESCE(array_length(v_keys, 1), 0) = v_count;
+        END LOOP;
+
+        SELECT jsonb_agg(
+            CASE WHEN i.value ? 'blocked_by' THEN
+                jsonb_set(
+                    i.value,
+                    '{blocked_by}',
+                    COALESCE((
+                        SELECT jsonb_agg(b)
+                        FROM jsonb_array_elements_text(i.value->'blocked_by') b
+                        WHERE b = ANY(v_keys)
+                    ), '[]'::jsonb)
+                )
+            ELSE i.value END
+            ORDER BY i.ordinality
+        )
+        INTO v_items
+        FROM jsonb_array_elements(v_template.items) WITH ORDINALITY i
+        WHERE i.value->>'key' = ANY(v_keys);
+
+        IF v_items IS NULL THEN
+            RETURN jsonb_build_object('error', 'No matching template items');
+        END IF;
+    END IF;
+
+    RETURN instantiate_checklist(
+        p_circle_id,
+        p_patient_id,
+        v_caller,
+        COALESCE(p_title, v_template.name),
+        v_items,
+        p_anchor_at,
+        p_owner_user_id,
+        v_template.id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION instantiate_checklist_template IS 'Instantiate a checklist template as a tree of tasks (uses auth.uid())';
+
+-- ============================================================================
+-- SEED: system templates
+-- ============================================================================
+-- Discharge and shift checklists keep their own tables for the wizard and
+-- shift mode; these give circles a starting point for task-based checklists.
+
+INSERT INTO checklist_templates (kind, name, description, items, is_system) VALUES
+('DISCHARGE', 'Discharge Home', 'Tasks for the first week home from a hospital stay', '[
+  {"key": "BEFORE_LEAVING", "title": "Before leaving the hospital", "due_offset_days": 0},
+  {"key": "BEFORE_LEAVING_1", "parent_key": "BEFORE_LEAVING", "title": "Get written discharge instructions", "due_offset_days": 0},
+  {"key": "BEFORE_LEAVING_2", "parent_key": "BEFORE_LEAVING", "title": "Review medication list with nurse", "due_offset_days": 0},
+  {"key": "BEFORE_LEAVING_3", "parent_key": "BEFORE_LEAVING", "title": "Schedule follow-up appointments", "due_offset_days": 0},
+  {"key": "MEDICATIONS", "title": "Medications", "priority": "HIGH", "due_offset_days": 0},
+  {"key": "MEDICATIONS_1", "parent_key": "MEDICATIONS", "title": "Fill new prescriptions", "priority": "HIGH", "due_offset_days": 0, "blocked_by": ["BEFORE_LEAVING_2"]},
+  {"key": "MEDICATIONS_2", "parent_key": "MEDICATIONS", "title": "Reconcile with existing medications", "priority": "HIGH", "due_offset_days": 1, "blocked_by": ["MEDICATIONS_1"]},
+  {"key": "MEDICATIONS_3", "parent_key": "MEDICATIONS", "title": "Set up medication organizer", "due_offset_days": 1, "blocked_by": ["MEDICATIONS_2"]},
+  {"key": "HOME_PREP", "title": "Prepare the home", "due_offset_days": -1},
+  {"key": "HOME_PREP_1", "parent_key": "HOME_PREP", "title": "Prepare bedroom for easy access", "due_offset_days": -1},
+  {"key": "HOME_PREP_2", "parent_key": "HOME_PREP", "title": "Remove area rugs and tripping hazards", "due_offset_days": -1},
+  {"key": "FIRST_WEEK", "title": "First week", "due_offset_days": 7},
+  {"key": "FIRST_WEEK_1", "parent_key": "FIRST_WEEK", "title": "Watch for warning signs listed in discharge papers", "due_offset_days": 7},
+  {"key": "FIRST_WEEK_2", "parent_key": "FIRST_WEEK", "title": "Attend first follow-up appointment", "due_offset_days": 7, "blocked_by": ["BEFORE_LEAVING_3"]}
+]'::jsonb, true),
+
+('SHIFT', 'Care Shift', 'Routine tasks for a care shift', '[
+  {"key": "ARRIVAL", "title": "Read the last shift summary", "due_offset_days": 0},
+  {"key": "MEDS", "title": "Give scheduled medications", "priority": "HIGH", "due_offset_days": 0},
+  {"key": "MEALS", "title": "Meals and fluids", "due_offset_days": 0},
+  {"key": "HANDOFF", "title": "Record the shift handoff", "due_offset_days": 0, "blocked_by": ["MEDS"]}
+]'::jsonb, true);
@@ -0,0 +1,91 @@
+-- ============================================================================
+-- Migration: Task Assignment Recommender
+-- Description: Declared skills and coarse home locations for circle members,
+--              and patient home locations, used to suggest task assignees
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: member_care_profiles
+-- ============================================================================
+-- What a member offers a circle. Skills are visible to the circle; the home
+-- location is private to the member and only used server-side to compute
+-- proximity to the patient. Coordinates are rounded to two decimals (about
+-- 1 km) before they are stored.
+
+CREATE TABLE IF NOT EXISTS member_care_profiles (
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    skills text[] DEFAULT '{}' NOT NULL CHECK (
+        skills <@ ARRAY[
+            'MEDICATIONS', 'WOUND_CARE', 'DRIVING', 'MOBILITY', 'MEALS',
+            'PERSONAL_CARE', 'PAPERWORK', 'TECH'
+        ]::text[]
+    ),
+    home_latitude numeric(4, 2) CHECK (home_latitude BETWEEN -90 AND 90),
+    home_longitude numeric(5, 2) CHECK (home_longitude BETWEEN -180 AND 180),
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (circle_id, user_id),
+    CONSTRAINT member_care_profiles_location_pair
+        CHECK ((home_latitude IS NULL) = (home_longitude IS NULL))
+);
+
+CREATE TRIGGER member_care_profiles_updated_at
+    BEFORE UPDATE ON member_care_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE member_care_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Members manage their own profile; others see skills via member_skills
+CREATE POLICY member_care_profiles_select ON member_care_profiles
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY member_care_profiles_insert ON member_care_profiles
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND is_circle_member(circle_id, auth.uid())
+    );
+
+CREATE POLICY member_care_profiles_update ON member_care_profiles
+    FOR UPDATE
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY member_care_profiles_delete ON member_care_profiles
+    FOR DELETE USING (user_id = auth.uid());
+
+COMMENT ON TABLE member_care_profiles IS 'Declared skills and private coarse home location per circle member';
+
+-- ============================================================================
+-- FUNCTION: member_skills
+-- ============================================================================
+-- Skills of a circle's members, without their locations.
+
+CREATE OR REPLACE FUNCTION member_skills(p_circle_id uuid)
+RETURNS TABLE (user_id uuid, skills text[]) AS $$
+BEGIN
+    IF NOT is_circle_member(p_circle_id, auth.uid()) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT p.user_id, p.skills
+    FROM member_care_profiles p
+    WHERE p.circle_id = p_circle_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION member_skills IS 'Declared skills of circle members (no locations; uses auth.uid())';
+
+-- ============================================================================
+-- PATIENTS: home location
+-- ============================================================================
+
+ALTER TABLE patients
+ADD COLUMN IF NOT EXISTS home_latitude numeric(4, 2) CHECK (home_latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS home_longitude numeric(5, 2) CHECK (home_longitude BETWEEN -180 AND 180);
+
+COMMENT ON COLUMN patients.home_latitude IS 'Coarse (about 1 km) home location, used for assignment proximity';
@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Migration: Alert Rule Engine
+-- Description: Conditions, actions, cooldown and dry-run mode for alert_rules,
+--              with each match logged to alert_events
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- ALERT_RULES: actions, cooldown and dry-run mode
+-- ============================================================================
+-- rule_key names the condition and params_json its parameters:
+--   TASK_OVERDUE       {overdue_hours, priorities?}
+--   HANDOFF_GAP        {days}
+--   MED_DOSES_SKIPPED  {count, within_days, statuses?}
+-- actions_json lists what happens on a match: NOTIFY_ASSIGNEE,
+-- NOTIFY_ADMINS, REASSIGN {strategy, user_id?} and CREATE_FOLLOW_UP
+-- {title?, due_in_hours, priority?}. A dry-run rule is evaluated and logged
+-- but takes no actions. evaluate-alert-rules runs them; the older
+-- OVERDUE_TASKS and STALENESS keys remain with evaluate_alerts.
+
+ALTER TABLE alert_rules
+ADD COLUMN IF NOT EXISTS name text CHECK (name IS NULL OR length(name) <= 200),
+ADD COLUMN IF NOT EXISTS actions_json jsonb NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(actions_json) = 'array'),
+ADD COLUMN IF NOT EXISTS cooldown_hours int NOT NULL DEFAULT 24
+    CHECK (cooldown_hours BETWEEN 1 AND 720),
+ADD COLUMN IF NOT EXISTS dry_run boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN alert_rules.rule_key IS 'Rule types: TASK_OVERDUE, HANDOFF_GAP, MED_DOSES_SKIPPED (evaluate-alert-rules); OVERDUE_TASKS, UNCONFIRMED_MEDS, STALENESS, REPEATED_EDITS (legacy)';
+COMMENT ON COLUMN alert_rules.dry_run IS 'Evaluate and log matches without taking actions';
+
+-- Writes go through manage-alert-rules, which validates conditions and
+-- actions
+DROP POLICY IF EXISTS alert_rules_insert ON alert_rules;
+DROP POLICY IF EXISTS alert_rules_update ON alert_rules;
+
+-- ============================================================================
+-- ALERT_EVENTS: rule matches
+-- ============================================================================
+-- One row per rule match: the subject that matched (a task, patient or
+-- medication) and, in payload_json, the condition details and the outcome
+-- of each action. Cooldowns are checked per rule and subject.
+
+ALTER TABLE alert_events
+ADD COLUMN IF NOT EXISTS rule_id uuid REFERENCES alert_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS subject_type text
+    CHECK (subject_type IS NULL OR subject_type IN ('task', 'patient', 'binder_item')),
+ADD COLUMN IF NOT EXISTS subject_id uuid,
+ADD COLUMN IF NOT EXISTS dry_run boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS alert_events_rule_subject_idx
+    ON alert_events(rule_id, subject_id, fired_at DESC)
+    WHERE rule_id IS NOT NULL;
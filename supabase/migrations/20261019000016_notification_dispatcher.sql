@@ -0,0 +1,193 @@
+-- ============================================================================
+-- Migration: Notification Dispatcher
+-- Description: Device tokens, retry scheduling and leases for
+--              notification_outbox, and per-channel delivery status
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: push_tokens
+-- ============================================================================
+-- APNs device tokens, one row per device. A token moves to the user who
+-- registered it last; tokens APNs rejects are disabled by the dispatcher.
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token text NOT NULL UNIQUE CHECK (token ~ '^[0-9a-fA-F]{64,200}$'),
+    platform text DEFAULT 'IOS' NOT NULL CHECK (platform IN ('IOS')),
+    environment text DEFAULT 'production' NOT NULL
+        CHECK (environment IN ('production', 'sandbox')),
+    disabled_at timestamptz,
+    last_used_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS push_tokens_user_idx
+    ON push_tokens(user_id) WHERE disabled_at IS NULL;
+
+CREATE TRIGGER push_tokens_updated_at
+    BEFORE UPDATE ON push_tokens
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY push_tokens_select_own ON push_tokens
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY push_tokens_delete_own ON push_tokens
+    FOR DELETE USING (user_id = auth.uid());
+
+-- Registration goes through register_push_token, which can take a token
+-- over from another account on a shared device
+
+CREATE OR REPLACE FUNCTION register_push_token(
+    p_token text,
+    p_environment text DEFAULT 'production'
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_user_id uuid := auth.uid();
+    v_id uuid;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object('error', 'Not authenticated');
+    END IF;
+    IF p_token IS NULL OR p_token !~ '^[0-9a-fA-F]{64,200}$' THEN
+        RETURN jsonb_build_object('error', 'Invalid token');
+    END IF;
+    IF p_environment NOT IN ('production', 'sandbox') THEN
+        RETURN jsonb_build_object('error', 'Invalid environment');
+    END IF;
+
+    INSERT INTO push_tokens (user_id, token, environment)
+    VALUES (v_user_id, lower(p_token), p_environment)
+    ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        environment = EXCLUDED.environment,
+        disabled_at = NULL
+    RETURNING id INTO v_id;
+
+    RETURN jsonb_build_object('id', v_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON TABLE push_tokens IS 'APNs device tokens; disabled when APNs reports them invalid';
+
+-- ============================================================================
+-- USERS: SMS number
+-- ============================================================================
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS phone_e164 text CHECK (phone_e164 IS NULL OR phone_e164 ~ '^\+[1-9][0-9]{6,14}$');
+
+COMMENT ON COLUMN users.phone_e164 IS 'Mobile number for SMS notifications, E.164';
+
+-- ============================================================================
+-- NOTIFICATION_OUTBOX: channels, retries and leases
+-- ============================================================================
+-- dispatch-notifications claims PENDING rows whose next_attempt_at has
+-- passed (and SENDING rows whose lease expired, after a crashed run) with
+-- claim_notifications. Retryable failures go back to PENDING with
+-- exponential backoff; after the last attempt, or on a permanent failure,
+-- a row is dead-lettered as FAILED with error_message set.
+
+ALTER TABLE notification_outbox
+DROP CONSTRAINT IF EXISTS notification_outbox_status_check;
+
+ALTER TABLE notification_outbox
+ADD CONSTRAINT notification_outbox_status_check
+    CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED'));
+
+ALTER TABLE notification_outbox
+ADD COLUMN IF NOT EXISTS channels text[] DEFAULT '{PUSH}' NOT NULL
+    CHECK (channels <> '{}' AND channels <@ ARRAY['PUSH', 'EMAIL', 'SMS']::text[]),
+ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz DEFAULT now() NOT NULL,
+ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+
+DROP INDEX IF EXISTS notification_outbox_status_idx;
+CREATE INDEX IF NOT EXISTS notification_outbox_due_idx
+    ON notification_outbox(next_attempt_at)
+    WHERE status IN ('PENDING', 'SENDING');
+CREATE INDEX IF NOT EXISTS notification_outbox_failed_idx
+    ON notification_outbox(last_attempt_at DESC)
+    WHERE status = 'FAILED';
+
+COMMENT ON COLUMN notification_outbox.status IS 'PENDING (queued or awaiting retry), SENDING (claimed), SENT, FAILED (dead-lettered)';
+
+CREATE OR REPLACE FUNCTION claim_notifications(
+    p_limit int DEFAULT 100,
+    p_lease_seconds int DEFAULT 300
+)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE notification_outbox o
+    SET status = 'SENDING',
+        attempts = o.attempts + 1,
+        last_attempt_at = now(),
+        locked_until = now() + make_interval(secs => p_lease_seconds)
+    WHERE o.id IN (
+        SELECT id FROM notification_outbox
+        WHERE (status = 'PENDING' AND next_attempt_at <= now())
+           OR (status = 'SENDING' AND locked_until < now())
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_notifications(int, int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notifications(int, int) TO service_role;
+
+COMMENT ON FUNCTION claim_notifications IS 'Lease due outbox rows to the dispatcher (service role only)';
+
+-- Dead letters are kept for 90 days instead of 30
+CREATE OR REPLACE FUNCTION cleanup_old_notifications(p_days int DEFAULT 30)
+RETURNS int AS $$
+DECLARE
+    v_count int;
+BEGIN
+    DELETE FROM notification_outbox
+    WHERE (status = 'SENT' AND created_at < now() - (p_days || ' days')::interval)
+       OR (status = 'FAILED' AND created_at < now() - (GREATEST(p_days, 90) || ' days')::interval);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- TABLE: notification_deliveries
+-- ============================================================================
+-- One row per outbox row, channel and attempt. A channel with a SENT row is
+-- not sent again when the notification is retried for another channel.
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    notification_id uuid NOT NULL REFERENCES notification_outbox(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    channel text NOT NULL CHECK (channel IN ('PUSH', 'EMAIL', 'SMS')),
+    attempt int NOT NULL,
+    status text NOT NULL CHECK (status IN ('SENT', 'FAILED', 'SKIPPED')),
+    provider_message_id text,
+    error_code text,
+    created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_notification_idx
+    ON notification_deliveries(notification_id);
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_idx
+    ON notification_deliveries(user_id, created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by dispatch-notifications only
+CREATE POLICY notification_deliveries_select_own ON notification_deliveries
+    FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE notification_deliveries IS 'Per-channel delivery attempts for notification_outbox rows';
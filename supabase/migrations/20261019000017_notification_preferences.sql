@@ -0,0 +1,122 @@
+-- ============================================================================
+-- Migration: Notification Preferences
+-- Description: Per-user category toggles, channels, quiet hours and daily
+--              digests, honoured by dispatch-notifications
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: notification_preferences
+-- ============================================================================
+-- One row per user; a user without a row gets every notification instantly
+-- on the channels it was queued for. categories_json is keyed by category
+-- (HANDOFFS, RIDES, MEETINGS, VIDEOS, EXPIRATIONS, SHIFTS):
+--   {"RIDES": {"enabled": true, "delivery": "DIGEST", "channels": ["PUSH", "EMAIL"]}}
+-- Quiet hours and the digest time are wall-clock times in timezone. Written
+-- through manage-notification-preferences, which validates the JSON.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id uuid PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    timezone text NOT NULL DEFAULT 'UTC',
+    quiet_hours_start time,
+    quiet_hours_end time,
+    digest_time time NOT NULL DEFAULT '08:00',
+    categories_json jsonb NOT NULL DEFAULT '{}'::jsonb
+        CHECK (jsonb_typeof(categories_json) = 'object'),
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT notification_preferences_quiet_hours CHECK (
+        (quiet_hours_start IS NULL AND quiet_hours_end IS NULL)
+        OR (quiet_hours_start IS NOT NULL AND quiet_hours_end IS NOT NULL
+            AND quiet_hours_start <> quiet_hours_end)
+    )
+);
+
+CREATE TRIGGER notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notification_preferences_select_own ON notification_preferences
+    FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE notification_preferences IS 'Per-user notification categories, channels, quiet hours and digest time';
+COMMENT ON COLUMN notification_preferences.categories_json IS 'Per category: enabled, delivery (INSTANT or DIGEST) and channels';
+
+-- ============================================================================
+-- NOTIFICATION_OUTBOX: held, digested and suppressed rows
+-- ============================================================================
+-- The dispatcher applies the recipient's preferences when it claims a row:
+-- a disabled category is SUPPRESSED, quiet hours push next_attempt_at to
+-- the end of the quiet period, and a digest category is HELD until the
+-- user's digest time. collect_due_digests then marks held rows DIGESTED
+-- and the dispatcher queues one DAILY_DIGEST row per user and circle.
+
+ALTER TABLE notification_outbox
+DROP CONSTRAINT IF EXISTS notification_outbox_status_check;
+
+ALTER TABLE notification_outbox
+ADD CONSTRAINT notification_outbox_status_check
+    CHECK (status IN ('PENDING', 'SENDING', 'SENT', 'FAILED', 'HELD', 'DIGESTED', 'SUPPRESSED'));
+
+ALTER TABLE notification_outbox
+ADD COLUMN IF NOT EXISTS digest_notification_id uuid
+    REFERENCES notification_outbox(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS notification_outbox_held_idx
+    ON notification_outbox(next_attempt_at)
+    WHERE status = 'HELD';
+
+COMMENT ON COLUMN notification_outbox.status IS 'PENDING (queued, awaiting retry or quiet hours), SENDING (claimed), SENT, FAILED (dead-lettered), HELD (awaiting digest), DIGESTED, SUPPRESSED (category off)';
+COMMENT ON COLUMN notification_outbox.digest_notification_id IS 'DAILY_DIGEST row that included this notification';
+
+-- ============================================================================
+-- FUNCTION: collect_due_digests
+-- ============================================================================
+-- Marks every held row of up to p_user_limit users whose digest time has
+-- passed as DIGESTED and returns them. All of a user's due rows are taken
+-- together, so each user gets one digest per circle.
+
+CREATE OR REPLACE FUNCTION collect_due_digests(p_user_limit int DEFAULT 100)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE notification_outbox o
+    SET status = 'DIGESTED'
+    WHERE o.id IN (
+        SELECT id FROM notification_outbox
+        WHERE status = 'HELD'
+          AND next_attempt_at <= now()
+          AND user_id IN (
+              SELECT DISTINCT user_id FROM notification_outbox
+              WHERE status = 'HELD' AND next_attempt_at <= now()
+              LIMIT p_user_limit
+          )
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION collect_due_digests(int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION collect_due_digests(int) TO service_role;
+
+COMMENT ON FUNCTION collect_due_digests IS 'Take held outbox rows due for a daily digest (service role only)';
+
+-- Digested and suppressed rows age out with sent ones; held rows are kept
+CREATE OR REPLACE FUNCTION cleanup_old_notifications(p_days int DEFAULT 30)
+RETURNS int AS $$
+DECLARE
+    v_count int;
+BEGIN
+    DELETE FROM notification_outbox
+    WHERE (status IN ('SENT', 'DIGESTED', 'SUPPRESSED') AND created_at < now() - (p_days || ' days')::interval)
+       OR (status = 'FAILED' AND created_at < now() - (GREATEST(p_days, 90) || ' days')::interval);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,403 @@
+-- ============================================================================
+-- Migration: Critical Handoff Acknowledgments
+-- Description: Acknowledgment requests for critical handoffs, read and
+--              acknowledge RPCs, and escalation scheduling
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: handoff_ack_requests
+-- ============================================================================
+-- One row per handoff and member asked to acknowledge it, created when
+-- publish-handoff is given ack_user_ids. escalate-handoff-acks re-notifies
+-- members who have not acknowledged by next_escalation_at: first a
+-- reminder, then a final reminder with the publisher and circle admins
+-- told (escalation_level 1, then 2). A member has seen the handoff when
+-- their read_receipts row is later than requested_at.
+
+CREATE TABLE IF NOT EXISTS handoff_ack_requests (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    handoff_id uuid NOT NULL REFERENCES handoffs(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    revision int NOT NULL,
+    requested_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    window_minutes int NOT NULL CHECK (window_minutes BETWEEN 5 AND 1440),
+    requested_at timestamptz DEFAULT now() NOT NULL,
+    due_at timestamptz NOT NULL,
+    acknowledged_at timestamptz,
+    escalation_level int DEFAULT 0 NOT NULL CHECK (escalation_level BETWEEN 0 AND 2),
+    next_escalation_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT handoff_ack_requests_unique UNIQUE (handoff_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS handoff_ack_requests_circle_idx
+    ON handoff_ack_requests(circle_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS handoff_ack_requests_escalation_idx
+    ON handoff_ack_requests(next_escalation_at)
+    WHERE acknowledged_at IS NULL AND next_escalation_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS handoff_ack_requests_user_idx
+    ON handoff_ack_requests(user_id)
+    WHERE acknowledged_at IS NULL;
+
+CREATE TRIGGER handoff_ack_requests_updated_at
+    BEFORE UPDATE ON handoff_ack_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE handoff_ack_requests ENABLE ROW LEVEL SECURITY;
+
+-- Written by publish_handoff_operation, acknowledge_handoff and
+-- escalate-handoff-acks only
+CREATE POLICY handoff_ack_requests_select ON handoff_ack_requests
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE handoff_ack_requests IS 'Members asked to acknowledge a critical handoff, with escalation state';
+
+-- ============================================================================
+-- FUNCTION: publish_handoff_operation
+-- ============================================================================
+-- Adds p_ack_user_ids: members who must acknowledge this publish within
+-- p_ack_window_minutes. They get a CRITICAL_HANDOFF notification instead
+-- of the usual HANDOFF_PUBLISHED one.
+
+DROP FUNCTION IF EXISTS publish_handoff_operation(uuid, uuid, jsonb, jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION publish_handoff_operation(
+    p_handoff_id uuid,
+    p_user_id uuid,
+    p_structured_json jsonb,
+    p_tasks jsonb DEFAULT '[]'::jsonb,
+    p_operation_id text DEFAULT NULL,
+    p_request_hash text DEFAULT NULL,
+    p_ack_user_ids uuid[] DEFAULT NULL,
+    p_ack_window_minutes int DEFAULT 60
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_handoff handoffs%ROWTYPE;
+    v_operation handoff_publish_operations%ROWTYPE;
+    v_revision int;
+    v_published_at timestamptz;
+    v_task jsonb;
+    v_owner uuid;
+    v_tasks_created int := 0;
+    v_notifications int := 0;
+    v_ack_user_ids uuid[] := COALESCE(p_ack_user_ids, '{}');
+    v_ack_requested int := 0;
+    v_response jsonb;
+BEGIN
+    -- Validate: if auth context exists, p_user_id must match
+    IF auth.uid() IS NOT NULL AND auth.uid() != p_user_id THEN
+        RAISE EXCEPTION 'User ID mismatch: cannot act on behalf of another user';
+    END IF;
+
+    SELECT * INTO v_handoff FROM handoffs WHERE id = p_handoff_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'HANDOFF_NOT_FOUND');
+    END IF;
+
+    IF NOT has_circle_role(v_handoff.circle_id, p_user_id, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'PERMISSION_DENIED');
+    END IF;
+
+    -- Replay a previously completed operation
+    IF p_operation_id IS NOT NULL THEN
+        SELECT * INTO v_operation
+        FROM handoff_publish_operations
+        WHERE circle_id = v_handoff.circle_id
+        AND operation_id = p_operation_id;
+
+        IF FOUND THEN
+            IF v_operation.handoff_id != p_handoff_id
+               OR v_operation.request_hash != COALESCE(p_request_hash, '') THEN
+                RETURN jsonb_build_object('error', 'OPERATION_ID_REUSED');
+            END IF;
+
+            RETURN jsonb_build_object(
+                'replayed', true,
+                'response', v_operation.response_json
+            );
+        END IF;
+    END IF;
+
+    -- Members asked to acknowledge must be other active members
+    IF cardinality(v_ack_user_ids) > 0 THEN
+        IF p_ack_window_minutes IS NULL OR p_ack_window_minutes NOT BETWEEN 5 AND 1440 THEN
+            RETURN jsonb_build_object('error', 'INVALID_ACK_REQUEST');
+        END IF;
+
+        IF p_user_id = ANY(v_ack_user_ids) OR EXISTS (
+            SELECT 1 FROM unnest(v_ack_user_ids) AS u(user_id)
+            WHERE NOT EXISTS (
+                SELECT 1 FROM circle_members cm
+                WHERE cm.circle_id = v_handoff.circle_id
+                AND cm.user_id = u.user_id
+                AND cm.status = 'ACTIVE'
+            )
+        ) THEN
+            RETURN jsonb_build_object('error', 'INVALID_ACK_REQUEST');
+        END IF;
+    END IF;
+
+    -- Determine revision number
+    IF v_handoff.status = 'DRAFT' THEN
+        v_revision := 1;
+    ELSE
+        v_revision := v_handoff.current_revision + 1;
+    END IF;
+    v_published_at := COALESCE(v_handoff.published_at, now());
+
+    INSERT INTO handoff_revisions (handoff_id, revision, structured_json, edited_by)
+    VALUES (p_handoff_id, v_revision, p_structured_json, p_user_id);
+
+    UPDATE handoffs
+    SET
+        status = 'PUBLISHED',
+        published_at = v_published_at,
+        current_revision = v_revision,
+        title = COALESCE(p_structured_json->>'title', title),
+        summary = p_structured_json->>'summary',
+        keywords = COALESCE(
+            ARRAY(SELECT jsonb_array_elements_text(p_structured_json->'keywords')),
+            '{}'
+        ),
+        updated_at = now()
+    WHERE id = p_handoff_id;
+
+    -- Create tasks from next_steps; unknown owners fall back to the publisher
+    FOR v_task IN SELECT * FROM jsonb_array_elements(COALESCE(p_tasks, '[]'::jsonb))
+    LOOP
+        v_owner := p_user_id;
+        IF (v_task->>'owner_user_id') IS NOT NULL
+           AND EXISTS (
+               SELECT 1 FROM circle_members
+               WHERE circle_id = v_handoff.circle_id
+               AND user_id::text = v_task->>'owner_user_id'
+               AND status = 'ACTIVE'
+           ) THEN
+            v_owner := (v_task->>'owner_user_id')::uuid;
+        END IF;
+
+        INSERT INTO tasks (
+            circle_id, patient_id, handoff_id, created_by, owner_user_id,
+            title, due_at, priority, status
+        )
+        VALUES (
+            v_handoff.circle_id,
+            v_handoff.patient_id,
+            p_handoff_id,
+            p_user_id,
+            v_owner,
+            v_task->>'title',
+            (v_task->>'due_at')::timestamptz,
+            COALESCE(v_task->>'priority', 'MED'),
+            'OPEN'
+        );
+        v_tasks_created := v_tasks_created + 1;
+    END LOOP;
+
+    PERFORM create_audit_event(
+        v_handoff.circle_id,
+        p_user_id,
+        CASE WHEN v_revision = 1 THEN 'HANDOFF_PUBLISHED' ELSE 'HANDOFF_REVISED' END,
+        'handoff',
+        p_handoff_id,
+        jsonb_build_object('revision', v_revision)
+    );
+
+    IF cardinality(v_ack_user_ids) = 0 THEN
+        v_notifications := notify_circle_members(
+            v_handoff.circle_id,
+            p_user_id,
+            'HANDOFF_PUBLISHED',
+            'New Handoff',
+            COALESCE(p_structured_json->>'title', v_handoff.title),
+            jsonb_build_object('handoff_id', p_handoff_id, 'circle_id', v_handoff.circle_id)
+        );
+    ELSE
+        -- A new request replaces an earlier one for the same member, so a
+        -- revised critical handoff must be acknowledged again
+        INSERT INTO handoff_ack_requests (
+            circle_id, handoff_id, user_id, revision, requested_by,
+            window_minutes, requested_at, due_at, next_escalation_at
+        )
+        SELECT
+            v_handoff.circle_id, p_handoff_id, u.user_id, v_revision, p_user_id,
+            p_ack_window_minutes, now(),
+            now() + make_interval(mins => p_ack_window_minutes),
+            now() + make_interval(mins => p_ack_window_minutes)
+        FROM (SELECT DISTINCT unnest(v_ack_user_ids) AS user_id) u
+        ON CONFLICT (handoff_id, user_id) DO UPDATE
+        SET revision = EXCLUDED.revision,
+            requested_by = EXCLUDED.requested_by,
+            window_minutes = EXCLUDED.window_minutes,
+            requested_at = EXCLUDED.requested_at,
+            due_at = EXCLUDED.due_at,
+            next_escalation_at = EXCLUDED.next_escalation_at,
+            acknowledged_at = NULL,
+            escalation_level = 0;
+        GET DIAGNOSTICS v_ack_requested = ROW_COUNT;
+
+        -- CRITICAL_HANDOFF is outside the notification preference
+        -- categories, so quiet hours and digests never delay it
+        INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+        SELECT
+            cm.user_id,
+            v_handoff.circle_id,
+            CASE WHEN cm.user_id = ANY(v_ack_user_ids) THEN 'CRITICAL_HANDOFF' ELSE 'HANDOFF_PUBLISHED' END,
+            CASE WHEN cm.user_id = ANY(v_ack_user_ids) THEN 'Urgent Handoff: Please Acknowledge' ELSE 'New Handoff' END,
+            COALESCE(p_structured_json->>'title', v_handoff.title),
+            jsonb_build_object(
+                'handoff_id', p_handoff_id,
+                'circle_id', v_handoff.circle_id,
+                'requires_ack', cm.user_id = ANY(v_ack_user_ids)
+            )
+        FROM circle_members cm
+        WHERE cm.circle_id = v_handoff.circle_id
+        AND cm.status = 'ACTIVE'
+        AND cm.user_id != p_user_id;
+        GET DIAGNOSTICS v_notifications = ROW_COUNT;
+    END IF;
+
+    v_response := jsonb_build_object(
+        'success', true,
+        'handoff_id', p_handoff_id,
+        'revision', v_revision,
+        'published_at', v_published_at,
+        'notifications_queued', v_notifications,
+        'tasks_created', v_tasks_created,
+        'acknowledgments_requested', v_ack_requested
+    );
+
+    IF p_operation_id IS NOT NULL THEN
+        INSERT INTO handoff_publish_operations (
+            circle_id, operation_id, handoff_id, user_id, request_hash, response_json
+        )
+        VALUES (
+            v_handoff.circle_id, p_operation_id, p_handoff_id, p_user_id,
+            COALESCE(p_request_hash, ''), v_response
+        );
+    END IF;
+
+    RETURN jsonb_build_object('replayed', false, 'response', v_response);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION publish_handoff_operation IS 'Atomically publish a handoff with tasks, acknowledgment requests, audit and notifications; replays stored results for repeated operation IDs';
+
+-- ============================================================================
+-- FUNCTION: mark_handoff_read
+-- ============================================================================
+-- Called when a member opens a published handoff. Records the read receipt
+-- (read_at moves to the latest open) and reports whether the caller still
+-- has to acknowledge it.
+
+CREATE OR REPLACE FUNCTION mark_handoff_read(p_handoff_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_handoff handoffs%ROWTYPE;
+    v_request handoff_ack_requests%ROWTYPE;
+    v_read_at timestamptz := now();
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_handoff FROM handoffs WHERE id = p_handoff_id;
+
+    IF NOT FOUND OR v_handoff.status != 'PUBLISHED'
+       OR NOT is_circle_member(v_handoff.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Handoff not found');
+    END IF;
+
+    INSERT INTO read_receipts (circle_id, handoff_id, user_id, read_at)
+    VALUES (v_handoff.circle_id, p_handoff_id, v_caller, v_read_at)
+    ON CONFLICT (handoff_id, user_id) DO UPDATE SET read_at = EXCLUDED.read_at;
+
+    SELECT * INTO v_request
+    FROM handoff_ack_requests
+    WHERE handoff_id = p_handoff_id AND user_id = v_caller;
+
+    RETURN jsonb_build_object(
+        'handoff_id', p_handoff_id,
+        'read_at', v_read_at,
+        'requires_ack', FOUND AND v_request.acknowledged_at IS NULL,
+        'ack_due_at', CASE WHEN FOUND THEN v_request.due_at END,
+        'acknowledged_at', CASE WHEN FOUND THEN v_request.acknowledged_at END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION mark_handoff_read IS 'Record that the caller opened a handoff; reports any pending acknowledgment';
+
+-- ============================================================================
+-- FUNCTION: acknowledge_handoff
+-- ============================================================================
+-- Acknowledges the caller's pending request for a critical handoff, which
+-- also counts as reading it, and stops further escalation. Acknowledging
+-- again returns the original time.
+
+CREATE OR REPLACE FUNCTION acknowledge_handoff(p_handoff_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_request handoff_ack_requests%ROWTYPE;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_request
+    FROM handoff_ack_requests
+    WHERE handoff_id = p_handoff_id AND user_id = v_caller
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_request.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'No acknowledgment requested');
+    END IF;
+
+    IF v_request.acknowledged_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'handoff_id', p_handoff_id,
+            'acknowledged_at', v_request.acknowledged_at,
+            'revision', v_request.revision
+        );
+    END IF;
+
+    UPDATE handoff_ack_requests
+    SET acknowledged_at = now(),
+        next_escalation_at = NULL
+    WHERE id = v_request.id;
+
+    INSERT INTO read_receipts (circle_id, handoff_id, user_id, read_at)
+    VALUES (v_request.circle_id, p_handoff_id, v_caller, now())
+    ON CONFLICT (handoff_id, user_id) DO UPDATE SET read_at = EXCLUDED.read_at;
+
+    PERFORM create_audit_event(
+        v_request.circle_id,
+        v_caller,
+        'HANDOFF_ACKNOWLEDGED',
+        'handoff',
+        p_handoff_id,
+        jsonb_build_object(
+            'revision', v_request.revision,
+            'escalation_level', v_request.escalation_level,
+            'late', now() > v_request.due_at
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'handoff_id', p_handoff_id,
+        'acknowledged_at', now(),
+        'revision', v_request.revision
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION acknowledge_handoff IS 'Acknowledge a critical handoff the caller was asked to acknowledge';
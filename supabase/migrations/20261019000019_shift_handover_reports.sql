@@ -0,0 +1,296 @@
+-- ============================================================================
+-- Migration: Shift Handover Reports
+-- Description: SBAR handover report inputs in compute_shift_changes, and the
+--              incoming owner's acknowledgment of the report on care_shifts
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- CARE_SHIFTS: handover report and acknowledgment
+-- ============================================================================
+-- compute-shift-changes stores the latest report it generated for a shift
+-- until the shift owner acknowledges it; after that the acknowledged report
+-- is kept as it was.
+
+ALTER TABLE care_shifts
+ADD COLUMN IF NOT EXISTS handover_report_json jsonb,
+ADD COLUMN IF NOT EXISTS handover_report_generated_at timestamptz,
+ADD COLUMN IF NOT EXISTS handover_acknowledged_at timestamptz,
+ADD COLUMN IF NOT EXISTS handover_acknowledged_by uuid REFERENCES users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN care_shifts.handover_report_json IS 'Latest SBAR handover report, frozen once acknowledged';
+COMMENT ON COLUMN care_shifts.handover_acknowledged_at IS 'When the shift owner acknowledged the handover report';
+
+-- ============================================================================
+-- FUNCTION: compute_shift_changes
+-- ============================================================================
+-- Adds what the handover report needs beyond the changes since the previous
+-- shift: the shift and patient, every open task, active tracked concerns
+-- with their latest check-in, and the previous shift's notes.
+
+CREATE OR REPLACE FUNCTION compute_shift_changes(
+    p_shift_id uuid,
+    p_user_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_shift care_shifts%ROWTYPE;
+    v_prev_shift care_shifts%ROWTYPE;
+    v_handoffs jsonb;
+    v_tasks jsonb;
+    v_med_changes jsonb;
+    v_dose_events jsonb;
+    v_open_tasks jsonb;
+    v_concerns jsonb;
+BEGIN
+    -- Get current shift
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id;
+    IF v_shift IS NULL THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    -- Check membership
+    IF NOT is_circle_member(v_shift.circle_id, p_user_id) THEN
+        RETURN jsonb_build_object('error', 'Not a circle member');
+    END IF;
+
+    -- Find previous completed shift
+    SELECT * INTO v_prev_shift
+    FROM care_shifts
+    WHERE circle_id = v_shift.circle_id
+      AND patient_id = v_shift.patient_id
+      AND status = 'COMPLETED'
+      AND end_at < v_shift.start_at
+    ORDER BY end_at DESC
+    LIMIT 1;
+
+    -- Compute since time (previous shift end or 24 hours ago)
+    DECLARE
+        v_since timestamptz := COALESCE(v_prev_shift.end_at, now() - interval '24 hours');
+    BEGIN
+        -- Get handoffs since last shift
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', h.id,
+            'type', h.type,
+            'title', h.title,
+            'summary', h.summary,
+            'created_at', h.created_at,
+            'created_by', u.display_name
+        ) ORDER BY h.created_at DESC), '[]'::jsonb)
+        INTO v_handoffs
+        FROM handoffs h
+        JOIN users u ON h.created_by = u.id
+        WHERE h.circle_id = v_shift.circle_id
+          AND h.patient_id = v_shift.patient_id
+          AND h.status = 'PUBLISHED'
+          AND h.created_at > v_since;
+
+        -- Get new or updated tasks
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', t.id,
+            'title', t.title,
+            'status', t.status,
+            'priority', t.priority,
+            'due_at', t.due_at,
+            'owner', u.display_name
+        ) ORDER BY t.priority DESC, t.due_at), '[]'::jsonb)
+        INTO v_tasks
+        FROM tasks t
+        JOIN users u ON t.owner_user_id = u.id
+        WHERE t.circle_id = v_shift.circle_id
+          AND t.patient_id = v_shift.patient_id
+          AND (t.updated_at > v_since OR (t.status = 'OPEN' AND t.due_at < v_shift.end_at));
+
+        -- Get medication changes
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'name', bi.title,
+            'updated_at', bi.updated_at
+        ) ORDER BY bi.updated_at DESC), '[]'::jsonb)
+        INTO v_med_changes
+        FROM binder_items bi
+        WHERE bi.circle_id = v_shift.circle_id
+          AND bi.patient_id = v_shift.patient_id
+          AND bi.type = 'MED'
+          AND bi.updated_at > v_since;
+
+        -- Get doses since last shift and still due this shift
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'id', e.id,
+            'medication', bi.title,
+            'dose', e.dose,
+            'status', e.status,
+            'scheduled_for', e.scheduled_for,
+            'given_at', e.given_at,
+            'recorded_by', u.display_name,
+            'note', e.note
+        ) ORDER BY COALESCE(e.scheduled_for, e.given_at)), '[]'::jsonb)
+        INTO v_dose_events
+        FROM med_dose_events e
+        JOIN binder_items bi ON e.binder_item_id = bi.id
+        LEFT JOIN users u ON e.recorded_by = u.id
+        WHERE e.circle_id = v_shift.circle_id
+          AND e.patient_id = v_shift.patient_id
+          AND COALESCE(e.scheduled_for, e.given_at) > v_since
+          AND COALESCE(e.scheduled_for, e.given_at) < v_shift.end_at;
+    END;
+
+    -- Every open task for the patient, soonest due first
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', t.id,
+        'title', t.title,
+        'priority', t.priority,
+        'due_at', t.due_at,
+        'owner', t.owner
+    ) ORDER BY t.due_at NULLS LAST), '[]'::jsonb)
+    INTO v_open_tasks
+    FROM (
+        SELECT t.id, t.title, t.priority, t.due_at, u.display_name AS owner
+        FROM tasks t
+        JOIN users u ON t.owner_user_id = u.id
+        WHERE t.circle_id = v_shift.circle_id
+          AND t.patient_id = v_shift.patient_id
+          AND t.status = 'OPEN'
+        ORDER BY t.due_at NULLS LAST
+        LIMIT 100
+    ) t;
+
+    -- Active tracked concerns with their latest check-in
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', c.id,
+        'name', c.concern_name,
+        'category', c.concern_category,
+        'latest_rating', le.rating,
+        'latest_notes', le.notes,
+        'latest_at', le.recorded_at
+    ) ORDER BY le.recorded_at DESC NULLS LAST), '[]'::jsonb)
+    INTO v_concerns
+    FROM tracked_concerns c
+    LEFT JOIN LATERAL (
+        SELECT te.rating, te.notes, te.recorded_at
+        FROM tracking_entries te
+        WHERE te.concern_id = c.id
+        ORDER BY te.recorded_at DESC
+        LIMIT 1
+    ) le ON true
+    WHERE c.circle_id = v_shift.circle_id
+      AND c.patient_id = v_shift.patient_id
+      AND c.status = 'ACTIVE';
+
+    RETURN jsonb_build_object(
+        'shift_id', v_shift.id,
+        'shift', jsonb_build_object(
+            'circle_id', v_shift.circle_id,
+            'patient_id', v_shift.patient_id,
+            'owner_user_id', v_shift.owner_user_id,
+            'owner', (SELECT display_name FROM users WHERE id = v_shift.owner_user_id),
+            'start_at', v_shift.start_at,
+            'end_at', v_shift.end_at,
+            'status', v_shift.status,
+            'handover_report_generated_at', v_shift.handover_report_generated_at,
+            'handover_acknowledged_at', v_shift.handover_acknowledged_at,
+            'handover_acknowledged_by', v_shift.handover_acknowledged_by
+        ),
+        'patient', (
+            SELECT jsonb_build_object('display_name', p.display_name, 'timezone', p.timezone)
+            FROM patients p WHERE p.id = v_shift.patient_id
+        ),
+        'since', COALESCE(v_prev_shift.end_at, now() - interval '24 hours'),
+        'previous_shift_owner', (
+            SELECT display_name FROM users WHERE id = v_prev_shift.owner_user_id
+        ),
+        'previous_shift_notes', v_prev_shift.notes,
+        'handoffs', v_handoffs,
+        'tasks', v_tasks,
+        'med_changes', v_med_changes,
+        'dose_events', v_dose_events,
+        'open_tasks', v_open_tasks,
+        'concerns', v_concerns,
+        'counts', jsonb_build_object(
+            'handoffs', jsonb_array_length(v_handoffs),
+            'tasks', jsonb_array_length(v_tasks),
+            'med_changes', jsonb_array_length(v_med_changes),
+            'dose_events', jsonb_array_length(v_dose_events),
+            'missed_doses', (
+                SELECT COUNT(*) FROM jsonb_array_elements(v_dose_events) d
+                WHERE d->>'status' = 'MISSED'
+            ),
+            'open_tasks', jsonb_array_length(v_open_tasks),
+            'concerns', jsonb_array_length(v_concerns)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION: acknowledge_shift_handover
+-- ============================================================================
+-- The shift owner confirms they have taken over from the stored handover
+-- report. Pass the report's generated_at to make sure the acknowledged
+-- report is the one that was read. Acknowledging again returns the
+-- original time.
+
+CREATE OR REPLACE FUNCTION acknowledge_shift_handover(
+    p_shift_id uuid,
+    p_report_generated_at timestamptz DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_shift care_shifts%ROWTYPE;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id FOR UPDATE;
+    IF NOT FOUND OR NOT is_circle_member(v_shift.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    IF v_shift.owner_user_id != v_caller THEN
+        RETURN jsonb_build_object('error', 'Only the shift owner can acknowledge the handover');
+    END IF;
+
+    IF v_shift.handover_acknowledged_at IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'shift_id', p_shift_id,
+            'acknowledged_at', v_shift.handover_acknowledged_at,
+            'report_generated_at', v_shift.handover_report_generated_at
+        );
+    END IF;
+
+    IF v_shift.handover_report_generated_at IS NULL THEN
+        RETURN jsonb_build_object('error', 'No handover report generated');
+    END IF;
+
+    IF p_report_generated_at IS NOT NULL
+       AND p_report_generated_at != v_shift.handover_report_generated_at THEN
+        RETURN jsonb_build_object('error', 'Handover report has changed');
+    END IF;
+
+    UPDATE care_shifts
+    SET handover_acknowledged_at = now(),
+        handover_acknowledged_by = v_caller
+    WHERE id = p_shift_id;
+
+    PERFORM create_audit_event(
+        v_shift.circle_id,
+        v_caller,
+        'SHIFT_HANDOVER_ACKNOWLEDGED',
+        'care_shift',
+        p_shift_id,
+        jsonb_build_object(
+            'report_generated_at', v_shift.handover_report_generated_at,
+            'late', now() > v_shift.start_at
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'shift_id', p_shift_id,
+        'acknowledged_at', now(),
+        'report_generated_at', v_shift.handover_report_generated_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION acknowledge_shift_handover IS 'Shift owner acknowledges the stored handover report (uses auth.uid())';
@@ -0,0 +1,241 @@
+-- ============================================================================
+-- Migration: CalDAV Calendar Sync
+-- Description: CalDAV connections synced server-side, and edits made in the
+--              member's calendar held as proposed changes to the source
+--              task, shift or appointment
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- CALENDAR_CONNECTIONS: CalDAV provider
+-- ============================================================================
+-- For CALDAV connections provider_account_id holds the username and
+-- access_token_encrypted the password, encrypted by the edge functions
+-- with CALENDAR_CREDENTIALS_KEY.
+
+ALTER TABLE calendar_connections
+DROP CONSTRAINT IF EXISTS calendar_connections_provider_check;
+
+ALTER TABLE calendar_connections
+ADD CONSTRAINT calendar_connections_provider_check
+    CHECK (provider IN ('APPLE', 'GOOGLE', 'OUTLOOK', 'CALDAV'));
+
+ALTER TABLE calendar_connections
+ADD COLUMN IF NOT EXISTS caldav_url text;
+
+COMMENT ON COLUMN calendar_connections.caldav_url IS 'CalDAV calendar collection URL (CALDAV provider)';
+
+CREATE INDEX IF NOT EXISTS idx_calendar_connections_caldav_due
+    ON calendar_connections(last_sync_at NULLS FIRST)
+    WHERE provider = 'CALDAV' AND status = 'ACTIVE';
+
+-- ============================================================================
+-- TABLE: calendar_change_proposals
+-- ============================================================================
+-- A time change or deletion made in a member's calendar to an event
+-- CuraKnot pushed. The source record only changes when a member with
+-- rights over it applies the proposal.
+
+CREATE TABLE IF NOT EXISTS calendar_change_proposals (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    connection_id uuid NOT NULL REFERENCES calendar_connections(id) ON DELETE CASCADE,
+    calendar_event_id uuid REFERENCES calendar_events(id) ON DELETE SET NULL,
+    source_type text NOT NULL CHECK (source_type IN ('TASK', 'SHIFT', 'APPOINTMENT')),
+    source_task_id uuid REFERENCES tasks(id) ON DELETE CASCADE,
+    source_shift_id uuid REFERENCES care_shifts(id) ON DELETE CASCADE,
+    source_binder_item_id uuid REFERENCES binder_items(id) ON DELETE CASCADE,
+    proposed_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('RESCHEDULE', 'CANCEL')),
+    current_start_at timestamptz NOT NULL,
+    current_end_at timestamptz,
+    proposed_start_at timestamptz,
+    proposed_end_at timestamptz,
+    -- Both sides changed since the last sync
+    is_conflict boolean DEFAULT false NOT NULL,
+    status text DEFAULT 'PENDING' NOT NULL
+        CHECK (status IN ('PENDING', 'APPLIED', 'REJECTED', 'SUPERSEDED')),
+    reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT calendar_change_proposals_times CHECK (
+        kind = 'CANCEL'
+        OR (proposed_start_at IS NOT NULL
+            AND (proposed_end_at IS NULL OR proposed_end_at > proposed_start_at))
+    )
+);
+
+CREATE INDEX IF NOT EXISTS calendar_change_proposals_circle_idx
+    ON calendar_change_proposals(circle_id, created_at DESC)
+    WHERE status = 'PENDING';
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_change_proposals_pending_unique
+    ON calendar_change_proposals(calendar_event_id)
+    WHERE status = 'PENDING';
+
+CREATE TRIGGER calendar_change_proposals_updated_at
+    BEFORE UPDATE ON calendar_change_proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE calendar_change_proposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY calendar_change_proposals_select ON calendar_change_proposals
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE calendar_change_proposals IS 'Calendar edits to synced events, awaiting review before they change the source record';
+
+-- ============================================================================
+-- FUNCTION: review_calendar_change
+-- ============================================================================
+-- APPLY moves the task, shift or appointment to the proposed time (or
+-- cancels it); REJECT keeps CuraKnot's version, which the next sync writes
+-- back to the member's calendar. Shifts can be changed by their owner or an
+-- admin, tasks and appointments by contributors. A proposal made against a
+-- time the source no longer has is refused.
+
+CREATE OR REPLACE FUNCTION review_calendar_change(
+    p_proposal_id uuid,
+    p_decision text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_proposal calendar_change_proposals%ROWTYPE;
+    v_task tasks%ROWTYPE;
+    v_shift care_shifts%ROWTYPE;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_decision NOT IN ('APPLY', 'REJECT') THEN
+        RETURN jsonb_build_object('error', 'Decision must be APPLY or REJECT');
+    END IF;
+
+    SELECT * INTO v_proposal
+    FROM calendar_change_proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_proposal.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Proposal not found');
+    END IF;
+
+    IF v_proposal.status != 'PENDING' THEN
+        RETURN jsonb_build_object('error', 'Proposal already ' || lower(v_proposal.status));
+    END IF;
+
+    IF v_proposal.source_type = 'SHIFT' THEN
+        SELECT * INTO v_shift FROM care_shifts WHERE id = v_proposal.source_shift_id FOR UPDATE;
+        IF v_shift.owner_user_id != v_caller
+           AND NOT has_circle_role(v_proposal.circle_id, v_caller, 'ADMIN') THEN
+            RETURN jsonb_build_object('error', 'Only the shift owner or an admin can review this change');
+        END IF;
+    ELSIF NOT has_circle_role(v_proposal.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Contributor role required');
+    END IF;
+
+    IF p_decision = 'APPLY' THEN
+        IF v_proposal.source_type = 'TASK' THEN
+            SELECT * INTO v_task FROM tasks WHERE id = v_proposal.source_task_id FOR UPDATE;
+            IF v_task.status != 'OPEN' OR v_task.due_at IS DISTINCT FROM v_proposal.current_start_at THEN
+                RETURN jsonb_build_object('error', 'Task has changed since the proposal');
+            END IF;
+
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE tasks SET status = 'CANCELED' WHERE id = v_task.id;
+            ELSE
+                UPDATE tasks SET due_at = v_proposal.proposed_start_at WHERE id = v_task.id;
+            END IF;
+
+        ELSIF v_proposal.source_type = 'SHIFT' THEN
+            IF v_shift.status NOT IN ('SCHEDULED', 'ACTIVE')
+               OR v_shift.start_at != v_proposal.current_start_at
+               OR v_shift.end_at IS DISTINCT FROM v_proposal.current_end_at THEN
+                RETURN jsonb_build_object('error', 'Shift has changed since the proposal');
+            END IF;
+
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE care_shifts SET status = 'CANCELED' WHERE id = v_shift.id;
+            ELSE
+                UPDATE care_shifts
+                SET start_at = v_proposal.proposed_start_at,
+                    end_at = COALESCE(
+                        v_proposal.proposed_end_at,
+                        v_proposal.proposed_start_at + (v_shift.end_at - v_shift.start_at)
+                    )
+                WHERE id = v_shift.id;
+            END IF;
+
+        ELSE
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE binder_items
+                SET content_json = content_json - 'nextAppointment'
+                WHERE id = v_proposal.source_binder_item_id;
+            ELSE
+                UPDATE binder_items
+                SET content_json = jsonb_set(
+                    content_json,
+                    '{nextAppointment}',
+                    to_jsonb(to_char(v_proposal.proposed_start_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'))
+                )
+                WHERE id = v_proposal.source_binder_item_id;
+            END IF;
+        END IF;
+
+        -- The calendar already shows the change; a canceled event is gone
+        IF v_proposal.kind = 'CANCEL' THEN
+            DELETE FROM calendar_events WHERE id = v_proposal.calendar_event_id;
+        ELSE
+            UPDATE calendar_events
+            SET start_at = v_proposal.proposed_start_at,
+                end_at = COALESCE(v_proposal.proposed_end_at, end_at),
+                sync_status = 'SYNCED',
+                conflict_resolved_at = now(),
+                conflict_resolution = 'EXTERNAL'
+            WHERE id = v_proposal.calendar_event_id;
+        END IF;
+    ELSE
+        -- Write CuraKnot's version back; a deleted event is created again
+        IF v_proposal.kind = 'CANCEL' THEN
+            DELETE FROM calendar_events WHERE id = v_proposal.calendar_event_id;
+        ELSE
+            UPDATE calendar_events
+            SET sync_status = 'PENDING_PUSH',
+                conflict_resolved_at = now(),
+                conflict_resolution = 'LOCAL'
+            WHERE id = v_proposal.calendar_event_id;
+        END IF;
+    END IF;
+
+    UPDATE calendar_change_proposals
+    SET status = CASE WHEN p_decision = 'APPLY' THEN 'APPLIED' ELSE 'REJECTED' END,
+        reviewed_by = v_caller,
+        reviewed_at = now()
+    WHERE id = p_proposal_id;
+
+    PERFORM create_audit_event(
+        v_proposal.circle_id,
+        v_caller,
+        CASE WHEN p_decision = 'APPLY' THEN 'CALENDAR_CHANGE_APPLIED' ELSE 'CALENDAR_CHANGE_REJECTED' END,
+        lower(v_proposal.source_type),
+        COALESCE(v_proposal.source_task_id, v_proposal.source_shift_id, v_proposal.source_binder_item_id),
+        jsonb_build_object(
+            'proposal_id', p_proposal_id,
+            'kind', v_proposal.kind,
+            'proposed_by', v_proposal.proposed_by
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'proposal_id', p_proposal_id,
+        'status', CASE WHEN p_decision = 'APPLY' THEN 'APPLIED' ELSE 'REJECTED' END,
+        'source_type', v_proposal.source_type,
+        'kind', v_proposal.kind
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION review_calendar_change IS 'Apply or reject a change made in a synced calendar (uses auth.uid())';
@@ -0,0 +1,82 @@
+-- ============================================================================
+-- Migration: Appointments
+-- Description: Appointments imported from .ics invitations, linked to the
+--              binder contact or facility they are with
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: appointments
+-- ============================================================================
+-- One row per imported VEVENT. A recurring appointment keeps its RRULE and
+-- EXDATEs; an instance the sender changed on its own is a separate row with
+-- the same external_uid and its recurrence_id. Re-importing an invitation
+-- updates the row only when its SEQUENCE is newer.
+
+CREATE TABLE IF NOT EXISTS appointments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    binder_item_id uuid REFERENCES binder_items(id) ON DELETE SET NULL,
+    -- How well the location or organizer matched the binder item (0-1)
+    binder_match_score numeric(3, 2) CHECK (binder_match_score BETWEEN 0 AND 1),
+    title text NOT NULL CHECK (char_length(title) <= 500),
+    description text,
+    location text,
+    organizer_name text,
+    organizer_email text,
+    start_at timestamptz NOT NULL,
+    end_at timestamptz NOT NULL,
+    all_day boolean DEFAULT false NOT NULL,
+    -- IANA zone the invitation was written in; recurrences repeat in it
+    timezone text,
+    rrule text,
+    exdates timestamptz[] DEFAULT '{}' NOT NULL,
+    recurrence_id timestamptz,
+    -- Reminder offsets in minutes before start_at, from VALARMs
+    reminder_minutes int[] DEFAULT '{}' NOT NULL,
+    status text DEFAULT 'SCHEDULED' NOT NULL CHECK (status IN ('SCHEDULED', 'CANCELED')),
+    source text DEFAULT 'ICS_IMPORT' NOT NULL CHECK (source IN ('ICS_IMPORT', 'MANUAL')),
+    external_uid text,
+    external_sequence int DEFAULT 0 NOT NULL,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT appointments_valid_range CHECK (end_at >= start_at)
+);
+
+CREATE INDEX IF NOT EXISTS appointments_circle_start_idx
+    ON appointments(circle_id, start_at);
+CREATE INDEX IF NOT EXISTS appointments_patient_idx ON appointments(patient_id);
+CREATE INDEX IF NOT EXISTS appointments_binder_item_idx
+    ON appointments(binder_item_id)
+    WHERE binder_item_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS appointments_external_uid_unique
+    ON appointments(circle_id, external_uid, COALESCE(recurrence_id, '-infinity'::timestamptz))
+    WHERE external_uid IS NOT NULL;
+
+CREATE TRIGGER appointments_updated_at
+    BEFORE UPDATE ON appointments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY appointments_select ON appointments
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+CREATE POLICY appointments_insert ON appointments
+    FOR INSERT WITH CHECK (
+        has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR')
+        AND created_by = auth.uid()
+    );
+
+CREATE POLICY appointments_update ON appointments
+    FOR UPDATE USING (has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+CREATE POLICY appointments_delete ON appointments
+    FOR DELETE USING (has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+COMMENT ON TABLE appointments IS 'Patient appointments, imported from .ics invitations or entered by hand';
+COMMENT ON COLUMN appointments.external_uid IS 'iCalendar UID the appointment was imported from, for de-duplication';
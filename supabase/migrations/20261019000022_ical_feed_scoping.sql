@@ -0,0 +1,164 @@
+-- ============================================================================
+-- Migration: iCal Feed Scoping
+-- Description: Per-member iCal feeds limited to the member's own tasks and
+--              shifts, with reminders and a display timezone per feed
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- ICAL_FEED_TOKENS: scope, reminders, timezone
+-- ============================================================================
+-- assignee_scope MINE keeps only the tasks and shifts owned by the member
+-- who created the feed; CIRCLE is everyone's. The event type toggles and
+-- patient_ids narrow either scope further, so a "my shifts" feed is MINE
+-- with only include_shifts set.
+
+ALTER TABLE ical_feed_tokens
+ADD COLUMN IF NOT EXISTS assignee_scope text NOT NULL DEFAULT 'CIRCLE'
+    CHECK (assignee_scope IN ('CIRCLE', 'MINE'));
+
+-- VALARM offsets in minutes before each event; empty for no reminders
+ALTER TABLE ical_feed_tokens
+ADD COLUMN IF NOT EXISTS reminder_minutes int[] NOT NULL DEFAULT '{}'
+    CHECK (
+        cardinality(reminder_minutes) <= 3
+        AND 0 <= ALL(reminder_minutes)
+        AND 40320 >= ALL(reminder_minutes)
+    );
+
+-- IANA zone one-off events are written in; NULL writes each event in its own
+-- or its patient's timezone. Recurring events always keep their own zone.
+ALTER TABLE ical_feed_tokens
+ADD COLUMN IF NOT EXISTS timezone text;
+
+COMMENT ON COLUMN ical_feed_tokens.assignee_scope IS 'CIRCLE for all tasks and shifts, MINE for only the creator''s';
+
+-- ============================================================================
+-- RLS: members manage their own feeds
+-- ============================================================================
+-- Feeds were admin-only. Any active member can now create a feed for
+-- themselves and manage it; admins still see and revoke every feed.
+
+DROP POLICY IF EXISTS ical_feed_tokens_select ON ical_feed_tokens;
+DROP POLICY IF EXISTS ical_feed_tokens_insert ON ical_feed_tokens;
+DROP POLICY IF EXISTS ical_feed_tokens_update ON ical_feed_tokens;
+DROP POLICY IF EXISTS ical_feed_tokens_delete ON ical_feed_tokens;
+
+CREATE POLICY ical_feed_tokens_select ON ical_feed_tokens
+    FOR SELECT USING (
+        (created_by = auth.uid() AND is_circle_member(circle_id, auth.uid()))
+        OR has_circle_role(circle_id, auth.uid(), 'ADMIN')
+    );
+
+CREATE POLICY ical_feed_tokens_insert ON ical_feed_tokens
+    FOR INSERT WITH CHECK (
+        created_by = auth.uid()
+        AND is_circle_member(circle_id, auth.uid())
+    );
+
+CREATE POLICY ical_feed_tokens_update ON ical_feed_tokens
+    FOR UPDATE USING (
+        (created_by = auth.uid() AND is_circle_member(circle_id, auth.uid()))
+        OR has_circle_role(circle_id, auth.uid(), 'ADMIN')
+    );
+
+CREATE POLICY ical_feed_tokens_delete ON ical_feed_tokens
+    FOR DELETE USING (
+        (created_by = auth.uid() AND is_circle_member(circle_id, auth.uid()))
+        OR has_circle_role(circle_id, auth.uid(), 'ADMIN')
+    );
+
+-- ============================================================================
+-- FUNCTION: validate_ical_token
+-- ============================================================================
+-- Adds the scope, reminders, timezone and creator to feed_config, and stops
+-- a feed once its creator has left the circle.
+
+CREATE OR REPLACE FUNCTION validate_ical_token(p_token text)
+RETURNS TABLE (
+    is_valid boolean,
+    circle_id uuid,
+    feed_config jsonb,
+    error_code text,
+    token_id uuid
+) AS $$
+DECLARE
+    v_token_record RECORD;
+    v_new_count integer;
+BEGIN
+    -- Input validation for SECURITY DEFINER function
+    IF p_token IS NULL THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'INVALID_TOKEN_FORMAT'::text, NULL::uuid;
+        RETURN;
+    END IF;
+
+    -- Validate token format (exactly 43 chars of base64url: alphanumeric, -, _)
+    IF p_token !~ '^[A-Za-z0-9_-]{43}$' THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'INVALID_TOKEN_FORMAT'::text, NULL::uuid;
+        RETURN;
+    END IF;
+
+    -- Use FOR UPDATE to lock the row and prevent race conditions
+    SELECT * INTO v_token_record
+    FROM ical_feed_tokens t
+    WHERE t.token = p_token
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'TOKEN_NOT_FOUND'::text, NULL::uuid;
+        RETURN;
+    END IF;
+
+    IF v_token_record.revoked_at IS NOT NULL THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'TOKEN_REVOKED'::text, NULL::uuid;
+        RETURN;
+    END IF;
+
+    IF v_token_record.expires_at IS NOT NULL AND v_token_record.expires_at < now() THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'TOKEN_EXPIRED'::text, NULL::uuid;
+        RETURN;
+    END IF;
+
+    IF NOT is_circle_member(v_token_record.circle_id, v_token_record.created_by) THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'MEMBER_INACTIVE'::text, v_token_record.id;
+        RETURN;
+    END IF;
+
+    -- Atomic rate limiting: update and return new count in one operation
+    UPDATE ical_feed_tokens
+    SET
+        access_count = CASE
+            WHEN last_accessed_at IS NULL OR last_accessed_at < now() - interval '1 hour'
+            THEN 1
+            ELSE access_count + 1
+        END,
+        last_accessed_at = now()
+    WHERE id = v_token_record.id
+    RETURNING access_count INTO v_new_count;
+
+    -- Check rate limit (100 requests per hour)
+    IF v_new_count > 100 THEN
+        RETURN QUERY SELECT false, NULL::uuid, NULL::jsonb, 'RATE_LIMITED'::text, v_token_record.id;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT
+        true,
+        v_token_record.circle_id,
+        jsonb_build_object(
+            'include_tasks', v_token_record.include_tasks,
+            'include_shifts', v_token_record.include_shifts,
+            'include_appointments', v_token_record.include_appointments,
+            'include_handoff_followups', v_token_record.include_handoff_followups,
+            'patient_ids', v_token_record.patient_ids,
+            'show_minimal_details', v_token_record.show_minimal_details,
+            'lookahead_days', v_token_record.lookahead_days,
+            'assignee_scope', v_token_record.assignee_scope,
+            'reminder_minutes', v_token_record.reminder_minutes,
+            'timezone', v_token_record.timezone,
+            'created_by', v_token_record.created_by
+        ),
+        NULL::text,
+        v_token_record.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
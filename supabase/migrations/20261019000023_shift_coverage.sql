@@ -0,0 +1,220 @@
+-- ============================================================================
+-- Migration: Shift Coverage
+-- Description: Required coverage windows per patient, and open shifts posted
+--              as slots members can claim
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: coverage_requirements
+-- ============================================================================
+-- "Someone with Dad 08:00-20:00 every day" is one row. Times are wall-clock
+-- times in the patient's timezone; an end at or before the start runs past
+-- midnight. plan-shift-coverage compares the windows with care_shifts.
+
+CREATE TABLE IF NOT EXISTS coverage_requirements (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    label text CHECK (char_length(label) <= 100),
+    -- ISO weekdays the window applies on, 1 = Monday
+    days_of_week int[] DEFAULT '{1,2,3,4,5,6,7}' NOT NULL
+        CHECK (days_of_week <> '{}' AND days_of_week <@ ARRAY[1, 2, 3, 4, 5, 6, 7]),
+    start_time time NOT NULL,
+    end_time time NOT NULL,
+    min_caregivers int DEFAULT 1 NOT NULL CHECK (min_caregivers BETWEEN 1 AND 5),
+    effective_from date,
+    effective_until date,
+    is_active boolean DEFAULT true NOT NULL,
+    created_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT coverage_requirements_valid_dates CHECK (
+        effective_from IS NULL OR effective_until IS NULL
+        OR effective_until >= effective_from
+    )
+);
+
+CREATE INDEX IF NOT EXISTS coverage_requirements_patient_idx
+    ON coverage_requirements(patient_id) WHERE is_active;
+CREATE INDEX IF NOT EXISTS coverage_requirements_circle_idx
+    ON coverage_requirements(circle_id);
+
+CREATE TRIGGER coverage_requirements_updated_at
+    BEFORE UPDATE ON coverage_requirements
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE coverage_requirements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY coverage_requirements_select ON coverage_requirements
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+CREATE POLICY coverage_requirements_insert ON coverage_requirements
+    FOR INSERT WITH CHECK (
+        has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR')
+        AND created_by = auth.uid()
+    );
+
+CREATE POLICY coverage_requirements_update ON coverage_requirements
+    FOR UPDATE USING (has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+CREATE POLICY coverage_requirements_delete ON coverage_requirements
+    FOR DELETE USING (has_circle_role(circle_id, auth.uid(), 'CONTRIBUTOR'));
+
+COMMENT ON TABLE coverage_requirements IS 'Daily windows in which a patient needs a caregiver present';
+
+-- ============================================================================
+-- TABLE: shift_slots
+-- ============================================================================
+-- An uncovered stretch posted for members to claim. Posted and canceled by
+-- plan-shift-coverage; claimed with claim_shift_slot, which creates the
+-- care_shifts row. Members cannot write slots directly.
+
+CREATE TABLE IF NOT EXISTS shift_slots (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    patient_id uuid NOT NULL REFERENCES patients(id) ON DELETE CASCADE,
+    requirement_id uuid REFERENCES coverage_requirements(id) ON DELETE SET NULL,
+    start_at timestamptz NOT NULL,
+    end_at timestamptz NOT NULL,
+    note text CHECK (char_length(note) <= 500),
+    status text DEFAULT 'OPEN' NOT NULL CHECK (status IN ('OPEN', 'CLAIMED', 'CANCELED')),
+    posted_by uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+    claimed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    claimed_at timestamptz,
+    shift_id uuid REFERENCES care_shifts(id) ON DELETE SET NULL,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL,
+
+    CONSTRAINT shift_slots_valid_range CHECK (end_at > start_at)
+);
+
+CREATE INDEX IF NOT EXISTS shift_slots_open_idx
+    ON shift_slots(circle_id, start_at) WHERE status = 'OPEN';
+CREATE INDEX IF NOT EXISTS shift_slots_patient_idx ON shift_slots(patient_id);
+-- The same stretch is only posted once while it is open
+CREATE UNIQUE INDEX IF NOT EXISTS shift_slots_open_unique
+    ON shift_slots(patient_id, start_at, end_at) WHERE status = 'OPEN';
+
+CREATE TRIGGER shift_slots_updated_at
+    BEFORE UPDATE ON shift_slots
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE shift_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY shift_slots_select ON shift_slots
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE shift_slots IS 'Open shifts posted for circle members to claim';
+
+-- ============================================================================
+-- FUNCTION: claim_shift_slot
+-- ============================================================================
+-- Claims an open slot for the caller: creates their care_shifts row, marks
+-- the slot CLAIMED and tells whoever posted it and the circle admins. The
+-- slot row is locked, so of two members claiming at once only one wins.
+
+CREATE OR REPLACE FUNCTION claim_shift_slot(p_slot_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_slot shift_slots%ROWTYPE;
+    v_shift_id uuid;
+    v_timezone text;
+    v_name text;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_slot
+    FROM shift_slots
+    WHERE id = p_slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_slot.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Slot not found');
+    END IF;
+
+    IF NOT has_circle_role(v_slot.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Insufficient permissions');
+    END IF;
+
+    IF v_slot.status <> 'OPEN' THEN
+        RETURN jsonb_build_object('error', 'Slot is no longer open', 'status', v_slot.status);
+    END IF;
+
+    IF v_slot.end_at <= now() THEN
+        RETURN jsonb_build_object('error', 'Slot has already ended');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM care_shifts
+        WHERE owner_user_id = v_caller
+          AND status IN ('SCHEDULED', 'ACTIVE')
+          AND start_at < v_slot.end_at
+          AND end_at > v_slot.start_at
+    ) THEN
+        RETURN jsonb_build_object('error', 'You already have a shift at this time');
+    END IF;
+
+    INSERT INTO care_shifts (circle_id, patient_id, owner_user_id, start_at, end_at, notes)
+    VALUES (v_slot.circle_id, v_slot.patient_id, v_caller, v_slot.start_at, v_slot.end_at, v_slot.note)
+    RETURNING id INTO v_shift_id;
+
+    UPDATE shift_slots
+    SET status = 'CLAIMED',
+        claimed_by = v_caller,
+        claimed_at = now(),
+        shift_id = v_shift_id
+    WHERE id = v_slot.id;
+
+    SELECT timezone INTO v_timezone FROM patients WHERE id = v_slot.patient_id;
+    SELECT display_name INTO v_name FROM users WHERE id = v_caller;
+
+    INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+    SELECT
+        cm.user_id,
+        v_slot.circle_id,
+        'SHIFT_SLOT_CLAIMED',
+        'Open Shift Claimed',
+        format(
+            '%s will cover %s to %s',
+            COALESCE(v_name, 'A member'),
+            to_char(v_slot.start_at AT TIME ZONE COALESCE(v_timezone, 'UTC'), 'Dy Mon FMDD HH24:MI'),
+            to_char(v_slot.end_at AT TIME ZONE COALESCE(v_timezone, 'UTC'), 'HH24:MI')
+        ),
+        jsonb_build_object(
+            'slot_id', v_slot.id,
+            'shift_id', v_shift_id,
+            'patient_id', v_slot.patient_id,
+            'circle_id', v_slot.circle_id
+        )
+    FROM circle_members cm
+    WHERE cm.circle_id = v_slot.circle_id
+      AND cm.status = 'ACTIVE'
+      AND cm.user_id <> v_caller
+      AND (cm.user_id = v_slot.posted_by OR cm.role IN ('OWNER', 'ADMIN'));
+
+    PERFORM create_audit_event(
+        v_slot.circle_id,
+        v_caller,
+        'SHIFT_SLOT_CLAIMED',
+        'shift_slot',
+        v_slot.id,
+        jsonb_build_object('shift_id', v_shift_id, 'patient_id', v_slot.patient_id)
+    );
+
+    RETURN jsonb_build_object(
+        'slot_id', v_slot.id,
+        'shift_id', v_shift_id,
+        'start_at', v_slot.start_at,
+        'end_at', v_slot.end_at
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION claim_shift_slot IS 'Claim an open shift slot, creating the caller''s shift';
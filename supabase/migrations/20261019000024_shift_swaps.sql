@@ -0,0 +1,987 @@
+-- ============================================================================
+-- Migration: Shift Swaps
+-- Description: Shift owners offer a scheduled shift, other members propose
+--              to take it or trade one of theirs, and the accepted proposal
+--              is carried out atomically, with optional admin approval
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- TABLE: shift_swap_offers
+-- ============================================================================
+-- One row per time an owner puts a shift up. offer_type says what the owner
+-- will take for it: GIVE_AWAY (someone takes it outright), SWAP (someone
+-- hands over one of their shifts in exchange) or EITHER. Circles set
+-- settings_json.shift_swap_requires_approval to have an admin approve each
+-- accepted proposal before the shifts change hands.
+
+CREATE TABLE IF NOT EXISTS shift_swap_offers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    shift_id uuid NOT NULL REFERENCES care_shifts(id) ON DELETE CASCADE,
+    offered_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    offer_type text DEFAULT 'EITHER' NOT NULL CHECK (offer_type IN ('GIVE_AWAY', 'SWAP', 'EITHER')),
+    note text CHECK (char_length(note) <= 500),
+    status text DEFAULT 'OPEN' NOT NULL
+        CHECK (status IN ('OPEN', 'PENDING_APPROVAL', 'COMPLETED', 'CANCELED')),
+    accepted_proposal_id uuid,
+    reviewed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+    reviewed_at timestamptz,
+    completed_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS shift_swap_offers_circle_idx
+    ON shift_swap_offers(circle_id, created_at DESC) WHERE status IN ('OPEN', 'PENDING_APPROVAL');
+-- A shift is on offer at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS shift_swap_offers_active_unique
+    ON shift_swap_offers(shift_id) WHERE status IN ('OPEN', 'PENDING_APPROVAL');
+
+CREATE TRIGGER shift_swap_offers_updated_at
+    BEFORE UPDATE ON shift_swap_offers
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE shift_swap_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY shift_swap_offers_select ON shift_swap_offers
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE shift_swap_offers IS 'Scheduled shifts their owners have offered to give away or trade';
+
+-- ============================================================================
+-- TABLE: shift_swap_proposals
+-- ============================================================================
+-- A member's answer to an offer: take the shift (swap_shift_id NULL) or
+-- trade it for swap_shift_id, one of their own upcoming shifts.
+
+CREATE TABLE IF NOT EXISTS shift_swap_proposals (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    circle_id uuid NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+    offer_id uuid NOT NULL REFERENCES shift_swap_offers(id) ON DELETE CASCADE,
+    proposed_by uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    swap_shift_id uuid REFERENCES care_shifts(id) ON DELETE CASCADE,
+    note text CHECK (char_length(note) <= 500),
+    status text DEFAULT 'PENDING' NOT NULL
+        CHECK (status IN ('PENDING', 'ACCEPTED', 'DECLINED', 'REJECTED', 'WITHDRAWN', 'SUPERSEDED')),
+    responded_at timestamptz,
+    created_at timestamptz DEFAULT now() NOT NULL,
+    updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS shift_swap_proposals_offer_idx ON shift_swap_proposals(offer_id);
+CREATE INDEX IF NOT EXISTS shift_swap_proposals_swap_shift_idx
+    ON shift_swap_proposals(swap_shift_id) WHERE swap_shift_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS shift_swap_proposals_pending_unique
+    ON shift_swap_proposals(offer_id, proposed_by) WHERE status = 'PENDING';
+
+CREATE TRIGGER shift_swap_proposals_updated_at
+    BEFORE UPDATE ON shift_swap_proposals
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE shift_swap_offers
+ADD CONSTRAINT shift_swap_offers_accepted_proposal_fkey
+    FOREIGN KEY (accepted_proposal_id) REFERENCES shift_swap_proposals(id) ON DELETE SET NULL;
+
+ALTER TABLE shift_swap_proposals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY shift_swap_proposals_select ON shift_swap_proposals
+    FOR SELECT USING (is_circle_member(circle_id, auth.uid()));
+
+COMMENT ON TABLE shift_swap_proposals IS 'Offers from members to take or trade for an offered shift';
+
+-- ============================================================================
+-- FUNCTION: has_shift_conflict (internal)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION has_shift_conflict(
+    p_user_id uuid,
+    p_start_at timestamptz,
+    p_end_at timestamptz,
+    p_ignore_shift_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM care_shifts
+        WHERE owner_user_id = p_user_id
+          AND status IN ('SCHEDULED', 'ACTIVE')
+          AND start_at < p_end_at
+          AND end_at > p_start_at
+          AND id IS DISTINCT FROM p_ignore_shift_id
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION has_shift_conflict IS 'Whether a member has a scheduled or active shift overlapping a time range';
+
+REVOKE EXECUTE ON FUNCTION has_shift_conflict(uuid, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_shift_conflict(uuid, timestamptz, timestamptz, uuid) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: describe_shift (internal)
+-- ============================================================================
+-- "Mom, Tue Oct 20 14:00 to 22:00" in the patient's timezone, for
+-- notification text.
+
+CREATE OR REPLACE FUNCTION describe_shift(p_shift_id uuid)
+RETURNS text AS $$
+    SELECT format(
+        '%s, %s to %s',
+        p.display_name,
+        to_char(s.start_at AT TIME ZONE COALESCE(p.timezone, 'UTC'), 'Dy Mon FMDD HH24:MI'),
+        to_char(s.end_at AT TIME ZONE COALESCE(p.timezone, 'UTC'), 'HH24:MI')
+    )
+    FROM care_shifts s
+    JOIN patients p ON p.id = s.patient_id
+    WHERE s.id = p_shift_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION describe_shift(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION describe_shift(uuid) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: complete_shift_swap (internal)
+-- ============================================================================
+-- Carries out an accepted proposal in one transaction. Both shifts are
+-- locked and checked again, since either may have changed since the
+-- proposal was made; nothing is written unless the swap can go ahead.
+-- The offered shift goes to the proposer and, for a trade, the proposer's
+-- shift to the offerer, each needing a fresh handover acknowledgment.
+-- Other offers and proposals that relied on either shift are closed, and
+-- both members' CalDAV calendars are marked due so the next sync run moves
+-- the events. ical-feed reads shifts live, so feeds change on their next
+-- poll. Called by respond_shift_swap and review_shift_swap with the offer
+-- and proposal already locked.
+
+CREATE OR REPLACE FUNCTION complete_shift_swap(
+    p_offer_id uuid,
+    p_proposal_id uuid,
+    p_actor_user_id uuid
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_offer shift_swap_offers%ROWTYPE;
+    v_proposal shift_swap_proposals%ROWTYPE;
+    v_shift care_shifts%ROWTYPE;
+    v_swap_shift care_shifts%ROWTYPE;
+    v_shift_ids uuid[];
+    v_shift_text text;
+    v_swap_text text;
+BEGIN
+    SELECT * INTO v_offer FROM shift_swap_offers WHERE id = p_offer_id;
+    SELECT * INTO v_proposal FROM shift_swap_proposals WHERE id = p_proposal_id;
+    v_shift_ids := array_remove(ARRAY[v_offer.shift_id, v_proposal.swap_shift_id], NULL);
+
+    -- In id order, so two swaps sharing a shift cannot deadlock
+    PERFORM 1 FROM care_shifts
+    WHERE id = ANY(v_shift_ids)
+    ORDER BY id
+    FOR UPDATE;
+
+    SELECT * INTO v_shift FROM care_shifts WHERE id = v_offer.shift_id;
+    IF v_shift.owner_user_id <> v_offer.offered_by
+       OR v_shift.status <> 'SCHEDULED'
+       OR v_shift.start_at <= now() THEN
+        RETURN jsonb_build_object('error', 'The offered shift has changed or started');
+    END IF;
+
+    IF NOT has_circle_role(v_offer.circle_id, v_proposal.proposed_by, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'The proposing member can no longer take shifts');
+    END IF;
+
+    IF v_proposal.swap_shift_id IS NOT NULL THEN
+        SELECT * INTO v_swap_shift FROM care_shifts WHERE id = v_proposal.swap_shift_id;
+        IF v_swap_shift.owner_user_id <> v_proposal.proposed_by
+           OR v_swap_shift.status <> 'SCHEDULED'
+           OR v_swap_shift.start_at <= now() THEN
+            RETURN jsonb_build_object('error', 'The proposed shift has changed or started');
+        END IF;
+
+        IF has_shift_conflict(v_offer.offered_by, v_swap_shift.start_at, v_swap_shift.end_at, v_shift.id) THEN
+            RETURN jsonb_build_object('error', 'The offering member now has a shift during the proposed shift');
+        END IF;
+    END IF;
+
+    IF has_shift_conflict(v_proposal.proposed_by, v_shift.start_at, v_shift.end_at, v_proposal.swap_shift_id) THEN
+        RETURN jsonb_build_object('error', 'The proposing member now has a shift during the offered shift');
+    END IF;
+
+    UPDATE care_shifts
+    SET owner_user_id = v_proposal.proposed_by,
+        handover_acknowledged_at = NULL,
+        handover_acknowledged_by = NULL
+    WHERE id = v_shift.id;
+
+    IF v_proposal.swap_shift_id IS NOT NULL THEN
+        UPDATE care_shifts
+        SET owner_user_id = v_offer.offered_by,
+            handover_acknowledged_at = NULL,
+            handover_acknowledged_by = NULL
+        WHERE id = v_swap_shift.id;
+    END IF;
+
+    UPDATE shift_swap_offers
+    SET status = 'COMPLETED',
+        accepted_proposal_id = v_proposal.id,
+        completed_at = now()
+    WHERE id = v_offer.id;
+
+    UPDATE shift_swap_proposals
+    SET status = 'ACCEPTED',
+        responded_at = COALESCE(responded_at, now())
+    WHERE id = v_proposal.id;
+
+    -- Approvals waiting on a trade for either shift can no longer happen;
+    -- their offers reopen
+    WITH reopened AS (
+        UPDATE shift_swap_offers o
+        SET status = 'OPEN', accepted_proposal_id = NULL
+        FROM shift_swap_proposals p
+        WHERE p.id = o.accepted_proposal_id
+          AND o.status = 'PENDING_APPROVAL'
+          AND p.swap_shift_id = ANY(v_shift_ids)
+        RETURNING p.id
+    )
+    UPDATE shift_swap_proposals
+    SET status = 'SUPERSEDED'
+    WHERE id IN (SELECT id FROM reopened);
+
+    -- Other offers of either shift are closed with their proposals
+    WITH closed AS (
+        UPDATE shift_swap_offers
+        SET status = 'CANCELED'
+        WHERE shift_id = ANY(v_shift_ids)
+          AND status IN ('OPEN', 'PENDING_APPROVAL')
+        RETURNING id
+    )
+    UPDATE shift_swap_proposals
+    SET status = 'SUPERSEDED'
+    WHERE offer_id IN (SELECT id FROM closed)
+      AND status IN ('PENDING', 'ACCEPTED');
+
+    UPDATE shift_swap_proposals
+    SET status = 'SUPERSEDED'
+    WHERE status = 'PENDING'
+      AND (offer_id = v_offer.id OR swap_shift_id = ANY(v_shift_ids));
+
+    -- Changes pulled from the previous owner's calendar no longer apply,
+    -- and events held for review must be free to move
+    UPDATE calendar_change_proposals
+    SET status = 'SUPERSEDED'
+    WHERE source_shift_id = ANY(v_shift_ids)
+      AND status = 'PENDING';
+
+    UPDATE calendar_events
+    SET sync_status = 'PENDING_PUSH'
+    WHERE source_shift_id = ANY(v_shift_ids)
+      AND sync_status IN ('PENDING_PULL', 'CONFLICT');
+
+    UPDATE calendar_connections
+    SET last_sync_at = NULL
+    WHERE circle_id = v_offer.circle_id
+      AND user_id IN (v_offer.offered_by, v_proposal.proposed_by)
+      AND provider = 'CALDAV'
+      AND status = 'ACTIVE'
+      AND sync_shifts;
+
+    v_shift_text := describe_shift(v_shift.id);
+    v_swap_text := CASE
+        WHEN v_proposal.swap_shift_id IS NOT NULL THEN describe_shift(v_swap_shift.id)
+    END;
+
+    IF v_proposal.proposed_by <> p_actor_user_id THEN
+        PERFORM queue_notification(
+            v_proposal.proposed_by,
+            v_offer.circle_id,
+            'SHIFT_SWAP_COMPLETED',
+            'Shift Swap Complete',
+            CASE
+                WHEN v_swap_text IS NULL THEN format('You now have %s', v_shift_text)
+                ELSE format('You now have %s instead of %s', v_shift_text, v_swap_text)
+            END,
+            jsonb_build_object('offer_id', v_offer.id, 'shift_id', v_shift.id, 'circle_id', v_offer.circle_id)
+        );
+    END IF;
+
+    IF v_offer.offered_by <> p_actor_user_id THEN
+        PERFORM queue_notification(
+            v_offer.offered_by,
+            v_offer.circle_id,
+            'SHIFT_SWAP_COMPLETED',
+            'Shift Swap Complete',
+            CASE
+                WHEN v_swap_text IS NULL THEN format('%s is no longer yours', v_shift_text)
+                ELSE format('You now have %s instead of %s', v_swap_text, v_shift_text)
+            END,
+            jsonb_build_object('offer_id', v_offer.id, 'shift_id', v_shift.id, 'circle_id', v_offer.circle_id)
+        );
+    END IF;
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        p_actor_user_id,
+        'SHIFT_SWAP_COMPLETED',
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object(
+            'proposal_id', v_proposal.id,
+            'shift_id', v_shift.id,
+            'swap_shift_id', v_proposal.swap_shift_id,
+            'offered_by', v_offer.offered_by,
+            'proposed_by', v_proposal.proposed_by
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'offer_id', v_offer.id,
+        'proposal_id', v_proposal.id,
+        'status', 'COMPLETED',
+        'shift_id', v_shift.id,
+        'swap_shift_id', v_proposal.swap_shift_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION complete_shift_swap IS 'Hand over the shifts of an accepted swap proposal';
+
+REVOKE EXECUTE ON FUNCTION complete_shift_swap(uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_shift_swap(uuid, uuid, uuid) TO service_role;
+
+-- ============================================================================
+-- FUNCTION: offer_shift_swap
+-- ============================================================================
+-- The owner of an upcoming scheduled shift puts it up. Contributors who
+-- are free for the whole shift are told about it.
+
+CREATE OR REPLACE FUNCTION offer_shift_swap(
+    p_shift_id uuid,
+    p_offer_type text DEFAULT 'EITHER',
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_shift care_shifts%ROWTYPE;
+    v_offer_id uuid;
+    v_existing_id uuid;
+    v_name text;
+    v_notified int;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_offer_type IS NULL OR p_offer_type NOT IN ('GIVE_AWAY', 'SWAP', 'EITHER') THEN
+        RETURN jsonb_build_object('error', 'Offer type must be GIVE_AWAY, SWAP or EITHER');
+    END IF;
+
+    IF char_length(p_note) > 500 THEN
+        RETURN jsonb_build_object('error', 'Note is too long');
+    END IF;
+
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_shift.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    IF v_shift.owner_user_id <> v_caller THEN
+        RETURN jsonb_build_object('error', 'Only the shift owner can offer it');
+    END IF;
+
+    IF v_shift.status <> 'SCHEDULED' OR v_shift.start_at <= now() THEN
+        RETURN jsonb_build_object('error', 'Only upcoming scheduled shifts can be offered');
+    END IF;
+
+    SELECT id INTO v_existing_id
+    FROM shift_swap_offers
+    WHERE shift_id = v_shift.id
+      AND status IN ('OPEN', 'PENDING_APPROVAL');
+
+    IF FOUND THEN
+        RETURN jsonb_build_object('error', 'Shift is already offered', 'offer_id', v_existing_id);
+    END IF;
+
+    INSERT INTO shift_swap_offers (circle_id, shift_id, offered_by, offer_type, note)
+    VALUES (v_shift.circle_id, v_shift.id, v_caller, p_offer_type, NULLIF(trim(p_note), ''))
+    RETURNING id INTO v_offer_id;
+
+    SELECT display_name INTO v_name FROM users WHERE id = v_caller;
+
+    INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+    SELECT
+        cm.user_id,
+        v_shift.circle_id,
+        'SHIFT_SWAP_OFFERED',
+        CASE p_offer_type
+            WHEN 'GIVE_AWAY' THEN 'Shift Up for Grabs'
+            ELSE 'Shift Swap Offered'
+        END,
+        format('%s is offering %s', COALESCE(v_name, 'A member'), describe_shift(v_shift.id)),
+        jsonb_build_object('offer_id', v_offer_id, 'shift_id', v_shift.id, 'circle_id', v_shift.circle_id)
+    FROM circle_members cm
+    WHERE cm.circle_id = v_shift.circle_id
+      AND cm.status = 'ACTIVE'
+      AND cm.role IN ('OWNER', 'ADMIN', 'CONTRIBUTOR')
+      AND cm.user_id <> v_caller
+      AND NOT has_shift_conflict(cm.user_id, v_shift.start_at, v_shift.end_at);
+
+    GET DIAGNOSTICS v_notified = ROW_COUNT;
+
+    PERFORM create_audit_event(
+        v_shift.circle_id,
+        v_caller,
+        'SHIFT_SWAP_OFFERED',
+        'shift_swap_offer',
+        v_offer_id,
+        jsonb_build_object('shift_id', v_shift.id, 'offer_type', p_offer_type, 'notified', v_notified)
+    );
+
+    RETURN jsonb_build_object(
+        'offer_id', v_offer_id,
+        'status', 'OPEN',
+        'notified', v_notified
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION offer_shift_swap IS 'Offer one of your upcoming shifts to give away or trade (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: propose_shift_swap
+-- ============================================================================
+-- A contributor offers to take an open offer's shift, or to trade one of
+-- their own upcoming shifts for it. Both members must be free for the
+-- shift they would end up with.
+
+CREATE OR REPLACE FUNCTION propose_shift_swap(
+    p_offer_id uuid,
+    p_swap_shift_id uuid DEFAULT NULL,
+    p_note text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_offer shift_swap_offers%ROWTYPE;
+    v_shift care_shifts%ROWTYPE;
+    v_swap_shift care_shifts%ROWTYPE;
+    v_proposal_id uuid;
+    v_name text;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF char_length(p_note) > 500 THEN
+        RETURN jsonb_build_object('error', 'Note is too long');
+    END IF;
+
+    SELECT * INTO v_offer FROM shift_swap_offers WHERE id = p_offer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_offer.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Offer not found');
+    END IF;
+
+    IF v_offer.status <> 'OPEN' THEN
+        RETURN jsonb_build_object('error', 'Offer is no longer open', 'status', v_offer.status);
+    END IF;
+
+    IF v_offer.offered_by = v_caller THEN
+        RETURN jsonb_build_object('error', 'You cannot respond to your own offer');
+    END IF;
+
+    IF NOT has_circle_role(v_offer.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Insufficient permissions');
+    END IF;
+
+    SELECT * INTO v_shift FROM care_shifts WHERE id = v_offer.shift_id;
+
+    IF v_shift.start_at <= now() THEN
+        RETURN jsonb_build_object('error', 'Shift has already started');
+    END IF;
+
+    IF p_swap_shift_id IS NULL THEN
+        IF v_offer.offer_type = 'SWAP' THEN
+            RETURN jsonb_build_object('error', 'This shift is only offered as a trade');
+        END IF;
+    ELSE
+        IF v_offer.offer_type = 'GIVE_AWAY' THEN
+            RETURN jsonb_build_object('error', 'This shift is only offered as a give-away');
+        END IF;
+
+        SELECT * INTO v_swap_shift FROM care_shifts WHERE id = p_swap_shift_id;
+
+        IF NOT FOUND
+           OR v_swap_shift.circle_id <> v_offer.circle_id
+           OR v_swap_shift.owner_user_id <> v_caller
+           OR v_swap_shift.status <> 'SCHEDULED'
+           OR v_swap_shift.start_at <= now() THEN
+            RETURN jsonb_build_object('error', 'The shift to trade must be one of your upcoming scheduled shifts');
+        END IF;
+
+        IF has_shift_conflict(v_offer.offered_by, v_swap_shift.start_at, v_swap_shift.end_at, v_shift.id) THEN
+            RETURN jsonb_build_object('error', 'The offering member already has a shift during your shift');
+        END IF;
+    END IF;
+
+    IF has_shift_conflict(v_caller, v_shift.start_at, v_shift.end_at, p_swap_shift_id) THEN
+        RETURN jsonb_build_object('error', 'You already have a shift at this time');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM shift_swap_proposals
+        WHERE offer_id = v_offer.id
+          AND proposed_by = v_caller
+          AND status = 'PENDING'
+    ) THEN
+        RETURN jsonb_build_object('error', 'You already have a proposal for this offer');
+    END IF;
+
+    INSERT INTO shift_swap_proposals (circle_id, offer_id, proposed_by, swap_shift_id, note)
+    VALUES (v_offer.circle_id, v_offer.id, v_caller, p_swap_shift_id, NULLIF(trim(p_note), ''))
+    RETURNING id INTO v_proposal_id;
+
+    SELECT display_name INTO v_name FROM users WHERE id = v_caller;
+
+    PERFORM queue_notification(
+        v_offer.offered_by,
+        v_offer.circle_id,
+        'SHIFT_SWAP_PROPOSED',
+        'Shift Swap Proposal',
+        CASE
+            WHEN p_swap_shift_id IS NULL
+                THEN format('%s can take %s', COALESCE(v_name, 'A member'), describe_shift(v_shift.id))
+            ELSE format(
+                '%s offers %s in exchange for %s',
+                COALESCE(v_name, 'A member'),
+                describe_shift(p_swap_shift_id),
+                describe_shift(v_shift.id)
+            )
+        END,
+        jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal_id, 'circle_id', v_offer.circle_id)
+    );
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        v_caller,
+        'SHIFT_SWAP_PROPOSED',
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object('proposal_id', v_proposal_id, 'swap_shift_id', p_swap_shift_id)
+    );
+
+    RETURN jsonb_build_object(
+        'proposal_id', v_proposal_id,
+        'offer_id', v_offer.id,
+        'status', 'PENDING'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION propose_shift_swap IS 'Offer to take, or trade one of your shifts for, an offered shift (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: respond_shift_swap
+-- ============================================================================
+-- The member who offered the shift accepts or declines a proposal. An
+-- accepted proposal is carried out at once, unless the circle requires
+-- approval and the offering member is not an admin themselves, in which
+-- case the offer waits for review_shift_swap.
+
+CREATE OR REPLACE FUNCTION respond_shift_swap(
+    p_proposal_id uuid,
+    p_decision text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_offer shift_swap_offers%ROWTYPE;
+    v_proposal shift_swap_proposals%ROWTYPE;
+    v_requires_approval boolean;
+    v_result jsonb;
+    v_name text;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_decision IS NULL OR p_decision NOT IN ('ACCEPT', 'DECLINE') THEN
+        RETURN jsonb_build_object('error', 'Decision must be ACCEPT or DECLINE');
+    END IF;
+
+    -- Offer before proposal, the order every swap function locks in
+    SELECT o.* INTO v_offer
+    FROM shift_swap_offers o
+    JOIN shift_swap_proposals p ON p.offer_id = o.id
+    WHERE p.id = p_proposal_id
+    FOR UPDATE OF o;
+
+    IF NOT FOUND OR NOT is_circle_member(v_offer.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Proposal not found');
+    END IF;
+
+    SELECT * INTO v_proposal FROM shift_swap_proposals WHERE id = p_proposal_id FOR UPDATE;
+
+    IF v_offer.offered_by <> v_caller THEN
+        RETURN jsonb_build_object('error', 'Only the member who offered the shift can respond');
+    END IF;
+
+    IF v_offer.status <> 'OPEN' THEN
+        RETURN jsonb_build_object('error', 'Offer is no longer open', 'status', v_offer.status);
+    END IF;
+
+    IF v_proposal.status <> 'PENDING' THEN
+        RETURN jsonb_build_object('error', 'Proposal already ' || lower(v_proposal.status));
+    END IF;
+
+    IF p_decision = 'DECLINE' THEN
+        UPDATE shift_swap_proposals
+        SET status = 'DECLINED',
+            responded_at = now()
+        WHERE id = v_proposal.id;
+
+        PERFORM queue_notification(
+            v_proposal.proposed_by,
+            v_offer.circle_id,
+            'SHIFT_SWAP_DECLINED',
+            'Shift Swap Declined',
+            format('Your proposal for %s was declined', describe_shift(v_offer.shift_id)),
+            jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal.id, 'circle_id', v_offer.circle_id)
+        );
+
+        PERFORM create_audit_event(
+            v_offer.circle_id,
+            v_caller,
+            'SHIFT_SWAP_DECLINED',
+            'shift_swap_offer',
+            v_offer.id,
+            jsonb_build_object('proposal_id', v_proposal.id, 'proposed_by', v_proposal.proposed_by)
+        );
+
+        RETURN jsonb_build_object(
+            'offer_id', v_offer.id,
+            'proposal_id', v_proposal.id,
+            'status', 'DECLINED'
+        );
+    END IF;
+
+    SELECT COALESCE(settings_json->'shift_swap_requires_approval' = 'true'::jsonb, false)
+    INTO v_requires_approval
+    FROM circles
+    WHERE id = v_offer.circle_id;
+
+    v_requires_approval := v_requires_approval
+        AND NOT has_circle_role(v_offer.circle_id, v_caller, 'ADMIN');
+
+    IF NOT v_requires_approval THEN
+        v_result := complete_shift_swap(v_offer.id, v_proposal.id, v_caller);
+        IF v_result ? 'error' THEN
+            RETURN v_result;
+        END IF;
+    ELSE
+        UPDATE shift_swap_offers
+        SET status = 'PENDING_APPROVAL',
+            accepted_proposal_id = v_proposal.id
+        WHERE id = v_offer.id;
+
+        UPDATE shift_swap_proposals
+        SET status = 'ACCEPTED',
+            responded_at = now()
+        WHERE id = v_proposal.id;
+
+        SELECT display_name INTO v_name FROM users WHERE id = v_caller;
+
+        INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+        SELECT
+            cm.user_id,
+            v_offer.circle_id,
+            'SHIFT_SWAP_APPROVAL_REQUESTED',
+            'Shift Swap Needs Approval',
+            format('%s has agreed to hand over %s', COALESCE(v_name, 'A member'), describe_shift(v_offer.shift_id)),
+            jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal.id, 'circle_id', v_offer.circle_id)
+        FROM circle_members cm
+        WHERE cm.circle_id = v_offer.circle_id
+          AND cm.status = 'ACTIVE'
+          AND cm.role IN ('OWNER', 'ADMIN')
+          AND cm.user_id NOT IN (v_caller, v_proposal.proposed_by);
+
+        PERFORM queue_notification(
+            v_proposal.proposed_by,
+            v_offer.circle_id,
+            'SHIFT_SWAP_ACCEPTED',
+            'Shift Swap Accepted',
+            format('Your proposal for %s was accepted and is waiting for an admin', describe_shift(v_offer.shift_id)),
+            jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal.id, 'circle_id', v_offer.circle_id)
+        );
+    END IF;
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        v_caller,
+        'SHIFT_SWAP_ACCEPTED',
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object(
+            'proposal_id', v_proposal.id,
+            'proposed_by', v_proposal.proposed_by,
+            'requires_approval', v_requires_approval
+        )
+    );
+
+    RETURN COALESCE(v_result, jsonb_build_object(
+        'offer_id', v_offer.id,
+        'proposal_id', v_proposal.id,
+        'status', 'PENDING_APPROVAL'
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION respond_shift_swap IS 'Accept or decline a proposal for your offered shift (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: review_shift_swap
+-- ============================================================================
+-- An admin who is not part of the swap approves it, carrying it out, or
+-- rejects it, which reopens the offer for other proposals.
+
+CREATE OR REPLACE FUNCTION review_shift_swap(
+    p_offer_id uuid,
+    p_decision text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_offer shift_swap_offers%ROWTYPE;
+    v_proposal shift_swap_proposals%ROWTYPE;
+    v_result jsonb;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_decision IS NULL OR p_decision NOT IN ('APPROVE', 'REJECT') THEN
+        RETURN jsonb_build_object('error', 'Decision must be APPROVE or REJECT');
+    END IF;
+
+    SELECT * INTO v_offer FROM shift_swap_offers WHERE id = p_offer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_offer.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Offer not found');
+    END IF;
+
+    IF NOT has_circle_role(v_offer.circle_id, v_caller, 'ADMIN') THEN
+        RETURN jsonb_build_object('error', 'Only circle admins can review shift swaps');
+    END IF;
+
+    IF v_offer.status <> 'PENDING_APPROVAL' THEN
+        RETURN jsonb_build_object('error', 'Offer is not awaiting approval', 'status', v_offer.status);
+    END IF;
+
+    SELECT * INTO v_proposal FROM shift_swap_proposals WHERE id = v_offer.accepted_proposal_id FOR UPDATE;
+
+    IF v_caller IN (v_offer.offered_by, v_proposal.proposed_by) THEN
+        RETURN jsonb_build_object('error', 'You cannot review a swap you are part of');
+    END IF;
+
+    IF p_decision = 'APPROVE' THEN
+        v_result := complete_shift_swap(v_offer.id, v_proposal.id, v_caller);
+        IF v_result ? 'error' THEN
+            RETURN v_result;
+        END IF;
+
+        UPDATE shift_swap_offers
+        SET reviewed_by = v_caller,
+            reviewed_at = now()
+        WHERE id = v_offer.id;
+    ELSE
+        UPDATE shift_swap_offers
+        SET status = 'OPEN',
+            accepted_proposal_id = NULL,
+            reviewed_by = v_caller,
+            reviewed_at = now()
+        WHERE id = v_offer.id;
+
+        UPDATE shift_swap_proposals
+        SET status = 'REJECTED'
+        WHERE id = v_proposal.id;
+
+        INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+        SELECT
+            party.user_id,
+            v_offer.circle_id,
+            'SHIFT_SWAP_REJECTED',
+            'Shift Swap Not Approved',
+            format('An admin did not approve the swap for %s', describe_shift(v_offer.shift_id)),
+            jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal.id, 'circle_id', v_offer.circle_id)
+        FROM unnest(ARRAY[v_offer.offered_by, v_proposal.proposed_by]) AS party(user_id);
+    END IF;
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        v_caller,
+        CASE WHEN p_decision = 'APPROVE' THEN 'SHIFT_SWAP_APPROVED' ELSE 'SHIFT_SWAP_REJECTED' END,
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object('proposal_id', v_proposal.id)
+    );
+
+    RETURN COALESCE(v_result, jsonb_build_object(
+        'offer_id', v_offer.id,
+        'proposal_id', v_proposal.id,
+        'status', 'OPEN'
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION review_shift_swap IS 'Approve or reject an accepted shift swap (admins, uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: cancel_shift_swap_offer
+-- ============================================================================
+-- The member who offered the shift, or an admin, takes the offer back
+-- before it completes. Members with open proposals are told.
+
+CREATE OR REPLACE FUNCTION cancel_shift_swap_offer(p_offer_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_offer shift_swap_offers%ROWTYPE;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_offer FROM shift_swap_offers WHERE id = p_offer_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_offer.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Offer not found');
+    END IF;
+
+    IF v_offer.offered_by <> v_caller
+       AND NOT has_circle_role(v_offer.circle_id, v_caller, 'ADMIN') THEN
+        RETURN jsonb_build_object('error', 'Only the member who offered the shift or an admin can cancel the offer');
+    END IF;
+
+    IF v_offer.status NOT IN ('OPEN', 'PENDING_APPROVAL') THEN
+        RETURN jsonb_build_object('error', 'Offer already ' || lower(v_offer.status));
+    END IF;
+
+    UPDATE shift_swap_offers
+    SET status = 'CANCELED'
+    WHERE id = v_offer.id;
+
+    WITH superseded AS (
+        UPDATE shift_swap_proposals
+        SET status = 'SUPERSEDED'
+        WHERE offer_id = v_offer.id
+          AND status IN ('PENDING', 'ACCEPTED')
+        RETURNING proposed_by
+    )
+    INSERT INTO notification_outbox (user_id, circle_id, notification_type, title, body, data_json)
+    SELECT
+        s.proposed_by,
+        v_offer.circle_id,
+        'SHIFT_SWAP_CANCELED',
+        'Shift Swap Canceled',
+        format('%s is no longer on offer', describe_shift(v_offer.shift_id)),
+        jsonb_build_object('offer_id', v_offer.id, 'circle_id', v_offer.circle_id)
+    FROM superseded s
+    WHERE s.proposed_by <> v_caller;
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        v_caller,
+        'SHIFT_SWAP_CANCELED',
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object('shift_id', v_offer.shift_id, 'previous_status', v_offer.status)
+    );
+
+    RETURN jsonb_build_object('offer_id', v_offer.id, 'status', 'CANCELED');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION cancel_shift_swap_offer IS 'Withdraw a shift from offer (owner or admin, uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: withdraw_shift_swap_proposal
+-- ============================================================================
+-- The proposing member takes their proposal back. Withdrawing one that is
+-- waiting for approval reopens the offer.
+
+CREATE OR REPLACE FUNCTION withdraw_shift_swap_proposal(p_proposal_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_offer shift_swap_offers%ROWTYPE;
+    v_proposal shift_swap_proposals%ROWTYPE;
+    v_name text;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT o.* INTO v_offer
+    FROM shift_swap_offers o
+    JOIN shift_swap_proposals p ON p.offer_id = o.id
+    WHERE p.id = p_proposal_id
+    FOR UPDATE OF o;
+
+    IF NOT FOUND OR NOT is_circle_member(v_offer.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Proposal not found');
+    END IF;
+
+    SELECT * INTO v_proposal FROM shift_swap_proposals WHERE id = p_proposal_id FOR UPDATE;
+
+    IF v_proposal.proposed_by <> v_caller THEN
+        RETURN jsonb_build_object('error', 'Only the member who made the proposal can withdraw it');
+    END IF;
+
+    IF NOT (
+        v_proposal.status = 'PENDING'
+        OR (v_proposal.status = 'ACCEPTED' AND v_offer.status = 'PENDING_APPROVAL')
+    ) THEN
+        RETURN jsonb_build_object('error', 'Proposal already ' || lower(v_proposal.status));
+    END IF;
+
+    UPDATE shift_swap_proposals
+    SET status = 'WITHDRAWN'
+    WHERE id = v_proposal.id;
+
+    IF v_offer.accepted_proposal_id = v_proposal.id THEN
+        UPDATE shift_swap_offers
+        SET status = 'OPEN',
+            accepted_proposal_id = NULL
+        WHERE id = v_offer.id;
+    END IF;
+
+    SELECT display_name INTO v_name FROM users WHERE id = v_caller;
+
+    PERFORM queue_notification(
+        v_offer.offered_by,
+        v_offer.circle_id,
+        'SHIFT_SWAP_WITHDRAWN',
+        'Shift Swap Proposal Withdrawn',
+        format('%s withdrew their proposal for %s', COALESCE(v_name, 'A member'), describe_shift(v_offer.shift_id)),
+        jsonb_build_object('offer_id', v_offer.id, 'proposal_id', v_proposal.id, 'circle_id', v_offer.circle_id)
+    );
+
+    PERFORM create_audit_event(
+        v_offer.circle_id,
+        v_caller,
+        'SHIFT_SWAP_WITHDRAWN',
+        'shift_swap_offer',
+        v_offer.id,
+        jsonb_build_object('proposal_id', v_proposal.id, 'previous_status', v_proposal.status)
+    );
+
+    RETURN jsonb_build_object(
+        'offer_id', v_offer.id,
+        'proposal_id', v_proposal.id,
+        'status', 'WITHDRAWN'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION withdraw_shift_swap_proposal IS 'Withdraw your proposal for an offered shift (uses auth.uid())';
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Migration: Publish Operations Cleanup
+-- Description: cleanup_publish_operations is only run by the
+--              cleanup-publish-operations cron function
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- The cron function calls it with the service role; clients must not be
+-- able to delete other circles' operation records
+REVOKE EXECUTE ON FUNCTION cleanup_publish_operations(int) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION cleanup_publish_operations IS 'Delete publish operation records older than p_days; run nightly by the cleanup-publish-operations cron function';
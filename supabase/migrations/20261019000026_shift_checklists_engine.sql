@@ -0,0 +1,404 @@
+-- ============================================================================
+-- Migration: Shift Checklists on the Checklist Engine
+-- Description: Move shift checklist templates into checklist_templates,
+--              start shift checklists through instantiate_checklist, and
+--              roll up parents whose last blocker completes
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: roll_up_parent_task
+-- ============================================================================
+-- Completes a parent once none of its subtasks are open, at least one is
+-- done and nothing still blocks it. Called when a subtask closes and when a
+-- blocker closes, so a parent that was blocked when its last subtask was
+-- done completes as soon as the blocker does. The update fires both
+-- triggers again, so completion keeps cascading up the tree.
+
+CREATE OR REPLACE FUNCTION roll_up_parent_task(
+    p_task_id uuid,
+    p_completed_by uuid DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM tasks
+        WHERE parent_task_id = p_task_id AND status = 'OPEN'
+    ) OR NOT EXISTS (
+        SELECT 1 FROM tasks
+        WHERE parent_task_id = p_task_id AND status = 'DONE'
+    ) OR EXISTS (
+        SELECT 1
+        FROM task_dependencies d
+        JOIN tasks b ON b.id = d.blocked_by_task_id
+        WHERE d.task_id = p_task_id
+          AND b.status = 'OPEN'
+    ) THEN
+        RETURN;
+    END IF;
+
+    UPDATE tasks t
+    SET
+        status = 'DONE',
+        completed_at = now(),
+        completed_by = COALESCE(
+            p_completed_by,
+            (
+                SELECT s.completed_by
+                FROM tasks s
+                WHERE s.parent_task_id = t.id
+                  AND s.status = 'DONE'
+                  AND s.completed_by IS NOT NULL
+                ORDER BY s.completed_at DESC
+                LIMIT 1
+            ),
+            t.owner_user_id
+        ),
+        completion_note = 'All subtasks completed',
+        updated_at = now()
+    WHERE t.id = p_task_id
+      AND t.status = 'OPEN';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION roll_up_parent_task(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION roll_up_task_completion()
+RETURNS trigger AS $$
+BEGIN
+    IF NEW.status = 'OPEN' OR OLD.status <> 'OPEN' THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM roll_up_parent_task(
+        NEW.parent_task_id,
+        COALESCE(NEW.completed_by, NEW.owner_user_id)
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- TRIGGER: blocker completion rollup
+-- ============================================================================
+-- Completed and canceled blockers both stop blocking.
+
+CREATE OR REPLACE FUNCTION roll_up_unblocked_tasks()
+RETURNS trigger AS $$
+DECLARE
+    v_task_id uuid;
+BEGIN
+    FOR v_task_id IN
+        SELECT d.task_id
+        FROM task_dependencies d
+        JOIN tasks t ON t.id = d.task_id
+        WHERE d.blocked_by_task_id = NEW.id
+          AND t.status = 'OPEN'
+    LOOP
+        PERFORM roll_up_parent_task(v_task_id);
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tasks_roll_up_unblocked
+    AFTER UPDATE OF status ON tasks
+    FOR EACH ROW
+    WHEN (OLD.status = 'OPEN' AND NEW.status <> 'OPEN')
+    EXECUTE FUNCTION roll_up_unblocked_tasks();
+
+-- ============================================================================
+-- CHECKLIST_TEMPLATES: shift template defaults
+-- ============================================================================
+-- A circle may scope a template to one patient and mark it as the default
+-- for new shift checklists, as shift_checklist_templates allowed.
+
+ALTER TABLE checklist_templates
+ADD COLUMN IF NOT EXISTS patient_id uuid REFERENCES patients(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS is_default boolean DEFAULT false NOT NULL;
+
+ALTER TABLE checklist_templates
+ADD CONSTRAINT checklist_templates_patient_owner CHECK (patient_id IS NULL OR circle_id IS NOT NULL);
+
+COMMENT ON COLUMN checklist_templates.patient_id IS 'Patient the template is for; NULL for the whole circle';
+COMMENT ON COLUMN checklist_templates.is_default IS 'Used by start_shift_checklist when no template is chosen';
+
+-- Shift templates were lists of strings or {text} objects; each becomes a
+-- top-level item due at the shift start. Templates left with no items are
+-- not carried over.
+INSERT INTO checklist_templates (
+    circle_id, patient_id, kind, name, items, is_default, created_by,
+    created_at, updated_at
+)
+SELECT
+    s.circle_id,
+    s.patient_id,
+    'SHIFT',
+    left(trim(s.name), 200),
+    converted.items,
+    s.is_default,
+    s.created_by,
+    s.created_at,
+    s.updated_at
+FROM shift_checklist_templates s
+CROSS JOIN LATERAL (
+    SELECT jsonb_agg(
+        jsonb_build_object(
+            'key', 'ITEM_' || i.ordinality,
+            'title', left(i.title, 200),
+            'due_offset_days', 0
+        )
+        ORDER BY i.ordinality
+    ) AS items
+    FROM (
+        SELECT
+            e.ordinality,
+            trim(CASE jsonb_typeof(e.value)
+                WHEN 'string' THEN e.value #>> '{}'
+                ELSE COALESCE(e.value->>'text', e.value->>'title')
+            END) AS title
+        FROM jsonb_array_elements(s.items_json) WITH ORDINALITY e
+        WHERE e.ordinality <= 200
+    ) i
+    WHERE length(i.title) > 0
+) converted
+WHERE converted.items IS NOT NULL
+  AND length(trim(s.name)) > 0;
+
+-- The old table is kept, read-only, until the copy has been checked; a
+-- later migration drops it.
+ALTER TABLE shift_checklist_templates RENAME TO shift_checklist_templates_deprecated;
+
+DROP POLICY IF EXISTS shift_checklist_templates_insert ON shift_checklist_templates_deprecated;
+DROP POLICY IF EXISTS shift_checklist_templates_update ON shift_checklist_templates_deprecated;
+
+COMMENT ON TABLE shift_checklist_templates_deprecated IS 'Deprecated: copied into checklist_templates (kind SHIFT); to be dropped';
+
+-- ============================================================================
+-- CARE_SHIFTS: checklist root task
+-- ============================================================================
+-- checklist_json stays for shifts finalized before checklists became tasks.
+
+ALTER TABLE care_shifts
+ADD COLUMN IF NOT EXISTS checklist_task_id uuid REFERENCES tasks(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN care_shifts.checklist_task_id IS 'Root task of the shift checklist created by start_shift_checklist';
+
+-- ============================================================================
+-- FUNCTION: start_shift_checklist
+-- ============================================================================
+-- Instantiates a SHIFT template for a shift through instantiate_checklist,
+-- owned by the shift owner and due at the shift start. Without
+-- p_template_id the patient's default template is used, then the circle's,
+-- then the system "Care Shift" template.
+
+CREATE OR REPLACE FUNCTION start_shift_checklist(
+    p_shift_id uuid,
+    p_template_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_shift care_shifts%ROWTYPE;
+    v_template checklist_templates%ROWTYPE;
+    v_result jsonb;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    IF v_shift.owner_user_id <> v_caller
+       AND NOT has_circle_role(v_shift.circle_id, v_caller, 'ADMIN') THEN
+        RETURN jsonb_build_object('error', 'Not authorized to start this shift checklist');
+    END IF;
+
+    IF v_shift.status NOT IN ('SCHEDULED', 'ACTIVE') THEN
+        RETURN jsonb_build_object('error', 'Shift already finalized');
+    END IF;
+
+    IF v_shift.checklist_task_id IS NOT NULL THEN
+        RETURN jsonb_build_object(
+            'error', 'Shift checklist already started',
+            'root_task_id', v_shift.checklist_task_id
+        );
+    END IF;
+
+    SELECT * INTO v_template
+    FROM checklist_templates
+    WHERE kind = 'SHIFT'
+      AND is_active = true
+      AND (patient_id IS NULL OR patient_id = v_shift.patient_id)
+      AND CASE
+          WHEN p_template_id IS NOT NULL THEN
+              id = p_template_id
+              AND (circle_id IS NULL OR circle_id = v_shift.circle_id)
+          ELSE
+              circle_id IS NULL
+              OR (circle_id = v_shift.circle_id AND is_default)
+      END
+    ORDER BY patient_id IS NULL, circle_id IS NULL, created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Template not found');
+    END IF;
+
+    v_result := instantiate_checklist(
+        v_shift.circle_id,
+        v_shift.patient_id,
+        v_caller,
+        'Shift checklist: ' || to_char(v_shift.start_at, 'Mon DD HH24:MI'),
+        v_template.items,
+        v_shift.start_at,
+        v_shift.owner_user_id,
+        v_template.id
+    );
+
+    IF v_result ? 'error' THEN
+        RETURN v_result;
+    END IF;
+
+    UPDATE care_shifts
+    SET
+        checklist_task_id = (v_result->>'root_task_id')::uuid,
+        updated_at = now()
+    WHERE id = p_shift_id;
+
+    RETURN v_result || jsonb_build_object('shift_id', p_shift_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION start_shift_checklist IS 'Create the shift checklist task tree from a SHIFT template (uses auth.uid())';
+
+-- ============================================================================
+-- FUNCTION: finalize_shift (checklist tasks)
+-- ============================================================================
+-- The handoff summary lists the checklist tasks in template order, or the
+-- legacy checklist_json for shifts that never started a task checklist.
+
+CREATE OR REPLACE FUNCTION finalize_shift(
+    p_shift_id uuid,
+    p_notes text DEFAULT NULL,
+    p_create_handoff boolean DEFAULT true
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_shift care_shifts%ROWTYPE;
+    v_handoff_id uuid;
+    v_checklist_summary text;
+    v_caller uuid := auth.uid();
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    -- Get shift
+    SELECT * INTO v_shift FROM care_shifts WHERE id = p_shift_id;
+    IF v_shift IS NULL THEN
+        RETURN jsonb_build_object('error', 'Shift not found');
+    END IF;
+
+    -- Check ownership or admin
+    IF v_shift.owner_user_id != v_caller AND NOT has_circle_role(v_shift.circle_id, v_caller, 'ADMIN') THEN
+        RETURN jsonb_build_object('error', 'Not authorized to finalize this shift');
+    END IF;
+
+    -- Check status
+    IF v_shift.status NOT IN ('SCHEDULED', 'ACTIVE') THEN
+        RETURN jsonb_build_object('error', 'Shift already finalized');
+    END IF;
+
+    -- Build checklist summary
+    IF v_shift.checklist_task_id IS NOT NULL THEN
+        WITH RECURSIVE tree(id) AS (
+            SELECT id FROM tasks WHERE parent_task_id = v_shift.checklist_task_id
+            UNION ALL
+            SELECT t.id FROM tasks t JOIN tree ON t.parent_task_id = tree.id
+        )
+        SELECT string_agg(
+            CASE WHEN t.status = 'DONE' THEN E'\u2713 ' ELSE E'\u25CB ' END || t.title,
+            E'\n'
+            ORDER BY item_order.ordinality NULLS LAST, t.title
+        )
+        INTO v_checklist_summary
+        FROM tree
+        JOIN tasks t ON t.id = tree.id
+        LEFT JOIN checklist_templates ct ON ct.id = t.checklist_template_id
+        LEFT JOIN LATERAL (
+            SELECT i.ordinality
+            FROM jsonb_array_elements(ct.items) WITH ORDINALITY i
+            WHERE i.value->>'key' = t.template_item_key
+        ) item_order ON true;
+    ELSE
+        SELECT string_agg(
+            CASE WHEN (item->>'completed')::boolean THEN E'\u2713 ' ELSE E'\u25CB ' END || (item->>'text'),
+            E'\n'
+        )
+        INTO v_checklist_summary
+        FROM jsonb_array_elements(v_shift.checklist_json) AS item;
+    END IF;
+
+    -- Create handoff if requested
+    IF p_create_handoff THEN
+        INSERT INTO handoffs (
+            circle_id,
+            patient_id,
+            created_by,
+            type,
+            title,
+            summary,
+            status
+        ) VALUES (
+            v_shift.circle_id,
+            v_shift.patient_id,
+            v_caller,
+            'OTHER',
+            'Shift Summary: ' || to_char(v_shift.start_at, 'Mon DD HH24:MI') || ' - ' || to_char(v_shift.end_at, 'HH24:MI'),
+            COALESCE(p_notes, '') ||
+            CASE WHEN v_checklist_summary IS NOT NULL THEN E'\n\nChecklist:\n' || v_checklist_summary ELSE '' END,
+            'DRAFT'
+        )
+        RETURNING id INTO v_handoff_id;
+    END IF;
+
+    -- Update shift status
+    UPDATE care_shifts
+    SET
+        status = 'COMPLETED',
+        notes = COALESCE(p_notes, notes),
+        summary_handoff_id = v_handoff_id,
+        updated_at = now()
+    WHERE id = p_shift_id;
+
+    -- Audit
+    INSERT INTO audit_events (
+        circle_id,
+        actor_user_id,
+        event_type,
+        object_type,
+        object_id,
+        metadata_json
+    ) VALUES (
+        v_shift.circle_id,
+        v_caller,
+        'SHIFT_COMPLETED',
+        'care_shift',
+        p_shift_id,
+        jsonb_build_object('handoff_id', v_handoff_id)
+    );
+
+    RETURN jsonb_build_object(
+        'shift_id', p_shift_id,
+        'status', 'COMPLETED',
+        'handoff_id', v_handoff_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration: Alert Event Claims
+-- Description: One alert_events row per rule, subject and cooldown window,
+--              so overlapping evaluate-alert-rules runs act on a match once
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- ALERT_EVENTS: cooldown window
+-- ============================================================================
+-- evaluate-alert-rules inserts the event before running a match's actions
+-- and acts only if the insert went through. cooldown_window_start is
+-- fired_at rounded down to a multiple of the rule's cooldown, so a second
+-- run in the same window conflicts on the unique index and skips the match.
+-- Rows from before this migration leave it NULL and never conflict.
+
+ALTER TABLE alert_events
+ADD COLUMN IF NOT EXISTS cooldown_window_start timestamptz;
+
+CREATE UNIQUE INDEX IF NOT EXISTS alert_events_rule_subject_window_unique
+    ON alert_events(rule_id, subject_id, cooldown_window_start);
+
+COMMENT ON COLUMN alert_events.cooldown_window_start IS 'Start of the rule cooldown window the event claimed';
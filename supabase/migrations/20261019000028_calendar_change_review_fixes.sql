@@ -0,0 +1,184 @@
+-- ============================================================================
+-- Migration: Calendar Change Review Fixes
+-- Description: review_calendar_change refuses stale appointment proposals
+--              and proposals whose task, shift or appointment is gone
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: review_calendar_change
+-- ============================================================================
+-- Appointments get the same staleness check as tasks and shifts: the
+-- contact's nextAppointment must still be the time the proposal was made
+-- against. A source row deleted since the proposal is reported as not
+-- found instead of passing the checks on NULLs.
+
+CREATE OR REPLACE FUNCTION review_calendar_change(
+    p_proposal_id uuid,
+    p_decision text
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_caller uuid := auth.uid();
+    v_proposal calendar_change_proposals%ROWTYPE;
+    v_task tasks%ROWTYPE;
+    v_shift care_shifts%ROWTYPE;
+    v_item binder_items%ROWTYPE;
+    v_appointment_at timestamptz;
+BEGIN
+    IF v_caller IS NULL THEN
+        RETURN jsonb_build_object('error', 'Authentication required');
+    END IF;
+
+    IF p_decision NOT IN ('APPLY', 'REJECT') THEN
+        RETURN jsonb_build_object('error', 'Decision must be APPLY or REJECT');
+    END IF;
+
+    SELECT * INTO v_proposal
+    FROM calendar_change_proposals
+    WHERE id = p_proposal_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT is_circle_member(v_proposal.circle_id, v_caller) THEN
+        RETURN jsonb_build_object('error', 'Proposal not found');
+    END IF;
+
+    IF v_proposal.status != 'PENDING' THEN
+        RETURN jsonb_build_object('error', 'Proposal already ' || lower(v_proposal.status));
+    END IF;
+
+    IF v_proposal.source_type = 'SHIFT' THEN
+        SELECT * INTO v_shift FROM care_shifts WHERE id = v_proposal.source_shift_id FOR UPDATE;
+        IF NOT FOUND THEN
+            RETURN jsonb_build_object('error', 'Shift not found');
+        END IF;
+        IF v_shift.owner_user_id != v_caller
+           AND NOT has_circle_role(v_proposal.circle_id, v_caller, 'ADMIN') THEN
+            RETURN jsonb_build_object('error', 'Only the shift owner or an admin can review this change');
+        END IF;
+    ELSIF NOT has_circle_role(v_proposal.circle_id, v_caller, 'CONTRIBUTOR') THEN
+        RETURN jsonb_build_object('error', 'Contributor role required');
+    END IF;
+
+    IF p_decision = 'APPLY' THEN
+        IF v_proposal.source_type = 'TASK' THEN
+            SELECT * INTO v_task FROM tasks WHERE id = v_proposal.source_task_id FOR UPDATE;
+            IF NOT FOUND THEN
+                RETURN jsonb_build_object('error', 'Task not found');
+            END IF;
+            IF v_task.status != 'OPEN' OR v_task.due_at IS DISTINCT FROM v_proposal.current_start_at THEN
+                RETURN jsonb_build_object('error', 'Task has changed since the proposal');
+            END IF;
+
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE tasks SET status = 'CANCELED' WHERE id = v_task.id;
+            ELSE
+                UPDATE tasks SET due_at = v_proposal.proposed_start_at WHERE id = v_task.id;
+            END IF;
+
+        ELSIF v_proposal.source_type = 'SHIFT' THEN
+            IF v_shift.status NOT IN ('SCHEDULED', 'ACTIVE')
+               OR v_shift.start_at != v_proposal.current_start_at
+               OR v_shift.end_at IS DISTINCT FROM v_proposal.current_end_at THEN
+                RETURN jsonb_build_object('error', 'Shift has changed since the proposal');
+            END IF;
+
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE care_shifts SET status = 'CANCELED' WHERE id = v_shift.id;
+            ELSE
+                UPDATE care_shifts
+                SET start_at = v_proposal.proposed_start_at,
+                    end_at = COALESCE(
+                        v_proposal.proposed_end_at,
+                        v_proposal.proposed_start_at + (v_shift.end_at - v_shift.start_at)
+                    )
+                WHERE id = v_shift.id;
+            END IF;
+
+        ELSE
+            SELECT * INTO v_item FROM binder_items WHERE id = v_proposal.source_binder_item_id FOR UPDATE;
+            IF NOT FOUND THEN
+                RETURN jsonb_build_object('error', 'Appointment not found');
+            END IF;
+
+            -- An unreadable time counts as changed
+            BEGIN
+                v_appointment_at := (v_item.content_json->>'nextAppointment')::timestamptz;
+            EXCEPTION WHEN invalid_datetime_format OR datetime_field_overflow THEN
+                v_appointment_at := NULL;
+            END;
+
+            IF NOT v_item.is_active
+               OR v_appointment_at IS DISTINCT FROM v_proposal.current_start_at THEN
+                RETURN jsonb_build_object('error', 'Appointment has changed since the proposal');
+            END IF;
+
+            IF v_proposal.kind = 'CANCEL' THEN
+                UPDATE binder_items
+                SET content_json = content_json - 'nextAppointment'
+                WHERE id = v_proposal.source_binder_item_id;
+            ELSE
+                UPDATE binder_items
+                SET content_json = jsonb_set(
+                    content_json,
+                    '{nextAppointment}',
+                    to_jsonb(to_char(v_proposal.proposed_start_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'))
+                )
+                WHERE id = v_proposal.source_binder_item_id;
+            END IF;
+        END IF;
+
+        -- The calendar already shows the change; a canceled event is gone
+        IF v_proposal.kind = 'CANCEL' THEN
+            DELETE FROM calendar_events WHERE id = v_proposal.calendar_event_id;
+        ELSE
+            UPDATE calendar_events
+            SET start_at = v_proposal.proposed_start_at,
+                end_at = COALESCE(v_proposal.proposed_end_at, end_at),
+                sync_status = 'SYNCED',
+                conflict_resolved_at = now(),
+                conflict_resolution = 'EXTERNAL'
+            WHERE id = v_proposal.calendar_event_id;
+        END IF;
+    ELSE
+        -- Write CuraKnot's version back; a deleted event is created again
+        IF v_proposal.kind = 'CANCEL' THEN
+            DELETE FROM calendar_events WHERE id = v_proposal.calendar_event_id;
+        ELSE
+            UPDATE calendar_events
+            SET sync_status = 'PENDING_PUSH',
+                conflict_resolved_at = now(),
+                conflict_resolution = 'LOCAL'
+            WHERE id = v_proposal.calendar_event_id;
+        END IF;
+    END IF;
+
+    UPDATE calendar_change_proposals
+    SET status = CASE WHEN p_decision = 'APPLY' THEN 'APPLIED' ELSE 'REJECTED' END,
+        reviewed_by = v_caller,
+        reviewed_at = now()
+    WHERE id = p_proposal_id;
+
+    PERFORM create_audit_event(
+        v_proposal.circle_id,
+        v_caller,
+        CASE WHEN p_decision = 'APPLY' THEN 'CALENDAR_CHANGE_APPLIED' ELSE 'CALENDAR_CHANGE_REJECTED' END,
+        lower(v_proposal.source_type),
+        COALESCE(v_proposal.source_task_id, v_proposal.source_shift_id, v_proposal.source_binder_item_id),
+        jsonb_build_object(
+            'proposal_id', p_proposal_id,
+            'kind', v_proposal.kind,
+            'proposed_by', v_proposal.proposed_by
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'proposal_id', p_proposal_id,
+        'status', CASE WHEN p_decision = 'APPLY' THEN 'APPLIED' ELSE 'REJECTED' END,
+        'source_type', v_proposal.source_type,
+        'kind', v_proposal.kind
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION review_calendar_change IS 'Apply or reject a change made in a synced calendar (uses auth.uid())';
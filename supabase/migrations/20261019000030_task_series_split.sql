@@ -0,0 +1,133 @@
+-- ============================================================================
+-- Migration: Task Series Split
+-- Description: "This and following" edits and cancellations of a task
+--              series in one transaction
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: split_task_series
+-- ============================================================================
+-- manage-recurring-tasks works out the rules and occurrences; this applies
+-- them together, so a failure never leaves a series cut short without its
+-- continuation, or continued twice.
+--
+-- p_before: {rrule, ends_at} the series keeps up to p_at, or NULL when the
+--   change starts at its first occurrence.
+-- p_following: {title, description, priority, owner_user_id, rrule,
+--   dtstart, ends_at} for the occurrences from p_at on, or NULL to cancel
+--   them. With p_before they become a new series (parent_series_id);
+--   without it the series is rewritten in place.
+-- p_occurrences: occurrence instants to materialize for that series.
+--
+-- The series' instances from p_at on that are not DONE are removed first.
+-- p_expected_rrule and p_expected_dtstart are the series as it was read; a
+-- series changed since then is refused.
+
+CREATE OR REPLACE FUNCTION split_task_series(
+    p_series_id uuid,
+    p_at timestamptz,
+    p_expected_rrule text,
+    p_expected_dtstart timestamptz,
+    p_before jsonb,
+    p_following jsonb,
+    p_occurrences jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_series task_series%ROWTYPE;
+    v_target task_series%ROWTYPE;
+    v_created int := 0;
+BEGIN
+    SELECT * INTO v_series FROM task_series WHERE id = p_series_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Series not found');
+    END IF;
+
+    IF v_series.rrule != p_expected_rrule OR v_series.dtstart != p_expected_dtstart THEN
+        RETURN jsonb_build_object('error', 'Series has changed');
+    END IF;
+
+    IF p_before IS NOT NULL THEN
+        UPDATE task_series
+        SET rrule = p_before->>'rrule',
+            ends_at = (p_before->>'ends_at')::timestamptz
+        WHERE id = p_series_id;
+    ELSIF p_following IS NULL THEN
+        UPDATE task_series SET status = 'ENDED' WHERE id = p_series_id;
+    END IF;
+
+    DELETE FROM tasks
+    WHERE series_id = p_series_id
+      AND recurrence_at >= p_at
+      AND status != 'DONE';
+
+    IF p_following IS NULL THEN
+        RETURN jsonb_build_object('series_id', p_series_id, 'instances_created', 0);
+    END IF;
+
+    IF p_before IS NULL THEN
+        UPDATE task_series
+        SET title = p_following->>'title',
+            description = p_following->>'description',
+            priority = p_following->>'priority',
+            owner_user_id = (p_following->>'owner_user_id')::uuid,
+            rrule = p_following->>'rrule',
+            dtstart = (p_following->>'dtstart')::timestamptz,
+            ends_at = (p_following->>'ends_at')::timestamptz,
+            status = 'ACTIVE'
+        WHERE id = p_series_id
+        RETURNING * INTO v_target;
+    ELSE
+        INSERT INTO task_series (
+            circle_id, patient_id, created_by, owner_user_id, title,
+            description, priority, rrule, dtstart, timezone, ends_at,
+            parent_series_id, status
+        ) VALUES (
+            v_series.circle_id,
+            v_series.patient_id,
+            v_series.created_by,
+            (p_following->>'owner_user_id')::uuid,
+            p_following->>'title',
+            p_following->>'description',
+            p_following->>'priority',
+            p_following->>'rrule',
+            (p_following->>'dtstart')::timestamptz,
+            v_series.timezone,
+            (p_following->>'ends_at')::timestamptz,
+            p_series_id,
+            'ACTIVE'
+        )
+        RETURNING * INTO v_target;
+    END IF;
+
+    INSERT INTO tasks (
+        circle_id, patient_id, created_by, owner_user_id, title, description,
+        priority, due_at, status, series_id, recurrence_at
+    )
+    SELECT
+        v_target.circle_id,
+        v_target.patient_id,
+        v_target.created_by,
+        v_target.owner_user_id,
+        v_target.title,
+        v_target.description,
+        v_target.priority,
+        o.value::timestamptz,
+        'OPEN',
+        v_target.id,
+        o.value::timestamptz
+    FROM jsonb_array_elements_text(p_occurrences) o
+    ON CONFLICT (series_id, recurrence_at) DO NOTHING;
+
+    GET DIAGNOSTICS v_created = ROW_COUNT;
+
+    RETURN jsonb_build_object('series_id', v_target.id, 'instances_created', v_created);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by manage-recurring-tasks with the service role after its own
+-- permission checks
+REVOKE EXECUTE ON FUNCTION split_task_series(uuid, timestamptz, text, timestamptz, jsonb, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION split_task_series IS 'End or rewrite a task series from an occurrence and continue it, in one transaction';
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- Migration: Alert Event Cooldown Claims
+-- Description: Claim an alert event only when the rule has not fired for the
+--              subject within its cooldown, instead of once per fixed window
+-- Date: 2026-10-19
+-- ============================================================================
+
+-- ============================================================================
+-- ALERT_EVENTS: drop fixed cooldown windows
+-- ============================================================================
+-- Windows were aligned to the epoch, so two runs either side of a window
+-- boundary could both claim a match within one cooldown.
+
+DROP INDEX IF EXISTS alert_events_rule_subject_window_unique;
+
+ALTER TABLE alert_events
+DROP COLUMN IF EXISTS cooldown_window_start;
+
+-- ============================================================================
+-- FUNCTION: claim_alert_events
+-- ============================================================================
+-- Inserts an alert_events row for each of p_events (alert_events columns as
+-- JSON) whose subject the rule has not fired for within its cooldown, and
+-- returns the rows inserted as [{id, subject_id}]. Claims for one rule and
+-- subject are serialized with a transaction-level advisory lock, so a run
+-- waiting on another sees its row once it commits and skips the subject.
+
+CREATE OR REPLACE FUNCTION claim_alert_events(
+    p_rule_id uuid,
+    p_events jsonb,
+    p_now timestamptz DEFAULT now()
+)
+RETURNS jsonb AS $$
+DECLARE
+    v_rule alert_rules%ROWTYPE;
+    v_event jsonb;
+    v_subject_id uuid;
+    v_id uuid;
+    v_claimed jsonb := '[]'::jsonb;
+BEGIN
+    SELECT * INTO v_rule FROM alert_rules WHERE id = p_rule_id;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('error', 'Rule not found');
+    END IF;
+
+    FOR v_event IN SELECT value FROM jsonb_array_elements(p_events) LOOP
+        v_subject_id := (v_event->>'subject_id')::uuid;
+
+        PERFORM pg_advisory_xact_lock(hashtext(p_rule_id::text || ':' || v_subject_id::text));
+
+        IF EXISTS (
+            SELECT 1 FROM alert_events
+            WHERE rule_id = p_rule_id
+              AND subject_id = v_subject_id
+              AND fired_at >= p_now - make_interval(hours => v_rule.cooldown_hours)
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        INSERT INTO alert_events (
+            circle_id, patient_id, rule_id, rule_key, subject_type,
+            subject_id, dry_run, fired_at, payload_json
+        ) VALUES (
+            v_rule.circle_id,
+            (v_event->>'patient_id')::uuid,
+            p_rule_id,
+            v_event->>'rule_key',
+            v_event->>'subject_type',
+            v_subject_id,
+            COALESCE((v_event->>'dry_run')::boolean, false),
+            p_now,
+            COALESCE(v_event->'payload_json', '{}'::jsonb)
+        )
+        RETURNING id INTO v_id;
+
+        v_claimed := v_claimed || jsonb_build_object('id', v_id, 'subject_id', v_subject_id);
+    END LOOP;
+
+    RETURN v_claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by evaluate-alert-rules with the service role
+REVOKE EXECUTE ON FUNCTION claim_alert_events(uuid, jsonb, timestamptz) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION claim_alert_events IS 'Record alert events for subjects outside the rule cooldown; returns the events claimed';